@@ -433,9 +433,11 @@ export const getTopModels = async () => {
   });
 };
 
-export const getServerPerformance = async (timeRange = '1h') => {
+export const getServerPerformance = async (timeRange = '1h', labels?: string) => {
   return apiCall(async () => {
-    const response = await api.get(`/analytics/server-performance?timeRange=${timeRange}`);
+    const response = await api.get('/analytics/server-performance', {
+      params: { timeRange, labels: labels || undefined },
+    });
     return response.data.servers;
   });
 };
@@ -586,9 +588,11 @@ export const searchRequests = async (params: {
   });
 };
 
-export const getServersWithHistory = async () => {
+export const getServersWithHistory = async (labels?: string) => {
   return apiCall(async () => {
-    const response = await api.get('/analytics/servers-with-history');
+    const response = await api.get('/analytics/servers-with-history', {
+      params: { labels: labels || undefined },
+    });
     return response.data;
   });
 };
@@ -7,6 +7,7 @@ import {
   drainServer,
   undrainServer,
   setServerMaintenance,
+  updateServer,
   getMetrics,
 } from '../api';
 import { Modal } from '../components/Modal';
@@ -20,6 +21,12 @@ import { Plus, Trash2, Server as ServerIcon, Power, PowerOff, Wrench } from 'luc
 import type { AIServer } from '../types';
 import { toastSuccess, toastError } from '../utils/toast';
 import { compareVersions } from '../utils/formatting';
+import {
+  formatLabelMap,
+  matchesLabelSelector,
+  parseLabelMap,
+  parseLabelSelector,
+} from '../utils/labels';
 import { SkeletonServerCard } from '../components/skeletons';
 
 export const Servers = () => {
@@ -39,6 +46,10 @@ export const Servers = () => {
 
   // View options
   const [groupConfig, setGroupConfig] = useState<'none' | 'version' | 'healthy'>('none');
+  const [labelFilter, setLabelFilter] = useState('');
+  const [editingLabels, setEditingLabels] = useState<{ serverId: string; value: string } | null>(
+    null
+  );
 
   const [modelManagerServer, setModelManagerServer] = useState<AIServer | null>(null);
   const [serverToDelete, setServerToDelete] = useState<AIServer | null>(null);
@@ -51,14 +62,17 @@ export const Servers = () => {
 
   // Enrich data for sorting/filtering
   const enrichedServers = useMemo(() => {
-    return (servers || []).map(server => ({
-      ...server,
-      modelCount: server.models.length,
-      status: server.healthy ? 'healthy' : 'unhealthy',
-      supportsOllama: server.supportsOllama !== false && server.type !== 'openai',
-      supportsOpenAI: server.supportsV1 || server.type === 'openai' || server.type === 'auto',
-    }));
-  }, [servers]);
+    const selector = parseLabelSelector(labelFilter);
+    return (servers || [])
+      .filter(server => matchesLabelSelector(server.labels, selector))
+      .map(server => ({
+        ...server,
+        modelCount: server.models.length,
+        status: server.healthy ? 'healthy' : 'unhealthy',
+        supportsOllama: server.supportsOllama !== false && server.type !== 'openai',
+        supportsOpenAI: server.supportsV1 || server.type === 'openai' || server.type === 'auto',
+      }));
+  }, [servers, labelFilter]);
 
   const {
     searchQuery,
@@ -100,6 +114,19 @@ export const Servers = () => {
     },
   });
 
+  const labelsMutation = useMutation({
+    mutationFn: ({ serverId, labels }: { serverId: string; labels: Record<string, string> }) =>
+      updateServer(serverId, { labels }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['servers'] });
+      toastSuccess('Labels updated');
+      setEditingLabels(null);
+    },
+    onError: error => {
+      toastError(error instanceof Error ? error.message : 'Failed to update labels');
+    },
+  });
+
   const removeMutation = useMutation({
     mutationFn: removeServer,
     onSuccess: () => {
@@ -257,6 +284,16 @@ export const Servers = () => {
         filters={filters}
         onFilterChange={handleFilter}
       >
+        {/* Label Filter */}
+        <input
+          type="text"
+          value={labelFilter}
+          onChange={e => setLabelFilter(e.target.value)}
+          placeholder="Labels (gpu=a100,region=eu)"
+          aria-label="Filter by labels"
+          className="bg-gray-950 border border-gray-800 rounded-lg px-3 py-1.5 text-sm text-gray-300 placeholder-gray-600 outline-none focus:border-blue-500"
+        />
+
         {/* Grouping Control */}
         <div className="flex items-center space-x-2 bg-gray-950 rounded-lg px-3 py-1.5 border border-gray-800">
           <span className="text-gray-500 text-xs font-medium">Group:</span>
@@ -360,6 +397,14 @@ export const Servers = () => {
                                 🔑
                               </span>
                             )}
+                            {Object.entries(server.labels ?? {}).map(([key, value]) => (
+                              <span
+                                key={key}
+                                className="px-2 py-0.5 rounded text-xs font-mono bg-gray-700/50 text-gray-300"
+                              >
+                                {value ? `${key}=${value}` : key}
+                              </span>
+                            ))}
                           </div>
                         </div>
                       </div>
@@ -421,6 +466,60 @@ export const Servers = () => {
                                 {server.apiKey ? '***REDACTED***' : 'Not set'}
                               </span>
                             </div>
+                            <div
+                              className="flex justify-between items-center gap-3 p-3 bg-gray-900/50 rounded-lg"
+                              onClick={e => e.stopPropagation()}
+                            >
+                              <span className="text-gray-400">Labels</span>
+                              {editingLabels?.serverId === server.id ? (
+                                <div className="flex items-center gap-2">
+                                  <input
+                                    type="text"
+                                    value={editingLabels.value}
+                                    onChange={e =>
+                                      setEditingLabels({
+                                        serverId: server.id,
+                                        value: e.target.value,
+                                      })
+                                    }
+                                    placeholder="gpu=a100, region=eu"
+                                    aria-label="Server labels"
+                                    className="bg-gray-950 border border-gray-700 rounded px-2 py-1 text-sm text-white font-mono outline-none focus:border-blue-500"
+                                  />
+                                  <button
+                                    onClick={() =>
+                                      labelsMutation.mutate({
+                                        serverId: server.id,
+                                        labels: parseLabelMap(editingLabels.value),
+                                      })
+                                    }
+                                    disabled={labelsMutation.isPending}
+                                    className="text-sm text-blue-400 hover:text-blue-300 disabled:opacity-50"
+                                  >
+                                    Save
+                                  </button>
+                                  <button
+                                    onClick={() => setEditingLabels(null)}
+                                    className="text-sm text-gray-500 hover:text-gray-300"
+                                  >
+                                    Cancel
+                                  </button>
+                                </div>
+                              ) : (
+                                <button
+                                  onClick={() =>
+                                    setEditingLabels({
+                                      serverId: server.id,
+                                      value: formatLabelMap(server.labels),
+                                    })
+                                  }
+                                  className="text-white font-mono text-right hover:text-blue-400"
+                                  title="Edit labels"
+                                >
+                                  {formatLabelMap(server.labels) || 'None'}
+                                </button>
+                              )}
+                            </div>
                           </div>
 
                           {/* VRAM Usage */}
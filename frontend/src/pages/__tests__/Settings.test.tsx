@@ -22,6 +22,7 @@ const mockConfig = {
   enableMetrics: true,
   enableStreaming: true,
   enablePersistence: true,
+  enableProtocolTranslation: true,
   loadBalancer: {
     weights: { latency: 0.35, successRate: 0.3, load: 0.2, capacity: 0.15 },
     thresholds: {
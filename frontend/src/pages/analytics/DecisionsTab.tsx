@@ -28,6 +28,7 @@ interface DecisionsTabProps {
   };
   algorithmStats?: {
     algorithms?: Record<string, { count: number; percentage: number }>;
+    active?: { default: string; models: Record<string, string> };
   };
   scoreTimeline?: {
     dataPoints?: Array<{
@@ -129,6 +130,22 @@ export const DecisionsTab = ({
               <div className="text-gray-500">No decision data available</div>
             )}
           </div>
+          {algorithmStats?.active && (
+            <div className="mt-4 space-y-1 text-sm text-gray-400">
+              <div className="flex justify-between">
+                <span>Active algorithm</span>
+                <span className="font-mono text-white">{algorithmStats.active.default}</span>
+              </div>
+              {Object.entries(algorithmStats.active.models)
+                .filter(([, algorithm]) => algorithm !== algorithmStats.active?.default)
+                .map(([model, algorithm]) => (
+                  <div key={model} className="flex justify-between gap-4">
+                    <span className="truncate">{model}</span>
+                    <span className="font-mono text-white">{algorithm}</span>
+                  </div>
+                ))}
+            </div>
+          )}
         </div>
 
         {/* Score Timeline */}
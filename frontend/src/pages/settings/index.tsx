@@ -7,6 +7,8 @@ import {
   reloadConfig,
   type OrchestratorConfig,
 } from '../../api';
+import type { LoadBalancerAlgorithm } from '../../types';
+import { formatLabelMap, parseLabelMap } from '../../utils/labels';
 import { toastSuccess, toastError } from '../../utils/toast';
 import {
   Save,
@@ -185,9 +187,22 @@ const TextInput = ({ label, value, onChange, description, placeholder, error }:
   </div>
 );
 
+const LOAD_BALANCER_ALGORITHMS: LoadBalancerAlgorithm[] = [
+  'fastest-response',
+  'weighted',
+  'p2c',
+  'least-connections',
+  'round-robin',
+  'random',
+  'streaming-optimized',
+  'consistent-hash',
+];
+
 export const Settings = () => {
   const queryClient = useQueryClient();
   const [editedConfig, setEditedConfig] = useState<Partial<OrchestratorConfig> | null>(null);
+  // Raw text of the per-model algorithm field while editing (null shows the saved overrides)
+  const [modelAlgorithmsText, setModelAlgorithmsText] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState('general');
 
   const { data: config, isLoading } = useQuery({
@@ -221,6 +236,7 @@ export const Settings = () => {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['config'] });
       setEditedConfig(null);
+      setModelAlgorithmsText(null);
     },
   });
 
@@ -272,6 +288,9 @@ export const Settings = () => {
 
   // Safe cast because we checked !config above
   const currentConfig = (editedConfig || config) as OrchestratorConfig;
+  const unknownModelAlgorithm = Object.values(
+    currentConfig.loadBalancer?.modelAlgorithms ?? {}
+  ).find(algorithm => !LOAD_BALANCER_ALGORITHMS.includes(algorithm));
 
   const tabs = [
     { id: 'general', label: 'General', icon: Settings2 },
@@ -425,6 +444,12 @@ export const Settings = () => {
               onChange={checked => updateField('enablePersistence', null, checked)}
               description="Save state to disk for recovery"
             />
+            <Toggle
+              label="Enable Protocol Translation"
+              checked={currentConfig.enableProtocolTranslation ?? true}
+              onChange={checked => updateField('enableProtocolTranslation', null, checked)}
+              description="Serve Ollama and OpenAI clients from servers that speak only the other API"
+            />
           </ConfigSection>
         )}
 
@@ -436,6 +461,36 @@ export const Settings = () => {
             description="Traffic distribution settings"
           >
             <div className="space-y-6">
+              <div>
+                <h4 className="text-sm font-medium text-gray-300 mb-3">Algorithm</h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <SelectInput
+                    label="Default Algorithm"
+                    value={currentConfig.loadBalancer?.algorithm ?? 'fastest-response'}
+                    onChange={value => updateField('loadBalancer', 'algorithm', value)}
+                    options={LOAD_BALANCER_ALGORITHMS}
+                    description="How requests are spread across the servers holding a model"
+                  />
+                  <TextInput
+                    label="Per-Model Algorithms"
+                    value={
+                      modelAlgorithmsText ??
+                      formatLabelMap(currentConfig.loadBalancer?.modelAlgorithms)
+                    }
+                    onChange={value => {
+                      setModelAlgorithmsText(value);
+                      updateField('loadBalancer', 'modelAlgorithms', parseLabelMap(value));
+                    }}
+                    placeholder="nomic-embed-text=least-connections, llama3=streaming-optimized"
+                    description="Overrides as model=algorithm, comma-separated"
+                    error={
+                      unknownModelAlgorithm !== undefined
+                        ? `Unknown algorithm '${unknownModelAlgorithm}'`
+                        : undefined
+                    }
+                  />
+                </div>
+              </div>
               <div>
                 <h4 className="text-sm font-medium text-gray-300 mb-3">Algorithm Weights</h4>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -54,7 +54,19 @@ export interface LoadBalancerLeastConnections {
   failureRatePenalty: number;
 }
 
+export type LoadBalancerAlgorithm =
+  | 'weighted'
+  | 'round-robin'
+  | 'least-connections'
+  | 'random'
+  | 'fastest-response'
+  | 'streaming-optimized'
+  | 'p2c'
+  | 'consistent-hash';
+
 export interface LoadBalancerConfig {
+  algorithm: LoadBalancerAlgorithm;
+  modelAlgorithms: Record<string, LoadBalancerAlgorithm>;
   weights: LoadBalancerWeights;
   thresholds: LoadBalancerThresholds;
   latencyBlendRecent: number;
@@ -203,6 +215,7 @@ export interface OrchestratorConfig {
   enableMetrics: boolean;
   enableStreaming: boolean;
   enablePersistence: boolean;
+  enableProtocolTranslation: boolean;
 
   // Sub-configurations
   queue: QueueConfig;
@@ -242,6 +255,8 @@ export interface AIServer {
   v1Models?: string[];
   // NEW: Optional API key (redacted in responses)
   apiKey?: string;
+  // Free-form labels used for label-based routing constraints
+  labels?: Record<string, string>;
   // Operational state
   draining?: boolean;
   maintenance?: boolean;
@@ -0,0 +1,38 @@
+/**
+ * Server label helpers (mirrors the backend selector syntax: `gpu=a100,region=eu,ssd`)
+ */
+
+export interface LabelTerm {
+  key: string;
+  value?: string;
+}
+
+export const parseLabelSelector = (selector: string): LabelTerm[] =>
+  selector
+    .split(',')
+    .map(term => term.trim())
+    .filter(Boolean)
+    .map(term => {
+      const eq = term.indexOf('=');
+      return eq < 0
+        ? { key: term }
+        : { key: term.slice(0, eq).trim(), value: term.slice(eq + 1).trim() };
+    });
+
+export const matchesLabelSelector = (
+  labels: Record<string, string> | undefined,
+  terms: LabelTerm[]
+): boolean =>
+  terms.every(term => {
+    const value = labels?.[term.key];
+    return value !== undefined && (term.value === undefined || value === term.value);
+  });
+
+/** Parse `key=value` pairs into a label map, e.g. for the label editor */
+export const parseLabelMap = (input: string): Record<string, string> =>
+  Object.fromEntries(parseLabelSelector(input).map(term => [term.key, term.value ?? '']));
+
+export const formatLabelMap = (labels: Record<string, string> | undefined): string =>
+  Object.entries(labels ?? {})
+    .map(([key, value]) => (value ? `${key}=${value}` : key))
+    .join(', ');
@@ -16,8 +16,14 @@ import type {
   MetricsWindow,
   TimeWindow,
   RequestContext,
+  RequestPriority,
 } from '../orchestrator.types.js';
-import { getRequestHistory, type RequestRecord, type RequestStats } from '../request-history.js';
+import {
+  getRequestHistory,
+  type PriorityClassStats,
+  type RequestRecord,
+  type RequestStats,
+} from '../request-history.js';
 import { logger } from '../utils/logger.js';
 import { Statistics } from '../utils/statistics.js';
 
@@ -69,6 +75,7 @@ export interface CapacityData {
     usedCapacity: number;
     availableCapacity: number;
     queueDepth: number;
+    queueDepthByModel: Record<string, number>;
     saturation: number;
   };
   forecast: {
@@ -526,7 +533,11 @@ export class AnalyticsEngine {
   /**
    * Get capacity planning data
    */
-  getCapacityAnalysis(queueDepth = 0, _timeRange: AnalyticsTimeRange = '24h'): CapacityData {
+  getCapacityAnalysis(
+    queueDepth = 0,
+    _timeRange: AnalyticsTimeRange = '24h',
+    queueDepthByModel: Record<string, number> = {}
+  ): CapacityData {
     // Calculate current capacity
     let totalCapacity = 0;
     let usedCapacity = 0;
@@ -581,6 +592,15 @@ export class AnalyticsEngine {
       recommendations.push('Queue depth is high - add capacity or increase processing speed');
     }
 
+    const [busiestModel, busiestDepth] = Object.entries(queueDepthByModel).reduce<
+      [string | undefined, number]
+    >((max, [model, depth]) => (depth > max[1] ? [model, depth] : max), [undefined, 0]);
+    if (busiestModel && busiestDepth > 0 && busiestDepth >= queueDepth * 0.5) {
+      recommendations.push(
+        `Model ${busiestModel} has ${busiestDepth} queued request(s) - add servers hosting it or raise their max concurrency`
+      );
+    }
+
     // Find worst performing server
     const serverPerformance = this.getServerPerformance('1h');
     const worstServer = serverPerformance[serverPerformance.length - 1];
@@ -596,6 +616,7 @@ export class AnalyticsEngine {
         usedCapacity,
         availableCapacity,
         queueDepth,
+        queueDepthByModel,
         saturation: Math.round(saturation * 100) / 100,
       },
       forecast: {
@@ -1127,7 +1148,9 @@ export class AnalyticsEngine {
     serverId?: string;
     model?: string;
     endpoint?: string;
+    priority?: RequestPriority;
     success?: boolean;
+    cacheHit?: boolean;
     startTime?: number;
     endTime?: number;
     limit?: number;
@@ -1135,6 +1158,13 @@ export class AnalyticsEngine {
     return getRequestHistory().searchRequests(params);
   }
 
+  /**
+   * Get latency and error statistics per priority class
+   */
+  getPriorityStats(hours = 24): Record<RequestPriority, PriorityClassStats> {
+    return getRequestHistory().getPriorityStats(hours);
+  }
+
   /**
    * Get error summary for a server
    */
@@ -0,0 +1,756 @@
+/**
+ * batch-manager.ts
+ * OpenAI Batch API (/v1/batches): runs the requests of an uploaded JSONL file through the
+ * normal routing at low priority, writes results to output and error files, and keeps batch
+ * state under `persistencePath` so unfinished batches resume after a restart
+ */
+
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+import { getConfigManager, DEFAULT_CONFIG, type BatchesConfig } from './config/config.js';
+import { JsonFileHandler } from './config/jsonFileHandler.js';
+import { deriveRequestKey } from './load-balancer.js';
+import {
+  classifyOpenAIError,
+  executeOpenAICompletion,
+  executeOpenAIEmbeddings,
+  validateCompletionRequest,
+} from './openai-executors.js';
+import { getOrchestratorInstance, type RoutingContext } from './orchestrator-instance.js';
+import type { CapacityUsage } from './orchestrator.types.js';
+import { sleep } from './utils/async-helpers.js';
+import { getFileStore, type FileStore } from './utils/file-store.js';
+import { isShortGeneration } from './utils/hedging.js';
+import { safeJsonParse, safeJsonStringify } from './utils/json-utils.js';
+import { logger } from './utils/logger.js';
+import type { QueueStats } from './utils/request-queue.js';
+import type { LabelConstraints } from './utils/server-labels.js';
+import { VISION_CAPABILITY, prepareImageInputs } from './utils/vision.js';
+
+/** Endpoints a batch can target */
+export const BATCH_ENDPOINTS = ['/v1/chat/completions', '/v1/completions', '/v1/embeddings'];
+
+/** The only completion window OpenAI offers */
+export const COMPLETION_WINDOW = '24h';
+const COMPLETION_WINDOW_SECONDS = 24 * 60 * 60;
+
+/** How often a yielding batch checks whether interactive traffic has drained */
+const YIELD_POLL_MS = 500;
+
+/** Minimum interval between progress writes while a batch runs */
+const PERSIST_INTERVAL_MS = 1000;
+
+export type BatchStatus =
+  | 'validating'
+  | 'failed'
+  | 'in_progress'
+  | 'finalizing'
+  | 'completed'
+  | 'expired'
+  | 'cancelling'
+  | 'cancelled';
+
+export interface BatchError {
+  code: string;
+  message: string;
+  param?: string | null;
+  line?: number | null;
+}
+
+/** OpenAI batch object */
+export interface BatchObject {
+  id: string;
+  object: 'batch';
+  endpoint: string;
+  errors: { object: 'list'; data: BatchError[] } | null;
+  input_file_id: string;
+  completion_window: string;
+  status: BatchStatus;
+  output_file_id: string | null;
+  error_file_id: string | null;
+  created_at: number;
+  in_progress_at: number | null;
+  expires_at: number;
+  finalizing_at: number | null;
+  completed_at: number | null;
+  failed_at: number | null;
+  expired_at: number | null;
+  cancelling_at: number | null;
+  cancelled_at: number | null;
+  request_counts: { total: number; completed: number; failed: number };
+  metadata: Record<string, string> | null;
+}
+
+/** Routing preferences of the client that created a batch, applied to each of its requests */
+export interface BatchRouting {
+  labelConstraints?: LabelConstraints;
+  allowFallback?: boolean;
+}
+
+/**
+ * Batch state on disk: the batch object plus the owner tag and routing preferences of the
+ * client that created it
+ */
+interface StoredBatch extends BatchObject {
+  owner?: string;
+  routing?: BatchRouting;
+}
+
+/** The batch object as returned to clients, without internal fields */
+function toBatchObject({ owner: _owner, routing: _routing, ...batch }: StoredBatch): BatchObject {
+  return { ...batch, request_counts: { ...batch.request_counts } };
+}
+
+/** One line of a batch input file */
+export interface BatchRequestLine {
+  custom_id: string;
+  method: 'POST';
+  url: string;
+  body: Record<string, unknown>;
+}
+
+/** Runs one batch request; rejects with a BatchRequestError for a non-200 outcome */
+export type BatchExecutor = (
+  url: string,
+  body: Record<string, unknown>,
+  routing?: BatchRouting
+) => Promise<unknown>;
+
+/** A failed batch request, with the HTTP status the endpoint would have replied with */
+export class BatchRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number,
+    public readonly code: string
+  ) {
+    super(message);
+    this.name = 'BatchRequestError';
+  }
+}
+
+/** Outcome of one batch request: a line for the output file or one for the error file */
+interface BatchResult {
+  kind: 'output' | 'errors';
+  line: Record<string, unknown>;
+}
+
+/** Capacity failures (no server free, queue shed or full): worth trying again later */
+function isRetryable(error: unknown): boolean {
+  return error instanceof BatchRequestError && error.statusCode === 503;
+}
+
+function errorResult(error: unknown): BatchResult {
+  const statusCode = error instanceof BatchRequestError ? error.statusCode : 500;
+  const code = error instanceof BatchRequestError ? error.code : 'internal_error';
+  const message = error instanceof Error ? error.message : String(error);
+  return {
+    kind: 'errors',
+    line: {
+      status_code: statusCode,
+      body: {
+        error: {
+          message,
+          type: statusCode < 500 ? 'invalid_request_error' : 'server_error',
+          code,
+        },
+      },
+    },
+  };
+}
+
+export interface BatchManagerOptions {
+  dir: string;
+  fileStore?: FileStore;
+  execute?: BatchExecutor;
+  /** Admission queue stats, to yield while higher-priority requests wait */
+  getQueueStats?: () => QueueStats;
+  /** In-flight load against server capacity, to yield while servers are busy */
+  getCapacityUsage?: () => CapacityUsage;
+  getConfig?: () => BatchesConfig;
+}
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse and validate a batch input file. Every line must be a POST to `endpoint` with a
+ * unique custom_id and a body naming a model.
+ */
+export function parseBatchInput(
+  content: string,
+  endpoint: string | undefined,
+  maxRequests: number
+): { requests: BatchRequestLine[]; errors: BatchError[] } {
+  const requests: BatchRequestLine[] = [];
+  const errors: BatchError[] = [];
+  const customIds = new Set<string>();
+
+  const lines = content.split('\n');
+  lines.forEach((text, index) => {
+    const line = index + 1;
+    if (!text.trim()) {
+      return;
+    }
+    const request = safeJsonParse(text);
+    if (!isObject(request)) {
+      errors.push({ code: 'invalid_json_line', message: 'Line is not a JSON object', line });
+      return;
+    }
+    if (typeof request.custom_id !== 'string' || !request.custom_id) {
+      errors.push({ code: 'missing_required_parameter', message: 'Missing custom_id', line });
+    } else if (customIds.has(request.custom_id)) {
+      errors.push({
+        code: 'duplicate_custom_id',
+        message: `Duplicate custom_id '${request.custom_id}'`,
+        line,
+      });
+    } else if (request.method !== 'POST') {
+      errors.push({ code: 'invalid_method', message: "method must be 'POST'", line });
+    } else if (
+      typeof request.url !== 'string' ||
+      !BATCH_ENDPOINTS.includes(request.url) ||
+      (endpoint !== undefined && request.url !== endpoint)
+    ) {
+      errors.push({
+        code: 'invalid_url',
+        message: `url must be ${endpoint ?? `one of ${BATCH_ENDPOINTS.join(', ')}`}`,
+        line,
+      });
+    } else if (!isObject(request.body) || typeof request.body.model !== 'string') {
+      errors.push({ code: 'invalid_body', message: 'body must be an object with a model', line });
+    } else if (request.body.stream === true) {
+      errors.push({ code: 'invalid_body', message: 'Batch requests cannot stream', line });
+    } else {
+      customIds.add(request.custom_id);
+      requests.push(request as unknown as BatchRequestLine);
+    }
+  });
+
+  if (requests.length + errors.length === 0) {
+    errors.push({ code: 'empty_file', message: 'The input file has no requests', line: null });
+  } else if (requests.length + errors.length > maxRequests) {
+    errors.push({
+      code: 'too_many_requests',
+      message: `A batch may have at most ${maxRequests} requests`,
+      line: null,
+    });
+  }
+  return { requests, errors };
+}
+
+/**
+ * Run one batch request through the orchestrator at low priority, the way the matching
+ * non-streaming /v1 endpoint would, with the label constraints and fallback opt-in of the
+ * client that created the batch
+ */
+export async function executeBatchRequest(
+  url: string,
+  body: Record<string, unknown>,
+  routing: BatchRouting = {}
+): Promise<unknown> {
+  const endpoint = url === '/v1/chat/completions' ? 'chat' : 'completions';
+  if (url !== '/v1/embeddings') {
+    const requestError = validateCompletionRequest(body);
+    if (requestError) {
+      throw new BatchRequestError(requestError.message, 400, requestError.code);
+    }
+  }
+  const imageCount = Array.isArray(body.messages) ? await prepareImageInputs(body.messages) : 0;
+  if (typeof imageCount !== 'number') {
+    throw new BatchRequestError(imageCount.error, 400, imageCount.code);
+  }
+
+  const model = getOrchestratorInstance().resolveModelAlias(body.model as string, 'openai');
+  const routingContext: RoutingContext = {
+    priority: 'low',
+    labelConstraints: routing.labelConstraints,
+    allowFallback: routing.allowFallback,
+    hedge: url === '/v1/embeddings' || isShortGeneration(body.max_tokens),
+    requestKey: deriveRequestKey(model, body.messages ?? body.prompt ?? body.input),
+    ...(imageCount > 0 && { modelCapabilities: [VISION_CAPABILITY] }),
+  };
+
+  try {
+    return url === '/v1/embeddings'
+      ? await executeOpenAIEmbeddings({ ...body, model }, routingContext)
+      : await executeOpenAICompletion(endpoint, { ...body, model }, routingContext);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Request failed';
+    const { statusCode, code } = classifyOpenAIError(error);
+    throw new BatchRequestError(message, statusCode, code);
+  }
+}
+
+export class BatchManager {
+  private dir: string;
+  private fileStoreOverride?: FileStore;
+  private execute: BatchExecutor;
+  private getQueueStats: () => QueueStats;
+  private getCapacityUsage: () => CapacityUsage;
+  private getConfig: () => BatchesConfig;
+  private batches = new Map<string, StoredBatch>();
+  private pending: string[] = [];
+  private running?: Promise<void>;
+  private stopped = false;
+
+  constructor(options: BatchManagerOptions) {
+    this.dir = options.dir;
+    this.fileStoreOverride = options.fileStore;
+    this.execute = options.execute ?? executeBatchRequest;
+    this.getQueueStats =
+      options.getQueueStats ?? ((): QueueStats => getOrchestratorInstance().getQueueStats());
+    this.getCapacityUsage =
+      options.getCapacityUsage ??
+      ((): CapacityUsage => getOrchestratorInstance().getCapacityUsage());
+    this.getConfig =
+      options.getConfig ??
+      ((): BatchesConfig => getConfigManager().getConfig().batches ?? DEFAULT_CONFIG.batches);
+    fs.mkdirSync(this.dir, { recursive: true });
+  }
+
+  private get fileStore(): FileStore {
+    return this.fileStoreOverride ?? getFileStore();
+  }
+
+  private statePath(id: string): string {
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  private resultsPath(id: string, kind: 'output' | 'errors'): string {
+    return path.join(this.dir, `${id}.${kind}.jsonl`);
+  }
+
+  private persist(batch: StoredBatch): void {
+    new JsonFileHandler(this.statePath(batch.id), { createBackups: false }).write(batch);
+  }
+
+  /**
+   * Load persisted batches and resume the unfinished ones
+   */
+  start(): void {
+    this.stopped = false;
+    for (const entry of fs.readdirSync(this.dir)) {
+      if (!/^batch_[a-f0-9]+\.json$/.test(entry)) {
+        continue;
+      }
+      const batch = new JsonFileHandler(path.join(this.dir, entry)).read<StoredBatch>();
+      if (!batch?.id) {
+        continue;
+      }
+      this.batches.set(batch.id, batch);
+      if (!this.isFinished(batch) && !this.pending.includes(batch.id)) {
+        this.pending.push(batch.id);
+      }
+    }
+    if (this.pending.length > 0) {
+      logger.info(`Resuming ${this.pending.length} unfinished batches`);
+    }
+    this.kick();
+  }
+
+  /**
+   * Stop taking new batch requests and wait for the ones in flight. Unfinished batches
+   * stay on disk and resume on the next start().
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    await this.running;
+  }
+
+  private isFinished(batch: StoredBatch): boolean {
+    return ['failed', 'completed', 'expired', 'cancelled'].includes(batch.status);
+  }
+
+  /**
+   * Validate create parameters. Returns an error message, or undefined when valid.
+   */
+  validateCreate(params: Record<string, unknown>): string | undefined {
+    if (typeof params.input_file_id !== 'string' || !this.fileStore.get(params.input_file_id)) {
+      return `No file found with id '${String(params.input_file_id)}'`;
+    }
+    if (typeof params.endpoint !== 'string' || !BATCH_ENDPOINTS.includes(params.endpoint)) {
+      return `endpoint must be one of ${BATCH_ENDPOINTS.join(', ')}`;
+    }
+    if (params.completion_window !== COMPLETION_WINDOW) {
+      return `completion_window must be '${COMPLETION_WINDOW}'`;
+    }
+    if (params.metadata !== undefined && params.metadata !== null && !isObject(params.metadata)) {
+      return 'metadata must be an object';
+    }
+    return undefined;
+  }
+
+  /**
+   * Create a batch and queue it to run. Its output and error files get the batch's owner tag,
+   * and its requests are routed with `routing`.
+   */
+  create(params: {
+    input_file_id: string;
+    endpoint: string;
+    completion_window: string;
+    metadata?: Record<string, string> | null;
+    owner?: string;
+    routing?: BatchRouting;
+  }): BatchObject {
+    const createdAt = nowSeconds();
+    const batch: StoredBatch = {
+      id: `batch_${randomUUID().replace(/-/g, '')}`,
+      object: 'batch',
+      endpoint: params.endpoint,
+      errors: null,
+      input_file_id: params.input_file_id,
+      completion_window: params.completion_window,
+      status: 'validating',
+      output_file_id: null,
+      error_file_id: null,
+      created_at: createdAt,
+      in_progress_at: null,
+      expires_at: createdAt + COMPLETION_WINDOW_SECONDS,
+      finalizing_at: null,
+      completed_at: null,
+      failed_at: null,
+      expired_at: null,
+      cancelling_at: null,
+      cancelled_at: null,
+      request_counts: { total: 0, completed: 0, failed: 0 },
+      metadata: params.metadata ?? null,
+      owner: params.owner,
+      routing: params.routing,
+    };
+    this.batches.set(batch.id, batch);
+    this.persist(batch);
+    this.pending.push(batch.id);
+    this.kick();
+    return toBatchObject(batch);
+  }
+
+  get(id: string): BatchObject | undefined {
+    const batch = this.batches.get(id);
+    return batch ? toBatchObject(batch) : undefined;
+  }
+
+  /**
+   * Owner tag a batch was created with, or undefined for an unknown or unowned batch
+   */
+  getOwner(id: string): string | undefined {
+    return this.batches.get(id)?.owner;
+  }
+
+  /**
+   * Batches newest first, paginated with an `after` cursor, optionally only those whose
+   * owner tag passes `canAccess`
+   */
+  list(
+    after?: string,
+    limit = 20,
+    canAccess?: (owner: string | undefined) => boolean
+  ): { data: BatchObject[]; hasMore: boolean } {
+    const all = [...this.batches.values()]
+      .filter(batch => !canAccess || canAccess(batch.owner))
+      .sort((a, b) => b.created_at - a.created_at || b.id.localeCompare(a.id));
+    const start = after ? all.findIndex(batch => batch.id === after) + 1 : 0;
+    const page = all.slice(start, start + limit);
+    return {
+      data: page.map(toBatchObject),
+      hasMore: start + limit < all.length,
+    };
+  }
+
+  /**
+   * Cancel a batch. Requests in flight finish; the rest are skipped and the results so far
+   * are kept. Returns undefined for an unknown batch.
+   */
+  cancel(id: string): BatchObject | undefined {
+    const batch = this.batches.get(id);
+    if (!batch) {
+      return undefined;
+    }
+    if (batch.status === 'validating' || batch.status === 'in_progress') {
+      batch.status = 'cancelling';
+      batch.cancelling_at = nowSeconds();
+      this.persist(batch);
+      this.kick();
+    }
+    return this.get(id);
+  }
+
+  private kick(): void {
+    if (this.running || this.stopped) {
+      return;
+    }
+    this.running = this.runPending().finally(() => {
+      this.running = undefined;
+      // A batch created while the last one was finishing still needs a run
+      if (this.pending.length > 0 && !this.stopped) {
+        this.kick();
+      }
+    });
+  }
+
+  private async runPending(): Promise<void> {
+    while (this.pending.length > 0 && !this.stopped) {
+      const batch = this.batches.get(this.pending[0]);
+      if (batch) {
+        try {
+          await this.process(batch);
+        } catch (error) {
+          logger.error('Batch processing failed', { batchId: batch.id, error });
+          this.fail(batch, [
+            {
+              code: 'internal_error',
+              message: error instanceof Error ? error.message : String(error),
+            },
+          ]);
+        }
+      }
+      if (!this.stopped) {
+        this.pending.shift();
+      }
+    }
+  }
+
+  private fail(batch: StoredBatch, errors: BatchError[]): void {
+    batch.status = 'failed';
+    batch.failed_at = nowSeconds();
+    batch.errors = { object: 'list', data: errors };
+    this.persist(batch);
+  }
+
+  /**
+   * Custom IDs already answered in a batch's result files, so a resumed batch skips them
+   */
+  private readDone(batch: StoredBatch): Set<string> {
+    const done = new Set<string>();
+    batch.request_counts.completed = 0;
+    batch.request_counts.failed = 0;
+    for (const kind of ['output', 'errors'] as const) {
+      const file = this.resultsPath(batch.id, kind);
+      if (!fs.existsSync(file)) {
+        continue;
+      }
+      for (const text of fs.readFileSync(file, 'utf-8').split('\n')) {
+        const result = text.trim() ? safeJsonParse(text) : undefined;
+        if (isObject(result) && typeof result.custom_id === 'string') {
+          done.add(result.custom_id);
+          batch.request_counts[kind === 'output' ? 'completed' : 'failed']++;
+        }
+      }
+    }
+    return done;
+  }
+
+  private async process(batch: StoredBatch): Promise<void> {
+    let requests: BatchRequestLine[] = [];
+    if (batch.status === 'validating' || batch.status === 'in_progress') {
+      const content = this.fileStore.read(batch.input_file_id);
+      if (content === undefined) {
+        this.fail(batch, [
+          { code: 'file_not_found', message: `Input file ${batch.input_file_id} is gone` },
+        ]);
+        return;
+      }
+      const parsed = parseBatchInput(content, batch.endpoint, this.getConfig().maxRequestsPerBatch);
+      if (parsed.errors.length > 0) {
+        this.fail(batch, parsed.errors);
+        return;
+      }
+      requests = parsed.requests;
+    }
+
+    if (batch.status === 'validating') {
+      batch.status = 'in_progress';
+      batch.in_progress_at = nowSeconds();
+      batch.request_counts.total = requests.length;
+      this.persist(batch);
+      logger.info('Batch started', { batchId: batch.id, requests: requests.length });
+    }
+
+    if (batch.status === 'in_progress') {
+      const done = this.readDone(batch);
+      await this.runRequests(
+        batch,
+        requests.filter(request => !done.has(request.custom_id))
+      );
+      if (this.stopped) {
+        this.persist(batch);
+        return;
+      }
+    }
+    this.finalize(batch);
+  }
+
+  private async runRequests(batch: StoredBatch, requests: BatchRequestLine[]): Promise<void> {
+    let next = 0;
+    let lastPersist = Date.now();
+
+    const worker = async (): Promise<void> => {
+      while (next < requests.length && this.shouldContinue(batch)) {
+        await this.yieldToInteractiveTraffic();
+        if (!this.shouldContinue(batch)) {
+          return;
+        }
+        const request = requests[next++];
+        const result = await this.runRequest(batch, request);
+        if (!result) {
+          return;
+        }
+        const { kind, line } = result;
+        const resultId = `batch_req_${randomUUID().replace(/-/g, '')}`;
+        fs.appendFileSync(
+          this.resultsPath(batch.id, kind),
+          `${safeJsonStringify({
+            id: resultId,
+            custom_id: request.custom_id,
+            response: { ...line, request_id: resultId },
+            error: null,
+          })}\n`
+        );
+        batch.request_counts[kind === 'output' ? 'completed' : 'failed']++;
+        if (Date.now() - lastPersist >= PERSIST_INTERVAL_MS) {
+          lastPersist = Date.now();
+          this.persist(batch);
+        }
+      }
+    };
+
+    const workers = Math.max(1, Math.min(this.getConfig().concurrency, requests.length));
+    await Promise.all(Array.from({ length: workers }, () => worker()));
+  }
+
+  /**
+   * Run one request, retrying capacity failures with exponential backoff until the completion
+   * window runs out. Undefined when the batch stops or is cancelled first, leaving the request
+   * unanswered (a resumed batch runs it again).
+   */
+  private async runRequest(
+    batch: StoredBatch,
+    request: BatchRequestLine
+  ): Promise<BatchResult | undefined> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const body = await this.execute(request.url, request.body, batch.routing);
+        return { kind: 'output', line: { status_code: 200, body } };
+      } catch (error) {
+        if (!isRetryable(error)) {
+          return errorResult(error);
+        }
+        const { retryDelayMs, maxRetryDelayMs } = this.getConfig();
+        await this.waitToRetry(batch, Math.min(retryDelayMs * 2 ** attempt, maxRetryDelayMs));
+        if (this.stopped || batch.status !== 'in_progress') {
+          return undefined;
+        }
+        if (nowSeconds() >= batch.expires_at) {
+          return errorResult(error);
+        }
+        logger.debug('Retrying batch request after a capacity failure', {
+          batchId: batch.id,
+          customId: request.custom_id,
+          attempt: attempt + 1,
+        });
+        await this.yieldToInteractiveTraffic();
+      }
+    }
+  }
+
+  /**
+   * Sleep before a retry, waking early when the batch stops, is cancelled or expires
+   */
+  private async waitToRetry(batch: StoredBatch, delayMs: number): Promise<void> {
+    const deadline = Date.now() + delayMs;
+    while (Date.now() < deadline && this.shouldContinue(batch)) {
+      await sleep(Math.min(YIELD_POLL_MS, deadline - Date.now()));
+    }
+  }
+
+  private shouldContinue(batch: StoredBatch): boolean {
+    return !this.stopped && batch.status === 'in_progress' && nowSeconds() < batch.expires_at;
+  }
+
+  /**
+   * Wait while normal or high priority requests are queued, or while `yieldLoadRatio` of
+   * healthy server capacity is in flight, so batch work only takes capacity interactive
+   * traffic leaves free
+   */
+  private async yieldToInteractiveTraffic(): Promise<void> {
+    while (!this.stopped && this.isInteractiveTrafficWaiting()) {
+      await sleep(YIELD_POLL_MS);
+    }
+  }
+
+  private isInteractiveTrafficWaiting(): boolean {
+    const { byPriority } = this.getQueueStats();
+    if ((byPriority.high ?? 0) + (byPriority.normal ?? 0) > 0) {
+      return true;
+    }
+    const { inFlight, capacity } = this.getCapacityUsage();
+    return capacity > 0 && inFlight >= capacity * this.getConfig().yieldLoadRatio;
+  }
+
+  /**
+   * Publish the result files and settle the batch's final status
+   */
+  private finalize(batch: StoredBatch): void {
+    const cancelled = batch.status === 'cancelling';
+    const expired = !cancelled && nowSeconds() >= batch.expires_at;
+    if (!cancelled && !expired) {
+      batch.status = 'finalizing';
+      batch.finalizing_at = nowSeconds();
+      this.persist(batch);
+    }
+
+    for (const kind of ['output', 'errors'] as const) {
+      const file = this.resultsPath(batch.id, kind);
+      if (!fs.existsSync(file)) {
+        continue;
+      }
+      const stored = this.fileStore.create(
+        `${batch.id}_${kind === 'output' ? 'output' : 'error'}.jsonl`,
+        'batch_output',
+        fs.readFileSync(file),
+        batch.owner
+      );
+      batch[kind === 'output' ? 'output_file_id' : 'error_file_id'] = stored.id;
+      fs.rmSync(file, { force: true });
+    }
+
+    const now = nowSeconds();
+    if (cancelled) {
+      batch.status = 'cancelled';
+      batch.cancelled_at = now;
+    } else if (expired) {
+      batch.status = 'expired';
+      batch.expired_at = now;
+    } else {
+      batch.status = 'completed';
+      batch.completed_at = now;
+    }
+    this.persist(batch);
+    logger.info('Batch finished', {
+      batchId: batch.id,
+      status: batch.status,
+      ...batch.request_counts,
+    });
+  }
+}
+
+let managerInstance: BatchManager | undefined;
+
+export function getBatchManager(): BatchManager {
+  if (!managerInstance) {
+    managerInstance = new BatchManager({
+      dir: path.join(getConfigManager().getConfig().persistencePath, 'batches'),
+    });
+  }
+  return managerInstance;
+}
+
+export function resetBatchManager(): void {
+  managerInstance = undefined;
+}
@@ -7,10 +7,13 @@ import fs from 'fs/promises';
 import path from 'path';
 
 import type { CircuitBreakerConfig } from '../circuit-breaker.js';
-import type { LoadBalancerConfig } from '../load-balancer.js';
+import { isLoadBalancerAlgorithm, type LoadBalancerConfig } from '../load-balancer.js';
 import type { ModelManagerConfig } from '../model-manager.js';
+import type { RequestPriority } from '../orchestrator.types.js';
 import { safeJsonParse, safeJsonStringify } from '../utils/json-utils.js';
 import { logger } from '../utils/logger.js';
+import { validateModelAliases } from '../utils/model-aliases.js';
+import { validateModelFallbacks } from '../utils/model-fallback.js';
 
 // Configuration types
 export interface ServerConfig {
@@ -18,6 +21,7 @@ export interface ServerConfig {
   url: string;
   type: 'ollama' | 'openai' | 'auto';
   maxConcurrency?: number;
+  labels?: Record<string, string>;
 }
 
 export interface SecurityConfig {
@@ -26,6 +30,20 @@ export interface SecurityConfig {
   rateLimitMax: number;
   apiKeyHeader?: string;
   apiKeys?: string[];
+  defaultPriority?: RequestPriority; // Priority for requests without a header or key default
+  apiKeyPriorities?: Record<string, RequestPriority>; // Per-API-key default priority
+  apiKeyLabelPolicies?: Record<string, LabelPolicy>; // Per-API-key server label constraints
+  fallbackApiKeys?: string[]; // API keys whose requests opt into model fallback chains
+  responseCacheApiKeys?: string[]; // API keys whose requests opt into the response cache
+}
+
+/**
+ * Server label constraints applied to every request made with an API key.
+ * Selectors use the X-Require-Labels syntax, e.g. "gpu=a100,region=eu".
+ */
+export interface LabelPolicy {
+  require?: string;
+  prefer?: string;
 }
 
 export interface MetricsDecayConfig {
@@ -87,6 +105,83 @@ export interface CooldownConfig {
   defaultMaxConcurrency: number; // Default max concurrency for servers
 }
 
+export interface QueueConfig {
+  maxSize: number; // Max requests waiting for a free concurrency slot
+  timeout: number; // Max time a request may wait in the queue (ms)
+  priorityBoostInterval: number; // How often waiting requests gain priority (ms)
+  priorityBoostAmount: number; // Priority added per boost interval
+  maxPriority: number; // Ceiling for aged priority
+  lowPriorityShedThreshold: number; // Queue fill ratio (0-1) at which low-priority requests are shed
+}
+
+export interface SessionAffinityConfig {
+  enabled: boolean; // Route chat turns of the same conversation to the same server
+  ttlMs: number; // How long an idle session stays bound to its server
+  maxSessions: number; // Max tracked sessions (least recently used are evicted)
+}
+
+export interface HedgingConfig {
+  enabled: boolean; // Duplicate slow short non-streaming requests to the next-best server
+  maxExtraLoadRatio: number; // Hedges allowed per eligible request (0.05 = at most 5% extra load)
+  minDelayMs: number; // Lower bound for the hedge delay (the server's p95 latency)
+  maxDelayMs: number; // Upper bound for the hedge delay
+  minSamples: number; // Latency samples needed before a server's p95 is trusted
+  maxGenerateTokens: number; // Generations with num_predict/max_tokens up to this are hedgeable
+}
+
+export interface ResponsesConfig {
+  storeTtlMs: number; // How long /v1/responses results stay available to previous_response_id
+  maxStoredResponses: number; // Oldest stored responses are evicted beyond this
+}
+
+export interface BatchesConfig {
+  concurrency: number; // Batch requests in flight at once, across all batches
+  maxRequestsPerBatch: number; // Lines allowed in one batch input file
+  maxFileBytes: number; // Largest accepted /v1/files upload
+  retryDelayMs: number; // First backoff before retrying a request that failed for lack of capacity
+  maxRetryDelayMs: number; // Cap on that backoff, which doubles with each retry
+  yieldLoadRatio: number; // Batch work waits while this share of healthy server capacity is in flight
+}
+
+export interface VisionConfig {
+  allowRemoteImages: boolean; // Fetch http(s) image URLs; otherwise only data: URLs are accepted
+  maxImages: number; // Images allowed in one request
+  maxImageBytes: number; // Largest decoded image
+  remoteImageTimeoutMs: number; // Timeout for fetching one remote image
+}
+
+export interface EmbeddingShardingConfig {
+  enabled: boolean; // Split large embedding input arrays into sub-batches spread across servers
+  shardSize: number; // Inputs per sub-batch; requests with more inputs than this are sharded
+  maxConcurrentShards: number; // Sub-batches of one request in flight at once
+  shardRetries: number; // Extra attempts for a sub-batch whose failover was exhausted
+}
+
+export interface EmbeddingCacheConfig {
+  enabled: boolean; // Serve repeated embedding inputs from the cache
+  maxMemoryEntries: number; // Embeddings kept in the in-memory LRU tier
+  persistent: boolean; // Also keep embeddings on disk under persistencePath
+  maxDiskEntries: number; // Embeddings kept on disk; the oldest are removed beyond this
+}
+
+export interface ResponseCacheConfig {
+  enabled: boolean; // Serve opted-in deterministic generations from the cache
+  ttlMs: number; // How long a cached response is served
+  maxEntries: number; // Responses kept at once
+  maxSizeBytes: number; // Total size of the cached responses
+}
+
+export interface SingleFlightConfig {
+  enabled: boolean; // Coalesce identical concurrent embedding and cacheable generation requests
+  maxFollowers: number; // Requests that may wait on one leader; later ones run on their own
+}
+
+export interface PullsConfig {
+  concurrency: number; // Servers one pull job downloads to at once
+  activityTimeoutMs: number; // A server pull that reports no progress for this long fails
+  maxStoredJobs: number; // Finished pull jobs kept for querying; the oldest are dropped
+}
+
 export interface RecoveryTestConfig {
   /** Minimum ms between recovery tests on the same server */
   serverCooldownMs: number;
@@ -110,8 +205,20 @@ export interface OrchestratorConfig {
   enableMetrics: boolean;
   enableStreaming: boolean;
   enablePersistence: boolean;
+  enableProtocolTranslation: boolean;
 
   // Sub-configurations
+  queue: QueueConfig;
+  sessionAffinity: SessionAffinityConfig;
+  hedging: HedgingConfig;
+  responses: ResponsesConfig;
+  batches: BatchesConfig;
+  vision: VisionConfig;
+  embeddingSharding: EmbeddingShardingConfig;
+  embeddingCache: EmbeddingCacheConfig;
+  responseCache: ResponseCacheConfig;
+  singleFlight: SingleFlightConfig;
+  pulls: PullsConfig;
   loadBalancer: LoadBalancerConfig;
   circuitBreaker: CircuitBreakerConfig;
   security: SecurityConfig;
@@ -124,6 +231,12 @@ export interface OrchestratorConfig {
   modelManager: ModelManagerConfig;
   recoveryTest: RecoveryTestConfig;
 
+  // Virtual model names: alias -> ordered target models (first available target wins)
+  modelAliases: Record<string, string[]>;
+
+  // Cross-model fallback: model -> ordered substitutes tried after failover is exhausted
+  modelFallbacks: Record<string, string[]>;
+
   // Ollama servers
   servers: ServerConfig[];
 
@@ -143,8 +256,88 @@ export const DEFAULT_CONFIG: OrchestratorConfig = {
   enableMetrics: true,
   enableStreaming: true,
   enablePersistence: true,
+  enableProtocolTranslation: true,
+
+  queue: {
+    maxSize: 1000,
+    timeout: 300000, // 5 minutes
+    priorityBoostInterval: 5000, // 5 seconds
+    priorityBoostAmount: 5,
+    maxPriority: 100,
+    lowPriorityShedThreshold: 0.8,
+  },
+
+  sessionAffinity: {
+    enabled: true,
+    ttlMs: 1800000, // 30 minutes
+    maxSessions: 10000,
+  },
+
+  hedging: {
+    enabled: false,
+    maxExtraLoadRatio: 0.05,
+    minDelayMs: 50,
+    maxDelayMs: 5000,
+    minSamples: 20,
+    maxGenerateTokens: 256,
+  },
+
+  responses: {
+    storeTtlMs: 3600000, // 1 hour
+    maxStoredResponses: 10000,
+  },
+
+  batches: {
+    concurrency: 4,
+    maxRequestsPerBatch: 50000,
+    maxFileBytes: 209715200, // 200 MB
+    retryDelayMs: 1000,
+    maxRetryDelayMs: 60000, // 1 minute
+    yieldLoadRatio: 0.8,
+  },
+
+  vision: {
+    allowRemoteImages: false,
+    maxImages: 10,
+    maxImageBytes: 20971520, // 20 MB
+    remoteImageTimeoutMs: 10000,
+  },
+
+  embeddingSharding: {
+    enabled: true,
+    shardSize: 256,
+    maxConcurrentShards: 8,
+    shardRetries: 1,
+  },
+
+  embeddingCache: {
+    enabled: false,
+    maxMemoryEntries: 10000,
+    persistent: true,
+    maxDiskEntries: 100000,
+  },
+
+  responseCache: {
+    enabled: true,
+    ttlMs: 3600000, // 1 hour
+    maxEntries: 1000,
+    maxSizeBytes: 67108864, // 64 MB
+  },
+
+  singleFlight: {
+    enabled: false,
+    maxFollowers: 100,
+  },
+
+  pulls: {
+    concurrency: 4,
+    activityTimeoutMs: 300000, // 5 minutes
+    maxStoredJobs: 100,
+  },
 
   loadBalancer: {
+    algorithm: 'fastest-response',
+    modelAlgorithms: {},
     weights: {
       latency: 0.2,
       successRate: 0.2,
@@ -193,6 +386,18 @@ export const DEFAULT_CONFIG: OrchestratorConfig = {
       minSamplesForExact: 5,
       fallbackWeight: 0.5,
     },
+    residency: {
+      enabled: true,
+      loadTimeMultiplier: 1.0,
+      maxPenaltyMs: 120000,
+    },
+    p2c: {
+      choices: 2,
+    },
+    consistentHash: {
+      virtualNodes: 100,
+      checkCapacity: true,
+    },
   },
 
   circuitBreaker: {
@@ -255,6 +460,7 @@ export const DEFAULT_CONFIG: OrchestratorConfig = {
     corsOrigins: ['*'],
     rateLimitWindowMs: 60000,
     rateLimitMax: 100,
+    defaultPriority: 'normal',
   },
 
   metrics: {
@@ -339,6 +545,10 @@ export const DEFAULT_CONFIG: OrchestratorConfig = {
     },
   },
 
+  modelAliases: {},
+
+  modelFallbacks: {},
+
   servers: [],
 
   persistencePath: './data',
@@ -552,12 +762,15 @@ export class ConfigManager {
     updates: Partial<OrchestratorConfig[K]>
   ): void {
     const currentSection = this.config[section] as unknown as Record<string, unknown>;
+    const merged = { ...currentSection, ...updates };
+    const errors = this.validateConfig({ [section]: merged } as Partial<OrchestratorConfig>);
+    if (errors.length > 0) {
+      throw new ConfigValidationError(errors);
+    }
+
     this.config = {
       ...this.config,
-      [section]: {
-        ...currentSection,
-        ...updates,
-      },
+      [section]: merged,
     };
 
     logger.info(`Configuration section '${section}' updated`);
@@ -586,7 +799,10 @@ export class ConfigManager {
     this.componentWatchers.set(componentId, callback);
 
     return () => {
-      this.componentWatchers.delete(componentId);
+      // A later registration under the same id replaced this one; leave it in place
+      if (this.componentWatchers.get(componentId) === callback) {
+        this.componentWatchers.delete(componentId);
+      }
     };
   }
 
@@ -639,6 +855,54 @@ export class ConfigManager {
       this.config.enableStreaming = env.ORCHESTRATOR_ENABLE_STREAMING === 'true';
     }
 
+    if (env.ORCHESTRATOR_ENABLE_PROTOCOL_TRANSLATION) {
+      this.config.enableProtocolTranslation =
+        env.ORCHESTRATOR_ENABLE_PROTOCOL_TRANSLATION === 'true';
+    }
+
+    // Queue settings
+    if (env.ORCHESTRATOR_QUEUE_MAX_SIZE) {
+      const maxSize = parseInt(env.ORCHESTRATOR_QUEUE_MAX_SIZE, 10);
+      if (!isNaN(maxSize)) {
+        this.config.queue.maxSize = maxSize;
+      }
+    }
+
+    if (env.ORCHESTRATOR_QUEUE_TIMEOUT) {
+      const timeout = parseInt(env.ORCHESTRATOR_QUEUE_TIMEOUT, 10);
+      if (!isNaN(timeout)) {
+        this.config.queue.timeout = timeout;
+      }
+    }
+
+    if (env.ORCHESTRATOR_QUEUE_PRIORITY_BOOST_INTERVAL) {
+      const interval = parseInt(env.ORCHESTRATOR_QUEUE_PRIORITY_BOOST_INTERVAL, 10);
+      if (!isNaN(interval)) {
+        this.config.queue.priorityBoostInterval = interval;
+      }
+    }
+
+    if (env.ORCHESTRATOR_QUEUE_PRIORITY_BOOST_AMOUNT) {
+      const amount = parseInt(env.ORCHESTRATOR_QUEUE_PRIORITY_BOOST_AMOUNT, 10);
+      if (!isNaN(amount)) {
+        this.config.queue.priorityBoostAmount = amount;
+      }
+    }
+
+    if (env.ORCHESTRATOR_QUEUE_MAX_PRIORITY) {
+      const maxPriority = parseInt(env.ORCHESTRATOR_QUEUE_MAX_PRIORITY, 10);
+      if (!isNaN(maxPriority)) {
+        this.config.queue.maxPriority = maxPriority;
+      }
+    }
+
+    if (env.ORCHESTRATOR_QUEUE_LOW_PRIORITY_SHED_THRESHOLD) {
+      const threshold = parseFloat(env.ORCHESTRATOR_QUEUE_LOW_PRIORITY_SHED_THRESHOLD);
+      if (!isNaN(threshold) && threshold >= 0 && threshold <= 1) {
+        this.config.queue.lowPriorityShedThreshold = threshold;
+      }
+    }
+
     // Security settings
     if (env.ORCHESTRATOR_CORS_ORIGINS) {
       this.config.security.corsOrigins = env.ORCHESTRATOR_CORS_ORIGINS.split(',');
@@ -737,6 +1001,19 @@ export class ConfigManager {
       enableMetrics: partial.enableMetrics ?? DEFAULT_CONFIG.enableMetrics,
       enableStreaming: partial.enableStreaming ?? DEFAULT_CONFIG.enableStreaming,
       enablePersistence: partial.enablePersistence ?? DEFAULT_CONFIG.enablePersistence,
+      enableProtocolTranslation:
+        partial.enableProtocolTranslation ?? DEFAULT_CONFIG.enableProtocolTranslation,
+      queue: { ...DEFAULT_CONFIG.queue, ...partial.queue },
+      sessionAffinity: { ...DEFAULT_CONFIG.sessionAffinity, ...partial.sessionAffinity },
+      hedging: { ...DEFAULT_CONFIG.hedging, ...partial.hedging },
+      responses: { ...DEFAULT_CONFIG.responses, ...partial.responses },
+      batches: { ...DEFAULT_CONFIG.batches, ...partial.batches },
+      vision: { ...DEFAULT_CONFIG.vision, ...partial.vision },
+      embeddingSharding: { ...DEFAULT_CONFIG.embeddingSharding, ...partial.embeddingSharding },
+      embeddingCache: { ...DEFAULT_CONFIG.embeddingCache, ...partial.embeddingCache },
+      responseCache: { ...DEFAULT_CONFIG.responseCache, ...partial.responseCache },
+      singleFlight: { ...DEFAULT_CONFIG.singleFlight, ...partial.singleFlight },
+      pulls: { ...DEFAULT_CONFIG.pulls, ...partial.pulls },
       loadBalancer: { ...DEFAULT_CONFIG.loadBalancer, ...partial.loadBalancer },
       circuitBreaker: { ...DEFAULT_CONFIG.circuitBreaker, ...partial.circuitBreaker },
       security: { ...DEFAULT_CONFIG.security, ...partial.security },
@@ -748,6 +1025,8 @@ export class ConfigManager {
       cooldown: { ...DEFAULT_CONFIG.cooldown, ...partial.cooldown },
       recoveryTest: { ...DEFAULT_CONFIG.recoveryTest, ...partial.recoveryTest },
       modelManager: { ...DEFAULT_CONFIG.modelManager, ...partial.modelManager },
+      modelAliases: partial.modelAliases ?? DEFAULT_CONFIG.modelAliases,
+      modelFallbacks: partial.modelFallbacks ?? DEFAULT_CONFIG.modelFallbacks,
       servers: partial.servers ?? DEFAULT_CONFIG.servers,
       persistencePath: partial.persistencePath ?? DEFAULT_CONFIG.persistencePath,
       configReloadIntervalMs:
@@ -821,6 +1100,303 @@ export class ConfigManager {
       }
     }
 
+    // Validate queue config
+    if (config.queue) {
+      if (
+        config.queue.maxSize !== undefined &&
+        (typeof config.queue.maxSize !== 'number' || config.queue.maxSize < 1)
+      ) {
+        errors.push({
+          path: 'queue.maxSize',
+          message: 'Queue max size must be at least 1',
+          value: config.queue.maxSize,
+        });
+      }
+
+      if (
+        config.queue.timeout !== undefined &&
+        (typeof config.queue.timeout !== 'number' || config.queue.timeout < 1000)
+      ) {
+        errors.push({
+          path: 'queue.timeout',
+          message: 'Queue timeout must be at least 1000ms',
+          value: config.queue.timeout,
+        });
+      }
+
+      if (
+        config.queue.priorityBoostInterval !== undefined &&
+        (typeof config.queue.priorityBoostInterval !== 'number' ||
+          config.queue.priorityBoostInterval < 1000)
+      ) {
+        errors.push({
+          path: 'queue.priorityBoostInterval',
+          message: 'Queue priority boost interval must be at least 1000ms',
+          value: config.queue.priorityBoostInterval,
+        });
+      }
+    }
+
+    // Validate session affinity config
+    if (config.sessionAffinity) {
+      if (
+        config.sessionAffinity.ttlMs !== undefined &&
+        (typeof config.sessionAffinity.ttlMs !== 'number' || config.sessionAffinity.ttlMs < 1000)
+      ) {
+        errors.push({
+          path: 'sessionAffinity.ttlMs',
+          message: 'Session affinity TTL must be at least 1000ms',
+          value: config.sessionAffinity.ttlMs,
+        });
+      }
+
+      if (
+        config.sessionAffinity.maxSessions !== undefined &&
+        (typeof config.sessionAffinity.maxSessions !== 'number' ||
+          config.sessionAffinity.maxSessions < 1)
+      ) {
+        errors.push({
+          path: 'sessionAffinity.maxSessions',
+          message: 'Session affinity max sessions must be at least 1',
+          value: config.sessionAffinity.maxSessions,
+        });
+      }
+    }
+
+    // Validate hedging config
+    if (config.hedging) {
+      const { maxExtraLoadRatio, minDelayMs, maxDelayMs } = config.hedging;
+      if (
+        maxExtraLoadRatio !== undefined &&
+        (typeof maxExtraLoadRatio !== 'number' || maxExtraLoadRatio < 0 || maxExtraLoadRatio > 1)
+      ) {
+        errors.push({
+          path: 'hedging.maxExtraLoadRatio',
+          message: 'Hedging max extra load ratio must be between 0 and 1',
+          value: maxExtraLoadRatio,
+        });
+      }
+
+      if (
+        typeof minDelayMs === 'number' &&
+        typeof maxDelayMs === 'number' &&
+        (minDelayMs < 0 || maxDelayMs < minDelayMs)
+      ) {
+        errors.push({
+          path: 'hedging.maxDelayMs',
+          message: 'Hedging delays must satisfy 0 <= minDelayMs <= maxDelayMs',
+          value: { minDelayMs, maxDelayMs },
+        });
+      }
+    }
+
+    // Validate responses store config
+    if (config.responses) {
+      const { storeTtlMs, maxStoredResponses } = config.responses;
+      if (storeTtlMs !== undefined && (typeof storeTtlMs !== 'number' || storeTtlMs < 1000)) {
+        errors.push({
+          path: 'responses.storeTtlMs',
+          message: 'Responses store TTL must be at least 1000ms',
+          value: storeTtlMs,
+        });
+      }
+
+      if (
+        maxStoredResponses !== undefined &&
+        (typeof maxStoredResponses !== 'number' || maxStoredResponses < 1)
+      ) {
+        errors.push({
+          path: 'responses.maxStoredResponses',
+          message: 'Responses store max stored responses must be at least 1',
+          value: maxStoredResponses,
+        });
+      }
+    }
+
+    // Validate batches config
+    if (config.batches) {
+      for (const key of [
+        'concurrency',
+        'maxRequestsPerBatch',
+        'maxFileBytes',
+        'retryDelayMs',
+        'maxRetryDelayMs',
+      ] as const) {
+        const value = config.batches[key];
+        if (value !== undefined && (typeof value !== 'number' || value < 1)) {
+          errors.push({
+            path: `batches.${key}`,
+            message: `Batches ${key} must be at least 1`,
+            value,
+          });
+        }
+      }
+      const { yieldLoadRatio } = config.batches;
+      if (
+        yieldLoadRatio !== undefined &&
+        (typeof yieldLoadRatio !== 'number' || yieldLoadRatio <= 0 || yieldLoadRatio > 1)
+      ) {
+        errors.push({
+          path: 'batches.yieldLoadRatio',
+          message: 'Batches yieldLoadRatio must be greater than 0 and at most 1',
+          value: yieldLoadRatio,
+        });
+      }
+    }
+
+    // Validate vision config
+    if (config.vision) {
+      for (const key of ['maxImages', 'maxImageBytes', 'remoteImageTimeoutMs'] as const) {
+        const value = config.vision[key];
+        if (value !== undefined && (typeof value !== 'number' || value < 1)) {
+          errors.push({
+            path: `vision.${key}`,
+            message: `Vision ${key} must be at least 1`,
+            value,
+          });
+        }
+      }
+    }
+
+    // Validate embedding sharding config
+    if (config.embeddingSharding) {
+      for (const key of ['shardSize', 'maxConcurrentShards'] as const) {
+        const value = config.embeddingSharding[key];
+        if (value !== undefined && (typeof value !== 'number' || value < 1)) {
+          errors.push({
+            path: `embeddingSharding.${key}`,
+            message: `Embedding sharding ${key} must be at least 1`,
+            value,
+          });
+        }
+      }
+
+      const { shardRetries } = config.embeddingSharding;
+      if (shardRetries !== undefined && (typeof shardRetries !== 'number' || shardRetries < 0)) {
+        errors.push({
+          path: 'embeddingSharding.shardRetries',
+          message: 'Embedding sharding shardRetries must be at least 0',
+          value: shardRetries,
+        });
+      }
+    }
+
+    // Validate embedding cache config
+    if (config.embeddingCache) {
+      for (const key of ['maxMemoryEntries', 'maxDiskEntries'] as const) {
+        const value = config.embeddingCache[key];
+        if (value !== undefined && (typeof value !== 'number' || value < 1)) {
+          errors.push({
+            path: `embeddingCache.${key}`,
+            message: `Embedding cache ${key} must be at least 1`,
+            value,
+          });
+        }
+      }
+    }
+
+    // Validate response cache config
+    if (config.responseCache) {
+      for (const key of ['ttlMs', 'maxEntries', 'maxSizeBytes'] as const) {
+        const value = config.responseCache[key];
+        if (value !== undefined && (typeof value !== 'number' || value < 1)) {
+          errors.push({
+            path: `responseCache.${key}`,
+            message: `Response cache ${key} must be at least 1`,
+            value,
+          });
+        }
+      }
+    }
+
+    // Validate single-flight config
+    if (config.singleFlight) {
+      const { maxFollowers } = config.singleFlight;
+      if (maxFollowers !== undefined && (typeof maxFollowers !== 'number' || maxFollowers < 1)) {
+        errors.push({
+          path: 'singleFlight.maxFollowers',
+          message: 'Single-flight maxFollowers must be at least 1',
+          value: maxFollowers,
+        });
+      }
+    }
+
+    // Validate pulls config
+    if (config.pulls) {
+      for (const key of ['concurrency', 'activityTimeoutMs', 'maxStoredJobs'] as const) {
+        const value = config.pulls[key];
+        if (value !== undefined && (typeof value !== 'number' || value < 1)) {
+          errors.push({
+            path: `pulls.${key}`,
+            message: `Pulls ${key} must be at least 1`,
+            value,
+          });
+        }
+      }
+    }
+
+    // Validate load balancer algorithms
+    if (config.loadBalancer) {
+      const { algorithm, modelAlgorithms } = config.loadBalancer;
+      if (algorithm !== undefined && !isLoadBalancerAlgorithm(algorithm)) {
+        errors.push({
+          path: 'loadBalancer.algorithm',
+          message: `Unknown load balancer algorithm '${String(algorithm)}'`,
+          value: algorithm,
+        });
+      }
+
+      if (modelAlgorithms !== undefined) {
+        if (typeof modelAlgorithms !== 'object' || Array.isArray(modelAlgorithms)) {
+          errors.push({
+            path: 'loadBalancer.modelAlgorithms',
+            message: 'Model algorithms must be an object of model name to algorithm',
+            value: modelAlgorithms,
+          });
+        } else {
+          for (const [model, modelAlgorithm] of Object.entries(modelAlgorithms)) {
+            if (!isLoadBalancerAlgorithm(modelAlgorithm)) {
+              errors.push({
+                path: `loadBalancer.modelAlgorithms.${model}`,
+                message: `Unknown load balancer algorithm '${String(modelAlgorithm)}'`,
+                value: modelAlgorithm,
+              });
+            }
+          }
+        }
+      }
+    }
+
+    // Validate model aliases
+    if (config.modelAliases) {
+      const aliasError =
+        typeof config.modelAliases === 'object' && !Array.isArray(config.modelAliases)
+          ? validateModelAliases(config.modelAliases)
+          : 'Model aliases must be an object of alias to target models';
+      if (aliasError) {
+        errors.push({
+          path: 'modelAliases',
+          message: aliasError,
+          value: config.modelAliases,
+        });
+      }
+    }
+
+    // Validate fallback chains
+    if (config.modelFallbacks) {
+      const fallbackError =
+        typeof config.modelFallbacks === 'object' && !Array.isArray(config.modelFallbacks)
+          ? validateModelFallbacks(config.modelFallbacks)
+          : 'Model fallbacks must be an object of model to fallback models';
+      if (fallbackError) {
+        errors.push({
+          path: 'modelFallbacks',
+          message: fallbackError,
+          value: config.modelFallbacks,
+        });
+      }
+    }
+
     // Validate servers
     if (config.servers) {
       if (!Array.isArray(config.servers)) {
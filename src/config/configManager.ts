@@ -149,3 +149,11 @@ export const timeoutsConfig = createConfigManager<Record<string, number>>({
   defaults: {},
   maxBackups: 3,
 });
+
+// Model aliases set through the admin API
+export const aliasesConfig = createConfigManager<Record<string, string[]>>({
+  fileName: 'aliases.json',
+  relativePath: '../../data',
+  defaults: {},
+  maxBackups: 3,
+});
@@ -22,6 +22,7 @@ export const ENV_CONFIG_MAPPING: Record<string, string> = {
   ORCHESTRATOR_ENABLE_METRICS: 'enableMetrics',
   ORCHESTRATOR_ENABLE_STREAMING: 'enableStreaming',
   ORCHESTRATOR_ENABLE_PERSISTENCE: 'enablePersistence',
+  ORCHESTRATOR_ENABLE_PROTOCOL_TRANSLATION: 'enableProtocolTranslation',
   ORCHESTRATOR_ENABLE_AUTH: 'enableAuth',
 
   // Queue settings
@@ -30,6 +31,7 @@ export const ENV_CONFIG_MAPPING: Record<string, string> = {
   ORCHESTRATOR_QUEUE_PRIORITY_BOOST_INTERVAL: 'queue.priorityBoostInterval',
   ORCHESTRATOR_QUEUE_PRIORITY_BOOST_AMOUNT: 'queue.priorityBoostAmount',
   ORCHESTRATOR_QUEUE_MAX_PRIORITY: 'queue.maxPriority',
+  ORCHESTRATOR_QUEUE_LOW_PRIORITY_SHED_THRESHOLD: 'queue.lowPriorityShedThreshold',
 
   // Load balancer settings
   ORCHESTRATOR_LB_WEIGHT_LATENCY: 'loadBalancer.weights.latency',
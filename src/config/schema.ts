@@ -18,8 +18,14 @@ export const serverConfigSchema = z.object({
   type: z.enum(['ollama', 'openai', 'auto']).default('auto'),
   maxConcurrency: z.number().int().min(1).max(1000).default(4),
   apiKey: z.string().optional(),
+  labels: z.record(z.string(), z.string()).optional(),
 });
 
+/**
+ * Request priority class schema
+ */
+export const requestPrioritySchema = z.enum(['high', 'normal', 'low']);
+
 /**
  * Security configuration schema
  */
@@ -30,6 +36,23 @@ export const securityConfigSchema = z.object({
   apiKeyHeader: z.string().optional(),
   apiKeys: z.array(z.string()).optional(),
   adminApiKeys: z.array(z.string()).optional(),
+  // Request priority classes: header value wins, then per-key default, then defaultPriority
+  defaultPriority: requestPrioritySchema.default('normal'),
+  apiKeyPriorities: z.record(z.string(), requestPrioritySchema).optional(),
+  // Server label constraints per key; requirements apply on top of X-Require-Labels
+  apiKeyLabelPolicies: z
+    .record(
+      z.string(),
+      z.object({
+        require: z.string().optional(),
+        prefer: z.string().optional(),
+      })
+    )
+    .optional(),
+  // API keys whose requests opt into model fallback chains (X-Allow-Fallback overrides)
+  fallbackApiKeys: z.array(z.string()).optional(),
+  // API keys whose requests opt into the response cache (X-Orchestrator-Cache overrides)
+  responseCacheApiKeys: z.array(z.string()).optional(),
 });
 
 /**
@@ -113,10 +136,24 @@ export const cooldownConfigSchema = z.object({
   defaultMaxConcurrency: z.number().int().min(1).max(100).default(4),
 });
 
+export const loadBalancerAlgorithmSchema = z.enum([
+  'weighted',
+  'round-robin',
+  'least-connections',
+  'random',
+  'fastest-response',
+  'streaming-optimized',
+  'p2c',
+  'consistent-hash',
+]);
+
 /**
  * Load balancer configuration schema
  */
 export const loadBalancerConfigSchema = z.object({
+  algorithm: loadBalancerAlgorithmSchema.default('fastest-response'),
+  // Per-model overrides, e.g. least-connections for embedding models
+  modelAlgorithms: z.record(z.string(), loadBalancerAlgorithmSchema).default({}),
   weights: z
     .object({
       latency: z.number().min(0).max(1).default(0.35),
@@ -179,6 +216,21 @@ export const loadBalancerConfigSchema = z.object({
     minSamplesForExact: z.number().int().min(1).default(5), // Min samples before preferring exact
     fallbackWeight: z.number().min(0).max(1).default(0.5), // How much to trust inferred vs actual
   }),
+  // VRAM residency: penalize servers that would have to load the model first
+  residency: z.object({
+    enabled: z.boolean().default(true), // Apply the cold-start penalty
+    loadTimeMultiplier: z.number().min(0).max(10).default(1.0), // Scale applied to the estimated load time
+    maxPenaltyMs: z.number().int().min(0).default(120000), // Cap on the added latency
+  }),
+  // Power-of-two-choices algorithm settings
+  p2c: z.object({
+    choices: z.number().int().min(2).max(10).default(2), // Candidates sampled and scored per selection
+  }),
+  // Consistent-hash algorithm settings
+  consistentHash: z.object({
+    virtualNodes: z.number().int().min(1).max(1000).default(100), // Ring points per server
+    checkCapacity: z.boolean().default(true), // Move on to the next replica when the owner is at capacity
+  }),
 });
 
 /**
@@ -250,6 +302,122 @@ export const queueConfigSchema = z.object({
   priorityBoostInterval: z.number().int().min(1000).default(5000),
   priorityBoostAmount: z.number().int().min(1).default(5),
   maxPriority: z.number().int().min(1).default(100),
+  // Queue fill ratio at which new low-priority requests are shed instead of queued
+  lowPriorityShedThreshold: z.number().min(0).max(1).default(0.8),
+});
+
+/**
+ * Session affinity configuration schema
+ */
+export const sessionAffinityConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  ttlMs: z.number().int().min(1000).default(1800000), // 30 minutes
+  maxSessions: z.number().int().min(1).default(10000),
+});
+
+/**
+ * Request hedging configuration schema
+ */
+export const hedgingConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  // Hedges per eligible request; 0.05 caps hedging at 5% extra load
+  maxExtraLoadRatio: z.number().min(0).max(1).default(0.05),
+  // The hedge delay is the server's p95 latency, clamped to these bounds
+  minDelayMs: z.number().int().min(0).default(50),
+  maxDelayMs: z.number().int().min(0).default(5000),
+  minSamples: z.number().int().min(1).default(20),
+  // Non-streaming generations with num_predict/max_tokens up to this are hedgeable
+  maxGenerateTokens: z.number().int().min(1).default(256),
+});
+
+/**
+ * Responses API conversation store configuration schema
+ */
+export const responsesConfigSchema = z.object({
+  // How long a response stays available to previous_response_id
+  storeTtlMs: z.number().int().min(1000).default(3600000), // 1 hour
+  maxStoredResponses: z.number().int().min(1).default(10000),
+});
+
+/**
+ * Batch API configuration schema
+ */
+export const batchesConfigSchema = z.object({
+  // Batch requests in flight at once, across all batches
+  concurrency: z.number().int().min(1).default(4),
+  maxRequestsPerBatch: z.number().int().min(1).default(50000),
+  maxFileBytes: z.number().int().min(1).default(209715200), // 200 MB
+  // Backoff before retrying a capacity failure, doubling up to maxRetryDelayMs
+  retryDelayMs: z.number().int().min(1).default(1000),
+  maxRetryDelayMs: z.number().int().min(1).default(60000),
+  // Batch work waits while this share of healthy server capacity is in flight
+  yieldLoadRatio: z.number().gt(0).max(1).default(0.8),
+});
+
+/**
+ * Vision input configuration schema
+ */
+export const visionConfigSchema = z.object({
+  // Fetch http(s) image URLs; otherwise only data: URLs are accepted
+  allowRemoteImages: z.boolean().default(false),
+  maxImages: z.number().int().min(1).default(10),
+  maxImageBytes: z.number().int().min(1).default(20971520), // 20 MB
+  remoteImageTimeoutMs: z.number().int().min(1).default(10000),
+});
+
+/**
+ * Embedding sharding configuration schema
+ */
+export const embeddingShardingConfigSchema = z.object({
+  // Split large embedding input arrays into sub-batches spread across servers
+  enabled: z.boolean().default(true),
+  shardSize: z.number().int().min(1).default(256),
+  maxConcurrentShards: z.number().int().min(1).default(8),
+  // Extra attempts for a sub-batch whose failover was exhausted
+  shardRetries: z.number().int().min(0).default(1),
+});
+
+/**
+ * Embedding cache configuration schema
+ */
+export const embeddingCacheConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  maxMemoryEntries: z.number().int().min(1).default(10000),
+  // Also keep embeddings on disk under persistencePath
+  persistent: z.boolean().default(true),
+  // Embeddings kept on disk; the oldest are removed beyond this
+  maxDiskEntries: z.number().int().min(1).default(100000),
+});
+
+/**
+ * Response cache configuration schema
+ */
+export const responseCacheConfigSchema = z.object({
+  // Requests still opt in per request (header) or per API key
+  enabled: z.boolean().default(true),
+  ttlMs: z.number().int().min(1).default(3600000),
+  maxEntries: z.number().int().min(1).default(1000),
+  maxSizeBytes: z.number().int().min(1).default(67108864),
+});
+
+/**
+ * Single-flight (request coalescing) configuration schema
+ */
+export const singleFlightConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  // Requests that may wait on one leader; later ones run on their own
+  maxFollowers: z.number().int().min(1).default(100),
+});
+
+/**
+ * Fleet-wide model pull configuration schema
+ */
+export const pullsConfigSchema = z.object({
+  // Servers one pull job downloads to at once
+  concurrency: z.number().int().min(1).default(4),
+  // A server pull that reports no progress for this long fails
+  activityTimeoutMs: z.number().int().min(1).default(300000),
+  maxStoredJobs: z.number().int().min(1).default(100),
 });
 
 /**
@@ -291,10 +459,21 @@ export const orchestratorConfigSchema = z.object({
   enableMetrics: z.boolean().default(true),
   enableStreaming: z.boolean().default(true),
   enablePersistence: z.boolean().default(true),
+  enableProtocolTranslation: z.boolean().default(true),
   enableAuth: z.boolean().default(false),
 
   // Sub-configurations
   queue: queueConfigSchema,
+  sessionAffinity: sessionAffinityConfigSchema,
+  hedging: hedgingConfigSchema,
+  responses: responsesConfigSchema,
+  batches: batchesConfigSchema,
+  vision: visionConfigSchema,
+  embeddingSharding: embeddingShardingConfigSchema,
+  embeddingCache: embeddingCacheConfigSchema,
+  responseCache: responseCacheConfigSchema,
+  singleFlight: singleFlightConfigSchema,
+  pulls: pullsConfigSchema,
   loadBalancer: loadBalancerConfigSchema,
   circuitBreaker: circuitBreakerConfigSchema,
   security: securityConfigSchema,
@@ -306,6 +485,12 @@ export const orchestratorConfigSchema = z.object({
   cooldown: cooldownConfigSchema,
   modelManager: modelManagerConfigSchema,
 
+  // Virtual model names: alias -> ordered target models (first available target wins)
+  modelAliases: z.record(z.string(), z.array(z.string().min(1)).min(1)).default({}),
+
+  // Cross-model fallback: model -> ordered substitutes tried after failover is exhausted
+  modelFallbacks: z.record(z.string(), z.array(z.string().min(1)).min(1)).default({}),
+
   // Ollama servers
   servers: z.array(serverConfigSchema).default([]),
 
@@ -327,6 +512,16 @@ export type CooldownConfig = z.infer<typeof cooldownConfigSchema>;
 export type LoadBalancerConfig = z.infer<typeof loadBalancerConfigSchema>;
 export type CircuitBreakerConfig = z.infer<typeof circuitBreakerConfigSchema>;
 export type QueueConfig = z.infer<typeof queueConfigSchema>;
+export type SessionAffinityConfig = z.infer<typeof sessionAffinityConfigSchema>;
+export type HedgingConfig = z.infer<typeof hedgingConfigSchema>;
+export type ResponsesConfig = z.infer<typeof responsesConfigSchema>;
+export type BatchesConfig = z.infer<typeof batchesConfigSchema>;
+export type VisionConfig = z.infer<typeof visionConfigSchema>;
+export type EmbeddingShardingConfig = z.infer<typeof embeddingShardingConfigSchema>;
+export type EmbeddingCacheConfig = z.infer<typeof embeddingCacheConfigSchema>;
+export type ResponseCacheConfig = z.infer<typeof responseCacheConfigSchema>;
+export type SingleFlightConfig = z.infer<typeof singleFlightConfigSchema>;
+export type PullsConfig = z.infer<typeof pullsConfigSchema>;
 export type ModelManagerConfig = z.infer<typeof modelManagerConfigSchema>;
 export type OrchestratorConfig = z.infer<typeof orchestratorConfigSchema>;
 
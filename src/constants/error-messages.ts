@@ -31,6 +31,7 @@ export const ERROR_MESSAGES = {
   PROMPT_REQUIRED: 'prompt is required',
   PROMPT_REQUIRED_FOR_GENERATION: 'prompt is required for generation',
   INPUT_OR_PROMPT_REQUIRED: 'input or prompt is required',
+  PULL_JOB_NOT_FOUND: (id: string) => `Pull job '${id}' not found`,
 
   // Parameter errors
   SERVER_ID_REQUIRED: 'serverId is required',
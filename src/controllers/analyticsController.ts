@@ -8,6 +8,26 @@ import type { Request, Response } from 'express';
 import type { AnalyticsTimeRange } from '../analytics/analytics-engine.js';
 import { getAnalyticsEngine } from '../analytics-instance.js';
 import { getOrchestratorInstance } from '../orchestrator-instance.js';
+import { parsePriority } from '../utils/request-priority.js';
+import { matchesLabels, parseLabelSelector } from '../utils/server-labels.js';
+
+/**
+ * Build a server-id filter from the optional `labels` selector query param.
+ * Servers no longer registered have no labels, so they only pass an empty selector.
+ */
+function createLabelFilter(req: Request): (serverId: string) => boolean {
+  const selector = parseLabelSelector(
+    typeof req.query?.labels === 'string' ? req.query.labels : undefined
+  );
+  if (selector.length === 0) {
+    return () => true;
+  }
+  const orchestrator = getOrchestratorInstance();
+  return serverId => {
+    const server = orchestrator.getServer(serverId);
+    return server !== undefined && matchesLabels(server, selector);
+  };
+}
 
 /**
  * Get top models by usage
@@ -51,9 +71,11 @@ export function getTopModels(req: Request, res: Response): void {
 /**
  * Get server performance comparison
  * GET /api/orchestrator/analytics/server-performance
+ * Optional query param: labels (selector, e.g. gpu=a100,region=eu)
  */
 export function getServerPerformance(req: Request, res: Response): void {
   const { timeRange = '1h' } = req.query;
+  const matchesLabelFilter = createLabelFilter(req);
 
   const analytics = getAnalyticsEngine();
   const orchestrator = getOrchestratorInstance();
@@ -62,7 +84,9 @@ export function getServerPerformance(req: Request, res: Response): void {
   analytics.updateMetrics(orchestrator.getAllDetailedMetrics());
 
   try {
-    const performance = analytics.getServerPerformance(timeRange as AnalyticsTimeRange);
+    const performance = analytics
+      .getServerPerformance(timeRange as AnalyticsTimeRange)
+      .filter(server => matchesLabelFilter(server.id));
 
     res.status(200).json({
       success: true,
@@ -148,7 +172,12 @@ export function getCapacityAnalysis(req: Request, res: Response): void {
   analytics.updateMetrics(orchestrator.getAllDetailedMetrics());
 
   try {
-    const capacity = analytics.getCapacityAnalysis(0, timeRange as AnalyticsTimeRange);
+    const queue = orchestrator.getQueueStats();
+    const capacity = analytics.getCapacityAnalysis(
+      queue.size,
+      timeRange as AnalyticsTimeRange,
+      queue.byModel
+    );
 
     res.status(200).json({
       success: true,
@@ -373,6 +402,7 @@ export function getAlgorithmStats(req: Request, res: Response): void {
       success: true,
       hours: parseInt(hours as string, 10),
       algorithms: stats,
+      active: getOrchestratorInstance().getActiveAlgorithms(),
     });
   } catch (error) {
     res.status(500).json({
@@ -488,6 +518,7 @@ export function getServerRequestHistory(req: Request, res: Response): void {
         model: req.model,
         endpoint: req.endpoint,
         streaming: req.streaming,
+        priority: req.priority,
         duration: req.duration,
         success: req.success,
         tokensGenerated: req.tokensGenerated,
@@ -586,7 +617,17 @@ export function getRequestTimeline(req: Request, res: Response): void {
  * GET /api/orchestrator/analytics/requests/search
  */
 export function searchRequests(req: Request, res: Response): void {
-  const { serverId, model, endpoint, success, startTime, endTime, limit = '100' } = req.query;
+  const {
+    serverId,
+    model,
+    endpoint,
+    priority,
+    success,
+    cacheHit,
+    startTime,
+    endTime,
+    limit = '100',
+  } = req.query;
 
   const analytics = getAnalyticsEngine();
 
@@ -595,7 +636,9 @@ export function searchRequests(req: Request, res: Response): void {
       serverId: serverId as string | undefined,
       model: model as string | undefined,
       endpoint: endpoint as string | undefined,
+      priority: parsePriority(priority),
       success: success !== undefined ? success === 'true' : undefined,
+      cacheHit: cacheHit !== undefined ? cacheHit === 'true' : undefined,
       startTime: startTime ? parseInt(startTime as string, 10) : undefined,
       endTime: endTime ? parseInt(endTime as string, 10) : undefined,
       limit: parseInt(limit as string, 10),
@@ -613,6 +656,7 @@ export function searchRequests(req: Request, res: Response): void {
         streaming: req.streaming,
         duration: req.duration,
         success: req.success,
+        cacheHit: req.cacheHit,
         tokensGenerated: req.tokensGenerated,
         tokensPrompt: req.tokensPrompt,
         errorType: req.errorType,
@@ -630,15 +674,86 @@ export function searchRequests(req: Request, res: Response): void {
   }
 }
 
+/**
+ * Get latency and error rates per priority class, plus current queue depth per class
+ * GET /api/orchestrator/analytics/priorities
+ */
+export function getPriorityStats(req: Request, res: Response): void {
+  const { hours = '24' } = req.query;
+
+  const analytics = getAnalyticsEngine();
+  const orchestrator = getOrchestratorInstance();
+
+  try {
+    const stats = analytics.getPriorityStats(parseInt(hours as string, 10));
+    const queue = orchestrator.getQueueStats();
+
+    res.status(200).json({
+      success: true,
+      hours: parseInt(hours as string, 10),
+      priorities: stats,
+      queueDepth: queue.byPriority,
+      totalShed: queue.totalShed,
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to get priority stats',
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Get session affinity hit rate and yield reasons
+ * GET /api/orchestrator/analytics/affinity
+ */
+export function getAffinityStats(req: Request, res: Response): void {
+  const orchestrator = getOrchestratorInstance();
+
+  try {
+    res.status(200).json({
+      success: true,
+      affinity: orchestrator.getAffinityStats(),
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to get affinity stats',
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Get hedged request counts, win rates and extra load
+ * GET /api/orchestrator/analytics/hedging
+ */
+export function getHedgingStats(req: Request, res: Response): void {
+  const orchestrator = getOrchestratorInstance();
+
+  try {
+    res.status(200).json({
+      success: true,
+      hedging: orchestrator.getHedgingStats(),
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to get hedging stats',
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
 /**
  * Get servers with request history
  * GET /api/orchestrator/analytics/servers-with-history
+ * Optional query param: labels (selector, e.g. gpu=a100,region=eu)
  */
 export function getServersWithHistory(req: Request, res: Response): void {
   const analytics = getAnalyticsEngine();
+  const matchesLabelFilter = createLabelFilter(req);
 
   try {
-    const serverIds = analytics.getServersWithHistory();
+    const serverIds = analytics.getServersWithHistory().filter(matchesLabelFilter);
 
     res.status(200).json({
       success: true,
@@ -0,0 +1,283 @@
+/**
+ * anthropicController.ts
+ * Anthropic Messages API (/v1/messages), served through Ollama chat on any backend
+ */
+
+import type { Request, Response } from 'express';
+
+import { deriveRequestKey } from '../load-balancer.js';
+import { getOrchestratorInstance, type RoutingContext } from '../orchestrator-instance.js';
+import {
+  AnthropicEventStream,
+  anthropicMessagesToOllama,
+  anthropicRequestToOllama,
+  anthropicToolsToOllama,
+  createMessageId,
+  formatAnthropicEvent,
+  ollamaResponseToAnthropic,
+  validateAnthropicToolChoice,
+  type AnthropicStreamEvent,
+} from '../utils/anthropic-messages.js';
+import { getDebugInfo, isDebugRequested, setDebugResponseHeaders } from '../utils/debug-headers.js';
+import { fetchWithTimeout, fetchWithActivityTimeout } from '../utils/fetchWithTimeout.js';
+import { isShortGeneration } from '../utils/hedging.js';
+import { safeJsonStringify } from '../utils/json-utils.js';
+import { logger } from '../utils/logger.js';
+import { resolveAllowFallback, resolveAttemptModel } from '../utils/model-fallback.js';
+import { parseOllamaErrorGlobal as parseOllamaError } from '../utils/ollamaError.js';
+import {
+  buildOllamaRequest,
+  openAIResponseToOllama,
+  openAIStreamToOllama,
+} from '../utils/protocol-translation.js';
+import { resolveRequestPriority } from '../utils/request-priority.js';
+import { ConcurrencySaturatedError } from '../utils/request-queue.js';
+import { resolveLabelConstraints } from '../utils/server-labels.js';
+import { resolveAffinityKey } from '../utils/session-affinity.js';
+import { readStreamEvents } from '../utils/stream-events.js';
+import { resolveRequestTimeout } from '../utils/timeout-manager.js';
+
+interface AnthropicMessagesRequest {
+  model: string;
+  max_tokens: number;
+  messages: unknown;
+  system?: unknown;
+  stream?: boolean;
+  tools?: unknown;
+  tool_choice?: { type: string; name?: string; disable_parallel_tool_use?: boolean };
+  [key: string]: unknown;
+}
+
+/**
+ * Reply with an Anthropic-style error
+ */
+function sendError(res: Response, status: number, type: string, message: string): void {
+  res.status(status).json({ type: 'error', error: { type, message } });
+}
+
+/**
+ * Handle POST /v1/messages - Anthropic Messages API
+ */
+export async function handleMessages(req: Request, res: Response): Promise<void> {
+  const body = req.body as AnthropicMessagesRequest;
+  const { model: requestedModel, stream = false } = body;
+
+  logger.info('Received Anthropic messages request', {
+    model: requestedModel,
+    messageCount: Array.isArray(body.messages) ? body.messages.length : undefined,
+    stream,
+  });
+
+  if (!requestedModel || typeof body.max_tokens !== 'number' || !Array.isArray(body.messages)) {
+    const field = !requestedModel
+      ? 'model'
+      : !Array.isArray(body.messages)
+        ? 'messages'
+        : 'max_tokens';
+    sendError(res, 400, 'invalid_request_error', `${field}: Field required`);
+    return;
+  }
+
+  const messages = anthropicMessagesToOllama(body.messages);
+  if (!Array.isArray(messages)) {
+    sendError(res, 400, 'invalid_request_error', `messages: ${messages.error}`);
+    return;
+  }
+  const toolChoiceError = validateAnthropicToolChoice(body.tools, body.tool_choice);
+  if (toolChoiceError) {
+    sendError(res, 400, 'invalid_request_error', `tool_choice: ${toolChoiceError}`);
+    return;
+  }
+  const tools = anthropicToolsToOllama(body.tools, body.tool_choice);
+  if (tools && !Array.isArray(tools)) {
+    sendError(res, 400, 'invalid_request_error', `tools: ${tools.error}`);
+    return;
+  }
+  // Ollama returns every call a model makes; disable_parallel_tool_use keeps the first
+  const maxToolCalls = body.tool_choice?.disable_parallel_tool_use === true ? 1 : Infinity;
+
+  const orchestrator = getOrchestratorInstance();
+  let model = orchestrator.resolveModelAlias(requestedModel, 'ollama');
+
+  const routingContext: RoutingContext = {
+    priority: resolveRequestPriority(req),
+    labelConstraints: resolveLabelConstraints(req),
+    allowFallback: resolveAllowFallback(req),
+    hedge: !stream && isShortGeneration(body.max_tokens),
+    affinityKey: resolveAffinityKey(req, messages),
+    requestKey: deriveRequestKey(model, messages),
+  };
+  const messageId = createMessageId('msg');
+  const chatBody = anthropicRequestToOllama(body, messages, tools);
+
+  const limitToolCalls = (data: Record<string, unknown>): void => {
+    const message = data.message as { tool_calls?: unknown[] } | undefined;
+    if (message && Array.isArray(message.tool_calls)) {
+      message.tool_calls = message.tool_calls.slice(0, maxToolCalls);
+    }
+  };
+
+  const writeEvents = (events: AnthropicStreamEvent[]): void => {
+    if (!res.headersSent) {
+      if (isDebugRequested(req)) {
+        const debugInfo = getDebugInfo(routingContext);
+        if (debugInfo) {
+          setDebugResponseHeaders(res, debugInfo);
+        }
+      }
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('Connection', 'keep-alive');
+      res.setHeader('X-Accel-Buffering', 'no');
+    }
+    for (const event of events) {
+      res.write(formatAnthropicEvent(event));
+    }
+  };
+
+  try {
+    const result = await orchestrator.tryRequestWithFailover<Record<string, unknown>>(
+      model,
+      async (server, context) => {
+        model = resolveAttemptModel(context, model);
+        const upstream = buildOllamaRequest(server, 'chat', { ...chatBody, model }, stream);
+        const timeoutMs = resolveRequestTimeout(
+          req.headers,
+          orchestrator.getTimeout(server.id, model)
+        );
+
+        if (!stream) {
+          const startTime = Date.now();
+          const response = await fetchWithTimeout(upstream.url, {
+            method: 'POST',
+            headers: upstream.headers,
+            body: safeJsonStringify(upstream.body),
+            timeout: timeoutMs,
+            signal: context?.signal,
+          });
+          if (!response.ok) {
+            throw new Error(await parseOllamaError(response));
+          }
+          const data = (await response.json()) as Record<string, unknown>;
+          // Ollama-shaped, so the orchestrator records its token counts
+          return upstream.translated
+            ? openAIResponseToOllama('chat', data, model, startTime)
+            : data;
+        }
+
+        const { response: upstreamResponse, activityController } = await fetchWithActivityTimeout(
+          upstream.url,
+          {
+            method: 'POST',
+            headers: upstream.headers,
+            body: safeJsonStringify(upstream.body),
+            connectionTimeout: timeoutMs,
+            activityTimeout: timeoutMs,
+            requestId: context?.requestId,
+          }
+        );
+        if (!upstreamResponse.ok) {
+          activityController.clearTimeout();
+          throw new Error(await parseOllamaError(upstreamResponse));
+        }
+        const response = upstream.translated
+          ? openAIStreamToOllama(upstreamResponse, 'chat', model)
+          : upstreamResponse;
+
+        const events = new AnthropicEventStream(messageId, model);
+        const streamStartTime = Date.now();
+        let ttft: number | undefined;
+        let toolCalls = 0;
+        let tokenMetrics = { tokensGenerated: 0, tokensPrompt: 0 };
+        try {
+          for await (const chunk of readStreamEvents(response, 'ndjson')) {
+            activityController.resetTimeout();
+            const message = chunk.message as { tool_calls?: unknown[] } | undefined;
+            if (message && Array.isArray(message.tool_calls)) {
+              message.tool_calls = message.tool_calls.slice(0, maxToolCalls - toolCalls);
+              toolCalls += message.tool_calls.length;
+            }
+            if (chunk.done === true) {
+              tokenMetrics = {
+                tokensGenerated: typeof chunk.eval_count === 'number' ? chunk.eval_count : 0,
+                tokensPrompt:
+                  typeof chunk.prompt_eval_count === 'number' ? chunk.prompt_eval_count : 0,
+              };
+            }
+
+            if (ttft === undefined) {
+              ttft = Date.now() - streamStartTime;
+              writeEvents(events.start());
+            }
+            writeEvents(events.push(chunk));
+          }
+        } catch (error) {
+          // Retrying on another server is only safe before message_start has gone out; after
+          // that the stream is closed with an Anthropic error event
+          if (ttft === undefined) {
+            throw error;
+          }
+          const message = error instanceof Error ? error.message : String(error);
+          logger.warn('Anthropic messages stream broke off', { messageId, error: message });
+          writeEvents(events.fail(message));
+        } finally {
+          activityController.clearTimeout();
+        }
+        if (ttft === undefined) {
+          throw new Error('Upstream stream ended without any data');
+        }
+        res.end();
+
+        // Return streaming metrics and token metrics so orchestrator can record them
+        return {
+          _streamingMetrics: { ttft, streamingDuration: Date.now() - streamStartTime },
+          _tokenMetrics: tokenMetrics,
+        };
+      },
+      stream,
+      'generate',
+      'ollama',
+      routingContext
+    );
+
+    if (!stream) {
+      limitToolCalls(result);
+      const message = ollamaResponseToAnthropic(result, messageId, model);
+      if (isDebugRequested(req)) {
+        const debugInfo = getDebugInfo(routingContext);
+        if (debugInfo) {
+          message.debug = debugInfo;
+          setDebugResponseHeaders(res, debugInfo);
+        }
+      }
+      res.json(message);
+    }
+  } catch (error) {
+    logger.error('Anthropic messages request failed:', { error, model });
+
+    if (res.writableEnded) {
+      return;
+    }
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Request failed';
+    const isCapacityError =
+      (errorMessage.includes('No') && errorMessage.includes('servers available')) ||
+      error instanceof ConcurrencySaturatedError ||
+      errorMessage.includes('circuit breaker');
+    const debugPayload = isDebugRequested(req)
+      ? getDebugInfo(routingContext, { lastError: errorMessage })
+      : undefined;
+    res.status(isCapacityError ? 503 : 500).json({
+      type: 'error',
+      error: {
+        type: isCapacityError ? 'overloaded_error' : 'api_error',
+        message: errorMessage,
+      },
+      ...(debugPayload && { debug: debugPayload }),
+    });
+  }
+}
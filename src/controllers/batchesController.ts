@@ -0,0 +1,259 @@
+/**
+ * batchesController.ts
+ * OpenAI Files (/v1/files) and Batch (/v1/batches) APIs, stored under `persistencePath`
+ */
+
+import express, { type NextFunction, type Request, type Response } from 'express';
+
+import { getBatchManager, parseBatchInput } from '../batch-manager.js';
+import { getConfigManager, DEFAULT_CONFIG } from '../config/config.js';
+import { canAccessOwned, getRequestOwner } from '../middleware/auth.js';
+import { getFileStore } from '../utils/file-store.js';
+import { logger } from '../utils/logger.js';
+import { resolveAllowFallback } from '../utils/model-fallback.js';
+import { resolveLabelConstraints } from '../utils/server-labels.js';
+
+/** Purposes a client may upload files for */
+const UPLOAD_PURPOSES = ['batch', 'user_data'];
+
+const MAX_LIST_LIMIT = 100;
+
+/**
+ * Reply with an OpenAI-style error
+ */
+function sendError(
+  res: Response,
+  status: number,
+  message: string,
+  code: string,
+  param?: string
+): void {
+  res.status(status).json({
+    error: {
+      message,
+      type: status < 500 ? 'invalid_request_error' : 'server_error',
+      ...(param && { param }),
+      code,
+    },
+  });
+}
+
+/**
+ * Whether the request may see a stored file. Files of other clients read as not found.
+ */
+function canAccessFile(req: Request, id: string): boolean {
+  return canAccessOwned(req, getFileStore().getOwner(id));
+}
+
+function canAccessBatch(req: Request, id: string): boolean {
+  return canAccessOwned(req, getBatchManager().getOwner(id));
+}
+
+function maxFileBytes(): number {
+  return (getConfigManager().getConfig().batches ?? DEFAULT_CONFIG.batches).maxFileBytes;
+}
+
+/**
+ * Read multipart/form-data uploads into a Buffer, up to `batches.maxFileBytes`
+ */
+export function parseFileUpload(req: Request, res: Response, next: NextFunction): void {
+  express.raw({ type: 'multipart/form-data', limit: maxFileBytes() })(req, res, error => {
+    if ((error as { type?: string } | undefined)?.type === 'entity.too.large') {
+      sendError(res, 413, `File exceeds ${maxFileBytes()} bytes`, 'file_too_large', 'file');
+      return;
+    }
+    next(error);
+  });
+}
+
+/**
+ * Handle POST /v1/files - upload a file (multipart/form-data with `file` and `purpose`)
+ */
+export async function handleUploadFile(req: Request, res: Response): Promise<void> {
+  const contentType = req.headers['content-type'];
+  if (!Buffer.isBuffer(req.body) || !contentType?.startsWith('multipart/form-data')) {
+    sendError(
+      res,
+      400,
+      "Expected multipart/form-data with 'file' and 'purpose' fields",
+      'invalid_request'
+    );
+    return;
+  }
+
+  let form: FormData;
+  try {
+    form = await new globalThis.Request('http://localhost/v1/files', {
+      method: 'POST',
+      headers: { 'content-type': contentType },
+      body: new Uint8Array(req.body),
+    }).formData();
+  } catch {
+    sendError(res, 400, 'Malformed multipart body', 'invalid_request');
+    return;
+  }
+
+  const file = form.get('file');
+  const purpose = form.get('purpose');
+  if (typeof purpose !== 'string' || !UPLOAD_PURPOSES.includes(purpose)) {
+    sendError(
+      res,
+      400,
+      `purpose must be one of ${UPLOAD_PURPOSES.join(', ')}`,
+      'invalid_purpose',
+      'purpose'
+    );
+    return;
+  }
+  if (!(file instanceof Blob)) {
+    sendError(res, 400, "Missing 'file' field", 'missing_required_parameter', 'file');
+    return;
+  }
+
+  const content = Buffer.from(await file.arrayBuffer());
+  const filename = file instanceof File ? file.name : 'upload';
+  if (purpose === 'batch') {
+    // Reject broken batch files up front rather than when a batch runs them
+    const { errors } = parseBatchInput(content.toString('utf-8'), undefined, Infinity);
+    if (errors.length > 0) {
+      const [first] = errors;
+      sendError(
+        res,
+        400,
+        first.line ? `Line ${first.line}: ${first.message}` : first.message,
+        first.code,
+        'file'
+      );
+      return;
+    }
+  }
+
+  const stored = getFileStore().create(filename, purpose, content, getRequestOwner(req));
+  logger.info('File uploaded', { id: stored.id, purpose, bytes: stored.bytes });
+  res.json(stored);
+}
+
+/**
+ * Handle GET /v1/files - list files, optionally filtered by `purpose`
+ */
+export function handleListFiles(req: Request, res: Response): void {
+  const purpose = typeof req.query.purpose === 'string' ? req.query.purpose : undefined;
+  const data = getFileStore().list(purpose, owner => canAccessOwned(req, owner));
+  res.json({ object: 'list', data, has_more: false });
+}
+
+/**
+ * Handle GET /v1/files/:id - file metadata
+ */
+export function handleGetFile(req: Request, res: Response): void {
+  const id = req.params.id as string;
+  const file = getFileStore().get(id);
+  if (!file || !canAccessFile(req, id)) {
+    sendError(res, 404, `No file found with id '${id}'`, 'file_not_found');
+    return;
+  }
+  res.json(file);
+}
+
+/**
+ * Handle GET /v1/files/:id/content - file content
+ */
+export function handleGetFileContent(req: Request, res: Response): void {
+  const id = req.params.id as string;
+  const content = canAccessFile(req, id) ? getFileStore().read(id) : undefined;
+  if (content === undefined) {
+    sendError(res, 404, `No file found with id '${id}'`, 'file_not_found');
+    return;
+  }
+  res.setHeader('Content-Type', 'application/jsonl');
+  res.send(content);
+}
+
+/**
+ * Handle DELETE /v1/files/:id - delete a file
+ */
+export function handleDeleteFile(req: Request, res: Response): void {
+  const id = req.params.id as string;
+  if (!canAccessFile(req, id) || !getFileStore().delete(id)) {
+    sendError(res, 404, `No file found with id '${id}'`, 'file_not_found');
+    return;
+  }
+  res.json({ id, object: 'file', deleted: true });
+}
+
+/**
+ * Handle POST /v1/batches - create a batch from an uploaded input file
+ */
+export function handleCreateBatch(req: Request, res: Response): void {
+  const body = (req.body ?? {}) as Record<string, unknown>;
+  const manager = getBatchManager();
+  const inputFileId = body.input_file_id;
+  const error =
+    typeof inputFileId === 'string' && !canAccessFile(req, inputFileId)
+      ? `No file found with id '${inputFileId}'`
+      : manager.validateCreate(body);
+  if (error) {
+    sendError(res, 400, error, 'invalid_request');
+    return;
+  }
+
+  const batch = manager.create({
+    input_file_id: body.input_file_id as string,
+    endpoint: body.endpoint as string,
+    completion_window: body.completion_window as string,
+    metadata: body.metadata as Record<string, string> | null | undefined,
+    owner: getRequestOwner(req),
+    // The creating request's label headers and fallback opt-in apply to every line
+    routing: {
+      labelConstraints: resolveLabelConstraints(req),
+      allowFallback: resolveAllowFallback(req),
+    },
+  });
+  logger.info('Batch created', { id: batch.id, inputFileId: batch.input_file_id });
+  res.json(batch);
+}
+
+/**
+ * Handle GET /v1/batches - list batches, newest first (`after`, `limit`)
+ */
+export function handleListBatches(req: Request, res: Response): void {
+  const after = typeof req.query.after === 'string' ? req.query.after : undefined;
+  const requested = parseInt(String(req.query.limit ?? '20'), 10);
+  const limit = Math.min(Math.max(Number.isNaN(requested) ? 20 : requested, 1), MAX_LIST_LIMIT);
+  const { data, hasMore } = getBatchManager().list(after, limit, owner =>
+    canAccessOwned(req, owner)
+  );
+  res.json({
+    object: 'list',
+    data,
+    first_id: data[0]?.id ?? null,
+    last_id: data[data.length - 1]?.id ?? null,
+    has_more: hasMore,
+  });
+}
+
+/**
+ * Handle GET /v1/batches/:id - batch status and progress counts
+ */
+export function handleGetBatch(req: Request, res: Response): void {
+  const id = req.params.id as string;
+  const batch = canAccessBatch(req, id) ? getBatchManager().get(id) : undefined;
+  if (!batch) {
+    sendError(res, 404, `No batch found with id '${id}'`, 'batch_not_found');
+    return;
+  }
+  res.json(batch);
+}
+
+/**
+ * Handle POST /v1/batches/:id/cancel - cancel a batch, keeping the results so far
+ */
+export function handleCancelBatch(req: Request, res: Response): void {
+  const id = req.params.id as string;
+  const batch = canAccessBatch(req, id) ? getBatchManager().cancel(id) : undefined;
+  if (!batch) {
+    sendError(res, 404, `No batch found with id '${id}'`, 'batch_not_found');
+    return;
+  }
+  res.json(batch);
+}
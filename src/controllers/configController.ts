@@ -8,6 +8,7 @@ import path from 'path';
 import type { Request, Response } from 'express';
 
 import { getConfigManager, type OrchestratorConfig } from '../config/config.js';
+import { LOAD_BALANCER_ALGORITHMS } from '../load-balancer.js';
 import { logger } from '../utils/logger.js';
 
 // Define allowed base directories for config files
@@ -305,18 +306,119 @@ export function getConfigSchema(req: Request, res: Response): void {
       enableMetrics: { type: 'boolean', default: true },
       enableStreaming: { type: 'boolean', default: true },
       enablePersistence: { type: 'boolean', default: true },
+      enableProtocolTranslation: { type: 'boolean', default: true },
       queue: {
         type: 'object',
         properties: {
           maxSize: { type: 'integer', minimum: 1, default: 1000 },
           timeout: { type: 'integer', minimum: 1000, default: 300000 },
-          priorityBoostInterval: { type: 'integer', minimum: 1000, default: 30000 },
+          priorityBoostInterval: { type: 'integer', minimum: 1000, default: 5000 },
           priorityBoostAmount: { type: 'integer', minimum: 1, default: 5 },
+          maxPriority: { type: 'integer', minimum: 1, default: 100 },
+          lowPriorityShedThreshold: { type: 'number', minimum: 0, maximum: 1, default: 0.8 },
+        },
+      },
+      sessionAffinity: {
+        type: 'object',
+        properties: {
+          enabled: { type: 'boolean', default: true },
+          ttlMs: { type: 'integer', minimum: 1000, default: 1800000 },
+          maxSessions: { type: 'integer', minimum: 1, default: 10000 },
+        },
+      },
+      hedging: {
+        type: 'object',
+        properties: {
+          enabled: { type: 'boolean', default: false },
+          maxExtraLoadRatio: { type: 'number', minimum: 0, maximum: 1, default: 0.05 },
+          minDelayMs: { type: 'integer', minimum: 0, default: 50 },
+          maxDelayMs: { type: 'integer', minimum: 0, default: 5000 },
+          minSamples: { type: 'integer', minimum: 1, default: 20 },
+          maxGenerateTokens: { type: 'integer', minimum: 1, default: 256 },
+        },
+      },
+      responses: {
+        type: 'object',
+        properties: {
+          storeTtlMs: { type: 'integer', minimum: 1000, default: 3600000 },
+          maxStoredResponses: { type: 'integer', minimum: 1, default: 10000 },
+        },
+      },
+      batches: {
+        type: 'object',
+        properties: {
+          concurrency: { type: 'integer', minimum: 1, default: 4 },
+          maxRequestsPerBatch: { type: 'integer', minimum: 1, default: 50000 },
+          maxFileBytes: { type: 'integer', minimum: 1, default: 209715200 },
+          retryDelayMs: { type: 'integer', minimum: 1, default: 1000 },
+          maxRetryDelayMs: { type: 'integer', minimum: 1, default: 60000 },
+          yieldLoadRatio: { type: 'number', exclusiveMinimum: 0, maximum: 1, default: 0.8 },
+        },
+      },
+      vision: {
+        type: 'object',
+        properties: {
+          allowRemoteImages: { type: 'boolean', default: false },
+          maxImages: { type: 'integer', minimum: 1, default: 10 },
+          maxImageBytes: { type: 'integer', minimum: 1, default: 20971520 },
+          remoteImageTimeoutMs: { type: 'integer', minimum: 1, default: 10000 },
+        },
+      },
+      embeddingSharding: {
+        type: 'object',
+        properties: {
+          enabled: { type: 'boolean', default: true },
+          shardSize: { type: 'integer', minimum: 1, default: 256 },
+          maxConcurrentShards: { type: 'integer', minimum: 1, default: 8 },
+          shardRetries: { type: 'integer', minimum: 0, default: 1 },
+        },
+      },
+      embeddingCache: {
+        type: 'object',
+        properties: {
+          enabled: { type: 'boolean', default: false },
+          maxMemoryEntries: { type: 'integer', minimum: 1, default: 10000 },
+          persistent: { type: 'boolean', default: true },
+          maxDiskEntries: { type: 'integer', minimum: 1, default: 100000 },
+        },
+      },
+      responseCache: {
+        type: 'object',
+        properties: {
+          enabled: { type: 'boolean', default: true },
+          ttlMs: { type: 'integer', minimum: 1, default: 3600000 },
+          maxEntries: { type: 'integer', minimum: 1, default: 1000 },
+          maxSizeBytes: { type: 'integer', minimum: 1, default: 67108864 },
+        },
+      },
+      singleFlight: {
+        type: 'object',
+        properties: {
+          enabled: { type: 'boolean', default: false },
+          maxFollowers: { type: 'integer', minimum: 1, default: 100 },
+        },
+      },
+      pulls: {
+        type: 'object',
+        properties: {
+          concurrency: { type: 'integer', minimum: 1, default: 4 },
+          activityTimeoutMs: { type: 'integer', minimum: 1, default: 300000 },
+          maxStoredJobs: { type: 'integer', minimum: 1, default: 100 },
         },
       },
       loadBalancer: {
         type: 'object',
         properties: {
+          algorithm: {
+            type: 'string',
+            enum: [...LOAD_BALANCER_ALGORITHMS],
+            default: 'fastest-response',
+          },
+          modelAlgorithms: {
+            type: 'object',
+            additionalProperties: { type: 'string', enum: [...LOAD_BALANCER_ALGORITHMS] },
+            default: {},
+          },
           weights: {
             type: 'object',
             properties: {
@@ -335,6 +437,27 @@ export function getConfigSchema(req: Request, res: Response): void {
               errorPenalty: { type: 'number', minimum: 0, maximum: 1, default: 0.3 },
             },
           },
+          residency: {
+            type: 'object',
+            properties: {
+              enabled: { type: 'boolean', default: true },
+              loadTimeMultiplier: { type: 'number', minimum: 0, maximum: 10, default: 1.0 },
+              maxPenaltyMs: { type: 'integer', minimum: 0, default: 120000 },
+            },
+          },
+          p2c: {
+            type: 'object',
+            properties: {
+              choices: { type: 'integer', minimum: 2, maximum: 10, default: 2 },
+            },
+          },
+          consistentHash: {
+            type: 'object',
+            properties: {
+              virtualNodes: { type: 'integer', minimum: 1, maximum: 1000, default: 100 },
+              checkCapacity: { type: 'boolean', default: true },
+            },
+          },
         },
       },
       circuitBreaker: {
@@ -359,6 +482,23 @@ export function getConfigSchema(req: Request, res: Response): void {
           corsOrigins: { type: 'array', items: { type: 'string' }, default: ['*'] },
           rateLimitWindowMs: { type: 'integer', minimum: 1000, default: 60000 },
           rateLimitMax: { type: 'integer', minimum: 1, default: 100 },
+          defaultPriority: { type: 'string', enum: ['high', 'normal', 'low'], default: 'normal' },
+          apiKeyPriorities: {
+            type: 'object',
+            additionalProperties: { type: 'string', enum: ['high', 'normal', 'low'] },
+          },
+          apiKeyLabelPolicies: {
+            type: 'object',
+            additionalProperties: {
+              type: 'object',
+              properties: {
+                require: { type: 'string' },
+                prefer: { type: 'string' },
+              },
+            },
+          },
+          fallbackApiKeys: { type: 'array', items: { type: 'string' } },
+          responseCacheApiKeys: { type: 'array', items: { type: 'string' } },
         },
       },
       metrics: {
@@ -379,6 +519,16 @@ export function getConfigSchema(req: Request, res: Response): void {
           bufferSize: { type: 'integer', minimum: 1, default: 1024 },
         },
       },
+      modelAliases: {
+        type: 'object',
+        additionalProperties: { type: 'array', items: { type: 'string' }, minItems: 1 },
+        default: {},
+      },
+      modelFallbacks: {
+        type: 'object',
+        additionalProperties: { type: 'array', items: { type: 'string' }, minItems: 1 },
+        default: {},
+      },
       persistencePath: { type: 'string', default: './data' },
       configReloadIntervalMs: { type: 'integer', minimum: 5000, default: 30000 },
     },
@@ -405,5 +555,44 @@ function sanitizeConfig(config: OrchestratorConfig): Partial<OrchestratorConfig>
     };
   }
 
+  // Per-key priorities are keyed by the API key itself
+  if (sanitized.security?.apiKeyPriorities) {
+    sanitized.security = {
+      ...sanitized.security,
+      apiKeyPriorities: Object.fromEntries(
+        Object.values(sanitized.security.apiKeyPriorities).map((priority, index) => [
+          `***REDACTED-${index + 1}***`,
+          priority,
+        ])
+      ),
+    };
+  }
+
+  if (sanitized.security?.apiKeyLabelPolicies) {
+    sanitized.security = {
+      ...sanitized.security,
+      apiKeyLabelPolicies: Object.fromEntries(
+        Object.values(sanitized.security.apiKeyLabelPolicies).map((policy, index) => [
+          `***REDACTED-${index + 1}***`,
+          policy,
+        ])
+      ),
+    };
+  }
+
+  if (sanitized.security?.fallbackApiKeys) {
+    sanitized.security = {
+      ...sanitized.security,
+      fallbackApiKeys: sanitized.security.fallbackApiKeys.map(() => '***REDACTED***'),
+    };
+  }
+
+  if (sanitized.security?.responseCacheApiKeys) {
+    sanitized.security = {
+      ...sanitized.security,
+      responseCacheApiKeys: sanitized.security.responseCacheApiKeys.map(() => '***REDACTED***'),
+    };
+  }
+
   return sanitized;
 }
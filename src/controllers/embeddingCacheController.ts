@@ -0,0 +1,44 @@
+/**
+ * embeddingCacheController.ts
+ * Embedding cache statistics and purging
+ */
+
+import type { Request, Response } from 'express';
+
+import { getEmbeddingCache } from '../utils/embedding-cache.js';
+
+/**
+ * Get embedding cache hit rate, saved tokens and saved compute time, overall and per model
+ * GET /api/orchestrator/analytics/embedding-cache
+ */
+export function getEmbeddingCacheStats(req: Request, res: Response): void {
+  try {
+    res.status(200).json({
+      success: true,
+      embeddingCache: getEmbeddingCache().getStats(),
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to get embedding cache stats',
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Remove every cached embedding of a model, from memory and disk
+ * DELETE /api/orchestrator/embedding-cache/:model
+ */
+export async function purgeEmbeddingCache(req: Request, res: Response): Promise<void> {
+  const model = decodeURIComponent(req.params.model as string);
+
+  try {
+    const removed = await getEmbeddingCache().purgeModel(model);
+    res.status(200).json({ success: true, model, ...removed });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to purge embedding cache',
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
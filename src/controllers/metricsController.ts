@@ -9,6 +9,7 @@ import type { MetricsAggregator } from '../metrics/metrics-aggregator.js';
 import { PrometheusExporter } from '../metrics/prometheus-exporter.js';
 import { getOrchestratorInstance } from '../orchestrator-instance.js';
 import { getRecoveryTestCoordinator } from '../recovery-test-coordinator.js';
+import { getEmbeddingCache } from '../utils/embedding-cache.js';
 import { getInFlightManager } from '../utils/in-flight-manager.js';
 
 /**
@@ -98,7 +99,10 @@ export function getPrometheusMetrics(req: Request, res: Response): void {
       getGlobalMetrics: () => orchestrator.getGlobalMetrics(),
     } as unknown as MetricsAggregator);
 
-    const output = exporter.export();
+    const output = [
+      exporter.export(),
+      exporter.exportEmbeddingCache(getEmbeddingCache().getStats()),
+    ].join('\n');
 
     res.setHeader('Content-Type', 'text/plain; version=0.0.4');
     res.status(200).send(output);
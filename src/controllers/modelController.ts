@@ -1,14 +1,17 @@
 /**
  * modelController.ts
- * Model management controllers for warmup and status
+ * Model management controllers for warmup, status and aliases
  */
 
 import type { Request, Response } from 'express';
 
+import { getConfigManager } from '../config/config.js';
 import { ERROR_MESSAGES } from '../constants/index.js';
 import { getModelManager } from '../model-manager-instance.js';
 import { getOrchestratorInstance } from '../orchestrator-instance.js';
+import { loadAliasesFromDisk, saveAliasesToDisk } from '../orchestrator-persistence.js';
 import { logger } from '../utils/logger.js';
+import { normalizeAliasTargets } from '../utils/model-aliases.js';
 
 /**
  * Warmup a model on specified or all servers
@@ -290,3 +293,99 @@ export function getIdleModels(req: Request, res: Response): void {
     count: idleModels.length,
   });
 }
+
+/**
+ * Save the alias registry so admin changes survive a restart. Deleted aliases are kept as
+ * tombstones (empty target lists), so one that also comes from the config file stays deleted.
+ */
+function persistModelAliases(modelAliases: Record<string, string[]>, deleted?: string): void {
+  if (!getConfigManager().getConfig().enablePersistence) {
+    return;
+  }
+  const tombstones: Record<string, string[]> = {};
+  for (const [alias, targets] of Object.entries(loadAliasesFromDisk())) {
+    if (targets.length === 0 && !(alias in modelAliases)) {
+      tombstones[alias] = [];
+    }
+  }
+  if (deleted !== undefined) {
+    tombstones[deleted] = [];
+  }
+  saveAliasesToDisk({ ...tombstones, ...modelAliases });
+}
+
+/**
+ * List model aliases with the target each currently resolves to
+ * GET /api/orchestrator/aliases
+ */
+export function getModelAliases(req: Request, res: Response): void {
+  const orchestrator = getOrchestratorInstance();
+  const aliases = getConfigManager().getConfig().modelAliases ?? {};
+
+  res.status(200).json({
+    success: true,
+    aliases: Object.entries(aliases).map(([alias, targets]) => ({
+      alias,
+      targets,
+      resolved: orchestrator.resolveModelAlias(alias),
+    })),
+    count: Object.keys(aliases).length,
+  });
+}
+
+/**
+ * Create or replace a model alias
+ * PUT /api/orchestrator/aliases/:alias
+ * Body: { targets: string | string[] } - ordered, first available target wins
+ */
+export function setModelAlias(req: Request, res: Response): void {
+  const alias = req.params.alias as string;
+  const targets = normalizeAliasTargets((req.body as { targets?: unknown } | undefined)?.targets);
+
+  if (!targets) {
+    res.status(400).json({ error: 'targets must be a model name or a non-empty list of names' });
+    return;
+  }
+
+  const manager = getConfigManager();
+  const modelAliases = { ...manager.getConfig().modelAliases, [alias]: targets };
+
+  try {
+    manager.updateConfig({ modelAliases });
+  } catch (error) {
+    res.status(400).json({
+      error: 'Invalid model alias',
+      details: error instanceof Error ? error.message : String(error),
+    });
+    return;
+  }
+
+  persistModelAliases(modelAliases);
+  logger.info(`Model alias ${alias} set`, { targets });
+  res.status(200).json({
+    success: true,
+    alias,
+    targets,
+    resolved: getOrchestratorInstance().resolveModelAlias(alias),
+  });
+}
+
+/**
+ * Delete a model alias
+ * DELETE /api/orchestrator/aliases/:alias
+ */
+export function deleteModelAlias(req: Request, res: Response): void {
+  const alias = req.params.alias as string;
+  const manager = getConfigManager();
+  const { [alias]: removed, ...modelAliases } = manager.getConfig().modelAliases ?? {};
+
+  if (!removed) {
+    res.status(404).json({ error: `Model alias '${alias}' not found` });
+    return;
+  }
+
+  manager.updateConfig({ modelAliases });
+  persistModelAliases(modelAliases, alias);
+  logger.info(`Model alias ${alias} deleted`);
+  res.status(200).json({ success: true, alias });
+}
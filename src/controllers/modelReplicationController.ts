@@ -0,0 +1,377 @@
+/**
+ * modelReplicationController.ts
+ * Ollama model authoring endpoints (/api/create, /api/push and /api/blobs/:digest) sent to a
+ * chosen set of servers, so a Modelfile-derived model can be built the same way across the
+ * fleet. Targets come from X-Orchestrator-Servers or `?servers=` (see server-targets.ts).
+ */
+
+import { PassThrough, type Readable } from 'stream';
+
+import type { Request, Response } from 'express';
+
+import { getConfigManager, DEFAULT_CONFIG } from '../config/config.js';
+import { ERROR_MESSAGES } from '../constants/index.js';
+import { getOrchestratorInstance } from '../orchestrator-instance.js';
+import type { AIServer } from '../orchestrator.types.js';
+import { streamModelOperation } from '../pull-manager.js';
+import { fetchWithTimeout } from '../utils/fetchWithTimeout.js';
+import { safeJsonStringify } from '../utils/json-utils.js';
+import { logger } from '../utils/logger.js';
+import { parseOllamaErrorGlobal as parseOllamaError } from '../utils/ollamaError.js';
+import { getBackendHeaders } from '../utils/protocol-translation.js';
+import { readServerTargets, resolveServerTargets } from '../utils/server-targets.js';
+
+/** Response header listing the targets missing a blob, on HEAD /api/blobs/:digest */
+export const MISSING_SERVERS_HEADER = 'X-Orchestrator-Missing-Servers';
+
+/**
+ * Ollama blob digests. The digest goes into the backend URL, so anything else (such as a
+ * decoded `..%2F` path) is rejected before a request is sent.
+ */
+const DIGEST_PATTERN = /^sha256:[0-9a-f]{64}$/;
+
+/** Outcome of an operation on one target server */
+interface ServerResult {
+  serverId: string;
+  success: boolean;
+  /** Last status line the server reported */
+  status?: string;
+  error?: string;
+}
+
+/**
+ * The servers a request targets, or undefined after replying 400 when the selection (or the
+ * blob digest) is invalid
+ */
+function resolveTargets(req: Request, res: Response): AIServer[] | undefined {
+  const digest = req.params.digest as string | undefined;
+  if (digest !== undefined && !DIGEST_PATTERN.test(digest)) {
+    res.status(400).json({ error: `Invalid blob digest '${digest}'` });
+    return undefined;
+  }
+  const targets = resolveServerTargets(
+    readServerTargets(req),
+    getOrchestratorInstance().getServers()
+  );
+  if ('error' in targets) {
+    res.status(400).json({ error: targets.error });
+    return undefined;
+  }
+  return targets.servers;
+}
+
+/**
+ * The body of a per-server summary: Ollama's `status: "success"` when every server succeeded,
+ * otherwise an `error` naming the servers that failed
+ */
+function summarize(operation: string, results: ServerResult[]): Record<string, unknown> {
+  const failures = results
+    .filter(result => !result.success)
+    .map(result => `${result.serverId}: ${result.error ?? 'unknown error'}`);
+  return failures.length === 0
+    ? { status: 'success', servers: results }
+    : { error: `${operation} failed on ${failures.join('; ')}`, servers: results };
+}
+
+function getActivityTimeoutMs(): number {
+  return (getConfigManager().getConfig().pulls ?? DEFAULT_CONFIG.pulls).activityTimeoutMs;
+}
+
+/**
+ * Run a streaming model operation on every target at once. Progress streams as NDJSON lines
+ * tagged with `serverId`, ending in a per-server summary; with `stream: false` only the summary
+ * is sent. `onSuccess` runs for each server that succeeded.
+ */
+async function replicate(
+  req: Request,
+  res: Response,
+  operation: string,
+  endpoint: '/api/create' | '/api/push',
+  targets: AIServer[],
+  onSuccess?: (server: AIServer) => Promise<void>
+): Promise<void> {
+  const body = req.body as Record<string, unknown>;
+  const streaming = body.stream !== false;
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+
+  if (streaming) {
+    res.status(200);
+    res.setHeader('Content-Type', 'application/x-ndjson');
+  }
+  const writeLine = (line: Record<string, unknown>): void => {
+    if (streaming && !res.writableEnded) {
+      res.write(`${safeJsonStringify(line)}\n`);
+    }
+  };
+
+  logger.info(`Replicating ${endpoint}`, { model: body.model, servers: targets.map(s => s.id) });
+  const results = await Promise.all(
+    targets.map(async (server): Promise<ServerResult> => {
+      let status: string | undefined;
+      try {
+        await streamModelOperation(
+          server,
+          endpoint,
+          body,
+          controller.signal,
+          getActivityTimeoutMs(),
+          event => {
+            status = event.status ?? status;
+            writeLine({ serverId: server.id, ...event });
+          }
+        );
+        await onSuccess?.(server);
+        return { serverId: server.id, success: true, status };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn(`${endpoint} failed on server`, { serverId: server.id, error: message });
+        return { serverId: server.id, success: false, status, error: message };
+      }
+    })
+  );
+
+  const summary = summarize(operation, results);
+  if (streaming) {
+    writeLine(summary);
+    res.end();
+  } else {
+    res.status('error' in summary ? 500 : 200).json(summary);
+  }
+}
+
+/**
+ * Create a model on every target server, refreshing each server's model list afterwards so
+ * the new model is routable. Blobs the Modelfile refers to must already be on the targets
+ * (see handleBlobUpload).
+ * POST /api/create
+ */
+export async function handleCreate(req: Request, res: Response): Promise<void> {
+  const body = req.body as Record<string, unknown> | undefined;
+  if (!body || typeof (body.model ?? body.name) !== 'string') {
+    res.status(400).json({ error: ERROR_MESSAGES.MODEL_REQUIRED_STRING });
+    return;
+  }
+  const targets = resolveTargets(req, res);
+  if (!targets) {
+    return;
+  }
+
+  const orchestrator = getOrchestratorInstance();
+  await replicate(req, res, 'Create', '/api/create', targets, async server => {
+    try {
+      await orchestrator.updateServerStatus(server);
+    } catch (error) {
+      logger.warn('Could not refresh server after model create', { serverId: server.id, error });
+    }
+  });
+}
+
+/**
+ * Push a model to its registry. Without a target selection the push runs on one healthy
+ * server that has the model, as every copy pushes the same layers.
+ * POST /api/push
+ */
+export async function handlePush(req: Request, res: Response): Promise<void> {
+  const body = req.body as Record<string, unknown> | undefined;
+  const model = body?.model ?? body?.name;
+  if (typeof model !== 'string') {
+    res.status(400).json({ error: ERROR_MESSAGES.MODEL_REQUIRED_STRING });
+    return;
+  }
+
+  let targets: AIServer[] | undefined;
+  if (readServerTargets(req) === undefined) {
+    const source = getOrchestratorInstance()
+      .getServers()
+      .find(
+        server =>
+          server.healthy &&
+          server.supportsOllama !== false &&
+          (server.models.includes(model) ||
+            (!model.includes(':') && server.models.includes(`${model}:latest`)))
+      );
+    if (!source) {
+      res.status(404).json({ error: ERROR_MESSAGES.MODEL_NOT_FOUND_ON_SERVER(model) });
+      return;
+    }
+    targets = [source];
+  } else {
+    targets = resolveTargets(req, res);
+  }
+  if (targets) {
+    await replicate(req, res, 'Push', '/api/push', targets);
+  }
+}
+
+/**
+ * Check that every target server has a blob: 200 when all do, otherwise 404 with the servers
+ * missing it listed in X-Orchestrator-Missing-Servers
+ * HEAD /api/blobs/:digest
+ */
+export async function handleBlobExists(req: Request, res: Response): Promise<void> {
+  const digest = req.params.digest as string;
+  const targets = resolveTargets(req, res);
+  if (!targets) {
+    return;
+  }
+
+  const present = await Promise.all(
+    targets.map(async server => {
+      try {
+        const response = await fetchWithTimeout(`${server.url}/api/blobs/${digest}`, {
+          method: 'HEAD',
+          headers: getBackendHeaders(server),
+          timeout: 30000,
+        });
+        return response.ok;
+      } catch (error) {
+        logger.debug('Blob check failed', { serverId: server.id, digest, error });
+        return false;
+      }
+    })
+  );
+
+  const missing = targets.filter((_, index) => !present[index]).map(server => server.id);
+  if (missing.length > 0) {
+    res.setHeader(MISSING_SERVERS_HEADER, missing.join(','));
+  }
+  res.status(missing.length === 0 ? 200 : 404).end();
+}
+
+/**
+ * A web stream reading `source` only as the consumer asks for data, so a slow consumer leaves
+ * the data in `source` and its backpressure reaches the pipe feeding it. (Readable.toWeb reads
+ * ahead without limit on Node 20.)
+ */
+function toPullStream(source: Readable): ReadableStream<Uint8Array> {
+  const iterator = source[Symbol.asyncIterator]() as AsyncIterator<Uint8Array>;
+  return new ReadableStream<Uint8Array>(
+    {
+      async pull(controller) {
+        const { done, value } = await iterator.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      },
+      async cancel(reason) {
+        await iterator.return?.(reason);
+      },
+    },
+    { highWaterMark: 0 }
+  );
+}
+
+/**
+ * Watch one target's copy of an uploaded blob and call `onStall` once the target has left it
+ * full (not reading) for `timeoutMs`. The request body is piped to every target, so the upload
+ * advances at the pace of the slowest one; a target that stops reading must be dropped or it
+ * holds back all the others. Returns a function that stops watching.
+ */
+function watchForStall(
+  req: Request,
+  copy: PassThrough,
+  timeoutMs: number,
+  onStall: () => void
+): () => void {
+  let timer: NodeJS.Timeout | undefined;
+  const onDrain = (): void => {
+    clearTimeout(timer);
+    timer = undefined;
+  };
+  // Runs after the pipe has written the chunk to the copy
+  const onData = (): void => {
+    if (timer === undefined && copy.writableNeedDrain) {
+      timer = setTimeout(onStall, timeoutMs);
+      copy.once('drain', onDrain);
+    }
+  };
+  req.on('data', onData);
+  return () => {
+    req.off('data', onData);
+    copy.off('drain', onDrain);
+    clearTimeout(timer);
+  };
+}
+
+/**
+ * Upload a blob to every target server at once, streaming the request body to each of them
+ * without buffering it. A server that stops reading for `pulls.activityTimeoutMs` fails so the
+ * rest can finish. Replies 201 with a per-server summary when every upload succeeded.
+ * POST /api/blobs/:digest
+ */
+export async function handleBlobUpload(req: Request, res: Response): Promise<void> {
+  const digest = req.params.digest as string;
+  const targets = resolveTargets(req, res);
+  if (!targets) {
+    return;
+  }
+
+  // One controller per target, so a stalled upload can be cancelled on its own
+  const uploads = targets.map(() => new AbortController());
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      uploads.forEach(upload => upload.abort());
+    }
+  });
+
+  const stallTimeoutMs = getActivityTimeoutMs();
+  logger.info('Uploading blob', { digest, servers: targets.map(server => server.id) });
+  const results = await Promise.all(
+    targets.map(async (server, index): Promise<ServerResult> => {
+      // Each server reads its own copy; a failed or stalled upload stops taking data so the
+      // others are not held back by it
+      const copy = new PassThrough();
+      req.pipe(copy);
+      let stalled = false;
+      const stopWatching = watchForStall(req, copy, stallTimeoutMs, () => {
+        stalled = true;
+        req.unpipe(copy);
+        uploads[index].abort();
+      });
+      try {
+        const init: RequestInit & { duplex: 'half' } = {
+          method: 'POST',
+          headers: {
+            ...getBackendHeaders(server),
+            'Content-Type': 'application/octet-stream',
+          },
+          body: toPullStream(copy),
+          // Node's fetch only sends a stream body when told the request is half-duplex
+          duplex: 'half',
+          signal: uploads[index].signal,
+        };
+        const response = await fetch(`${server.url}/api/blobs/${digest}`, init);
+        if (!response.ok) {
+          throw new Error(await parseOllamaError(response));
+        }
+        return { serverId: server.id, success: true };
+      } catch (error) {
+        req.unpipe(copy);
+        copy.resume();
+        const message = stalled
+          ? `Server stopped reading the blob for ${stallTimeoutMs}ms`
+          : error instanceof Error
+            ? error.message
+            : String(error);
+        logger.warn('Blob upload failed on server', {
+          serverId: server.id,
+          digest,
+          error: message,
+        });
+        return { serverId: server.id, success: false, error: message };
+      } finally {
+        stopWatching();
+      }
+    })
+  );
+
+  const summary = summarize('Blob upload', results);
+  res.status('error' in summary ? 500 : 201).json(summary);
+}
@@ -7,6 +7,7 @@ import type { Request, Response } from 'express';
 
 import { getConfigManager } from '../config/config.js';
 import { API_ENDPOINTS, ERROR_MESSAGES } from '../constants/index.js';
+import { deriveRequestKey } from '../load-balancer.js';
 import { TTFTTracker } from '../metrics/ttft-tracker.js';
 import { getOrchestratorInstance, type RoutingContext } from '../orchestrator-instance.js';
 import type { AIServer } from '../orchestrator.types.js';
@@ -18,11 +19,31 @@ import {
 } from '../streaming.js';
 import { shouldBypassCircuitBreaker } from '../utils/circuit-breaker-helpers.js';
 import { getDebugInfo, isDebugRequested, setDebugResponseHeaders } from '../utils/debug-headers.js';
+import {
+  embedWithCache,
+  getEmbeddingCache,
+  ollamaEmbedBatch,
+  resolveCacheScope,
+} from '../utils/embedding-cache.js';
+import { embedSharded, mergeOllamaEmbeddings } from '../utils/embedding-shards.js';
 import { fetchWithTimeout, fetchWithActivityTimeout } from '../utils/fetchWithTimeout.js';
+import { isShortGeneration } from '../utils/hedging.js';
 import { getInFlightManager } from '../utils/in-flight-manager.js';
 import { safeJsonParse, safeJsonStringify } from '../utils/json-utils.js';
 import { logger } from '../utils/logger.js';
+import { resolveAllowFallback, resolveAttemptModel } from '../utils/model-fallback.js';
 import { parseOllamaErrorGlobal as parseOllamaError } from '../utils/ollamaError.js';
+import {
+  buildOllamaRequest,
+  getBackendHeaders,
+  openAIResponseToOllama,
+  openAIStreamToOllama,
+} from '../utils/protocol-translation.js';
+import { resolveRequestPriority } from '../utils/request-priority.js';
+import { ConcurrencySaturatedError } from '../utils/request-queue.js';
+import { shareRoutingContext } from '../utils/response-cache.js';
+import { resolveLabelConstraints } from '../utils/server-labels.js';
+import { resolveAffinityKey } from '../utils/session-affinity.js';
 import { performStreamHandoff } from '../utils/stream-handoff.js';
 import { resolveRequestTimeout } from '../utils/timeout-manager.js';
 
@@ -30,6 +51,10 @@ import { resolveRequestTimeout } from '../utils/timeout-manager.js';
 interface GenerateRequestBody {
   model?: string;
   prompt?: string;
+  system?: string;
+  images?: string[];
+  raw?: boolean;
+  format?: string | Record<string, unknown>;
   stream?: boolean;
   context?: number[];
   options?: Record<string, unknown>;
@@ -40,6 +65,8 @@ interface GenerateRequestBody {
 interface ChatRequestBody {
   model?: string;
   messages?: unknown[];
+  tools?: unknown[];
+  format?: string | Record<string, unknown>;
   stream?: boolean;
   options?: Record<string, unknown>;
   keep_alive?: number;
@@ -124,18 +151,18 @@ export async function handleTags(req: Request, res: Response): Promise<void> {
  */
 export async function handleGenerate(req: Request, res: Response): Promise<void> {
   const body = req.body as GenerateRequestBody;
-  const { model } = body;
+  const { model: requestedModel } = body;
   const prompt = body.prompt;
 
   logger.info(`Received generate request`, {
-    model,
+    model: requestedModel,
     promptLength: prompt?.length,
     stream: isStreamingRequest(body),
     hasContext: !!body.context,
     hasOptions: !!body.options,
   });
 
-  if (!model) {
+  if (!requestedModel) {
     res.status(400).json({ error: ERROR_MESSAGES.MODEL_REQUIRED });
     return;
   }
@@ -150,14 +177,26 @@ export async function handleGenerate(req: Request, res: Response): Promise<void>
   }
 
   const orchestrator = getOrchestratorInstance();
+  let model = orchestrator.resolveModelAlias(requestedModel, 'ollama');
+  body.model = model;
+
   const useStreaming = isStreamingRequest(body);
   const _config = getConfigManager().getConfig();
-  const routingContext: RoutingContext = {};
+  const routingContext: RoutingContext = {
+    priority: resolveRequestPriority(req),
+    labelConstraints: resolveLabelConstraints(req),
+    allowFallback: resolveAllowFallback(req),
+    hedge: !useStreaming && isShortGeneration(body.options?.num_predict),
+    requestKey: deriveRequestKey(model, prompt),
+  };
+  shareRoutingContext(res, routingContext);
 
   try {
     const result = await orchestrator.tryRequestWithFailover(
       model,
       async (server, context) => {
+        model = resolveAttemptModel(context, model);
+        body.model = model;
         // Use dynamic timeout for streaming (same as non-streaming requests)
         // This timeout adapts based on historical response times
         if (useStreaming) {
@@ -188,26 +227,27 @@ export async function handleGenerate(req: Request, res: Response): Promise<void>
           logger.debug(
             `Using dynamic timeout for streaming: ${timeoutMs}ms for ${server.id}:${model}, stallThreshold: ${stallThreshold}ms`
           );
-          const { response, activityController } = await fetchWithActivityTimeout(
-            `${server.url}${API_ENDPOINTS.OLLAMA.GENERATE}`,
+          const upstream = buildOllamaRequest(server, 'generate', body, true);
+          const { response: upstreamResponse, activityController } = await fetchWithActivityTimeout(
+            upstream.url,
             {
               method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: safeJsonStringify({
-                ...body,
-                stream: true,
-              }),
+              headers: upstream.headers,
+              body: safeJsonStringify(upstream.body),
               connectionTimeout: timeoutMs,
               activityTimeout: timeoutMs, // Use same dynamic timeout for activity (between chunks)
               requestId: requestId,
             }
           );
 
-          if (!response.ok) {
+          if (!upstreamResponse.ok) {
             activityController.clearTimeout();
-            const errorMessage = await parseOllamaError(response);
+            const errorMessage = await parseOllamaError(upstreamResponse);
             throw new Error(errorMessage);
           }
+          const response = upstream.translated
+            ? openAIStreamToOllama(upstreamResponse, 'generate', model)
+            : upstreamResponse;
 
           const ttftTracker = new TTFTTracker({ serverId: server.id, model });
           const streamStartTime = Date.now();
@@ -528,14 +568,14 @@ export async function handleGenerate(req: Request, res: Response): Promise<void>
           req.headers,
           orchestrator.getTimeout(server.id, model)
         );
-        const response = await fetchWithTimeout(`${server.url}${API_ENDPOINTS.OLLAMA.GENERATE}`, {
+        const upstream = buildOllamaRequest(server, 'generate', body, false);
+        const startTime = Date.now();
+        const response = await fetchWithTimeout(upstream.url, {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: safeJsonStringify({
-            ...body,
-            stream: false,
-          }),
+          headers: upstream.headers,
+          body: safeJsonStringify(upstream.body),
           timeout: timeoutMs,
+          signal: context?.signal,
         });
 
         if (!response.ok) {
@@ -543,7 +583,10 @@ export async function handleGenerate(req: Request, res: Response): Promise<void>
           throw new Error(errorMessage);
         }
 
-        return (await response.json()) as Record<string, unknown>;
+        const data = (await response.json()) as Record<string, unknown>;
+        return upstream.translated
+          ? openAIResponseToOllama('generate', data, model, startTime)
+          : data;
       },
       useStreaming,
       'generate',
@@ -581,7 +624,7 @@ export async function handleGenerate(req: Request, res: Response): Promise<void>
       const errorMessage = error instanceof Error ? error.message : String(error);
       const isNoServersError =
         errorMessage.includes('No') && errorMessage.includes('servers available');
-      const isConcurrencySaturated = errorMessage.includes('at max concurrency');
+      const isConcurrencySaturated = error instanceof ConcurrencySaturatedError;
 
       // Include routing context in error responses when debug is requested
       const debugPayload = isDebugRequested(req)
@@ -613,17 +656,17 @@ export async function handleGenerate(req: Request, res: Response): Promise<void>
  */
 export async function handleChat(req: Request, res: Response): Promise<void> {
   const body = req.body as ChatRequestBody;
-  const { model } = body;
+  const { model: requestedModel } = body;
   const messages = body.messages;
 
   logger.info(`Received chat request`, {
-    model,
+    model: requestedModel,
     messageCount: messages?.length,
     stream: isStreamingRequest(body),
     hasOptions: !!body.options,
   });
 
-  if (!model) {
+  if (!requestedModel) {
     res.status(400).json({ error: ERROR_MESSAGES.MODEL_REQUIRED });
     return;
   }
@@ -638,14 +681,27 @@ export async function handleChat(req: Request, res: Response): Promise<void> {
   }
 
   const orchestrator = getOrchestratorInstance();
+  let model = orchestrator.resolveModelAlias(requestedModel, 'ollama');
+  body.model = model;
+
   const useStreaming = isStreamingRequest(body);
   const _config = getConfigManager().getConfig();
-  const routingContext: RoutingContext = {};
+  const routingContext: RoutingContext = {
+    priority: resolveRequestPriority(req),
+    labelConstraints: resolveLabelConstraints(req),
+    allowFallback: resolveAllowFallback(req),
+    hedge: !useStreaming && isShortGeneration(body.options?.num_predict),
+    affinityKey: resolveAffinityKey(req, messages),
+    requestKey: deriveRequestKey(model, messages),
+  };
+  shareRoutingContext(res, routingContext);
 
   try {
     const result = await orchestrator.tryRequestWithFailover(
       model,
       async (server, context) => {
+        model = resolveAttemptModel(context, model);
+        body.model = model;
         // Use dynamic timeout for streaming (same as non-streaming requests)
         if (useStreaming) {
           const timeoutMs = resolveRequestTimeout(
@@ -686,26 +742,27 @@ export async function handleChat(req: Request, res: Response): Promise<void> {
             messages // original messages for handoff reconstruction
           );
 
-          const { response, activityController } = await fetchWithActivityTimeout(
-            `${server.url}${API_ENDPOINTS.OLLAMA.CHAT}`,
+          const upstream = buildOllamaRequest(server, 'chat', body, true);
+          const { response: upstreamResponse, activityController } = await fetchWithActivityTimeout(
+            upstream.url,
             {
               method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: safeJsonStringify({
-                ...body,
-                stream: true,
-              }),
+              headers: upstream.headers,
+              body: safeJsonStringify(upstream.body),
               connectionTimeout: timeoutMs,
               activityTimeout: timeoutMs, // Use same dynamic timeout for activity
               requestId,
             }
           );
 
-          if (!response.ok) {
+          if (!upstreamResponse.ok) {
             activityController.clearTimeout();
-            const errorMessage = await parseOllamaError(response);
+            const errorMessage = await parseOllamaError(upstreamResponse);
             throw new Error(errorMessage);
           }
+          const response = upstream.translated
+            ? openAIStreamToOllama(upstreamResponse, 'chat', model)
+            : upstreamResponse;
 
           const ttftTracker = new TTFTTracker({ serverId: server.id, model });
           const streamStartTime = Date.now();
@@ -967,14 +1024,14 @@ export async function handleChat(req: Request, res: Response): Promise<void> {
           req.headers,
           orchestrator.getTimeout(server.id, model)
         );
-        const response = await fetchWithTimeout(`${server.url}${API_ENDPOINTS.OLLAMA.CHAT}`, {
+        const upstream = buildOllamaRequest(server, 'chat', body, false);
+        const startTime = Date.now();
+        const response = await fetchWithTimeout(upstream.url, {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: safeJsonStringify({
-            ...body,
-            stream: false,
-          }),
+          headers: upstream.headers,
+          body: safeJsonStringify(upstream.body),
           timeout: timeoutMs,
+          signal: context?.signal,
         });
 
         if (!response.ok) {
@@ -982,7 +1039,8 @@ export async function handleChat(req: Request, res: Response): Promise<void> {
           throw new Error(errorMessage);
         }
 
-        return (await response.json()) as Record<string, unknown>;
+        const data = (await response.json()) as Record<string, unknown>;
+        return upstream.translated ? openAIResponseToOllama('chat', data, model, startTime) : data;
       },
       useStreaming,
       'generate',
@@ -1020,7 +1078,7 @@ export async function handleChat(req: Request, res: Response): Promise<void> {
       const errorMessage = error instanceof Error ? error.message : String(error);
       const isNoServersError =
         errorMessage.includes('No') && errorMessage.includes('servers available');
-      const isConcurrencySaturated = errorMessage.includes('at max concurrency');
+      const isConcurrencySaturated = error instanceof ConcurrencySaturatedError;
 
       const debugPayload = isDebugRequested(req)
         ? getDebugInfo(routingContext, { lastError: errorMessage })
@@ -1051,25 +1109,33 @@ export async function handleChat(req: Request, res: Response): Promise<void> {
  */
 export async function handleEmbeddings(req: Request, res: Response): Promise<void> {
   const body = req.body as EmbeddingsRequestBody;
-  const { model, prompt } = body;
+  const { model: requestedModel, prompt } = body;
 
   logger.info(`Received embeddings request`, {
-    model,
+    model: requestedModel,
     promptLength: prompt?.length,
   });
 
-  if (!model || !prompt) {
+  if (!requestedModel || !prompt) {
     res.status(400).json({ error: ERROR_MESSAGES.MODEL_AND_PROMPT_REQUIRED });
     return;
   }
 
   const orchestrator = getOrchestratorInstance();
-  const routingContext: RoutingContext = {};
+  const model = orchestrator.resolveModelAlias(requestedModel, 'ollama');
+  body.model = model;
+
+  const routingContext: RoutingContext = {
+    priority: resolveRequestPriority(req),
+    labelConstraints: resolveLabelConstraints(req),
+    hedge: true,
+    requestKey: deriveRequestKey(model, prompt),
+  };
 
-  try {
-    const result = await orchestrator.tryRequestWithFailover(
+  const embed = () =>
+    orchestrator.tryRequestWithFailover(
       model,
-      async (server, _context) => {
+      async (server, context) => {
         const timeout = resolveRequestTimeout(
           req.headers,
           orchestrator.getTimeout(server.id, model)
@@ -1079,6 +1145,7 @@ export async function handleEmbeddings(req: Request, res: Response): Promise<voi
           headers: { 'Content-Type': 'application/json' },
           body: safeJsonStringify({ ...body, model, prompt }),
           timeout,
+          signal: context?.signal,
         });
 
         if (!response.ok) {
@@ -1094,6 +1161,26 @@ export async function handleEmbeddings(req: Request, res: Response): Promise<voi
       routingContext
     );
 
+  try {
+    const cache = getEmbeddingCache();
+    let result: Record<string, unknown>;
+    if (cache.isEnabled()) {
+      const scope = await resolveCacheScope('embeddings', model, orchestrator.getServers());
+      const { embeddings, response } = await embedWithCache(
+        cache,
+        scope,
+        [prompt],
+        embed,
+        upstream => ({
+          embeddings: upstream.embedding === undefined ? [] : [upstream.embedding],
+          tokens: 0,
+        })
+      );
+      result = { ...response, embedding: embeddings[0] };
+    } else {
+      result = await embed();
+    }
+
     // Send response with optional debug info (?debug=true or X-Include-Debug-Info: true)
     const includeDebug = isDebugRequested(req);
     if (includeDebug) {
@@ -1110,7 +1197,7 @@ export async function handleEmbeddings(req: Request, res: Response): Promise<voi
     const errorMessage = error instanceof Error ? error.message : String(error);
     const isNoServersError =
       errorMessage.includes('No') && errorMessage.includes('servers available');
-    const isConcurrencySaturated = errorMessage.includes('at max concurrency');
+    const isConcurrencySaturated = error instanceof ConcurrencySaturatedError;
 
     const debugPayload = isDebugRequested(req)
       ? getDebugInfo(routingContext, { lastError: errorMessage })
@@ -1191,108 +1278,217 @@ export function handleVersion(req: Request, res: Response): void {
 }
 
 /**
- * Handle /api/show - Show model info by proxying to backend server
+ * Reply to a failed /api/show or /api/embed request: 404 when the model is unknown, 503 when
+ * no server can take it, 500 otherwise
  */
-export async function handleShow(req: Request, res: Response): Promise<void> {
-  try {
-    const body = req.body as ShowRequestBody;
-    const { model } = body;
-    if (!model) {
-      res.status(400).json({ error: ERROR_MESSAGES.MODEL_REQUIRED });
-      return;
+function sendModelRequestError(
+  req: Request,
+  res: Response,
+  error: unknown,
+  model: string,
+  routingContext: RoutingContext,
+  failure: string
+): void {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  const isNotFound = /not found/i.test(errorMessage);
+  const isNoServersError =
+    errorMessage.includes('No') && errorMessage.includes('servers available');
+  const isConcurrencySaturated = error instanceof ConcurrencySaturatedError;
+
+  const debugPayload = isDebugRequested(req)
+    ? getDebugInfo(routingContext, { lastError: errorMessage })
+    : undefined;
+
+  if (isNotFound) {
+    res.status(404).json({
+      error: `model '${model}' not found on any healthy server`,
+      ...(debugPayload && { debug: debugPayload }),
+    });
+  } else if (isNoServersError || isConcurrencySaturated) {
+    res.status(503).json({
+      error: isConcurrencySaturated
+        ? 'All servers at max concurrency'
+        : 'No available servers for model',
+      model,
+      message: errorMessage,
+      ...(debugPayload && { debug: debugPayload }),
+    });
+  } else {
+    res.status(500).json({
+      error: failure,
+      details: errorMessage,
+      ...(debugPayload && { debug: debugPayload }),
+    });
+  }
+}
+
+/**
+ * Attach debug info to a JSON response when requested (?debug=true or X-Include-Debug-Info: true)
+ */
+function sendWithDebugInfo(
+  req: Request,
+  res: Response,
+  result: Record<string, unknown>,
+  routingContext: RoutingContext
+): void {
+  if (isDebugRequested(req)) {
+    const debugInfo = getDebugInfo(routingContext);
+    if (debugInfo) {
+      result.debug = debugInfo;
+      setDebugResponseHeaders(res, debugInfo);
     }
+  }
+  res.json(result);
+}
 
-    const orchestrator = getOrchestratorInstance();
+/**
+ * Handle /api/show - Show model info from a server that has the model, with failover
+ */
+export async function handleShow(req: Request, res: Response): Promise<void> {
+  const body = req.body as ShowRequestBody;
+  const { model: requestedModel } = body;
+  if (!requestedModel) {
+    res.status(400).json({ error: ERROR_MESSAGES.MODEL_REQUIRED });
+    return;
+  }
 
-    // Find a server that has this model
-    const server = orchestrator.getBestServerForModel(model);
-    if (!server) {
-      res.status(404).json({
-        error: `model '${model}' not found on any healthy server`,
-      });
-      return;
-    }
+  const orchestrator = getOrchestratorInstance();
+  const model = orchestrator.resolveModelAlias(requestedModel, 'ollama');
 
-    // Forward the request to the selected server
-    const response = await fetch(`${server.url}${API_ENDPOINTS.OLLAMA.SHOW}`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: safeJsonStringify(body),
-    });
+  const routingContext: RoutingContext = {
+    priority: resolveRequestPriority(req),
+    labelConstraints: resolveLabelConstraints(req),
+  };
 
-    if (!response.ok) {
-      const error = await parseOllamaError(response);
-      res.status(response.status).json({ error });
-      return;
-    }
+  try {
+    const result = await orchestrator.tryRequestWithFailover(
+      model,
+      async (server, context) => {
+        const response = await fetchWithTimeout(`${server.url}${API_ENDPOINTS.OLLAMA.SHOW}`, {
+          method: 'POST',
+          headers: getBackendHeaders(server),
+          body: safeJsonStringify({ ...body, model }),
+          timeout: resolveRequestTimeout(req.headers, orchestrator.getTimeout(server.id, model)),
+          signal: context?.signal,
+        });
 
-    const data = (await response.json()) as Record<string, unknown>;
-    res.json(data);
+        if (!response.ok) {
+          throw new Error(await parseOllamaError(response));
+        }
+
+        return (await response.json()) as Record<string, unknown>;
+      },
+      false,
+      'show',
+      'ollama',
+      routingContext
+    );
+
+    sendWithDebugInfo(req, res, result, routingContext);
   } catch (error) {
-    logger.error('Error in handleShow:', error);
-    res.status(500).json({ error: ERROR_MESSAGES.INTERNAL_SERVER_ERROR });
+    logger.error('Show request failed:', { error, model });
+    sendModelRequestError(req, res, error, model, routingContext, 'Show request failed');
   }
 }
 
 /**
- * Handle /api/embed - Generate embeddings with batch support (current API)
+ * Handle /api/embed - Generate embeddings with batch support (current API) and failover
  */
 export async function handleEmbed(req: Request, res: Response): Promise<void> {
-  try {
-    const body = req.body as EmbedRequestBody;
-    const { model, input } = body;
-    if (!model) {
-      res.status(400).json({ error: ERROR_MESSAGES.MODEL_REQUIRED });
-      return;
-    }
+  const body = req.body as EmbedRequestBody;
+  const { model: requestedModel, input } = body;
+  if (!requestedModel) {
+    res.status(400).json({ error: ERROR_MESSAGES.MODEL_REQUIRED });
+    return;
+  }
 
-    // Handle both single input and batch input
-    const inputs = Array.isArray(input) ? input : [input ?? body.prompt];
-    if (inputs.length === 0 || inputs.some(i => !i)) {
-      res.status(400).json({ error: ERROR_MESSAGES.INPUT_OR_PROMPT_REQUIRED });
-      return;
-    }
+  // Handle both single input and batch input
+  const inputs = Array.isArray(input) ? input : [input ?? body.prompt];
+  if (inputs.length === 0 || inputs.some(i => !i)) {
+    res.status(400).json({ error: ERROR_MESSAGES.INPUT_OR_PROMPT_REQUIRED });
+    return;
+  }
 
-    const orchestrator = getOrchestratorInstance();
+  logger.info(`Received embed request`, { model: requestedModel, inputCount: inputs.length });
 
-    const server = orchestrator.getBestServerForModel(model);
-    if (!server) {
-      res.status(404).json({
-        error: `model '${model}' not found on any healthy server`,
-      });
-      return;
-    }
+  const orchestrator = getOrchestratorInstance();
+  const model = orchestrator.resolveModelAlias(requestedModel, 'ollama');
+  body.model = model;
+
+  // Transform to new API format if needed
+  const embedBody: Record<string, unknown> = {
+    model,
+    input: inputs,
+    truncate: body.truncate ?? true,
+    options: body.options ?? {},
+    keep_alive: body.keep_alive,
+  };
+
+  if (body.dimensions) {
+    embedBody.dimensions = body.dimensions;
+  }
+
+  const routingContext: RoutingContext = {
+    priority: resolveRequestPriority(req),
+    labelConstraints: resolveLabelConstraints(req),
+    hedge: true,
+    requestKey: deriveRequestKey(model, inputs),
+  };
 
-    // Transform to new API format if needed
-    const embedBody: Record<string, unknown> = {
+  const embed = (batch: string | string[], shardContext: RoutingContext) =>
+    orchestrator.tryRequestWithFailover(
       model,
-      input: inputs,
-      truncate: body.truncate ?? true,
-      options: body.options ?? {},
-      keep_alive: body.keep_alive,
-    };
-
-    if (body.dimensions) {
-      embedBody.dimensions = body.dimensions;
-    }
+      async (server, context) => {
+        const response = await fetchWithTimeout(`${server.url}${API_ENDPOINTS.OLLAMA.EMBED}`, {
+          method: 'POST',
+          headers: getBackendHeaders(server),
+          body: safeJsonStringify({ ...embedBody, input: batch }),
+          timeout: resolveRequestTimeout(req.headers, orchestrator.getTimeout(server.id, model)),
+          signal: context?.signal,
+        });
 
-    const response = await fetch(`${server.url}${API_ENDPOINTS.OLLAMA.EMBED}`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: safeJsonStringify(embedBody),
-    });
+        if (!response.ok) {
+          throw new Error(await parseOllamaError(response));
+        }
 
-    if (!response.ok) {
-      const error = await parseOllamaError(response);
-      res.status(response.status).json({ error });
-      return;
+        return (await response.json()) as Record<string, unknown>;
+      },
+      false,
+      'embeddings',
+      'ollama',
+      shardContext
+    );
+
+  const embedAll = (batch: string[]) =>
+    embedSharded(model, batch, routingContext, embed, mergeOllamaEmbeddings);
+
+  try {
+    const cache = getEmbeddingCache();
+    let result: Record<string, unknown>;
+    if (cache.isEnabled()) {
+      // Only the inputs missing from the cache are sent to a server
+      const scope = await resolveCacheScope(
+        'embed',
+        model,
+        orchestrator.getServers(),
+        body.dimensions
+      );
+      const { embeddings, tokens, response } = await embedWithCache(
+        cache,
+        scope,
+        inputs,
+        missing => embedAll(missing as string[]),
+        ollamaEmbedBatch
+      );
+      result = { model, ...response, embeddings, prompt_eval_count: tokens };
+    } else {
+      result = await embedAll(inputs as string[]);
     }
 
-    const data = (await response.json()) as Record<string, unknown>;
-    res.json(data);
+    sendWithDebugInfo(req, res, result, routingContext);
   } catch (error) {
-    logger.error('Error in handleEmbed:', error);
-    res.status(500).json({ error: ERROR_MESSAGES.INTERNAL_SERVER_ERROR });
+    logger.error('Embed request failed:', { error, model });
+    sendModelRequestError(req, res, error, model, routingContext, 'Embed request failed');
   }
 }
 
@@ -1304,10 +1500,6 @@ export function handleUnsupported(req: Request, res: Response): void {
   let message: string;
 
   switch (path) {
-    case '/api/pull':
-      message =
-        'This is a multi-node orchestrator. Use POST /api/orchestrator/servers/:id/models/pull to pull models to a specific server.';
-      break;
     case '/api/delete':
       message =
         'This is a multi-node orchestrator. Use DELETE /api/orchestrator/servers/:id/models/:model to delete models from a specific server.';
@@ -1316,12 +1508,6 @@ export function handleUnsupported(req: Request, res: Response): void {
       message =
         'This is a multi-node orchestrator. Use POST /api/orchestrator/servers/:id/models/copy to copy models on a specific server.';
       break;
-    case '/api/create':
-    case '/api/blobs':
-    case '/api/push':
-      message =
-        'This is a multi-node orchestrator. Model creation, blob operations, and model push must be performed directly on individual Ollama servers.';
-      break;
     default:
       message = 'This operation is not supported in multi-node orchestrator mode.';
   }
@@ -8,38 +8,68 @@ import type { Request, Response } from 'express';
 
 import { getConfigManager } from '../config/config.js';
 import { API_ENDPOINTS } from '../constants/index.js';
+import { deriveRequestKey } from '../load-balancer.js';
+import {
+  classifyOpenAIError,
+  executeOpenAICompletion,
+  executeOpenAIEmbeddings,
+  generateId,
+  validateCompletionRequest,
+  type OpenAIRequestError,
+} from '../openai-executors.js';
 import { getOrchestratorInstance, type RoutingContext } from '../orchestrator-instance.js';
 import type { AIServer } from '../orchestrator.types.js';
-import { type OllamaStreamChunk, type OllamaToolCall } from '../streaming.js';
-import { resolveApiKey } from '../utils/api-keys.js';
+import { type OllamaStreamChunk } from '../streaming.js';
 import { shouldBypassCircuitBreaker } from '../utils/circuit-breaker-helpers.js';
 import { getDebugInfo, isDebugRequested, setDebugResponseHeaders } from '../utils/debug-headers.js';
 import { fetchWithTimeout, fetchWithActivityTimeout } from '../utils/fetchWithTimeout.js';
+import { isShortGeneration } from '../utils/hedging.js';
 import { getInFlightManager } from '../utils/in-flight-manager.js';
 import { safeJsonParse, safeJsonStringify } from '../utils/json-utils.js';
 import { logger } from '../utils/logger.js';
+import { resolveAllowFallback, resolveAttemptModel } from '../utils/model-fallback.js';
+import { addUsage, emptyUsage, toChoiceChunk, toSampleBody } from '../utils/multi-choice.js';
 import { parseOllamaErrorGlobal as parseOllamaError } from '../utils/ollamaError.js';
+import {
+  buildOpenAIRequest,
+  getBackendHeaders,
+  ollamaChunkToOpenAI,
+  ollamaFinishReasonToOpenAI,
+  ollamaToolCallsToOpenAI,
+  openAIRequestToOllama,
+  type OpenAITranslatedEndpoint,
+} from '../utils/protocol-translation.js';
+import { resolveRequestPriority } from '../utils/request-priority.js';
+import { shareRoutingContext } from '../utils/response-cache.js';
+import { resolveLabelConstraints } from '../utils/server-labels.js';
+import { resolveAffinityKey } from '../utils/session-affinity.js';
+import { readStreamEvents } from '../utils/stream-events.js';
 import { performStreamHandoff } from '../utils/stream-handoff.js';
+import {
+  StructuredOutputError,
+  getStrictSchema,
+  toOllamaFormat,
+  validateChatCompletion,
+  type ResponseFormat,
+} from '../utils/structured-output.js';
 import { resolveRequestTimeout } from '../utils/timeout-manager.js';
-
-/**
- * Get headers for backend requests including optional auth
- */
-function getBackendHeaders(server: AIServer): Record<string, string> {
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-  };
-  const resolvedKey = resolveApiKey(server.apiKey);
-  if (resolvedKey) {
-    headers['Authorization'] = `Bearer ${resolvedKey}`;
-  }
-  return headers;
-}
+import {
+  limitToolCalls,
+  maxToolCalls,
+  toolsForChoice,
+  type ToolChoice,
+  type ToolDefinition,
+} from '../utils/tool-calling.js';
+import { VISION_CAPABILITY, prepareImageInputs, type ImageInputError } from '../utils/vision.js';
 
 // OpenAI API Types
 interface OpenAIChatMessage {
   role: 'system' | 'user' | 'assistant' | 'tool';
-  content: string | Array<{ type: string; text?: string; image_url?: string | { url: string } }>;
+  // null on assistant messages that only carry tool calls
+  content:
+    | string
+    | null
+    | Array<{ type: string; text?: string; image_url?: string | { url: string } }>;
   name?: string;
   tool_calls?: Array<{
     id: string;
@@ -60,11 +90,11 @@ interface OpenAIChatCompletionRequest {
   presence_penalty?: number;
   frequency_penalty?: number;
   seed?: number;
-  response_format?: { type: 'text' | 'json_object' };
-  tools?: Array<{
-    type: 'function';
-    function: { name: string; description?: string; parameters?: object };
-  }>;
+  response_format?: ResponseFormat;
+  tools?: ToolDefinition[];
+  tool_choice?: ToolChoice;
+  parallel_tool_calls?: boolean;
+  n?: number;
   stream_options?: { include_usage?: boolean };
 }
 
@@ -80,6 +110,7 @@ interface OpenAICompletionRequest {
   frequency_penalty?: number;
   seed?: number;
   suffix?: string;
+  n?: number;
   stream_options?: { include_usage?: boolean };
 }
 
@@ -104,13 +135,6 @@ interface _OllamaModelEntry {
   modified_at?: string;
 }
 
-/**
- * Generate a unique ID for OpenAI-style responses
- */
-function generateId(prefix: string = 'chatcmpl'): string {
-  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 9)}`;
-}
-
 /**
  * Stream OpenAI-format SSE response from Ollama's NDJSON stream
  */
@@ -131,7 +155,8 @@ async function streamOpenAIResponse(
   ) => Promise<{ success: boolean; error?: string } | void>,
   stallThresholdMs?: number,
   stallCheckIntervalMs?: number,
-  _onStreamEnd?: () => void
+  _onStreamEnd?: () => void,
+  parallelToolCalls?: boolean
 ): Promise<void> {
   const startTime = Date.now();
   let totalTokens = 0;
@@ -140,6 +165,8 @@ async function streamOpenAIResponse(
   let lastChunkTime = startTime;
   let hasReceivedFirstChunk = false;
   let hasEmittedRoleChunk = false; // Track whether role-only first chunk has been sent (REC-37)
+  let emittedToolCalls = 0; // Running tool call index, since Ollama chunks carry none
+  const toolCallLimit = maxToolCalls(parallelToolCalls);
   let stallCheckInterval: ReturnType<typeof setInterval> | undefined;
   let stallTriggered = false;
   const effectiveStallThreshold = stallThresholdMs ?? 300000; // Default 5 minutes
@@ -263,8 +290,11 @@ async function streamOpenAIResponse(
             }
             totalTokens = promptTokens + completionTokens;
 
-            // Determine finish_reason: 'length' if truncated, else 'stop'
-            const doneFinishReason = chunk.truncated ? 'length' : 'stop';
+            // Determine finish_reason: 'length' if truncated, 'tool_calls' after a tool call
+            const doneFinishReason = ollamaFinishReasonToOpenAI(
+              chunk as Record<string, unknown>,
+              emittedToolCalls > 0
+            );
 
             // Send final chunk with finish_reason
             const finalDelta = isChat
@@ -331,8 +361,12 @@ async function streamOpenAIResponse(
 
           // Extract content and tool_calls from Ollama response
           const content = isChat ? (chunk.message?.content ?? '') : (chunk.response ?? '');
-          const toolCalls: OllamaToolCall[] | undefined = isChat
-            ? chunk.message?.tool_calls
+          const toolCalls = isChat
+            ? ollamaToolCallsToOpenAI(
+                chunk.message?.tool_calls,
+                responseId,
+                emittedToolCalls
+              )?.slice(0, Math.max(toolCallLimit - emittedToolCalls, 0))
             : undefined;
 
           // Emit role-only first chunk for chat (OpenAI spec: first chunk carries role)
@@ -368,18 +402,9 @@ async function streamOpenAIResponse(
                 delta.content = content;
               }
               if (toolCalls && toolCalls.length > 0) {
-                // Determine finish_reason for tool_calls
-                delta.tool_calls = toolCalls.map((tc, idx) => ({
-                  index: tc.index ?? idx,
-                  id: tc.id,
-                  type: tc.type ?? 'function',
-                  function: {
-                    name: tc.function?.name,
-                    arguments: tc.function?.arguments ?? '',
-                  },
-                }));
+                delta.tool_calls = toolCalls;
+                emittedToolCalls += toolCalls.length;
               }
-              const finishReason = toolCalls && toolCalls.length > 0 ? 'tool_calls' : null;
               sseChunk = {
                 id: responseId,
                 object: 'chat.completion.chunk',
@@ -389,7 +414,7 @@ async function streamOpenAIResponse(
                   {
                     index: 0,
                     delta,
-                    finish_reason: finishReason,
+                    finish_reason: toolCalls && toolCalls.length > 0 ? 'tool_calls' : null,
                   },
                 ],
               };
@@ -640,29 +665,53 @@ async function passthroughSSEStream(
  */
 export async function handleChatCompletions(req: Request, res: Response): Promise<void> {
   const body = req.body as OpenAIChatCompletionRequest;
-  const { model, messages, stream = false } = body;
+  const { model: requestedModel, messages, stream = false } = body;
 
   logger.info('Received OpenAI chat completions request', {
-    model,
+    model: requestedModel,
     messageCount: messages?.length,
     stream,
   });
 
-  if (!model || !messages || !Array.isArray(messages)) {
+  if (!requestedModel || !messages || !Array.isArray(messages)) {
     res.status(400).json({
       error: {
         message: 'model and messages array are required',
         type: 'invalid_request_error',
-        param: !model ? 'model' : 'messages',
+        param: !requestedModel ? 'model' : 'messages',
         code: 'missing_required_parameter',
       },
     });
     return;
   }
 
+  const requestError = validateCompletionRequest(body as unknown as Record<string, unknown>);
+  if (requestError) {
+    sendInvalidRequest(res, requestError);
+    return;
+  }
+  // Remote images are fetched here, so every backend receives data URLs
+  const imageCount = await prepareImageInputs(messages);
+  if (typeof imageCount !== 'number') {
+    sendImageInputError(res, imageCount);
+    return;
+  }
+
   const orchestrator = getOrchestratorInstance();
+  let model = orchestrator.resolveModelAlias(requestedModel, 'openai');
+  body.model = model;
+
   const _config = getConfigManager().getConfig();
-  const routingContext: RoutingContext = {};
+  const routingContext: RoutingContext = {
+    priority: resolveRequestPriority(req),
+    labelConstraints: resolveLabelConstraints(req),
+    allowFallback: resolveAllowFallback(req),
+    hedge: !stream && isShortGeneration(body.max_tokens),
+    affinityKey: resolveAffinityKey(req, messages),
+    requestKey: deriveRequestKey(model, messages),
+    ...(imageCount > 0 && { modelCapabilities: [VISION_CAPABILITY] }),
+  };
+  shareRoutingContext(res, routingContext);
   const responseId = generateId('chatcmpl');
 
   // Build Ollama options from OpenAI parameters
@@ -689,370 +738,589 @@ export async function handleChatCompletions(req: Request, res: Response): Promis
     ollamaOptions.stop = Array.isArray(body.stop) ? body.stop : [body.stop];
   }
 
-  // Handle response format for JSON mode
-  if (body.response_format?.type === 'json_object') {
-    ollamaOptions.format = 'json';
+  // Handle response format for JSON mode and structured outputs
+  const format = toOllamaFormat(body.response_format);
+  if (format) {
+    ollamaOptions.format = format;
   }
 
+  // Not every backend honors tool_choice, so the tool list is narrowed to match it as well
+  const tools = toolsForChoice(body.tools, body.tool_choice);
+  const toolParams = {
+    ...(tools && { tools }),
+    ...(tools && body.tool_choice !== undefined && { tool_choice: body.tool_choice }),
+    ...(body.parallel_tool_calls !== undefined && {
+      parallel_tool_calls: body.parallel_tool_calls,
+    }),
+  };
+
   try {
-    const result = await orchestrator.tryRequestWithFailover<Record<string, unknown>>(
+    if (!stream) {
+      const result = await executeOpenAICompletion(
+        'chat',
+        body as unknown as Record<string, unknown>,
+        routingContext,
+        req.headers
+      );
+      sendResult(req, res, result, routingContext);
+      return;
+    }
+
+    if (body.n !== undefined && body.n > 1) {
+      await streamMultipleChoices(
+        req,
+        res,
+        'chat',
+        body as unknown as Record<string, unknown>,
+        model,
+        routingContext,
+        body.n
+      );
+      return;
+    }
+
+    await orchestrator.tryRequestWithFailover<Record<string, unknown>>(
       model,
-      async (server: AIServer, context?: { requestId?: string }) => {
+      async (
+        server: AIServer,
+        context?: { requestId?: string; model?: string; signal?: AbortSignal }
+      ) => {
+        model = resolveAttemptModel(context, model);
+        body.model = model;
         const headers = getBackendHeaders(server);
+        const translate = server.supportsV1 === false;
 
-        if (stream) {
-          const timeoutMs = resolveRequestTimeout(
-            req.headers,
-            orchestrator.getTimeout(server.id, model)
-          );
-          const requestId = context?.requestId;
-          // Use same dynamic stall threshold formula as the Ollama path:
-          // 1.5× the request timeout, clamped to [10s, 60s].
-          const stallThreshold = Math.min(Math.max(timeoutMs * 1.5, 10_000), 60_000);
-          const stallCheckInterval = Math.min(timeoutMs / 8, 3_000);
+        const timeoutMs = resolveRequestTimeout(
+          req.headers,
+          orchestrator.getTimeout(server.id, model)
+        );
+        const requestId = context?.requestId;
+        // Use same dynamic stall threshold formula as the Ollama path:
+        // 1.5× the request timeout, clamped to [10s, 60s].
+        const stallThreshold = Math.min(Math.max(timeoutMs * 1.5, 10_000), 60_000);
+        const stallCheckInterval = Math.min(timeoutMs / 8, 3_000);
+
+        logger.info('STREAM_REQUEST_START', {
+          requestId,
+          serverId: server.id,
+          model,
+          endpoint: 'chat',
+          protocol: 'openai',
+          timeoutMs,
+          stallThresholdMs: stallThreshold,
+          stallCheckIntervalMs: stallCheckInterval,
+          messageCount: messages?.length ?? 0,
+        });
 
-          logger.info('STREAM_REQUEST_START', {
+        logger.debug(
+          `Using dynamic timeout for streaming: ${timeoutMs}ms for ${server.id}:${model}, stallThreshold: ${stallThreshold}ms`
+        );
+        // Ollama-only servers get the request translated for /api/chat; the NDJSON reply
+        // goes through the same translating stream as below
+        const upstream = translate
+          ? openAIRequestToOllama('chat', { ...body }, true)
+          : {
+              path: API_ENDPOINTS.OPENAI.CHAT_COMPLETIONS,
+              body: {
+                model,
+                messages,
+                stream: true,
+                options: Object.keys(ollamaOptions).length > 0 ? ollamaOptions : undefined,
+                ...toolParams,
+                ...(body.response_format && { response_format: body.response_format }),
+              },
+            };
+        const { response, activityController } = await fetchWithActivityTimeout(
+          `${server.url}${upstream.path}`,
+          {
+            method: 'POST',
+            headers,
+            body: safeJsonStringify(upstream.body),
+            connectionTimeout: timeoutMs,
+            activityTimeout: timeoutMs, // Use same dynamic timeout for activity
+          }
+        );
+
+        if (!response.ok) {
+          activityController.clearTimeout();
+          const errorMessage = await parseOllamaError(response);
+          throw new Error(errorMessage);
+        }
+
+        const streamStartTime = Date.now();
+        let firstChunkTime: number | undefined;
+
+        // Register with InFlightManager so the stall handler can retrieve progress
+        if (requestId) {
+          getInFlightManager().addStreamingRequest(
             requestId,
+            server.id,
+            model,
+            'openai',
+            'chat',
+            undefined, // no originalPrompt for chat endpoint
+            messages as unknown[]
+          );
+        }
+
+        // Stall detection tracking variables (set by onStallCallback closure)
+        let openaiChatStallDetected = false;
+        let openaiChatStallStartTime: number | undefined;
+        let _openaiChatHandoffAttempted = false;
+        let _openaiChatHandoffSuccess = false;
+
+        const onStallCallback = async (
+          _abortController: AbortController,
+          passedRequestId?: string
+        ): Promise<{ success: boolean; error?: string }> => {
+          // Track stall detection for debug output
+          openaiChatStallDetected = true;
+          openaiChatStallStartTime = Date.now();
+
+          logger.warn('STREAM_STALL_DETECTED', {
+            requestId: passedRequestId,
             serverId: server.id,
             model,
             endpoint: 'chat',
             protocol: 'openai',
-            timeoutMs,
-            stallThresholdMs: stallThreshold,
-            stallCheckIntervalMs: stallCheckInterval,
-            messageCount: messages?.length ?? 0,
+            message: 'Stall detected - attempting seamless handoff',
           });
 
-          logger.debug(
-            `Using dynamic timeout for streaming: ${timeoutMs}ms for ${server.id}:${model}, stallThreshold: ${stallThreshold}ms`
-          );
-          const { response, activityController } = await fetchWithActivityTimeout(
-            `${server.url}${API_ENDPOINTS.OPENAI.CHAT_COMPLETIONS}`,
-            {
-              method: 'POST',
-              headers,
-              body: safeJsonStringify({
-                model,
-                messages,
-                stream: true,
-                options: Object.keys(ollamaOptions).length > 0 ? ollamaOptions : undefined,
-                ...(body.tools && { tools: body.tools }),
-              }),
-              connectionTimeout: timeoutMs,
-              activityTimeout: timeoutMs, // Use same dynamic timeout for activity
-            }
-          );
+          const progress = passedRequestId
+            ? getInFlightManager().getStreamingRequestProgress(passedRequestId)
+            : undefined;
 
-          if (!response.ok) {
-            activityController.clearTimeout();
-            const errorMessage = await parseOllamaError(response);
-            throw new Error(errorMessage);
+          if (!progress) {
+            logger.warn('No streaming progress found for OpenAI handoff', {
+              requestId: passedRequestId,
+            });
+            return { success: false, error: 'No progress tracked' };
           }
 
-          const streamStartTime = Date.now();
-          let firstChunkTime: number | undefined;
+          // Find an eligible server for failover
+          const orchestratorInst = getOrchestratorInstance();
+          const allServers = orchestratorInst.getServers();
+          const newServer = allServers.find(
+            s =>
+              s.id !== server.id &&
+              s.healthy &&
+              s.models.includes(model) &&
+              orchestratorInst.isCircuitAllowed(s.id) &&
+              s.supportsV1 !== false
+          );
 
-          // Register with InFlightManager so the stall handler can retrieve progress
-          if (requestId) {
-            getInFlightManager().addStreamingRequest(
-              requestId,
-              server.id,
+          if (!newServer) {
+            logger.warn('No eligible OpenAI servers for handoff', {
+              requestId: passedRequestId,
+              currentServer: server.id,
               model,
-              'openai',
-              'chat',
-              undefined, // no originalPrompt for chat endpoint
-              messages as unknown[]
-            );
+            });
+            return { success: false, error: 'No alternative servers with closed circuit' };
           }
 
-          // Stall detection tracking variables (set by onStallCallback closure)
-          let openaiChatStallDetected = false;
-          let openaiChatStallStartTime: number | undefined;
-          let _openaiChatHandoffAttempted = false;
-          let _openaiChatHandoffSuccess = false;
+          _openaiChatHandoffAttempted = true;
 
-          const onStallCallback = async (
-            _abortController: AbortController,
-            passedRequestId?: string
-          ): Promise<{ success: boolean; error?: string }> => {
-            // Track stall detection for debug output
-            openaiChatStallDetected = true;
-            openaiChatStallStartTime = Date.now();
+          try {
+            const result = await performStreamHandoff({
+              originalRequest: progress,
+              newServer,
+              clientResponse: res,
+              originalRequestBody: body as unknown as Record<string, unknown>,
+              stallThresholdMs: stallThreshold,
+              stallCheckIntervalMs: stallCheckInterval,
+            });
 
-            logger.warn('STREAM_STALL_DETECTED', {
+            _openaiChatHandoffSuccess = result.success;
+            return { success: result.success, error: result.error };
+          } catch (handoffError) {
+            logger.error('OpenAI handoff failed with exception', {
               requestId: passedRequestId,
-              serverId: server.id,
-              model,
-              endpoint: 'chat',
-              protocol: 'openai',
-              message: 'Stall detected - attempting seamless handoff',
+              error: handoffError instanceof Error ? handoffError.message : String(handoffError),
             });
+            _openaiChatHandoffSuccess = false;
+            return { success: false, error: 'Handoff exception' };
+          }
+        };
 
-            const progress = passedRequestId
-              ? getInFlightManager().getStreamingRequestProgress(passedRequestId)
-              : undefined;
-
-            if (!progress) {
-              logger.warn('No streaming progress found for OpenAI handoff', {
-                requestId: passedRequestId,
-              });
-              return { success: false, error: 'No progress tracked' };
-            }
-
-            // Find an eligible server for failover
-            const orchestratorInst = getOrchestratorInstance();
-            const allServers = orchestratorInst.getServers();
-            const newServer = allServers.find(
-              s =>
-                s.id !== server.id &&
-                s.healthy &&
-                s.models.includes(model) &&
-                orchestratorInst.isCircuitAllowed(s.id) &&
-                s.supportsV1 !== false
-            );
-
-            if (!newServer) {
-              logger.warn('No eligible OpenAI servers for handoff', {
-                requestId: passedRequestId,
-                currentServer: server.id,
-                model,
-              });
-              return { success: false, error: 'No alternative servers with closed circuit' };
-            }
-
-            _openaiChatHandoffAttempted = true;
-
-            try {
-              const result = await performStreamHandoff({
-                originalRequest: progress,
-                newServer,
-                clientResponse: res,
-                originalRequestBody: body as unknown as Record<string, unknown>,
-                stallThresholdMs: stallThreshold,
-                stallCheckIntervalMs: stallCheckInterval,
-              });
-
-              _openaiChatHandoffSuccess = result.success;
-              return { success: result.success, error: result.error };
-            } catch (handoffError) {
-              logger.error('OpenAI handoff failed with exception', {
-                requestId: passedRequestId,
-                error: handoffError instanceof Error ? handoffError.message : String(handoffError),
-              });
-              _openaiChatHandoffSuccess = false;
-              return { success: false, error: 'Handoff exception' };
-            }
-          };
-
-          try {
-            let chunkCount = 0;
+        try {
+          let chunkCount = 0;
 
-            if (server.supportsV1) {
-              // REC-36: Server speaks OpenAI SSE natively — passthrough directly
-              logger.info('STREAM_MODE_PASSTHROUGH', {
-                requestId,
-                serverId: server.id,
-                model,
-              });
-              await passthroughSSEStream(
-                response,
-                res,
-                responseId,
-                model,
-                () => {
-                  if (!firstChunkTime) {
-                    firstChunkTime = Date.now();
-                    logger.info('STREAM_FIRST_CHUNK', {
-                      requestId,
-                      serverId: server.id,
-                      model,
-                      timeToFirstChunk: firstChunkTime - streamStartTime,
-                    });
-                  }
-                  activityController.resetTimeout();
-                  chunkCount++;
-                  logger.debug('STREAM_CHUNK', {
+          if (server.supportsV1) {
+            // REC-36: Server speaks OpenAI SSE natively — passthrough directly
+            logger.info('STREAM_MODE_PASSTHROUGH', {
+              requestId,
+              serverId: server.id,
+              model,
+            });
+            await passthroughSSEStream(
+              response,
+              res,
+              responseId,
+              model,
+              () => {
+                if (!firstChunkTime) {
+                  firstChunkTime = Date.now();
+                  logger.info('STREAM_FIRST_CHUNK', {
                     requestId,
                     serverId: server.id,
                     model,
-                    chunkCount,
+                    timeToFirstChunk: firstChunkTime - streamStartTime,
                   });
-                  if (requestId) {
-                    getInFlightManager().updateChunkProgress(requestId, chunkCount);
-                  }
-                },
-                requestId,
-                onStallCallback,
-                stallThreshold,
-                stallCheckInterval,
-                () => {
-                  if (requestId) {
-                    getInFlightManager().removeStreamingRequest(requestId);
-                  }
                 }
-              );
-            } else {
-              // REC-36: Server only speaks Ollama NDJSON — translate to OpenAI SSE
-              logger.info('STREAM_MODE_TRANSLATE', {
-                requestId,
-                serverId: server.id,
-                model,
-              });
-              await streamOpenAIResponse(
-                response,
-                res,
-                responseId,
-                model,
-                true,
-                body.stream_options?.include_usage,
-                () => {
-                  if (!firstChunkTime) {
-                    firstChunkTime = Date.now();
-                    logger.info('STREAM_FIRST_CHUNK', {
-                      requestId,
-                      serverId: server.id,
-                      model,
-                      timeToFirstChunk: firstChunkTime - streamStartTime,
-                    });
-                  }
-
-                  activityController.resetTimeout();
-                  chunkCount++;
-
-                  logger.debug('STREAM_CHUNK', {
+                activityController.resetTimeout();
+                chunkCount++;
+                logger.debug('STREAM_CHUNK', {
+                  requestId,
+                  serverId: server.id,
+                  model,
+                  chunkCount,
+                });
+                if (requestId) {
+                  getInFlightManager().updateChunkProgress(requestId, chunkCount);
+                }
+              },
+              requestId,
+              onStallCallback,
+              stallThreshold,
+              stallCheckInterval,
+              () => {
+                if (requestId) {
+                  getInFlightManager().removeStreamingRequest(requestId);
+                }
+              }
+            );
+          } else {
+            // REC-36: Server only speaks Ollama NDJSON — translate to OpenAI SSE
+            logger.info('STREAM_MODE_TRANSLATE', {
+              requestId,
+              serverId: server.id,
+              model,
+            });
+            await streamOpenAIResponse(
+              response,
+              res,
+              responseId,
+              model,
+              true,
+              body.stream_options?.include_usage,
+              () => {
+                if (!firstChunkTime) {
+                  firstChunkTime = Date.now();
+                  logger.info('STREAM_FIRST_CHUNK', {
                     requestId,
                     serverId: server.id,
                     model,
-                    chunkCount,
+                    timeToFirstChunk: firstChunkTime - streamStartTime,
                   });
-
-                  // Update InFlightManager with current chunk count for real-time tracking
-                  if (requestId) {
-                    getInFlightManager().updateChunkProgress(requestId, chunkCount);
-                  }
-                },
-                // streamingRequestId (for onStall)
-                requestId,
-                // Stall detection parameters
-                onStallCallback,
-                stallThreshold,
-                stallCheckInterval,
-                // Cleanup callback
-                () => {
-                  if (requestId) {
-                    getInFlightManager().removeStreamingRequest(requestId);
-                  }
                 }
-              );
-            }
 
-            logger.info('STREAM_COMPLETE', {
+                activityController.resetTimeout();
+                chunkCount++;
+
+                logger.debug('STREAM_CHUNK', {
+                  requestId,
+                  serverId: server.id,
+                  model,
+                  chunkCount,
+                });
+
+                // Update InFlightManager with current chunk count for real-time tracking
+                if (requestId) {
+                  getInFlightManager().updateChunkProgress(requestId, chunkCount);
+                }
+              },
+              // streamingRequestId (for onStall)
               requestId,
-              serverId: server.id,
-              model,
-              endpoint: 'chat',
-              duration: Date.now() - streamStartTime,
-              chunkCount,
-            });
+              // Stall detection parameters
+              onStallCallback,
+              stallThreshold,
+              stallCheckInterval,
+              // Cleanup callback
+              () => {
+                if (requestId) {
+                  getInFlightManager().removeStreamingRequest(requestId);
+                }
+              },
+              body.parallel_tool_calls
+            );
+          }
 
-            const includeDebug = isDebugRequested(req);
-            if (includeDebug) {
-              const streamDuration = Date.now() - streamStartTime;
-              const ttft = firstChunkTime ? firstChunkTime - streamStartTime : undefined;
-              const debugInfo = getDebugInfo(routingContext, {
-                requestId: requestId,
-                requestTimestamp: streamStartTime,
-                timeToFirstToken: ttft,
-                streamingDuration: streamDuration,
-                stallDetected: openaiChatStallDetected,
-                stallDurationMs: openaiChatStallStartTime
-                  ? Date.now() - openaiChatStallStartTime
-                  : undefined,
-              });
-              if (debugInfo) {
-                setDebugResponseHeaders(res, debugInfo);
-                res.write(`data: ${JSON.stringify({ debug: debugInfo })}\n\n`);
-              }
+          logger.info('STREAM_COMPLETE', {
+            requestId,
+            serverId: server.id,
+            model,
+            endpoint: 'chat',
+            duration: Date.now() - streamStartTime,
+            chunkCount,
+          });
+
+          const includeDebug = isDebugRequested(req);
+          if (includeDebug) {
+            const streamDuration = Date.now() - streamStartTime;
+            const ttft = firstChunkTime ? firstChunkTime - streamStartTime : undefined;
+            const debugInfo = getDebugInfo(routingContext, {
+              requestId: requestId,
+              requestTimestamp: streamStartTime,
+              timeToFirstToken: ttft,
+              streamingDuration: streamDuration,
+              stallDetected: openaiChatStallDetected,
+              stallDurationMs: openaiChatStallStartTime
+                ? Date.now() - openaiChatStallStartTime
+                : undefined,
+            });
+            if (debugInfo) {
+              setDebugResponseHeaders(res, debugInfo);
+              res.write(`data: ${JSON.stringify({ debug: debugInfo })}\n\n`);
             }
-          } finally {
-            activityController.clearTimeout();
           }
-
-          return { _streamed: true } as Record<string, unknown>;
+        } finally {
+          activityController.clearTimeout();
         }
 
-        // Non-streaming request - proxy to Ollama's OpenAI endpoint
+        return { _streamed: true } as Record<string, unknown>;
+      },
+      stream,
+      'generate',
+      'openai',
+      routingContext
+    );
+  } catch (error) {
+    logger.error('OpenAI chat completions failed:', { error, model });
+
+    if (res.writableEnded) {
+      return;
+    }
+
+    if (!res.headersSent) {
+      sendRequestFailure(req, res, error, routingContext);
+    }
+  }
+}
+
+/**
+ * Reply 400 for image input that breaks the vision limits, or that no server's copy of
+ * the model can see
+ */
+function sendImageInputError(res: Response, error: ImageInputError): void {
+  res.status(400).json({
+    error: {
+      message: error.error,
+      type: 'invalid_request_error',
+      param: 'messages',
+      code: error.code,
+    },
+  });
+}
+
+/**
+ * Reply 400 for a request field no server could honour, such as a tool_choice that does not
+ * fit the tools or an out-of-range n
+ */
+function sendInvalidRequest(res: Response, error: OpenAIRequestError): void {
+  res.status(400).json({
+    error: {
+      message: error.message,
+      type: 'invalid_request_error',
+      param: error.param,
+      code: error.code,
+    },
+  });
+}
+
+/**
+ * Send a non-streaming result, with debug info when requested
+ */
+function sendResult(
+  req: Request,
+  res: Response,
+  result: Record<string, unknown>,
+  routingContext: RoutingContext
+): void {
+  if (isDebugRequested(req)) {
+    const debugInfo = getDebugInfo(routingContext);
+    if (debugInfo) {
+      result.debug = debugInfo;
+      setDebugResponseHeaders(res, debugInfo);
+    }
+  }
+  res.json(result);
+}
+
+/**
+ * Reply to a failed routed request with the status its error maps to, plus debug info when
+ * requested
+ */
+function sendRequestFailure(
+  req: Request,
+  res: Response,
+  error: unknown,
+  routingContext: RoutingContext
+): void {
+  const message = error instanceof Error ? error.message : 'Request failed';
+  const { statusCode, type, code, param } = classifyOpenAIError(error);
+  const debugPayload = isDebugRequested(req)
+    ? getDebugInfo(routingContext, { lastError: message })
+    : undefined;
+  res.status(statusCode).json({
+    error: { message, type, code, ...(param && { param }) },
+    ...(debugPayload && { debug: debugPayload }),
+  });
+}
+
+/**
+ * Reply 502 when no server produced output matching the client's strict json_schema
+ */
+function sendStructuredOutputError(res: Response, message: string): void {
+  res.status(502).json({
+    error: {
+      message,
+      type: 'server_error',
+      code: 'invalid_structured_output',
+    },
+  });
+}
+
+/**
+ * Stream an n > 1 chat or text completion: every sample is a sub-request of its own, routed
+ * and failed over independently, and the samples' chunks are interleaved, each under its
+ * choice index
+ */
+async function streamMultipleChoices(
+  req: Request,
+  res: Response,
+  endpoint: OpenAITranslatedEndpoint,
+  body: Record<string, unknown>,
+  model: string,
+  routingContext: RoutingContext,
+  n: number
+): Promise<void> {
+  const orchestrator = getOrchestratorInstance();
+  const responseId = generateId(endpoint === 'chat' ? 'chatcmpl' : 'cmpl');
+  const streamOptions = body.stream_options as { include_usage?: boolean } | undefined;
+  const usage = emptyUsage();
+  const streamErrors: string[] = [];
+
+  const writeEvent = (data: string): void => {
+    if (!res.headersSent) {
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('Connection', 'keep-alive');
+      res.setHeader('X-Accel-Buffering', 'no');
+    }
+    res.write(`data: ${data}\n\n`);
+  };
+  const writeChunk = (chunk: Record<string, unknown>): void => writeEvent(safeJsonStringify(chunk));
+
+  const runSample = (sample: number): Promise<Record<string, unknown>> =>
+    orchestrator.tryRequestWithFailover<Record<string, unknown>>(
+      model,
+      async (server, context) => {
+        const sampleModel = resolveAttemptModel(context, model);
+        const sampleBody = { ...toSampleBody(body, sample), model: sampleModel };
+        const translate = server.supportsV1 === false;
+        const upstream = buildOpenAIRequest(endpoint, sampleBody, translate, true);
         const timeoutMs = resolveRequestTimeout(
           req.headers,
-          orchestrator.getTimeout(server.id, model)
+          orchestrator.getTimeout(server.id, sampleModel)
         );
-        const response = await fetchWithTimeout(
-          `${server.url}${API_ENDPOINTS.OPENAI.CHAT_COMPLETIONS}`,
+        const { response, activityController } = await fetchWithActivityTimeout(
+          `${server.url}${upstream.path}`,
           {
             method: 'POST',
-            headers,
-            body: safeJsonStringify({
-              model,
-              messages,
-              stream: false,
-              options: Object.keys(ollamaOptions).length > 0 ? ollamaOptions : undefined,
-              ...(body.tools && { tools: body.tools }),
-            }),
-            timeout: timeoutMs,
+            headers: getBackendHeaders(server),
+            body: safeJsonStringify(upstream.body),
+            connectionTimeout: timeoutMs,
+            activityTimeout: timeoutMs,
           }
         );
-
         if (!response.ok) {
-          const errorMessage = await parseOllamaError(response);
-          throw new Error(errorMessage);
+          activityController.clearTimeout();
+          throw new Error(await parseOllamaError(response));
         }
 
-        return (await response.json()) as Record<string, unknown>;
+        let started = false;
+        let toolCalls = 0;
+        try {
+          for await (const event of readStreamEvents(response, translate ? 'ndjson' : 'sse')) {
+            activityController.resetTimeout();
+            const chunk = translate
+              ? ollamaChunkToOpenAI(endpoint, event, responseId, sampleModel, toolCalls)
+              : event;
+            addUsage(usage, chunk.usage);
+
+            const choiceChunk = toChoiceChunk(chunk, sample, responseId);
+            const choices = choiceChunk.choices as Array<Record<string, unknown>>;
+            if (choices.length === 0 || res.writableEnded) {
+              continue;
+            }
+            const delta = choices[0].delta as Record<string, unknown> | undefined;
+            if (translate && delta) {
+              toolCalls += Array.isArray(delta.tool_calls) ? delta.tool_calls.length : 0;
+              if (!started) {
+                delta.role = 'assistant';
+              }
+            }
+            started = true;
+            writeChunk(choiceChunk);
+          }
+        } catch (error) {
+          // A sample with no chunks out yet may still be retried elsewhere. One that has
+          // written some keeps its partial choice, and the error is reported in the closing
+          // incomplete_choices event after the other samples finish.
+          if (!started) {
+            throw error;
+          }
+          const message = error instanceof Error ? error.message : String(error);
+          streamErrors.push(`choice ${sample}: ${message}`);
+          return { _streamed: true, _streamError: message };
+        } finally {
+          activityController.clearTimeout();
+        }
+        return { _streamed: true };
       },
-      stream,
+      true,
       'generate',
       'openai',
-      routingContext
+      // Samples go wherever the load balancer sends them rather than to one pinned server
+      { ...routingContext, affinityKey: undefined, requestKey: undefined, hedge: false }
     );
 
-    // Send non-streaming response
-    if (!stream && result && !result._streamed) {
-      const includeDebug = isDebugRequested(req);
-      if (includeDebug) {
-        const debugInfo = getDebugInfo(routingContext);
-        if (debugInfo) {
-          result.debug = debugInfo;
-          setDebugResponseHeaders(res, debugInfo);
-        }
-      }
-      res.json(result);
-    }
-  } catch (error) {
-    logger.error('OpenAI chat completions failed:', { error, model });
+  const results = await Promise.allSettled(Array.from({ length: n }, (_, i) => runSample(i)));
+  const failures = results.filter(
+    (result): result is PromiseRejectedResult => result.status === 'rejected'
+  );
 
-    if (res.writableEnded) {
-      return;
-    }
+  if (!res.headersSent && failures.length > 0) {
+    throw failures[0].reason;
+  }
 
-    if (!res.headersSent) {
-      const errorMessage = error instanceof Error ? error.message : 'Request failed';
-      const isCapacityError =
-        (errorMessage.includes('No') && errorMessage.includes('servers available')) ||
-        errorMessage.includes('at max concurrency') ||
-        errorMessage.includes('circuit breaker');
-      const debugPayload = isDebugRequested(req)
-        ? getDebugInfo(routingContext, { lastError: errorMessage })
-        : undefined;
-      res.status(isCapacityError ? 503 : 500).json({
-        error: {
-          message: errorMessage,
-          type: isCapacityError ? 'capacity_error' : 'server_error',
-          code: isCapacityError ? 'service_unavailable' : 'internal_error',
-        },
-        ...(debugPayload && { debug: debugPayload }),
-      });
-    }
+  for (const failure of failures) {
+    streamErrors.push(
+      failure.reason instanceof Error ? failure.reason.message : String(failure.reason)
+    );
   }
+  if (streamErrors.length > 0) {
+    logger.warn('Some choices of a multi-choice stream failed', { responseId, streamErrors });
+    writeChunk({
+      error: {
+        message: `${streamErrors.length} of ${n} choices failed: ${streamErrors.join('; ')}`,
+        type: 'server_error',
+        code: 'incomplete_choices',
+      },
+    });
+  }
+  if (streamOptions?.include_usage) {
+    writeChunk({
+      id: responseId,
+      object: endpoint === 'chat' ? 'chat.completion.chunk' : 'text_completion',
+      created: Math.floor(Date.now() / 1000),
+      model,
+      choices: [],
+      usage,
+    });
+  }
+  writeEvent('[DONE]');
+  res.end();
 }
 
 /**
@@ -1060,138 +1328,137 @@ export async function handleChatCompletions(req: Request, res: Response): Promis
  */
 export async function handleCompletions(req: Request, res: Response): Promise<void> {
   const body = req.body as OpenAICompletionRequest;
-  const { model, stream = false } = body;
+  const { model: requestedModel, stream = false } = body;
 
-  logger.info('Received OpenAI completions request', { model, stream });
+  logger.info('Received OpenAI completions request', { model: requestedModel, stream });
 
-  if (!model) {
+  if (!requestedModel) {
     res
       .status(400)
       .json({ error: { message: 'model is required', type: 'invalid_request_error' } });
     return;
   }
+  const requestError = validateCompletionRequest(body as unknown as Record<string, unknown>);
+  if (requestError) {
+    sendInvalidRequest(res, requestError);
+    return;
+  }
 
   const orchestrator = getOrchestratorInstance();
+  let model = orchestrator.resolveModelAlias(requestedModel, 'openai');
+  body.model = model;
+
   const _config = getConfigManager().getConfig();
-  const routingContext: RoutingContext = {};
+  const routingContext: RoutingContext = {
+    priority: resolveRequestPriority(req),
+    labelConstraints: resolveLabelConstraints(req),
+    allowFallback: resolveAllowFallback(req),
+    hedge: !stream && isShortGeneration(body.max_tokens),
+    requestKey: deriveRequestKey(model, body.prompt),
+  };
+  shareRoutingContext(res, routingContext);
 
   try {
-    const result = await orchestrator.tryRequestWithFailover<Record<string, unknown>>(
-      model,
-      async (server: AIServer) => {
-        const headers = getBackendHeaders(server);
-
-        if (stream) {
-          const timeoutMs = resolveRequestTimeout(
-            req.headers,
-            orchestrator.getTimeout(server.id, model)
-          );
-          const { response, activityController } = await fetchWithActivityTimeout(
-            `${server.url}${API_ENDPOINTS.OPENAI.COMPLETIONS}`,
-            {
-              method: 'POST',
-              headers,
-              body: safeJsonStringify({ ...body, stream: true }),
-              connectionTimeout: timeoutMs, // Use dynamic timeout
-              activityTimeout: timeoutMs, // Use same dynamic timeout for activity
-            }
-          );
-
-          if (!response.ok) {
-            activityController.clearTimeout();
-            const errorMessage = await parseOllamaError(response);
-            throw new Error(errorMessage);
-          }
-
-          try {
-            const responseId = generateId('cmpl');
-            const completionStreamStart = Date.now();
-            await streamOpenAIResponse(
-              response,
-              res,
-              responseId,
-              model,
-              false, // isChat = false for /v1/completions
-              body.stream_options?.include_usage,
-              () => {
-                activityController.resetTimeout();
-              }
-            );
+    if (!stream) {
+      const result = await executeOpenAICompletion(
+        'completions',
+        body as unknown as Record<string, unknown>,
+        routingContext,
+        req.headers
+      );
+      sendResult(req, res, result, routingContext);
+      return;
+    }
 
-            const includeDebug = isDebugRequested(req);
-            if (includeDebug) {
-              const debugInfo = getDebugInfo(routingContext, {
-                streamingDuration: Date.now() - completionStreamStart,
-              });
-              if (debugInfo) {
-                setDebugResponseHeaders(res, debugInfo);
-                res.write(`data: ${JSON.stringify({ debug: debugInfo })}\n\n`);
-              }
-            }
-          } finally {
-            activityController.clearTimeout();
-          }
+    if (body.n !== undefined && body.n > 1) {
+      await streamMultipleChoices(
+        req,
+        res,
+        'completions',
+        body as unknown as Record<string, unknown>,
+        model,
+        routingContext,
+        body.n
+      );
+      return;
+    }
 
-          return { _streamed: true } as Record<string, unknown>;
-        }
+    await orchestrator.tryRequestWithFailover<Record<string, unknown>>(
+      model,
+      async (
+        server: AIServer,
+        context?: { requestId?: string; model?: string; signal?: AbortSignal }
+      ) => {
+        model = resolveAttemptModel(context, model);
+        body.model = model;
+        const headers = getBackendHeaders(server);
+        // Ollama-only servers get the request translated for /api/generate
+        const translate = server.supportsV1 === false;
 
         const timeoutMs = resolveRequestTimeout(
           req.headers,
           orchestrator.getTimeout(server.id, model)
         );
-        const response = await fetchWithTimeout(
-          `${server.url}${API_ENDPOINTS.OPENAI.COMPLETIONS}`,
+        const upstream = translate
+          ? openAIRequestToOllama('completions', { ...body }, true)
+          : { path: API_ENDPOINTS.OPENAI.COMPLETIONS, body: { ...body, stream: true } };
+        const { response, activityController } = await fetchWithActivityTimeout(
+          `${server.url}${upstream.path}`,
           {
             method: 'POST',
             headers,
-            body: safeJsonStringify(body),
-            timeout: timeoutMs,
+            body: safeJsonStringify(upstream.body),
+            connectionTimeout: timeoutMs, // Use dynamic timeout
+            activityTimeout: timeoutMs, // Use same dynamic timeout for activity
           }
         );
 
         if (!response.ok) {
+          activityController.clearTimeout();
           const errorMessage = await parseOllamaError(response);
           throw new Error(errorMessage);
         }
 
-        return (await response.json()) as Record<string, unknown>;
+        try {
+          const responseId = generateId('cmpl');
+          const completionStreamStart = Date.now();
+          await streamOpenAIResponse(
+            response,
+            res,
+            responseId,
+            model,
+            false, // isChat = false for /v1/completions
+            body.stream_options?.include_usage,
+            () => {
+              activityController.resetTimeout();
+            }
+          );
+
+          const includeDebug = isDebugRequested(req);
+          if (includeDebug) {
+            const debugInfo = getDebugInfo(routingContext, {
+              streamingDuration: Date.now() - completionStreamStart,
+            });
+            if (debugInfo) {
+              setDebugResponseHeaders(res, debugInfo);
+              res.write(`data: ${JSON.stringify({ debug: debugInfo })}\n\n`);
+            }
+          }
+        } finally {
+          activityController.clearTimeout();
+        }
+
+        return { _streamed: true } as Record<string, unknown>;
       },
       stream,
       'generate',
       'openai',
       routingContext
     );
-
-    if (!stream && result && !result._streamed) {
-      const includeDebug = isDebugRequested(req);
-      if (includeDebug) {
-        const debugInfo = getDebugInfo(routingContext);
-        if (debugInfo) {
-          result.debug = debugInfo;
-          setDebugResponseHeaders(res, debugInfo);
-        }
-      }
-      res.json(result);
-    }
   } catch (error) {
     logger.error('OpenAI completions failed:', { error, model });
     if (!res.headersSent) {
-      const errorMessage = error instanceof Error ? error.message : 'Request failed';
-      const isCapacityError =
-        (errorMessage.includes('No') && errorMessage.includes('servers available')) ||
-        errorMessage.includes('at max concurrency') ||
-        errorMessage.includes('circuit breaker');
-      const debugPayload = isDebugRequested(req)
-        ? getDebugInfo(routingContext, { lastError: errorMessage })
-        : undefined;
-      res.status(isCapacityError ? 503 : 500).json({
-        error: {
-          message: errorMessage,
-          type: isCapacityError ? 'capacity_error' : 'server_error',
-          code: isCapacityError ? 'service_unavailable' : 'internal_error',
-        },
-        ...(debugPayload && { debug: debugPayload }),
-      });
+      sendRequestFailure(req, res, error, routingContext);
     }
   }
 }
@@ -1201,11 +1468,11 @@ export async function handleCompletions(req: Request, res: Response): Promise<vo
  */
 export async function handleOpenAIEmbeddings(req: Request, res: Response): Promise<void> {
   const body = req.body as OpenAIEmbeddingRequest;
-  const { model } = body;
+  const { model: requestedModel } = body;
 
-  logger.info('Received OpenAI embeddings request', { model });
+  logger.info('Received OpenAI embeddings request', { model: requestedModel });
 
-  if (!model || !body.input) {
+  if (!requestedModel || !body.input) {
     res
       .status(400)
       .json({ error: { message: 'model and input are required', type: 'invalid_request_error' } });
@@ -1213,66 +1480,27 @@ export async function handleOpenAIEmbeddings(req: Request, res: Response): Promi
   }
 
   const orchestrator = getOrchestratorInstance();
-  const routingContext: RoutingContext = {};
+  const model = orchestrator.resolveModelAlias(requestedModel, 'openai');
+  body.model = model;
+
+  const routingContext: RoutingContext = {
+    priority: resolveRequestPriority(req),
+    labelConstraints: resolveLabelConstraints(req),
+    hedge: true,
+    requestKey: deriveRequestKey(model, body.input),
+  };
 
   try {
-    const result = await orchestrator.tryRequestWithFailover<Record<string, unknown>>(
-      model,
-      async (server: AIServer) => {
-        const headers = getBackendHeaders(server);
-        const timeoutMs = resolveRequestTimeout(
-          req.headers,
-          orchestrator.getTimeout(server.id, model)
-        );
-        const response = await fetchWithTimeout(`${server.url}${API_ENDPOINTS.OPENAI.EMBEDDINGS}`, {
-          method: 'POST',
-          headers,
-          body: safeJsonStringify(body),
-          timeout: timeoutMs, // Use dynamic timeout
-        });
-
-        if (!response.ok) {
-          const errorMessage = await parseOllamaError(response);
-          throw new Error(errorMessage);
-        }
-
-        return (await response.json()) as Record<string, unknown>;
-      },
-      false,
-      'embeddings',
-      'openai',
-      routingContext
+    const result = await executeOpenAIEmbeddings(
+      body as unknown as Record<string, unknown>,
+      routingContext,
+      req.headers
     );
-
-    // Send response with optional debug info (?debug=true or X-Include-Debug-Info: true)
-    const includeDebug = isDebugRequested(req);
-    if (includeDebug) {
-      const debugInfo = getDebugInfo(routingContext);
-      if (debugInfo && typeof result === 'object' && result !== null) {
-        result.debug = debugInfo;
-        setDebugResponseHeaders(res, debugInfo);
-      }
-    }
-    res.json(result);
+    sendResult(req, res, result, routingContext);
   } catch (error) {
     logger.error('OpenAI embeddings failed:', { error, model });
     if (!res.headersSent) {
-      const errorMessage = error instanceof Error ? error.message : 'Request failed';
-      const isCapacityError =
-        (errorMessage.includes('No') && errorMessage.includes('servers available')) ||
-        errorMessage.includes('at max concurrency') ||
-        errorMessage.includes('circuit breaker');
-      const debugPayload = isDebugRequested(req)
-        ? getDebugInfo(routingContext, { lastError: errorMessage })
-        : undefined;
-      res.status(isCapacityError ? 503 : 500).json({
-        error: {
-          message: errorMessage,
-          type: isCapacityError ? 'capacity_error' : 'server_error',
-          code: isCapacityError ? 'service_unavailable' : 'internal_error',
-        },
-        ...(debugPayload && { debug: debugPayload }),
-      });
+      sendRequestFailure(req, res, error, routingContext);
     }
   }
 }
@@ -1366,10 +1594,17 @@ export async function handleChatCompletionsToServer(req: Request, res: Response)
     return;
   }
 
+  const requestError = validateCompletionRequest(body as unknown as Record<string, unknown>);
+  if (requestError) {
+    sendInvalidRequest(res, requestError);
+    return;
+  }
+
   const orchestrator = getOrchestratorInstance();
   const useStreaming = stream ?? false;
   const config = getConfigManager().getConfig();
   const routingContext: RoutingContext = { algorithm: 'direct', protocol: 'openai' };
+  const strictSchema = getStrictSchema(body.response_format);
 
   try {
     const result = await orchestrator.requestToServer<Record<string, unknown>>(
@@ -1498,7 +1733,8 @@ export async function handleChatCompletionsToServer(req: Request, res: Response)
                 if (requestId) {
                   getInFlightManager().removeStreamingRequest(requestId);
                 }
-              }
+              },
+              body.parallel_tool_calls
             );
 
             logger.info('STREAM_COMPLETE', {
@@ -1557,7 +1793,12 @@ export async function handleChatCompletionsToServer(req: Request, res: Response)
           throw new Error(errorMessage);
         }
 
-        return response.json() as Promise<Record<string, unknown>>;
+        const completion = (await response.json()) as Record<string, unknown>;
+        limitToolCalls(completion, body.parallel_tool_calls);
+        if (strictSchema) {
+          validateChatCompletion(completion, strictSchema);
+        }
+        return completion;
       },
       { isStreaming: useStreaming, bypassCircuitBreaker, routingContext }
     );
@@ -1581,6 +1822,10 @@ export async function handleChatCompletionsToServer(req: Request, res: Response)
       error: errorMessage,
       bypassCircuitBreaker,
     });
+    if (error instanceof StructuredOutputError) {
+      sendStructuredOutputError(res, errorMessage);
+      return;
+    }
     const debugPayload = isDebugRequested(req)
       ? getDebugInfo(routingContext, { lastError: errorMessage })
       : undefined;
@@ -0,0 +1,37 @@
+/**
+ * responseCacheController.ts
+ * Response cache statistics and clearing
+ */
+
+import type { Request, Response } from 'express';
+
+import { logger } from '../utils/logger.js';
+import { getResponseCache } from '../utils/response-cache.js';
+
+/**
+ * Get response cache hit rate, size and evictions
+ * GET /api/orchestrator/analytics/response-cache
+ */
+export function getResponseCacheStats(req: Request, res: Response): void {
+  try {
+    res.status(200).json({
+      success: true,
+      responseCache: getResponseCache().getStats(),
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to get response cache stats',
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Remove every cached response
+ * DELETE /api/orchestrator/response-cache
+ */
+export function clearResponseCache(req: Request, res: Response): void {
+  const entries = getResponseCache().clear();
+  logger.info('Cleared response cache', { entries });
+  res.status(200).json({ success: true, entries });
+}
@@ -0,0 +1,365 @@
+/**
+ * responsesController.ts
+ * OpenAI Responses API (/v1/responses), served through chat completions on any backend
+ */
+
+import type { Request, Response } from 'express';
+
+import { deriveRequestKey } from '../load-balancer.js';
+import { canAccessOwned, getRequestOwner } from '../middleware/auth.js';
+import { getOrchestratorInstance, type RoutingContext } from '../orchestrator-instance.js';
+import { fetchWithTimeout, fetchWithActivityTimeout } from '../utils/fetchWithTimeout.js';
+import { isShortGeneration } from '../utils/hedging.js';
+import { safeJsonStringify } from '../utils/json-utils.js';
+import { logger } from '../utils/logger.js';
+import { MISSING_CAPABILITY_ERROR } from '../utils/model-capabilities.js';
+import { resolveAllowFallback, resolveAttemptModel } from '../utils/model-fallback.js';
+import { parseOllamaErrorGlobal as parseOllamaError } from '../utils/ollamaError.js';
+import {
+  buildOpenAIRequest,
+  getBackendHeaders,
+  ollamaChunkToOpenAI,
+  ollamaResponseToOpenAI,
+} from '../utils/protocol-translation.js';
+import { resolveRequestPriority } from '../utils/request-priority.js';
+import { ConcurrencySaturatedError } from '../utils/request-queue.js';
+import { getResponseStore } from '../utils/response-store.js';
+import {
+  ResponseEventStream,
+  completionToResponse,
+  createResponseId,
+  formatStreamEvent,
+  inputToMessages,
+  toChatRequest,
+  toChatToolChoice,
+  toChatTools,
+  type ChatMessage,
+  type ResponseStreamEvent,
+} from '../utils/responses-api.js';
+import { resolveLabelConstraints } from '../utils/server-labels.js';
+import { resolveAffinityKey } from '../utils/session-affinity.js';
+import { readStreamEvents } from '../utils/stream-events.js';
+import {
+  STRUCTURED_OUTPUT_ERROR_MESSAGE,
+  getStrictSchema,
+  validateChatCompletion,
+  type ResponseFormat,
+} from '../utils/structured-output.js';
+import { resolveRequestTimeout } from '../utils/timeout-manager.js';
+import { limitToolCalls, maxToolCalls, validateToolChoice } from '../utils/tool-calling.js';
+import { VISION_CAPABILITY, prepareImageInputs } from '../utils/vision.js';
+
+interface ResponsesRequest {
+  model: string;
+  input: unknown;
+  instructions?: string;
+  previous_response_id?: string;
+  store?: boolean;
+  stream?: boolean;
+  max_output_tokens?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Reply with an OpenAI-style error
+ */
+function sendError(
+  res: Response,
+  status: number,
+  message: string,
+  code: string,
+  param?: string
+): void {
+  res.status(status).json({
+    error: {
+      message,
+      type: status < 500 ? 'invalid_request_error' : 'server_error',
+      ...(param && { param }),
+      code,
+    },
+  });
+}
+
+/**
+ * Handle POST /v1/responses - OpenAI Responses API
+ */
+export async function handleCreateResponse(req: Request, res: Response): Promise<void> {
+  const body = req.body as ResponsesRequest;
+  const { model: requestedModel, stream = false } = body;
+
+  logger.info('Received OpenAI responses request', {
+    model: requestedModel,
+    stream,
+    previousResponseId: body.previous_response_id,
+  });
+
+  if (!requestedModel || body.input === undefined || body.input === null) {
+    sendError(
+      res,
+      400,
+      'model and input are required',
+      'missing_required_parameter',
+      !requestedModel ? 'model' : 'input'
+    );
+    return;
+  }
+
+  const input = inputToMessages(body.input);
+  if (!Array.isArray(input)) {
+    sendError(res, 400, input.error, 'invalid_value', 'input');
+    return;
+  }
+  const tools = toChatTools(body.tools);
+  if (tools && !Array.isArray(tools)) {
+    sendError(res, 400, tools.error, 'invalid_value', 'tools');
+    return;
+  }
+  const toolChoiceError = validateToolChoice(tools, toChatToolChoice(body.tool_choice));
+  if (toolChoiceError) {
+    sendError(res, 400, toolChoiceError, 'invalid_value', 'tool_choice');
+    return;
+  }
+
+  const store = getResponseStore();
+  let history: ChatMessage[] = [];
+  if (body.previous_response_id) {
+    const previous = store.get(body.previous_response_id);
+    if (!previous || !canAccessOwned(req, previous.owner)) {
+      sendError(
+        res,
+        404,
+        `Previous response with id '${body.previous_response_id}' not found`,
+        'previous_response_not_found',
+        'previous_response_id'
+      );
+      return;
+    }
+    history = previous.messages;
+  }
+  const messages = [...history, ...input];
+  const imageCount = await prepareImageInputs(messages);
+  if (typeof imageCount !== 'number') {
+    sendError(res, 400, imageCount.error, imageCount.code, 'input');
+    return;
+  }
+
+  const orchestrator = getOrchestratorInstance();
+  let model = orchestrator.resolveModelAlias(requestedModel, 'openai');
+
+  const routingContext: RoutingContext = {
+    priority: resolveRequestPriority(req),
+    labelConstraints: resolveLabelConstraints(req),
+    allowFallback: resolveAllowFallback(req),
+    hedge: !stream && isShortGeneration(body.max_output_tokens),
+    affinityKey: resolveAffinityKey(req, messages),
+    requestKey: deriveRequestKey(model, messages),
+    ...(imageCount > 0 && { modelCapabilities: [VISION_CAPABILITY] }),
+  };
+  const responseId = createResponseId('resp');
+  const createdAt = Math.floor(Date.now() / 1000);
+  const chatBody = toChatRequest({ ...body, model }, messages, tools);
+  const strictSchema = getStrictSchema(chatBody.response_format as ResponseFormat);
+
+  // Stored responses carry the conversation including their own output, so a follow-up
+  // only needs to send its new input
+  const storeResponse = (response: Record<string, unknown>): void => {
+    if (body.store === false) {
+      return;
+    }
+    const output = inputToMessages(response.output);
+    store.set(responseId, {
+      response,
+      messages: [...messages, ...(Array.isArray(output) ? output : [])],
+      owner: getRequestOwner(req),
+    });
+  };
+
+  const events = new ResponseEventStream(responseId, { ...body, model }, model, createdAt);
+  const writeEvents = (streamEvents: ResponseStreamEvent[]): void => {
+    if (!res.headersSent) {
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('Connection', 'keep-alive');
+      res.setHeader('X-Accel-Buffering', 'no');
+    }
+    for (const event of streamEvents) {
+      res.write(formatStreamEvent(event));
+    }
+  };
+
+  try {
+    const result = await orchestrator.tryRequestWithFailover<Record<string, unknown>>(
+      model,
+      async (server, context) => {
+        model = resolveAttemptModel(context, model);
+        const translate = server.supportsV1 === false;
+        const upstream = buildOpenAIRequest('chat', { ...chatBody, model }, translate, stream);
+        const timeoutMs = resolveRequestTimeout(
+          req.headers,
+          orchestrator.getTimeout(server.id, model)
+        );
+
+        if (!stream) {
+          const response = await fetchWithTimeout(`${server.url}${upstream.path}`, {
+            method: 'POST',
+            headers: getBackendHeaders(server),
+            body: safeJsonStringify(upstream.body),
+            timeout: timeoutMs,
+            signal: context?.signal,
+          });
+          if (!response.ok) {
+            throw new Error(await parseOllamaError(response));
+          }
+          const data = (await response.json()) as Record<string, unknown>;
+          const completion = translate
+            ? ollamaResponseToOpenAI('chat', data, responseId, model)
+            : data;
+          limitToolCalls(completion, body.parallel_tool_calls);
+          if (strictSchema) {
+            validateChatCompletion(completion, strictSchema);
+          }
+          return completion;
+        }
+
+        const { response, activityController } = await fetchWithActivityTimeout(
+          `${server.url}${upstream.path}`,
+          {
+            method: 'POST',
+            headers: getBackendHeaders(server),
+            body: safeJsonStringify(upstream.body),
+            connectionTimeout: timeoutMs,
+            activityTimeout: timeoutMs,
+          }
+        );
+        if (!response.ok) {
+          activityController.clearTimeout();
+          throw new Error(await parseOllamaError(response));
+        }
+
+        let started = false;
+        let toolCalls = 0;
+        const toolCallLimit = maxToolCalls(body.parallel_tool_calls);
+        try {
+          for await (const event of readStreamEvents(response, translate ? 'ndjson' : 'sse')) {
+            activityController.resetTimeout();
+            const chunk = translate
+              ? ollamaChunkToOpenAI('chat', event, responseId, model, toolCalls)
+              : event;
+            const choice = Array.isArray(chunk.choices)
+              ? (chunk.choices[0] as Record<string, unknown> | undefined)
+              : undefined;
+            const delta = choice?.delta as Record<string, unknown> | undefined;
+            if (delta && Array.isArray(delta.tool_calls)) {
+              const calls = delta.tool_calls as Array<{ index?: number }>;
+              delta.tool_calls = calls.filter(call => (call.index ?? 0) < toolCallLimit);
+              toolCalls += translate ? calls.length : 0;
+            }
+
+            if (!started) {
+              started = true;
+              writeEvents(events.start());
+            }
+            writeEvents(events.push(chunk));
+          }
+        } catch (error) {
+          // Nothing sent yet, so the orchestrator may still try another server. After
+          // response.created the client's response can only end as response.failed.
+          if (!started) {
+            throw error;
+          }
+          const message = error instanceof Error ? error.message : String(error);
+          logger.warn('OpenAI responses stream broke off', { responseId, error: message });
+          writeEvents(events.fail(message));
+          res.end();
+          return { _streamed: true, _streamError: message };
+        } finally {
+          activityController.clearTimeout();
+        }
+
+        if (!started) {
+          writeEvents(events.start());
+        }
+        const { events: finalEvents, response: finalResponse } = events.finish();
+        writeEvents(finalEvents);
+        res.end();
+        storeResponse(finalResponse);
+        return { _streamed: true };
+      },
+      stream,
+      'generate',
+      'openai',
+      routingContext
+    );
+
+    if (!stream && result && !result._streamed) {
+      const response = completionToResponse(
+        responseId,
+        { ...body, model },
+        model,
+        result,
+        createdAt
+      );
+      storeResponse(response);
+      res.json(response);
+    }
+  } catch (error) {
+    logger.error('OpenAI responses request failed:', { error, model });
+
+    if (res.writableEnded) {
+      return;
+    }
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Request failed';
+    if (strictSchema && errorMessage.includes(STRUCTURED_OUTPUT_ERROR_MESSAGE)) {
+      sendError(res, 502, errorMessage, 'invalid_structured_output');
+      return;
+    }
+    if (errorMessage.startsWith(MISSING_CAPABILITY_ERROR)) {
+      sendError(res, 400, errorMessage, 'model_not_vision_capable', 'input');
+      return;
+    }
+    const isCapacityError =
+      (errorMessage.includes('No') && errorMessage.includes('servers available')) ||
+      error instanceof ConcurrencySaturatedError ||
+      errorMessage.includes('circuit breaker');
+    res.status(isCapacityError ? 503 : 500).json({
+      error: {
+        message: errorMessage,
+        type: isCapacityError ? 'capacity_error' : 'server_error',
+        code: isCapacityError ? 'service_unavailable' : 'internal_error',
+      },
+    });
+  }
+}
+
+/**
+ * Handle GET /v1/responses/:id - fetch a stored response. Responses of other clients read
+ * as not found.
+ */
+export function handleGetResponse(req: Request, res: Response): void {
+  const id = req.params.id as string;
+  const stored = getResponseStore().get(id);
+  if (!stored || !canAccessOwned(req, stored.owner)) {
+    sendError(res, 404, `Response with id '${id}' not found`, 'response_not_found');
+    return;
+  }
+  res.json(stored.response);
+}
+
+/**
+ * Handle DELETE /v1/responses/:id - delete a stored response
+ */
+export function handleDeleteResponse(req: Request, res: Response): void {
+  const id = req.params.id as string;
+  const store = getResponseStore();
+  const stored = store.get(id);
+  if (!stored || !canAccessOwned(req, stored.owner) || !store.delete(id)) {
+    sendError(res, 404, `Response with id '${id}' not found`, 'response_not_found');
+    return;
+  }
+  res.json({ id, object: 'response', deleted: true });
+}
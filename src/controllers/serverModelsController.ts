@@ -7,15 +7,24 @@ import type { Request, Response } from 'express';
 
 import { ERROR_MESSAGES } from '../constants/index.js';
 import { getOrchestratorInstance } from '../orchestrator-instance.js';
+import { getPullManager, type PullJob } from '../pull-manager.js';
 import { fetchWithTimeout, parseResponse } from '../utils/fetchWithTimeout.js';
 import { safeJsonStringify } from '../utils/json-utils.js';
 import { logger } from '../utils/logger.js';
+import { readServerTargets, resolveServerTargets } from '../utils/server-targets.js';
 
 /** Shape of a request body containing a model name */
 interface ModelRequestBody {
   model?: string;
 }
 
+/** Shape of a fleet-wide pull request body; Ollama clients send `name` or `model` */
+interface FleetPullRequestBody extends ModelRequestBody {
+  name?: string;
+  servers?: unknown;
+  stream?: boolean;
+}
+
 /** Shape of a request body for copying a model (includes source server) */
 interface CopyModelRequestBody extends ModelRequestBody {
   sourceServerId?: string;
@@ -176,6 +185,145 @@ export async function pullModelToServer(req: Request, res: Response): Promise<vo
   }
 }
 
+/**
+ * Start a pull job for the model and servers named in a fleet pull request, or send the
+ * 400 explaining why it cannot start
+ */
+function startPullJob(req: Request, res: Response): PullJob | undefined {
+  const body = req.body as FleetPullRequestBody;
+  const rawModel = body?.model ?? body?.name;
+  if (!rawModel || typeof rawModel !== 'string') {
+    res.status(400).json({ error: ERROR_MESSAGES.MODEL_REQUIRED_STRING });
+    return undefined;
+  }
+
+  const targets = resolveServerTargets(
+    body.servers ?? readServerTargets(req),
+    getOrchestratorInstance().getServers()
+  );
+  if ('error' in targets) {
+    res.status(400).json({ error: targets.error });
+    return undefined;
+  }
+  return getPullManager().create(normalizeModelName(rawModel), targets.servers);
+}
+
+/**
+ * One line of /api/pull progress: Ollama's `status` (or `error`) with the totals across the
+ * fleet, plus the job id and every server's progress
+ */
+function pullProgressLine(job: PullJob): Record<string, unknown> {
+  const progress = {
+    job: job.id,
+    model: job.model,
+    completed: job.completed,
+    total: job.total,
+    servers: job.servers,
+  };
+  if (job.status === 'running') {
+    return { status: `pulling ${job.model}`, ...progress };
+  }
+  if (job.status === 'completed') {
+    return { status: 'success', ...progress };
+  }
+  const failures = job.servers
+    .filter(server => server.status === 'failed')
+    .map(server => `${server.serverId}: ${server.error ?? 'unknown error'}`);
+  const error =
+    job.status === 'cancelled'
+      ? `Pull job '${job.id}' was cancelled`
+      : `Pull failed on ${failures.join('; ')}`;
+  return { error, ...progress };
+}
+
+/**
+ * Pull a model onto several servers, streaming aggregated progress as NDJSON (or, with
+ * `stream: false`, replying once the pull has finished). `servers` is "all" (the default) or
+ * a list of server ids and id globs. The pull runs as a background job, so it carries on if
+ * the client disconnects.
+ * POST /api/pull
+ */
+export function handlePull(req: Request, res: Response): void {
+  const job = startPullJob(req, res);
+  if (!job) {
+    return;
+  }
+  const manager = getPullManager();
+
+  if ((req.body as FleetPullRequestBody).stream === false) {
+    const reply = (finished: PullJob): void => {
+      res.status(finished.status === 'completed' ? 200 : 500).json(pullProgressLine(finished));
+    };
+    const unsubscribe = manager.subscribe(job.id, update => {
+      if (update.status !== 'running') {
+        unsubscribe();
+        reply(update);
+      }
+    });
+    res.on('close', unsubscribe);
+    return;
+  }
+
+  res.status(200);
+  res.setHeader('Content-Type', 'application/x-ndjson');
+  res.write(`${safeJsonStringify(pullProgressLine(job))}\n`);
+  const unsubscribe = manager.subscribe(job.id, update => {
+    res.write(`${safeJsonStringify(pullProgressLine(update))}\n`);
+    if (update.status !== 'running') {
+      unsubscribe();
+      res.end();
+    }
+  });
+  res.on('close', unsubscribe);
+}
+
+/**
+ * Start a background job pulling a model onto several servers
+ * POST /api/orchestrator/pulls
+ */
+export function createPullJob(req: Request, res: Response): void {
+  const job = startPullJob(req, res);
+  if (job) {
+    res.status(202).json({ success: true, job });
+  }
+}
+
+/**
+ * List pull jobs, newest first
+ * GET /api/orchestrator/pulls
+ */
+export function listPullJobs(req: Request, res: Response): void {
+  res.status(200).json({ success: true, jobs: getPullManager().list() });
+}
+
+/**
+ * Get a pull job with each server's progress
+ * GET /api/orchestrator/pulls/:id
+ */
+export function getPullJob(req: Request, res: Response): void {
+  const id = req.params.id as string;
+  const job = getPullManager().get(id);
+  if (!job) {
+    res.status(404).json({ error: ERROR_MESSAGES.PULL_JOB_NOT_FOUND(id) });
+    return;
+  }
+  res.status(200).json({ success: true, job });
+}
+
+/**
+ * Cancel a pull job
+ * POST /api/orchestrator/pulls/:id/cancel
+ */
+export function cancelPullJob(req: Request, res: Response): void {
+  const id = req.params.id as string;
+  const job = getPullManager().cancel(id);
+  if (!job) {
+    res.status(404).json({ error: ERROR_MESSAGES.PULL_JOB_NOT_FOUND(id) });
+    return;
+  }
+  res.status(200).json({ success: true, job });
+}
+
 /**
  * Delete a model from a specific server
  * DELETE /api/orchestrator/servers/:id/models/:model
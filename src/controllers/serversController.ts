@@ -7,6 +7,7 @@ import type { Request, Response } from 'express';
 
 import { ERROR_MESSAGES } from '../constants/index.js';
 import { getOrchestratorInstance } from '../orchestrator-instance.js';
+import { matchesLabels, parseLabelSelector, validateLabels } from '../utils/server-labels.js';
 import { normalizeServerUrl, areUrlsEquivalent } from '../utils/urlUtils.js';
 
 /**
@@ -19,14 +20,21 @@ export function addServer(req: Request, res: Response): void {
     url?: string;
     maxConcurrency?: number;
     apiKey?: string;
+    labels?: Record<string, string>;
   };
-  const { id, url, maxConcurrency, apiKey } = body;
+  const { id, url, maxConcurrency, apiKey, labels } = body;
 
   if (!id || !url) {
     res.status(400).json({ error: ERROR_MESSAGES.SERVER_ID_AND_URL_REQUIRED });
     return;
   }
 
+  const labelError = labels !== undefined ? validateLabels(labels) : undefined;
+  if (labelError) {
+    res.status(400).json({ error: labelError });
+    return;
+  }
+
   const orchestrator = getOrchestratorInstance();
   const normalizedUrl = normalizeServerUrl(url);
 
@@ -57,6 +65,7 @@ export function addServer(req: Request, res: Response): void {
     type: 'ollama',
     maxConcurrency,
     apiKey,
+    labels,
   });
 
   res.status(200).json({
@@ -64,6 +73,7 @@ export function addServer(req: Request, res: Response): void {
     id,
     url: normalizedUrl, // Return the normalized URL
     maxConcurrency: maxConcurrency ?? 4,
+    ...(labels && { labels }),
   });
 }
 
@@ -90,8 +100,8 @@ export function removeServer(req: Request, res: Response): void {
  */
 export function updateServer(req: Request, res: Response): void {
   const id = req.params.id as string;
-  const body = (req.body ?? {}) as { maxConcurrency?: number };
-  const { maxConcurrency } = body;
+  const body = (req.body ?? {}) as { maxConcurrency?: number; labels?: Record<string, string> };
+  const { maxConcurrency, labels } = body;
   const orchestrator = getOrchestratorInstance();
 
   const server = orchestrator.getServers().find(s => s.id === id);
@@ -100,13 +110,20 @@ export function updateServer(req: Request, res: Response): void {
     return;
   }
 
-  const success = orchestrator.updateServer(id, { maxConcurrency });
+  const labelError = labels !== undefined ? validateLabels(labels) : undefined;
+  if (labelError) {
+    res.status(400).json({ error: labelError });
+    return;
+  }
+
+  const success = orchestrator.updateServer(id, { maxConcurrency, labels });
 
   if (success) {
     res.status(200).json({
       success: true,
       id,
       maxConcurrency: maxConcurrency ?? server.maxConcurrency,
+      ...(server.labels && { labels: server.labels }),
     });
   } else {
     res.status(500).json({ error: ERROR_MESSAGES.FAILED_TO_UPDATE_SERVER });
@@ -116,10 +133,14 @@ export function updateServer(req: Request, res: Response): void {
 /**
  * Get all servers
  * GET /api/orchestrator/servers
+ * Optional query param: labels (selector, e.g. gpu=a100,region=eu)
  */
 export function getServers(req: Request, res: Response): void {
   const orchestrator = getOrchestratorInstance();
-  const servers = orchestrator.getServers();
+  const selector = parseLabelSelector(
+    typeof req.query?.labels === 'string' ? req.query.labels : undefined
+  );
+  const servers = orchestrator.getServers().filter(s => matchesLabels(s, selector));
 
   res.status(200).json({
     success: true,
@@ -135,6 +156,7 @@ export function getServers(req: Request, res: Response): void {
       supportsOllama: s.supportsOllama,
       supportsV1: s.supportsV1,
       v1Models: s.v1Models,
+      labels: s.labels,
       apiKey: s.apiKey ? '***REDACTED***' : undefined,
     })),
   });
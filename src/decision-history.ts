@@ -7,7 +7,7 @@ import path from 'path';
 
 import { JsonFileHandler } from './config/jsonFileHandler.js';
 import type { ServerScore } from './load-balancer.js';
-import type { AIServer } from './orchestrator.types.js';
+import type { AIServer, RequestPriority } from './orchestrator.types.js';
 import { logger } from './utils/logger.js';
 
 /**
@@ -39,6 +39,8 @@ export interface DecisionEvent {
       successRateScore: number;
       loadScore: number;
       capacityScore: number;
+      /** Expected model load time added to latency when the model is not in VRAM */
+      residencyPenaltyMs: number;
     };
     metrics?: {
       p95Latency: number;
@@ -48,6 +50,8 @@ export interface DecisionEvent {
     };
   }>;
   selectionReason: string;
+  /** Priority class of the request being routed */
+  priority?: RequestPriority;
 }
 
 /**
@@ -114,7 +118,8 @@ export class DecisionHistory {
     selectedServer: AIServer,
     algorithm: string,
     scores: ServerScore[],
-    selectionReason: string = 'best_score'
+    selectionReason: string = 'best_score',
+    priority?: RequestPriority
   ): void {
     const event: DecisionEvent = {
       timestamp: Date.now(),
@@ -129,6 +134,7 @@ export class DecisionHistory {
           successRateScore: Math.round(score.breakdown.successRateScore * 100) / 100,
           loadScore: Math.round(score.breakdown.loadScore * 100) / 100,
           capacityScore: Math.round(score.breakdown.capacityScore * 100) / 100,
+          residencyPenaltyMs: Math.round(score.breakdown.residencyPenaltyMs ?? 0),
         },
         metrics: score.metrics
           ? {
@@ -140,6 +146,7 @@ export class DecisionHistory {
           : undefined,
       })),
       selectionReason,
+      priority,
     };
 
     this.events.push(event);
@@ -12,11 +12,13 @@ import cors from 'cors';
 import express from 'express';
 import helmet from 'helmet';
 
+import { getBatchManager } from './batch-manager.js';
 import { ERROR_MESSAGES } from './constants/index.js';
 import { getPrometheusMetrics } from './controllers/metricsController.js';
-import { requireAuth } from './middleware/auth.js';
+import { optionalAuth, requireAuth } from './middleware/auth.js';
 import { createMonitoringRateLimiter, createAdminRateLimiter } from './middleware/rateLimiter.js';
 import { getOrchestratorInstance } from './orchestrator-instance.js';
+import { getPullManager } from './pull-manager.js';
 import { monitoringRouter, adminRouter, inferenceRouter, v1Router } from './routes/orchestrator.js';
 import { logger } from './utils/logger.js';
 
@@ -84,6 +86,7 @@ const adminRateLimiter = createAdminRateLimiter();
 
 // Authentication middleware
 const requireAuthentication = requireAuth();
+const optionalAuthentication = optionalAuth();
 
 // Routes with rate limiting and authentication
 // Monitoring routes (permissive rate limiting, require auth)
@@ -92,11 +95,23 @@ app.use('/api/orchestrator', monitoringRateLimiter, requireAuthentication, monit
 // Admin routes (restrictive rate limiting, require auth)
 app.use('/api/orchestrator', adminRateLimiter, requireAuthentication, adminRouter);
 
-// Inference routes (no rate limiting, optional auth) - Ollama-compatible endpoints
-app.use('/api', inferenceRouter);
+// Fleet-wide model writes on the Ollama API get the admin route protection
+app.use(
+  ['/api/pull', '/api/create', '/api/blobs', '/api/push'],
+  adminRateLimiter,
+  requireAuthentication
+);
+
+// Stored responses, files and batches hold client prompts and outputs, so they need a key
+// to scope them
+app.use(['/v1/responses', '/v1/files', '/v1/batches'], requireAuthentication);
+
+// Inference routes (no rate limiting, optional auth) - Ollama-compatible endpoints.
+// A valid key is attached to the request so cached and coalesced responses stay per key.
+app.use('/api', optionalAuthentication, inferenceRouter);
 
 // OpenAI-compatible endpoints at /v1/*
-app.use('/v1', v1Router);
+app.use('/v1', optionalAuthentication, v1Router);
 
 // Prometheus metrics endpoint at root
 app.get('/metrics', getPrometheusMetrics);
@@ -196,9 +211,14 @@ const server = app.listen(PORT, () => {
   logger.info(`  - OpenAI compatible: POST   /v1/chat/completions`);
   logger.info(`  - OpenAI compatible: POST   /v1/completions`);
   logger.info(`  - OpenAI compatible: POST   /v1/embeddings`);
+  logger.info(`  - OpenAI compatible: POST   /v1/files, /v1/batches`);
   logger.info(`  - Health check:      GET    /health`);
   logger.info(`  - Logging:           GET    /api/orchestrator/logs`);
   logger.info(`  - Logging:           POST   /api/orchestrator/logs/clear`);
+
+  // Resume batches and model pulls left unfinished by the last run
+  getBatchManager().start();
+  getPullManager().start();
 });
 
 // Graceful shutdown
@@ -209,10 +229,12 @@ process.on('SIGTERM', () => {
   server.close(() => {
     logger.info('HTTP server closed');
 
-    // Shutdown orchestrator (wait for in-flight requests)
-    void orchestrator.shutdown().then(() => {
-      process.exit(0);
-    });
+    // Stop batches and pulls, then shutdown orchestrator (wait for in-flight requests)
+    void Promise.all([getBatchManager().stop(), getPullManager().stop()])
+      .then(() => orchestrator.shutdown())
+      .then(() => {
+        process.exit(0);
+      });
 
     // Force exit after timeout
     setTimeout(() => {
@@ -229,10 +251,12 @@ process.on('SIGINT', () => {
   server.close(() => {
     logger.info('HTTP server closed');
 
-    // Shutdown orchestrator (wait for in-flight requests)
-    void orchestrator.shutdown().then(() => {
-      process.exit(0);
-    });
+    // Stop batches and pulls, then shutdown orchestrator (wait for in-flight requests)
+    void Promise.all([getBatchManager().stop(), getPullManager().stop()])
+      .then(() => orchestrator.shutdown())
+      .then(() => {
+        process.exit(0);
+      });
 
     // Force exit after timeout
     setTimeout(() => {
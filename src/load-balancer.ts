@@ -3,7 +3,9 @@
  * Intelligent load balancing using historical metrics
  */
 
-import type { AIServer, ServerModelMetrics } from './orchestrator.types.js';
+import { createHash } from 'crypto';
+
+import type { AIServer, RequestPriority, ServerModelMetrics } from './orchestrator.types.js';
 import { getInFlightManager } from './utils/in-flight-manager.js';
 import { logger } from './utils/logger.js';
 
@@ -31,6 +33,7 @@ export interface ServerScore {
     timeoutScore: number;
     throughputScore: number;
     vramScore: number;
+    residencyPenaltyMs: number;
   };
   metrics?: ServerModelMetrics;
 }
@@ -39,6 +42,8 @@ export interface ServerScore {
  * Configuration for load balancing weights
  */
 export interface LoadBalancerConfig {
+  algorithm: LoadBalancerAlgorithm; // Default algorithm (default: 'fastest-response')
+  modelAlgorithms: Record<string, LoadBalancerAlgorithm>; // Per-model algorithm overrides (default: {})
   weights: {
     latency: number; // Weight for P95 latency (default: 0.20)
     successRate: number; // Weight for success rate (default: 0.20)
@@ -95,12 +100,29 @@ export interface LoadBalancerConfig {
     minSamplesForExact: number; // Min samples before preferring exact (default: 5)
     fallbackWeight: number; // How much to trust inferred vs actual (default: 0.5)
   };
+  // VRAM residency: add the expected model load time as latency for servers without it loaded
+  residency: {
+    enabled: boolean; // Apply the cold-start penalty (default: true)
+    loadTimeMultiplier: number; // Scale applied to the estimated load time (default: 1.0)
+    maxPenaltyMs: number; // Cap on the added latency (default: 120000)
+  };
+  // Power-of-two-choices algorithm settings
+  p2c: {
+    choices: number; // Candidates sampled and scored per selection (default: 2)
+  };
+  // Consistent-hash algorithm settings
+  consistentHash: {
+    virtualNodes: number; // Ring points per server (default: 100)
+    checkCapacity: boolean; // Move on to the next replica when the owner is at capacity (default: true)
+  };
 }
 
 /**
  * Default load balancer configuration
  */
 export const DEFAULT_LB_CONFIG: LoadBalancerConfig = {
+  algorithm: 'fastest-response',
+  modelAlgorithms: {},
   weights: {
     latency: 0.2,
     successRate: 0.2,
@@ -149,8 +171,44 @@ export const DEFAULT_LB_CONFIG: LoadBalancerConfig = {
     minSamplesForExact: 5,
     fallbackWeight: 0.5,
   },
+  residency: {
+    enabled: true,
+    loadTimeMultiplier: 1.0,
+    maxPenaltyMs: 120000,
+  },
+  p2c: {
+    choices: 2,
+  },
+  consistentHash: {
+    virtualNodes: 100,
+    checkCapacity: true,
+  },
 };
 
+/**
+ * Expected cold-start latency for a server. Returns the (scaled, capped) estimated load
+ * time when /api/ps data shows the model is not resident, and 0 when it is resident or
+ * residency is unknown.
+ */
+export function getResidencyPenaltyMs(
+  server: AIServer,
+  model: string,
+  estimatedLoadTimeMs: number | undefined,
+  config: LoadBalancerConfig = DEFAULT_LB_CONFIG
+): number {
+  const residency = config.residency ?? DEFAULT_LB_CONFIG.residency;
+  const loadedModels = server.hardware?.loadedModels;
+  if (!residency.enabled || !estimatedLoadTimeMs || !loadedModels) {
+    return 0;
+  }
+  // An untagged name means :latest, as in /api/ps and /api/tags
+  const withTag = (name: string): string => (name.includes(':') ? name : `${name}:latest`);
+  if (loadedModels.some(m => withTag(m.name) === withTag(model))) {
+    return 0;
+  }
+  return Math.min(residency.maxPenaltyMs, estimatedLoadTimeMs * residency.loadTimeMultiplier);
+}
+
 /**
  * Calculate score for a server based on metrics
  */
@@ -162,11 +220,15 @@ export function calculateServerScore(
   metrics: ServerModelMetrics | undefined,
   config: LoadBalancerConfig = DEFAULT_LB_CONFIG,
   circuitBreakerHealth?: CircuitBreakerHealth,
-  timeoutMs?: number
+  timeoutMs?: number,
+  estimatedLoadTimeMs?: number
 ): ServerScore {
   const maxConcurrency = server.maxConcurrency ?? config.defaultMaxConcurrency;
   const availableCapacity = maxConcurrency - currentLoad;
 
+  // Cold-start cost if the model would have to be loaded into VRAM first
+  const residencyPenaltyMs = getResidencyPenaltyMs(server, model, estimatedLoadTimeMs, config);
+
   // Default scores if no metrics available
   let latencyScore = 100;
   let successRateScore = 100;
@@ -174,7 +236,9 @@ export function calculateServerScore(
   if (metrics) {
     // Latency score: lower is better, use P95
     // Normalize: 0ms = 100, maxP95Latency = 0
-    const p95 = metrics.percentiles.p95 || server.lastResponseTime || config.defaultLatencyMs;
+    const p95 =
+      (metrics.percentiles.p95 || server.lastResponseTime || config.defaultLatencyMs) +
+      residencyPenaltyMs;
     latencyScore = Math.max(0, 100 - (p95 / config.thresholds.maxP95Latency) * 100);
 
     // Penalize high latency
@@ -192,7 +256,7 @@ export function calculateServerScore(
     }
   } else {
     // Fallback to lastResponseTime if no historical metrics
-    const responseTime = server.lastResponseTime || config.defaultLatencyMs;
+    const responseTime = (server.lastResponseTime || config.defaultLatencyMs) + residencyPenaltyMs;
     latencyScore = Math.max(0, 100 - (responseTime / config.thresholds.maxP95Latency) * 100);
   }
 
@@ -280,6 +344,7 @@ export function calculateServerScore(
       timeoutScore,
       throughputScore,
       vramScore,
+      residencyPenaltyMs,
     },
     metrics,
   };
@@ -321,16 +386,75 @@ export function selectBestServer(candidates: ServerScore[]): AIServer | undefine
   return candidates[0].server;
 }
 
+/**
+ * Candidates scoring within this fraction of the best are treated as tied
+ * and ordered by request priority
+ */
+export const PRIORITY_TIE_TOLERANCE = 0.05;
+
+/**
+ * Load balancing algorithms
+ */
+export const LOAD_BALANCER_ALGORITHMS = [
+  'weighted',
+  'round-robin',
+  'least-connections',
+  'random',
+  'fastest-response',
+  'streaming-optimized',
+  'p2c',
+  'consistent-hash',
+] as const;
+
 /**
  * Algorithm type for load balancing
  */
-export type LoadBalancerAlgorithm =
-  | 'weighted'
-  | 'round-robin'
-  | 'least-connections'
-  | 'random'
-  | 'fastest-response'
-  | 'streaming-optimized';
+export type LoadBalancerAlgorithm = (typeof LOAD_BALANCER_ALGORITHMS)[number];
+
+export function isLoadBalancerAlgorithm(value: unknown): value is LoadBalancerAlgorithm {
+  return (
+    typeof value === 'string' && (LOAD_BALANCER_ALGORITHMS as readonly string[]).includes(value)
+  );
+}
+
+/**
+ * Derive the consistent-hash key for a request from its model and input (prompt,
+ * messages or embedding input), so identical requests map to the same replica
+ */
+export function deriveRequestKey(model: string, input: unknown): string | undefined {
+  if (input === undefined || input === null || input === '') {
+    return undefined;
+  }
+  const hash = createHash('sha256')
+    .update(JSON.stringify([model, input]))
+    .digest('hex');
+  return hash.slice(0, 32);
+}
+
+/**
+ * 32-bit FNV-1a with a murmur3 finalizer, used to place ring points and request keys
+ */
+function hashToRing(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+/**
+ * Point on the consistent-hash ring
+ */
+interface RingPoint {
+  hash: number;
+  serverId: string;
+}
 
 /**
  * Sticky session entry
@@ -344,19 +468,28 @@ interface StickySessionEntry {
  * Load balancer with algorithm selection
  */
 export class LoadBalancer {
-  private algorithm: LoadBalancerAlgorithm = 'fastest-response';
+  private algorithm: LoadBalancerAlgorithm;
   private config: LoadBalancerConfig;
   private roundRobinIndex: number = 0;
   private stickySessions: Map<string, StickySessionEntry> = new Map();
   private stickySessionCleanupInterval?: NodeJS.Timeout;
+  // Ring points for every server seen so far, sorted by hash. Servers that are no longer
+  // candidates are skipped at lookup, so the ring only grows when a new server appears.
+  private hashRing: RingPoint[] = [];
+  private hashRingServers: Set<string> = new Set();
 
   constructor(config: Partial<LoadBalancerConfig> = {}) {
     this.config = {
       ...DEFAULT_LB_CONFIG,
       ...config,
+      modelAlgorithms: { ...config.modelAlgorithms },
       roundRobin: { ...DEFAULT_LB_CONFIG.roundRobin, ...config.roundRobin },
       leastConnections: { ...DEFAULT_LB_CONFIG.leastConnections, ...config.leastConnections },
+      residency: { ...DEFAULT_LB_CONFIG.residency, ...config.residency },
+      p2c: { ...DEFAULT_LB_CONFIG.p2c, ...config.p2c },
+      consistentHash: { ...DEFAULT_LB_CONFIG.consistentHash, ...config.consistentHash },
     };
+    this.algorithm = this.config.algorithm;
 
     // Start sticky session cleanup if enabled
     if (this.config.roundRobin.stickySessionsTtlMs > 0) {
@@ -368,6 +501,7 @@ export class LoadBalancer {
    * Update configuration at runtime
    */
   updateConfig(config: Partial<LoadBalancerConfig>): void {
+    const previousVirtualNodes = this.config.consistentHash.virtualNodes;
     this.config = {
       ...this.config,
       ...config,
@@ -375,8 +509,20 @@ export class LoadBalancer {
       thresholds: { ...this.config.thresholds, ...config.thresholds },
       roundRobin: { ...this.config.roundRobin, ...config.roundRobin },
       leastConnections: { ...this.config.leastConnections, ...config.leastConnections },
+      residency: { ...this.config.residency, ...config.residency },
+      p2c: { ...this.config.p2c, ...config.p2c },
+      consistentHash: { ...this.config.consistentHash, ...config.consistentHash },
     };
 
+    if (config.algorithm) {
+      this.algorithm = config.algorithm;
+    }
+
+    if (this.config.consistentHash.virtualNodes !== previousVirtualNodes) {
+      this.hashRing = [];
+      this.hashRingServers.clear();
+    }
+
     // Start/stop sticky session cleanup based on config change
     if (this.config.roundRobin.stickySessionsTtlMs > 0 && !this.stickySessionCleanupInterval) {
       this.startStickySessionCleanup();
@@ -430,6 +576,32 @@ export class LoadBalancer {
     return this.algorithm;
   }
 
+  /**
+   * Algorithm used for a model: its override from `modelAlgorithms` if any, else the
+   * default. `name` and `name:latest` share an override.
+   */
+  getAlgorithmForModel(model: string): LoadBalancerAlgorithm {
+    const overrides = this.config.modelAlgorithms;
+    const has = (key: string): boolean => Object.prototype.hasOwnProperty.call(overrides, key);
+    if (has(model)) {
+      return overrides[model];
+    }
+    if (!model.includes(':') && has(`${model}:latest`)) {
+      return overrides[`${model}:latest`];
+    }
+    if (model.endsWith(':latest') && has(model.slice(0, -':latest'.length))) {
+      return overrides[model.slice(0, -':latest'.length)];
+    }
+    return this.algorithm;
+  }
+
+  /**
+   * Per-model algorithm overrides
+   */
+  getModelAlgorithms(): Record<string, LoadBalancerAlgorithm> {
+    return { ...this.config.modelAlgorithms };
+  }
+
   select(
     candidates: AIServer[],
     model: string,
@@ -439,9 +611,12 @@ export class LoadBalancer {
     isStreaming: boolean = false,
     clientId?: string,
     getTimeout?: (serverId: string, model: string) => number,
-    getCircuitBreakerHealth?: (serverId: string) => CircuitBreakerHealth | undefined
+    getCircuitBreakerHealth?: (serverId: string) => CircuitBreakerHealth | undefined,
+    priority?: RequestPriority,
+    getEstimatedLoadTime?: (model: string) => number,
+    requestKey?: string
   ): AIServer | undefined {
-    switch (this.algorithm) {
+    switch (this.getAlgorithmForModel(model)) {
       case 'weighted':
         return this.selectWeighted(
           candidates,
@@ -450,7 +625,9 @@ export class LoadBalancer {
           getTotalLoad,
           getMetrics,
           getTimeout,
-          getCircuitBreakerHealth
+          getCircuitBreakerHealth,
+          priority,
+          getEstimatedLoadTime
         );
 
       case 'round-robin':
@@ -463,7 +640,14 @@ export class LoadBalancer {
         return this.selectRandom(candidates);
 
       case 'fastest-response':
-        return this.selectFastestResponse(candidates, model, getLoad, getTotalLoad, getMetrics);
+        return this.selectFastestResponse(
+          candidates,
+          model,
+          getLoad,
+          getTotalLoad,
+          getMetrics,
+          priority
+        );
 
       case 'streaming-optimized':
         return this.selectStreamingOptimized(
@@ -472,9 +656,41 @@ export class LoadBalancer {
           getLoad,
           getTotalLoad,
           getMetrics,
-          isStreaming
+          isStreaming,
+          priority,
+          getEstimatedLoadTime
+        );
+
+      case 'p2c':
+        return this.selectPowerOfChoices(
+          candidates,
+          model,
+          getLoad,
+          getTotalLoad,
+          getMetrics,
+          getTimeout,
+          getCircuitBreakerHealth,
+          priority,
+          getEstimatedLoadTime
         );
 
+      case 'consistent-hash':
+        // Requests without a key (nothing to hash) fall back to p2c
+        if (!requestKey) {
+          return this.selectPowerOfChoices(
+            candidates,
+            model,
+            getLoad,
+            getTotalLoad,
+            getMetrics,
+            getTimeout,
+            getCircuitBreakerHealth,
+            priority,
+            getEstimatedLoadTime
+          );
+        }
+        return this.selectConsistentHash(candidates, getTotalLoad, requestKey);
+
       default:
         return this.selectWeighted(
           candidates,
@@ -482,7 +698,10 @@ export class LoadBalancer {
           getLoad,
           getTotalLoad,
           getMetrics,
-          getTimeout
+          getTimeout,
+          undefined,
+          priority,
+          getEstimatedLoadTime
         );
     }
   }
@@ -497,8 +716,11 @@ export class LoadBalancer {
     getTotalLoad: (serverId: string) => number,
     getMetrics: (serverId: string, model: string) => ServerModelMetrics | undefined,
     getTimeout?: (serverId: string, model: string) => number,
-    getCircuitBreakerHealth?: (serverId: string) => CircuitBreakerHealth | undefined
+    getCircuitBreakerHealth?: (serverId: string) => CircuitBreakerHealth | undefined,
+    priority?: RequestPriority,
+    getEstimatedLoadTime?: (model: string) => number
   ): AIServer | undefined {
+    const estimatedLoadTimeMs = getEstimatedLoadTime?.(model);
     const scores = candidates.map(server => {
       const currentLoad = getLoad(server.id, model);
       const totalLoad = getTotalLoad(server.id);
@@ -514,11 +736,188 @@ export class LoadBalancer {
         metrics,
         this.config,
         circuitBreakerHealth,
-        timeoutMs
+        timeoutMs,
+        estimatedLoadTimeMs
       );
     });
 
-    return selectBestServer(scores);
+    const best = selectBestServer(scores);
+    if (!best || scores.length < 2) {
+      return best;
+    }
+
+    // selectBestServer sorted scores descending
+    const topScore = scores[0].totalScore;
+    return this.breakTieByPriority(
+      scores,
+      s => topScore - s.totalScore <= Math.abs(topScore) * PRIORITY_TIE_TOLERANCE,
+      getTotalLoad,
+      priority
+    );
+  }
+
+  /**
+   * Break near-ties between top-ranked candidates by request priority.
+   * High priority takes the least-loaded tied server (shortest wait). Low priority
+   * packs onto the busiest tied server that still has room, keeping idle capacity
+   * free for interactive traffic. Normal priority keeps the algorithm's choice.
+   * @param ranked - Candidates ordered best-first
+   */
+  private breakTieByPriority<T extends { server: AIServer }>(
+    ranked: T[],
+    isTied: (candidate: T) => boolean,
+    getTotalLoad: (serverId: string) => number,
+    priority?: RequestPriority
+  ): AIServer {
+    const tied = ranked.filter(isTied);
+    if (!priority || priority === 'normal' || tied.length < 2) {
+      return ranked[0].server;
+    }
+
+    const withLoad = tied.map(candidate => ({
+      server: candidate.server,
+      loadRatio:
+        getTotalLoad(candidate.server.id) /
+        (candidate.server.maxConcurrency ?? this.config.defaultMaxConcurrency),
+    }));
+
+    let chosen = withLoad[0];
+    if (priority === 'high') {
+      for (const candidate of withLoad) {
+        if (candidate.loadRatio < chosen.loadRatio) {
+          chosen = candidate;
+        }
+      }
+    } else {
+      const withRoom = withLoad.filter(candidate => candidate.loadRatio < 1);
+      for (const candidate of withRoom) {
+        if (chosen.loadRatio >= 1 || candidate.loadRatio > chosen.loadRatio) {
+          chosen = candidate;
+        }
+      }
+    }
+
+    if (chosen.server.id !== ranked[0].server.id) {
+      logger.debug('Priority tie-break changed selection', {
+        priority,
+        from: ranked[0].server.id,
+        to: chosen.server.id,
+        tiedCount: tied.length,
+      });
+    }
+
+    return chosen.server;
+  }
+
+  /**
+   * Power-of-two-choices selection: score a small random sample of candidates (two by
+   * default) and take the best. Avoids a full scan on large clusters, and the randomness
+   * keeps every request from piling onto the same top-scored server between metric updates.
+   */
+  private selectPowerOfChoices(
+    candidates: AIServer[],
+    model: string,
+    getLoad: (serverId: string, model: string) => number,
+    getTotalLoad: (serverId: string) => number,
+    getMetrics: (serverId: string, model: string) => ServerModelMetrics | undefined,
+    getTimeout?: (serverId: string, model: string) => number,
+    getCircuitBreakerHealth?: (serverId: string) => CircuitBreakerHealth | undefined,
+    priority?: RequestPriority,
+    getEstimatedLoadTime?: (model: string) => number
+  ): AIServer | undefined {
+    const choices = Math.max(1, this.config.p2c.choices);
+    let sample = candidates;
+    if (candidates.length > choices) {
+      // Partial Fisher-Yates shuffle: the first `choices` entries are a uniform sample
+      sample = [...candidates];
+      for (let i = 0; i < choices; i++) {
+        const j = i + Math.floor(Math.random() * (sample.length - i));
+        [sample[i], sample[j]] = [sample[j], sample[i]];
+      }
+      sample = sample.slice(0, choices);
+    }
+
+    return this.selectWeighted(
+      sample,
+      model,
+      getLoad,
+      getTotalLoad,
+      getMetrics,
+      getTimeout,
+      getCircuitBreakerHealth,
+      priority,
+      getEstimatedLoadTime
+    );
+  }
+
+  /**
+   * Consistent-hash selection: the request key owns the first candidate clockwise from
+   * its point on the ring. When that server is at capacity (and checkCapacity is on) the
+   * next replica on the ring takes the request; if every candidate is full the owner is used.
+   */
+  private selectConsistentHash(
+    candidates: AIServer[],
+    getTotalLoad: (serverId: string) => number,
+    requestKey: string
+  ): AIServer | undefined {
+    if (candidates.length <= 1) {
+      return candidates[0];
+    }
+
+    this.addToHashRing(candidates);
+
+    const byId = new Map(candidates.map(server => [server.id, server]));
+    const keyHash = hashToRing(requestKey);
+
+    // First ring point at or after the key's hash
+    let low = 0;
+    let high = this.hashRing.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.hashRing[mid].hash < keyHash) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    let owner: AIServer | undefined;
+    const visited = new Set<string>();
+    for (let step = 0; step < this.hashRing.length && visited.size < byId.size; step++) {
+      const { serverId } = this.hashRing[(low + step) % this.hashRing.length];
+      const server = byId.get(serverId);
+      if (!server || visited.has(serverId)) {
+        continue;
+      }
+      visited.add(serverId);
+      owner ??= server;
+
+      const maxConcurrency = server.maxConcurrency ?? this.config.defaultMaxConcurrency;
+      if (!this.config.consistentHash.checkCapacity || getTotalLoad(serverId) < maxConcurrency) {
+        return server;
+      }
+    }
+
+    return owner;
+  }
+
+  /**
+   * Add ring points for candidates not yet on the ring
+   */
+  private addToHashRing(candidates: AIServer[]): void {
+    const added = candidates.filter(server => !this.hashRingServers.has(server.id));
+    if (added.length === 0) {
+      return;
+    }
+
+    const virtualNodes = Math.max(1, this.config.consistentHash.virtualNodes);
+    for (const server of added) {
+      this.hashRingServers.add(server.id);
+      for (let i = 0; i < virtualNodes; i++) {
+        this.hashRing.push({ hash: hashToRing(`${server.id}#${i}`), serverId: server.id });
+      }
+    }
+    this.hashRing.sort((a, b) => a.hash - b.hash);
   }
 
   /**
@@ -701,7 +1100,8 @@ export class LoadBalancer {
     model: string,
     getLoad: (serverId: string, model: string) => number,
     getTotalLoad: (serverId: string) => number,
-    getMetrics: (serverId: string, model: string) => ServerModelMetrics | undefined
+    getMetrics: (serverId: string, model: string) => ServerModelMetrics | undefined,
+    priority?: RequestPriority
   ): AIServer | undefined {
     if (candidates.length === 0) {
       return undefined;
@@ -792,7 +1192,13 @@ export class LoadBalancer {
       })),
     });
 
-    return scored[0].server;
+    const fastest = scored[0].latency;
+    return this.breakTieByPriority(
+      scored,
+      s => s.latency <= fastest * (1 + PRIORITY_TIE_TOLERANCE),
+      getTotalLoad,
+      priority
+    );
   }
 
   /**
@@ -806,7 +1212,9 @@ export class LoadBalancer {
     getLoad: (serverId: string, model: string) => number,
     getTotalLoad: (serverId: string) => number,
     getMetrics: (serverId: string, model: string) => ServerModelMetrics | undefined,
-    isStreaming: boolean
+    isStreaming: boolean,
+    priority?: RequestPriority,
+    getEstimatedLoadTime?: (model: string) => number
   ): AIServer | undefined {
     if (candidates.length === 0) {
       return undefined;
@@ -818,11 +1226,19 @@ export class LoadBalancer {
 
     // If not streaming, use fastest-response logic
     if (!isStreaming) {
-      return this.selectFastestResponse(candidates, model, getLoad, getTotalLoad, getMetrics);
+      return this.selectFastestResponse(
+        candidates,
+        model,
+        getLoad,
+        getTotalLoad,
+        getMetrics,
+        priority
+      );
     }
 
     // For streaming: balance TTFT vs total duration using config weights
     const { streaming } = this.config;
+    const estimatedLoadTimeMs = getEstimatedLoadTime?.(model);
 
     const scored = candidates.map(server => {
       const metrics = getMetrics(server.id, model);
@@ -890,9 +1306,17 @@ export class LoadBalancer {
       // Adjust for load using config value
       const loadFactor = 1 + (currentLoad / maxConcurrency) * this.config.loadFactorMultiplier;
 
+      // A cold server must load the model before the first token, regardless of load
+      const residencyPenaltyMs = getResidencyPenaltyMs(
+        server,
+        model,
+        estimatedLoadTimeMs,
+        this.config
+      );
+
       // Calculate weighted score (lower is better)
-      const adjustedTTFT = ttft * loadFactor;
-      const adjustedDuration = streamingDuration * loadFactor;
+      const adjustedTTFT = ttft * loadFactor + residencyPenaltyMs;
+      const adjustedDuration = streamingDuration * loadFactor + residencyPenaltyMs;
 
       // Normalize scores to 0-100 scale where lower is better
       // TTFT and duration: convert to score (100 - normalized value)
@@ -919,6 +1343,7 @@ export class LoadBalancer {
         duration: adjustedDuration,
         chunkThroughput: chunkThroughputScore,
         load: currentLoad,
+        residencyPenaltyMs,
       };
     });
 
@@ -933,9 +1358,16 @@ export class LoadBalancer {
         ttft: s.ttft,
         duration: s.duration,
         load: s.load,
+        residencyPenaltyMs: s.residencyPenaltyMs,
       })),
     });
 
-    return scored[0].server;
+    const topScore = scored[0].score;
+    return this.breakTieByPriority(
+      scored,
+      s => topScore - s.score <= Math.abs(topScore) * PRIORITY_TIE_TOLERANCE,
+      getTotalLoad,
+      priority
+    );
   }
 }
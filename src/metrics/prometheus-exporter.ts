@@ -4,6 +4,7 @@
  */
 
 import type { TimeWindow } from '../orchestrator.types.js';
+import type { EmbeddingCacheStats } from '../utils/embedding-cache.js';
 
 import type { MetricsAggregator } from './metrics-aggregator.js';
 
@@ -100,6 +101,35 @@ export class PrometheusExporter {
     return lines.join('\n');
   }
 
+  /**
+   * Export embedding cache counters, per model
+   */
+  exportEmbeddingCache(stats: EmbeddingCacheStats): string {
+    const lines: string[] = [];
+    const counters = [
+      ['hits', 'hits', 'Embedding inputs served from the cache'],
+      ['misses', 'misses', 'Embedding inputs sent to a server'],
+      ['saved_tokens', 'savedTokens', 'Prompt tokens not recomputed thanks to the cache'],
+      ['saved_compute_ms', 'savedComputeMs', 'Server time not spent thanks to the cache'],
+    ] as const;
+
+    for (const [name, field, help] of counters) {
+      lines.push(`# HELP orchestrator_embedding_cache_${name}_total ${help}`);
+      lines.push(`# TYPE orchestrator_embedding_cache_${name}_total counter`);
+      for (const [model, modelStats] of Object.entries(stats.byModel)) {
+        lines.push(
+          `orchestrator_embedding_cache_${name}_total{model="${model}"} ${Math.round(modelStats[field])}`
+        );
+      }
+    }
+
+    lines.push('# HELP orchestrator_embedding_cache_memory_entries Embeddings in the memory tier');
+    lines.push('# TYPE orchestrator_embedding_cache_memory_entries gauge');
+    lines.push(`orchestrator_embedding_cache_memory_entries ${stats.memoryEntries}`);
+
+    return lines.join('\n');
+  }
+
   /**
    * Export histogram data for latency distribution
    */
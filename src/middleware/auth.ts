@@ -3,6 +3,8 @@
  * Authentication and authorization middleware
  */
 
+import { createHash } from 'crypto';
+
 import type { Request, Response, NextFunction } from 'express';
 
 import { logger } from '../utils/logger.js';
@@ -34,7 +36,7 @@ declare module 'express-serve-static-core' {
  * Extract API key from request
  * Checks Authorization header (Bearer token) and X-API-Key header
  */
-function extractApiKey(req: Request): string | null {
+export function extractApiKey(req: Request): string | null {
   // Check Authorization header (Bearer token)
   const authHeader = req.headers.authorization;
   if (authHeader?.startsWith('Bearer ')) {
@@ -184,6 +186,24 @@ export function optionalAuth(
   };
 }
 
+/**
+ * Owner tag for objects a client stores (files, batches, responses): a hash of the
+ * authenticated API key, so the key itself never lands on disk. Undefined without auth.
+ */
+export function getRequestOwner(req: Request): string | undefined {
+  return req.auth
+    ? createHash('sha256').update(req.auth.apiKey).digest('hex').slice(0, 32)
+    : undefined;
+}
+
+/**
+ * Whether a request may see an object stored under `owner`. Admin keys see every object,
+ * and so does every client when authentication is disabled.
+ */
+export function canAccessOwned(req: Request, owner: string | undefined): boolean {
+  return !req.auth || req.auth.isAdmin || owner === getRequestOwner(req);
+}
+
 /**
  * Create authentication middleware with custom config
  */
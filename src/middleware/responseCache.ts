@@ -0,0 +1,225 @@
+/**
+ * responseCache.ts
+ * Response cache middleware: serves opted-in deterministic generations from the cache and
+ * captures the responses of misses
+ */
+
+import { randomUUID } from 'crypto';
+
+import type { Request, Response, NextFunction } from 'express';
+
+import { getOrchestratorInstance } from '../orchestrator-instance.js';
+import { getRequestHistory, RESPONSE_CACHE_SERVER_ID } from '../request-history.js';
+import { isDebugRequested } from '../utils/debug-headers.js';
+import { safeJsonStringify } from '../utils/json-utils.js';
+import { logger } from '../utils/logger.js';
+import { getModelCapabilities } from '../utils/model-capabilities.js';
+import { resolveRequestPriority } from '../utils/request-priority.js';
+import {
+  getResponseCache,
+  isDeterministicRequest,
+  parseCapturedStream,
+  resolveResponseCacheMode,
+  normalizedRequestKey,
+  RESPONSE_CACHE_HEADER,
+  wasServedByFallback,
+  type CachedResponse,
+} from '../utils/response-cache.js';
+import { getSingleFlight, singleFlightKey } from '../utils/single-flight.js';
+
+import { getRequestOwner } from './auth.js';
+
+export type ResponseCacheEndpoint = 'generate' | 'chat' | 'chat/completions' | 'completions';
+
+const ENDPOINTS: Record<
+  ResponseCacheEndpoint,
+  { protocol: 'ollama' | 'openai'; streamFormat: 'ndjson' | 'sse'; recordAs: 'generate' | 'chat' }
+> = {
+  generate: { protocol: 'ollama', streamFormat: 'ndjson', recordAs: 'generate' },
+  chat: { protocol: 'ollama', streamFormat: 'ndjson', recordAs: 'chat' },
+  'chat/completions': { protocol: 'openai', streamFormat: 'sse', recordAs: 'chat' },
+  completions: { protocol: 'openai', streamFormat: 'sse', recordAs: 'generate' },
+};
+
+/**
+ * Write a cached response back, streams as NDJSON lines or SSE events
+ */
+function replayResponse(res: Response, cached: CachedResponse): void {
+  if (cached.format === 'json') {
+    res.status(200).json(cached.body);
+    return;
+  }
+
+  const events = cached.body as unknown[];
+  if (cached.format === 'sse') {
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    for (const event of events) {
+      res.write(`data: ${safeJsonStringify(event)}\n\n`);
+    }
+    res.write('data: [DONE]\n\n');
+  } else {
+    res.setHeader('Content-Type', 'application/x-ndjson');
+    for (const event of events) {
+      res.write(`${safeJsonStringify(event)}\n`);
+    }
+  }
+  res.end();
+}
+
+/**
+ * Record what the handler writes and pass it to `onComplete` once the response has ended with
+ * a 200 and a complete, error-free body. Responses larger than `maxBytes` are not captured.
+ */
+function captureResponse(
+  res: Response,
+  format: 'json' | 'ndjson' | 'sse',
+  maxBytes: number,
+  onComplete: (response: CachedResponse) => void
+): void {
+  const chunks: Buffer[] = [];
+  let capturedBytes = 0;
+  let jsonBody: unknown;
+
+  const capture = (chunk: unknown): void => {
+    if (capturedBytes > maxBytes || (typeof chunk !== 'string' && !(chunk instanceof Uint8Array))) {
+      return;
+    }
+    const buffer = typeof chunk === 'string' ? Buffer.from(chunk, 'utf-8') : Buffer.from(chunk);
+    capturedBytes += buffer.length;
+    chunks.push(buffer);
+  };
+
+  const finish = (): void => {
+    if (res.statusCode !== 200 || capturedBytes > maxBytes) {
+      return;
+    }
+    if (format === 'json') {
+      if (typeof jsonBody === 'object' && jsonBody !== null && !('error' in jsonBody)) {
+        onComplete({ format, body: jsonBody });
+      }
+      return;
+    }
+    const events = parseCapturedStream(format, Buffer.concat(chunks).toString('utf-8'));
+    if (events) {
+      onComplete({ format, body: events });
+    }
+  };
+
+  const json = res.json.bind(res);
+  res.json = (body: unknown) => {
+    jsonBody = body;
+    return json(body);
+  };
+
+  const write = res.write.bind(res) as (...args: unknown[]) => boolean;
+  res.write = ((chunk: unknown, ...args: unknown[]) => {
+    capture(chunk);
+    return write(chunk, ...args);
+  }) as Response['write'];
+
+  const end = res.end.bind(res) as (...args: unknown[]) => Response;
+  res.end = ((chunk?: unknown, ...args: unknown[]) => {
+    capture(chunk);
+    const result = end(chunk, ...args);
+    finish();
+    return result;
+  }) as Response['end'];
+}
+
+/**
+ * Middleware serving `endpoint` requests from the response cache. Only requests that opted in
+ * (X-Orchestrator-Cache or `security.responseCacheApiKeys`) and ask for a repeatable generation
+ * (temperature 0 or a fixed seed) use the cache; the response carries `X-Orchestrator-Cache:
+ * hit | miss | bypass`. Hits are recorded in the request history under RESPONSE_CACHE_SERVER_ID,
+ * apart from requests that reached a server; identical misses in flight together are coalesced.
+ * Answers from a fallback model are not cached.
+ */
+export function responseCache(
+  endpoint: ResponseCacheEndpoint
+): (req: Request, res: Response, next: NextFunction) => Promise<void> {
+  const { protocol, streamFormat, recordAs } = ENDPOINTS[endpoint];
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const cache = getResponseCache();
+    const body = req.body as Record<string, unknown> | undefined;
+    const mode = cache.isEnabled() ? resolveResponseCacheMode(req) : undefined;
+    if (!mode || !body || typeof body.model !== 'string') {
+      next();
+      return;
+    }
+
+    // Debug output differs per request, so it is never cached
+    if (mode === 'bypass' || isDebugRequested(req) || !isDeterministicRequest(body, protocol)) {
+      cache.recordOutcome('bypass');
+      res.setHeader(RESPONSE_CACHE_HEADER, 'bypass');
+      next();
+      return;
+    }
+
+    const startTime = Date.now();
+    const streaming = body.stream === true;
+    let model: string;
+    let key: string;
+    try {
+      const orchestrator = getOrchestratorInstance();
+      model = orchestrator.resolveModelAlias(body.model, protocol);
+      const digest = await getModelCapabilities().findDigest(orchestrator.getServers(), model);
+      key = normalizedRequestKey(
+        `${protocol}:${endpoint}`,
+        model,
+        digest,
+        body,
+        getRequestOwner(req)
+      );
+    } catch (error) {
+      logger.warn('Could not compute response cache key', {
+        endpoint,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next();
+      return;
+    }
+
+    const cached = mode === 'use' ? cache.get(key) : undefined;
+    if (cached) {
+      cache.recordOutcome('hit');
+      res.setHeader(RESPONSE_CACHE_HEADER, 'hit');
+      res.setHeader('Age', Math.floor(cached.ageMs / 1000));
+      replayResponse(res, cached);
+      getRequestHistory().recordRequest({
+        id: randomUUID(),
+        startTime,
+        serverId: RESPONSE_CACHE_SERVER_ID,
+        model,
+        endpoint: recordAs,
+        streaming,
+        priority: resolveRequestPriority(req),
+        cacheHit: true,
+        success: true,
+        duration: Date.now() - startTime,
+      });
+      logger.debug('Response cache hit', { endpoint, model, streaming });
+      return;
+    }
+
+    cache.recordOutcome('miss');
+    res.setHeader(RESPONSE_CACHE_HEADER, 'miss');
+    const run = (): void => {
+      captureResponse(res, streaming ? streamFormat : 'json', cache.getMaxSizeBytes(), response => {
+        if (!wasServedByFallback(res)) {
+          cache.set(key, response);
+        }
+      });
+      next();
+    };
+
+    // Identical misses arriving together share one upstream request
+    const singleFlight = getSingleFlight();
+    if (singleFlight.isEnabled()) {
+      singleFlight.run(singleFlightKey(req, key), res, run);
+    } else {
+      run();
+    }
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * singleFlight.ts
+ * Single-flight middleware for embedding endpoints: identical embedding requests in flight at
+ * the same time share one upstream request
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+
+import { getOrchestratorInstance } from '../orchestrator-instance.js';
+import { isDebugRequested } from '../utils/debug-headers.js';
+import { normalizedRequestKey, resolveResponseCacheMode } from '../utils/response-cache.js';
+import { getSingleFlight, singleFlightKey } from '../utils/single-flight.js';
+
+import { getRequestOwner } from './auth.js';
+
+export type SingleFlightEndpoint = 'embeddings' | 'embed' | 'v1/embeddings';
+
+const PROTOCOLS: Record<SingleFlightEndpoint, 'ollama' | 'openai'> = {
+  embeddings: 'ollama',
+  embed: 'ollama',
+  'v1/embeddings': 'openai',
+};
+
+/**
+ * Middleware coalescing identical `endpoint` requests onto the one already in flight, when
+ * `singleFlight.enabled` is set. Embeddings are deterministic, so every request takes part
+ * unless it sends `X-Orchestrator-Cache: bypass` or asks for debug output. Generations are
+ * coalesced by the response cache middleware instead.
+ */
+export function singleFlight(
+  endpoint: SingleFlightEndpoint
+): (req: Request, res: Response, next: NextFunction) => void {
+  const protocol = PROTOCOLS[endpoint];
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const flights = getSingleFlight();
+    const body = req.body as Record<string, unknown> | undefined;
+    if (
+      !flights.isEnabled() ||
+      !body ||
+      typeof body.model !== 'string' ||
+      resolveResponseCacheMode(req) === 'bypass' ||
+      isDebugRequested(req)
+    ) {
+      next();
+      return;
+    }
+
+    const model = getOrchestratorInstance().resolveModelAlias(body.model, protocol);
+    const key = normalizedRequestKey(
+      `${protocol}:${endpoint}`,
+      model,
+      undefined,
+      body,
+      getRequestOwner(req)
+    );
+    flights.run(singleFlightKey(req, key), res, next);
+  };
+}
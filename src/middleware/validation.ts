@@ -75,10 +75,12 @@ export const addServerSchema = z.object({
   maxConcurrency: z.number().int().min(1).max(1000).optional().default(4),
   type: z.enum(['ollama']).optional().default('ollama'),
   apiKey: z.string().optional(),
+  labels: z.record(z.string(), z.string()).optional(),
 });
 
 export const updateServerSchema = z.object({
   maxConcurrency: z.number().int().min(1).max(1000).optional(),
+  labels: z.record(z.string(), z.string()).optional(),
 });
 
 // Model validation schemas
@@ -116,17 +118,51 @@ export const embeddingsRequestSchema = z.object({
 });
 
 // Config validation schemas
+const loadBalancerAlgorithmSchema = z.enum([
+  'weighted',
+  'round-robin',
+  'least-connections',
+  'random',
+  'fastest-response',
+  'streaming-optimized',
+  'p2c',
+  'consistent-hash',
+]);
+
 export const configUpdateSchema = z.object({
+  modelAliases: z.record(z.string(), z.array(z.string().min(1)).min(1)).optional(),
+  modelFallbacks: z.record(z.string(), z.array(z.string().min(1)).min(1)).optional(),
   queue: z
     .object({
       maxSize: z.number().int().min(1).max(10000).optional(),
       timeout: z.number().int().min(1000).optional(),
       priorityBoostInterval: z.number().int().min(1000).optional(),
       priorityBoostAmount: z.number().int().min(1).optional(),
+      maxPriority: z.number().int().min(1).optional(),
+      lowPriorityShedThreshold: z.number().min(0).max(1).optional(),
+    })
+    .optional(),
+  sessionAffinity: z
+    .object({
+      enabled: z.boolean().optional(),
+      ttlMs: z.number().int().min(1000).optional(),
+      maxSessions: z.number().int().min(1).optional(),
+    })
+    .optional(),
+  hedging: z
+    .object({
+      enabled: z.boolean().optional(),
+      maxExtraLoadRatio: z.number().min(0).max(1).optional(),
+      minDelayMs: z.number().int().min(0).optional(),
+      maxDelayMs: z.number().int().min(0).optional(),
+      minSamples: z.number().int().min(1).optional(),
+      maxGenerateTokens: z.number().int().min(1).optional(),
     })
     .optional(),
   loadBalancer: z
     .object({
+      algorithm: loadBalancerAlgorithmSchema.optional(),
+      modelAlgorithms: z.record(z.string(), loadBalancerAlgorithmSchema).optional(),
       weights: z
         .object({
           latency: z.number().min(0).max(1).optional(),
@@ -141,6 +177,24 @@ export const configUpdateSchema = z.object({
           minSuccessRate: z.number().min(0).max(1).optional(),
         })
         .optional(),
+      residency: z
+        .object({
+          enabled: z.boolean().optional(),
+          loadTimeMultiplier: z.number().min(0).max(10).optional(),
+          maxPenaltyMs: z.number().int().min(0).optional(),
+        })
+        .optional(),
+      p2c: z
+        .object({
+          choices: z.number().int().min(2).max(10).optional(),
+        })
+        .optional(),
+      consistentHash: z
+        .object({
+          virtualNodes: z.number().int().min(1).max(1000).optional(),
+          checkCapacity: z.boolean().optional(),
+        })
+        .optional(),
     })
     .optional(),
   circuitBreaker: z
@@ -0,0 +1,271 @@
+/**
+ * openai-executors.ts
+ * Non-streaming /v1 chat completion, text completion and embedding requests: routing,
+ * failover, translation for Ollama-only servers, n > 1 sampling, tool-call limits and
+ * structured-output checks. The OpenAI controller and the batch manager both run requests
+ * through these, so a batch line is served exactly like the matching HTTP request.
+ */
+
+import { API_ENDPOINTS } from './constants/index.js';
+import { getOrchestratorInstance, type RoutingContext } from './orchestrator-instance.js';
+import {
+  embedWithCache,
+  getEmbeddingCache,
+  openAIEmbeddingBatch,
+  resolveCacheScope,
+} from './utils/embedding-cache.js';
+import { embedSharded, mergeOpenAIEmbeddings } from './utils/embedding-shards.js';
+import { fetchWithTimeout } from './utils/fetchWithTimeout.js';
+import { safeJsonStringify } from './utils/json-utils.js';
+import { MISSING_CAPABILITY_ERROR } from './utils/model-capabilities.js';
+import { resolveAttemptModel } from './utils/model-fallback.js';
+import { mergeCompletions, toSampleBody, validateChoiceCount } from './utils/multi-choice.js';
+import { parseOllamaErrorGlobal as parseOllamaError } from './utils/ollamaError.js';
+import {
+  buildOpenAIRequest,
+  getBackendHeaders,
+  ollamaResponseToOpenAI,
+  type OpenAITranslatedEndpoint,
+} from './utils/protocol-translation.js';
+import { ConcurrencySaturatedError } from './utils/request-queue.js';
+import {
+  STRUCTURED_OUTPUT_ERROR_MESSAGE,
+  getStrictSchema,
+  validateChatCompletion,
+  type ResponseFormat,
+} from './utils/structured-output.js';
+import { resolveRequestTimeout } from './utils/timeout-manager.js';
+import { limitToolCalls, validateToolChoice } from './utils/tool-calling.js';
+
+type JsonObject = Record<string, unknown>;
+
+/** Client request headers; only X-Request-Timeout is read */
+export type RequestHeaders = Record<string, string | string[] | undefined>;
+
+/** A request field the endpoint cannot serve, reported as a 400 */
+export interface OpenAIRequestError {
+  message: string;
+  param: string;
+  code: string;
+}
+
+/** The status and OpenAI error fields a failed request is answered with */
+export interface OpenAIErrorStatus {
+  statusCode: number;
+  type: string;
+  code: string;
+  param?: string;
+}
+
+export function generateId(prefix: string = 'chatcmpl'): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Check the fields of a chat or text completion body that no server could honour: a
+ * tool_choice that does not fit the tools, or an out-of-range n
+ */
+export function validateCompletionRequest(body: JsonObject): OpenAIRequestError | undefined {
+  const toolChoiceError = validateToolChoice(body.tools, body.tool_choice);
+  if (toolChoiceError) {
+    return { message: toolChoiceError, param: 'tool_choice', code: 'invalid_value' };
+  }
+  const choiceCountError = validateChoiceCount(body.n);
+  if (choiceCountError) {
+    return { message: choiceCountError, param: 'n', code: 'invalid_value' };
+  }
+  return undefined;
+}
+
+/**
+ * Map a failed request to its reply: 502 when no server produced output matching a strict
+ * json_schema, 400 when no server's copy of the model can see the request's images, 503
+ * when capacity ran out, otherwise 500
+ */
+export function classifyOpenAIError(error: unknown): OpenAIErrorStatus {
+  const message = error instanceof Error ? error.message : String(error);
+  if (message.includes(STRUCTURED_OUTPUT_ERROR_MESSAGE)) {
+    return { statusCode: 502, type: 'server_error', code: 'invalid_structured_output' };
+  }
+  if (message.startsWith(MISSING_CAPABILITY_ERROR)) {
+    return {
+      statusCode: 400,
+      type: 'invalid_request_error',
+      code: 'model_not_vision_capable',
+      param: 'messages',
+    };
+  }
+  const isCapacityError =
+    (message.includes('No') && message.includes('servers available')) ||
+    error instanceof ConcurrencySaturatedError ||
+    message.includes('circuit breaker');
+  return isCapacityError
+    ? { statusCode: 503, type: 'capacity_error', code: 'service_unavailable' }
+    : { statusCode: 500, type: 'server_error', code: 'internal_error' };
+}
+
+/**
+ * Run one completion through failover. A fallback attempt sends the substitute model, and a
+ * strict json_schema reply that does not validate moves on to another server.
+ */
+function runCompletion(
+  endpoint: OpenAITranslatedEndpoint,
+  body: JsonObject,
+  responseId: string,
+  routingContext: RoutingContext,
+  headers: RequestHeaders
+): Promise<JsonObject> {
+  const orchestrator = getOrchestratorInstance();
+  const model = body.model as string;
+  const strictSchema =
+    endpoint === 'chat' ? getStrictSchema(body.response_format as ResponseFormat) : undefined;
+
+  return orchestrator.tryRequestWithFailover<JsonObject>(
+    model,
+    async (server, context) => {
+      const attemptModel = resolveAttemptModel(context, model);
+      const translate = server.supportsV1 === false;
+      const upstream = buildOpenAIRequest(
+        endpoint,
+        { ...body, model: attemptModel },
+        translate,
+        false
+      );
+      const response = await fetchWithTimeout(`${server.url}${upstream.path}`, {
+        method: 'POST',
+        headers: getBackendHeaders(server),
+        body: safeJsonStringify(upstream.body),
+        timeout: resolveRequestTimeout(headers, orchestrator.getTimeout(server.id, attemptModel)),
+        signal: context?.signal,
+      });
+      if (!response.ok) {
+        throw new Error(await parseOllamaError(response));
+      }
+      const data = (await response.json()) as JsonObject;
+      const completion = translate
+        ? ollamaResponseToOpenAI(endpoint, data, responseId, attemptModel)
+        : data;
+      limitToolCalls(completion, body.parallel_tool_calls);
+      if (strictSchema) {
+        validateChatCompletion(completion, strictSchema);
+      }
+      return completion;
+    },
+    false,
+    'generate',
+    'openai',
+    routingContext
+  );
+}
+
+/**
+ * Run a non-streaming chat or text completion for a body whose model alias is already
+ * resolved. With n > 1 every sample is a sub-request of its own, routed and failed over
+ * independently, and the results are merged into one response.
+ */
+export async function executeOpenAICompletion(
+  endpoint: OpenAITranslatedEndpoint,
+  body: JsonObject,
+  routingContext: RoutingContext,
+  headers: RequestHeaders = {}
+): Promise<JsonObject> {
+  const responseId = generateId(endpoint === 'chat' ? 'chatcmpl' : 'cmpl');
+  const n = typeof body.n === 'number' ? body.n : 1;
+  if (n <= 1) {
+    return runCompletion(endpoint, body, responseId, routingContext, headers);
+  }
+
+  // Samples go wherever the load balancer sends them rather than to one pinned server
+  const sampleContext = {
+    ...routingContext,
+    affinityKey: undefined,
+    requestKey: undefined,
+    hedge: false,
+  };
+  const results = await Promise.allSettled(
+    Array.from({ length: n }, (_, sample) =>
+      runCompletion(endpoint, toSampleBody(body, sample), responseId, sampleContext, headers)
+    )
+  );
+  const failure = results.find(
+    (result): result is PromiseRejectedResult => result.status === 'rejected'
+  );
+  if (failure) {
+    throw failure.reason;
+  }
+  return mergeCompletions(
+    results.map(result => (result as PromiseFulfilledResult<JsonObject>).value),
+    responseId
+  );
+}
+
+/**
+ * Run a /v1/embeddings request for a body whose model alias is already resolved. Cached
+ * inputs are served from the embedding cache and large input arrays are sharded across
+ * servers.
+ */
+export async function executeOpenAIEmbeddings(
+  body: JsonObject,
+  routingContext: RoutingContext,
+  headers: RequestHeaders = {}
+): Promise<JsonObject> {
+  const orchestrator = getOrchestratorInstance();
+  const model = body.model as string;
+
+  const embed = (input: unknown, shardContext: RoutingContext): Promise<JsonObject> =>
+    orchestrator.tryRequestWithFailover<JsonObject>(
+      model,
+      async (server, context) => {
+        const response = await fetchWithTimeout(`${server.url}${API_ENDPOINTS.OPENAI.EMBEDDINGS}`, {
+          method: 'POST',
+          headers: getBackendHeaders(server),
+          body: safeJsonStringify({ ...body, input }),
+          timeout: resolveRequestTimeout(headers, orchestrator.getTimeout(server.id, model)),
+          signal: context?.signal,
+        });
+        if (!response.ok) {
+          throw new Error(await parseOllamaError(response));
+        }
+        return (await response.json()) as JsonObject;
+      },
+      false,
+      'embeddings',
+      'openai',
+      shardContext
+    );
+
+  const embedAll = (input: unknown): Promise<JsonObject> =>
+    embedSharded(model, input, routingContext, embed, mergeOpenAIEmbeddings);
+
+  const cache = getEmbeddingCache();
+  // base64 output is left to the server rather than cached as float vectors
+  if (!cache.isEnabled() || body.encoding_format === 'base64') {
+    return embedAll(body.input);
+  }
+
+  // A flat array of numbers is one tokenized input
+  const inputs =
+    Array.isArray(body.input) && !body.input.some(item => typeof item === 'number')
+      ? (body.input as unknown[])
+      : [body.input];
+  const scope = await resolveCacheScope(
+    'openai',
+    model,
+    orchestrator.getServers(),
+    body.dimensions as number | undefined
+  );
+  const { embeddings, tokens, response } = await embedWithCache(
+    cache,
+    scope,
+    inputs,
+    missing => embedAll(missing),
+    openAIEmbeddingBatch
+  );
+  return {
+    object: 'list',
+    model,
+    ...response,
+    data: embeddings.map((embedding, index) => ({ object: 'embedding', index, embedding })),
+    usage: { prompt_tokens: tokens, total_tokens: tokens },
+  };
+}
@@ -8,12 +8,14 @@ import { getDecisionHistory } from './decision-history.js';
 import {
   loadServersFromDisk,
   loadBansFromDisk,
+  loadAliasesFromDisk,
   saveServersToDisk,
 } from './orchestrator-persistence.js';
 import { AIOrchestrator, type RoutingContext } from './orchestrator.js';
 import type { AIServer } from './orchestrator.types.js';
 import { getRequestHistory } from './request-history.js';
 import { logger } from './utils/logger.js';
+import { mergePersistedAliases } from './utils/model-aliases.js';
 import { normalizeServerUrl } from './utils/urlUtils.js';
 
 export type { RoutingContext };
@@ -105,6 +107,7 @@ export function getOrchestratorInstance(): AIOrchestrator {
               url: server.url,
               type: server.type,
               maxConcurrency: server.maxConcurrency,
+              labels: server.labels,
             });
             // Update server state from persisted data
             const addedServer = orchestrator.getServer(server.id);
@@ -149,6 +152,14 @@ export function getOrchestratorInstance(): AIOrchestrator {
         logger.info(
           `Loaded ${deduplicatedServers.length} servers and ${persistedBans.size} bans from persistence`
         );
+
+        // Aliases set or deleted through the admin API take precedence over the config file
+        const persistedAliases = loadAliasesFromDisk();
+        if (Object.keys(persistedAliases).length > 0) {
+          configManager.updateConfig({
+            modelAliases: mergePersistedAliases(config.modelAliases ?? {}, persistedAliases),
+          });
+        }
       } catch (error) {
         logger.error('Failed to load persisted data:', { error });
       }
@@ -3,7 +3,12 @@
  * Server registration persistence utilities
  */
 
-import { serversConfig, bansConfig, timeoutsConfig } from './config/configManager.js';
+import {
+  serversConfig,
+  bansConfig,
+  timeoutsConfig,
+  aliasesConfig,
+} from './config/configManager.js';
 import type { AIServer } from './orchestrator.types.js';
 import { logger } from './utils/logger.js';
 
@@ -120,3 +125,38 @@ export function loadTimeoutsFromDisk(): Record<string, number> {
     return {};
   }
 }
+
+/**
+ * Save model aliases to disk
+ */
+export function saveAliasesToDisk(aliases: Record<string, string[]>): void {
+  try {
+    const success = aliasesConfig.set(aliases);
+    if (!success) {
+      logger.error('Failed to save model aliases to disk');
+    } else {
+      logger.debug(`Saved ${Object.keys(aliases).length} model aliases to disk`);
+    }
+  } catch (err) {
+    logger.error('Exception while saving model aliases:', { error: err });
+  }
+}
+
+/**
+ * Load model aliases from disk
+ */
+export function loadAliasesFromDisk(): Record<string, string[]> {
+  try {
+    const aliases = aliasesConfig.get();
+    if (aliases && typeof aliases === 'object' && !Array.isArray(aliases)) {
+      logger.info(`Loaded ${Object.keys(aliases).length} model aliases from disk`);
+      return aliases;
+    } else {
+      logger.warn('No valid model aliases found on disk, returning empty object');
+      return {};
+    }
+  } catch (err) {
+    logger.error('Exception while loading model aliases:', { error: err });
+    return {};
+  }
+}
@@ -24,8 +24,14 @@ import { DEFAULT_CONFIG, getConfigManager } from './config/config.js';
 import { ERROR_MESSAGES } from './constants/index.js';
 import { getDecisionHistory } from './decision-history.js';
 import { HealthCheckScheduler, type HealthCheckResult } from './health-check-scheduler.js';
-import { LoadBalancer, calculateServerScore, type LoadBalancerConfig } from './load-balancer.js';
+import {
+  LoadBalancer,
+  calculateServerScore,
+  type LoadBalancerAlgorithm,
+  type LoadBalancerConfig,
+} from './load-balancer.js';
 import { MetricsAggregator } from './metrics/index.js';
+import { getModelManager } from './model-manager-instance.js';
 import {
   saveServersToDisk,
   loadTimeoutsFromDisk,
@@ -33,7 +39,9 @@ import {
 } from './orchestrator-persistence.js';
 import type {
   AIServer,
+  CapacityUsage,
   RequestContext,
+  RequestPriority,
   ServerModelMetrics,
   GlobalMetrics,
   MetricsExport,
@@ -47,10 +55,34 @@ import { getRequestHistory } from './request-history.js';
 import { BanManager } from './utils/ban-manager.js';
 import { classifyError, ErrorCategory } from './utils/errorClassifier.js';
 import { fetchWithTimeout, parseResponse } from './utils/fetchWithTimeout.js';
+import {
+  HedgeCancelledError,
+  HedgingManager,
+  type HedgeOutcome,
+  type HedgingStats,
+} from './utils/hedging.js';
 import { InFlightManager, getInFlightManager } from './utils/in-flight-manager.js';
 import { safeJsonStringify } from './utils/json-utils.js';
 import { logger } from './utils/logger.js';
 import { ModelAggregator } from './utils/model-aggregator.js';
+import { resolveAliasTarget } from './utils/model-aliases.js';
+import { MISSING_CAPABILITY_ERROR, getModelCapabilities } from './utils/model-capabilities.js';
+import { getFallbackChain } from './utils/model-fallback.js';
+import { isProtocolTranslationEnabled } from './utils/protocol-translation.js';
+import { ConcurrencySaturatedError, RequestQueue, type QueueStats } from './utils/request-queue.js';
+import {
+  formatLabelSelector,
+  matchesLabels,
+  orderByPreferredLabels,
+  countPreferredMatches,
+  type LabelConstraints,
+} from './utils/server-labels.js';
+import {
+  SessionAffinityManager,
+  type AffinityOutcome,
+  type AffinityStats,
+} from './utils/session-affinity.js';
+import { StructuredOutputError } from './utils/structured-output.js';
 import { TimeoutManager } from './utils/timeout-manager.js';
 import { normalizeServerUrl, areUrlsEquivalent } from './utils/urlUtils.js';
 
@@ -76,6 +108,28 @@ export interface RoutingContext {
   timeoutMs?: number;
   /** Time spent in routing/failover before reaching a server (ms) */
   queueWaitTime?: number;
+  /** Priority class used for queueing and tie-breaking between servers */
+  priority?: RequestPriority;
+  /** Conversation key for session affinity (chat endpoints only) */
+  affinityKey?: string;
+  /** Whether the conversation's bound server was used, missing, or passed over */
+  affinity?: AffinityOutcome;
+  /** Server label requirements and preferences from headers or the API key policy */
+  labelConstraints?: LabelConstraints;
+  /** Whether the request opted into the model's fallback chain */
+  allowFallback?: boolean;
+  /** Requested model, set when a fallback model from its chain answered instead */
+  degradedFrom?: string;
+  /** Fallback model that answered when the request was degraded */
+  servedModel?: string;
+  /** Short non-streaming request that may be hedged (when hedging is enabled) */
+  hedge?: boolean;
+  /** Which attempt answered when a hedge was sent */
+  hedged?: HedgeOutcome;
+  /** Hash of the request input, used by the consistent-hash algorithm */
+  requestKey?: string;
+  /** Capabilities the model must report in /api/show on a server, e.g. vision for images */
+  modelCapabilities?: string[];
 
   // Failover diagnostics
   /** The deepest failover phase reached (1, 2, or 3) */
@@ -97,6 +151,9 @@ export class AIOrchestrator {
   private circuitBreakerPersistence: CircuitBreakerPersistence;
   private metricsAggregator: MetricsAggregator;
   private loadBalancer: LoadBalancer;
+  private requestQueue: RequestQueue;
+  private sessionAffinity: SessionAffinityManager;
+  private hedging: HedgingManager;
   private healthCheckScheduler: HealthCheckScheduler;
   private activeTestScheduler: ActiveTestScheduler;
   private draining = false;
@@ -132,6 +189,7 @@ export class AIOrchestrator {
 
   // Unsubscribe from config changes
   private unsubscribeFromConfig?: () => void;
+  private unsubscribeFromLoadBalancerConfig?: () => void;
 
   constructor(
     loadBalancerConfig?: LoadBalancerConfig,
@@ -161,6 +219,14 @@ export class AIOrchestrator {
     // Initialize ModelAggregator
     this.modelAggregator = new ModelAggregator();
 
+    // Admission queue for requests that find every candidate at max concurrency
+    this.requestQueue = new RequestQueue({ ...DEFAULT_CONFIG.queue, ...this.config.queue });
+    this.sessionAffinity = new SessionAffinityManager({
+      ...DEFAULT_CONFIG.sessionAffinity,
+      ...this.config.sessionAffinity,
+    });
+    this.hedging = new HedgingManager({ ...DEFAULT_CONFIG.hedging, ...this.config.hedging });
+
     // Set up circuit breaker state change tracking by wrapping registry getOrCreate
     const registryGetOrCreate = this.circuitBreakerRegistry.getOrCreate.bind(
       this.circuitBreakerRegistry
@@ -241,6 +307,15 @@ export class AIOrchestrator {
         });
       }
     );
+
+    // Apply load balancer changes (algorithm, per-model overrides, weights) on hot reload
+    this.unsubscribeFromLoadBalancerConfig = getConfigManager().registerComponentWatcher(
+      'loadBalancer',
+      fullConfig => {
+        this.config = { ...this.config, loadBalancer: fullConfig.loadBalancer };
+        this.loadBalancer.updateConfig(fullConfig.loadBalancer);
+      }
+    );
   }
 
   /**
@@ -258,6 +333,19 @@ export class AIOrchestrator {
     // Update health check scheduler
     this.healthCheckScheduler.updateConfig(config.healthCheck);
 
+    // Update admission queue
+    if (config.queue) {
+      this.requestQueue.updateConfig(config.queue);
+    }
+
+    if (config.sessionAffinity) {
+      this.sessionAffinity.updateConfig(config.sessionAffinity);
+    }
+
+    if (config.hedging) {
+      this.hedging.updateConfig(config.hedging);
+    }
+
     logger.info('Orchestrator config updated at runtime');
   }
 
@@ -778,6 +866,7 @@ export class AIOrchestrator {
 
       // Clean up circuit breakers for this server (server-level and all model-level)
       this.circuitBreakerRegistry.removeByPrefix(serverId);
+      this.sessionAffinity.unbindServer(serverId);
 
       // Persist servers to disk if enabled
       if (this.config.enablePersistence) {
@@ -822,7 +911,10 @@ export class AIOrchestrator {
   /**
    * Update server configuration
    */
-  updateServer(serverId: string, updates: Partial<Pick<AIServer, 'maxConcurrency'>>): boolean {
+  updateServer(
+    serverId: string,
+    updates: Partial<Pick<AIServer, 'maxConcurrency' | 'labels'>>
+  ): boolean {
     const server = this.servers.find(s => s.id === serverId);
     if (!server) {
       return false;
@@ -833,6 +925,12 @@ export class AIOrchestrator {
       logger.info(`Updated server ${serverId} maxConcurrency to ${updates.maxConcurrency}`);
     }
 
+    // Labels are replaced as a whole; an empty object clears them
+    if (updates.labels !== undefined) {
+      server.labels = { ...updates.labels };
+      logger.info(`Updated server ${serverId} labels`, { labels: server.labels });
+    }
+
     // Persist servers to disk if enabled
     if (this.config.enablePersistence) {
       saveServersToDisk(this.servers);
@@ -948,6 +1046,26 @@ export class AIOrchestrator {
     }
   }
 
+  /**
+   * Load balancing algorithm in effect: the default plus the algorithm for every model
+   * currently served or given an override
+   */
+  getActiveAlgorithms(): {
+    default: LoadBalancerAlgorithm;
+    models: Record<string, LoadBalancerAlgorithm>;
+  } {
+    const models = new Set([
+      ...this.getCurrentModelList(),
+      ...Object.keys(this.loadBalancer.getModelAlgorithms()),
+    ]);
+    return {
+      default: this.loadBalancer.getAlgorithm(),
+      models: Object.fromEntries(
+        [...models].sort().map(model => [model, this.loadBalancer.getAlgorithmForModel(model)])
+      ),
+    };
+  }
+
   /**
    * Get aggregated model map: model -> serverIds[]
    */
@@ -979,15 +1097,19 @@ export class AIOrchestrator {
 
     // Check cache first
     if (this.tagsCache && now - this.tagsCache.timestamp < this.config.tags.cacheTtlMs) {
-      return { models: this.tagsCache.data };
+      return { models: this.appendAliasTags(this.tagsCache.data) };
     }
 
     const healthyServers = this.servers.filter(s => s.healthy && s.supportsOllama !== false);
+    // OpenAI-only servers serve their /v1/models to Ollama clients through protocol translation
+    const translatedServers = isProtocolTranslationEnabled()
+      ? this.servers.filter(s => s.healthy && s.supportsOllama === false && s.supportsV1 === true)
+      : [];
 
-    if (healthyServers.length === 0) {
+    if (healthyServers.length === 0 && translatedServers.length === 0) {
       // Return cached data if available, even if stale
       if (this.tagsCache) {
-        return { models: this.tagsCache.data };
+        return { models: this.appendAliasTags(this.tagsCache.data) };
       }
       return { models: [] };
     }
@@ -1040,6 +1162,11 @@ export class AIOrchestrator {
       }
     }
 
+    for (const server of translatedServers) {
+      const tags = (server.v1Models ?? []).map(id => ({ name: id, model: id }));
+      this.mergeTagsData(allTags, tags, server.id);
+    }
+
     const models = Array.from(allTags.values());
 
     // Filter out models that have no closed circuit breaker
@@ -1069,7 +1196,38 @@ export class AIOrchestrator {
       `Tags aggregation completed: ${successfulRequests}/${totalRequests} successful requests, ${filteredModels.length} unique models`
     );
 
-    return { models: filteredModels };
+    return { models: this.appendAliasTags(filteredModels) };
+  }
+
+  /**
+   * Append an entry per alias to an aggregated tags list, copied from the target the
+   * alias currently resolves to. Aliases with no listed target are omitted.
+   */
+  private appendAliasTags(models: any[]): any[] {
+    const aliases = Object.entries(getConfigManager().getConfig().modelAliases ?? {});
+    if (aliases.length === 0) {
+      return models;
+    }
+
+    const byName = new Map<string, any>();
+    for (const entry of models) {
+      byName.set((entry.name ?? entry.model) as string, entry);
+    }
+
+    const names = [...byName.keys()];
+    const aliasEntries: any[] = [];
+    for (const [alias, targets] of aliases) {
+      const targetName = targets.map(t => this.resolveModelName(t, names)).find(Boolean);
+      if (targetName) {
+        aliasEntries.push({
+          ...byName.get(targetName),
+          name: alias,
+          model: alias,
+          alias_of: targetName,
+        });
+      }
+    }
+    return [...models, ...aliasEntries];
   }
 
   /**
@@ -1243,10 +1401,17 @@ export class AIOrchestrator {
   } {
     // First pass: collect all servers that have each model
     const modelToServers = new Map<string, string[]>();
+    const translationEnabled = isProtocolTranslationEnabled();
 
     for (const server of this.servers) {
-      if (server.healthy && server.supportsV1 && server.v1Models) {
-        for (const modelId of server.v1Models) {
+      // Ollama-only servers serve their tags to OpenAI clients through protocol translation
+      const modelIds = server.supportsV1
+        ? server.v1Models
+        : translationEnabled && server.supportsV1 === false && server.supportsOllama === true
+          ? server.models
+          : undefined;
+      if (server.healthy && modelIds) {
+        for (const modelId of modelIds) {
           if (!modelToServers.has(modelId)) {
             modelToServers.set(modelId, []);
           }
@@ -1272,6 +1437,18 @@ export class AIOrchestrator {
       }
     }
 
+    // List aliases whose resolved target is listed, owned by the same server
+    const modelIds = models.map(m => m.id);
+    for (const [alias, targets] of Object.entries(
+      getConfigManager().getConfig().modelAliases ?? {}
+    )) {
+      const targetId = targets.map(t => this.resolveModelName(t, modelIds)).find(Boolean);
+      const targetModel = models.find(m => m.id === targetId);
+      if (targetModel) {
+        models.push({ ...targetModel, id: alias });
+      }
+    }
+
     return {
       object: 'list',
       data: models,
@@ -1313,17 +1490,89 @@ export class AIOrchestrator {
     return null;
   }
 
+  /**
+   * Model list a server serves to clients of the given protocol, or undefined when it
+   * cannot serve them. A server lacking the client's API still serves the models of its
+   * other API when protocol translation is enabled and that API passed its health check.
+   */
+  private getServableModels(
+    server: AIServer,
+    requiredCapability?: 'ollama' | 'openai'
+  ): string[] | undefined {
+    if (requiredCapability === 'ollama' && server.supportsOllama === false) {
+      return isProtocolTranslationEnabled() && server.supportsV1 === true
+        ? (server.v1Models ?? [])
+        : undefined;
+    }
+    if (requiredCapability === 'openai' && server.supportsV1 === false) {
+      return isProtocolTranslationEnabled() && server.supportsOllama === true
+        ? server.models
+        : undefined;
+    }
+    return (requiredCapability === 'openai' ? server.v1Models : undefined) ?? server.models;
+  }
+
+  /**
+   * Whether a healthy server serves the model to clients of the given protocol (through
+   * protocol translation where needed) and is not in cooldown or banned for it. Routing and
+   * alias resolution share this check so they agree on where a model can run.
+   */
+  private canServeModel(
+    server: AIServer,
+    model: string,
+    requiredCapability?: 'ollama' | 'openai'
+  ): boolean {
+    const availableModels = this.getServableModels(server, requiredCapability);
+    return (
+      server.healthy &&
+      availableModels !== undefined &&
+      this.resolveModelName(model, availableModels) !== null &&
+      !this.isInCooldown(server.id, model) &&
+      !this.banManager.isBanned(server.id, model)
+    );
+  }
+
+  /**
+   * Resolve a model alias (from `modelAliases` config) to its first target that a healthy,
+   * routable server has, before normal model name resolution. Other names pass through.
+   */
+  resolveModelAlias(model: string, requiredCapability?: 'ollama' | 'openai'): string {
+    const aliases = getConfigManager().getConfig().modelAliases ?? {};
+    const resolved = resolveAliasTarget(model, aliases, target =>
+      this.servers.some(
+        s =>
+          s.draining !== true &&
+          s.maintenance !== true &&
+          this.canServeModel(s, target, requiredCapability)
+      )
+    );
+
+    if (resolved !== model) {
+      logger.debug(`Resolved model alias ${model} -> ${resolved}`);
+    }
+    return resolved;
+  }
+
   /**
    * Find the best server for a given model using historical metrics
    */
-  getBestServerForModel(model: string, isStreaming: boolean = false): AIServer | undefined {
+  getBestServerForModel(
+    model: string,
+    isStreaming: boolean = false,
+    labelConstraints?: LabelConstraints
+  ): AIServer | undefined {
     // Filter candidates based on hard requirements
-    const candidates = this.servers.filter(server => {
+    let candidates = this.servers.filter(server => {
       // Must be healthy
       if (!server.healthy) {
         return false;
       }
 
+      // Must carry every required label
+      if (labelConstraints && !matchesLabels(server, labelConstraints.require)) {
+        return false;
+      }
+
       // Must not be draining or in maintenance
       if (server.draining === true || server.maintenance === true) {
         return false;
@@ -1360,6 +1609,13 @@ export class AIOrchestrator {
       return true;
     });
 
+    // Narrow to the servers matching the most preferred labels
+    if (labelConstraints && labelConstraints.prefer.length > 0 && candidates.length > 1) {
+      const matchCounts = candidates.map(s => countPreferredMatches(s, labelConstraints.prefer));
+      const best = Math.max(...matchCounts);
+      candidates = candidates.filter((_, i) => matchCounts[i] === best);
+    }
+
     if (candidates.length === 0) {
       return undefined;
     }
@@ -1379,14 +1635,15 @@ export class AIOrchestrator {
           metrics,
           undefined,
           cbHealth,
-          this.getTimeout(server.id, model)
+          this.getTimeout(server.id, model),
+          this.getEstimatedLoadTime(model)
         );
       });
 
       getDecisionHistory().recordDecision(
         model,
         selected,
-        this.loadBalancer.getAlgorithm(),
+        this.loadBalancer.getAlgorithmForModel(model),
         scores,
         'single_candidate'
       );
@@ -1403,7 +1660,9 @@ export class AIOrchestrator {
       isStreaming,
       undefined,
       (serverId, model) => this.getTimeout(serverId, model),
-      serverId => this.getCircuitBreakerHealth(serverId)
+      serverId => this.getCircuitBreakerHealth(serverId),
+      undefined,
+      model => this.getEstimatedLoadTime(model)
     );
 
     // Record the decision for historical analysis
@@ -1420,14 +1679,15 @@ export class AIOrchestrator {
           metrics,
           undefined,
           cbHealth,
-          this.getTimeout(server.id, model)
+          this.getTimeout(server.id, model),
+          this.getEstimatedLoadTime(model)
         );
       });
 
       getDecisionHistory().recordDecision(
         model,
         selected,
-        this.loadBalancer.getAlgorithm(),
+        this.loadBalancer.getAlgorithmForModel(model),
         scores,
         'load_balancer'
       );
@@ -1477,7 +1737,8 @@ export class AIOrchestrator {
           metrics,
           undefined,
           cbHealth,
-          this.getTimeout(server.id, model)
+          this.getTimeout(server.id, model),
+          this.getEstimatedLoadTime(model)
         );
       })
       .sort((a, b) => b.totalScore - a.totalScore);
@@ -1513,7 +1774,8 @@ export class AIOrchestrator {
       metrics,
       undefined,
       cbHealth,
-      this.getTimeout(server.id, model)
+      this.getTimeout(server.id, model),
+      this.getEstimatedLoadTime(model)
     );
   }
 
@@ -1521,52 +1783,192 @@ export class AIOrchestrator {
    * Execute a request with automatic failover
    * Strategy: Try all servers first (no same-server retries), then retry the full cycle once more.
    * Only after exhausting all servers twice, attempt same-server retries on the original server.
+   * When every candidate is at max concurrency and the queue is enabled, the request waits in the
+   * admission queue for a free slot and is routed again.
+   * If the request opted into fallback (routingContext.allowFallback) and every server for the
+   * model failed, the models in its `modelFallbacks` chain are tried in order. `fn` receives the
+   * model for each attempt in its context and must send that model to the server.
+   * A streaming `fn` whose stream breaks off after reaching the client returns its result with
+   * `_streamError` set; the attempt is recorded as failed without failing over.
+   * The 'show' endpoint (model metadata) may go to a server whatever the model's type, takes
+   * no concurrency slot and stays out of the latency and throughput metrics, circuit breakers
+   * and timeouts.
    */
   async tryRequestWithFailover<T>(
     model: string,
-    fn: (server: AIServer, context?: { requestId?: string }) => Promise<T>,
+    fn: (
+      server: AIServer,
+      context?: { requestId?: string; model?: string; signal?: AbortSignal }
+    ) => Promise<T>,
     isStreaming: boolean = false,
-    endpoint: 'generate' | 'embeddings' = 'generate',
+    endpoint: 'generate' | 'embeddings' | 'show' = 'generate',
+    requiredCapability?: 'ollama' | 'openai',
+    routingContext?: RoutingContext,
+    signal?: AbortSignal
+  ): Promise<T> {
+    try {
+      return await this.routeWithAdmission(
+        model,
+        fn,
+        isStreaming,
+        endpoint,
+        requiredCapability,
+        routingContext,
+        signal
+      );
+    } catch (error) {
+      // Embeddings never degrade: vectors from different models are not comparable
+      const chain =
+        routingContext?.allowFallback && endpoint === 'generate'
+          ? getFallbackChain(model, getConfigManager().getConfig().modelFallbacks ?? {})
+          : [];
+      const message = error instanceof Error ? error.message : String(error);
+      // A saturated model is available, just busy; only an unavailable one degrades
+      if (
+        chain.length === 0 ||
+        signal?.aborted ||
+        message === 'Request aborted' ||
+        error instanceof ConcurrencySaturatedError
+      ) {
+        throw error;
+      }
+
+      for (const fallbackModel of chain) {
+        if (signal?.aborted) {
+          break;
+        }
+        logger.warn(`Model ${model} unavailable, falling back to ${fallbackModel}`, {
+          error: message,
+        });
+        routingContext!.degradedFrom = model;
+        try {
+          const result = await this.routeWithAdmission(
+            fallbackModel,
+            fn,
+            isStreaming,
+            endpoint,
+            requiredCapability,
+            routingContext,
+            signal
+          );
+          routingContext!.servedModel = fallbackModel;
+          return result;
+        } catch (fallbackError) {
+          logger.warn(`Fallback model ${fallbackModel} for ${model} also failed`, {
+            error: fallbackError instanceof Error ? fallbackError.message : String(fallbackError),
+          });
+        }
+      }
+
+      // Report the requested model's failure rather than the last substitute's
+      delete routingContext!.degradedFrom;
+      throw error;
+    }
+  }
+
+  /**
+   * Failover routing plus admission queueing for a single model
+   */
+  private async routeWithAdmission<T>(
+    model: string,
+    fn: (
+      server: AIServer,
+      context?: { requestId?: string; model?: string; signal?: AbortSignal }
+    ) => Promise<T>,
+    isStreaming: boolean,
+    endpoint: 'generate' | 'embeddings' | 'show',
+    requiredCapability?: 'ollama' | 'openai',
+    routingContext?: RoutingContext,
+    signal?: AbortSignal
+  ): Promise<T> {
+    let queuedAt: number | undefined;
+
+    for (;;) {
+      const passStart = Date.now();
+      try {
+        const result = await this.routeWithFailover(
+          model,
+          fn,
+          isStreaming,
+          endpoint,
+          requiredCapability,
+          routingContext,
+          signal
+        );
+        if (queuedAt !== undefined && routingContext) {
+          routingContext.queueWaitTime = (routingContext.queueWaitTime ?? 0) + passStart - queuedAt;
+        }
+        // Bind the conversation to whichever server actually served it
+        const servedBy = routingContext?.serversTried?.[routingContext.serversTried.length - 1];
+        if (routingContext?.affinityKey && servedBy) {
+          this.sessionAffinity.bind(routingContext.affinityKey, servedBy);
+        }
+        return result;
+      } catch (error) {
+        if (!this.config.enableQueue || !(error instanceof ConcurrencySaturatedError)) {
+          throw error;
+        }
+
+        const isRequeue = queuedAt !== undefined;
+        queuedAt ??= passStart;
+        if (!isRequeue) {
+          logger.info(`All servers for model ${model} at max concurrency, queueing request`, {
+            queueSize: this.requestQueue.size(),
+          });
+        }
+        await this.requestQueue.enqueue(model, {
+          priority: routingContext?.priority,
+          signal,
+          enqueuedAt: isRequeue ? queuedAt : undefined,
+        });
+      }
+    }
+  }
+
+  /**
+   * Single routing pass for tryRequestWithFailover (phases 1-3, no queueing)
+   */
+  private async routeWithFailover<T>(
+    model: string,
+    fn: (
+      server: AIServer,
+      context?: { requestId?: string; model?: string; signal?: AbortSignal }
+    ) => Promise<T>,
+    isStreaming: boolean,
+    endpoint: 'generate' | 'embeddings' | 'show',
     requiredCapability?: 'ollama' | 'openai',
     routingContext?: RoutingContext,
     signal?: AbortSignal
   ): Promise<T> {
     const errors: Array<{ server: string; error: string; type?: ErrorType }> = [];
     const routingStartTime = Date.now();
+    const priority = routingContext?.priority;
+    const requiredLabels = routingContext?.labelConstraints?.require ?? [];
 
     // Check for abort before starting
     if (signal?.aborted) {
       throw new Error('Request aborted');
     }
 
-    // Resolve model name for matching (REC-48)
-    // Determine which model list to use based on required capability (REC-47)
-    const modelListKey = requiredCapability === 'openai' ? 'v1Models' : 'models';
-    const eligibleServers = this.servers.filter(s => {
-      // Check capability requirement
-      if (requiredCapability === 'ollama' && s.supportsOllama === false) {
-        return false;
-      }
-      if (requiredCapability === 'openai' && s.supportsV1 === false) {
-        return false;
-      }
-
-      // Get the appropriate model list for this capability
-      const availableModels = (s as any)[modelListKey] ?? s.models;
-
-      // Resolve model name (try direct match, then :latest)
-      const resolvedModel = this.resolveModelName(model, availableModels);
-      if (!resolvedModel) {
-        return false;
-      }
-
-      return (
-        s.healthy &&
-        !this.isInCooldown(s.id, model) &&
-        !this.banManager.isBanned(s.id, model) &&
+    // Servers serving the model for the required capability (REC-47, REC-48)
+    let eligibleServers = this.servers.filter(
+      s =>
+        this.canServeModel(s, model, requiredCapability) &&
+        matchesLabels(s, requiredLabels) &&
         !this.shouldSkipServerModel(s.id, model, endpoint)
+    );
+
+    // Requests needing a model capability only go to servers whose copy of the model has it
+    const requiredModelCapabilities = routingContext?.modelCapabilities ?? [];
+    const capabilityCandidates = eligibleServers.length;
+    if (requiredModelCapabilities.length > 0 && eligibleServers.length > 0) {
+      eligibleServers = await getModelCapabilities().filterServers(
+        eligibleServers,
+        requiredModelCapabilities,
+        s =>
+          this.resolveModelName(model, this.getServableModels(s, requiredCapability) ?? []) ?? model
       );
-    });
+    }
 
     // Sort candidates using load balancer (historical metrics)
     let candidates: AIServer[] = [];
@@ -1585,7 +1987,10 @@ export class AIOrchestrator {
         isStreaming,
         undefined,
         (serverId, model) => this.getTimeout(serverId, model),
-        serverId => this.getCircuitBreakerHealth(serverId)
+        serverId => this.getCircuitBreakerHealth(serverId),
+        priority,
+        model => this.getEstimatedLoadTime(model),
+        routingContext?.requestKey
       );
 
       if (!selected) {
@@ -1606,16 +2011,18 @@ export class AIOrchestrator {
             metrics,
             undefined,
             cbHealth,
-            this.getTimeout(server.id, model)
+            this.getTimeout(server.id, model),
+            this.getEstimatedLoadTime(model)
           );
         });
 
         getDecisionHistory().recordDecision(
           model,
           selected,
-          this.loadBalancer.getAlgorithm(),
+          this.loadBalancer.getAlgorithmForModel(model),
           scores,
-          'failover_routing'
+          'failover_routing',
+          priority
         );
         firstDecisionRecorded = true;
       }
@@ -1627,36 +2034,40 @@ export class AIOrchestrator {
       }
     }
 
+    if (candidates.length === 0 && capabilityCandidates > 0 && eligibleServers.length === 0) {
+      throw new Error(
+        `${MISSING_CAPABILITY_ERROR} '${requiredModelCapabilities.join("', '")}' for model '${model}'`
+      );
+    }
+
     if (candidates.length === 0) {
       // REC-71: Differentiate "No servers" error conditions
       let errorReason = 'No servers available';
 
       // Check if no servers support the required capability
-      const capabilityServers = this.servers.filter(s => {
-        if (requiredCapability === 'ollama' && s.supportsOllama === false) {
-          return false;
-        }
-        if (requiredCapability === 'openai' && s.supportsV1 === false) {
-          return false;
-        }
-        return true;
-      });
+      const capabilityServers = this.servers.filter(
+        s => this.getServableModels(s, requiredCapability) !== undefined
+      );
 
       if (capabilityServers.length === 0) {
         errorReason = `No servers support required capability '${requiredCapability}'`;
       } else {
         // Check if no servers have the model
         const modelServers = capabilityServers.filter(s => {
-          const availableModels = (s as any)[modelListKey] ?? s.models;
+          const availableModels = this.getServableModels(s, requiredCapability) ?? [];
           const resolvedModel = this.resolveModelName(model, availableModels);
           return resolvedModel !== null;
         });
 
+        const labelServers = modelServers.filter(s => matchesLabels(s, requiredLabels));
+
         if (modelServers.length === 0) {
           errorReason = `Model '${model}' not found on any ${requiredCapability || 'configured'} server`;
+        } else if (labelServers.length === 0) {
+          errorReason = `No servers available with required labels '${formatLabelSelector(requiredLabels)}'`;
         } else {
           // Check remaining conditions: healthy, not banned, not in cooldown, not circuit breaker blocked
-          const healthyServers = modelServers.filter(s => s.healthy);
+          const healthyServers = labelServers.filter(s => s.healthy);
           if (healthyServers.length === 0) {
             errorReason = 'All servers are unhealthy';
           } else {
@@ -1695,6 +2106,14 @@ export class AIOrchestrator {
       throw new Error(`${errorReason} for model '${model}'`);
     }
 
+    // Preferred labels reorder the load balancer ranking; equal matches keep their rank
+    const preferredLabels = routingContext?.labelConstraints?.prefer ?? [];
+    candidates = orderByPreferredLabels(candidates, preferredLabels);
+
+    if (routingContext?.affinityKey && this.sessionAffinity.isEnabled()) {
+      candidates = this.applySessionAffinity(candidates, model, endpoint, routingContext);
+    }
+
     const initialServer = candidates[0];
 
     // Populate routing context with available server count
@@ -1716,6 +2135,7 @@ export class AIOrchestrator {
     const failoverErrors: Array<{ serverId: string; error: string; errorType?: string }> = [];
     const allServersTried: string[] = [];
     let concurrencySkipCount = 0; // Track how many candidates were skipped due to max concurrency
+    const holdsSlot = endpoint !== 'show';
 
     // Phase 1: Try each candidate once (failover-first strategy)
     logger.info(`Phase 1: Trying ${candidates.length} candidate(s) once each`, { model });
@@ -1724,12 +2144,13 @@ export class AIOrchestrator {
       if (signal?.aborted) {
         throw new Error('Request aborted');
       }
+      // Already tried as the hedge for an earlier candidate
+      if (allServersTried.includes(server.id)) {
+        continue;
+      }
       const maxConcurrency = server.maxConcurrency ?? this.config.cooldown.defaultMaxConcurrency;
-      const canIncrement = this.inFlightManager.tryIncrementInFlight(
-        server.id,
-        model,
-        maxConcurrency
-      );
+      const canIncrement =
+        !holdsSlot || this.inFlightManager.tryIncrementInFlight(server.id, model, maxConcurrency);
 
       if (!canIncrement) {
         concurrencySkipCount++;
@@ -1748,15 +2169,33 @@ export class AIOrchestrator {
 
       // Try request WITHOUT same-server retries (failover immediately)
       const attemptStart1 = Date.now();
-      const result = await this.tryRequestOnServerNoRetry(
-        server,
-        model,
-        fn,
-        isStreaming,
-        errors,
-        undefined,
-        true
-      );
+      let result: { success: true; value: T } | { success: false };
+      let servedBy = server;
+      let hedgeServer: AIServer | undefined;
+      if (routingContext?.hedge && !isStreaming && holdsSlot && this.hedging.isEnabled()) {
+        ({ result, servedBy, hedgeServer } = await this.tryRequestHedged(
+          server,
+          candidates.slice(candidates.indexOf(server) + 1),
+          model,
+          fn,
+          errors,
+          priority,
+          routingContext
+        ));
+      } else {
+        result = await this.tryRequestOnServerNoRetry(
+          server,
+          model,
+          fn,
+          isStreaming,
+          errors,
+          undefined,
+          true,
+          priority,
+          routingContext?.degradedFrom,
+          endpoint
+        );
+      }
       const attemptLatency1 = Date.now() - attemptStart1;
 
       if (result.success) {
@@ -1764,13 +2203,17 @@ export class AIOrchestrator {
         getDecisionHistory().recordFailoverAttempt({
           model,
           phase: 1,
-          serverId: server.id,
+          serverId: servedBy.id,
           result: 'success',
           latencyMs: attemptLatency1,
         });
         if (routingContext) {
           routingContext.retryCount = retryCount;
-          routingContext.serversTried = [...allServersTried, server.id];
+          routingContext.serversTried = [
+            ...allServersTried,
+            ...(servedBy === server ? [] : [server.id]),
+            servedBy.id,
+          ];
           routingContext.queueWaitTime = Date.now() - routingStartTime;
           routingContext.failoverPhase = 1;
           routingContext.failoverCount = retryCount;
@@ -1780,11 +2223,11 @@ export class AIOrchestrator {
           }
         }
         const serverMaxConcurrency =
-          server.maxConcurrency ?? this.config.cooldown.defaultMaxConcurrency;
-        const serverLoad = this.getTotalInFlight(server.id);
+          servedBy.maxConcurrency ?? this.config.cooldown.defaultMaxConcurrency;
+        const serverLoad = this.getTotalInFlight(servedBy.id);
         this.populateRoutingContext(
           routingContext,
-          server.id,
+          servedBy.id,
           model,
           serverLoad,
           serverMaxConcurrency
@@ -1804,6 +2247,9 @@ export class AIOrchestrator {
       });
 
       allServersTried.push(server.id);
+      if (hedgeServer) {
+        allServersTried.push(hedgeServer.id);
+      }
       if (lastError) {
         failoverErrors.push({
           serverId: server.id,
@@ -1838,11 +2284,8 @@ export class AIOrchestrator {
         throw new Error('Request aborted');
       }
       const maxConcurrency = server.maxConcurrency ?? this.config.cooldown.defaultMaxConcurrency;
-      const canIncrement = this.inFlightManager.tryIncrementInFlight(
-        server.id,
-        model,
-        maxConcurrency
-      );
+      const canIncrement =
+        !holdsSlot || this.inFlightManager.tryIncrementInFlight(server.id, model, maxConcurrency);
 
       if (!canIncrement) {
         concurrencySkipCount++;
@@ -1864,7 +2307,10 @@ export class AIOrchestrator {
         isStreaming,
         errors,
         undefined,
-        true
+        true,
+        priority,
+        routingContext?.degradedFrom,
+        endpoint
       );
       const attemptLatency2 = Date.now() - attemptStart2;
 
@@ -1935,7 +2381,7 @@ export class AIOrchestrator {
       initialServer.maxConcurrency ?? this.config.cooldown.defaultMaxConcurrency;
     const totalLoad = this.getTotalInFlight(initialServer.id);
 
-    if (totalLoad < maxConcurrency) {
+    if (!holdsSlot || totalLoad < maxConcurrency) {
       const attemptStart3 = Date.now();
       const result = await this.tryRequestOnServerWithRetries(
         initialServer,
@@ -1943,7 +2389,11 @@ export class AIOrchestrator {
         fn,
         isStreaming,
         retryConfig,
-        errors
+        errors,
+        undefined,
+        priority,
+        routingContext?.degradedFrom,
+        endpoint
       );
       const attemptLatency3 = Date.now() - attemptStart3;
 
@@ -2016,9 +2466,11 @@ export class AIOrchestrator {
         `All ${candidates.length} candidate(s) failed after 2 full cycles and same-server retries. ` +
         `Errors: ${errors.map(e => `${e.server}: ${e.error.substring(0, 100)}`).join('; ')}`;
     } else if (concurrencySkipCount > 0) {
-      errorMessage =
+      throw new ConcurrencySaturatedError(
         `All ${candidates.length} server(s) for model '${model}' are at max concurrency` +
-        ` (${concurrencySkipCount} concurrency-blocked across all phases)`;
+          ` (${concurrencySkipCount} concurrency-blocked across all phases)`,
+        'busy'
+      );
     } else {
       errorMessage = `No servers available for model '${model}'`;
     }
@@ -2122,8 +2574,9 @@ export class AIOrchestrator {
 
       const errorMessage = error instanceof Error ? error.message : String(error);
 
-      // Record failure in circuit breaker (skip if bypassing)
-      if (!bypassCircuitBreaker) {
+      // Record failure in circuit breaker (skip if bypassing, or if the server answered
+      // with output that broke the requested schema)
+      if (!bypassCircuitBreaker && !(error instanceof StructuredOutputError)) {
         this.recordFailure(server.id, errorMessage, model);
       }
 
@@ -2134,12 +2587,22 @@ export class AIOrchestrator {
   private async tryRequestOnServerNoRetry<T>(
     server: AIServer,
     model: string,
-    fn: (server: AIServer, context?: { requestId?: string }) => Promise<T>,
+    fn: (
+      server: AIServer,
+      context?: { requestId?: string; model?: string; signal?: AbortSignal }
+    ) => Promise<T>,
     isStreaming: boolean,
     errors: Array<{ server: string; error: string; type?: ErrorType }>,
     _timeoutMs?: number,
-    alreadyIncremented: boolean = false
+    alreadyIncremented: boolean = false,
+    priority?: RequestPriority,
+    degradedFrom?: string,
+    endpoint: RequestContext['endpoint'] = 'generate'
   ): Promise<{ success: true; value: T } | { success: false }> {
+    if (endpoint === 'show') {
+      return this.tryMetadataRequestOnServer(server, model, fn, errors, priority);
+    }
+
     // Check circuit breaker state BEFORE attempting request
     const serverCb = this.getCircuitBreaker(server.id);
     const modelCb = this.getModelCircuitBreaker(server.id, model);
@@ -2271,8 +2734,10 @@ export class AIOrchestrator {
       startTime: Date.now(),
       serverId: server.id,
       model,
-      endpoint: 'generate',
+      endpoint,
       streaming: isStreaming,
+      priority,
+      degradedFrom,
       success: false,
     };
 
@@ -2287,7 +2752,7 @@ export class AIOrchestrator {
         // Pass requestId in context instead of mutating server
       }
 
-      const result = await fn(server, { requestId: requestContext.id });
+      const result = await fn(server, { requestId: requestContext.id, model });
       this.decrementInFlight(server.id, model);
 
       // Record successful request metrics
@@ -2361,14 +2826,24 @@ export class AIOrchestrator {
         }
       }
 
-      this.metricsAggregator.recordRequest(requestContext);
-      getRequestHistory().recordRequest(requestContext);
+      const streamError = this.getStreamError(result);
+      if (streamError) {
+        requestContext.success = false;
+        requestContext.error = streamError;
+      }
+
+      this.recordRequestMetrics(requestContext);
 
       // Remove streaming request tracking
       if (isStreaming) {
         this.inFlightManager.removeStreamingRequest(requestContext.id);
       }
 
+      if (streamError) {
+        this.recordBrokenStream(server.id, model, streamError, requestContext.duration);
+        return { success: true, value: result };
+      }
+
       // Reset failure count on success - server is working
       this.resetServerFailureCount(server.id);
       this.recordSuccess(server.id, model, requestContext.duration);
@@ -2408,6 +2883,12 @@ export class AIOrchestrator {
         this.inFlightManager.removeStreamingRequest(requestContext.id);
       }
 
+      // The other attempt of a hedged request answered first; nothing went wrong here
+      if (error instanceof HedgeCancelledError) {
+        logger.debug(`Cancelled hedged attempt on ${server.id} for model ${model}`);
+        return { success: false };
+      }
+
       const lastError = error instanceof Error ? error : new Error(String(error));
 
       // Record failed request metrics
@@ -2415,10 +2896,13 @@ export class AIOrchestrator {
       requestContext.duration = requestContext.endTime - requestContext.startTime;
       requestContext.success = false;
       requestContext.error = lastError;
-      this.metricsAggregator.recordRequest(requestContext);
-      getRequestHistory().recordRequest(requestContext);
+      this.recordRequestMetrics(requestContext);
 
       const errorMessage = lastError.message;
+      if (lastError instanceof StructuredOutputError) {
+        this.recordStructuredOutputFailure(server, model, errorMessage, errors);
+        return { success: false };
+      }
       const errorType = classifyError(errorMessage).type;
 
       logger.warn(`Request failed on ${server.id} for model ${model}`, {
@@ -2432,15 +2916,143 @@ export class AIOrchestrator {
     }
   }
 
+  /**
+   * Phase 1 attempt that may be hedged: if the primary has not answered by its p95 latency
+   * for the model, a duplicate goes to the next candidate with a free slot, budget permitting.
+   * The first success wins and the other attempt is cancelled through its AbortSignal.
+   * The primary's in-flight slot must already be reserved; the hedge reserves its own.
+   */
+  private async tryRequestHedged<T>(
+    primary: AIServer,
+    hedgeCandidates: AIServer[],
+    model: string,
+    fn: (
+      server: AIServer,
+      context?: { requestId?: string; model?: string; signal?: AbortSignal }
+    ) => Promise<T>,
+    errors: Array<{ server: string; error: string; type?: ErrorType }>,
+    priority: RequestPriority | undefined,
+    routingContext: RoutingContext
+  ): Promise<{
+    result: { success: true; value: T } | { success: false };
+    servedBy: AIServer;
+    hedgeServer?: AIServer;
+  }> {
+    const attempt = (server: AIServer, abort: AbortController) =>
+      this.tryRequestOnServerNoRetry(
+        server,
+        model,
+        async (s, context) => {
+          try {
+            return await fn(s, { ...context, signal: abort.signal });
+          } catch (error) {
+            throw abort.signal.aborted ? new HedgeCancelledError() : error;
+          }
+        },
+        false,
+        errors,
+        undefined,
+        true,
+        priority,
+        routingContext.degradedFrom
+      );
+
+    this.hedging.recordEligible();
+    const metrics = this.metricsAggregator.getMetricsWithFallback(primary.id, model);
+    const delay = this.hedging.getHedgeDelay(
+      metrics?.percentiles.p95,
+      metrics?.recentLatencies.length ?? 0
+    );
+
+    const primaryAbort = new AbortController();
+    const primaryAttempt = attempt(primary, primaryAbort);
+    if (delay === undefined) {
+      return { result: await primaryAttempt, servedBy: primary };
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const hedgeDue = await Promise.race([
+      primaryAttempt.then(() => false),
+      new Promise<boolean>(resolve => {
+        timer = setTimeout(() => resolve(true), delay);
+      }),
+    ]);
+    clearTimeout(timer);
+
+    const hedgeServer = hedgeDue ? this.reserveHedgeServer(hedgeCandidates, model) : undefined;
+    if (!hedgeServer) {
+      return { result: await primaryAttempt, servedBy: primary };
+    }
+
+    logger.info(`Hedging request for ${model} on ${hedgeServer.id}`, {
+      primary: primary.id,
+      delayMs: delay,
+    });
+    const hedgeAbort = new AbortController();
+    const hedgeAttempt = attempt(hedgeServer, hedgeAbort);
+
+    let winner = await Promise.race([
+      primaryAttempt.then(result => ({ result, servedBy: primary })),
+      hedgeAttempt.then(result => ({ result, servedBy: hedgeServer })),
+    ]);
+    if (!winner.result.success) {
+      // The first attempt to settle failed, so the other one decides
+      winner =
+        winner.servedBy === primary
+          ? { result: await hedgeAttempt, servedBy: hedgeServer }
+          : { result: await primaryAttempt, servedBy: primary };
+    }
+    // Cancel the attempt still running; it releases its in-flight slot when it settles
+    (winner.servedBy === primary ? hedgeAbort : primaryAbort).abort();
+
+    const outcome: HedgeOutcome = !winner.result.success
+      ? 'both_failed'
+      : winner.servedBy === primary
+        ? 'primary_won'
+        : 'hedge_won';
+    this.hedging.recordOutcome(outcome);
+    routingContext.hedged = outcome;
+
+    return { ...winner, hedgeServer };
+  }
+
+  /**
+   * Reserve an in-flight slot for a hedge on the first candidate with capacity, if the
+   * hedge budget allows another hedge
+   */
+  private reserveHedgeServer(candidates: AIServer[], model: string): AIServer | undefined {
+    const hedgeServer = candidates.find(candidate =>
+      this.inFlightManager.tryIncrementInFlight(
+        candidate.id,
+        model,
+        candidate.maxConcurrency ?? this.config.cooldown.defaultMaxConcurrency
+      )
+    );
+    if (hedgeServer && !this.hedging.tryAcquire()) {
+      this.decrementInFlight(hedgeServer.id, model);
+      return undefined;
+    }
+    return hedgeServer;
+  }
+
   private async tryRequestOnServerWithRetries<T>(
     server: AIServer,
     model: string,
-    fn: (server: AIServer, context?: { requestId?: string }) => Promise<T>,
+    fn: (
+      server: AIServer,
+      context?: { requestId?: string; model?: string; signal?: AbortSignal }
+    ) => Promise<T>,
     isStreaming: boolean,
     retryConfig: RetryConfig,
     errors: Array<{ server: string; error: string; type?: ErrorType }>,
-    _timeoutMs?: number
+    _timeoutMs?: number,
+    priority?: RequestPriority,
+    degradedFrom?: string,
+    endpoint: RequestContext['endpoint'] = 'generate'
   ): Promise<{ success: true; value: T } | { success: false }> {
+    if (endpoint === 'show') {
+      return this.tryMetadataRequestOnServer(server, model, fn, errors, priority);
+    }
     let lastError: Error | undefined;
     let retryCount = 0;
 
@@ -2463,8 +3075,10 @@ export class AIOrchestrator {
         startTime: Date.now(),
         serverId: server.id,
         model,
-        endpoint: 'generate',
+        endpoint,
         streaming: isStreaming,
+        priority,
+        degradedFrom,
         success: false,
       };
 
@@ -2483,7 +3097,7 @@ export class AIOrchestrator {
           );
         }
 
-        const result = await fn(server, { requestId: requestContext.id });
+        const result = await fn(server, { requestId: requestContext.id, model });
         this.decrementInFlight(server.id, model);
 
         // Record successful request metrics
@@ -2568,14 +3182,24 @@ export class AIOrchestrator {
           }
         }
 
-        this.metricsAggregator.recordRequest(requestContext);
-        getRequestHistory().recordRequest(requestContext);
+        const streamError = this.getStreamError(result);
+        if (streamError) {
+          requestContext.success = false;
+          requestContext.error = streamError;
+        }
+
+        this.recordRequestMetrics(requestContext);
 
         // Remove streaming request tracking
         if (isStreaming) {
           this.inFlightManager.removeStreamingRequest(requestContext.id);
         }
 
+        if (streamError) {
+          this.recordBrokenStream(server.id, model, streamError, requestContext.duration);
+          return { success: true, value: result };
+        }
+
         // Reset failure count on success - server is working
         this.resetServerFailureCount(server.id);
         this.recordSuccess(server.id, model, requestContext.duration);
@@ -2609,10 +3233,13 @@ export class AIOrchestrator {
         requestContext.duration = requestContext.endTime - requestContext.startTime;
         requestContext.success = false;
         requestContext.error = lastError;
-        this.metricsAggregator.recordRequest(requestContext);
-        getRequestHistory().recordRequest(requestContext);
+        this.recordRequestMetrics(requestContext);
 
         const errorMessage = lastError.message;
+        if (lastError instanceof StructuredOutputError) {
+          this.recordStructuredOutputFailure(server, model, errorMessage, errors);
+          return { success: false };
+        }
         const errorType = classifyError(errorMessage).type;
 
         logger.warn(`Request failed on ${server.id} for model ${model}`, {
@@ -2670,6 +3297,63 @@ export class AIOrchestrator {
     return { success: false };
   }
 
+  /**
+   * Send a model metadata lookup (/api/show) to a server. It takes no concurrency slot and
+   * only reads circuit breaker state: its outcome says nothing about inference on the server,
+   * so it feeds neither the breakers, cooldowns and bans nor the timeouts and latency metrics.
+   */
+  private async tryMetadataRequestOnServer<T>(
+    server: AIServer,
+    model: string,
+    fn: (
+      server: AIServer,
+      context?: { requestId?: string; model?: string; signal?: AbortSignal }
+    ) => Promise<T>,
+    errors: Array<{ server: string; error: string; type?: ErrorType }>,
+    priority?: RequestPriority
+  ): Promise<{ success: true; value: T } | { success: false }> {
+    if (
+      this.getCircuitBreaker(server.id).getState() === 'open' ||
+      this.getModelCircuitBreaker(server.id, model).getState() === 'open'
+    ) {
+      const errorMsg = `Circuit breaker open for ${server.id}:${model}`;
+      logger.debug(errorMsg);
+      errors.push({ server: server.id, error: errorMsg, type: 'transient' });
+      return { success: false };
+    }
+
+    const requestContext: RequestContext = {
+      id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      startTime: Date.now(),
+      serverId: server.id,
+      model,
+      endpoint: 'show',
+      streaming: false,
+      priority,
+      success: false,
+    };
+
+    try {
+      const result = await fn(server, { requestId: requestContext.id, model });
+      requestContext.success = true;
+      return { success: true, value: result };
+    } catch (error) {
+      const lastError = error instanceof Error ? error : new Error(String(error));
+      requestContext.error = lastError;
+      const errorType = classifyError(lastError.message).type;
+      logger.warn(`Model info lookup failed on ${server.id} for model ${model}`, {
+        error: lastError.message,
+        errorType,
+      });
+      errors.push({ server: server.id, error: lastError.message, type: errorType });
+      return { success: false };
+    } finally {
+      requestContext.endTime = Date.now();
+      requestContext.duration = requestContext.endTime - requestContext.startTime;
+      this.recordRequestMetrics(requestContext);
+    }
+  }
+
   /**
    * Check if an error should trigger a retry on the same server
    */
@@ -2694,6 +3378,22 @@ export class AIOrchestrator {
     return transientPatterns.some(pattern => pattern.test(errorMessage));
   }
 
+  /**
+   * Record a response that broke the client's strict JSON schema. The server itself worked,
+   * so it is neither banned nor cooled down; the request just moves on to the next server.
+   */
+  private recordStructuredOutputFailure(
+    server: AIServer,
+    model: string,
+    errorMessage: string,
+    errors: Array<{ server: string; error: string; type?: ErrorType }>
+  ): void {
+    logger.warn(`Structured output from ${server.id} for model ${model} failed validation`, {
+      error: errorMessage,
+    });
+    errors.push({ server: server.id, error: errorMessage, type: 'non-retryable' });
+  }
+
   /**
    * Handle a server error and update state appropriately
    */
@@ -2868,6 +3568,18 @@ export class AIOrchestrator {
   decrementInFlight(serverId: string, model: string, bypass: boolean = false): void {
     this.inFlightManager.decrementInFlight(serverId, model, bypass);
     this.metricsAggregator.decrementInFlight(serverId, model);
+
+    // A slot freed up on this server - wake the highest-priority queued request it can serve
+    if (this.requestQueue.size() > 0) {
+      const server = this.servers.find(s => s.id === serverId);
+      if (server) {
+        this.requestQueue.release(
+          queuedModel =>
+            this.resolveModelName(queuedModel, server.models) !== null ||
+            this.resolveModelName(queuedModel, server.v1Models ?? []) !== null
+        );
+      }
+    }
   }
 
   /**
@@ -2877,6 +3589,45 @@ export class AIOrchestrator {
     return this.inFlightManager.getInFlight(serverId, model);
   }
 
+  /**
+   * The error a handler reports through `_streamError` when its stream broke off after
+   * reaching the client: the attempt failed, but its (partial) answer stands
+   */
+  private getStreamError(result: unknown): Error | undefined {
+    if (result && typeof result === 'object' && '_streamError' in result) {
+      return new Error(String((result as { _streamError: unknown })._streamError));
+    }
+    return undefined;
+  }
+
+  /**
+   * Count a stream that broke off against its server. The attempt is not failed over: the
+   * client already has part of the answer, which a second server would repeat.
+   */
+  private recordBrokenStream(
+    serverId: string,
+    model: string,
+    streamError: Error,
+    duration: number | undefined
+  ): void {
+    this.recordFailure(serverId, streamError, model);
+    logger.warn(`Stream broke off on ${serverId} for model ${model}`, {
+      error: streamError.message,
+      duration,
+    });
+  }
+
+  /**
+   * Record a finished attempt in request history and, unless it only fetched model
+   * metadata, in the latency and throughput metrics
+   */
+  private recordRequestMetrics(requestContext: RequestContext): void {
+    if (requestContext.endpoint !== 'show') {
+      this.metricsAggregator.recordRequest(requestContext);
+    }
+    getRequestHistory().recordRequest(requestContext);
+  }
+
   /**
    * Record success for circuit breaker (both server and model level)
    * If responseTime is provided and success occurred during active test (half-open state),
@@ -3215,6 +3966,13 @@ export class AIOrchestrator {
     return this.timeoutManager.getTimeout(serverId, model);
   }
 
+  /**
+   * Expected time to load a model into VRAM, used to penalize servers where it is not resident
+   */
+  private getEstimatedLoadTime(model: string): number {
+    return getModelManager().getEstimatedLoadTime(model);
+  }
+
   /**
    * Set timeout for a server:model pair
    */
@@ -3760,7 +4518,7 @@ export class AIOrchestrator {
   private shouldSkipServerModel(
     serverId: string,
     model: string,
-    endpoint?: 'generate' | 'embeddings'
+    endpoint?: 'generate' | 'embeddings' | 'show'
   ): boolean {
     // Check both server-level and model-level circuit breakers
     const serverCb = this.getCircuitBreaker(serverId);
@@ -3954,6 +4712,7 @@ export class AIOrchestrator {
     totalModels: number;
     inFlightRequests: number;
     circuitBreakers: Record<string, { state: string; failureCount: number }>;
+    queue: QueueStats;
   } {
     const healthyServers = this.servers.filter(s => s.healthy).length;
 
@@ -3980,9 +4739,97 @@ export class AIOrchestrator {
       totalModels: this.getAllModels().length,
       inFlightRequests: inFlightTotal,
       circuitBreakers,
+      queue: this.getQueueStats(),
     };
   }
 
+  /**
+   * Move the conversation's bound server to the front of the candidate list.
+   * Yields to normal ordering when that server is gone, unhealthy, saturated or circuit-open.
+   */
+  private applySessionAffinity(
+    candidates: AIServer[],
+    model: string,
+    endpoint: 'generate' | 'embeddings' | 'show',
+    routingContext: RoutingContext
+  ): AIServer[] {
+    const boundServerId = this.sessionAffinity.lookup(routingContext.affinityKey!);
+    if (!boundServerId) {
+      routingContext.affinity = 'miss';
+      this.sessionAffinity.recordOutcome('miss');
+      return candidates;
+    }
+
+    const bound = candidates.find(s => s.id === boundServerId);
+    const circuitOpen =
+      this.servers.some(s => s.id === boundServerId) &&
+      (this.getCircuitBreakerHealth(boundServerId)?.state === 'open' ||
+        this.shouldSkipServerModel(boundServerId, model, endpoint));
+
+    let yieldReason: 'unavailable' | 'saturated' | 'circuit_open' | undefined;
+    if (circuitOpen) {
+      yieldReason = 'circuit_open';
+    } else if (!bound) {
+      yieldReason = 'unavailable';
+    } else if (
+      this.getTotalInFlight(bound.id) >=
+      (bound.maxConcurrency ?? this.config.cooldown.defaultMaxConcurrency)
+    ) {
+      yieldReason = 'saturated';
+    }
+
+    if (yieldReason || !bound) {
+      logger.debug(`Session affinity yielded for model ${model}`, {
+        boundServerId,
+        reason: yieldReason,
+      });
+      routingContext.affinity = 'yield';
+      this.sessionAffinity.recordOutcome('yield', yieldReason);
+      return candidates;
+    }
+
+    routingContext.affinity = 'hit';
+    this.sessionAffinity.recordOutcome('hit');
+    return [bound, ...candidates.filter(s => s.id !== bound.id)];
+  }
+
+  /**
+   * Get session affinity hit/miss counters
+   */
+  getAffinityStats(): AffinityStats {
+    return this.sessionAffinity.getStats();
+  }
+
+  /**
+   * Get hedged request counts and win rates
+   */
+  getHedgingStats(): HedgingStats {
+    return this.hedging.getStats();
+  }
+
+  /**
+   * Get admission queue depth and counters
+   */
+  getQueueStats(): QueueStats {
+    return this.requestQueue.getStats(this.config.enableQueue);
+  }
+
+  /**
+   * Get requests in flight and total max concurrency over healthy servers
+   */
+  getCapacityUsage(): CapacityUsage {
+    let inFlight = 0;
+    let capacity = 0;
+    for (const server of this.servers) {
+      if (!server.healthy) {
+        continue;
+      }
+      inFlight += this.getTotalInFlight(server.id);
+      capacity += server.maxConcurrency ?? this.config.cooldown.defaultMaxConcurrency;
+    }
+    return { inFlight, capacity };
+  }
+
   /**
    * Get detailed metrics for a specific server:model
    */
@@ -4084,10 +4931,17 @@ export class AIOrchestrator {
   async shutdown(): Promise<void> {
     logger.info('Shutting down orchestrator...');
 
+    // Stop reacting to config changes
+    this.unsubscribeFromConfig?.();
+    this.unsubscribeFromLoadBalancerConfig?.();
+
     // Stop health check scheduler
     this.healthCheckScheduler.stop();
     this.activeTestScheduler.stop();
 
+    // Fail any requests still waiting for capacity
+    this.requestQueue.clear('Orchestrator shutting down');
+
     // Clear escalation check interval
     if (this.escalationIntervalId) {
       clearInterval(this.escalationIntervalId);
@@ -26,6 +26,8 @@ export interface AIServer {
   v1Models?: string[];
   // NEW: Optional API key for authentication
   apiKey?: string;
+  // Free-form labels (e.g. gpu=a100, region=eu) used for label-based routing constraints
+  labels?: Record<string, string>;
   // Operational state
   draining?: boolean;
   maintenance?: boolean;
@@ -166,6 +168,11 @@ export interface ServerModelMetrics {
   recentLatencies: number[];
 }
 
+/**
+ * Request priority class (set via X-Orchestrator-Priority or per-API-key defaults)
+ */
+export type RequestPriority = 'high' | 'normal' | 'low';
+
 /**
  * Request context for tracking
  */
@@ -174,8 +181,11 @@ export interface RequestContext {
   startTime: number;
   serverId?: string;
   model: string;
-  endpoint: 'generate' | 'chat' | 'embeddings';
+  endpoint: 'generate' | 'chat' | 'embeddings' | 'show';
   streaming: boolean;
+  priority?: RequestPriority;
+  degradedFrom?: string; // Requested model when a fallback model answered instead
+  cacheHit?: boolean; // Served from the response cache without contacting a server
   firstTokenTime?: number;
   endTime?: number;
   duration?: number;
@@ -201,6 +211,14 @@ export interface RequestContext {
   isColdStart?: boolean; // true when load_duration > cold-start threshold
 }
 
+/**
+ * Requests in flight across healthy servers against the sum of their max concurrency
+ */
+export interface CapacityUsage {
+  inFlight: number;
+  capacity: number;
+}
+
 /**
  * Global metrics summary
  */
@@ -0,0 +1,500 @@
+/**
+ * pull-manager.ts
+ * Fleet-wide model pulls: downloads a model onto a set of servers as a background job with
+ * per-server byte progress, and keeps job state under `persistencePath` so unfinished pulls
+ * resume after a restart (Ollama picks up partially downloaded layers)
+ */
+
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+import { getConfigManager, DEFAULT_CONFIG, type PullsConfig } from './config/config.js';
+import { JsonFileHandler } from './config/jsonFileHandler.js';
+import { getOrchestratorInstance } from './orchestrator-instance.js';
+import type { AIServer } from './orchestrator.types.js';
+import { createActivityTimeoutController } from './utils/fetchWithTimeout.js';
+import { safeJsonStringify } from './utils/json-utils.js';
+import { logger } from './utils/logger.js';
+import { parseOllamaErrorGlobal as parseOllamaError } from './utils/ollamaError.js';
+import { getBackendHeaders } from './utils/protocol-translation.js';
+import { readStreamEvents } from './utils/stream-events.js';
+
+/** Minimum interval between progress notifications and writes while a job runs */
+const PROGRESS_INTERVAL_MS = 250;
+
+export type PullJobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type ServerPullStatus = 'pending' | 'pulling' | 'completed' | 'failed' | 'cancelled';
+
+export interface ServerPullProgress {
+  serverId: string;
+  status: ServerPullStatus;
+  /** Latest status line from the server, e.g. "pulling manifest" */
+  message?: string;
+  /** Bytes downloaded and expected, summed over the model's layers */
+  completed: number;
+  total: number;
+  error?: string;
+}
+
+export interface PullJob {
+  id: string;
+  model: string;
+  status: PullJobStatus;
+  createdAt: number;
+  finishedAt?: number;
+  /** Bytes downloaded and expected, summed over every server */
+  completed: number;
+  total: number;
+  servers: ServerPullProgress[];
+}
+
+/** One line of an Ollama /api/pull, /api/create or /api/push progress stream */
+export interface OllamaPullEvent {
+  status?: string;
+  digest?: string;
+  total?: number;
+  completed?: number;
+  error?: string;
+}
+
+/**
+ * Pulls `model` onto one server, reporting each progress event. Resolves once the server
+ * reports success and rejects on an error or when `signal` aborts.
+ */
+export type PullExecutor = (
+  server: AIServer,
+  model: string,
+  signal: AbortSignal,
+  onProgress: (event: OllamaPullEvent) => void
+) => Promise<void>;
+
+export type PullJobListener = (job: PullJob) => void;
+
+export interface PullManagerOptions {
+  dir: string;
+  execute?: PullExecutor;
+  getServers?: () => AIServer[];
+  /** Refreshes a server's model list once its pull finishes */
+  refreshServer?: (server: AIServer) => Promise<void>;
+  getConfig?: () => PullsConfig;
+}
+
+/**
+ * POST `body` to one of a server's streaming model endpoints (/api/pull, /api/create,
+ * /api/push), reporting each progress event. Resolves once the server reports success and
+ * rejects on an error event, an early end of the stream, `signal` aborting, or
+ * `activityTimeoutMs` without any progress, however long the operation takes overall.
+ */
+export async function streamModelOperation(
+  server: AIServer,
+  endpoint: string,
+  body: Record<string, unknown>,
+  signal: AbortSignal,
+  activityTimeoutMs: number,
+  onProgress: (event: OllamaPullEvent) => void
+): Promise<void> {
+  const url = `${server.url}${endpoint}`;
+  const activity = createActivityTimeoutController(activityTimeoutMs, url);
+  const onAbort = (): void => activity.controller.abort();
+  signal.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: getBackendHeaders(server),
+      body: safeJsonStringify({ ...body, stream: true }),
+      signal: activity.controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(await parseOllamaError(response));
+    }
+
+    let succeeded = false;
+    for await (const event of readStreamEvents(response, 'ndjson')) {
+      activity.resetTimeout();
+      const progress = event as OllamaPullEvent;
+      if (typeof progress.error === 'string') {
+        throw new Error(progress.error);
+      }
+      onProgress(progress);
+      succeeded ||= progress.status === 'success';
+    }
+    if (!succeeded) {
+      throw new Error('Stream ended before the server reported success');
+    }
+  } catch (error) {
+    if (signal.aborted) {
+      throw new Error('Cancelled');
+    }
+    if (activity.controller.signal.aborted) {
+      throw new Error(`No progress for ${activityTimeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    activity.clearTimeout();
+    signal.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Pull a model onto one server through its streaming /api/pull
+ */
+export function createPullExecutor(getActivityTimeoutMs: () => number): PullExecutor {
+  return (server, model, signal, onProgress) =>
+    streamModelOperation(
+      server,
+      '/api/pull',
+      { name: model },
+      signal,
+      getActivityTimeoutMs(),
+      onProgress
+    );
+}
+
+function isFinished(job: PullJob): boolean {
+  return job.status !== 'running';
+}
+
+function copyJob(job: PullJob): PullJob {
+  return { ...job, servers: job.servers.map(server => ({ ...server })) };
+}
+
+export class PullManager {
+  private dir: string;
+  private execute: PullExecutor;
+  private getServers: () => AIServer[];
+  private refreshServer: (server: AIServer) => Promise<void>;
+  private getConfig: () => PullsConfig;
+  private jobs = new Map<string, PullJob>();
+  private controllers = new Map<string, AbortController>();
+  private running = new Map<string, Promise<void>>();
+  private listeners = new Map<string, Set<PullJobListener>>();
+  private lastProgressAt = new Map<string, number>();
+  private stopped = false;
+
+  constructor(options: PullManagerOptions) {
+    this.dir = options.dir;
+    this.getConfig =
+      options.getConfig ??
+      ((): PullsConfig => getConfigManager().getConfig().pulls ?? DEFAULT_CONFIG.pulls);
+    this.execute = options.execute ?? createPullExecutor(() => this.getConfig().activityTimeoutMs);
+    this.getServers =
+      options.getServers ?? ((): AIServer[] => getOrchestratorInstance().getServers());
+    this.refreshServer =
+      options.refreshServer ??
+      ((server: AIServer): Promise<void> => getOrchestratorInstance().updateServerStatus(server));
+    fs.mkdirSync(this.dir, { recursive: true });
+  }
+
+  private statePath(id: string): string {
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  private persist(job: PullJob): void {
+    new JsonFileHandler(this.statePath(job.id), { createBackups: false }).write(job);
+  }
+
+  /**
+   * Load persisted jobs and resume the unfinished ones
+   */
+  start(): void {
+    this.stopped = false;
+    for (const entry of fs.readdirSync(this.dir)) {
+      if (!/^pull_[a-f0-9]+\.json$/.test(entry)) {
+        continue;
+      }
+      const job = new JsonFileHandler(path.join(this.dir, entry)).read<PullJob>();
+      if (!job?.id || this.jobs.has(job.id)) {
+        continue;
+      }
+      this.jobs.set(job.id, job);
+      if (!isFinished(job)) {
+        logger.info('Resuming model pull', { jobId: job.id, model: job.model });
+        this.run(job);
+      }
+    }
+  }
+
+  /**
+   * Stop pulling and wait for the jobs to settle. Unfinished jobs stay on disk and resume on
+   * the next start().
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    for (const controller of this.controllers.values()) {
+      controller.abort();
+    }
+    await Promise.all(this.running.values());
+  }
+
+  /**
+   * Start pulling `model` onto `servers`. An unfinished job for the same model and servers is
+   * returned instead of starting a second one.
+   */
+  create(model: string, servers: AIServer[]): PullJob {
+    const serverIds = servers.map(server => server.id).sort();
+    const existing = [...this.jobs.values()].find(
+      job =>
+        !isFinished(job) &&
+        job.model === model &&
+        job.servers
+          .map(server => server.serverId)
+          .sort()
+          .join('\n') === serverIds.join('\n')
+    );
+    if (existing) {
+      return copyJob(existing);
+    }
+
+    const job: PullJob = {
+      id: `pull_${randomUUID().replace(/-/g, '')}`,
+      model,
+      status: 'running',
+      createdAt: Date.now(),
+      completed: 0,
+      total: 0,
+      servers: serverIds.map(serverId => ({ serverId, status: 'pending', completed: 0, total: 0 })),
+    };
+    this.jobs.set(job.id, job);
+    this.persist(job);
+    this.prune();
+    logger.info('Model pull started', { jobId: job.id, model, servers: serverIds });
+    this.run(job);
+    return copyJob(job);
+  }
+
+  get(id: string): PullJob | undefined {
+    const job = this.jobs.get(id);
+    return job ? copyJob(job) : undefined;
+  }
+
+  /**
+   * Jobs newest first
+   */
+  list(): PullJob[] {
+    return [...this.jobs.values()].sort((a, b) => b.createdAt - a.createdAt).map(copyJob);
+  }
+
+  /**
+   * Cancel a job: pulls in progress are aborted and pending ones skipped. Returns undefined
+   * for an unknown job.
+   */
+  cancel(id: string): PullJob | undefined {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return undefined;
+    }
+    if (!isFinished(job)) {
+      job.status = 'cancelled';
+      this.controllers.get(id)?.abort();
+    }
+    return this.get(id);
+  }
+
+  /**
+   * Follow a job's progress. The listener gets a copy of the job on every update, the last
+   * one once the job has finished. Returns a function that stops listening.
+   */
+  subscribe(id: string, listener: PullJobListener): () => void {
+    let listeners = this.listeners.get(id);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(id, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Tell listeners about an update. Byte progress is throttled; status changes and the end of
+   * a job are always sent.
+   */
+  private notify(job: PullJob, force: boolean): void {
+    const now = Date.now();
+    if (!force && now - (this.lastProgressAt.get(job.id) ?? 0) < PROGRESS_INTERVAL_MS) {
+      return;
+    }
+    this.lastProgressAt.set(job.id, now);
+    this.persist(job);
+    for (const listener of this.listeners.get(job.id) ?? []) {
+      listener(copyJob(job));
+    }
+  }
+
+  private run(job: PullJob): void {
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    const running = this.runJob(job, controller.signal)
+      .catch(error => {
+        logger.error('Model pull job failed', { jobId: job.id, error });
+      })
+      .finally(() => {
+        this.controllers.delete(job.id);
+        this.running.delete(job.id);
+      });
+    this.running.set(job.id, running);
+  }
+
+  private async runJob(job: PullJob, signal: AbortSignal): Promise<void> {
+    // A restart interrupted these; Ollama resumes their downloads
+    const queue = job.servers.filter(
+      progress => progress.status === 'pending' || progress.status === 'pulling'
+    );
+    queue.forEach(progress => (progress.status = 'pending'));
+
+    const worker = async (): Promise<void> => {
+      for (let progress = queue.shift(); progress; progress = queue.shift()) {
+        if (signal.aborted) {
+          return;
+        }
+        await this.pullToServer(job, progress, signal);
+      }
+    };
+    const workers = Math.max(1, Math.min(this.getConfig().concurrency, queue.length));
+    await Promise.all(Array.from({ length: workers }, () => worker()));
+
+    if (this.stopped && job.status === 'running') {
+      this.persist(job);
+      return;
+    }
+    this.finish(job);
+  }
+
+  private async pullToServer(
+    job: PullJob,
+    progress: ServerPullProgress,
+    signal: AbortSignal
+  ): Promise<void> {
+    const server = this.getServers().find(candidate => candidate.id === progress.serverId);
+    if (!server) {
+      this.settleServer(job, progress, 'failed', `Server '${progress.serverId}' no longer exists`);
+      return;
+    }
+
+    // Byte counts per layer digest, as Ollama reports each layer separately
+    const layers = new Map<string, { completed: number; total: number }>();
+    progress.status = 'pulling';
+    progress.error = undefined;
+    this.notify(job, true);
+
+    try {
+      await this.execute(server, job.model, signal, event => {
+        if (event.status) {
+          progress.message = event.status;
+        }
+        if (event.digest && typeof event.total === 'number') {
+          layers.set(event.digest, { completed: event.completed ?? 0, total: event.total });
+          progress.completed = 0;
+          progress.total = 0;
+          for (const layer of layers.values()) {
+            progress.completed += layer.completed;
+            progress.total += layer.total;
+          }
+          this.updateTotals(job);
+        }
+        this.notify(job, false);
+      });
+    } catch (error) {
+      if (!signal.aborted) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn('Model pull failed on server', {
+          jobId: job.id,
+          serverId: server.id,
+          error: message,
+        });
+        this.settleServer(job, progress, 'failed', message);
+        return;
+      }
+      // Stopping leaves the server pending so the pull resumes on the next start
+      if (job.status === 'cancelled') {
+        this.settleServer(job, progress, 'cancelled');
+      }
+      return;
+    }
+
+    progress.completed = progress.total;
+    this.updateTotals(job);
+    try {
+      await this.refreshServer(server);
+    } catch (error) {
+      logger.warn('Could not refresh server after model pull', { serverId: server.id, error });
+    }
+    this.settleServer(job, progress, 'completed');
+  }
+
+  private settleServer(
+    job: PullJob,
+    progress: ServerPullProgress,
+    status: ServerPullStatus,
+    error?: string
+  ): void {
+    progress.status = status;
+    if (error !== undefined) {
+      progress.error = error;
+    }
+    this.notify(job, true);
+  }
+
+  private updateTotals(job: PullJob): void {
+    job.completed = job.servers.reduce((sum, server) => sum + server.completed, 0);
+    job.total = job.servers.reduce((sum, server) => sum + server.total, 0);
+  }
+
+  private finish(job: PullJob): void {
+    if (job.status === 'cancelled') {
+      for (const progress of job.servers) {
+        if (progress.status === 'pending' || progress.status === 'pulling') {
+          progress.status = 'cancelled';
+        }
+      }
+    } else {
+      job.status = job.servers.every(progress => progress.status === 'completed')
+        ? 'completed'
+        : 'failed';
+    }
+    job.finishedAt = Date.now();
+    this.notify(job, true);
+    this.listeners.delete(job.id);
+    this.lastProgressAt.delete(job.id);
+    logger.info('Model pull finished', { jobId: job.id, model: job.model, status: job.status });
+  }
+
+  /**
+   * Drop the oldest finished jobs beyond `maxStoredJobs`
+   */
+  private prune(): void {
+    const finished = [...this.jobs.values()]
+      .filter(isFinished)
+      .sort((a, b) => a.createdAt - b.createdAt);
+    for (const job of finished.slice(
+      0,
+      Math.max(0, finished.length - this.getConfig().maxStoredJobs)
+    )) {
+      this.jobs.delete(job.id);
+      fs.rmSync(this.statePath(job.id), { force: true });
+    }
+  }
+}
+
+let managerInstance: PullManager | undefined;
+
+export function getPullManager(): PullManager {
+  if (!managerInstance) {
+    managerInstance = new PullManager({
+      dir: path.join(getConfigManager().getConfig().persistencePath, 'pulls'),
+    });
+  }
+  return managerInstance;
+}
+
+export function setPullManager(manager: PullManager): void {
+  managerInstance = manager;
+}
+
+export function resetPullManager(): void {
+  managerInstance = undefined;
+}
@@ -6,10 +6,13 @@
 import path from 'path';
 
 import { JsonFileHandler } from './config/jsonFileHandler.js';
-import type { RequestContext } from './orchestrator.types.js';
+import type { RequestContext, RequestPriority } from './orchestrator.types.js';
 import { logger } from './utils/logger.js';
 import { Statistics } from './utils/statistics.js';
 
+/** Pseudo server ID under which response cache hits are recorded */
+export const RESPONSE_CACHE_SERVER_ID = 'response-cache';
+
 /**
  * Extended request record with additional metadata
  */
@@ -20,6 +23,9 @@ export interface RequestRecord {
   model: string;
   endpoint: string;
   streaming: boolean;
+  priority?: RequestPriority;
+  degradedFrom?: string; // Requested model when a fallback model answered instead
+  cacheHit?: boolean; // Served from the response cache; recorded under RESPONSE_CACHE_SERVER_ID
   duration: number;
   success: boolean;
   tokensGenerated?: number;
@@ -70,6 +76,17 @@ export interface RequestStats {
   >;
 }
 
+/**
+ * Latency and error statistics for one priority class
+ */
+export interface PriorityClassStats {
+  count: number;
+  avgDuration: number;
+  p50Latency: number;
+  p95Latency: number;
+  errorRate: number;
+}
+
 /**
  * Configuration for request history tracking
  */
@@ -128,6 +145,9 @@ export class RequestHistory {
       model: context.model,
       endpoint: context.endpoint,
       streaming: context.streaming,
+      priority: context.priority,
+      degradedFrom: context.degradedFrom,
+      cacheHit: context.cacheHit,
       duration: context.duration ?? 0,
       success: context.success,
       tokensGenerated: context.tokensGenerated,
@@ -362,7 +382,9 @@ export class RequestHistory {
     serverId?: string;
     model?: string;
     endpoint?: string;
+    priority?: RequestPriority;
     success?: boolean;
+    cacheHit?: boolean;
     startTime?: number;
     endTime?: number;
     limit?: number;
@@ -384,9 +406,15 @@ export class RequestHistory {
     if (params.endpoint) {
       results = results.filter(r => r.endpoint === params.endpoint);
     }
+    if (params.priority) {
+      results = results.filter(r => (r.priority ?? 'normal') === params.priority);
+    }
     if (params.success !== undefined) {
       results = results.filter(r => r.success === params.success);
     }
+    if (params.cacheHit !== undefined) {
+      results = results.filter(r => (r.cacheHit ?? false) === params.cacheHit);
+    }
     if (params.startTime !== undefined) {
       results = results.filter(r => r.timestamp >= params.startTime!);
     }
@@ -401,6 +429,51 @@ export class RequestHistory {
     return results.slice(0, limit);
   }
 
+  /**
+   * Get latency and error statistics per priority class across all servers.
+   * Requests recorded without a priority count as normal.
+   */
+  getPriorityStats(hours = 24): Record<RequestPriority, PriorityClassStats> {
+    const cutoff = Date.now() - hours * 60 * 60 * 1000;
+    const durations: Record<RequestPriority, number[]> = { high: [], normal: [], low: [] };
+    const errors: Record<RequestPriority, number> = { high: 0, normal: 0, low: 0 };
+
+    for (const serverRequests of this.requests.values()) {
+      for (const req of serverRequests) {
+        if (req.timestamp < cutoff) {
+          continue;
+        }
+        const priority = req.priority ?? 'normal';
+        durations[priority].push(req.duration);
+        if (!req.success) {
+          errors[priority]++;
+        }
+      }
+    }
+
+    const toStats = (priority: RequestPriority): PriorityClassStats => {
+      const sorted = [...durations[priority]].sort((a, b) => a - b);
+      const count = sorted.length;
+      if (count === 0) {
+        return { count: 0, avgDuration: 0, p50Latency: 0, p95Latency: 0, errorRate: 0 };
+      }
+      const total = sorted.reduce((sum, d) => sum + d, 0);
+      return {
+        count,
+        avgDuration: Math.round((total / count) * 100) / 100,
+        p50Latency: this.calculatePercentile(sorted, 0.5),
+        p95Latency: this.calculatePercentile(sorted, 0.95),
+        errorRate: Math.round((errors[priority] / count) * 1000) / 1000,
+      };
+    };
+
+    return {
+      high: toStats('high'),
+      normal: toStats('normal'),
+      low: toStats('low'),
+    };
+  }
+
   /**
    * Get error summary for a server
    */
@@ -24,7 +24,23 @@ import {
   searchRequests,
   getServersWithHistory,
   getSummarySnapshots,
+  getPriorityStats,
+  getAffinityStats,
+  getHedgingStats,
 } from '../controllers/analyticsController.js';
+import { handleMessages } from '../controllers/anthropicController.js';
+import {
+  parseFileUpload,
+  handleUploadFile,
+  handleListFiles,
+  handleGetFile,
+  handleGetFileContent,
+  handleDeleteFile,
+  handleCreateBatch,
+  handleListBatches,
+  handleGetBatch,
+  handleCancelBatch,
+} from '../controllers/batchesController.js';
 import { resetBreaker, getBreakerDetails } from '../controllers/circuitBreakerController.js';
 import {
   getConfig,
@@ -34,6 +50,10 @@ import {
   saveConfig,
   getConfigSchema,
 } from '../controllers/configController.js';
+import {
+  getEmbeddingCacheStats,
+  purgeEmbeddingCache,
+} from '../controllers/embeddingCacheController.js';
 import { getLogs, clearLogs } from '../controllers/logsController.js';
 import {
   getMetrics,
@@ -51,7 +71,16 @@ import {
   unloadModel,
   getIdleModels,
   cancelWarmup,
+  getModelAliases,
+  setModelAlias,
+  deleteModelAlias,
 } from '../controllers/modelController.js';
+import {
+  handleCreate,
+  handlePush,
+  handleBlobExists,
+  handleBlobUpload,
+} from '../controllers/modelReplicationController.js';
 import {
   handleTags,
   handleGenerate,
@@ -89,9 +118,23 @@ import {
   resetServerCircuitBreaker,
   getServerCircuitBreaker,
 } from '../controllers/recoveryFailureController.js';
+import {
+  getResponseCacheStats,
+  clearResponseCache,
+} from '../controllers/responseCacheController.js';
+import {
+  handleCreateResponse,
+  handleGetResponse,
+  handleDeleteResponse,
+} from '../controllers/responsesController.js';
 import {
   listServerModels,
   pullModelToServer,
+  handlePull,
+  createPullJob,
+  listPullJobs,
+  getPullJob,
+  cancelPullJob,
   deleteModelFromServer,
   copyModelToServer,
   getFleetModelStats,
@@ -118,6 +161,8 @@ import {
   forceCloseBreaker,
   forceHalfOpenBreaker,
 } from '../controllers/serversController.js';
+import { responseCache } from '../middleware/responseCache.js';
+import { singleFlight } from '../middleware/singleFlight.js';
 
 // Create separate routers for different rate limiting needs
 const monitoringRouter = Router(); // More permissive rate limiting
@@ -192,6 +237,11 @@ monitoringRouter.get('/analytics/requests/:serverId', getServerRequestHistory);
 monitoringRouter.get('/analytics/request-stats/:serverId', getServerRequestStats);
 monitoringRouter.get('/analytics/request-timeline', getRequestTimeline);
 monitoringRouter.get('/analytics/requests/search', searchRequests);
+monitoringRouter.get('/analytics/priorities', getPriorityStats);
+monitoringRouter.get('/analytics/affinity', getAffinityStats);
+monitoringRouter.get('/analytics/hedging', getHedgingStats);
+monitoringRouter.get('/analytics/embedding-cache', getEmbeddingCacheStats);
+monitoringRouter.get('/analytics/response-cache', getResponseCacheStats);
 
 // === Admin Routes (more restrictive rate limiting) ===
 
@@ -206,11 +256,22 @@ adminRouter.post('/servers/:id/models/pull', asyncHandler(pullModelToServer));
 adminRouter.delete('/servers/:id/models/:model', asyncHandler(deleteModelFromServer));
 adminRouter.post('/servers/:id/models/copy', asyncHandler(copyModelToServer));
 
+// Fleet-wide model pulls
+adminRouter.post('/pulls', createPullJob);
+adminRouter.get('/pulls', listPullJobs);
+adminRouter.get('/pulls/:id', getPullJob);
+adminRouter.post('/pulls/:id/cancel', cancelPullJob);
+
 // Model management actions
 adminRouter.post('/models/:model/warmup', asyncHandler(warmupModel));
 adminRouter.post('/models/:model/unload', unloadModel);
 adminRouter.post('/models/:model/cancel', cancelWarmup);
 
+// Model aliases
+adminRouter.get('/aliases', getModelAliases);
+adminRouter.put('/aliases/:alias', setModelAlias);
+adminRouter.delete('/aliases/:alias', deleteModelAlias);
+
 // Configuration
 adminRouter.get('/config', getConfig);
 adminRouter.get('/config/schema', getConfigSchema);
@@ -226,6 +287,10 @@ adminRouter.delete('/bans/server/:serverId', removeBansByServer);
 adminRouter.delete('/bans/model/:model', removeBansByModel);
 adminRouter.delete('/bans/:serverId/:model', removeBan);
 
+// Embedding cache
+adminRouter.delete('/embedding-cache/:model', asyncHandler(purgeEmbeddingCache));
+adminRouter.delete('/response-cache', clearResponseCache);
+
 // Circuit breaker management
 adminRouter.get('/circuit-breakers/:serverId/:model', asyncHandler(getBreakerDetails));
 adminRouter.post('/circuit-breakers/:serverId/:model/reset', asyncHandler(resetBreaker));
@@ -267,31 +332,60 @@ adminRouter.post('/logs/clear', clearLogs);
 
 // === Ollama-Compatible Routes ===
 inferenceRouter.get('/tags', asyncHandler(handleTags));
-inferenceRouter.post('/generate', asyncHandler(handleGenerate));
-inferenceRouter.post('/chat', asyncHandler(handleChat));
-inferenceRouter.post('/embeddings', asyncHandler(handleEmbeddings));
+inferenceRouter.post(
+  '/generate',
+  asyncHandler(responseCache('generate')),
+  asyncHandler(handleGenerate)
+);
+inferenceRouter.post('/chat', asyncHandler(responseCache('chat')), asyncHandler(handleChat));
+inferenceRouter.post('/embeddings', singleFlight('embeddings'), asyncHandler(handleEmbeddings));
 inferenceRouter.get('/ps', asyncHandler(handlePs));
 inferenceRouter.get('/version', handleVersion);
 
 // New endpoints from audit
 inferenceRouter.post('/show', asyncHandler(handleShow));
-inferenceRouter.post('/embed', asyncHandler(handleEmbed));
+inferenceRouter.post('/embed', singleFlight('embed'), asyncHandler(handleEmbed));
+
+// Pull a model onto many servers at once
+inferenceRouter.post('/pull', handlePull);
+
+// Model authoring on the servers chosen by X-Orchestrator-Servers or ?servers=
+inferenceRouter.post('/create', asyncHandler(handleCreate));
+inferenceRouter.head('/blobs/:digest', asyncHandler(handleBlobExists));
+inferenceRouter.post('/blobs/:digest', asyncHandler(handleBlobUpload));
+inferenceRouter.post('/push', asyncHandler(handlePush));
 
 // Multi-node incompatible endpoints - always reject with helpful message
-inferenceRouter.post('/pull', handleUnsupported);
 inferenceRouter.delete('/delete', handleUnsupported);
 inferenceRouter.post('/copy', handleUnsupported);
-inferenceRouter.post('/create', handleUnsupported);
-inferenceRouter.head('/blobs/:digest', handleUnsupported);
-inferenceRouter.post('/blobs/:digest', handleUnsupported);
-inferenceRouter.post('/push', handleUnsupported);
 
 // === OpenAI-Compatible Routes (/v1/*) - mounted at /v1 ===
-v1Router.post('/chat/completions', asyncHandler(handleChatCompletions));
-v1Router.post('/completions', asyncHandler(handleCompletions));
-v1Router.post('/embeddings', asyncHandler(handleOpenAIEmbeddings));
+v1Router.post(
+  '/chat/completions',
+  asyncHandler(responseCache('chat/completions')),
+  asyncHandler(handleChatCompletions)
+);
+v1Router.post(
+  '/completions',
+  asyncHandler(responseCache('completions')),
+  asyncHandler(handleCompletions)
+);
+v1Router.post('/embeddings', singleFlight('v1/embeddings'), asyncHandler(handleOpenAIEmbeddings));
 v1Router.get('/models', asyncHandler(handleListModels));
 v1Router.get('/models/:model', asyncHandler(handleGetModel));
+v1Router.post('/responses', asyncHandler(handleCreateResponse));
+v1Router.get('/responses/:id', handleGetResponse);
+v1Router.delete('/responses/:id', handleDeleteResponse);
+v1Router.post('/messages', asyncHandler(handleMessages));
+v1Router.post('/files', parseFileUpload, asyncHandler(handleUploadFile));
+v1Router.get('/files', handleListFiles);
+v1Router.get('/files/:id', handleGetFile);
+v1Router.get('/files/:id/content', handleGetFileContent);
+v1Router.delete('/files/:id', handleDeleteFile);
+v1Router.post('/batches', handleCreateBatch);
+v1Router.get('/batches', handleListBatches);
+v1Router.get('/batches/:id', handleGetBatch);
+v1Router.post('/batches/:id/cancel', handleCancelBatch);
 
 // === Server-Specific Routes (/:endpoint--$serverid) ===
 // These routes allow explicit routing to a specific server for testing/debugging
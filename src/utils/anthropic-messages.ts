@@ -0,0 +1,399 @@
+/**
+ * anthropic-messages.ts
+ * Anthropic Messages API (/v1/messages) on top of Ollama chat: requests become Ollama chat
+ * bodies, Ollama responses become Messages, and Ollama stream chunks become the Messages
+ * stream events
+ */
+
+import { randomUUID } from 'crypto';
+
+import { toolsForChoice } from './tool-calling.js';
+
+type JsonObject = Record<string, unknown>;
+
+/** One server-sent event of a Messages stream */
+export interface AnthropicStreamEvent {
+  type: string;
+  [key: string]: unknown;
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function createMessageId(prefix: 'msg' | 'toolu'): string {
+  return `${prefix}_${randomUUID().replace(/-/g, '').slice(0, 24)}`;
+}
+
+/**
+ * The base64 data of an image block. Ollama only takes inline images, so URL sources are
+ * rejected.
+ */
+function imageData(block: JsonObject): string | { error: string } {
+  const source = isObject(block.source) ? block.source : {};
+  if (source.type === 'base64' && typeof source.data === 'string') {
+    return source.data;
+  }
+  return { error: `Unsupported image source type '${String(source.type)}': use base64` };
+}
+
+/**
+ * Text and images of a list of content blocks
+ */
+function textAndImages(
+  blocks: JsonObject[]
+): { text: string; images: string[] } | { error: string } {
+  const text: string[] = [];
+  const images: string[] = [];
+  for (const block of blocks) {
+    if (block.type === 'text') {
+      text.push(typeof block.text === 'string' ? block.text : '');
+    } else if (block.type === 'image') {
+      const data = imageData(block);
+      if (typeof data !== 'string') {
+        return data;
+      }
+      images.push(data);
+    }
+  }
+  return { text: text.join('\n'), images };
+}
+
+/**
+ * Convert Anthropic messages to Ollama chat messages. `tool_result` blocks become tool
+ * messages named after the `tool_use` they answer; thinking blocks echoed back by clients
+ * are dropped. Returns an error message when a block cannot be represented.
+ */
+export function anthropicMessagesToOllama(messages: unknown): JsonObject[] | { error: string } {
+  if (!Array.isArray(messages)) {
+    return { error: 'messages must be an array' };
+  }
+
+  const toolNames = new Map<string, unknown>();
+  const result: JsonObject[] = [];
+  for (const message of messages) {
+    if (!isObject(message) || (message.role !== 'user' && message.role !== 'assistant')) {
+      return { error: "Each message must have role 'user' or 'assistant'" };
+    }
+    if (typeof message.content === 'string') {
+      result.push({ role: message.role, content: message.content });
+      continue;
+    }
+    if (!Array.isArray(message.content)) {
+      return { error: 'Message content must be a string or an array of content blocks' };
+    }
+
+    const blocks = message.content.filter(isObject);
+    const plain: JsonObject[] = [];
+    const toolCalls: JsonObject[] = [];
+    for (const block of blocks) {
+      if (block.type === 'text' || block.type === 'image') {
+        plain.push(block);
+      } else if (block.type === 'tool_use') {
+        toolNames.set(block.id as string, block.name);
+        toolCalls.push({
+          function: { name: block.name, arguments: isObject(block.input) ? block.input : {} },
+        });
+      } else if (block.type === 'tool_result') {
+        const content = Array.isArray(block.content)
+          ? textAndImages(block.content.filter(isObject))
+          : { text: typeof block.content === 'string' ? block.content : '', images: [] };
+        if ('error' in content) {
+          return content;
+        }
+        const name = toolNames.get(block.tool_use_id as string);
+        result.push({
+          role: 'tool',
+          content: block.is_error === true ? `Error: ${content.text}` : content.text,
+          ...(typeof name === 'string' && { tool_name: name }),
+        });
+      } else if (block.type !== 'thinking' && block.type !== 'redacted_thinking') {
+        return { error: `Unsupported content block type '${String(block.type)}'` };
+      }
+    }
+
+    if (plain.length === 0 && toolCalls.length === 0) {
+      continue;
+    }
+    const content = textAndImages(plain);
+    if ('error' in content) {
+      return content;
+    }
+    result.push({
+      role: message.role,
+      content: content.text,
+      ...(content.images.length > 0 && { images: content.images }),
+      ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+    });
+  }
+  return result;
+}
+
+/**
+ * Convert Anthropic tools to Ollama (OpenAI-style) function tools, narrowed to `tool_choice`
+ * the way OpenAI requests are. Returns an error message for server tools (web search, ...),
+ * which no backend here can run.
+ */
+export function anthropicToolsToOllama(
+  tools: unknown,
+  toolChoice: unknown
+): unknown[] | undefined | { error: string } {
+  if (tools === undefined || tools === null) {
+    return undefined;
+  }
+  if (!Array.isArray(tools)) {
+    return { error: 'tools must be an array' };
+  }
+
+  const functions: unknown[] = [];
+  for (const tool of tools) {
+    if (!isObject(tool) || typeof tool.name !== 'string' || !isObject(tool.input_schema)) {
+      const type = isObject(tool) ? tool.type : undefined;
+      return { error: `Unsupported tool type '${String(type)}': only custom tools are supported` };
+    }
+    functions.push({
+      type: 'function',
+      function: {
+        name: tool.name,
+        ...(tool.description !== undefined && { description: tool.description }),
+        parameters: tool.input_schema,
+      },
+    });
+  }
+
+  const choice = isObject(toolChoice) ? toolChoice : {};
+  return toolsForChoice(
+    functions,
+    choice.type === 'tool' ? { type: 'function', function: { name: choice.name } } : choice.type
+  );
+}
+
+/**
+ * Validate `tool_choice`. Returns an error message, or undefined when valid.
+ */
+export function validateAnthropicToolChoice(
+  tools: unknown,
+  toolChoice: unknown
+): string | undefined {
+  if (toolChoice === undefined || toolChoice === null) {
+    return undefined;
+  }
+  if (
+    !isObject(toolChoice) ||
+    !['auto', 'any', 'tool', 'none'].includes(toolChoice.type as string)
+  ) {
+    return "Invalid tool_choice: expected type 'auto', 'any', 'tool' or 'none'";
+  }
+  if (toolChoice.type === 'tool') {
+    const names = (Array.isArray(tools) ? tools : []).map(tool =>
+      isObject(tool) ? tool.name : undefined
+    );
+    if (!names.includes(toolChoice.name)) {
+      return `tool_choice names tool '${String(toolChoice.name)}', which is not in tools`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Build the Ollama /api/chat body for a Messages request
+ */
+export function anthropicRequestToOllama(
+  body: JsonObject,
+  messages: JsonObject[],
+  tools: unknown[] | undefined
+): JsonObject {
+  const system = Array.isArray(body.system)
+    ? body.system
+        .filter(isObject)
+        .map(block => block.text)
+        .filter(text => typeof text === 'string')
+        .join('\n')
+    : body.system;
+
+  const options: JsonObject = {};
+  if (typeof body.max_tokens === 'number') {
+    options.num_predict = body.max_tokens;
+  }
+  for (const key of ['temperature', 'top_p', 'top_k'] as const) {
+    if (body[key] !== undefined) {
+      options[key] = body[key];
+    }
+  }
+  if (Array.isArray(body.stop_sequences) && body.stop_sequences.length > 0) {
+    options.stop = body.stop_sequences;
+  }
+
+  return {
+    model: body.model,
+    messages:
+      typeof system === 'string' && system
+        ? [{ role: 'system', content: system }, ...messages]
+        : messages,
+    ...(Object.keys(options).length > 0 && { options }),
+    ...(tools && { tools }),
+  };
+}
+
+/**
+ * The Messages `stop_reason` for an Ollama response
+ */
+export function ollamaStopReason(data: JsonObject, hasToolCalls: boolean): string {
+  if (hasToolCalls) {
+    return 'tool_use';
+  }
+  return data.done_reason === 'length' ? 'max_tokens' : 'end_turn';
+}
+
+function usageOf(data: JsonObject): { input_tokens: number; output_tokens: number } {
+  return {
+    input_tokens: typeof data.prompt_eval_count === 'number' ? data.prompt_eval_count : 0,
+    output_tokens: typeof data.eval_count === 'number' ? data.eval_count : 0,
+  };
+}
+
+function toolUseBlock(call: unknown): JsonObject {
+  const fn = isObject(call) && isObject(call.function) ? call.function : {};
+  return {
+    type: 'tool_use',
+    id: createMessageId('toolu'),
+    name: fn.name,
+    input: isObject(fn.arguments) ? fn.arguments : {},
+  };
+}
+
+/**
+ * Convert a non-streaming Ollama chat response to a Message
+ */
+export function ollamaResponseToAnthropic(data: JsonObject, id: string, model: string): JsonObject {
+  const message = isObject(data.message) ? data.message : {};
+  const toolCalls = Array.isArray(message.tool_calls) ? message.tool_calls : [];
+  const content: JsonObject[] = [];
+  if (typeof message.content === 'string' && message.content) {
+    content.push({ type: 'text', text: message.content });
+  }
+  content.push(...toolCalls.map(toolUseBlock));
+
+  return {
+    id,
+    type: 'message',
+    role: 'assistant',
+    model,
+    content,
+    stop_reason: ollamaStopReason(data, toolCalls.length > 0),
+    stop_sequence: null,
+    usage: usageOf(data),
+  };
+}
+
+/**
+ * Format a stream event as an SSE frame
+ */
+export function formatAnthropicEvent(event: AnthropicStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Turn Ollama chat stream chunks into Messages stream events. Text goes into a text block
+ * that stays open until a tool call arrives; each tool call is a block of its own with its
+ * whole input sent as one `input_json_delta`, since Ollama delivers calls complete.
+ */
+export class AnthropicEventStream {
+  private blockIndex = 0;
+  private textOpen = false;
+  private toolCalls = 0;
+
+  constructor(
+    private readonly id: string,
+    private readonly model: string
+  ) {}
+
+  /**
+   * The event that opens the stream
+   */
+  start(): AnthropicStreamEvent[] {
+    return [
+      {
+        type: 'message_start',
+        message: {
+          id: this.id,
+          type: 'message',
+          role: 'assistant',
+          model: this.model,
+          content: [],
+          stop_reason: null,
+          stop_sequence: null,
+          usage: { input_tokens: 0, output_tokens: 0 },
+        },
+      },
+    ];
+  }
+
+  private closeText(): AnthropicStreamEvent[] {
+    if (!this.textOpen) {
+      return [];
+    }
+    this.textOpen = false;
+    return [{ type: 'content_block_stop', index: this.blockIndex++ }];
+  }
+
+  /**
+   * The events for one Ollama stream chunk; the done chunk closes the message
+   */
+  push(chunk: JsonObject): AnthropicStreamEvent[] {
+    const message = isObject(chunk.message) ? chunk.message : {};
+    const events: AnthropicStreamEvent[] = [];
+
+    if (typeof message.content === 'string' && message.content) {
+      if (!this.textOpen) {
+        this.textOpen = true;
+        events.push({
+          type: 'content_block_start',
+          index: this.blockIndex,
+          content_block: { type: 'text', text: '' },
+        });
+      }
+      events.push({
+        type: 'content_block_delta',
+        index: this.blockIndex,
+        delta: { type: 'text_delta', text: message.content },
+      });
+    }
+
+    for (const call of Array.isArray(message.tool_calls) ? message.tool_calls : []) {
+      events.push(...this.closeText());
+      const { input, ...block } = toolUseBlock(call);
+      const index = this.blockIndex++;
+      this.toolCalls++;
+      events.push(
+        { type: 'content_block_start', index, content_block: { ...block, input: {} } },
+        {
+          type: 'content_block_delta',
+          index,
+          delta: { type: 'input_json_delta', partial_json: JSON.stringify(input) },
+        },
+        { type: 'content_block_stop', index }
+      );
+    }
+
+    if (chunk.done === true) {
+      events.push(
+        ...this.closeText(),
+        {
+          type: 'message_delta',
+          delta: { stop_reason: ollamaStopReason(chunk, this.toolCalls > 0), stop_sequence: null },
+          usage: usageOf(chunk),
+        },
+        { type: 'message_stop' }
+      );
+    }
+    return events;
+  }
+
+  /**
+   * The event that ends a stream that broke off
+   */
+  fail(message: string): AnthropicStreamEvent[] {
+    return [{ type: 'error', error: { type: 'api_error', message } }];
+  }
+}
@@ -50,6 +50,15 @@ export interface DebugInfo {
 
   // Queue / concurrency diagnostics
   queueWaitTime?: number;
+  priority?: string;
+  affinity?: string;
+
+  // Model fallback: requested model and the substitute that answered
+  degradedFrom?: string;
+  servedModel?: string;
+
+  // Hedging: which attempt answered when a hedge was sent
+  hedged?: string;
 
   // Stall detection diagnostics
   stallDetected?: boolean;
@@ -152,6 +161,21 @@ export function setDebugResponseHeaders(
   if (debugInfo.queueWaitTime !== undefined) {
     res.setHeader('X-Queue-Wait-Ms', debugInfo.queueWaitTime);
   }
+  if (debugInfo.priority) {
+    res.setHeader('X-Priority', debugInfo.priority);
+  }
+  if (debugInfo.affinity) {
+    res.setHeader('X-Session-Affinity', debugInfo.affinity);
+  }
+  if (debugInfo.degradedFrom) {
+    res.setHeader('X-Degraded-From', debugInfo.degradedFrom);
+  }
+  if (debugInfo.servedModel) {
+    res.setHeader('X-Served-Model', debugInfo.servedModel);
+  }
+  if (debugInfo.hedged) {
+    res.setHeader('X-Hedged', debugInfo.hedged);
+  }
   if (debugInfo.stallDetected) {
     res.setHeader('X-Stall-Detected', '1');
   }
@@ -186,6 +210,10 @@ export function getDebugInfo(
     (context.serverScores && context.serverScores.length > 0) ||
     context.timeoutMs !== undefined ||
     context.queueWaitTime !== undefined ||
+    context.priority ||
+    context.affinity ||
+    context.degradedFrom ||
+    context.hedged ||
     context.failoverPhase !== undefined ||
     context.failoverOccurred ||
     options?.requestId ||
@@ -258,6 +286,19 @@ export function getDebugInfo(
   if (context.timeoutMs !== undefined) {
     debugInfo.timeoutMs = context.timeoutMs;
   }
+  if (context.priority) {
+    debugInfo.priority = context.priority;
+  }
+  if (context.affinity) {
+    debugInfo.affinity = context.affinity;
+  }
+  if (context.degradedFrom) {
+    debugInfo.degradedFrom = context.degradedFrom;
+    debugInfo.servedModel = context.servedModel;
+  }
+  if (context.hedged) {
+    debugInfo.hedged = context.hedged;
+  }
 
   // Failover diagnostics
   if (context.failoverPhase !== undefined) {
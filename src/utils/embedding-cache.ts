@@ -0,0 +1,430 @@
+/**
+ * embedding-cache.ts
+ * Content-addressed cache of embeddings, keyed by model digest, input and dimensions, with an
+ * in-memory LRU tier and an optional, size-capped disk tier under `persistencePath`
+ */
+
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+import { getConfigManager, DEFAULT_CONFIG, type EmbeddingCacheConfig } from '../config/config.js';
+import type { AIServer } from '../orchestrator.types.js';
+
+import { safeJsonParse, safeJsonStringify } from './json-utils.js';
+import { logger } from './logger.js';
+import { getModelCapabilities } from './model-capabilities.js';
+
+/** Disk reads issued at once during a lookup */
+const DISK_READ_BATCH = 64;
+
+/**
+ * What an embedding depends on besides its input. `namespace` separates APIs whose vectors
+ * differ for the same model (/api/embeddings does not normalize, /api/embed does).
+ */
+export interface EmbeddingCacheScope {
+  namespace: 'embed' | 'embeddings' | 'openai';
+  model: string;
+  digest?: string;
+  dimensions?: number;
+}
+
+interface CachedEmbedding {
+  embedding: unknown;
+  /** The input's share of the prompt tokens of the request that computed it */
+  tokens: number;
+  /** The input's share of the time taken by the request that computed it */
+  computeMs: number;
+}
+
+interface MemoryEntry extends CachedEmbedding {
+  model: string;
+}
+
+/** Embeddings for a list of inputs, in input order */
+export interface EmbeddingBatch {
+  embeddings: unknown[];
+  tokens: number;
+}
+
+interface ModelCacheStats {
+  hits: number;
+  misses: number;
+  savedTokens: number;
+  savedComputeMs: number;
+}
+
+export interface EmbeddingCacheStats extends ModelCacheStats {
+  enabled: boolean;
+  persistent: boolean;
+  memoryEntries: number;
+  hitRate: number;
+  byModel: Record<string, ModelCacheStats>;
+}
+
+export class EmbeddingCache {
+  private dir: string;
+  private memory = new Map<string, MemoryEntry>();
+  private stats = new Map<string, ModelCacheStats>();
+  /** Disk entry files by key, oldest first; read from the directory on first use */
+  private diskIndex?: Promise<Map<string, string>>;
+  private fixedConfig?: EmbeddingCacheConfig;
+
+  /**
+   * @param config Fixed settings; without them the cache follows the live `embeddingCache` config
+   */
+  constructor(dir: string, config?: EmbeddingCacheConfig) {
+    this.dir = dir;
+    this.fixedConfig = config ? { ...config } : undefined;
+  }
+
+  private getConfig(): EmbeddingCacheConfig {
+    return (
+      this.fixedConfig ??
+      getConfigManager().getConfig().embeddingCache ??
+      DEFAULT_CONFIG.embeddingCache
+    );
+  }
+
+  isEnabled(): boolean {
+    return this.getConfig().enabled;
+  }
+
+  private modelDir(model: string): string {
+    return path.join(this.dir, encodeURIComponent(model));
+  }
+
+  private diskPath(model: string, key: string): string {
+    return path.join(this.modelDir(model), key.slice(0, 2), `${key}.json`);
+  }
+
+  private keyFor(scope: EmbeddingCacheScope, input: unknown): string {
+    return createHash('sha256')
+      .update(
+        JSON.stringify([
+          scope.namespace,
+          scope.model,
+          scope.digest ?? null,
+          scope.dimensions ?? null,
+          input,
+        ])
+      )
+      .digest('hex');
+  }
+
+  private modelStats(model: string): ModelCacheStats {
+    let stats = this.stats.get(model);
+    if (!stats) {
+      stats = { hits: 0, misses: 0, savedTokens: 0, savedComputeMs: 0 };
+      this.stats.set(model, stats);
+    }
+    return stats;
+  }
+
+  private remember(key: string, entry: MemoryEntry): void {
+    // Re-insert so Map iteration order tracks recent use
+    this.memory.delete(key);
+    this.memory.set(key, entry);
+    const { maxMemoryEntries } = this.getConfig();
+    while (this.memory.size > maxMemoryEntries) {
+      const oldest = this.memory.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.memory.delete(oldest);
+    }
+  }
+
+  private getDiskIndex(): Promise<Map<string, string>> {
+    this.diskIndex ??= this.scanDisk();
+    return this.diskIndex;
+  }
+
+  /**
+   * Index the entries already on disk (from earlier runs), oldest first by modification time
+   */
+  private async scanDisk(): Promise<Map<string, string>> {
+    const names = await fs.promises
+      .readdir(this.dir, { recursive: true })
+      .catch(() => [] as string[]);
+    const files = names
+      .filter(name => name.endsWith('.json'))
+      .map(name => path.join(this.dir, name));
+    const entries: Array<{ file: string; mtimeMs: number }> = [];
+    for (let start = 0; start < files.length; start += DISK_READ_BATCH) {
+      await Promise.all(
+        files.slice(start, start + DISK_READ_BATCH).map(async file => {
+          const stat = await fs.promises.stat(file).catch(() => undefined);
+          if (stat) {
+            entries.push({ file, mtimeMs: stat.mtimeMs });
+          }
+        })
+      );
+    }
+    entries.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    return new Map(entries.map(({ file }) => [path.basename(file, '.json'), file]));
+  }
+
+  /**
+   * Record a disk write and remove the oldest entries beyond `maxDiskEntries`
+   */
+  private async trackDiskEntry(key: string, file: string): Promise<void> {
+    const index = await this.getDiskIndex();
+    index.delete(key);
+    index.set(key, file);
+    const { maxDiskEntries } = this.getConfig();
+    while (index.size > maxDiskEntries) {
+      const [oldestKey, oldestFile] = index.entries().next().value as [string, string];
+      index.delete(oldestKey);
+      await fs.promises.rm(oldestFile, { force: true });
+    }
+  }
+
+  private async readDisk(model: string, key: string): Promise<CachedEmbedding | undefined> {
+    try {
+      const entry = safeJsonParse(
+        await fs.promises.readFile(this.diskPath(model, key), 'utf-8')
+      ) as CachedEmbedding | undefined;
+      return entry && entry.embedding !== undefined ? entry : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Look up the embedding of each input. Returns the cached embedding for hits and undefined
+   * for misses, in input order.
+   */
+  async lookup(
+    scope: EmbeddingCacheScope,
+    inputs: unknown[]
+  ): Promise<Array<CachedEmbedding | undefined>> {
+    const keys = inputs.map(input => this.keyFor(scope, input));
+    const found: Array<CachedEmbedding | undefined> = keys.map(key => this.memory.get(key));
+
+    if (this.getConfig().persistent) {
+      const fromDisk = found.flatMap((entry, index) => (entry ? [] : [index]));
+      for (let start = 0; start < fromDisk.length; start += DISK_READ_BATCH) {
+        await Promise.all(
+          fromDisk.slice(start, start + DISK_READ_BATCH).map(async index => {
+            found[index] = await this.readDisk(scope.model, keys[index]);
+          })
+        );
+      }
+    }
+
+    const stats = this.modelStats(scope.model);
+    found.forEach((entry, index) => {
+      if (!entry) {
+        stats.misses++;
+        return;
+      }
+      stats.hits++;
+      stats.savedTokens += entry.tokens;
+      stats.savedComputeMs += entry.computeMs;
+      this.remember(keys[index], { ...entry, model: scope.model });
+    });
+    return found;
+  }
+
+  /**
+   * Cache the embedding of an input. Callers need not wait for the returned disk write, which
+   * never rejects.
+   */
+  async store(scope: EmbeddingCacheScope, input: unknown, entry: CachedEmbedding): Promise<void> {
+    const key = this.keyFor(scope, input);
+    this.remember(key, { ...entry, model: scope.model });
+    if (!this.getConfig().persistent) {
+      return;
+    }
+
+    const file = this.diskPath(scope.model, key);
+    try {
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await fs.promises.writeFile(file, safeJsonStringify(entry));
+      await this.trackDiskEntry(key, file);
+    } catch (error) {
+      logger.warn('Could not write embedding cache entry', {
+        model: scope.model,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Remove every cached embedding of a model (and of `model:latest` for an untagged name).
+   * Returns the number of memory and disk entries removed.
+   */
+  async purgeModel(model: string): Promise<{ memoryEntries: number; diskEntries: number }> {
+    const models = model.includes(':') ? [model] : [model, `${model}:latest`];
+    let memoryEntries = 0;
+    for (const [key, entry] of this.memory) {
+      if (models.includes(entry.model)) {
+        this.memory.delete(key);
+        memoryEntries++;
+      }
+    }
+
+    let diskEntries = 0;
+    for (const name of models) {
+      const dir = this.modelDir(name);
+      const files = await fs.promises.readdir(dir, { recursive: true }).catch(() => [] as string[]);
+      diskEntries += files.filter(file => file.endsWith('.json')).length;
+      await fs.promises.rm(dir, { recursive: true, force: true });
+      if (this.diskIndex) {
+        const index = await this.diskIndex;
+        for (const [key, file] of index) {
+          if (file.startsWith(`${dir}${path.sep}`)) {
+            index.delete(key);
+          }
+        }
+      }
+    }
+
+    logger.info('Purged embedding cache', { model, memoryEntries, diskEntries });
+    return { memoryEntries, diskEntries };
+  }
+
+  getStats(): EmbeddingCacheStats {
+    const totals: ModelCacheStats = { hits: 0, misses: 0, savedTokens: 0, savedComputeMs: 0 };
+    const byModel: Record<string, ModelCacheStats> = {};
+    for (const [model, stats] of this.stats) {
+      byModel[model] = { ...stats };
+      totals.hits += stats.hits;
+      totals.misses += stats.misses;
+      totals.savedTokens += stats.savedTokens;
+      totals.savedComputeMs += stats.savedComputeMs;
+    }
+    const lookups = totals.hits + totals.misses;
+    return {
+      enabled: this.isEnabled(),
+      persistent: this.getConfig().persistent,
+      memoryEntries: this.memory.size,
+      ...totals,
+      hitRate: lookups > 0 ? totals.hits / lookups : 0,
+      byModel,
+    };
+  }
+
+  clear(): void {
+    this.memory.clear();
+    this.stats.clear();
+  }
+}
+
+/**
+ * The embeddings and prompt tokens of an Ollama /api/embed response
+ */
+export function ollamaEmbedBatch(response: Record<string, unknown>): EmbeddingBatch {
+  return {
+    embeddings: Array.isArray(response.embeddings) ? response.embeddings : [],
+    tokens: typeof response.prompt_eval_count === 'number' ? response.prompt_eval_count : 0,
+  };
+}
+
+/**
+ * The embeddings (by input index) and prompt tokens of an OpenAI /v1/embeddings response
+ */
+export function openAIEmbeddingBatch(response: Record<string, unknown>): EmbeddingBatch {
+  const data = Array.isArray(response.data)
+    ? (response.data as Array<{ index?: number; embedding?: unknown }>)
+    : [];
+  const usage = response.usage as { prompt_tokens?: unknown } | undefined;
+  return {
+    embeddings: [...data]
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      .map(item => item.embedding),
+    tokens: typeof usage?.prompt_tokens === 'number' ? usage.prompt_tokens : 0,
+  };
+}
+
+/**
+ * The cache scope of a request, with the model's digest from a server that has it
+ */
+export async function resolveCacheScope(
+  namespace: EmbeddingCacheScope['namespace'],
+  model: string,
+  servers: AIServer[],
+  dimensions?: number
+): Promise<EmbeddingCacheScope> {
+  return {
+    namespace,
+    model,
+    digest: await getModelCapabilities().findDigest(servers, model),
+    dimensions,
+  };
+}
+
+/**
+ * Embed inputs through the cache: hits are served from it and only the misses are passed to
+ * `embed`, whose results are cached. Token counts of cached inputs are the ones recorded when
+ * they were computed, so the total matches an uncached request. `response` is the server's
+ * response for the misses, when there were any.
+ */
+export async function embedWithCache<T>(
+  cache: EmbeddingCache,
+  scope: EmbeddingCacheScope,
+  inputs: unknown[],
+  embed: (missing: unknown[]) => Promise<T>,
+  toBatch: (response: T) => EmbeddingBatch
+): Promise<EmbeddingBatch & { response?: T }> {
+  const found = await cache.lookup(scope, inputs);
+  const missing = found.flatMap((entry, index) => (entry ? [] : [index]));
+  const embeddings = found.map(entry => entry?.embedding);
+  let tokens = found.reduce((sum, entry) => sum + (entry?.tokens ?? 0), 0);
+
+  if (missing.length === 0) {
+    logger.debug('Embedding cache hit', { model: scope.model, inputs: inputs.length });
+    return { embeddings, tokens: Math.round(tokens) };
+  }
+
+  const startTime = Date.now();
+  const response = await embed(missing.map(index => inputs[index]));
+  const computed = toBatch(response);
+  if (computed.embeddings.length !== missing.length) {
+    throw new Error(
+      `Expected ${missing.length} embeddings from the server, got ${computed.embeddings.length}`
+    );
+  }
+
+  const share = {
+    tokens: computed.tokens / missing.length,
+    computeMs: (Date.now() - startTime) / missing.length,
+  };
+  missing.forEach((inputIndex, index) => {
+    embeddings[inputIndex] = computed.embeddings[index];
+    void cache.store(scope, inputs[inputIndex], {
+      embedding: computed.embeddings[index],
+      ...share,
+    });
+  });
+  tokens += computed.tokens;
+
+  if (missing.length < inputs.length) {
+    logger.debug('Embedding cache partial hit', {
+      model: scope.model,
+      hits: inputs.length - missing.length,
+      misses: missing.length,
+    });
+  }
+  return { embeddings, tokens: Math.round(tokens), response };
+}
+
+let cacheInstance: EmbeddingCache | undefined;
+
+export function getEmbeddingCache(): EmbeddingCache {
+  if (!cacheInstance) {
+    const persistencePath =
+      getConfigManager().getConfig().persistencePath ?? DEFAULT_CONFIG.persistencePath;
+    cacheInstance = new EmbeddingCache(path.join(persistencePath, 'embedding-cache'));
+  }
+  return cacheInstance;
+}
+
+export function setEmbeddingCache(cache: EmbeddingCache): void {
+  cacheInstance = cache;
+}
+
+export function resetEmbeddingCache(): void {
+  cacheInstance = undefined;
+}
@@ -0,0 +1,182 @@
+/**
+ * embedding-shards.ts
+ * Large embedding requests: the `input` array is split into sub-batches that the load balancer
+ * spreads across servers, and the sub-responses are merged back in the original order
+ */
+
+import {
+  getConfigManager,
+  DEFAULT_CONFIG,
+  type EmbeddingShardingConfig,
+} from '../config/config.js';
+import type { RoutingContext } from '../orchestrator-instance.js';
+
+import { logger } from './logger.js';
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function getShardingConfig(): EmbeddingShardingConfig {
+  return getConfigManager().getConfig().embeddingSharding ?? DEFAULT_CONFIG.embeddingSharding;
+}
+
+/**
+ * Split an embedding `input` into sub-batches of `shardSize` inputs. Returns undefined when the
+ * request is sent in one piece: sharding disabled, a single input, or no more than `shardSize`.
+ */
+export function shardInputs<T>(
+  input: T | T[] | undefined,
+  config: EmbeddingShardingConfig = getShardingConfig()
+): T[][] | undefined {
+  // A flat array of numbers is one tokenized input, not a batch
+  if (
+    !config.enabled ||
+    !Array.isArray(input) ||
+    input.length <= config.shardSize ||
+    input.some(item => typeof item === 'number')
+  ) {
+    return undefined;
+  }
+
+  const shards: T[][] = [];
+  for (let start = 0; start < input.length; start += config.shardSize) {
+    shards.push(input.slice(start, start + config.shardSize));
+  }
+  return shards;
+}
+
+/**
+ * Run every shard, at most `maxConcurrentShards` at a time. A shard that fails is retried on
+ * its own up to `shardRetries` times; once one has failed for good no further shards start and
+ * its error is thrown. Results are in shard order.
+ */
+export async function runShards<T, R>(
+  shards: T[][],
+  run: (shard: T[], index: number) => Promise<R>,
+  config: EmbeddingShardingConfig = getShardingConfig()
+): Promise<R[]> {
+  const results: R[] = new Array(shards.length);
+  let failure: { error: unknown } | undefined;
+  let next = 0;
+
+  const runWithRetries = async (index: number): Promise<R> => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await run(shards[index], index);
+      } catch (error) {
+        if (attempt >= config.shardRetries) {
+          throw error;
+        }
+        logger.warn(`Embedding shard ${index + 1}/${shards.length} failed, retrying`, {
+          attempt: attempt + 1,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  };
+
+  const worker = async (): Promise<void> => {
+    while (next < shards.length && !failure) {
+      const index = next++;
+      try {
+        results[index] = await runWithRetries(index);
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+  };
+
+  const workers = Math.min(config.maxConcurrentShards, shards.length);
+  await Promise.all(Array.from({ length: workers }, worker));
+  if (failure) {
+    throw failure.error;
+  }
+  return results;
+}
+
+/**
+ * Embed `input` in one request, or shard it and merge the shard responses with `merge`.
+ * Shards go wherever the load balancer sends them rather than to one pinned server, so they
+ * neither hedge nor carry the request key.
+ */
+export async function embedSharded<T>(
+  model: string,
+  input: T | T[],
+  routingContext: RoutingContext,
+  embed: (input: T | T[], context: RoutingContext) => Promise<JsonObject>,
+  merge: (results: JsonObject[]) => JsonObject,
+  config: EmbeddingShardingConfig = getShardingConfig()
+): Promise<JsonObject> {
+  const shards = shardInputs(input, config);
+  if (!shards) {
+    return embed(input, routingContext);
+  }
+  logger.info('Sharding embedding request', {
+    model,
+    inputs: shards.reduce((sum, shard) => sum + shard.length, 0),
+    shards: shards.length,
+  });
+  const shardContext: RoutingContext = { ...routingContext, hedge: false, requestKey: undefined };
+  return merge(await runShards(shards, shard => embed(shard, shardContext), config));
+}
+
+function sumField(results: JsonObject[], field: string): number | undefined {
+  const values = results
+    .map(result => result[field])
+    .filter((v): v is number => typeof v === 'number');
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) : undefined;
+}
+
+function maxField(results: JsonObject[], field: string): number | undefined {
+  const values = results
+    .map(result => result[field])
+    .filter((v): v is number => typeof v === 'number');
+  return values.length > 0 ? Math.max(...values) : undefined;
+}
+
+/**
+ * Merge Ollama /api/embed sub-responses: embeddings in shard order, `prompt_eval_count`
+ * summed, durations the longest shard's (shards run in parallel)
+ */
+export function mergeOllamaEmbeddings(results: JsonObject[]): JsonObject {
+  const merged: JsonObject = {
+    ...results[0],
+    embeddings: results.flatMap(result =>
+      Array.isArray(result.embeddings) ? result.embeddings : []
+    ),
+  };
+  for (const [field, value] of [
+    ['total_duration', maxField(results, 'total_duration')],
+    ['load_duration', maxField(results, 'load_duration')],
+    ['prompt_eval_count', sumField(results, 'prompt_eval_count')],
+  ] as const) {
+    if (value !== undefined) {
+      merged[field] = value;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Merge OpenAI /v1/embeddings sub-responses: `data` in shard order and re-indexed against the
+ * original input, usage summed
+ */
+export function mergeOpenAIEmbeddings(results: JsonObject[]): JsonObject {
+  const data = results.flatMap(result =>
+    (Array.isArray(result.data) ? result.data.filter(isObject) : []).sort(
+      (a, b) => Number(a.index ?? 0) - Number(b.index ?? 0)
+    )
+  );
+  const usages = results.map(result => (isObject(result.usage) ? result.usage : {}));
+  return {
+    ...results[0],
+    data: data.map((item, index) => ({ ...item, index })),
+    usage: {
+      prompt_tokens: sumField(usages, 'prompt_tokens') ?? 0,
+      total_tokens: sumField(usages, 'total_tokens') ?? 0,
+    },
+  };
+}
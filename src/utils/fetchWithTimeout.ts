@@ -30,20 +30,27 @@ export interface ActivityTimeoutController {
 /**
  * Fetch with timeout support
  * @param url - URL to fetch
- * @param options - Fetch options including optional timeout in milliseconds
+ * @param options - Fetch options including optional timeout in milliseconds; an optional
+ *   `signal` cancels the request early (e.g. the losing attempt of a hedged request)
  * @returns Promise<Response>
- * @throws Error if timeout exceeded or fetch fails
+ * @throws Error if timeout exceeded, the caller's signal aborted, or fetch fails
  */
 export async function fetchWithTimeout(
   url: string,
   options: FetchWithTimeoutOptions = {}
 ): Promise<Response> {
-  const { timeout = 30000, ...fetchOptions } = options;
+  const { timeout = 30000, signal: callerSignal, ...fetchOptions } = options;
 
   const controller = new AbortController();
   const timeoutId = setTimeout(() => {
     controller.abort();
   }, timeout);
+  const onCallerAbort = (): void => controller.abort();
+  if (callerSignal?.aborted) {
+    controller.abort();
+  } else {
+    callerSignal?.addEventListener('abort', onCallerAbort, { once: true });
+  }
 
   try {
     const response = await fetch(url, {
@@ -54,6 +61,9 @@ export async function fetchWithTimeout(
   } catch (error) {
     if (error instanceof Error) {
       if (error.name === 'AbortError') {
+        if (callerSignal?.aborted) {
+          throw new Error('Request aborted');
+        }
         throw new Error(`Request timeout after ${timeout}ms: ${url}`);
       }
       throw new Error(`Fetch failed: ${error.message}`);
@@ -61,6 +71,7 @@ export async function fetchWithTimeout(
     throw error;
   } finally {
     clearTimeout(timeoutId);
+    callerSignal?.removeEventListener('abort', onCallerAbort);
   }
 }
 
@@ -0,0 +1,153 @@
+/**
+ * file-store.ts
+ * Local storage for the OpenAI Files API (/v1/files): batch input files uploaded by clients
+ * and the output and error files batches produce, kept under `persistencePath`
+ */
+
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+import { getConfigManager } from '../config/config.js';
+
+import { safeJsonParse, safeJsonStringify } from './json-utils.js';
+import { logger } from './logger.js';
+
+/** OpenAI file object */
+export interface FileObject {
+  id: string;
+  object: 'file';
+  bytes: number;
+  created_at: number;
+  filename: string;
+  purpose: string;
+  status: 'processed';
+}
+
+/** Metadata on disk: the file object plus the owner tag of the client that stored it */
+interface StoredFileMetadata extends FileObject {
+  owner?: string;
+}
+
+const FILE_ID_PATTERN = /^file-[a-f0-9]{24}$/;
+
+export class FileStore {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  private contentPath(id: string): string {
+    return path.join(this.dir, `${id}.data`);
+  }
+
+  private metadataPath(id: string): string {
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  private readMetadata(id: string): StoredFileMetadata | undefined {
+    if (!FILE_ID_PATTERN.test(id) || !fs.existsSync(this.metadataPath(id))) {
+      return undefined;
+    }
+    const metadata = safeJsonParse(
+      fs.readFileSync(this.metadataPath(id), 'utf-8')
+    ) as StoredFileMetadata | null;
+    return metadata?.id === id ? metadata : undefined;
+  }
+
+  /**
+   * Store a file and return its file object
+   *
+   * @param owner Owner tag of the client storing it (see getRequestOwner)
+   */
+  create(filename: string, purpose: string, content: string | Buffer, owner?: string): FileObject {
+    const file: FileObject = {
+      id: `file-${randomUUID().replace(/-/g, '').slice(0, 24)}`,
+      object: 'file',
+      bytes: Buffer.byteLength(content),
+      created_at: Math.floor(Date.now() / 1000),
+      filename,
+      purpose,
+      status: 'processed',
+    };
+    fs.writeFileSync(this.contentPath(file.id), content);
+    // Metadata last, so a file is only listed once its content is complete
+    fs.writeFileSync(this.metadataPath(file.id), safeJsonStringify({ ...file, owner }));
+    return file;
+  }
+
+  get(id: string): FileObject | undefined {
+    const metadata = this.readMetadata(id);
+    if (!metadata) {
+      return undefined;
+    }
+    const { owner: _owner, ...file } = metadata;
+    return file;
+  }
+
+  /**
+   * Owner tag a file was stored with, or undefined for an unknown or unowned file
+   */
+  getOwner(id: string): string | undefined {
+    return this.readMetadata(id)?.owner;
+  }
+
+  /**
+   * Read a file's content, or undefined when there is no such file
+   */
+  read(id: string): string | undefined {
+    return this.get(id) ? fs.readFileSync(this.contentPath(id), 'utf-8') : undefined;
+  }
+
+  /**
+   * All files, newest first, optionally only those with the given purpose and those whose
+   * owner tag passes `canAccess`
+   */
+  list(purpose?: string, canAccess?: (owner: string | undefined) => boolean): FileObject[] {
+    const files: FileObject[] = [];
+    for (const entry of fs.readdirSync(this.dir)) {
+      const id = entry.endsWith('.json') ? entry.slice(0, -'.json'.length) : undefined;
+      const metadata = id ? this.readMetadata(id) : undefined;
+      if (
+        metadata &&
+        (purpose === undefined || metadata.purpose === purpose) &&
+        (!canAccess || canAccess(metadata.owner))
+      ) {
+        const { owner: _owner, ...file } = metadata;
+        files.push(file);
+      }
+    }
+    return files.sort((a, b) => b.created_at - a.created_at || a.id.localeCompare(b.id));
+  }
+
+  delete(id: string): boolean {
+    if (!this.get(id)) {
+      return false;
+    }
+    fs.rmSync(this.metadataPath(id), { force: true });
+    fs.rmSync(this.contentPath(id), { force: true });
+    logger.debug('Deleted file', { id });
+    return true;
+  }
+}
+
+let storeInstance: FileStore | undefined;
+
+export function getFileStore(): FileStore {
+  if (!storeInstance) {
+    storeInstance = new FileStore(
+      path.join(getConfigManager().getConfig().persistencePath, 'files')
+    );
+  }
+  return storeInstance;
+}
+
+export function setFileStore(store: FileStore): void {
+  storeInstance = store;
+}
+
+export function resetFileStore(): void {
+  storeInstance = undefined;
+}
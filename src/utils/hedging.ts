@@ -0,0 +1,135 @@
+/**
+ * hedging.ts
+ * Hedged requests for short non-streaming work: when the first server is slower than its
+ * usual p95, a duplicate goes to the next-best candidate and the first answer wins
+ */
+
+import { getConfigManager, type HedgingConfig } from '../config/config.js';
+
+/**
+ * Thrown by an attempt whose twin answered first. Not a server failure: it must not
+ * count against circuit breakers, bans or metrics.
+ */
+export class HedgeCancelledError extends Error {
+  constructor() {
+    super('Hedged request cancelled');
+    this.name = 'HedgeCancelledError';
+  }
+}
+
+/** Which attempt of a hedged request answered, if any */
+export type HedgeOutcome = 'primary_won' | 'hedge_won' | 'both_failed';
+
+export interface HedgingStats {
+  enabled: boolean;
+  /** Requests that reached a server while eligible for hedging */
+  eligibleRequests: number;
+  hedgesSent: number;
+  /** Hedges that would have been sent but the extra-load budget was spent */
+  budgetDenied: number;
+  primaryWins: number;
+  hedgeWins: number;
+  bothFailed: number;
+  /** hedgeWins / hedgesSent */
+  hedgeWinRate: number;
+  /** hedgesSent / eligibleRequests */
+  extraLoadRatio: number;
+}
+
+/** Budget tokens that can accumulate while traffic is quiet, so short bursts can still hedge */
+const MAX_BUDGET_TOKENS = 10;
+
+/**
+ * Whether a non-streaming generation is short enough to hedge, judged by its requested
+ * token limit (`num_predict` / `max_tokens`). Generations without a limit are not hedged.
+ */
+export function isShortGeneration(maxTokens: unknown): boolean {
+  const maxGenerateTokens = getConfigManager().getConfig().hedging?.maxGenerateTokens ?? 0;
+  return typeof maxTokens === 'number' && maxTokens > 0 && maxTokens <= maxGenerateTokens;
+}
+
+/**
+ * Hedge budget and win/loss counters. The budget is a token bucket: every eligible
+ * request earns `maxExtraLoadRatio` tokens and every hedge spends one, so hedges stay
+ * within that fraction of eligible traffic over time.
+ */
+export class HedgingManager {
+  private config: HedgingConfig;
+  private budgetTokens = 0;
+  private eligibleRequests = 0;
+  private hedgesSent = 0;
+  private budgetDenied = 0;
+  private outcomes: Record<HedgeOutcome, number> = {
+    primary_won: 0,
+    hedge_won: 0,
+    both_failed: 0,
+  };
+
+  constructor(config: HedgingConfig) {
+    this.config = { ...config };
+  }
+
+  updateConfig(config: Partial<HedgingConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): HedgingConfig {
+    return { ...this.config };
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Delay before hedging an attempt: the server's p95 latency for the model, clamped to
+   * the configured bounds. Undefined when there are too few samples to trust the p95.
+   */
+  getHedgeDelay(p95: number | undefined, sampleCount: number): number | undefined {
+    if (p95 === undefined || p95 <= 0 || sampleCount < this.config.minSamples) {
+      return undefined;
+    }
+    return Math.min(Math.max(p95, this.config.minDelayMs), this.config.maxDelayMs);
+  }
+
+  recordEligible(): void {
+    this.eligibleRequests++;
+    this.budgetTokens = Math.min(
+      this.budgetTokens + this.config.maxExtraLoadRatio,
+      MAX_BUDGET_TOKENS
+    );
+  }
+
+  /**
+   * Spend budget for one hedge. Returns false when the budget is exhausted.
+   */
+  tryAcquire(): boolean {
+    if (this.budgetTokens < 1) {
+      this.budgetDenied++;
+      return false;
+    }
+    this.budgetTokens -= 1;
+    this.hedgesSent++;
+    return true;
+  }
+
+  recordOutcome(outcome: HedgeOutcome): void {
+    this.outcomes[outcome]++;
+  }
+
+  getStats(): HedgingStats {
+    const round = (n: number): number => Math.round(n * 1000) / 1000;
+    return {
+      enabled: this.config.enabled,
+      eligibleRequests: this.eligibleRequests,
+      hedgesSent: this.hedgesSent,
+      budgetDenied: this.budgetDenied,
+      primaryWins: this.outcomes.primary_won,
+      hedgeWins: this.outcomes.hedge_won,
+      bothFailed: this.outcomes.both_failed,
+      hedgeWinRate: this.hedgesSent > 0 ? round(this.outcomes.hedge_won / this.hedgesSent) : 0,
+      extraLoadRatio:
+        this.eligibleRequests > 0 ? round(this.hedgesSent / this.eligibleRequests) : 0,
+    };
+  }
+}
@@ -1,3 +1,5 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
 import { logger } from './logger.js';
 
 export interface InFlightManagerConfig {
@@ -26,15 +28,49 @@ export interface StreamingRequestProgress {
   hasReceivedFirstChunk: boolean; // Whether first chunk has been received (stall detection applies after this)
 }
 
+/**
+ * Requests coalesced onto one leader request (see single-flight.ts). `serverId` and `model`
+ * follow the leader's latest server attempt, so followers are counted where the work happens.
+ */
+export interface CoalescedGroup {
+  followers: number;
+  serverId?: string;
+  model?: string;
+}
+
 export class InFlightManager {
   private inFlight: Map<string, number> = new Map();
   private inFlightBypass: Map<string, number> = new Map();
   private streamingRequests: Map<string, StreamingRequestProgress> = new Map();
+  private coalescedGroups: Set<CoalescedGroup> = new Set();
+  private leaderContext = new AsyncLocalStorage<CoalescedGroup>();
 
   constructor(_config?: InFlightManagerConfig) {}
 
+  /**
+   * Run a coalesced group's leader. Server attempts made from within `fn` (and the async work
+   * it starts) are attributed to the group until endCoalescedGroup is called.
+   */
+  runCoalescedLeader<T>(group: CoalescedGroup, fn: () => T): T {
+    this.coalescedGroups.add(group);
+    return this.leaderContext.run(group, fn);
+  }
+
+  endCoalescedGroup(group: CoalescedGroup): void {
+    this.coalescedGroups.delete(group);
+  }
+
+  private attributeToLeader(serverId: string, model: string): void {
+    const group = this.leaderContext.getStore();
+    if (group) {
+      group.serverId = serverId;
+      group.model = model;
+    }
+  }
+
   incrementInFlight(serverId: string, model: string, bypass: boolean = false): void {
     const key = `${serverId}:${model}`;
+    this.attributeToLeader(serverId, model);
 
     if (bypass) {
       const current = this.inFlightBypass.get(key) ?? 0;
@@ -97,6 +133,7 @@ export class InFlightManager {
     }
 
     // Now increment since we know we're under the limit
+    this.attributeToLeader(serverId, model);
     if (bypass) {
       const currentBypass = this.inFlightBypass.get(key) ?? 0;
       this.inFlightBypass.set(key, currentBypass + 1);
@@ -172,13 +209,23 @@ export class InFlightManager {
     return result;
   }
 
+  /**
+   * In-flight requests per server and model. `coalesced` counts requests waiting on an
+   * identical leader request running on that server rather than making their own.
+   */
   getInFlightDetailed(): Record<
     string,
-    { total: number; byModel: Record<string, { regular: number; bypass: number }> }
+    {
+      total: number;
+      byModel: Record<string, { regular: number; bypass: number; coalesced: number }>;
+    }
   > {
     const result: Record<
       string,
-      { total: number; byModel: Record<string, { regular: number; bypass: number }> }
+      {
+        total: number;
+        byModel: Record<string, { regular: number; bypass: number; coalesced: number }>;
+      }
     > = {};
 
     // Process regular in-flight requests
@@ -191,7 +238,7 @@ export class InFlightManager {
       }
       result[serverId].total += count;
       if (!result[serverId].byModel[model]) {
-        result[serverId].byModel[model] = { regular: 0, bypass: 0 };
+        result[serverId].byModel[model] = { regular: 0, bypass: 0, coalesced: 0 };
       }
       result[serverId].byModel[model].regular = count;
     }
@@ -206,11 +253,24 @@ export class InFlightManager {
       }
       result[serverId].total += count;
       if (!result[serverId].byModel[model]) {
-        result[serverId].byModel[model] = { regular: 0, bypass: 0 };
+        result[serverId].byModel[model] = { regular: 0, bypass: 0, coalesced: 0 };
       }
       result[serverId].byModel[model].bypass = count;
     }
 
+    for (const { followers, serverId, model } of this.coalescedGroups) {
+      if (followers === 0 || serverId === undefined || model === undefined) {
+        continue;
+      }
+      if (!result[serverId]) {
+        result[serverId] = { total: 0, byModel: {} };
+      }
+      if (!result[serverId].byModel[model]) {
+        result[serverId].byModel[model] = { regular: 0, bypass: 0, coalesced: 0 };
+      }
+      result[serverId].byModel[model].coalesced += followers;
+    }
+
     return result;
   }
 
@@ -218,6 +278,7 @@ export class InFlightManager {
     this.inFlight.clear();
     this.inFlightBypass.clear();
     this.streamingRequests.clear();
+    this.coalescedGroups.clear();
   }
 
   /**
@@ -0,0 +1,75 @@
+/**
+ * model-aliases.ts
+ * Virtual model names that resolve to an ordered list of concrete models, so clients
+ * can keep requesting e.g. `chat-default` across model upgrades
+ */
+
+/**
+ * Normalize alias targets from the admin API, which accepts a single model name or a list
+ */
+export function normalizeAliasTargets(targets: unknown): string[] | undefined {
+  const list = typeof targets === 'string' ? [targets] : targets;
+  if (!Array.isArray(list) || list.length === 0) {
+    return undefined;
+  }
+  const normalized = list.map(t => (typeof t === 'string' ? t.trim() : ''));
+  return normalized.every(Boolean) ? normalized : undefined;
+}
+
+/**
+ * Validate an alias registry. Aliases may not point at other aliases, so resolution is
+ * always a single lookup. Returns an error message, or undefined when valid.
+ */
+export function validateModelAliases(aliases: Record<string, string[]>): string | undefined {
+  for (const [alias, targets] of Object.entries(aliases)) {
+    if (!alias.trim()) {
+      return 'Alias names must not be empty';
+    }
+    if (!Array.isArray(targets) || targets.length === 0) {
+      return `Alias '${alias}' must have at least one target model`;
+    }
+    for (const target of targets) {
+      if (typeof target !== 'string' || !target.trim()) {
+        return `Alias '${alias}' has an empty target model`;
+      }
+      if (target in aliases) {
+        return `Alias '${alias}' targets another alias '${target}'`;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Apply aliases persisted through the admin API over those from the config file. An empty
+ * target list is a tombstone: the alias was deleted through the API and stays deleted.
+ */
+export function mergePersistedAliases(
+  configured: Record<string, string[]>,
+  persisted: Record<string, string[]>
+): Record<string, string[]> {
+  const merged = { ...configured, ...persisted };
+  for (const [alias, targets] of Object.entries(persisted)) {
+    if (targets.length === 0) {
+      delete merged[alias];
+    }
+  }
+  return merged;
+}
+
+/**
+ * Resolve a model name through the alias registry.
+ * Returns the first target that `isAvailable` accepts, falling back to the first target
+ * so errors name a concrete model. Names that are not aliases are returned unchanged.
+ */
+export function resolveAliasTarget(
+  model: string,
+  aliases: Record<string, string[]>,
+  isAvailable: (target: string) => boolean
+): string {
+  const targets = Object.prototype.hasOwnProperty.call(aliases, model) ? aliases[model] : undefined;
+  if (!targets || targets.length === 0) {
+    return model;
+  }
+  return targets.find(isAvailable) ?? targets[0];
+}
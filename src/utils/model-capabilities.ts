@@ -0,0 +1,255 @@
+/**
+ * model-capabilities.ts
+ * Per-server model capabilities (vision, tools, ...) from Ollama's /api/show and digests from
+ * /api/tags, cached so requests that need a capability can be routed only to servers whose
+ * model has it
+ */
+
+import { createHash } from 'crypto';
+
+import { API_ENDPOINTS } from '../constants/index.js';
+import type { AIServer } from '../orchestrator.types.js';
+
+import { fetchWithTimeout } from './fetchWithTimeout.js';
+import { safeJsonStringify } from './json-utils.js';
+import { logger } from './logger.js';
+import { getBackendHeaders } from './protocol-translation.js';
+
+/** How long a server's reported capabilities are trusted */
+const CAPABILITY_TTL_MS = 10 * 60 * 1000;
+
+/** How long a failed lookup is remembered, so a down server is not asked on every request */
+const FAILED_LOOKUP_TTL_MS = 30 * 1000;
+
+const SHOW_TIMEOUT_MS = 5000;
+
+/** Start of the routing error when no server's copy of a model has a required capability */
+export const MISSING_CAPABILITY_ERROR = 'No available server supports';
+
+/** Model families of vision models on Ollama versions that predate `capabilities` */
+const VISION_FAMILIES = ['clip', 'mllama'];
+
+interface ModelInfo {
+  capabilities: string[];
+  digest?: string;
+}
+
+interface CachedModelInfo extends ModelInfo {
+  expiresAt: number;
+}
+
+interface CachedDigests {
+  /** Digest of each model the server lists, by name */
+  digests: Map<string, string>;
+  expiresAt: number;
+}
+
+interface ShowResponse {
+  capabilities?: unknown;
+  digest?: unknown;
+  details?: { families?: unknown };
+  model_info?: unknown;
+}
+
+interface TagsResponse {
+  models?: Array<{ name?: unknown; model?: unknown; digest?: unknown }>;
+}
+
+/**
+ * Capabilities listed in an /api/show response
+ */
+export function parseCapabilities(data: ShowResponse): string[] {
+  if (Array.isArray(data.capabilities)) {
+    return data.capabilities.filter(
+      (capability): capability is string => typeof capability === 'string'
+    );
+  }
+  const families = Array.isArray(data.details?.families) ? data.details.families : [];
+  return families.some(family => VISION_FAMILIES.includes(family as string))
+    ? ['completion', 'vision']
+    : ['completion'];
+}
+
+/**
+ * Identity of the model weights in an /api/show response, for servers whose /api/tags lists
+ * no digest: the digest when the response has one, otherwise a hash of the model's details and
+ * metadata, which change with the weights (unlike `modified_at`, which is the server's own pull
+ * time)
+ */
+export function parseDigest(data: ShowResponse): string {
+  if (typeof data.digest === 'string' && data.digest) {
+    return data.digest;
+  }
+  return createHash('sha256')
+    .update(JSON.stringify([data.details ?? null, data.model_info ?? null]))
+    .digest('hex')
+    .slice(0, 32);
+}
+
+export class ModelCapabilities {
+  private cache = new Map<string, CachedModelInfo>();
+  private pending = new Map<string, Promise<ModelInfo>>();
+  private digestCache = new Map<string, CachedDigests>();
+  private pendingDigests = new Map<string, Promise<Map<string, string>>>();
+
+  /**
+   * Capabilities of a model on a server; empty when the server cannot say (no Ollama API,
+   * unreachable, unknown model)
+   */
+  async get(server: AIServer, model: string): Promise<string[]> {
+    return (await this.info(server, model)).capabilities;
+  }
+
+  /**
+   * Digest of a model on a server: the manifest digest /api/tags lists, which is the same on
+   * every server holding the same model, else a fingerprint from /api/show. Undefined when the
+   * server cannot say.
+   */
+  async getDigest(server: AIServer, model: string): Promise<string | undefined> {
+    const digests = await this.listDigests(server);
+    return (
+      digests.get(model) ??
+      (model.includes(':') ? undefined : digests.get(`${model}:latest`)) ??
+      (await this.info(server, model)).digest
+    );
+  }
+
+  /**
+   * Digest of a model on the first healthy Ollama server that has it
+   */
+  async findDigest(servers: AIServer[], model: string): Promise<string | undefined> {
+    const server = servers.find(
+      s =>
+        s.healthy &&
+        s.supportsOllama !== false &&
+        (s.models.includes(model) || s.models.includes(`${model}:latest`))
+    );
+    return server ? this.getDigest(server, model) : undefined;
+  }
+
+  private async info(server: AIServer, model: string): Promise<ModelInfo> {
+    const key = `${server.id}:${model}`;
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached;
+    }
+    if (server.supportsOllama === false) {
+      return { capabilities: [] };
+    }
+
+    let lookup = this.pending.get(key);
+    if (!lookup) {
+      lookup = this.fetch(server, model).finally(() => this.pending.delete(key));
+      this.pending.set(key, lookup);
+    }
+    return lookup;
+  }
+
+  private async fetch(server: AIServer, model: string): Promise<ModelInfo> {
+    const key = `${server.id}:${model}`;
+    try {
+      const response = await fetchWithTimeout(`${server.url}${API_ENDPOINTS.OLLAMA.SHOW}`, {
+        method: 'POST',
+        headers: getBackendHeaders(server),
+        body: safeJsonStringify({ model }),
+        timeout: SHOW_TIMEOUT_MS,
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const data = (await response.json()) as ShowResponse;
+      const info = { capabilities: parseCapabilities(data), digest: parseDigest(data) };
+      this.cache.set(key, { ...info, expiresAt: Date.now() + CAPABILITY_TTL_MS });
+      return info;
+    } catch (error) {
+      logger.warn(`Could not read capabilities of ${model} on ${server.id}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      this.cache.set(key, { capabilities: [], expiresAt: Date.now() + FAILED_LOOKUP_TTL_MS });
+      return { capabilities: [] };
+    }
+  }
+
+  /**
+   * Digests of the models a server lists in /api/tags, cached like capabilities
+   */
+  private async listDigests(server: AIServer): Promise<Map<string, string>> {
+    const cached = this.digestCache.get(server.id);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.digests;
+    }
+    if (server.supportsOllama === false) {
+      return new Map();
+    }
+
+    let lookup = this.pendingDigests.get(server.id);
+    if (!lookup) {
+      lookup = this.fetchDigests(server).finally(() => this.pendingDigests.delete(server.id));
+      this.pendingDigests.set(server.id, lookup);
+    }
+    return lookup;
+  }
+
+  private async fetchDigests(server: AIServer): Promise<Map<string, string>> {
+    const digests = new Map<string, string>();
+    try {
+      const response = await fetchWithTimeout(`${server.url}${API_ENDPOINTS.OLLAMA.TAGS}`, {
+        headers: getBackendHeaders(server),
+        timeout: SHOW_TIMEOUT_MS,
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const data = (await response.json()) as TagsResponse;
+      for (const entry of data.models ?? []) {
+        const name = typeof entry.name === 'string' ? entry.name : entry.model;
+        if (typeof name === 'string' && typeof entry.digest === 'string' && entry.digest) {
+          digests.set(name, entry.digest);
+        }
+      }
+      this.digestCache.set(server.id, { digests, expiresAt: Date.now() + CAPABILITY_TTL_MS });
+    } catch (error) {
+      logger.warn(`Could not read model digests on ${server.id}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      this.digestCache.set(server.id, { digests, expiresAt: Date.now() + FAILED_LOOKUP_TTL_MS });
+    }
+    return digests;
+  }
+
+  /**
+   * The servers whose model has every required capability. `resolveModel` gives the name
+   * the server knows the model by.
+   */
+  async filterServers(
+    servers: AIServer[],
+    required: string[],
+    resolveModel: (server: AIServer) => string
+  ): Promise<AIServer[]> {
+    const capable = await Promise.all(
+      servers.map(async server => {
+        const capabilities = await this.get(server, resolveModel(server));
+        return required.every(capability => capabilities.includes(capability));
+      })
+    );
+    return servers.filter((_, index) => capable[index]);
+  }
+
+  clear(): void {
+    this.cache.clear();
+    this.digestCache.clear();
+  }
+}
+
+let capabilitiesInstance: ModelCapabilities | undefined;
+
+export function getModelCapabilities(): ModelCapabilities {
+  if (!capabilitiesInstance) {
+    capabilitiesInstance = new ModelCapabilities();
+  }
+  return capabilitiesInstance;
+}
+
+export function resetModelCapabilities(): void {
+  capabilitiesInstance = undefined;
+}
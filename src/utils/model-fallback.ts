@@ -0,0 +1,103 @@
+/**
+ * model-fallback.ts
+ * Cross-model fallback chains: substitute models tried once every server holding the
+ * requested model has failed or is unavailable
+ */
+
+import type { Request } from 'express';
+
+import { getConfigManager } from '../config/config.js';
+import { extractApiKey } from '../middleware/auth.js';
+
+import { resolveApiKey } from './api-keys.js';
+
+export const ALLOW_FALLBACK_HEADER = 'x-allow-fallback';
+
+/**
+ * Validate a fallback chain registry. Returns an error message, or undefined when valid.
+ */
+export function validateModelFallbacks(fallbacks: Record<string, string[]>): string | undefined {
+  for (const [model, chain] of Object.entries(fallbacks)) {
+    if (!model.trim()) {
+      return 'Fallback chain model names must not be empty';
+    }
+    if (!Array.isArray(chain) || chain.length === 0) {
+      return `Fallback chain for '${model}' must list at least one model`;
+    }
+    for (const fallback of chain) {
+      if (typeof fallback !== 'string' || !fallback.trim()) {
+        return `Fallback chain for '${model}' has an empty model name`;
+      }
+      if (fallback === model) {
+        return `Fallback chain for '${model}' lists the model itself`;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Look up the fallback chain for a model, treating `name` and `name:latest` as the same model
+ */
+export function getFallbackChain(model: string, fallbacks: Record<string, string[]>): string[] {
+  const has = (key: string): boolean => Object.prototype.hasOwnProperty.call(fallbacks, key);
+  if (has(model)) {
+    return fallbacks[model];
+  }
+  if (!model.includes(':') && has(`${model}:latest`)) {
+    return fallbacks[`${model}:latest`];
+  }
+  if (model.endsWith(':latest') && has(model.slice(0, -':latest'.length))) {
+    return fallbacks[model.slice(0, -':latest'.length)];
+  }
+  return [];
+}
+
+/**
+ * The model an attempt of tryRequestWithFailover must send to its server: once the
+ * requested model's servers are exhausted, a fallback chain hands each attempt a substitute
+ * through its context
+ */
+export function resolveAttemptModel(
+  context: { model?: string } | undefined,
+  requestedModel: string
+): string {
+  return context?.model ?? requestedModel;
+}
+
+function parseAllowFallback(value: unknown): boolean | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  switch (value.trim().toLowerCase()) {
+    case 'true':
+    case '1':
+    case 'yes':
+      return true;
+    case 'false':
+    case '0':
+    case 'no':
+      return false;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Whether an inference request opted into fallback chains, via the X-Allow-Fallback
+ * header or an API key listed in `security.fallbackApiKeys`. The header wins, so a
+ * client using an opted-in key can still insist on the exact model.
+ */
+export function resolveAllowFallback(req: Request): boolean {
+  const headerValue = parseAllowFallback(req.headers?.[ALLOW_FALLBACK_HEADER]);
+  if (headerValue !== undefined) {
+    return headerValue;
+  }
+
+  const fallbackApiKeys = getConfigManager().getConfig().security?.fallbackApiKeys;
+  if (!fallbackApiKeys || fallbackApiKeys.length === 0) {
+    return false;
+  }
+  const apiKey = extractApiKey(req);
+  return apiKey !== null && fallbackApiKeys.some(key => resolveApiKey(key) === apiKey);
+}
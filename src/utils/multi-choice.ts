@@ -0,0 +1,92 @@
+/**
+ * multi-choice.ts
+ * OpenAI `n > 1`: each sample is its own sub-request, fanned out across servers by the load
+ * balancer, and the sub-responses are merged back into one multi-choice response or stream
+ */
+
+/** OpenAI's upper bound for `n` */
+export const MAX_CHOICES = 128;
+
+/** OpenAI token usage */
+export interface Usage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate `n`. Returns an error message, or undefined when valid.
+ */
+export function validateChoiceCount(n: unknown): string | undefined {
+  if (n === undefined || n === null) {
+    return undefined;
+  }
+  if (typeof n !== 'number' || !Number.isInteger(n) || n < 1 || n > MAX_CHOICES) {
+    return `n must be an integer between 1 and ${MAX_CHOICES}`;
+  }
+  return undefined;
+}
+
+/**
+ * The body of one sample's sub-request: a single choice, and with a `seed` the sample's own
+ * seed so samples differ but the whole set stays reproducible
+ */
+export function toSampleBody(body: JsonObject, sample: number): JsonObject {
+  const { n: _n, ...rest } = body;
+  if (typeof body.seed === 'number') {
+    rest.seed = body.seed + sample;
+  }
+  return rest;
+}
+
+export function emptyUsage(): Usage {
+  return { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+}
+
+/**
+ * Add a sub-response's `usage` to a running total
+ */
+export function addUsage(total: Usage, usage: unknown): void {
+  if (!isObject(usage)) {
+    return;
+  }
+  for (const key of ['prompt_tokens', 'completion_tokens', 'total_tokens'] as const) {
+    const value = usage[key];
+    if (typeof value === 'number') {
+      total[key] += value;
+    }
+  }
+}
+
+/**
+ * Merge single-choice completions into one: choice i comes from sample i, usage is summed
+ */
+export function mergeCompletions(completions: JsonObject[], responseId: string): JsonObject {
+  const usage = emptyUsage();
+  const choices = completions.map((completion, sample) => {
+    addUsage(usage, completion.usage);
+    const choice = Array.isArray(completion.choices) ? completion.choices[0] : undefined;
+    return { ...(isObject(choice) ? choice : {}), index: sample };
+  });
+  return { ...completions[0], id: responseId, choices, usage };
+}
+
+/**
+ * A sample's stream chunk as part of the merged stream: the shared response ID, the sample's
+ * choice index, and no per-sample usage (the merged stream reports the sum at the end)
+ */
+export function toChoiceChunk(chunk: JsonObject, sample: number, responseId: string): JsonObject {
+  const { usage: _usage, ...rest } = chunk;
+  const choices = Array.isArray(chunk.choices) ? chunk.choices : [];
+  return {
+    ...rest,
+    id: responseId,
+    choices: choices.map(choice => ({ ...(isObject(choice) ? choice : {}), index: sample })),
+  };
+}
@@ -0,0 +1,785 @@
+/**
+ * protocol-translation.ts
+ * Translation between the Ollama and OpenAI APIs, so a server that speaks only one of them
+ * can serve clients of the other: request bodies, responses and streams in both directions
+ */
+
+import { getConfigManager } from '../config/config.js';
+import { API_ENDPOINTS } from '../constants/index.js';
+import type { AIServer } from '../orchestrator.types.js';
+
+import { resolveApiKey } from './api-keys.js';
+import { safeJsonParse, safeJsonStringify } from './json-utils.js';
+import { toolsForChoice } from './tool-calling.js';
+
+/** Ollama endpoints that can be served by an OpenAI-only server */
+export type OllamaTranslatedEndpoint = 'chat' | 'generate';
+
+/** OpenAI endpoints that can be served by an Ollama-only server */
+export type OpenAITranslatedEndpoint = 'chat' | 'completions';
+
+/** A request rewritten for the other API */
+export interface TranslatedRequest {
+  path: string;
+  body: Record<string, unknown>;
+}
+
+type JsonObject = Record<string, unknown>;
+
+/** Ollama `options` keys with an OpenAI request parameter of the same meaning */
+const OLLAMA_OPTION_TO_OPENAI: Record<string, string> = {
+  temperature: 'temperature',
+  top_p: 'top_p',
+  num_predict: 'max_tokens',
+  stop: 'stop',
+  seed: 'seed',
+  presence_penalty: 'presence_penalty',
+  frequency_penalty: 'frequency_penalty',
+};
+
+/** Base64 prefixes of the image formats Ollama accepts, for building data URLs */
+const IMAGE_SIGNATURES: Array<[string, string]> = [
+  ['/9j/', 'image/jpeg'],
+  ['iVBORw0KGgo', 'image/png'],
+  ['R0lGOD', 'image/gif'],
+  ['UklGR', 'image/webp'],
+];
+
+const NANOS_PER_MS = 1_000_000;
+
+/**
+ * Whether servers may serve clients of the API they lack through translation
+ */
+export function isProtocolTranslationEnabled(): boolean {
+  return getConfigManager().getConfig().enableProtocolTranslation !== false;
+}
+
+/**
+ * Get headers for backend requests including optional auth
+ */
+export function getBackendHeaders(server: AIServer): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  const resolvedKey = resolveApiKey(server.apiKey);
+  if (resolvedKey) {
+    headers['Authorization'] = `Bearer ${resolvedKey}`;
+  }
+  return headers;
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toDataUrl(image: string): string {
+  if (image.startsWith('data:')) {
+    return image;
+  }
+  const mimeType = IMAGE_SIGNATURES.find(([prefix]) => image.startsWith(prefix))?.[1];
+  return `data:${mimeType ?? 'image/png'};base64,${image}`;
+}
+
+/** Base64 payload of a data URL, or undefined for remote URLs Ollama cannot fetch */
+function fromDataUrl(url: string): string | undefined {
+  const match = /^data:[^;,]*;base64,(.*)$/s.exec(url);
+  return match?.[1];
+}
+
+/** Parse tool call arguments, which OpenAI sends as a JSON string and Ollama as an object */
+function parseToolArguments(args: unknown): JsonObject {
+  if (isObject(args)) {
+    return args;
+  }
+  const parsed = typeof args === 'string' ? safeJsonParse(args) : null;
+  return isObject(parsed) ? parsed : {};
+}
+
+function stringifyToolArguments(args: unknown): string {
+  return typeof args === 'string' ? args : (safeJsonStringify(args ?? {}) ?? '{}');
+}
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+// ============================================================================
+// Ollama client -> OpenAI server
+// ============================================================================
+
+/**
+ * Map Ollama `options` and `format` onto OpenAI request parameters
+ */
+function ollamaParamsToOpenAI(body: JsonObject): JsonObject {
+  const params: JsonObject = {};
+  const options = isObject(body.options) ? body.options : {};
+  for (const [option, param] of Object.entries(OLLAMA_OPTION_TO_OPENAI)) {
+    if (options[option] !== undefined) {
+      params[param] = options[option];
+    }
+  }
+  // Ollama treats a negative num_predict as "no limit"
+  if (typeof params.max_tokens === 'number' && params.max_tokens < 0) {
+    delete params.max_tokens;
+  }
+
+  if (body.format === 'json') {
+    params.response_format = { type: 'json_object' };
+  } else if (isObject(body.format)) {
+    params.response_format = {
+      type: 'json_schema',
+      json_schema: { name: 'response', schema: body.format },
+    };
+  }
+  return params;
+}
+
+/**
+ * Convert Ollama chat messages to OpenAI messages. Ollama tool calls carry no IDs, so IDs
+ * are synthesized and each tool result is linked to the earliest pending call of the same
+ * function (or the earliest pending call when the result names no function).
+ */
+function ollamaMessagesToOpenAI(messages: unknown[]): JsonObject[] {
+  const pendingCalls: Array<{ id: string; name?: string }> = [];
+
+  return messages.filter(isObject).map((message, messageIndex) => {
+    const role = message.role;
+    const content = typeof message.content === 'string' ? message.content : '';
+    const images = Array.isArray(message.images)
+      ? message.images.filter((image): image is string => typeof image === 'string')
+      : [];
+
+    if (role === 'assistant' && Array.isArray(message.tool_calls)) {
+      const toolCalls = message.tool_calls.filter(isObject).map((call, callIndex) => {
+        const fn = isObject(call.function) ? call.function : {};
+        const id = typeof call.id === 'string' ? call.id : `call_${messageIndex}_${callIndex}`;
+        const name = typeof fn.name === 'string' ? fn.name : undefined;
+        pendingCalls.push({ id, name });
+        return {
+          id,
+          type: 'function',
+          function: { name, arguments: stringifyToolArguments(fn.arguments) },
+        };
+      });
+      return { role, content: content || null, tool_calls: toolCalls };
+    }
+
+    if (role === 'tool') {
+      const name = message.tool_name ?? message.name;
+      const matchIndex = pendingCalls.findIndex(call => call.name === name);
+      const [call] = pendingCalls.splice(Math.max(matchIndex, 0), 1);
+      return { role, content, tool_call_id: call?.id ?? `call_${messageIndex}` };
+    }
+
+    if (images.length > 0) {
+      return {
+        role,
+        content: [
+          ...(content ? [{ type: 'text', text: content }] : []),
+          ...images.map(image => ({ type: 'image_url', image_url: { url: toDataUrl(image) } })),
+        ],
+      };
+    }
+    return { role, content };
+  });
+}
+
+/**
+ * Rewrite an Ollama /api/chat or /api/generate body for an OpenAI-compatible server.
+ * Generate requests become chat completions with the system prompt and prompt as
+ * messages; `raw` prompts skip the chat template via /v1/completions instead.
+ */
+export function ollamaRequestToOpenAI(
+  endpoint: OllamaTranslatedEndpoint,
+  body: JsonObject,
+  stream: boolean
+): TranslatedRequest {
+  const common: JsonObject = {
+    model: body.model,
+    stream,
+    ...(stream && { stream_options: { include_usage: true } }),
+    ...ollamaParamsToOpenAI(body),
+  };
+
+  if (endpoint === 'chat') {
+    return {
+      path: API_ENDPOINTS.OPENAI.CHAT_COMPLETIONS,
+      body: {
+        ...common,
+        messages: ollamaMessagesToOpenAI(Array.isArray(body.messages) ? body.messages : []),
+        ...(Array.isArray(body.tools) && body.tools.length > 0 && { tools: body.tools }),
+      },
+    };
+  }
+
+  const prompt = typeof body.prompt === 'string' ? body.prompt : '';
+  if (body.raw === true) {
+    return {
+      path: API_ENDPOINTS.OPENAI.COMPLETIONS,
+      body: { ...common, prompt, ...(typeof body.suffix === 'string' && { suffix: body.suffix }) },
+    };
+  }
+
+  const messages: unknown[] = [];
+  if (typeof body.system === 'string' && body.system) {
+    messages.push({ role: 'system', content: body.system });
+  }
+  messages.push({ role: 'user', content: prompt, images: body.images });
+  return {
+    path: API_ENDPOINTS.OPENAI.CHAT_COMPLETIONS,
+    body: { ...common, messages: ollamaMessagesToOpenAI(messages) },
+  };
+}
+
+function openAIFinishReasonToOllama(finishReason: unknown): string {
+  return finishReason === 'length' ? 'length' : 'stop';
+}
+
+function openAIToolCallsToOllama(toolCalls: unknown): JsonObject[] | undefined {
+  if (!Array.isArray(toolCalls) || toolCalls.length === 0) {
+    return undefined;
+  }
+  return toolCalls.filter(isObject).map(call => {
+    const fn = isObject(call.function) ? call.function : {};
+    return { function: { name: fn.name, arguments: parseToolArguments(fn.arguments) } };
+  });
+}
+
+/**
+ * Usage counts and timings in Ollama's final-chunk fields. Durations are measured by the
+ * orchestrator, since OpenAI servers do not report them.
+ */
+function ollamaUsageFields(
+  usage: unknown,
+  startTime: number,
+  firstTokenTime: number | undefined,
+  endTime: number
+): JsonObject {
+  const fields: JsonObject = { total_duration: (endTime - startTime) * NANOS_PER_MS };
+  if (firstTokenTime !== undefined) {
+    fields.prompt_eval_duration = (firstTokenTime - startTime) * NANOS_PER_MS;
+    fields.eval_duration = (endTime - firstTokenTime) * NANOS_PER_MS;
+  }
+  if (isObject(usage)) {
+    if (typeof usage.prompt_tokens === 'number') {
+      fields.prompt_eval_count = usage.prompt_tokens;
+    }
+    if (typeof usage.completion_tokens === 'number') {
+      fields.eval_count = usage.completion_tokens;
+    }
+  }
+  return fields;
+}
+
+/**
+ * Convert a non-streaming OpenAI chat or text completion to an Ollama chat/generate response
+ */
+export function openAIResponseToOllama(
+  endpoint: OllamaTranslatedEndpoint,
+  data: JsonObject,
+  model: string,
+  startTime: number
+): JsonObject {
+  const choice = Array.isArray(data.choices) && isObject(data.choices[0]) ? data.choices[0] : {};
+  const message = isObject(choice.message) ? choice.message : {};
+  const text =
+    typeof message.content === 'string'
+      ? message.content
+      : typeof choice.text === 'string'
+        ? choice.text
+        : '';
+  const toolCalls = openAIToolCallsToOllama(message.tool_calls);
+
+  return {
+    model,
+    created_at: new Date().toISOString(),
+    ...(endpoint === 'chat'
+      ? {
+          message: {
+            role: 'assistant',
+            content: text,
+            ...(toolCalls && { tool_calls: toolCalls }),
+          },
+        }
+      : { response: text }),
+    done: true,
+    done_reason: openAIFinishReasonToOllama(choice.finish_reason),
+    ...ollamaUsageFields(data.usage, startTime, undefined, Date.now()),
+  };
+}
+
+/**
+ * Wrap an OpenAI SSE response in a Response carrying the equivalent Ollama NDJSON stream,
+ * so the regular Ollama streaming path can relay it. Tool call argument fragments are
+ * collected and emitted whole, as Ollama does, before the final `done` chunk.
+ */
+export function openAIStreamToOllama(
+  upstream: globalThis.Response,
+  endpoint: OllamaTranslatedEndpoint,
+  model: string
+): globalThis.Response {
+  const reader = upstream.body?.getReader();
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  const startTime = Date.now();
+  let firstTokenTime: number | undefined;
+  let finishReason: unknown;
+  let usage: unknown;
+  let buffer = '';
+  let finished = false;
+  const toolCalls = new Map<number, { name: string; arguments: string }>();
+
+  const line = (fields: JsonObject): string =>
+    `${safeJsonStringify({ model, created_at: new Date().toISOString(), ...fields })}\n`;
+
+  const contentFields = (content: string): JsonObject =>
+    endpoint === 'chat' ? { message: { role: 'assistant', content } } : { response: content };
+
+  const finish = (): string => {
+    finished = true;
+    let out = '';
+    if (toolCalls.size > 0) {
+      const calls = [...toolCalls.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([, call]) => ({
+          function: { name: call.name, arguments: parseToolArguments(call.arguments) },
+        }));
+      out += line({ message: { role: 'assistant', content: '', tool_calls: calls }, done: false });
+    }
+    return (
+      out +
+      line({
+        ...contentFields(''),
+        done: true,
+        done_reason: openAIFinishReasonToOllama(finishReason),
+        ...ollamaUsageFields(usage, startTime, firstTokenTime, Date.now()),
+      })
+    );
+  };
+
+  const translateEvent = (data: string): string => {
+    if (data === '[DONE]') {
+      return finished ? '' : finish();
+    }
+    const event = safeJsonParse(data);
+    if (!isObject(event)) {
+      return '';
+    }
+    if (event.error !== undefined) {
+      const message = isObject(event.error) ? event.error.message : event.error;
+      return line({ error: String(message ?? 'Upstream error') });
+    }
+    if (event.usage) {
+      usage = event.usage;
+    }
+
+    const choice =
+      Array.isArray(event.choices) && isObject(event.choices[0]) ? event.choices[0] : undefined;
+    if (!choice) {
+      return '';
+    }
+    if (choice.finish_reason) {
+      finishReason = choice.finish_reason;
+    }
+
+    const delta = isObject(choice.delta) ? choice.delta : {};
+    if (Array.isArray(delta.tool_calls)) {
+      for (const [position, fragment] of delta.tool_calls.filter(isObject).entries()) {
+        const index = typeof fragment.index === 'number' ? fragment.index : position;
+        const fn = isObject(fragment.function) ? fragment.function : {};
+        const call = toolCalls.get(index) ?? { name: '', arguments: '' };
+        call.name += typeof fn.name === 'string' ? fn.name : '';
+        call.arguments += typeof fn.arguments === 'string' ? fn.arguments : '';
+        toolCalls.set(index, call);
+      }
+    }
+
+    const content =
+      typeof delta.content === 'string'
+        ? delta.content
+        : typeof choice.text === 'string'
+          ? choice.text
+          : '';
+    if (!content) {
+      return '';
+    }
+    firstTokenTime ??= Date.now();
+    return line({ ...contentFields(content), done: false });
+  };
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (!reader) {
+        controller.enqueue(encoder.encode(finish()));
+        controller.close();
+        return;
+      }
+      // Keep reading until there is a translated line to hand on or the stream ends
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          buffer += decoder.decode();
+          let out = buffer.startsWith('data:') ? translateEvent(buffer.slice(5).trim()) : '';
+          buffer = '';
+          if (!finished) {
+            out += finish();
+          }
+          if (out) {
+            controller.enqueue(encoder.encode(out));
+          }
+          controller.close();
+          return;
+        }
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        const out = lines
+          .map(l => l.trim())
+          .filter(l => l.startsWith('data:'))
+          .map(l => translateEvent(l.slice(5).trim()))
+          .join('');
+        if (out) {
+          controller.enqueue(encoder.encode(out));
+          return;
+        }
+      }
+    },
+    cancel(reason) {
+      return reader?.cancel(reason);
+    },
+  });
+
+  return new Response(body, {
+    status: upstream.status,
+    headers: { 'Content-Type': 'application/x-ndjson' },
+  });
+}
+
+// ============================================================================
+// OpenAI client -> Ollama server
+// ============================================================================
+
+/**
+ * Map OpenAI sampling parameters onto Ollama `options`, and `response_format` onto `format`
+ */
+function openAIParamsToOllama(body: JsonObject): JsonObject {
+  const options: JsonObject = {};
+  for (const [option, param] of Object.entries(OLLAMA_OPTION_TO_OPENAI)) {
+    if (body[param] !== undefined && body[param] !== null) {
+      options[option] = body[param];
+    }
+  }
+  if (typeof options.stop === 'string') {
+    options.stop = [options.stop];
+  }
+
+  const params: JsonObject = Object.keys(options).length > 0 ? { options } : {};
+  const responseFormat = isObject(body.response_format) ? body.response_format : {};
+  if (responseFormat.type === 'json_object') {
+    params.format = 'json';
+  } else if (responseFormat.type === 'json_schema' && isObject(responseFormat.json_schema)) {
+    params.format = responseFormat.json_schema.schema;
+  }
+  return params;
+}
+
+/**
+ * Convert OpenAI chat messages to Ollama messages: content parts become text plus base64
+ * images, and tool results name the function whose call ID they answer
+ */
+function openAIMessagesToOllama(messages: unknown[]): JsonObject[] {
+  const callNames = new Map<string, string>();
+
+  return messages.filter(isObject).map(message => {
+    const result: JsonObject = { role: message.role, content: '' };
+
+    if (typeof message.content === 'string') {
+      result.content = message.content;
+    } else if (Array.isArray(message.content)) {
+      const parts = message.content.filter(isObject);
+      result.content = parts
+        .filter(part => part.type === 'text' && typeof part.text === 'string')
+        .map(part => part.text)
+        .join('\n');
+      const images = parts
+        .filter(part => part.type === 'image_url')
+        .map(part => {
+          const imageUrl = part.image_url;
+          const url = isObject(imageUrl) ? imageUrl.url : imageUrl;
+          return typeof url === 'string' ? fromDataUrl(url) : undefined;
+        })
+        .filter((image): image is string => image !== undefined);
+      if (images.length > 0) {
+        result.images = images;
+      }
+    }
+
+    if (Array.isArray(message.tool_calls)) {
+      result.tool_calls = message.tool_calls.filter(isObject).map(call => {
+        const fn = isObject(call.function) ? call.function : {};
+        if (typeof call.id === 'string' && typeof fn.name === 'string') {
+          callNames.set(call.id, fn.name);
+        }
+        return { function: { name: fn.name, arguments: parseToolArguments(fn.arguments) } };
+      });
+    }
+
+    if (message.role === 'tool') {
+      const name =
+        (typeof message.tool_call_id === 'string' && callNames.get(message.tool_call_id)) ||
+        message.name;
+      if (typeof name === 'string' && name) {
+        result.tool_name = name;
+      }
+    }
+    return result;
+  });
+}
+
+/**
+ * Rewrite an OpenAI chat or text completion body as an Ollama /api/chat or /api/generate
+ * request. Only the first prompt of a batched completion request is used.
+ */
+export function openAIRequestToOllama(
+  endpoint: OpenAITranslatedEndpoint,
+  body: JsonObject,
+  stream: boolean
+): TranslatedRequest {
+  const common: JsonObject = { model: body.model, stream, ...openAIParamsToOllama(body) };
+
+  if (endpoint === 'chat') {
+    const tools = toolsForChoice(body.tools, body.tool_choice);
+    return {
+      path: API_ENDPOINTS.OLLAMA.CHAT,
+      body: {
+        ...common,
+        messages: openAIMessagesToOllama(Array.isArray(body.messages) ? body.messages : []),
+        // Ollama has no tool_choice, so it is applied by narrowing the tool list
+        ...(tools && { tools }),
+      },
+    };
+  }
+
+  const prompt = Array.isArray(body.prompt) ? body.prompt[0] : body.prompt;
+  return {
+    path: API_ENDPOINTS.OLLAMA.GENERATE,
+    body: {
+      ...common,
+      prompt: typeof prompt === 'string' ? prompt : '',
+      ...(typeof body.suffix === 'string' && { suffix: body.suffix }),
+    },
+  };
+}
+
+/**
+ * The upstream request for an OpenAI chat or text completion body: translated for an
+ * Ollama-only server, otherwise the body itself with the tool list narrowed to `tool_choice`.
+ * Streams always ask for usage, so the orchestrator can account for it.
+ */
+export function buildOpenAIRequest(
+  endpoint: OpenAITranslatedEndpoint,
+  body: JsonObject,
+  translate: boolean,
+  stream: boolean
+): TranslatedRequest {
+  if (translate) {
+    return openAIRequestToOllama(endpoint, body, stream);
+  }
+  const { tools: _tools, tool_choice: toolChoice, stream_options: _options, ...rest } = body;
+  const tools = toolsForChoice(body.tools, toolChoice);
+  return {
+    path:
+      endpoint === 'chat'
+        ? API_ENDPOINTS.OPENAI.CHAT_COMPLETIONS
+        : API_ENDPOINTS.OPENAI.COMPLETIONS,
+    body: {
+      ...rest,
+      ...(tools && { tools }),
+      ...(tools && toolChoice !== undefined && { tool_choice: toolChoice }),
+      stream,
+      ...(stream && { stream_options: { include_usage: true } }),
+    },
+  };
+}
+
+/**
+ * The upstream request for an Ollama chat or generate body. Servers without the Ollama API
+ * get the request translated for their OpenAI-compatible endpoints.
+ */
+export function buildOllamaRequest(
+  server: AIServer,
+  endpoint: OllamaTranslatedEndpoint,
+  body: object,
+  stream: boolean
+): { url: string; headers: Record<string, string>; body: object; translated: boolean } {
+  if (server.supportsOllama === false) {
+    const translated = ollamaRequestToOpenAI(endpoint, { ...body } as JsonObject, stream);
+    return {
+      url: `${server.url}${translated.path}`,
+      headers: getBackendHeaders(server),
+      body: translated.body,
+      translated: true,
+    };
+  }
+  const path = endpoint === 'chat' ? API_ENDPOINTS.OLLAMA.CHAT : API_ENDPOINTS.OLLAMA.GENERATE;
+  return {
+    url: `${server.url}${path}`,
+    headers: { 'Content-Type': 'application/json' },
+    body: { ...body, stream },
+    translated: false,
+  };
+}
+
+/**
+ * OpenAI tool calls for Ollama ones, with IDs synthesized from the response ID. A stream
+ * passes the number of calls it already emitted as `firstIndex`, since Ollama sends each
+ * chunk's calls without indexes and OpenAI clients merge stream deltas by index.
+ */
+export function ollamaToolCallsToOpenAI(
+  toolCalls: unknown,
+  responseId: string,
+  firstIndex = 0
+): JsonObject[] | undefined {
+  if (!Array.isArray(toolCalls) || toolCalls.length === 0) {
+    return undefined;
+  }
+  return toolCalls.filter(isObject).map((call, position) => {
+    const fn = isObject(call.function) ? call.function : {};
+    const index = firstIndex + position;
+    return {
+      index,
+      id: typeof call.id === 'string' ? call.id : `call_${responseId}_${index}`,
+      type: 'function',
+      function: { name: fn.name, arguments: stringifyToolArguments(fn.arguments) },
+    };
+  });
+}
+
+/**
+ * OpenAI finish_reason for a finished Ollama response
+ */
+export function ollamaFinishReasonToOpenAI(data: JsonObject, hasToolCalls: boolean): string {
+  if (hasToolCalls) {
+    return 'tool_calls';
+  }
+  return data.done_reason === 'length' || data.truncated === true ? 'length' : 'stop';
+}
+
+/**
+ * Convert a non-streaming Ollama chat/generate response to an OpenAI chat or text completion
+ */
+export function ollamaResponseToOpenAI(
+  endpoint: OpenAITranslatedEndpoint,
+  data: JsonObject,
+  responseId: string,
+  model: string
+): JsonObject {
+  const promptTokens = typeof data.prompt_eval_count === 'number' ? data.prompt_eval_count : 0;
+  const completionTokens = typeof data.eval_count === 'number' ? data.eval_count : 0;
+  const usage = {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+  };
+
+  if (endpoint === 'completions') {
+    return {
+      id: responseId,
+      object: 'text_completion',
+      created: nowSeconds(),
+      model,
+      choices: [
+        {
+          index: 0,
+          text: typeof data.response === 'string' ? data.response : '',
+          logprobs: null,
+          finish_reason: ollamaFinishReasonToOpenAI(data, false),
+        },
+      ],
+      usage,
+    };
+  }
+
+  const message = isObject(data.message) ? data.message : {};
+  const toolCalls = ollamaToolCallsToOpenAI(message.tool_calls, responseId)?.map(
+    ({ index: _index, ...call }) => call
+  );
+  const content = typeof message.content === 'string' ? message.content : '';
+  return {
+    id: responseId,
+    object: 'chat.completion',
+    created: nowSeconds(),
+    model,
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: 'assistant',
+          // OpenAI sends null content alongside tool calls
+          content: toolCalls && !content ? null : content,
+          ...(toolCalls && { tool_calls: toolCalls }),
+        },
+        finish_reason: ollamaFinishReasonToOpenAI(data, toolCalls !== undefined),
+      },
+    ],
+    usage,
+  };
+}
+
+/**
+ * Convert one Ollama chat/generate stream chunk to an OpenAI stream chunk. New tool calls
+ * are numbered after the `toolCallsSoFar` the stream already carried; the done chunk gets
+ * the finish_reason and usage.
+ */
+export function ollamaChunkToOpenAI(
+  endpoint: OpenAITranslatedEndpoint,
+  data: JsonObject,
+  responseId: string,
+  model: string,
+  toolCallsSoFar = 0
+): JsonObject {
+  const done = data.done === true;
+  let choice: JsonObject;
+
+  if (endpoint === 'completions') {
+    choice = {
+      index: 0,
+      text: typeof data.response === 'string' ? data.response : '',
+      finish_reason: done ? ollamaFinishReasonToOpenAI(data, false) : null,
+    };
+  } else {
+    const message = isObject(data.message) ? data.message : {};
+    const toolCalls = ollamaToolCallsToOpenAI(message.tool_calls, responseId, toolCallsSoFar);
+    const delta: JsonObject = {};
+    if (typeof message.content === 'string' && message.content) {
+      delta.content = message.content;
+    }
+    if (toolCalls) {
+      delta.tool_calls = toolCalls;
+    }
+    const hasToolCalls = toolCallsSoFar + (toolCalls?.length ?? 0) > 0;
+    choice = {
+      index: 0,
+      delta,
+      finish_reason: done ? ollamaFinishReasonToOpenAI(data, hasToolCalls) : null,
+    };
+  }
+
+  const promptTokens = typeof data.prompt_eval_count === 'number' ? data.prompt_eval_count : 0;
+  const completionTokens = typeof data.eval_count === 'number' ? data.eval_count : 0;
+  return {
+    id: responseId,
+    object: endpoint === 'chat' ? 'chat.completion.chunk' : 'text_completion',
+    created: nowSeconds(),
+    model,
+    choices: [choice],
+    ...(done && {
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+    }),
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * request-priority.ts
+ * Resolve request priority classes from headers and per-API-key defaults
+ */
+
+import type { Request } from 'express';
+
+import { getConfigManager } from '../config/config.js';
+import { extractApiKey } from '../middleware/auth.js';
+import type { RequestPriority } from '../orchestrator.types.js';
+
+import { resolveApiKey } from './api-keys.js';
+
+export const PRIORITY_HEADER = 'x-orchestrator-priority';
+
+export const REQUEST_PRIORITIES: readonly RequestPriority[] = ['high', 'normal', 'low'];
+
+/**
+ * Starting queue priority for each class. Aging adds priorityBoostAmount per
+ * boost interval, so a waiting low-priority request eventually catches up.
+ */
+export const PRIORITY_QUEUE_BASE: Record<RequestPriority, number> = {
+  high: 50,
+  normal: 25,
+  low: 0,
+};
+
+const PRIORITY_RANK: Record<RequestPriority, number> = {
+  high: 2,
+  normal: 1,
+  low: 0,
+};
+
+/**
+ * Parse a priority value, accepting a few common aliases
+ */
+export function parsePriority(value: unknown): RequestPriority | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  switch (value.trim().toLowerCase()) {
+    case 'high':
+    case 'interactive':
+      return 'high';
+    case 'normal':
+    case 'default':
+      return 'normal';
+    case 'low':
+    case 'batch':
+      return 'low';
+    default:
+      return undefined;
+  }
+}
+
+export function comparePriority(a: RequestPriority, b: RequestPriority): number {
+  return PRIORITY_RANK[a] - PRIORITY_RANK[b];
+}
+
+/**
+ * Look up the configured default priority for an API key
+ */
+function getApiKeyPriority(
+  apiKey: string,
+  apiKeyPriorities: Record<string, RequestPriority>
+): RequestPriority | undefined {
+  for (const [configuredKey, priority] of Object.entries(apiKeyPriorities)) {
+    if (resolveApiKey(configuredKey) === apiKey) {
+      return priority;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolve the priority class for an inference request.
+ * A key with a configured priority acts as a ceiling: the header may lower it
+ * (e.g. an interactive key submitting batch work) but never raise it.
+ */
+export function resolveRequestPriority(req: Request): RequestPriority {
+  const security = getConfigManager().getConfig().security;
+  const headerPriority = parsePriority(req.headers?.[PRIORITY_HEADER]);
+
+  const apiKeyPriorities = security?.apiKeyPriorities;
+  const apiKey =
+    apiKeyPriorities && Object.keys(apiKeyPriorities).length > 0 ? extractApiKey(req) : null;
+  const keyPriority = apiKey ? getApiKeyPriority(apiKey, apiKeyPriorities!) : undefined;
+
+  if (keyPriority) {
+    if (headerPriority && comparePriority(headerPriority, keyPriority) < 0) {
+      return headerPriority;
+    }
+    return keyPriority;
+  }
+
+  return headerPriority ?? security?.defaultPriority ?? 'normal';
+}
@@ -0,0 +1,353 @@
+/**
+ * request-queue.ts
+ * Admission queue for requests that could not get a concurrency slot on any server
+ */
+
+import type { QueueConfig } from '../config/config.js';
+import type { RequestPriority } from '../orchestrator.types.js';
+
+import { logger } from './logger.js';
+import { PRIORITY_QUEUE_BASE } from './request-priority.js';
+
+/**
+ * Why a request could not get a concurrency slot: every server was busy, or the queue shed it,
+ * was full, or timed out while it waited
+ */
+export type SaturationReason = 'busy' | 'shed' | 'full' | 'timeout';
+
+/**
+ * Thrown when every server for a model is at max concurrency and the request cannot wait (any
+ * longer) for a slot
+ */
+export class ConcurrencySaturatedError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: SaturationReason
+  ) {
+    super(message);
+    this.name = 'ConcurrencySaturatedError';
+  }
+}
+
+export interface QueueEnqueueOptions {
+  /** Priority class; sets the starting queue priority, which ages upward while waiting */
+  priority?: RequestPriority;
+  /** Abort signal from the client request */
+  signal?: AbortSignal;
+  /**
+   * Original enqueue time when a woken request re-enters the queue.
+   * Preserves accumulated aging and the overall queue timeout, and skips the admission
+   * checks and counters the request already went through.
+   */
+  enqueuedAt?: number;
+}
+
+interface QueueEntry {
+  model: string;
+  priority: RequestPriority;
+  basePriority: number;
+  enqueuedAt: number;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timeoutId: NodeJS.Timeout;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+export interface QueueStats {
+  enabled: boolean;
+  size: number;
+  maxSize: number;
+  byModel: Record<string, number>;
+  byPriority: Record<RequestPriority, number>;
+  oldestWaitMs: number;
+  totalQueued: number;
+  totalTimedOut: number;
+  totalRejected: number;
+  totalShed: number;
+}
+
+export class RequestQueue {
+  private entries: QueueEntry[] = [];
+  private config: QueueConfig;
+  private totalQueued = 0;
+  private totalTimedOut = 0;
+  private totalRejected = 0;
+  private totalShed = 0;
+  private recheckTimer?: NodeJS.Timeout;
+
+  constructor(config: QueueConfig) {
+    this.config = { ...config };
+  }
+
+  updateConfig(config: Partial<QueueConfig>): void {
+    this.config = { ...this.config, ...config };
+    // Pick up a changed boost interval
+    this.stopRecheck();
+    this.startRecheck();
+  }
+
+  getConfig(): QueueConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Wait until a concurrency slot may be available for the model.
+   * Resolves when released by a completed request, or when it heads the queue at a boost
+   * interval so the caller can re-check capacity. Rejects when the queue is full, the
+   * request has waited longer than the queue timeout, or the client aborts.
+   *
+   * Under pressure low-priority work is shed first: new low-priority requests are
+   * refused once the queue passes lowPriorityShedThreshold, and when the queue is
+   * full the lowest-priority waiter is evicted to admit a more important request.
+   */
+  enqueue(model: string, options: QueueEnqueueOptions = {}): Promise<void> {
+    const { priority = 'normal', signal, enqueuedAt = Date.now() } = options;
+    const basePriority = PRIORITY_QUEUE_BASE[priority];
+    const isRequeue = options.enqueuedAt !== undefined;
+
+    if (signal?.aborted) {
+      return Promise.reject(new Error('Request aborted'));
+    }
+
+    if (
+      !isRequeue &&
+      priority === 'low' &&
+      this.entries.length >= this.config.maxSize * this.config.lowPriorityShedThreshold
+    ) {
+      this.totalShed++;
+      return Promise.reject(
+        new ConcurrencySaturatedError(
+          `Low-priority request shed (queue ${this.entries.length}/${this.config.maxSize}): all servers for model '${model}' are at max concurrency`,
+          'shed'
+        )
+      );
+    }
+
+    if (
+      !isRequeue &&
+      this.entries.length >= this.config.maxSize &&
+      !this.evictLowerPriority(basePriority)
+    ) {
+      this.totalRejected++;
+      return Promise.reject(
+        new ConcurrencySaturatedError(
+          `Request queue full (${this.config.maxSize} waiting): all servers for model '${model}' are at max concurrency`,
+          'full'
+        )
+      );
+    }
+
+    const remainingMs = this.config.timeout - (Date.now() - enqueuedAt);
+    if (remainingMs <= 0) {
+      this.totalTimedOut++;
+      return Promise.reject(this.createTimeoutError(model));
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const entry: QueueEntry = {
+        model,
+        priority,
+        basePriority,
+        enqueuedAt,
+        resolve,
+        reject,
+        timeoutId: setTimeout(() => {
+          this.remove(entry);
+          this.totalTimedOut++;
+          logger.warn(`Queued request for model ${model} timed out`, {
+            waitMs: Date.now() - enqueuedAt,
+          });
+          reject(this.createTimeoutError(model));
+        }, remainingMs),
+        signal,
+      };
+
+      if (signal) {
+        entry.onAbort = (): void => {
+          this.remove(entry);
+          reject(new Error('Request aborted'));
+        };
+        signal.addEventListener('abort', entry.onAbort, { once: true });
+      }
+
+      this.entries.push(entry);
+      this.startRecheck();
+      if (!isRequeue) {
+        this.totalQueued++;
+        logger.debug(`Queued request for model ${model}`, {
+          queueSize: this.entries.length,
+          priority,
+        });
+      }
+    });
+  }
+
+  /**
+   * Release the highest-priority waiter that the freed slot can serve.
+   * @param canServe - Optional filter; only waiters whose model passes are considered
+   * @returns true if a waiter was released
+   */
+  release(canServe?: (model: string) => boolean): boolean {
+    const now = Date.now();
+    let best: QueueEntry | undefined;
+    let bestPriority = -Infinity;
+
+    for (const entry of this.entries) {
+      if (canServe && !canServe(entry.model)) {
+        continue;
+      }
+      const priority = this.getEffectivePriority(entry, now);
+      // Oldest request wins among equal priorities
+      if (
+        priority > bestPriority ||
+        (priority === bestPriority && best && entry.enqueuedAt < best.enqueuedAt)
+      ) {
+        best = entry;
+        bestPriority = priority;
+      }
+    }
+
+    if (!best) {
+      return false;
+    }
+
+    this.remove(best);
+    best.resolve();
+    return true;
+  }
+
+  /**
+   * Safety net in case a release was missed: while requests wait, wake the head of the
+   * queue once per boost interval to re-check capacity
+   */
+  private startRecheck(): void {
+    if (this.recheckTimer || this.entries.length === 0) {
+      return;
+    }
+    this.recheckTimer = setInterval(() => {
+      this.release();
+    }, this.config.priorityBoostInterval);
+  }
+
+  private stopRecheck(): void {
+    clearInterval(this.recheckTimer);
+    this.recheckTimer = undefined;
+  }
+
+  /**
+   * Evict the lowest-priority waiter (newest first among equals) if it ranks below
+   * the incoming request's starting priority
+   * @returns true if room was made
+   */
+  private evictLowerPriority(incomingPriority: number): boolean {
+    const now = Date.now();
+    let victim: QueueEntry | undefined;
+    let victimPriority = Infinity;
+
+    for (const entry of this.entries) {
+      const priority = this.getEffectivePriority(entry, now);
+      if (
+        priority < victimPriority ||
+        (priority === victimPriority && victim && entry.enqueuedAt >= victim.enqueuedAt)
+      ) {
+        victim = entry;
+        victimPriority = priority;
+      }
+    }
+
+    if (!victim || victimPriority >= incomingPriority) {
+      return false;
+    }
+
+    this.remove(victim);
+    this.totalShed++;
+    logger.warn(`Shedding queued ${victim.priority}-priority request for model ${victim.model}`, {
+      queueSize: this.entries.length,
+    });
+    victim.reject(
+      new ConcurrencySaturatedError(
+        `Request shed from full queue for higher-priority work: all servers for model '${victim.model}' are at max concurrency`,
+        'shed'
+      )
+    );
+    return true;
+  }
+
+  /**
+   * Reject every waiting request (used on shutdown)
+   */
+  clear(reason = 'Request queue cleared'): void {
+    const pending = [...this.entries];
+    for (const entry of pending) {
+      this.remove(entry);
+      entry.reject(new Error(reason));
+    }
+  }
+
+  /**
+   * Priority after aging: base priority plus one boost per elapsed interval, capped at maxPriority
+   */
+  getEffectivePriority(
+    entry: { basePriority: number; enqueuedAt: number },
+    now = Date.now()
+  ): number {
+    const boosts = Math.floor((now - entry.enqueuedAt) / this.config.priorityBoostInterval);
+    const aged = entry.basePriority + boosts * this.config.priorityBoostAmount;
+    return Math.min(this.config.maxPriority, Math.max(entry.basePriority, aged));
+  }
+
+  size(): number {
+    return this.entries.length;
+  }
+
+  getDepthByModel(): Record<string, number> {
+    const depth: Record<string, number> = {};
+    for (const entry of this.entries) {
+      depth[entry.model] = (depth[entry.model] ?? 0) + 1;
+    }
+    return depth;
+  }
+
+  getStats(enabled: boolean): QueueStats {
+    const now = Date.now();
+    const oldest = this.entries.reduce((min, e) => Math.min(min, e.enqueuedAt), now);
+    const byPriority: Record<RequestPriority, number> = { high: 0, normal: 0, low: 0 };
+    for (const entry of this.entries) {
+      byPriority[entry.priority]++;
+    }
+    return {
+      enabled,
+      size: this.entries.length,
+      maxSize: this.config.maxSize,
+      byModel: this.getDepthByModel(),
+      byPriority,
+      oldestWaitMs: now - oldest,
+      totalQueued: this.totalQueued,
+      totalTimedOut: this.totalTimedOut,
+      totalRejected: this.totalRejected,
+      totalShed: this.totalShed,
+    };
+  }
+
+  private remove(entry: QueueEntry): void {
+    clearTimeout(entry.timeoutId);
+    if (entry.signal && entry.onAbort) {
+      entry.signal.removeEventListener('abort', entry.onAbort);
+    }
+    const index = this.entries.indexOf(entry);
+    if (index >= 0) {
+      this.entries.splice(index, 1);
+    }
+    if (this.entries.length === 0) {
+      this.stopRecheck();
+    }
+  }
+
+  private createTimeoutError(model: string): Error {
+    return new ConcurrencySaturatedError(
+      `Request timed out in queue after ${this.config.timeout}ms: all servers for model '${model}' are at max concurrency`,
+      'timeout'
+    );
+  }
+}
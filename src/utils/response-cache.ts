@@ -0,0 +1,345 @@
+/**
+ * response-cache.ts
+ * Cache of deterministic generation responses, keyed by the normalized request body and the
+ * model digest, for clients (eval pipelines, CI) that re-issue identical requests
+ */
+
+import { createHash } from 'crypto';
+
+import type { Request, Response } from 'express';
+
+import { getConfigManager, DEFAULT_CONFIG, type ResponseCacheConfig } from '../config/config.js';
+import { extractApiKey } from '../middleware/auth.js';
+import type { RoutingContext } from '../orchestrator-instance.js';
+
+import { resolveApiKey } from './api-keys.js';
+import { safeJsonParse, safeJsonStringify } from './json-utils.js';
+
+/** Request header that opts into the cache; the response carries the outcome in it */
+export const RESPONSE_CACHE_HEADER = 'x-orchestrator-cache';
+
+/**
+ * How a request uses the cache: `use` serves hits and caches misses, `refresh` skips the
+ * lookup but caches the new response, `bypass` leaves the cache alone
+ */
+export type ResponseCacheMode = 'use' | 'refresh' | 'bypass';
+
+export type ResponseCacheOutcome = 'hit' | 'miss' | 'bypass';
+
+/** How a cached response is written back: a JSON body, or an NDJSON or SSE stream */
+export type CachedResponseFormat = 'json' | 'ndjson' | 'sse';
+
+export interface CachedResponse {
+  format: CachedResponseFormat;
+  /** The JSON body (`json`) or the stream's events in order, without the SSE [DONE] marker */
+  body: unknown;
+}
+
+interface StoredResponse extends CachedResponse {
+  storedAt: number;
+  expiresAt: number;
+  sizeBytes: number;
+}
+
+export interface ResponseCacheStats {
+  enabled: boolean;
+  entries: number;
+  sizeBytes: number;
+  hits: number;
+  misses: number;
+  bypasses: number;
+  evictions: number;
+  hitRate: number;
+}
+
+/** Body fields that do not change what the model generates */
+const IGNORED_FIELDS = new Set(['keep_alive', 'user', 'metadata']);
+
+export class ResponseCache {
+  private entries = new Map<string, StoredResponse>();
+  private sizeBytes = 0;
+  private counts: Record<ResponseCacheOutcome, number> = { hit: 0, miss: 0, bypass: 0 };
+  private evictions = 0;
+  private fixedConfig?: ResponseCacheConfig;
+
+  /**
+   * @param config Fixed settings; without them the cache follows the live `responseCache` config
+   */
+  constructor(config?: ResponseCacheConfig) {
+    this.fixedConfig = config ? { ...config } : undefined;
+  }
+
+  private getConfig(): ResponseCacheConfig {
+    return (
+      this.fixedConfig ??
+      getConfigManager().getConfig().responseCache ??
+      DEFAULT_CONFIG.responseCache
+    );
+  }
+
+  isEnabled(): boolean {
+    return this.getConfig().enabled;
+  }
+
+  /** Largest response that can be cached */
+  getMaxSizeBytes(): number {
+    return this.getConfig().maxSizeBytes;
+  }
+
+  private remove(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.sizeBytes -= entry.sizeBytes;
+    }
+  }
+
+  /**
+   * The cached response for a key with its age in ms, unless it is missing or has expired
+   */
+  get(key: string): (CachedResponse & { ageMs: number }) | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    const now = Date.now();
+    if (entry.expiresAt <= now) {
+      this.remove(key);
+      return undefined;
+    }
+    // Re-insert so Map iteration order tracks recent use
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return { format: entry.format, body: entry.body, ageMs: now - entry.storedAt };
+  }
+
+  /**
+   * Cache a response, evicting the least recently used ones to stay within `maxEntries` and
+   * `maxSizeBytes`. Returns false when the response alone is larger than `maxSizeBytes`.
+   */
+  set(key: string, response: CachedResponse): boolean {
+    const { ttlMs, maxEntries, maxSizeBytes } = this.getConfig();
+    const sizeBytes = Buffer.byteLength(safeJsonStringify(response.body));
+    if (sizeBytes > maxSizeBytes) {
+      return false;
+    }
+
+    this.remove(key);
+    const now = Date.now();
+    this.entries.set(key, { ...response, storedAt: now, expiresAt: now + ttlMs, sizeBytes });
+    this.sizeBytes += sizeBytes;
+
+    while (this.entries.size > maxEntries || this.sizeBytes > maxSizeBytes) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.remove(oldest);
+      this.evictions++;
+    }
+    return true;
+  }
+
+  recordOutcome(outcome: ResponseCacheOutcome): void {
+    this.counts[outcome]++;
+  }
+
+  /**
+   * Remove every cached response. Returns the number removed.
+   */
+  clear(): number {
+    const removed = this.entries.size;
+    this.entries.clear();
+    this.sizeBytes = 0;
+    return removed;
+  }
+
+  getStats(): ResponseCacheStats {
+    const lookups = this.counts.hit + this.counts.miss;
+    return {
+      enabled: this.isEnabled(),
+      entries: this.entries.size,
+      sizeBytes: this.sizeBytes,
+      hits: this.counts.hit,
+      misses: this.counts.miss,
+      bypasses: this.counts.bypass,
+      evictions: this.evictions,
+      hitRate: lookups > 0 ? this.counts.hit / lookups : 0,
+    };
+  }
+}
+
+function parseCacheMode(value: unknown): ResponseCacheMode | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  switch (value.trim().toLowerCase()) {
+    case 'use':
+    case 'true':
+      return 'use';
+    case 'refresh':
+      return 'refresh';
+    case 'bypass':
+    case 'false':
+      return 'bypass';
+    default:
+      return undefined;
+  }
+}
+
+/** Routing contexts of responses in progress, shared by the controllers that route them */
+const routingContexts = new WeakMap<Response, RoutingContext>();
+
+/**
+ * Expose a request's routing context to the response cache middleware, which must not cache
+ * an answer a fallback model gave in place of the requested one
+ */
+export function shareRoutingContext(res: Response, routingContext: RoutingContext): void {
+  routingContexts.set(res, routingContext);
+}
+
+/**
+ * Whether a fallback model answered the request (see shareRoutingContext)
+ */
+export function wasServedByFallback(res: Response): boolean {
+  return Boolean(routingContexts.get(res)?.degradedFrom);
+}
+
+/**
+ * How a request uses the response cache, via the X-Orchestrator-Cache header or an API key
+ * listed in `security.responseCacheApiKeys`. The header wins. Undefined when the request did
+ * not opt in.
+ */
+export function resolveResponseCacheMode(req: Request): ResponseCacheMode | undefined {
+  const headerValue = parseCacheMode(req.headers?.[RESPONSE_CACHE_HEADER]);
+  if (headerValue !== undefined) {
+    return headerValue;
+  }
+
+  const cacheApiKeys = getConfigManager().getConfig().security?.responseCacheApiKeys;
+  if (!cacheApiKeys || cacheApiKeys.length === 0) {
+    return undefined;
+  }
+  const apiKey = extractApiKey(req);
+  return apiKey !== null && cacheApiKeys.some(key => resolveApiKey(key) === apiKey)
+    ? 'use'
+    : undefined;
+}
+
+/**
+ * Whether a request asks for a repeatable generation: temperature 0 or a fixed seed, in
+ * `options` for Ollama and at the top level for OpenAI
+ */
+export function isDeterministicRequest(
+  body: Record<string, unknown>,
+  protocol: 'ollama' | 'openai'
+): boolean {
+  const params =
+    protocol === 'ollama' ? (body.options as Record<string, unknown> | undefined) : body;
+  return params?.temperature === 0 || typeof params?.seed === 'number';
+}
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return Object.fromEntries(
+      Object.keys(record)
+        .sort()
+        .map(key => [key, canonicalize(record[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * Key identifying a request for caching and coalescing: the endpoint, the resolved model and
+ * its digest, the request body with its keys sorted and fields that do not affect the output
+ * dropped, and the owner of the caller's API key (see getRequestOwner), so one client is never
+ * answered with a response cached or in flight for another
+ */
+export function normalizedRequestKey(
+  endpoint: string,
+  model: string,
+  digest: string | undefined,
+  body: Record<string, unknown>,
+  owner?: string
+): string {
+  const normalized = Object.fromEntries(
+    Object.entries(body).filter(([key]) => key !== 'model' && !IGNORED_FIELDS.has(key))
+  );
+  normalized.stream = body.stream === true;
+  return createHash('sha256')
+    .update(
+      JSON.stringify([endpoint, model, digest ?? null, owner ?? null, canonicalize(normalized)])
+    )
+    .digest('hex');
+}
+
+function isErrorEvent(event: unknown): boolean {
+  return typeof event === 'object' && event !== null && 'error' in event;
+}
+
+/**
+ * The events of a captured NDJSON or SSE stream, or undefined unless the stream finished
+ * normally (a final `done: true` line, or the SSE [DONE] marker) without an error event
+ */
+export function parseCapturedStream(format: 'ndjson' | 'sse', text: string): unknown[] | undefined {
+  const events: unknown[] = [];
+
+  if (format === 'ndjson') {
+    for (const line of text.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      const event = safeJsonParse(line);
+      if (event === null || isErrorEvent(event)) {
+        return undefined;
+      }
+      events.push(event);
+    }
+    const last = events[events.length - 1] as { done?: unknown } | undefined;
+    return last?.done === true ? events : undefined;
+  }
+
+  let done = false;
+  for (const block of text.split(/\r?\n\r?\n/)) {
+    const data = block
+      .split(/\r?\n/)
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice('data:'.length).trim())
+      .join('\n');
+    if (!data) {
+      continue;
+    }
+    if (data === '[DONE]') {
+      done = true;
+      continue;
+    }
+    const event = safeJsonParse(data);
+    if (event === null || isErrorEvent(event)) {
+      return undefined;
+    }
+    events.push(event);
+  }
+  return done ? events : undefined;
+}
+
+let cacheInstance: ResponseCache | undefined;
+
+export function getResponseCache(): ResponseCache {
+  if (!cacheInstance) {
+    cacheInstance = new ResponseCache();
+  }
+  return cacheInstance;
+}
+
+export function setResponseCache(cache: ResponseCache): void {
+  cacheInstance = cache;
+}
+
+export function resetResponseCache(): void {
+  cacheInstance = undefined;
+}
@@ -0,0 +1,94 @@
+/**
+ * response-store.ts
+ * Local store of /v1/responses results, so a follow-up request can continue a conversation
+ * with `previous_response_id` and clients can fetch or delete a stored response
+ */
+
+import { getConfigManager, DEFAULT_CONFIG, type ResponsesConfig } from '../config/config.js';
+
+export interface StoredResponse {
+  /** The Response object as returned to the client */
+  response: Record<string, unknown>;
+  /** The conversation up to and including this response, as chat messages */
+  messages: Array<Record<string, unknown>>;
+  /** Owner tag of the client that created it (see getRequestOwner) */
+  owner?: string;
+}
+
+interface StoreEntry extends StoredResponse {
+  storedAt: number;
+}
+
+export class ResponseStore {
+  private entries = new Map<string, StoreEntry>();
+  private fixedConfig?: ResponsesConfig;
+
+  /**
+   * @param config Fixed limits; without them the store follows the live `responses` config
+   */
+  constructor(config?: ResponsesConfig) {
+    this.fixedConfig = config ? { ...config } : undefined;
+  }
+
+  private getConfig(): ResponsesConfig {
+    return this.fixedConfig ?? getConfigManager().getConfig().responses ?? DEFAULT_CONFIG.responses;
+  }
+
+  /**
+   * Get a stored response, dropping it if it has expired
+   */
+  get(id: string): StoredResponse | undefined {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return undefined;
+    }
+    if (Date.now() - entry.storedAt > this.getConfig().storeTtlMs) {
+      this.entries.delete(id);
+      return undefined;
+    }
+    return { response: entry.response, messages: entry.messages, owner: entry.owner };
+  }
+
+  /**
+   * Store a response. Evicts the oldest responses when over capacity.
+   */
+  set(id: string, stored: StoredResponse): void {
+    // Re-insert so Map iteration order tracks age
+    this.entries.delete(id);
+    this.entries.set(id, { ...stored, storedAt: Date.now() });
+
+    const { maxStoredResponses } = this.getConfig();
+    while (this.entries.size > maxStoredResponses) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(id: string): boolean {
+    return this.get(id) !== undefined && this.entries.delete(id);
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+let storeInstance: ResponseStore | undefined;
+
+export function getResponseStore(): ResponseStore {
+  if (!storeInstance) {
+    storeInstance = new ResponseStore();
+  }
+  return storeInstance;
+}
+
+export function resetResponseStore(): void {
+  storeInstance = undefined;
+}
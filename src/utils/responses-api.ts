@@ -0,0 +1,537 @@
+/**
+ * responses-api.ts
+ * OpenAI Responses API (/v1/responses) on top of chat completions: request items become
+ * chat messages, a chat completion becomes a Response object, and a chat completion stream
+ * becomes the Responses API's semantic stream events
+ */
+
+import { randomUUID } from 'crypto';
+
+type JsonObject = Record<string, unknown>;
+
+/** A chat completions message built from Responses input items */
+export type ChatMessage = JsonObject;
+
+/** One server-sent event of a Responses stream */
+export interface ResponseStreamEvent {
+  type: string;
+  sequence_number: number;
+  [key: string]: unknown;
+}
+
+/** Request fields echoed back on the Response object */
+const ECHOED_FIELDS = [
+  'instructions',
+  'max_output_tokens',
+  'metadata',
+  'parallel_tool_calls',
+  'previous_response_id',
+  'temperature',
+  'tool_choice',
+  'tools',
+  'top_p',
+] as const;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function createResponseId(prefix: 'resp' | 'msg' | 'fc'): string {
+  return `${prefix}_${randomUUID().replace(/-/g, '')}`;
+}
+
+/**
+ * Convert a message's content to chat content: plain text when every part is text, chat
+ * content parts when there are images. Returns an error message for unsupported parts.
+ */
+function toChatContent(content: unknown): string | unknown[] | { error: string } {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    return { error: 'Message content must be a string or an array of content parts' };
+  }
+
+  const parts: unknown[] = [];
+  for (const part of content) {
+    const type = isObject(part) ? part.type : undefined;
+    if (type === 'input_text' || type === 'output_text' || type === 'text') {
+      parts.push({ type: 'text', text: (part as JsonObject).text ?? '' });
+    } else if (type === 'refusal') {
+      parts.push({ type: 'text', text: (part as JsonObject).refusal ?? '' });
+    } else if (type === 'input_image' && typeof (part as JsonObject).image_url === 'string') {
+      parts.push({ type: 'image_url', image_url: { url: (part as JsonObject).image_url } });
+    } else {
+      return { error: `Unsupported content part type '${String(type)}'` };
+    }
+  }
+
+  return parts.every(part => (part as JsonObject).type === 'text')
+    ? parts.map(part => (part as JsonObject).text).join('')
+    : parts;
+}
+
+/**
+ * Convert Responses `input` (a string or a list of items) to chat messages. Returns an
+ * error message when an item cannot be represented.
+ */
+export function inputToMessages(input: unknown): ChatMessage[] | { error: string } {
+  if (typeof input === 'string') {
+    return [{ role: 'user', content: input }];
+  }
+  if (!Array.isArray(input)) {
+    return { error: 'input must be a string or an array of input items' };
+  }
+
+  const messages: ChatMessage[] = [];
+  for (const item of input) {
+    if (!isObject(item)) {
+      return { error: 'Each input item must be an object' };
+    }
+    const type = item.type ?? 'message';
+
+    if (type === 'message') {
+      if (!['user', 'assistant', 'system', 'developer'].includes(item.role as string)) {
+        return { error: `Unsupported message role '${String(item.role)}'` };
+      }
+      const content = toChatContent(item.content);
+      if (isObject(content)) {
+        return content;
+      }
+      // Chat backends have no developer role; it carries system-level instructions
+      messages.push({ role: item.role === 'developer' ? 'system' : item.role, content });
+    } else if (type === 'function_call') {
+      const toolCall = {
+        id: item.call_id,
+        type: 'function',
+        function: { name: item.name, arguments: item.arguments ?? '{}' },
+      };
+      // Calls made in one turn share one assistant message
+      const previous = messages[messages.length - 1];
+      if (previous?.role === 'assistant' && Array.isArray(previous.tool_calls)) {
+        previous.tool_calls.push(toolCall);
+      } else {
+        messages.push({ role: 'assistant', content: null, tool_calls: [toolCall] });
+      }
+    } else if (type === 'function_call_output') {
+      const output = item.output;
+      messages.push({
+        role: 'tool',
+        tool_call_id: item.call_id,
+        content: typeof output === 'string' ? output : JSON.stringify(output ?? ''),
+      });
+    } else {
+      return { error: `Unsupported input item type '${String(type)}'` };
+    }
+  }
+  return messages;
+}
+
+/**
+ * Convert Responses function tools to chat tools. Returns an error message for built-in
+ * tools (web search, file search, ...), which no backend here can run.
+ */
+export function toChatTools(tools: unknown): unknown[] | undefined | { error: string } {
+  if (tools === undefined || tools === null) {
+    return undefined;
+  }
+  if (!Array.isArray(tools)) {
+    return { error: 'tools must be an array' };
+  }
+
+  const chatTools: unknown[] = [];
+  for (const tool of tools) {
+    if (!isObject(tool) || tool.type !== 'function' || typeof tool.name !== 'string') {
+      const type = isObject(tool) ? tool.type : undefined;
+      return {
+        error: `Unsupported tool type '${String(type)}': only function tools are supported`,
+      };
+    }
+    const { type: _type, name, description, parameters, strict } = tool;
+    chatTools.push({
+      type: 'function',
+      function: {
+        name,
+        ...(description !== undefined && { description }),
+        ...(parameters !== undefined && { parameters }),
+        ...(strict !== undefined && { strict }),
+      },
+    });
+  }
+  return chatTools;
+}
+
+/**
+ * Convert a Responses `tool_choice` to its chat form
+ */
+export function toChatToolChoice(toolChoice: unknown): unknown {
+  if (isObject(toolChoice) && toolChoice.type === 'function') {
+    return { type: 'function', function: { name: toolChoice.name } };
+  }
+  return toolChoice;
+}
+
+/**
+ * Convert `text.format` to a chat `response_format`
+ */
+export function toChatResponseFormat(text: unknown): JsonObject | undefined {
+  const format = isObject(text) ? text.format : undefined;
+  if (!isObject(format) || format.type === 'text') {
+    return undefined;
+  }
+  if (format.type === 'json_schema') {
+    const { type: _type, ...jsonSchema } = format;
+    return { type: 'json_schema', json_schema: jsonSchema };
+  }
+  return { type: format.type };
+}
+
+/**
+ * Build the chat completions body for a Responses request. `messages` is the conversation
+ * so far plus this request's input; instructions are not part of it, so they apply to
+ * this request only.
+ */
+export function toChatRequest(
+  body: JsonObject,
+  messages: ChatMessage[],
+  tools: unknown[] | undefined
+): JsonObject {
+  const responseFormat = toChatResponseFormat(body.text);
+  return {
+    model: body.model,
+    messages:
+      typeof body.instructions === 'string' && body.instructions
+        ? [{ role: 'system', content: body.instructions }, ...messages]
+        : messages,
+    ...(body.temperature !== undefined && { temperature: body.temperature }),
+    ...(body.top_p !== undefined && { top_p: body.top_p }),
+    ...(body.max_output_tokens !== undefined && { max_tokens: body.max_output_tokens }),
+    ...(tools && { tools }),
+    ...(tools &&
+      body.tool_choice !== undefined && {
+        tool_choice: toChatToolChoice(body.tool_choice),
+      }),
+    ...(body.parallel_tool_calls !== undefined && {
+      parallel_tool_calls: body.parallel_tool_calls,
+    }),
+    ...(responseFormat && { response_format: responseFormat }),
+  };
+}
+
+function messageItem(text: string, status: string): JsonObject {
+  return {
+    type: 'message',
+    id: createResponseId('msg'),
+    status,
+    role: 'assistant',
+    content: [{ type: 'output_text', text, annotations: [] }],
+  };
+}
+
+function functionCallItem(callId: unknown, name: unknown, args: unknown, status: string) {
+  return {
+    type: 'function_call',
+    id: createResponseId('fc'),
+    call_id: callId,
+    name,
+    arguments: args,
+    status,
+  };
+}
+
+function toResponseUsage(usage: unknown): JsonObject | undefined {
+  if (!isObject(usage)) {
+    return undefined;
+  }
+  const input = typeof usage.prompt_tokens === 'number' ? usage.prompt_tokens : 0;
+  const output = typeof usage.completion_tokens === 'number' ? usage.completion_tokens : 0;
+  return { input_tokens: input, output_tokens: output, total_tokens: input + output };
+}
+
+/**
+ * Build a Response object. A `length` finish makes it incomplete, as the output was cut
+ * off by max_output_tokens.
+ */
+export function buildResponse(
+  id: string,
+  body: JsonObject,
+  model: string,
+  output: JsonObject[],
+  finishReason: unknown,
+  usage: unknown,
+  createdAt: number
+): JsonObject {
+  const incomplete = finishReason === 'length';
+  const response: JsonObject = {
+    id,
+    object: 'response',
+    created_at: createdAt,
+    status: incomplete ? 'incomplete' : 'completed',
+    error: null,
+    incomplete_details: incomplete ? { reason: 'max_output_tokens' } : null,
+    model,
+    output,
+    usage: toResponseUsage(usage) ?? null,
+    store: body.store !== false,
+    text: isObject(body.text) ? body.text : { format: { type: 'text' } },
+  };
+  for (const field of ECHOED_FIELDS) {
+    response[field] = body[field] ?? null;
+  }
+  return response;
+}
+
+/**
+ * Convert a chat completion into Response output items
+ */
+export function completionToOutput(completion: JsonObject): JsonObject[] {
+  const choice = Array.isArray(completion.choices) ? completion.choices[0] : undefined;
+  const message = isObject(choice) && isObject(choice.message) ? choice.message : {};
+  const status = isObject(choice) && choice.finish_reason === 'length' ? 'incomplete' : 'completed';
+
+  const output: JsonObject[] = [];
+  if (typeof message.content === 'string' && message.content) {
+    output.push(messageItem(message.content, status));
+  }
+  for (const call of Array.isArray(message.tool_calls) ? message.tool_calls : []) {
+    const fn = isObject(call) && isObject(call.function) ? call.function : {};
+    output.push(functionCallItem(call.id, fn.name, fn.arguments ?? '{}', 'completed'));
+  }
+  return output;
+}
+
+/**
+ * Convert a chat completion into a Response object
+ */
+export function completionToResponse(
+  id: string,
+  body: JsonObject,
+  model: string,
+  completion: JsonObject,
+  createdAt: number
+): JsonObject {
+  const choice = Array.isArray(completion.choices) ? completion.choices[0] : undefined;
+  return buildResponse(
+    id,
+    body,
+    model,
+    completionToOutput(completion),
+    isObject(choice) ? choice.finish_reason : undefined,
+    completion.usage,
+    createdAt
+  );
+}
+
+/**
+ * Format a stream event as an SSE frame
+ */
+export function formatStreamEvent(event: ResponseStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+interface OpenItem {
+  item: JsonObject;
+  outputIndex: number;
+  /** Accumulated text or arguments */
+  buffer: string;
+  /** Chat tool call index, for function call items */
+  toolIndex?: number;
+}
+
+/**
+ * Turn chat completion chunks into Responses stream events. Output items are opened as their
+ * first delta arrives and closed when the next item starts or the stream finishes.
+ */
+export class ResponseEventStream {
+  private sequence = 0;
+  private output: JsonObject[] = [];
+  private openItem?: OpenItem;
+  private finishReason: unknown;
+  private usage: unknown;
+
+  constructor(
+    private readonly id: string,
+    private readonly body: JsonObject,
+    private readonly model: string,
+    private readonly createdAt: number = Math.floor(Date.now() / 1000)
+  ) {}
+
+  private event(type: string, fields: JsonObject): ResponseStreamEvent {
+    return { type, sequence_number: this.sequence++, ...fields };
+  }
+
+  private snapshot(status: string): JsonObject {
+    const response = buildResponse(
+      this.id,
+      this.body,
+      this.model,
+      this.output,
+      this.finishReason,
+      this.usage,
+      this.createdAt
+    );
+    return { ...response, status, ...(status === 'in_progress' && { usage: null }) };
+  }
+
+  /**
+   * The events that open the stream
+   */
+  start(): ResponseStreamEvent[] {
+    return [
+      this.event('response.created', { response: this.snapshot('in_progress') }),
+      this.event('response.in_progress', { response: this.snapshot('in_progress') }),
+    ];
+  }
+
+  private openItemEvents(item: JsonObject, toolIndex?: number): ResponseStreamEvent[] {
+    const events = this.closeItemEvents();
+    const outputIndex = this.output.length;
+    this.output.push(item);
+    this.openItem = { item, outputIndex, buffer: '', toolIndex };
+
+    if (item.type === 'message') {
+      item.content = [];
+      return [
+        ...events,
+        this.event('response.output_item.added', { output_index: outputIndex, item: { ...item } }),
+        this.event('response.content_part.added', {
+          item_id: item.id,
+          output_index: outputIndex,
+          content_index: 0,
+          part: { type: 'output_text', text: '', annotations: [] },
+        }),
+      ];
+    }
+    return [
+      ...events,
+      this.event('response.output_item.added', { output_index: outputIndex, item: { ...item } }),
+    ];
+  }
+
+  private closeItemEvents(): ResponseStreamEvent[] {
+    const open = this.openItem;
+    if (!open) {
+      return [];
+    }
+    this.openItem = undefined;
+    const { item, outputIndex, buffer } = open;
+    item.status = this.finishReason === 'length' ? 'incomplete' : 'completed';
+
+    if (item.type === 'message') {
+      const part = { type: 'output_text', text: buffer, annotations: [] };
+      item.content = [part];
+      return [
+        this.event('response.output_text.done', {
+          item_id: item.id,
+          output_index: outputIndex,
+          content_index: 0,
+          text: buffer,
+        }),
+        this.event('response.content_part.done', {
+          item_id: item.id,
+          output_index: outputIndex,
+          content_index: 0,
+          part,
+        }),
+        this.event('response.output_item.done', { output_index: outputIndex, item }),
+      ];
+    }
+
+    item.arguments = buffer || '{}';
+    item.status = 'completed';
+    return [
+      this.event('response.function_call_arguments.done', {
+        item_id: item.id,
+        output_index: outputIndex,
+        arguments: item.arguments,
+      }),
+      this.event('response.output_item.done', { output_index: outputIndex, item }),
+    ];
+  }
+
+  /**
+   * The events for one chat completion chunk
+   */
+  push(chunk: JsonObject): ResponseStreamEvent[] {
+    if (chunk.usage) {
+      this.usage = chunk.usage;
+    }
+    const choice = Array.isArray(chunk.choices) ? chunk.choices[0] : undefined;
+    if (!isObject(choice)) {
+      return [];
+    }
+    if (choice.finish_reason) {
+      this.finishReason = choice.finish_reason;
+    }
+    const delta = isObject(choice.delta) ? choice.delta : {};
+    const events: ResponseStreamEvent[] = [];
+
+    if (typeof delta.content === 'string' && delta.content) {
+      if (this.openItem?.item.type !== 'message') {
+        events.push(...this.openItemEvents(messageItem('', 'in_progress')));
+      }
+      const open = this.openItem!;
+      open.buffer += delta.content;
+      events.push(
+        this.event('response.output_text.delta', {
+          item_id: open.item.id,
+          output_index: open.outputIndex,
+          content_index: 0,
+          delta: delta.content,
+        })
+      );
+    }
+
+    for (const call of Array.isArray(delta.tool_calls) ? delta.tool_calls : []) {
+      if (!isObject(call)) {
+        continue;
+      }
+      const fn = isObject(call.function) ? call.function : {};
+      const toolIndex = typeof call.index === 'number' ? call.index : 0;
+      if (this.openItem?.toolIndex !== toolIndex) {
+        events.push(
+          ...this.openItemEvents(functionCallItem(call.id, fn.name, '', 'in_progress'), toolIndex)
+        );
+      }
+      const open = this.openItem!;
+      if (typeof fn.arguments === 'string' && fn.arguments) {
+        open.buffer += fn.arguments;
+        events.push(
+          this.event('response.function_call_arguments.delta', {
+            item_id: open.item.id,
+            output_index: open.outputIndex,
+            delta: fn.arguments,
+          })
+        );
+      }
+    }
+    return events;
+  }
+
+  /**
+   * The events that end a successful stream, and the final Response object
+   */
+  finish(): { events: ResponseStreamEvent[]; response: JsonObject } {
+    const events = this.closeItemEvents();
+    const response = this.snapshot(this.finishReason === 'length' ? 'incomplete' : 'completed');
+    const type = response.status === 'incomplete' ? 'response.incomplete' : 'response.completed';
+    events.push(this.event(type, { response }));
+    return { events, response };
+  }
+
+  /**
+   * The events that end a stream that broke off
+   */
+  fail(message: string): ResponseStreamEvent[] {
+    const events = this.closeItemEvents();
+    events.push(
+      this.event('response.failed', {
+        response: {
+          ...this.snapshot('failed'),
+          error: { code: 'server_error', message },
+        },
+      })
+    );
+    return events;
+  }
+}
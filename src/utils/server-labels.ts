@@ -0,0 +1,162 @@
+/**
+ * server-labels.ts
+ * Free-form server labels and label selectors for routing constraints
+ */
+
+import type { Request } from 'express';
+
+import { getConfigManager, type LabelPolicy } from '../config/config.js';
+import { extractApiKey } from '../middleware/auth.js';
+import type { AIServer } from '../orchestrator.types.js';
+
+import { resolveApiKey } from './api-keys.js';
+
+export const REQUIRE_LABELS_HEADER = 'x-require-labels';
+export const PREFER_LABELS_HEADER = 'x-prefer-labels';
+
+const LABEL_KEY_PATTERN = /^[a-zA-Z0-9]([a-zA-Z0-9._/-]{0,62})$/;
+const LABEL_VALUE_PATTERN = /^[a-zA-Z0-9._-]{0,63}$/;
+const MAX_LABELS_PER_SERVER = 32;
+
+/** A single selector term: `key=value` matches that value, a bare `key` matches any value */
+export interface LabelTerm {
+  key: string;
+  value?: string;
+}
+
+export interface LabelConstraints {
+  /** Every term must match or the server is not eligible */
+  require: LabelTerm[];
+  /** Servers matching more terms are tried first */
+  prefer: LabelTerm[];
+}
+
+/**
+ * Parse a selector such as `gpu=a100,region=eu,ssd`. Terms are not validated: a
+ * malformed term simply matches no server, so a mistyped requirement fails closed.
+ */
+export function parseLabelSelector(selector: string | undefined): LabelTerm[] {
+  const terms: LabelTerm[] = [];
+  for (const raw of (selector ?? '').split(',')) {
+    const term = raw.trim();
+    if (!term) {
+      continue;
+    }
+
+    const eq = term.indexOf('=');
+    if (eq < 0) {
+      terms.push({ key: term });
+    } else {
+      terms.push({ key: term.slice(0, eq).trim(), value: term.slice(eq + 1).trim() });
+    }
+  }
+  return terms;
+}
+
+/**
+ * Validate a label map from the API. Returns an error message, or undefined when valid.
+ */
+export function validateLabels(labels: unknown): string | undefined {
+  if (typeof labels !== 'object' || labels === null || Array.isArray(labels)) {
+    return 'labels must be an object of string values';
+  }
+  const entries = Object.entries(labels);
+  if (entries.length > MAX_LABELS_PER_SERVER) {
+    return `A server may have at most ${MAX_LABELS_PER_SERVER} labels`;
+  }
+  for (const [key, value] of entries) {
+    if (!LABEL_KEY_PATTERN.test(key)) {
+      return `Invalid label key '${key}'`;
+    }
+    if (typeof value !== 'string' || !LABEL_VALUE_PATTERN.test(value)) {
+      return `Invalid value for label '${key}'`;
+    }
+  }
+  return undefined;
+}
+
+function matchesTerm(server: AIServer, term: LabelTerm): boolean {
+  const value = server.labels?.[term.key];
+  if (value === undefined) {
+    return false;
+  }
+  return term.value === undefined || value === term.value;
+}
+
+/**
+ * Whether the server carries every label in the selector
+ */
+export function matchesLabels(server: AIServer, terms: LabelTerm[]): boolean {
+  return terms.every(term => matchesTerm(server, term));
+}
+
+/**
+ * Number of preferred terms the server satisfies
+ */
+export function countPreferredMatches(server: AIServer, terms: LabelTerm[]): number {
+  return terms.filter(term => matchesTerm(server, term)).length;
+}
+
+/**
+ * Stable-sort servers so those matching more preferred labels come first,
+ * keeping the incoming (load balancer) order among equals
+ */
+export function orderByPreferredLabels<T extends AIServer>(servers: T[], terms: LabelTerm[]): T[] {
+  if (terms.length === 0) {
+    return servers;
+  }
+  return servers
+    .map((server, index) => ({ server, index, matches: countPreferredMatches(server, terms) }))
+    .sort((a, b) => b.matches - a.matches || a.index - b.index)
+    .map(entry => entry.server);
+}
+
+/**
+ * Format terms back into selector syntax (for logs and debug headers)
+ */
+export function formatLabelSelector(terms: LabelTerm[]): string {
+  return terms.map(t => (t.value === undefined ? t.key : `${t.key}=${t.value}`)).join(',');
+}
+
+function getApiKeyLabelPolicy(
+  apiKey: string,
+  policies: Record<string, LabelPolicy>
+): LabelPolicy | undefined {
+  for (const [configuredKey, policy] of Object.entries(policies)) {
+    if (resolveApiKey(configuredKey) === apiKey) {
+      return policy;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolve label constraints for an inference request from the X-Require-Labels /
+ * X-Prefer-Labels headers and the caller's API key policy. Key requirements always
+ * apply: the header can add requirements (narrowing placement) but never remove them.
+ * Returns undefined when the request carries no constraints.
+ */
+export function resolveLabelConstraints(req: Request): LabelConstraints | undefined {
+  const policies = getConfigManager().getConfig().security?.apiKeyLabelPolicies;
+  const apiKey = policies && Object.keys(policies).length > 0 ? extractApiKey(req) : null;
+  const policy = apiKey ? getApiKeyLabelPolicy(apiKey, policies!) : undefined;
+
+  const readHeader = (name: string): string | undefined => {
+    const value = req.headers?.[name];
+    return typeof value === 'string' ? value : undefined;
+  };
+
+  const require = [
+    ...parseLabelSelector(policy?.require),
+    ...parseLabelSelector(readHeader(REQUIRE_LABELS_HEADER)),
+  ];
+  const prefer = [
+    ...parseLabelSelector(readHeader(PREFER_LABELS_HEADER)),
+    ...parseLabelSelector(policy?.prefer),
+  ];
+
+  if (require.length === 0 && prefer.length === 0) {
+    return undefined;
+  }
+  return { require, prefer };
+}
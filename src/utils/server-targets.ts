@@ -0,0 +1,88 @@
+/**
+ * server-targets.ts
+ * Selection of the servers an admin-style Ollama request (pull, create, push, blobs) is sent
+ * to: "all", or a list of server ids and id globs
+ */
+
+import type { Request } from 'express';
+
+import { ERROR_MESSAGES } from '../constants/index.js';
+import type { AIServer } from '../orchestrator.types.js';
+
+/** Request header naming the target servers, as "all" or comma-separated ids and globs */
+export const SERVER_TARGETS_HEADER = 'x-orchestrator-servers';
+
+/**
+ * The target selection of a request, from the X-Orchestrator-Servers header or the `servers`
+ * query parameter (the header wins). Undefined when the request names no targets.
+ */
+export function readServerTargets(req: Request): 'all' | string[] | undefined {
+  const header = req.headers?.[SERVER_TARGETS_HEADER];
+  const query = req.query?.servers;
+  const value = typeof header === 'string' ? header : typeof query === 'string' ? query : undefined;
+  if (value === undefined || !value.trim()) {
+    return undefined;
+  }
+  if (value.trim().toLowerCase() === 'all') {
+    return 'all';
+  }
+  return value
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+}
+
+function isGlob(selector: string): boolean {
+  return /[*?]/.test(selector);
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('')
+    .map(char =>
+      char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    )
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * The servers a selection targets: `"all"` (or nothing) for every healthy Ollama server, or a
+ * list of server ids and id globs (`*`, `?`). Returns an error message when the selection is
+ * invalid or leaves no server to send to.
+ */
+export function resolveServerTargets(
+  selector: unknown,
+  servers: AIServer[]
+): { servers: AIServer[] } | { error: string } {
+  const eligible = (server: AIServer): boolean => server.healthy && server.supportsOllama !== false;
+
+  if (selector === undefined || selector === 'all') {
+    const targets = servers.filter(eligible);
+    return targets.length > 0 ? { servers: targets } : { error: 'No healthy Ollama servers' };
+  }
+  if (
+    !Array.isArray(selector) ||
+    selector.length === 0 ||
+    !selector.every(entry => typeof entry === 'string' && entry.length > 0)
+  ) {
+    return { error: 'servers must be "all" or a non-empty array of server ids or id globs' };
+  }
+
+  const selected = new Set<AIServer>();
+  for (const entry of selector as string[]) {
+    const pattern = isGlob(entry) ? globToRegExp(entry) : undefined;
+    const matches = servers.filter(server =>
+      pattern ? pattern.test(server.id) : server.id === entry
+    );
+    if (matches.length === 0 && !pattern) {
+      return { error: ERROR_MESSAGES.SERVER_NOT_FOUND(entry) };
+    }
+    matches.forEach(server => selected.add(server));
+  }
+
+  const targets = [...selected].filter(eligible);
+  return targets.length > 0
+    ? { servers: targets }
+    : { error: 'None of the selected servers is a healthy Ollama server' };
+}
@@ -0,0 +1,195 @@
+/**
+ * session-affinity.ts
+ * Pin multi-turn conversations to the server that served the previous turn, so Ollama
+ * can reuse its prompt (KV) cache
+ */
+
+import { createHash } from 'crypto';
+
+import type { Request } from 'express';
+
+import { getConfigManager, type SessionAffinityConfig } from '../config/config.js';
+
+import { logger } from './logger.js';
+
+export const SESSION_ID_HEADER = 'x-session-id';
+
+/** Why a bound server was passed over for this request */
+export type AffinityYieldReason = 'unavailable' | 'saturated' | 'circuit_open';
+
+export type AffinityOutcome = 'hit' | 'miss' | 'yield';
+
+export interface AffinityStats {
+  enabled: boolean;
+  activeSessions: number;
+  hits: number;
+  misses: number;
+  yields: number;
+  yieldReasons: Record<AffinityYieldReason, number>;
+  /** hits / (hits + misses + yields) */
+  hitRate: number;
+}
+
+interface AffinityEntry {
+  serverId: string;
+  lastUsed: number;
+}
+
+interface ChatMessageLike {
+  role?: unknown;
+  content?: unknown;
+}
+
+/**
+ * Derive an affinity key from the conversation opening: the system prompt plus the first
+ * user message. Turns are appended after it, so every turn of a conversation hashes to the
+ * same key.
+ */
+export function deriveAffinityKey(messages: unknown): string | undefined {
+  if (!Array.isArray(messages) || messages.length === 0) {
+    return undefined;
+  }
+
+  const system = (messages as ChatMessageLike[])
+    .filter(message => message?.role === 'system')
+    .map(message => message.content);
+  const firstUser = (messages as ChatMessageLike[]).find(message => message?.role === 'user');
+  if (!firstUser) {
+    return undefined;
+  }
+
+  const hash = createHash('sha256')
+    .update(JSON.stringify([system, firstUser.content]))
+    .digest('hex');
+  return `msg:${hash.slice(0, 32)}`;
+}
+
+/**
+ * Resolve the affinity key for a chat request: an explicit X-Session-Id header wins,
+ * otherwise a hash of the conversation prefix. Returns undefined when affinity is disabled.
+ */
+export function resolveAffinityKey(req: Request, messages: unknown): string | undefined {
+  const config = getConfigManager().getConfig().sessionAffinity;
+  if (!config?.enabled) {
+    return undefined;
+  }
+
+  const header = req.headers?.[SESSION_ID_HEADER];
+  if (typeof header === 'string' && header.trim()) {
+    return `hdr:${header.trim()}`;
+  }
+
+  return deriveAffinityKey(messages);
+}
+
+export class SessionAffinityManager {
+  private sessions = new Map<string, AffinityEntry>();
+  private config: SessionAffinityConfig;
+  private hits = 0;
+  private misses = 0;
+  private yieldReasons: Record<AffinityYieldReason, number> = {
+    unavailable: 0,
+    saturated: 0,
+    circuit_open: 0,
+  };
+
+  constructor(config: SessionAffinityConfig) {
+    this.config = { ...config };
+  }
+
+  updateConfig(config: Partial<SessionAffinityConfig>): void {
+    this.config = { ...this.config, ...config };
+    if (!this.config.enabled) {
+      this.sessions.clear();
+    }
+  }
+
+  getConfig(): SessionAffinityConfig {
+    return { ...this.config };
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Get the server bound to a session, dropping the binding if it has expired
+   */
+  lookup(key: string): string | undefined {
+    const entry = this.sessions.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (Date.now() - entry.lastUsed > this.config.ttlMs) {
+      this.sessions.delete(key);
+      return undefined;
+    }
+    return entry.serverId;
+  }
+
+  /**
+   * Bind a session to the server that just served it. Evicts the least recently
+   * used session when over capacity.
+   */
+  bind(key: string, serverId: string): void {
+    if (!this.config.enabled) {
+      return;
+    }
+
+    const previous = this.sessions.get(key);
+    if (previous && previous.serverId !== serverId) {
+      logger.debug('Session affinity moved', { from: previous.serverId, to: serverId });
+    }
+
+    // Re-insert so Map iteration order tracks recency
+    this.sessions.delete(key);
+    this.sessions.set(key, { serverId, lastUsed: Date.now() });
+
+    while (this.sessions.size > this.config.maxSessions) {
+      const oldest = this.sessions.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.sessions.delete(oldest);
+    }
+  }
+
+  /**
+   * Drop all bindings to a server (e.g. when it is removed)
+   */
+  unbindServer(serverId: string): void {
+    for (const [key, entry] of this.sessions) {
+      if (entry.serverId === serverId) {
+        this.sessions.delete(key);
+      }
+    }
+  }
+
+  recordOutcome(outcome: AffinityOutcome, reason?: AffinityYieldReason): void {
+    if (outcome === 'hit') {
+      this.hits++;
+    } else if (outcome === 'miss') {
+      this.misses++;
+    } else {
+      this.yieldReasons[reason ?? 'unavailable']++;
+    }
+  }
+
+  getStats(): AffinityStats {
+    const yields = Object.values(this.yieldReasons).reduce((sum, n) => sum + n, 0);
+    const total = this.hits + this.misses + yields;
+    return {
+      enabled: this.config.enabled,
+      activeSessions: this.sessions.size,
+      hits: this.hits,
+      misses: this.misses,
+      yields,
+      yieldReasons: { ...this.yieldReasons },
+      hitRate: total > 0 ? Math.round((this.hits / total) * 1000) / 1000 : 0,
+    };
+  }
+
+  clear(): void {
+    this.sessions.clear();
+  }
+}
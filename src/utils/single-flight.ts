@@ -0,0 +1,208 @@
+/**
+ * single-flight.ts
+ * Coalescing of identical concurrent requests: the first one (the leader) runs normally, and
+ * identical requests arriving while it is in flight (followers) get a copy of its response,
+ * chunk by chunk for streams. The leader's failover therefore covers its followers too.
+ */
+
+import { createHash } from 'crypto';
+import type { OutgoingHttpHeaders } from 'http';
+
+import type { Request, Response } from 'express';
+
+import { getConfigManager, DEFAULT_CONFIG, type SingleFlightConfig } from '../config/config.js';
+
+import { getInFlightManager, type CoalescedGroup } from './in-flight-manager.js';
+import { logger } from './logger.js';
+import { resolveAllowFallback } from './model-fallback.js';
+import { resolveRequestPriority } from './request-priority.js';
+import { resolveLabelConstraints } from './server-labels.js';
+
+/** Response header marking a response copied from a leader request */
+export const COALESCED_HEADER = 'X-Orchestrator-Coalesced';
+
+interface Flight {
+  group: CoalescedGroup;
+  /** Status and headers of the leader's response, once it started writing */
+  head?: { statusCode: number; headers: OutgoingHttpHeaders };
+  /** Everything the leader has written, for followers that join late */
+  chunks: Buffer[];
+  /** Followers, each with the function that runs it on its own if the leader gives up */
+  followers: Map<Response, () => void>;
+}
+
+/**
+ * The key requests are coalesced on: `requestKey` (endpoint, model and normalized body) scoped
+ * to how the request is routed. Requests differing in priority, label constraints or fallback
+ * opt-in can get different outcomes (a low-priority request may be shed, a label-constrained one
+ * may find no server), so they never share a response.
+ */
+export function singleFlightKey(req: Request, requestKey: string): string {
+  return createHash('sha256')
+    .update(
+      JSON.stringify([
+        requestKey,
+        resolveRequestPriority(req),
+        resolveLabelConstraints(req) ?? null,
+        resolveAllowFallback(req),
+      ])
+    )
+    .digest('hex');
+}
+
+export class SingleFlight {
+  private flights = new Map<string, Flight>();
+  private fixedConfig?: SingleFlightConfig;
+
+  /**
+   * @param config Fixed settings; without them coalescing follows the live `singleFlight` config
+   */
+  constructor(config?: SingleFlightConfig) {
+    this.fixedConfig = config ? { ...config } : undefined;
+  }
+
+  private getConfig(): SingleFlightConfig {
+    return (
+      this.fixedConfig ?? getConfigManager().getConfig().singleFlight ?? DEFAULT_CONFIG.singleFlight
+    );
+  }
+
+  isEnabled(): boolean {
+    return this.getConfig().enabled;
+  }
+
+  /**
+   * Run a request unless an identical one (same key) is in flight, in which case `res` gets a
+   * copy of that request's response instead. Returns true when `res` was coalesced.
+   */
+  run(key: string, res: Response, run: () => void): boolean {
+    const flight = this.flights.get(key);
+    if (!flight) {
+      this.lead(key, res, run);
+      return false;
+    }
+    if (flight.followers.size >= this.getConfig().maxFollowers) {
+      run();
+      return false;
+    }
+
+    flight.followers.set(res, run);
+    flight.group.followers++;
+    res.on('close', () => {
+      if (flight.followers.delete(res)) {
+        flight.group.followers--;
+      }
+    });
+    if (flight.head) {
+      this.sendHead(flight, res);
+      for (const chunk of flight.chunks) {
+        res.write(chunk);
+      }
+    }
+    logger.debug('Coalesced request onto an identical in-flight request', {
+      followers: flight.followers.size,
+    });
+    return true;
+  }
+
+  private sendHead(flight: Flight, res: Response): void {
+    if (res.headersSent || !flight.head) {
+      return;
+    }
+    res.status(flight.head.statusCode);
+    for (const [name, value] of Object.entries(flight.head.headers)) {
+      if (value !== undefined) {
+        res.setHeader(name, value);
+      }
+    }
+    res.setHeader(COALESCED_HEADER, 'true');
+  }
+
+  private lead(key: string, res: Response, run: () => void): void {
+    const flight: Flight = { group: { followers: 0 }, chunks: [], followers: new Map() };
+    this.flights.set(key, flight);
+    let ended = false;
+
+    const finish = (): void => {
+      if (this.flights.get(key) === flight) {
+        this.flights.delete(key);
+      }
+      getInFlightManager().endCoalescedGroup(flight.group);
+    };
+
+    const record = (chunk: unknown, encoding: unknown): void => {
+      flight.head ??= { statusCode: res.statusCode, headers: res.getHeaders() };
+      for (const follower of flight.followers.keys()) {
+        this.sendHead(flight, follower);
+      }
+      if (typeof chunk !== 'string' && !(chunk instanceof Uint8Array)) {
+        return;
+      }
+      const buffer =
+        typeof chunk === 'string'
+          ? Buffer.from(
+              chunk,
+              typeof encoding === 'string' ? (encoding as BufferEncoding) : 'utf-8'
+            )
+          : Buffer.from(chunk);
+      flight.chunks.push(buffer);
+      for (const follower of flight.followers.keys()) {
+        follower.write(buffer);
+      }
+    };
+
+    const write = res.write.bind(res) as (...args: unknown[]) => boolean;
+    res.write = ((chunk: unknown, ...args: unknown[]) => {
+      record(chunk, args[0]);
+      return write(chunk, ...args);
+    }) as Response['write'];
+
+    const end = res.end.bind(res) as (...args: unknown[]) => Response;
+    res.end = ((chunk?: unknown, ...args: unknown[]) => {
+      ended = true;
+      finish();
+      record(chunk, args[0]);
+      for (const follower of flight.followers.keys()) {
+        follower.end();
+      }
+      return end(chunk, ...args);
+    }) as Response['end'];
+
+    // The leader's client went away before its response was complete: followers that have
+    // received nothing yet run again (one of them leads), the others are cut off like it was
+    res.on('close', () => {
+      if (ended) {
+        return;
+      }
+      finish();
+      const followers = [...flight.followers];
+      flight.followers.clear();
+      for (const [follower, runAlone] of followers) {
+        if (follower.headersSent) {
+          follower.end();
+        } else {
+          this.run(key, follower, runAlone);
+        }
+      }
+    });
+
+    getInFlightManager().runCoalescedLeader(flight.group, run);
+  }
+}
+
+let singleFlightInstance: SingleFlight | undefined;
+
+export function getSingleFlight(): SingleFlight {
+  if (!singleFlightInstance) {
+    singleFlightInstance = new SingleFlight();
+  }
+  return singleFlightInstance;
+}
+
+export function setSingleFlight(singleFlight: SingleFlight): void {
+  singleFlightInstance = singleFlight;
+}
+
+export function resetSingleFlight(): void {
+  singleFlightInstance = undefined;
+}
@@ -0,0 +1,63 @@
+/**
+ * stream-events.ts
+ * Reading JSON events from upstream SSE and NDJSON streams
+ */
+
+import { safeJsonParse } from './json-utils.js';
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read the JSON events of an upstream stream: `data:` lines of an OpenAI SSE stream
+ * (without the closing [DONE]), or the lines of an Ollama NDJSON stream
+ */
+export async function* readStreamEvents(
+  upstream: globalThis.Response,
+  format: 'sse' | 'ndjson'
+): AsyncGenerator<JsonObject> {
+  const reader = upstream.body?.getReader();
+  if (!reader) {
+    throw new Error('No response body to stream');
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  const parseLine = (line: string): JsonObject | undefined => {
+    let payload = line.trim();
+    if (format === 'sse') {
+      if (!payload.startsWith('data:')) {
+        return undefined;
+      }
+      payload = payload.slice('data:'.length).trim();
+    }
+    const event = payload && payload !== '[DONE]' ? safeJsonParse(payload) : undefined;
+    return isObject(event) ? event : undefined;
+  };
+
+  let finished = false;
+  try {
+    while (!finished) {
+      const { done, value } = await reader.read();
+      finished = done;
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = done ? '' : (lines.pop() ?? '');
+
+      for (const line of lines) {
+        const event = parseLine(line);
+        if (event) {
+          yield event;
+        }
+      }
+    }
+  } finally {
+    // The consumer stopped early: let the server stop generating too
+    if (!finished) {
+      void reader.cancel().catch(() => undefined);
+    }
+  }
+}
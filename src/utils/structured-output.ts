@@ -0,0 +1,127 @@
+/**
+ * structured-output.ts
+ * OpenAI structured outputs (`response_format`): mapping to Ollama's `format` and checking
+ * that a strict `json_schema` response really matches its schema
+ */
+
+import { z } from 'zod';
+
+import { safeJsonParse } from './json-utils.js';
+import { logger } from './logger.js';
+
+/** OpenAI `response_format` request field */
+export interface ResponseFormat {
+  type: 'text' | 'json_object' | 'json_schema';
+  json_schema?: {
+    name?: string;
+    description?: string;
+    schema?: Record<string, unknown>;
+    strict?: boolean | null;
+  };
+}
+
+/** Message prefix of StructuredOutputError, also found in aggregated failover errors */
+export const STRUCTURED_OUTPUT_ERROR_MESSAGE = 'Response does not match the requested JSON schema';
+
+/**
+ * Thrown when a response does not match the strict `json_schema` the client asked for.
+ * Not a server failure: the request moves on to another server without a ban or cooldown.
+ */
+export class StructuredOutputError extends Error {
+  constructor(detail: string) {
+    super(`${STRUCTURED_OUTPUT_ERROR_MESSAGE}: ${detail}`);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+/** Parse fallback that no JSON document can produce */
+const NOT_JSON = Symbol('not-json');
+
+/** Compiled validators by schema object; null when the schema cannot be compiled */
+const validatorCache = new WeakMap<object, z.ZodType | null>();
+
+function getValidator(schema: Record<string, unknown>): z.ZodType | null {
+  let validator = validatorCache.get(schema);
+  if (validator === undefined) {
+    try {
+      validator = z.fromJSONSchema(schema);
+    } catch (error) {
+      logger.warn('Cannot compile response_format schema, skipping output validation', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      validator = null;
+    }
+    validatorCache.set(schema, validator);
+  }
+  return validator;
+}
+
+/**
+ * Ollama `format` for an OpenAI `response_format`: 'json' for JSON mode, the schema itself
+ * for `json_schema`, undefined for plain text
+ */
+export function toOllamaFormat(
+  responseFormat: ResponseFormat | undefined
+): 'json' | Record<string, unknown> | undefined {
+  if (responseFormat?.type === 'json_object') {
+    return 'json';
+  }
+  if (responseFormat?.type === 'json_schema') {
+    return responseFormat.json_schema?.schema ?? 'json';
+  }
+  return undefined;
+}
+
+/**
+ * The schema a response must be checked against: only `json_schema` formats with
+ * `strict: true` promise conformance
+ */
+export function getStrictSchema(
+  responseFormat: ResponseFormat | undefined
+): Record<string, unknown> | undefined {
+  const jsonSchema =
+    responseFormat?.type === 'json_schema' ? responseFormat.json_schema : undefined;
+  return jsonSchema?.strict === true ? jsonSchema.schema : undefined;
+}
+
+/**
+ * Check one output string against a JSON schema. Throws StructuredOutputError when the
+ * output is not JSON or does not match.
+ */
+export function validateStructuredOutput(output: string, schema: Record<string, unknown>): void {
+  const validator = getValidator(schema);
+  if (!validator) {
+    return;
+  }
+  const parsed: unknown = safeJsonParse(output, NOT_JSON);
+  if (parsed === NOT_JSON) {
+    throw new StructuredOutputError('output is not valid JSON');
+  }
+  const result = validator.safeParse(parsed);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.length > 0 ? issue.path.join('.') : '(root)';
+    throw new StructuredOutputError(`${path}: ${issue.message}`);
+  }
+}
+
+/**
+ * Check every choice of a chat completion against a strict schema. Choices that answered
+ * with tool calls instead of content are not checked.
+ */
+export function validateChatCompletion(
+  completion: Record<string, unknown>,
+  schema: Record<string, unknown>
+): void {
+  const choices = Array.isArray(completion.choices) ? completion.choices : [];
+  for (const choice of choices as Array<{
+    message?: { content?: unknown; tool_calls?: unknown };
+  }>) {
+    const content = choice.message?.content;
+    if (typeof content === 'string') {
+      validateStructuredOutput(content, schema);
+    } else if (!choice.message?.tool_calls) {
+      throw new StructuredOutputError('response has no content');
+    }
+  }
+}
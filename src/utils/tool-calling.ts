@@ -0,0 +1,105 @@
+/**
+ * tool-calling.ts
+ * OpenAI `tool_choice` and `parallel_tool_calls` for backends that only take a tool list:
+ * request validation, narrowing the tools a backend sees, and trimming surplus calls
+ */
+
+/** OpenAI function tool definition */
+export interface ToolDefinition {
+  type: 'function';
+  function: { name: string; description?: string; parameters?: object; strict?: boolean };
+}
+
+/** OpenAI `tool_choice` request field */
+export type ToolChoice =
+  | 'none'
+  | 'auto'
+  | 'required'
+  | { type: 'function'; function: { name: string } };
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toolName(tool: unknown): unknown {
+  return isObject(tool) && isObject(tool.function) ? tool.function.name : undefined;
+}
+
+/** Name of the function a `tool_choice` forces, if it names one */
+function forcedToolName(toolChoice: unknown): unknown {
+  return isObject(toolChoice) && isObject(toolChoice.function)
+    ? toolChoice.function.name
+    : undefined;
+}
+
+/**
+ * Validate `tool_choice` against `tools`. Returns an error message, or undefined when valid.
+ */
+export function validateToolChoice(tools: unknown, toolChoice: unknown): string | undefined {
+  if (toolChoice === undefined || toolChoice === null) {
+    return undefined;
+  }
+
+  if (typeof toolChoice === 'string') {
+    if (!['none', 'auto', 'required'].includes(toolChoice)) {
+      return `Invalid tool_choice '${toolChoice}': expected 'none', 'auto', 'required' or a function`;
+    }
+  } else if (
+    !isObject(toolChoice) ||
+    toolChoice.type !== 'function' ||
+    typeof forcedToolName(toolChoice) !== 'string'
+  ) {
+    return "Invalid tool_choice: expected { type: 'function', function: { name } }";
+  }
+
+  const toolList = Array.isArray(tools) ? tools : [];
+  if (toolList.length === 0) {
+    return toolChoice === 'none' || toolChoice === 'auto'
+      ? undefined
+      : 'tool_choice is only allowed when tools are specified';
+  }
+
+  const name = forcedToolName(toolChoice);
+  if (name !== undefined && !toolList.some(tool => toolName(tool) === name)) {
+    return `tool_choice names function '${String(name)}', which is not in tools`;
+  }
+  return undefined;
+}
+
+/**
+ * The tools to send a backend that has no `tool_choice` of its own: none for 'none', only
+ * the forced function when one is named, all of them otherwise. 'required' cannot be
+ * enforced this way; the model still sees every tool.
+ */
+export function toolsForChoice(tools: unknown, toolChoice: unknown): unknown[] | undefined {
+  if (!Array.isArray(tools) || tools.length === 0 || toolChoice === 'none') {
+    return undefined;
+  }
+  const name = forcedToolName(toolChoice);
+  return name === undefined ? tools : tools.filter(tool => toolName(tool) === name);
+}
+
+/**
+ * How many tool calls a response may carry: one when `parallel_tool_calls` is false
+ */
+export function maxToolCalls(parallelToolCalls: unknown): number {
+  return parallelToolCalls === false ? 1 : Infinity;
+}
+
+/**
+ * Drop the tool calls beyond the first from every choice of a chat completion when the
+ * client disabled parallel tool calls
+ */
+export function limitToolCalls(
+  completion: Record<string, unknown>,
+  parallelToolCalls: unknown
+): void {
+  const limit = maxToolCalls(parallelToolCalls);
+  const choices = Array.isArray(completion.choices) ? completion.choices : [];
+  for (const choice of choices) {
+    const message = isObject(choice) && isObject(choice.message) ? choice.message : undefined;
+    if (message && Array.isArray(message.tool_calls) && message.tool_calls.length > limit) {
+      message.tool_calls = message.tool_calls.slice(0, limit);
+    }
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * vision.ts
+ * Image input for OpenAI chat requests: `image_url` parts are checked against the `vision`
+ * limits and remote URLs are fetched into data URLs, which Ollama takes as base64 images
+ */
+
+import { getConfigManager, DEFAULT_CONFIG, type VisionConfig } from '../config/config.js';
+
+import { fetchWithTimeout } from './fetchWithTimeout.js';
+import { logger } from './logger.js';
+
+/** Capability a model must report in /api/show to be sent images */
+export const VISION_CAPABILITY = 'vision';
+
+export interface ImageInputError {
+  error: string;
+  code: string;
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function getVisionConfig(): VisionConfig {
+  return getConfigManager().getConfig().vision ?? DEFAULT_CONFIG.vision;
+}
+
+/**
+ * The `image_url` parts of a list of OpenAI chat messages
+ */
+function imageParts(messages: unknown[]): JsonObject[] {
+  return messages
+    .filter(isObject)
+    .flatMap(message => (Array.isArray(message.content) ? message.content : []))
+    .filter((part): part is JsonObject => isObject(part) && part.type === 'image_url');
+}
+
+function partUrl(part: JsonObject): unknown {
+  return isObject(part.image_url) ? part.image_url.url : part.image_url;
+}
+
+function tooLarge(bytes: number, config: VisionConfig): ImageInputError | undefined {
+  return bytes > config.maxImageBytes
+    ? {
+        error: `Image of ${bytes} bytes exceeds the ${config.maxImageBytes} byte limit`,
+        code: 'image_too_large',
+      }
+    : undefined;
+}
+
+/**
+ * Read a response body chunk by chunk, cancelling it as soon as it passes `maxImageBytes`
+ * so a server that sends no Content-Length cannot make us buffer an unbounded image
+ */
+async function readImageBody(
+  response: Response,
+  config: VisionConfig
+): Promise<Buffer | ImageInputError> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    return Buffer.alloc(0);
+  }
+  const chunks: Uint8Array[] = [];
+  let bytes = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return Buffer.concat(chunks);
+    }
+    bytes += value.length;
+    if (bytes > config.maxImageBytes) {
+      await reader.cancel();
+      return {
+        error: `Image exceeds the ${config.maxImageBytes} byte limit`,
+        code: 'image_too_large',
+      };
+    }
+    chunks.push(value);
+  }
+}
+
+/**
+ * Fetch a remote image as a data URL
+ */
+async function fetchImage(url: string, config: VisionConfig): Promise<string | ImageInputError> {
+  let response: Response;
+  try {
+    response = await fetchWithTimeout(url, { timeout: config.remoteImageTimeoutMs });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { error: `Could not fetch image ${url}: ${message}`, code: 'image_fetch_failed' };
+  }
+  if (!response.ok) {
+    return {
+      error: `Could not fetch image ${url}: HTTP ${response.status}`,
+      code: 'image_fetch_failed',
+    };
+  }
+
+  const mimeType = response.headers.get('content-type')?.split(';')[0].trim() ?? '';
+  if (!mimeType.startsWith('image/')) {
+    return {
+      error: `${url} is not an image (${mimeType || 'no content type'})`,
+      code: 'invalid_image',
+    };
+  }
+  const declared = tooLarge(Number(response.headers.get('content-length') ?? 0), config);
+  if (declared) {
+    return declared;
+  }
+  let data: Buffer | ImageInputError;
+  try {
+    data = await readImageBody(response, config);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { error: `Could not fetch image ${url}: ${message}`, code: 'image_fetch_failed' };
+  }
+  return Buffer.isBuffer(data) ? `data:${mimeType};base64,${data.toString('base64')}` : data;
+}
+
+/**
+ * Check the images of OpenAI chat messages against the `vision` limits and replace remote
+ * image URLs with data URLs (when `vision.allowRemoteImages` is on). Parts are rewritten in
+ * place. Returns the number of images, or an error for the client.
+ */
+export async function prepareImageInputs(
+  messages: unknown[],
+  config: VisionConfig = getVisionConfig()
+): Promise<number | ImageInputError> {
+  const parts = imageParts(messages);
+  if (parts.length > config.maxImages) {
+    return {
+      error: `Too many images: ${parts.length}, at most ${config.maxImages} are allowed`,
+      code: 'too_many_images',
+    };
+  }
+
+  for (const part of parts) {
+    const url = partUrl(part);
+    if (typeof url !== 'string') {
+      return { error: 'image_url must be a URL string or { url }', code: 'invalid_image_url' };
+    }
+
+    if (url.startsWith('data:')) {
+      const match = /^data:image\/[\w.+-]+;base64,(.*)$/s.exec(url);
+      if (!match) {
+        return {
+          error: 'Image data URLs must be base64-encoded images',
+          code: 'invalid_image_url',
+        };
+      }
+      const error = tooLarge(Buffer.byteLength(match[1], 'base64'), config);
+      if (error) {
+        return error;
+      }
+    } else if (/^https?:\/\//i.test(url)) {
+      if (!config.allowRemoteImages) {
+        return {
+          error: 'Remote image URLs are disabled; send images as base64 data URLs',
+          code: 'remote_images_disabled',
+        };
+      }
+      const dataUrl = await fetchImage(url, config);
+      if (typeof dataUrl !== 'string') {
+        return dataUrl;
+      }
+      logger.debug('Fetched remote image', { url, bytes: dataUrl.length });
+      part.image_url = isObject(part.image_url)
+        ? { ...part.image_url, url: dataUrl }
+        : { url: dataUrl };
+    } else {
+      return {
+        error: 'image_url must be a data: URL or an http(s) URL',
+        code: 'invalid_image_url',
+      };
+    }
+  }
+  return parts.length;
+}
@@ -53,6 +53,7 @@ describe('Analytics Controller', () => {
     mockOrchestrator = {
       getAllDetailedMetrics: vi.fn(),
       getGlobalMetrics: vi.fn(),
+      getQueueStats: vi.fn().mockReturnValue({ size: 0, byModel: {} }),
     };
     mockGetOrchestratorInstance.mockReturnValue(mockOrchestrator);
 
@@ -600,7 +601,7 @@ describe('Analytics Controller', () => {
 
       getCapacityAnalysis(mockReq as Request, mockRes as Response);
 
-      expect(mockAnalytics.getCapacityAnalysis).toHaveBeenCalledWith(0, '24h');
+      expect(mockAnalytics.getCapacityAnalysis).toHaveBeenCalledWith(0, '24h', {});
       expect(mockRes.status).toHaveBeenCalledWith(200);
       expect(mockRes.json).toHaveBeenCalledWith({
         success: true,
@@ -628,10 +629,31 @@ describe('Analytics Controller', () => {
 
       getCapacityAnalysis(mockReq as Request, mockRes as Response);
 
-      expect(mockAnalytics.getCapacityAnalysis).toHaveBeenCalledWith(0, '24h');
+      expect(mockAnalytics.getCapacityAnalysis).toHaveBeenCalledWith(0, '24h', {});
       expect(mockRes.status).toHaveBeenCalledWith(200);
     });
 
+    it('should pass admission queue depth to capacity analysis', () => {
+      mockOrchestrator.getQueueStats.mockReturnValue({
+        size: 5,
+        byModel: { 'llama3:latest': 3, 'mistral:latest': 2 },
+      });
+      mockAnalytics.getCapacityAnalysis.mockReturnValue({
+        current: {},
+        forecast: {},
+        trends: { requestsPerHour: [], saturationLevels: [], timestamps: [] },
+        recommendations: [],
+      });
+      mockOrchestrator.getAllDetailedMetrics.mockReturnValue(new Map());
+
+      getCapacityAnalysis(mockReq as Request, mockRes as Response);
+
+      expect(mockAnalytics.getCapacityAnalysis).toHaveBeenCalledWith(5, '24h', {
+        'llama3:latest': 3,
+        'mistral:latest': 2,
+      });
+    });
+
     it('should handle errors when getting capacity analysis', () => {
       const mockError = new Error('Capacity analysis failed');
       mockAnalytics.getCapacityAnalysis.mockImplementation(() => {
@@ -0,0 +1,374 @@
+/**
+ * anthropic-messages.test.ts
+ * Tests for the Anthropic Messages API: request translation, responses and stream events
+ */
+
+import type { Request, Response } from 'express';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { getConfigManager } from '../../src/config/config.js';
+import { handleMessages } from '../../src/controllers/anthropicController.js';
+import { getOrchestratorInstance } from '../../src/orchestrator-instance.js';
+import {
+  AnthropicEventStream,
+  anthropicMessagesToOllama,
+  anthropicRequestToOllama,
+  anthropicToolsToOllama,
+  ollamaResponseToAnthropic,
+  validateAnthropicToolChoice,
+} from '../../src/utils/anthropic-messages.js';
+import { fetchWithTimeout, fetchWithActivityTimeout } from '../../src/utils/fetchWithTimeout.js';
+
+vi.mock('../../src/orchestrator-instance.js');
+vi.mock('../../src/config/config.js');
+vi.mock('../../src/utils/fetchWithTimeout.js');
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: { info: vi.fn(), error: vi.fn(), debug: vi.fn(), warn: vi.fn() },
+}));
+
+const jsonResponse = (data: unknown): globalThis.Response =>
+  new Response(JSON.stringify(data), { headers: { 'Content-Type': 'application/json' } });
+
+const weatherTool = {
+  name: 'get_weather',
+  description: 'Current weather',
+  input_schema: { type: 'object', properties: { city: { type: 'string' } } },
+};
+
+describe('Anthropic Messages Tests', () => {
+  describe('request translation', () => {
+    it('should translate content blocks, tool use and tool results', () => {
+      const messages = anthropicMessagesToOllama([
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Weather here?' },
+            { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'AAAA' } },
+          ],
+        },
+        {
+          role: 'assistant',
+          content: [
+            { type: 'thinking', thinking: '...' },
+            { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Paris' } },
+          ],
+        },
+        {
+          role: 'user',
+          content: [
+            { type: 'tool_result', tool_use_id: 'toolu_1', content: '12°C' },
+            { type: 'text', text: 'Thanks' },
+          ],
+        },
+      ]);
+
+      expect(messages).toEqual([
+        { role: 'user', content: 'Weather here?', images: ['AAAA'] },
+        {
+          role: 'assistant',
+          content: '',
+          tool_calls: [{ function: { name: 'get_weather', arguments: { city: 'Paris' } } }],
+        },
+        { role: 'tool', content: '12°C', tool_name: 'get_weather' },
+        { role: 'user', content: 'Thanks' },
+      ]);
+    });
+
+    it('should reject unsupported blocks and image URLs', () => {
+      expect(
+        anthropicMessagesToOllama([{ role: 'user', content: [{ type: 'document' }] }])
+      ).toEqual({ error: "Unsupported content block type 'document'" });
+      expect(
+        anthropicMessagesToOllama([
+          { role: 'user', content: [{ type: 'image', source: { type: 'url', url: 'http://x' } }] },
+        ])
+      ).toMatchObject({ error: expect.stringMatching(/use base64/) });
+    });
+
+    it('should build an Ollama chat body with system prompt and options', () => {
+      const body = anthropicRequestToOllama(
+        {
+          model: 'llama3',
+          max_tokens: 100,
+          system: [{ type: 'text', text: 'Be brief.' }],
+          temperature: 0.2,
+          stop_sequences: ['END'],
+        },
+        [{ role: 'user', content: 'hi' }],
+        undefined
+      );
+
+      expect(body).toEqual({
+        model: 'llama3',
+        messages: [
+          { role: 'system', content: 'Be brief.' },
+          { role: 'user', content: 'hi' },
+        ],
+        options: { num_predict: 100, temperature: 0.2, stop: ['END'] },
+      });
+    });
+
+    it('should translate tools and apply tool_choice', () => {
+      const otherTool = { ...weatherTool, name: 'get_time' };
+      expect(anthropicToolsToOllama([weatherTool], undefined)).toEqual([
+        {
+          type: 'function',
+          function: {
+            name: 'get_weather',
+            description: 'Current weather',
+            parameters: weatherTool.input_schema,
+          },
+        },
+      ]);
+      expect(
+        anthropicToolsToOllama([weatherTool, otherTool], { type: 'tool', name: 'get_time' })
+      ).toHaveLength(1);
+      expect(anthropicToolsToOllama([weatherTool], { type: 'none' })).toBeUndefined();
+      expect(anthropicToolsToOllama([{ type: 'web_search_20250305' }], undefined)).toMatchObject({
+        error: expect.stringMatching(/only custom tools/),
+      });
+
+      expect(validateAnthropicToolChoice([weatherTool], { type: 'any' })).toBeUndefined();
+      expect(validateAnthropicToolChoice([weatherTool], { type: 'tool', name: 'x' })).toMatch(
+        /not in tools/
+      );
+      expect(validateAnthropicToolChoice([weatherTool], 'auto')).toMatch(/Invalid tool_choice/);
+    });
+  });
+
+  describe('responses', () => {
+    it('should convert an Ollama response to a Message', () => {
+      const message = ollamaResponseToAnthropic(
+        {
+          message: {
+            role: 'assistant',
+            content: 'Checking',
+            tool_calls: [{ function: { name: 'get_weather', arguments: { city: 'Paris' } } }],
+          },
+          done: true,
+          prompt_eval_count: 12,
+          eval_count: 5,
+        },
+        'msg_1',
+        'llama3'
+      ) as any;
+
+      expect(message).toMatchObject({
+        id: 'msg_1',
+        type: 'message',
+        role: 'assistant',
+        stop_reason: 'tool_use',
+        usage: { input_tokens: 12, output_tokens: 5 },
+      });
+      expect(message.content[0]).toEqual({ type: 'text', text: 'Checking' });
+      expect(message.content[1]).toMatchObject({
+        type: 'tool_use',
+        name: 'get_weather',
+        input: { city: 'Paris' },
+      });
+      expect(message.content[1].id).toMatch(/^toolu_/);
+    });
+
+    it('should report max_tokens when the output was cut off', () => {
+      const message = ollamaResponseToAnthropic(
+        { message: { content: 'partial' }, done: true, done_reason: 'length' },
+        'msg_1',
+        'llama3'
+      );
+
+      expect(message.stop_reason).toBe('max_tokens');
+    });
+
+    it('should emit block events for text and tool calls', () => {
+      const stream = new AnthropicEventStream('msg_1', 'llama3');
+      const events = [
+        ...stream.start(),
+        ...stream.push({ message: { content: 'Hel' }, done: false }),
+        ...stream.push({ message: { content: 'lo' }, done: false }),
+        ...stream.push({
+          message: { content: '', tool_calls: [{ function: { name: 'f', arguments: { a: 1 } } }] },
+          done: false,
+        }),
+        ...stream.push({ message: { content: '' }, done: true, eval_count: 3 }),
+      ];
+
+      expect(events.map(event => event.type)).toEqual([
+        'message_start',
+        'content_block_start',
+        'content_block_delta',
+        'content_block_delta',
+        'content_block_stop',
+        'content_block_start',
+        'content_block_delta',
+        'content_block_stop',
+        'message_delta',
+        'message_stop',
+      ]);
+      expect(events[5]).toMatchObject({ index: 1, content_block: { type: 'tool_use', name: 'f' } });
+      expect(events[6]).toMatchObject({
+        index: 1,
+        delta: { type: 'input_json_delta', partial_json: '{"a":1}' },
+      });
+      expect(events[8]).toMatchObject({
+        delta: { stop_reason: 'tool_use' },
+        usage: { output_tokens: 3 },
+      });
+    });
+  });
+
+  describe('controller', () => {
+    const servers = [
+      { id: 'ollama-server', url: 'http://a:11434' },
+      { id: 'openai-only', url: 'http://b:8000', supportsOllama: false },
+    ];
+    let server: (typeof servers)[number];
+    let mockOrchestrator: any;
+    let mockRes: any;
+    let written: string[];
+
+    const request = (body: Record<string, unknown>) =>
+      ({ body, params: {}, query: {}, headers: {} }) as unknown as Request;
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      server = servers[0];
+      mockOrchestrator = {
+        resolveModelAlias: vi.fn((model: string) => model),
+        getTimeout: vi.fn().mockReturnValue(60000),
+        tryRequestWithFailover: vi.fn((_model: string, fn: (server: any, ctx: any) => unknown) =>
+          fn(server, {})
+        ),
+      };
+      vi.mocked(getOrchestratorInstance).mockReturnValue(mockOrchestrator);
+      vi.mocked(getConfigManager).mockReturnValue({ getConfig: () => ({}) } as any);
+
+      written = [];
+      mockRes = {
+        headersSent: false,
+        writableEnded: false,
+        status: vi.fn().mockReturnThis(),
+        json: vi.fn(),
+        setHeader: vi.fn(),
+        write: vi.fn((data: string) => {
+          mockRes.headersSent = true;
+          written.push(data);
+          return true;
+        }),
+        end: vi.fn(),
+      };
+    });
+
+    it('should serve a Message from Ollama chat and hand the orchestrator Ollama metrics', async () => {
+      const ollamaData = {
+        message: { role: 'assistant', content: 'Hi!' },
+        done: true,
+        prompt_eval_count: 8,
+        eval_count: 2,
+      };
+      vi.mocked(fetchWithTimeout).mockResolvedValueOnce(jsonResponse(ollamaData));
+
+      await handleMessages(
+        request({
+          model: 'llama3',
+          max_tokens: 64,
+          system: 'Be kind.',
+          messages: [{ role: 'user', content: 'hello' }],
+        }),
+        mockRes as Response
+      );
+
+      const [url, init] = vi.mocked(fetchWithTimeout).mock.calls[0];
+      expect(url).toBe('http://a:11434/api/chat');
+      expect(JSON.parse(init!.body as string)).toMatchObject({
+        stream: false,
+        messages: [
+          { role: 'system', content: 'Be kind.' },
+          { role: 'user', content: 'hello' },
+        ],
+        options: { num_predict: 64 },
+      });
+      await expect(mockOrchestrator.tryRequestWithFailover.mock.results[0].value).resolves.toEqual(
+        ollamaData
+      );
+      expect(mockRes.json.mock.calls[0][0]).toMatchObject({
+        type: 'message',
+        content: [{ type: 'text', text: 'Hi!' }],
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 8, output_tokens: 2 },
+      });
+    });
+
+    it('should stream events from an OpenAI-only backend', async () => {
+      server = servers[1];
+      const sse = [
+        { choices: [{ index: 0, delta: { role: 'assistant', content: 'Hi' } }] },
+        { choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] },
+        { choices: [], usage: { prompt_tokens: 4, completion_tokens: 1, total_tokens: 5 } },
+      ]
+        .map(event => `data: ${JSON.stringify(event)}\n\n`)
+        .join('');
+      vi.mocked(fetchWithActivityTimeout).mockResolvedValueOnce({
+        response: new Response(`${sse}data: [DONE]\n\n`),
+        activityController: { clearTimeout: vi.fn(), resetTimeout: vi.fn() },
+      } as any);
+
+      await handleMessages(
+        request({
+          model: 'llama3',
+          max_tokens: 64,
+          stream: true,
+          messages: [{ role: 'user', content: 'hello' }],
+        }),
+        mockRes as Response
+      );
+
+      expect(vi.mocked(fetchWithActivityTimeout).mock.calls[0][0]).toBe(
+        'http://b:8000/v1/chat/completions'
+      );
+      const events = written.map(frame => {
+        const [eventLine, dataLine] = frame.trim().split('\n');
+        return { name: eventLine.replace('event: ', ''), data: JSON.parse(dataLine.slice(6)) };
+      });
+      expect(events.every(event => event.name === event.data.type)).toBe(true);
+      expect(events[0].name).toBe('message_start');
+      expect(events.find(event => event.name === 'content_block_delta')?.data.delta.text).toBe(
+        'Hi'
+      );
+      expect(events.find(event => event.name === 'message_delta')?.data.usage).toEqual({
+        input_tokens: 4,
+        output_tokens: 1,
+      });
+      expect(events[events.length - 1].name).toBe('message_stop');
+
+      const metrics = await mockOrchestrator.tryRequestWithFailover.mock.results[0].value;
+      expect(metrics._tokenMetrics).toEqual({ tokensGenerated: 1, tokensPrompt: 4 });
+    });
+
+    it('should reply with an Anthropic error for a missing max_tokens', async () => {
+      await handleMessages(
+        request({ model: 'llama3', messages: [{ role: 'user', content: 'hi' }] }),
+        mockRes as Response
+      );
+
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+      expect(mockRes.json.mock.calls[0][0]).toEqual({
+        type: 'error',
+        error: { type: 'invalid_request_error', message: 'max_tokens: Field required' },
+      });
+    });
+
+    it('should report capacity errors as overloaded', async () => {
+      mockOrchestrator.tryRequestWithFailover.mockRejectedValueOnce(
+        new Error('No healthy servers available for model llama3')
+      );
+
+      await handleMessages(
+        request({ model: 'llama3', max_tokens: 10, messages: [{ role: 'user', content: 'hi' }] }),
+        mockRes as Response
+      );
+
+      expect(mockRes.status).toHaveBeenCalledWith(503);
+      expect(mockRes.json.mock.calls[0][0].error.type).toBe('overloaded_error');
+    });
+  });
+});
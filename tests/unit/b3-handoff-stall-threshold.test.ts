@@ -66,6 +66,7 @@ describe('B-3: Handoff stall threshold inheritance', () => {
 
     mockOrchestrator = {
       getAggregatedTags: vi.fn(),
+      resolveModelAlias: vi.fn((model: string) => model),
       tryRequestWithFailover: vi.fn(),
       getServers: vi.fn().mockReturnValue([
         {
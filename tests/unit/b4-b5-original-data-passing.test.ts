@@ -81,6 +81,7 @@ describe('B-4/B-5: Original data passing to addStreamingRequest', () => {
 
     mockOrchestrator = {
       getAggregatedTags: vi.fn(),
+      resolveModelAlias: vi.fn((model: string) => model),
       tryRequestWithFailover: vi.fn(),
       getServers: vi
         .fn()
@@ -0,0 +1,609 @@
+/**
+ * batches.test.ts
+ * Tests for the OpenAI Files and Batch APIs: input validation, batch execution, retries,
+ * cancellation and resuming after a restart
+ */
+
+import fs from 'fs';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+
+import express, { type Request, type Response } from 'express';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import {
+  BatchManager,
+  BatchRequestError,
+  getBatchManager,
+  parseBatchInput,
+  resetBatchManager,
+  type BatchExecutor,
+  type BatchObject,
+} from '../../src/batch-manager.js';
+import { DEFAULT_CONFIG, getConfigManager } from '../../src/config/config.js';
+import {
+  handleCancelBatch,
+  handleCreateBatch,
+  handleDeleteFile,
+  handleGetBatch,
+  handleGetFileContent,
+  handleListFiles,
+  handleUploadFile,
+  parseFileUpload,
+} from '../../src/controllers/batchesController.js';
+import { requireAuth } from '../../src/middleware/auth.js';
+import { getOrchestratorInstance } from '../../src/orchestrator-instance.js';
+import type { CapacityUsage } from '../../src/orchestrator.types.js';
+import { FileStore, resetFileStore, setFileStore } from '../../src/utils/file-store.js';
+import type { QueueStats } from '../../src/utils/request-queue.js';
+
+vi.mock('../../src/orchestrator-instance.js');
+vi.mock('../../src/config/config.js', async importOriginal => ({
+  ...(await importOriginal<typeof import('../../src/config/config.js')>()),
+  getConfigManager: vi.fn(),
+}));
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: { info: vi.fn(), error: vi.fn(), debug: vi.fn(), warn: vi.fn() },
+}));
+
+const requestLine = (customId: string, content = 'hi'): string =>
+  JSON.stringify({
+    custom_id: customId,
+    method: 'POST',
+    url: '/v1/chat/completions',
+    body: { model: 'llama3', messages: [{ role: 'user', content }] },
+  });
+
+const idleQueue = (): QueueStats =>
+  ({ size: 0, byPriority: { high: 0, normal: 0, low: 0 } }) as unknown as QueueStats;
+
+const idleServers = (): CapacityUsage => ({ inFlight: 0, capacity: 4 });
+
+async function waitFor(check: () => boolean, timeoutMs = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+const isFinished = (batch: BatchObject | undefined): boolean =>
+  ['completed', 'failed', 'cancelled', 'expired'].includes(batch?.status ?? '');
+
+const readLines = (store: FileStore, id: string | null): any[] =>
+  (store.read(id ?? '') ?? '')
+    .split('\n')
+    .filter(Boolean)
+    .map(line => JSON.parse(line));
+
+describe('Batch API Tests', () => {
+  let tempDir: string;
+  let fileStore: FileStore;
+
+  const createManager = (
+    execute: BatchExecutor,
+    getQueueStats = idleQueue,
+    getCapacityUsage = idleServers
+  ): BatchManager =>
+    new BatchManager({
+      dir: path.join(tempDir, 'batches'),
+      fileStore,
+      execute,
+      getQueueStats,
+      getCapacityUsage,
+      getConfig: () => ({ ...DEFAULT_CONFIG.batches, concurrency: 1, retryDelayMs: 10 }),
+    });
+
+  const createBatch = (manager: BatchManager, lines: string[]): BatchObject => {
+    const input = fileStore.create('input.jsonl', 'batch', lines.join('\n'));
+    return manager.create({
+      input_file_id: input.id,
+      endpoint: '/v1/chat/completions',
+      completion_window: '24h',
+    });
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'batches-test-'));
+    fileStore = new FileStore(path.join(tempDir, 'files'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('input validation', () => {
+    it('should accept well-formed request lines', () => {
+      const { requests, errors } = parseBatchInput(
+        [requestLine('a'), '', requestLine('b')].join('\n'),
+        '/v1/chat/completions',
+        10
+      );
+
+      expect(errors).toEqual([]);
+      expect(requests.map(request => request.custom_id)).toEqual(['a', 'b']);
+    });
+
+    it('should report bad lines with their line numbers', () => {
+      const { errors } = parseBatchInput(
+        [
+          requestLine('a'),
+          requestLine('a'),
+          'not json',
+          JSON.stringify({ custom_id: 'c', method: 'POST', url: '/v1/embeddings', body: {} }),
+        ].join('\n'),
+        '/v1/chat/completions',
+        10
+      );
+
+      expect(errors.map(error => [error.code, error.line])).toEqual([
+        ['duplicate_custom_id', 2],
+        ['invalid_json_line', 3],
+        ['invalid_url', 4],
+      ]);
+    });
+
+    it('should enforce the request limit and reject empty files', () => {
+      expect(parseBatchInput('', undefined, 10).errors[0].code).toBe('empty_file');
+      expect(
+        parseBatchInput([requestLine('a'), requestLine('b')].join('\n'), undefined, 1).errors[0]
+          .code
+      ).toBe('too_many_requests');
+    });
+  });
+
+  describe('execution', () => {
+    it('should write successes and failures to output and error files', async () => {
+      const execute = vi.fn<BatchExecutor>(async (_url, body) => {
+        const [message] = body.messages as Array<{ content: string }>;
+        if (message.content === 'fail') {
+          throw new BatchRequestError(
+            'Model llama3 cannot read images',
+            400,
+            'model_not_vision_capable'
+          );
+        }
+        return { object: 'chat.completion', choices: [] };
+      });
+      const manager = createManager(execute);
+      const { id } = createBatch(manager, [requestLine('a'), requestLine('b', 'fail')]);
+
+      await waitFor(() => isFinished(manager.get(id)));
+      const batch = manager.get(id)!;
+
+      expect(batch.status).toBe('completed');
+      expect(batch.request_counts).toEqual({ total: 2, completed: 1, failed: 1 });
+      expect(readLines(fileStore, batch.output_file_id)).toEqual([
+        expect.objectContaining({
+          custom_id: 'a',
+          response: expect.objectContaining({ status_code: 200 }),
+          error: null,
+        }),
+      ]);
+      const [failure] = readLines(fileStore, batch.error_file_id);
+      expect(failure.custom_id).toBe('b');
+      expect(failure.response.status_code).toBe(400);
+      expect(failure.response.body.error.code).toBe('model_not_vision_capable');
+    });
+
+    it('should retry capacity failures until the request succeeds', async () => {
+      const execute = vi
+        .fn<BatchExecutor>()
+        .mockRejectedValueOnce(
+          new BatchRequestError('No healthy servers available', 503, 'service_unavailable')
+        )
+        .mockRejectedValueOnce(
+          new BatchRequestError('Low-priority request shed', 503, 'service_unavailable')
+        )
+        .mockResolvedValue({ choices: [] });
+      const manager = createManager(execute);
+      const { id } = createBatch(manager, [requestLine('a')]);
+
+      await waitFor(() => isFinished(manager.get(id)));
+
+      expect(execute).toHaveBeenCalledTimes(3);
+      expect(manager.get(id)?.request_counts).toEqual({ total: 1, completed: 1, failed: 0 });
+    });
+
+    it('should write a capacity failure to the error file once the window ends', async () => {
+      const now = Date.now();
+      const clock = vi.spyOn(Date, 'now');
+      const execute = vi.fn<BatchExecutor>(async () => {
+        // The window runs out while the first attempt is in flight
+        clock.mockReturnValue(now + 25 * 60 * 60 * 1000);
+        throw new BatchRequestError('No healthy servers available', 503, 'service_unavailable');
+      });
+      const manager = createManager(execute);
+      const { id } = createBatch(manager, [requestLine('a'), requestLine('b')]);
+
+      try {
+        await waitFor(() => isFinished(manager.get(id)));
+      } finally {
+        clock.mockRestore();
+      }
+
+      const batch = manager.get(id)!;
+      expect(batch.status).toBe('expired');
+      expect(execute).toHaveBeenCalledTimes(1);
+      expect(readLines(fileStore, batch.error_file_id)).toEqual([
+        expect.objectContaining({
+          custom_id: 'a',
+          response: expect.objectContaining({ status_code: 503 }),
+        }),
+      ]);
+    });
+
+    it('should fail a batch whose input file does not validate', async () => {
+      const manager = createManager(vi.fn());
+      const { id } = createBatch(manager, [requestLine('a'), 'not json']);
+
+      await waitFor(() => isFinished(manager.get(id)));
+
+      const batch = manager.get(id)!;
+      expect(batch.status).toBe('failed');
+      expect(batch.errors?.data[0]).toMatchObject({ code: 'invalid_json_line', line: 2 });
+    });
+
+    it('should wait while interactive requests are queued', async () => {
+      let interactiveWaiting = 1;
+      const execute = vi.fn<BatchExecutor>(async () => ({ choices: [] }));
+      const manager = createManager(
+        execute,
+        () =>
+          ({
+            size: interactiveWaiting,
+            byPriority: { high: 0, normal: interactiveWaiting, low: 0 },
+          }) as unknown as QueueStats
+      );
+      const { id } = createBatch(manager, [requestLine('a')]);
+
+      await waitFor(() => manager.get(id)?.status === 'in_progress');
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(execute).not.toHaveBeenCalled();
+
+      interactiveWaiting = 0;
+      await waitFor(() => isFinished(manager.get(id)));
+      expect(execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait while servers are busy', async () => {
+      let inFlight = 4;
+      const execute = vi.fn<BatchExecutor>(async () => ({ choices: [] }));
+      const manager = createManager(execute, idleQueue, () => ({ inFlight, capacity: 4 }));
+      const { id } = createBatch(manager, [requestLine('a')]);
+
+      await waitFor(() => manager.get(id)?.status === 'in_progress');
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(execute).not.toHaveBeenCalled();
+
+      // Below the default yieldLoadRatio of 0.8
+      inFlight = 3;
+      await waitFor(() => isFinished(manager.get(id)));
+      expect(execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep partial results when cancelled', async () => {
+      let release!: () => void;
+      const execute = vi.fn<BatchExecutor>(
+        () => new Promise(resolve => (release = () => resolve({ choices: [] })))
+      );
+      const manager = createManager(execute);
+      const { id } = createBatch(manager, [requestLine('a'), requestLine('b')]);
+
+      await waitFor(() => execute.mock.calls.length === 1);
+      expect(manager.cancel(id)?.status).toBe('cancelling');
+      release();
+      await waitFor(() => isFinished(manager.get(id)));
+
+      const batch = manager.get(id)!;
+      expect(batch.status).toBe('cancelled');
+      expect(batch.request_counts).toEqual({ total: 2, completed: 1, failed: 0 });
+      expect(readLines(fileStore, batch.output_file_id).map(line => line.custom_id)).toEqual(['a']);
+      expect(execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should resume an unfinished batch after a restart without repeating requests', async () => {
+      // The first run stops (as on shutdown) after answering one request
+      const firstExecute = vi.fn<BatchExecutor>(async () => {
+        void first.stop();
+        return { choices: [] };
+      });
+      const first = createManager(firstExecute);
+      const { id } = createBatch(first, [requestLine('a'), requestLine('b'), requestLine('c')]);
+      await waitFor(() => firstExecute.mock.calls.length === 1);
+      await first.stop();
+      expect(first.get(id)?.status).toBe('in_progress');
+
+      const secondExecute = vi.fn<BatchExecutor>(async () => ({ choices: [] }));
+      const second = createManager(secondExecute);
+      second.start();
+      await waitFor(() => isFinished(second.get(id)));
+
+      const batch = second.get(id)!;
+      expect(batch.status).toBe('completed');
+      expect(batch.request_counts).toEqual({ total: 3, completed: 3, failed: 0 });
+      expect(secondExecute).toHaveBeenCalledTimes(2);
+      expect(readLines(fileStore, batch.output_file_id).map(line => line.custom_id)).toEqual([
+        'a',
+        'b',
+        'c',
+      ]);
+    });
+
+    it('should list batches newest first with an after cursor', () => {
+      const manager = createManager(vi.fn(() => new Promise(() => {})));
+      const older = createBatch(manager, [requestLine('a')]);
+      const newer = createBatch(manager, [requestLine('a')]);
+      // Same second: order falls back to id, so compare against the listed order
+      const { data, hasMore } = manager.list(undefined, 1);
+
+      expect(data).toHaveLength(1);
+      expect(hasMore).toBe(true);
+      expect(manager.list(data[0].id, 10).data.map(batch => batch.id)).toEqual(
+        [older.id, newer.id].filter(batchId => batchId !== data[0].id)
+      );
+    });
+  });
+
+  describe('HTTP handlers', () => {
+    const tryRequestWithFailover = vi.fn();
+
+    const createMockRes = () => {
+      const res: any = {};
+      res.status = vi.fn().mockReturnValue(res);
+      res.json = vi.fn().mockReturnValue(res);
+      return res as Response & { status: any; json: any };
+    };
+
+    const multipartRequest = async (purpose: string, content: string): Promise<Request> => {
+      const form = new FormData();
+      form.append('purpose', purpose);
+      form.append('file', new Blob([content]), 'requests.jsonl');
+      const encoded = new globalThis.Request('http://localhost/v1/files', {
+        method: 'POST',
+        body: form,
+      });
+      return {
+        headers: { 'content-type': encoded.headers.get('content-type') },
+        body: Buffer.from(await encoded.arrayBuffer()),
+      } as unknown as Request;
+    };
+
+    beforeEach(() => {
+      setFileStore(fileStore);
+      resetBatchManager();
+      vi.mocked(getConfigManager).mockReturnValue({
+        getConfig: () => ({ ...DEFAULT_CONFIG, persistencePath: tempDir }),
+      } as any);
+      tryRequestWithFailover.mockReset();
+      vi.mocked(getOrchestratorInstance).mockReturnValue({
+        resolveModelAlias: (model: string) => model,
+        getQueueStats: idleQueue,
+        getCapacityUsage: idleServers,
+        getTimeout: () => 1000,
+        tryRequestWithFailover,
+      } as any);
+    });
+
+    afterEach(() => {
+      resetBatchManager();
+      resetFileStore();
+    });
+
+    it('should store an uploaded batch file and reject invalid ones', async () => {
+      const res = createMockRes();
+      await handleUploadFile(await multipartRequest('batch', requestLine('a')), res);
+
+      const file = res.json.mock.calls[0][0];
+      expect(file).toMatchObject({ object: 'file', purpose: 'batch', filename: 'requests.jsonl' });
+      expect(fileStore.read(file.id)).toBe(requestLine('a'));
+
+      const badRes = createMockRes();
+      await handleUploadFile(await multipartRequest('batch', 'not json'), badRes);
+      expect(badRes.status).toHaveBeenCalledWith(400);
+      expect(badRes.json.mock.calls[0][0].error.message).toBe('Line 1: Line is not a JSON object');
+    });
+
+    it('should run batch requests through the orchestrator at low priority', async () => {
+      tryRequestWithFailover.mockResolvedValue({ object: 'chat.completion', choices: [] });
+      const input = fileStore.create('input.jsonl', 'batch', requestLine('a'));
+
+      const res = createMockRes();
+      handleCreateBatch(
+        {
+          body: {
+            input_file_id: input.id,
+            endpoint: '/v1/chat/completions',
+            completion_window: '24h',
+          },
+        } as Request,
+        res
+      );
+      const { id } = res.json.mock.calls[0][0];
+
+      await waitFor(() => {
+        const getRes = createMockRes();
+        handleGetBatch({ params: { id } } as unknown as Request, getRes);
+        return getRes.json.mock.calls[0][0].status === 'completed';
+      });
+      expect(tryRequestWithFailover).toHaveBeenCalledWith(
+        'llama3',
+        expect.any(Function),
+        false,
+        'generate',
+        'openai',
+        expect.objectContaining({ priority: 'low' })
+      );
+    });
+
+    it("should sample n > 1 lines with the creating request's labels and fallback opt-in", async () => {
+      tryRequestWithFailover.mockImplementation(async () => ({
+        object: 'chat.completion',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'hi' } }],
+        usage: { prompt_tokens: 2, completion_tokens: 1, total_tokens: 3 },
+      }));
+      const line = JSON.stringify({
+        custom_id: 'a',
+        method: 'POST',
+        url: '/v1/chat/completions',
+        body: { model: 'llama3', messages: [{ role: 'user', content: 'hi' }], n: 2 },
+      });
+      const input = fileStore.create('input.jsonl', 'batch', line);
+
+      const res = createMockRes();
+      handleCreateBatch(
+        {
+          headers: { 'x-require-labels': 'gpu=a100', 'x-allow-fallback': 'true' },
+          body: {
+            input_file_id: input.id,
+            endpoint: '/v1/chat/completions',
+            completion_window: '24h',
+          },
+        } as unknown as Request,
+        res
+      );
+      const { id } = res.json.mock.calls[0][0];
+
+      await waitFor(() => getBatchManager().get(id)?.status === 'completed');
+      expect(tryRequestWithFailover).toHaveBeenCalledTimes(2);
+      expect(tryRequestWithFailover).toHaveBeenCalledWith(
+        'llama3',
+        expect.any(Function),
+        false,
+        'generate',
+        'openai',
+        expect.objectContaining({
+          priority: 'low',
+          allowFallback: true,
+          labelConstraints: { require: [{ key: 'gpu', value: 'a100' }], prefer: [] },
+        })
+      );
+      const [output] = readLines(fileStore, getBatchManager().get(id)!.output_file_id);
+      expect(output.response.body.choices.map((choice: any) => choice.index)).toEqual([0, 1]);
+      expect(output.response.body.usage.total_tokens).toBe(6);
+    });
+
+    describe('with authentication enabled', () => {
+      let server: Server;
+      let baseUrl: string;
+
+      beforeEach(async () => {
+        const app = express();
+        app.use(express.json());
+        app.use(
+          ['/v1/files', '/v1/batches'],
+          requireAuth({ enabled: true, apiKeys: ['key-a', 'key-b'], adminApiKeys: ['admin'] })
+        );
+        app.post('/v1/files', parseFileUpload, handleUploadFile);
+        app.get('/v1/files', handleListFiles);
+        app.get('/v1/files/:id/content', handleGetFileContent);
+        app.delete('/v1/files/:id', handleDeleteFile);
+        app.post('/v1/batches', handleCreateBatch);
+        app.post('/v1/batches/:id/cancel', handleCancelBatch);
+        server = createServer(app);
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      });
+
+      afterEach(async () => {
+        await new Promise(resolve => server.close(resolve));
+      });
+
+      const upload = async (apiKey: string): Promise<globalThis.Response> => {
+        const form = new FormData();
+        form.append('purpose', 'batch');
+        form.append('file', new Blob([requestLine('a')]), 'requests.jsonl');
+        return fetch(`${baseUrl}/v1/files`, {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${apiKey}` },
+          body: form,
+        });
+      };
+
+      it('should reject requests without an API key', async () => {
+        const input = fileStore.create('input.jsonl', 'batch', requestLine('a'));
+
+        expect((await fetch(`${baseUrl}/v1/files`)).status).toBe(401);
+        expect((await fetch(`${baseUrl}/v1/files/${input.id}/content`)).status).toBe(401);
+        expect((await fetch(`${baseUrl}/v1/files/${input.id}`, { method: 'DELETE' })).status).toBe(
+          401
+        );
+        expect(
+          (await fetch(`${baseUrl}/v1/batches/batch_0/cancel`, { method: 'POST' })).status
+        ).toBe(401);
+        expect(fileStore.get(input.id)).toBeDefined();
+      });
+
+      it('should scope files and batches to the key that created them', async () => {
+        tryRequestWithFailover.mockResolvedValue({ object: 'chat.completion', choices: [] });
+        const { id: fileId } = (await (await upload('key-a')).json()) as { id: string };
+        const asKey = (apiKey: string) => ({ Authorization: `Bearer ${apiKey}` });
+
+        const otherList = await fetch(`${baseUrl}/v1/files`, { headers: asKey('key-b') });
+        expect((await otherList.json()).data).toEqual([]);
+        const otherContent = await fetch(`${baseUrl}/v1/files/${fileId}/content`, {
+          headers: asKey('key-b'),
+        });
+        expect(otherContent.status).toBe(404);
+        const otherDelete = await fetch(`${baseUrl}/v1/files/${fileId}`, {
+          method: 'DELETE',
+          headers: asKey('key-b'),
+        });
+        expect(otherDelete.status).toBe(404);
+        const otherBatch = await fetch(`${baseUrl}/v1/batches`, {
+          method: 'POST',
+          headers: { ...asKey('key-b'), 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            input_file_id: fileId,
+            endpoint: '/v1/chat/completions',
+            completion_window: '24h',
+          }),
+        });
+        expect(otherBatch.status).toBe(400);
+
+        const ownContent = await fetch(`${baseUrl}/v1/files/${fileId}/content`, {
+          headers: asKey('key-a'),
+        });
+        expect(await ownContent.text()).toBe(requestLine('a'));
+        const adminList = await fetch(`${baseUrl}/v1/files`, { headers: asKey('admin') });
+        expect((await adminList.json()).data).toHaveLength(1);
+
+        const batchRes = await fetch(`${baseUrl}/v1/batches`, {
+          method: 'POST',
+          headers: { ...asKey('key-a'), 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            input_file_id: fileId,
+            endpoint: '/v1/chat/completions',
+            completion_window: '24h',
+          }),
+        });
+        const { id: batchId } = (await batchRes.json()) as { id: string };
+        const otherCancel = await fetch(`${baseUrl}/v1/batches/${batchId}/cancel`, {
+          method: 'POST',
+          headers: asKey('key-b'),
+        });
+        expect(otherCancel.status).toBe(404);
+      });
+    });
+
+    it('should reject a batch for an unknown file', () => {
+      const res = createMockRes();
+      handleCreateBatch(
+        {
+          body: {
+            input_file_id: 'file-000000000000000000000000',
+            endpoint: '/v1/chat/completions',
+            completion_window: '24h',
+          },
+        } as Request,
+        res
+      );
+
+      expect(res.status).toHaveBeenCalledWith(400);
+    });
+  });
+});
@@ -137,6 +137,30 @@ describe('ConfigManager', () => {
 
       expect(envManager.getConfig().port).toBe(DEFAULT_CONFIG.port);
     });
+
+    it('should override queue priority aging and shedding from environment', () => {
+      process.env.ORCHESTRATOR_QUEUE_PRIORITY_BOOST_INTERVAL = '2000';
+      process.env.ORCHESTRATOR_QUEUE_PRIORITY_BOOST_AMOUNT = '10';
+      process.env.ORCHESTRATOR_QUEUE_MAX_PRIORITY = '50';
+      process.env.ORCHESTRATOR_QUEUE_LOW_PRIORITY_SHED_THRESHOLD = '0.6';
+      const envManager = new ConfigManager();
+
+      expect(envManager.getConfig().queue).toMatchObject({
+        priorityBoostInterval: 2000,
+        priorityBoostAmount: 10,
+        maxPriority: 50,
+        lowPriorityShedThreshold: 0.6,
+      });
+    });
+
+    it('should ignore a low-priority shed threshold outside 0-1', () => {
+      process.env.ORCHESTRATOR_QUEUE_LOW_PRIORITY_SHED_THRESHOLD = '1.5';
+      const envManager = new ConfigManager();
+
+      expect(envManager.getConfig().queue.lowPriorityShedThreshold).toBe(
+        DEFAULT_CONFIG.queue.lowPriorityShedThreshold
+      );
+    });
   });
 
   describe('File Operations', () => {
@@ -0,0 +1,264 @@
+/**
+ * embedding-cache.test.ts
+ * Tests for the content-addressed embedding cache: memory and disk tiers, partial serving of
+ * batched requests, statistics and purging
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { DEFAULT_CONFIG, type EmbeddingCacheConfig } from '../../src/config/config.js';
+import type { MetricsAggregator } from '../../src/metrics/metrics-aggregator.js';
+import { PrometheusExporter } from '../../src/metrics/prometheus-exporter.js';
+import type { AIServer } from '../../src/orchestrator.types.js';
+import {
+  EmbeddingCache,
+  embedWithCache,
+  ollamaEmbedBatch,
+  openAIEmbeddingBatch,
+  type EmbeddingCacheScope,
+} from '../../src/utils/embedding-cache.js';
+import { ModelCapabilities, parseDigest } from '../../src/utils/model-capabilities.js';
+
+const cacheConfig = (overrides: Partial<EmbeddingCacheConfig> = {}): EmbeddingCacheConfig => ({
+  ...DEFAULT_CONFIG.embeddingCache,
+  enabled: true,
+  ...overrides,
+});
+
+const scope: EmbeddingCacheScope = { namespace: 'embed', model: 'nomic-embed-text', digest: 'abc' };
+
+/** Fake /api/embed: one single-value vector per input, one token per input */
+const fakeEmbed = () =>
+  vi.fn(async (missing: unknown[]) => ({
+    model: 'nomic-embed-text',
+    embeddings: missing.map(input => [String(input).length]),
+    prompt_eval_count: missing.length,
+  }));
+
+describe('Embedding Cache Tests', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'embedding-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('EmbeddingCache', () => {
+    it('should keep at most maxMemoryEntries, evicting the least recently used', async () => {
+      const cache = new EmbeddingCache(
+        dir,
+        cacheConfig({ persistent: false, maxMemoryEntries: 2 })
+      );
+      const entry = (embedding: number[]) => ({ embedding, tokens: 1, computeMs: 5 });
+
+      await cache.store(scope, 'a', entry([1]));
+      await cache.store(scope, 'b', entry([2]));
+      await cache.lookup(scope, ['a']);
+      await cache.store(scope, 'c', entry([3]));
+
+      const found = await cache.lookup(scope, ['a', 'b', 'c']);
+      expect(found.map(hit => hit?.embedding)).toEqual([[1], undefined, [3]]);
+      expect(cache.getStats().memoryEntries).toBe(2);
+    });
+
+    it('should serve entries from disk in a new instance', async () => {
+      await new EmbeddingCache(dir, cacheConfig()).store(scope, 'hello', {
+        embedding: [0.5],
+        tokens: 2,
+        computeMs: 10,
+      });
+
+      const restarted = new EmbeddingCache(dir, cacheConfig());
+      const [hit] = await restarted.lookup(scope, ['hello']);
+
+      expect(hit).toEqual({ embedding: [0.5], tokens: 2, computeMs: 10 });
+    });
+
+    it('should keep at most maxDiskEntries on disk, removing the oldest', async () => {
+      const cache = new EmbeddingCache(dir, cacheConfig({ maxDiskEntries: 2 }));
+      for (const [index, input] of ['a', 'b', 'c'].entries()) {
+        await cache.store(scope, input, { embedding: [index], tokens: 1, computeMs: 1 });
+      }
+
+      const restarted = new EmbeddingCache(dir, cacheConfig({ maxDiskEntries: 2 }));
+      const found = await restarted.lookup(scope, ['a', 'b', 'c']);
+
+      expect(found.map(hit => hit?.embedding)).toEqual([undefined, [1], [2]]);
+      const files = fs.readdirSync(dir, { recursive: true }) as string[];
+      expect(files.filter(file => file.endsWith('.json'))).toHaveLength(2);
+    });
+
+    it('should key entries by digest, dimensions and API', async () => {
+      const cache = new EmbeddingCache(dir, cacheConfig());
+      await cache.store(scope, 'hello', { embedding: [1], tokens: 1, computeMs: 1 });
+
+      const lookups = await Promise.all([
+        cache.lookup({ ...scope, digest: 'def' }, ['hello']),
+        cache.lookup({ ...scope, dimensions: 256 }, ['hello']),
+        cache.lookup({ ...scope, namespace: 'embeddings' }, ['hello']),
+        cache.lookup(scope, ['hello']),
+      ]);
+
+      expect(lookups.map(([hit]) => hit?.embedding)).toEqual([
+        undefined,
+        undefined,
+        undefined,
+        [1],
+      ]);
+    });
+
+    it('should purge a model from memory and disk', async () => {
+      const cache = new EmbeddingCache(dir, cacheConfig());
+      await cache.store(scope, 'a', { embedding: [1], tokens: 1, computeMs: 1 });
+      await cache.store(scope, 'b', { embedding: [2], tokens: 1, computeMs: 1 });
+      const other = { ...scope, model: 'mxbai-embed-large' };
+      await cache.store(other, 'a', { embedding: [3], tokens: 1, computeMs: 1 });
+
+      expect(await cache.purgeModel('nomic-embed-text')).toEqual({
+        memoryEntries: 2,
+        diskEntries: 2,
+      });
+      expect((await cache.lookup(scope, ['a']))[0]).toBeUndefined();
+      expect((await cache.lookup(other, ['a']))[0]?.embedding).toEqual([3]);
+      const [fromDisk] = await new EmbeddingCache(dir, cacheConfig()).lookup(scope, ['a']);
+      expect(fromDisk).toBeUndefined();
+    });
+  });
+
+  describe('embedWithCache', () => {
+    it('should forward only the misses and reassemble results in input order', async () => {
+      const cache = new EmbeddingCache(dir, cacheConfig({ persistent: false }));
+      const embed = fakeEmbed();
+
+      await embedWithCache(cache, scope, ['aa', 'bbb'], embed, ollamaEmbedBatch);
+      const result = await embedWithCache(
+        cache,
+        scope,
+        ['x', 'aa', 'yyyy', 'bbb'],
+        embed,
+        ollamaEmbedBatch
+      );
+
+      expect(embed).toHaveBeenLastCalledWith(['x', 'yyyy']);
+      expect(result.embeddings).toEqual([[1], [2], [4], [3]]);
+      expect(result.tokens).toBe(4);
+    });
+
+    it('should not call the server when every input is cached', async () => {
+      const cache = new EmbeddingCache(dir, cacheConfig({ persistent: false }));
+      const embed = fakeEmbed();
+
+      await embedWithCache(cache, scope, ['aa'], embed, ollamaEmbedBatch);
+      const result = await embedWithCache(cache, scope, ['aa'], embed, ollamaEmbedBatch);
+
+      expect(embed).toHaveBeenCalledTimes(1);
+      expect(result).toEqual({ embeddings: [[2]], tokens: 1 });
+    });
+
+    it('should reject responses with the wrong number of embeddings', async () => {
+      const cache = new EmbeddingCache(dir, cacheConfig({ persistent: false }));
+
+      await expect(
+        embedWithCache(
+          cache,
+          scope,
+          ['a', 'b'],
+          async () => ({ embeddings: [[1]] }),
+          ollamaEmbedBatch
+        )
+      ).rejects.toThrow('Expected 2 embeddings from the server, got 1');
+    });
+
+    it('should count hits, misses and saved tokens per model', async () => {
+      const cache = new EmbeddingCache(dir, cacheConfig({ persistent: false }));
+      const embed = fakeEmbed();
+
+      await embedWithCache(cache, scope, ['a', 'b'], embed, ollamaEmbedBatch);
+      await embedWithCache(cache, scope, ['a', 'b', 'c'], embed, ollamaEmbedBatch);
+
+      const stats = cache.getStats();
+      expect(stats).toMatchObject({ hits: 2, misses: 3, savedTokens: 2, hitRate: 0.4 });
+      expect(stats.byModel['nomic-embed-text']).toMatchObject({ hits: 2, misses: 3 });
+
+      const exporter = new PrometheusExporter({} as MetricsAggregator);
+      expect(exporter.exportEmbeddingCache(stats)).toContain(
+        'orchestrator_embedding_cache_hits_total{model="nomic-embed-text"} 2'
+      );
+    });
+  });
+
+  describe('response parsing', () => {
+    it('should read OpenAI embeddings by index and their prompt tokens', () => {
+      expect(
+        openAIEmbeddingBatch({
+          data: [
+            { index: 1, embedding: [2] },
+            { index: 0, embedding: [1] },
+          ],
+          usage: { prompt_tokens: 7, total_tokens: 7 },
+        })
+      ).toEqual({ embeddings: [[1], [2]], tokens: 7 });
+    });
+
+    it('should take the digest from /api/show, or fingerprint the model metadata', () => {
+      expect(parseDigest({ digest: 'sha256:1234' })).toBe('sha256:1234');
+
+      const details = { family: 'nomic-bert', parameter_size: '137M' };
+      const fingerprint = parseDigest({ details, model_info: { 'general.file_type': 1 } });
+      expect(fingerprint).toHaveLength(32);
+      // The same weights pulled at different times on different servers
+      expect(
+        parseDigest({
+          details,
+          model_info: { 'general.file_type': 1 },
+          modified_at: '2026-02-01',
+        } as Parameters<typeof parseDigest>[0])
+      ).toBe(fingerprint);
+      expect(parseDigest({ details, model_info: { 'general.file_type': 2 } })).not.toBe(
+        fingerprint
+      );
+    });
+
+    it('should take digests from /api/tags, the same on every server', async () => {
+      const fetchMock = vi.fn(async (url: string) =>
+        url.endsWith('/api/tags')
+          ? new Response(
+              JSON.stringify({
+                models: [{ name: 'nomic-embed-text:latest', digest: 'sha256:0a109f42' }],
+              })
+            )
+          : new Response(JSON.stringify({ details: {}, model_info: {} }))
+      );
+      vi.stubGlobal('fetch', fetchMock);
+      const capabilities = new ModelCapabilities();
+      const server = (id: string): AIServer => ({
+        id,
+        url: `http://${id}:11434`,
+        type: 'ollama',
+        healthy: true,
+        lastResponseTime: 100,
+        models: ['nomic-embed-text:latest'],
+      });
+
+      try {
+        expect(await capabilities.getDigest(server('server-1'), 'nomic-embed-text')).toBe(
+          'sha256:0a109f42'
+        );
+        expect(await capabilities.findDigest([server('server-2')], 'nomic-embed-text')).toBe(
+          'sha256:0a109f42'
+        );
+        await capabilities.getDigest(server('server-1'), 'nomic-embed-text:latest');
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+  });
+});
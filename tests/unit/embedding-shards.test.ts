@@ -0,0 +1,187 @@
+/**
+ * embedding-shards.test.ts
+ * Tests for splitting large embedding requests into sub-batches and merging the results
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+import { DEFAULT_CONFIG, type EmbeddingShardingConfig } from '../../src/config/config.js';
+import {
+  embedSharded,
+  mergeOllamaEmbeddings,
+  mergeOpenAIEmbeddings,
+  runShards,
+  shardInputs,
+} from '../../src/utils/embedding-shards.js';
+
+const shardingConfig = (
+  overrides: Partial<EmbeddingShardingConfig> = {}
+): EmbeddingShardingConfig => ({
+  ...DEFAULT_CONFIG.embeddingSharding,
+  ...overrides,
+});
+
+const inputs = (count: number) => Array.from({ length: count }, (_, i) => `text ${i}`);
+
+describe('Embedding Shards Tests', () => {
+  describe('shardInputs', () => {
+    it('should split inputs into sub-batches of shardSize', () => {
+      const shards = shardInputs(inputs(5), shardingConfig({ shardSize: 2 }));
+
+      expect(shards).toEqual([['text 0', 'text 1'], ['text 2', 'text 3'], ['text 4']]);
+    });
+
+    it('should leave small, single and tokenized inputs in one piece', () => {
+      const config = shardingConfig({ shardSize: 2 });
+
+      expect(shardInputs(inputs(2), config)).toBeUndefined();
+      expect(shardInputs('one text', config)).toBeUndefined();
+      expect(shardInputs([1, 2, 3, 4], config)).toBeUndefined();
+      expect(
+        shardInputs(inputs(5), shardingConfig({ shardSize: 2, enabled: false }))
+      ).toBeUndefined();
+    });
+  });
+
+  describe('runShards', () => {
+    it('should return results in shard order with at most maxConcurrentShards in flight', async () => {
+      let inFlight = 0;
+      let peak = 0;
+      const run = vi.fn(async (shard: string[], index: number) => {
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        await new Promise(resolve => setTimeout(resolve, (5 - index) * 2));
+        inFlight--;
+        return shard.join(',');
+      });
+
+      const results = await runShards(
+        [['a'], ['b'], ['c'], ['d'], ['e']],
+        run,
+        shardingConfig({ maxConcurrentShards: 2 })
+      );
+
+      expect(results).toEqual(['a', 'b', 'c', 'd', 'e']);
+      expect(peak).toBe(2);
+    });
+
+    it('should retry only the shard that failed', async () => {
+      const run = vi.fn(async (shard: string[]) => shard[0]);
+      run.mockRejectedValueOnce(new Error('server down'));
+
+      const results = await runShards([['a'], ['b']], run, shardingConfig({ shardRetries: 1 }));
+
+      expect(results).toEqual(['a', 'b']);
+      expect(run.mock.calls.map(([shard]) => shard[0]).sort()).toEqual(['a', 'a', 'b']);
+    });
+
+    it('should fail once a shard runs out of retries and start no more shards', async () => {
+      const run = vi.fn(async (shard: string[]) => {
+        if (shard[0] === 'a') {
+          throw new Error('model not found');
+        }
+        return shard[0];
+      });
+
+      await expect(
+        runShards(
+          [['a'], ['b'], ['c']],
+          run,
+          shardingConfig({ maxConcurrentShards: 1, shardRetries: 2 })
+        )
+      ).rejects.toThrow('model not found');
+      expect(run).toHaveBeenCalledTimes(3);
+      expect(run.mock.calls.every(([shard]) => shard[0] === 'a')).toBe(true);
+    });
+  });
+
+  describe('embedSharded', () => {
+    const routingContext = { hedge: true, requestKey: 'key', priority: 'high' as const };
+
+    it('should send a small request in one piece with the original routing context', async () => {
+      const embed = vi.fn(async (input: string | string[]) => ({ embeddings: [input] }));
+      const merge = vi.fn(mergeOllamaEmbeddings);
+
+      const result = await embedSharded(
+        'nomic',
+        inputs(2),
+        routingContext,
+        embed,
+        merge,
+        shardingConfig({ shardSize: 2 })
+      );
+
+      expect(result).toEqual({ embeddings: [inputs(2)] });
+      expect(embed).toHaveBeenCalledWith(inputs(2), routingContext);
+      expect(merge).not.toHaveBeenCalled();
+    });
+
+    it('should spread shards without hedging or the request key and merge them', async () => {
+      const embed = vi.fn(async (input: string | string[]) => ({
+        embeddings: ([] as string[]).concat(input).map(text => [text.length]),
+      }));
+
+      const result = await embedSharded(
+        'nomic',
+        inputs(3),
+        routingContext,
+        embed,
+        mergeOllamaEmbeddings,
+        shardingConfig({ shardSize: 2 })
+      );
+
+      expect(result.embeddings).toEqual([[6], [6], [6]]);
+      expect(embed).toHaveBeenCalledTimes(2);
+      for (const [, context] of embed.mock.calls) {
+        expect(context).toEqual({ hedge: false, requestKey: undefined, priority: 'high' });
+      }
+    });
+  });
+
+  describe('merging', () => {
+    it('should concatenate Ollama embeddings and sum prompt_eval_count', () => {
+      const merged = mergeOllamaEmbeddings([
+        { model: 'nomic', embeddings: [[0.1], [0.2]], prompt_eval_count: 4, total_duration: 30 },
+        { model: 'nomic', embeddings: [[0.3]], prompt_eval_count: 2, total_duration: 50 },
+      ]);
+
+      expect(merged).toEqual({
+        model: 'nomic',
+        embeddings: [[0.1], [0.2], [0.3]],
+        prompt_eval_count: 6,
+        total_duration: 50,
+      });
+    });
+
+    it('should re-index OpenAI data against the original input and sum usage', () => {
+      const merged = mergeOpenAIEmbeddings([
+        {
+          object: 'list',
+          model: 'nomic',
+          data: [
+            { object: 'embedding', index: 1, embedding: [0.2] },
+            { object: 'embedding', index: 0, embedding: [0.1] },
+          ],
+          usage: { prompt_tokens: 4, total_tokens: 4 },
+        },
+        {
+          object: 'list',
+          model: 'nomic',
+          data: [{ object: 'embedding', index: 0, embedding: [0.3] }],
+          usage: { prompt_tokens: 2, total_tokens: 2 },
+        },
+      ]);
+
+      expect(merged).toEqual({
+        object: 'list',
+        model: 'nomic',
+        data: [
+          { object: 'embedding', index: 0, embedding: [0.1] },
+          { object: 'embedding', index: 1, embedding: [0.2] },
+          { object: 'embedding', index: 2, embedding: [0.3] },
+        ],
+        usage: { prompt_tokens: 6, total_tokens: 6 },
+      });
+    });
+  });
+});
@@ -15,6 +15,23 @@ describe('fetchWithTimeout', () => {
 
     await expect(promise).resolves.toBe(mockResponse);
   });
+
+  it('should abort when the caller signal aborts', async () => {
+    global.fetch = vi.fn(
+      (_url: string, init: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () =>
+            reject(Object.assign(new Error('aborted'), { name: 'AbortError' }))
+          );
+        })
+    ) as unknown as typeof fetch;
+    const caller = new AbortController();
+
+    const promise = fetchWithTimeout('http://localhost:3000/test', { signal: caller.signal });
+    caller.abort();
+
+    await expect(promise).rejects.toThrow('Request aborted');
+  });
 });
 
 describe('createActivityTimeoutController', () => {
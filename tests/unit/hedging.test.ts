@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { DEFAULT_CONFIG } from '../../src/config/config.js';
+import { AIOrchestrator, type RoutingContext } from '../../src/orchestrator.js';
+import type { AIServer } from '../../src/orchestrator.types.js';
+import { HedgingManager } from '../../src/utils/hedging.js';
+import { createTestOrchestrator } from '../utils/test-helpers.js';
+
+const hedgingConfig = {
+  ...DEFAULT_CONFIG.hedging,
+  enabled: true,
+  maxExtraLoadRatio: 1,
+  minDelayMs: 10,
+  maxDelayMs: 20,
+  minSamples: 1,
+};
+
+describe('HedgingManager', () => {
+  it('should clamp the hedge delay and require enough samples', () => {
+    const manager = new HedgingManager({ ...hedgingConfig, minSamples: 5 });
+
+    expect(manager.getHedgeDelay(1, 5)).toBe(10);
+    expect(manager.getHedgeDelay(15, 5)).toBe(15);
+    expect(manager.getHedgeDelay(500, 5)).toBe(20);
+    expect(manager.getHedgeDelay(15, 4)).toBeUndefined();
+    expect(manager.getHedgeDelay(undefined, 10)).toBeUndefined();
+  });
+
+  it('should cap hedges at the extra load ratio', () => {
+    const manager = new HedgingManager({ ...hedgingConfig, maxExtraLoadRatio: 0.25 });
+
+    for (let i = 0; i < 4; i++) {
+      manager.recordEligible();
+    }
+    expect(manager.tryAcquire()).toBe(true);
+    expect(manager.tryAcquire()).toBe(false);
+
+    manager.recordOutcome('hedge_won');
+    expect(manager.getStats()).toMatchObject({
+      eligibleRequests: 4,
+      hedgesSent: 1,
+      budgetDenied: 1,
+      hedgeWins: 1,
+      hedgeWinRate: 1,
+      extraLoadRatio: 0.25,
+    });
+  });
+});
+
+describe('AIOrchestrator hedging', () => {
+  let orchestrator: AIOrchestrator;
+
+  beforeEach(() => {
+    orchestrator = createTestOrchestrator(
+      ['server-1', 'server-2'].map(id => ({ id, models: ['nomic-embed-text:latest'] })),
+      { hedging: hedgingConfig }
+    );
+    // Every server answers in ~10ms at p95
+    vi.spyOn((orchestrator as any).metricsAggregator, 'getMetricsWithFallback').mockReturnValue({
+      percentiles: { p50: 5, p95: 10, p99: 12 },
+      recentLatencies: [5, 10],
+    });
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    await orchestrator.shutdown();
+  });
+
+  const route = (
+    fn: (server: AIServer, context?: { signal?: AbortSignal }) => Promise<string>,
+    context: RoutingContext
+  ) =>
+    orchestrator.tryRequestWithFailover(
+      'nomic-embed-text:latest',
+      fn,
+      false,
+      'embeddings',
+      undefined,
+      context
+    );
+
+  it('should use the hedge when the primary is slow and cancel the primary', async () => {
+    const signals: AbortSignal[] = [];
+    const context: RoutingContext = { hedge: true };
+
+    const result = await route(async (server, attempt) => {
+      signals.push(attempt!.signal!);
+      if (signals.length === 1) {
+        return new Promise<string>((_resolve, reject) => {
+          attempt!.signal!.addEventListener('abort', () => reject(new Error('Request aborted')));
+        });
+      }
+      return server.id;
+    }, context);
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(context.hedged).toBe('hedge_won');
+    expect(context.serversTried).toHaveLength(2);
+    expect(context.serversTried![1]).toBe(result);
+    expect(signals[0].aborted).toBe(true);
+    expect(orchestrator.getTotalInFlight('server-1')).toBe(0);
+    expect(orchestrator.getTotalInFlight('server-2')).toBe(0);
+    expect(orchestrator.getHedgingStats()).toMatchObject({ hedgesSent: 1, hedgeWins: 1 });
+  });
+
+  it('should not hedge when the primary answers within its p95', async () => {
+    const context: RoutingContext = { hedge: true };
+    const fn = vi.fn(async (server: AIServer) => server.id);
+
+    await route(fn, context);
+
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(context.hedged).toBeUndefined();
+    expect(orchestrator.getHedgingStats()).toMatchObject({ eligibleRequests: 1, hedgesSent: 0 });
+  });
+
+  it('should not hedge requests that are not marked hedgeable', async () => {
+    const fn = vi.fn(
+      async (server: AIServer) =>
+        new Promise<string>(resolve => setTimeout(() => resolve(server.id), 40))
+    );
+
+    await route(fn, {});
+
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(orchestrator.getHedgingStats().eligibleRequests).toBe(0);
+  });
+});
@@ -117,6 +117,24 @@ describe('InFlightManager', () => {
       expect(detailed['server-1'].byModel['llama3:8b'].regular).toBe(2);
       expect(detailed['server-1'].byModel['codellama:7b'].bypass).toBe(1);
     });
+
+    it("should count coalesced followers on the leader's current server", async () => {
+      const group = { followers: 2 };
+
+      await manager.runCoalescedLeader(group, async () => {
+        await Promise.resolve();
+        manager.incrementInFlight('server-2', 'llama3:8b');
+      });
+
+      expect(manager.getInFlightDetailed()['server-2'].byModel['llama3:8b']).toEqual({
+        regular: 1,
+        bypass: 0,
+        coalesced: 2,
+      });
+
+      manager.endCoalescedGroup(group);
+      expect(manager.getInFlightDetailed()['server-2'].byModel['llama3:8b'].coalesced).toBe(0);
+    });
   });
 
   describe('clear', () => {
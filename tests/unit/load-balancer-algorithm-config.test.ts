@@ -0,0 +1,174 @@
+/**
+ * load-balancer-algorithm-config.test.ts
+ * Tests for configuring the load balancing algorithm globally and per model
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { ConfigManager, getConfigManager, setConfigManager } from '../../src/config/config.js';
+import { LoadBalancer } from '../../src/load-balancer.js';
+import { AIOrchestrator } from '../../src/orchestrator.js';
+import type { AIServer } from '../../src/orchestrator.types.js';
+import { createTestOrchestrator } from '../utils/test-helpers.js';
+
+describe('Load Balancer Algorithm Config Tests', () => {
+  const createServer = (id: string, latency = 100): AIServer => ({
+    id,
+    url: `http://${id}:11434`,
+    type: 'ollama',
+    healthy: true,
+    lastResponseTime: latency,
+    models: ['llama3:latest', 'nomic-embed-text:latest'],
+    maxConcurrency: 4,
+  });
+
+  const getLoad = (_serverId: string, _model: string): number => 0;
+  const getTotalLoad = (_serverId: string): number => 0;
+
+  describe('LoadBalancer', () => {
+    it('should start with the configured algorithm', () => {
+      expect(new LoadBalancer({ algorithm: 'p2c' }).getAlgorithm()).toBe('p2c');
+      expect(new LoadBalancer({}).getAlgorithm()).toBe('fastest-response');
+    });
+
+    it('should switch algorithm on config update', () => {
+      const lb = new LoadBalancer({});
+      lb.updateConfig({ algorithm: 'least-connections' });
+      expect(lb.getAlgorithm()).toBe('least-connections');
+
+      // Updates that do not mention the algorithm keep it
+      lb.updateConfig({ defaultLatencyMs: 2000 });
+      expect(lb.getAlgorithm()).toBe('least-connections');
+    });
+
+    it('should resolve per-model overrides, treating name and name:latest alike', () => {
+      const lb = new LoadBalancer({
+        algorithm: 'streaming-optimized',
+        modelAlgorithms: { 'nomic-embed-text': 'least-connections', 'llama3:8b': 'p2c' },
+      });
+
+      expect(lb.getAlgorithmForModel('nomic-embed-text')).toBe('least-connections');
+      expect(lb.getAlgorithmForModel('nomic-embed-text:latest')).toBe('least-connections');
+      expect(lb.getAlgorithmForModel('llama3:8b')).toBe('p2c');
+      expect(lb.getAlgorithmForModel('llama3:latest')).toBe('streaming-optimized');
+    });
+
+    it('should replace overrides on update so removed models fall back to the default', () => {
+      const lb = new LoadBalancer({ modelAlgorithms: { 'nomic-embed-text': 'round-robin' } });
+      lb.updateConfig({ modelAlgorithms: {} });
+
+      expect(lb.getAlgorithmForModel('nomic-embed-text')).toBe('fastest-response');
+      expect(lb.getModelAlgorithms()).toEqual({});
+    });
+
+    it('should select with the model override', () => {
+      const lb = new LoadBalancer({
+        algorithm: 'fastest-response',
+        modelAlgorithms: { 'nomic-embed-text:latest': 'round-robin' },
+      });
+      const servers = [createServer('server-1', 50), createServer('server-2', 500)];
+      const pick = (model: string): string | undefined =>
+        lb.select(servers, model, getLoad, getTotalLoad, () => undefined)?.id;
+
+      const embedPicks = new Set([
+        pick('nomic-embed-text:latest'),
+        pick('nomic-embed-text:latest'),
+      ]);
+      const chatPicks = new Set([pick('llama3:latest'), pick('llama3:latest')]);
+
+      expect(embedPicks.size).toBe(2);
+      expect(chatPicks).toEqual(new Set(['server-1']));
+    });
+  });
+
+  describe('ConfigManager validation', () => {
+    it('should reject an unknown default algorithm', () => {
+      const manager = new ConfigManager();
+
+      expect(() =>
+        manager.updateConfig({
+          loadBalancer: { ...manager.getConfig().loadBalancer, algorithm: 'fastest' as never },
+        })
+      ).toThrow(/Unknown load balancer algorithm 'fastest'/);
+    });
+
+    it('should reject an unknown per-model algorithm in a section update', () => {
+      const manager = new ConfigManager();
+
+      expect(() =>
+        manager.updateSection('loadBalancer', {
+          modelAlgorithms: { 'nomic-embed-text': 'fewest-tokens' as never },
+        })
+      ).toThrow(/Unknown load balancer algorithm 'fewest-tokens'/);
+      expect(manager.getConfig().loadBalancer.modelAlgorithms).toEqual({});
+    });
+
+    it('should leave a newer component watcher registered when an older one unsubscribes', () => {
+      const manager = new ConfigManager();
+      const older = vi.fn();
+      const newer = vi.fn();
+
+      const unsubscribeOlder = manager.registerComponentWatcher('loadBalancer', older);
+      manager.registerComponentWatcher('loadBalancer', newer);
+      unsubscribeOlder();
+      manager.updateSection('loadBalancer', { algorithm: 'p2c' });
+
+      expect(older).not.toHaveBeenCalled();
+      expect(newer).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('AIOrchestrator hot reload', () => {
+    let orchestrator: AIOrchestrator;
+
+    beforeEach(() => {
+      setConfigManager(new ConfigManager());
+      orchestrator = createTestOrchestrator(
+        ['server-1', 'server-2'].map(id => ({
+          id,
+          models: ['llama3:latest', 'nomic-embed-text:latest'],
+        }))
+      );
+    });
+
+    afterEach(async () => {
+      vi.unstubAllGlobals();
+      await orchestrator.shutdown();
+      setConfigManager(new ConfigManager());
+    });
+
+    it('should report the active algorithm for every served model', () => {
+      expect(orchestrator.getActiveAlgorithms()).toEqual({
+        default: 'fastest-response',
+        models: {
+          'llama3:latest': 'fastest-response',
+          'nomic-embed-text:latest': 'fastest-response',
+        },
+      });
+    });
+
+    it('should apply algorithm changes from the config manager', () => {
+      getConfigManager().updateSection('loadBalancer', {
+        algorithm: 'streaming-optimized',
+        modelAlgorithms: { 'nomic-embed-text': 'least-connections', 'mxbai-embed': 'p2c' },
+      });
+
+      expect(orchestrator.getActiveAlgorithms()).toEqual({
+        default: 'streaming-optimized',
+        models: {
+          'llama3:latest': 'streaming-optimized',
+          'mxbai-embed': 'p2c',
+          'nomic-embed-text': 'least-connections',
+          'nomic-embed-text:latest': 'least-connections',
+        },
+      });
+    });
+
+    it('should stop applying config changes after shutdown', async () => {
+      await orchestrator.shutdown();
+      getConfigManager().updateSection('loadBalancer', { algorithm: 'random' });
+
+      expect(orchestrator.getActiveAlgorithms().default).toBe('fastest-response');
+    });
+  });
+});
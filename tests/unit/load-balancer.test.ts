@@ -1,6 +1,12 @@
 import { describe, it, expect } from 'vitest';
 
-import { calculateServerScore, selectBestServer, LoadBalancer } from '../../src/load-balancer.js';
+import {
+  calculateServerScore,
+  DEFAULT_LB_CONFIG,
+  getResidencyPenaltyMs,
+  selectBestServer,
+  LoadBalancer,
+} from '../../src/load-balancer.js';
 import type { AIServer, ServerModelMetrics } from '../../src/orchestrator.types.js';
 
 describe('Load Balancer', () => {
@@ -433,4 +439,114 @@ describe('Load Balancer', () => {
       expect(selected?.id).toBe('server-fast');
     });
   });
+
+  describe('VRAM residency', () => {
+    const withLoaded = (id: string, loaded: string[]): AIServer => ({
+      ...mockServer,
+      id,
+      hardware: {
+        loadedModels: loaded.map(name => ({
+          name,
+          sizeVram: 40e9,
+          expiresAt: new Date(Date.now() + 600000).toISOString(),
+          digest: 'sha256:abc',
+        })),
+        lastUpdated: new Date(),
+      },
+    });
+
+    const warm = withLoaded('server-warm', ['llama3:70b']);
+    const cold = withLoaded('server-cold', []);
+    const getTotalLoad = (serverId: string) => (serverId === 'server-warm' ? 1 : 0);
+    const estimateLoadTime = () => 40000;
+
+    it('should only penalize servers known not to have the model loaded', () => {
+      expect(getResidencyPenaltyMs(warm, 'llama3:70b', 40000)).toBe(0);
+      expect(getResidencyPenaltyMs(cold, 'llama3:70b', 40000)).toBe(40000);
+      expect(getResidencyPenaltyMs(mockServer, 'llama3:70b', 40000)).toBe(0);
+      expect(getResidencyPenaltyMs(cold, 'llama3:70b', undefined)).toBe(0);
+    });
+
+    it('should match an untagged model name to its :latest tag', () => {
+      const warmLatest = withLoaded('server-warm', ['llama3:latest']);
+
+      expect(getResidencyPenaltyMs(warmLatest, 'llama3', 40000)).toBe(0);
+      expect(
+        getResidencyPenaltyMs(withLoaded('server-warm', ['llama3']), 'llama3:latest', 40000)
+      ).toBe(0);
+      expect(getResidencyPenaltyMs(warmLatest, 'llama3:70b', 40000)).toBe(40000);
+    });
+
+    it('should scale, cap and disable the penalty from config', () => {
+      const config = (residency: Partial<typeof DEFAULT_LB_CONFIG.residency>) => ({
+        ...DEFAULT_LB_CONFIG,
+        residency: { ...DEFAULT_LB_CONFIG.residency, ...residency },
+      });
+
+      expect(getResidencyPenaltyMs(cold, 'm', 40000, config({ loadTimeMultiplier: 0.5 }))).toBe(
+        20000
+      );
+      expect(getResidencyPenaltyMs(cold, 'm', 40000, config({ maxPenaltyMs: 10000 }))).toBe(10000);
+      expect(getResidencyPenaltyMs(cold, 'm', 40000, config({ enabled: false }))).toBe(0);
+    });
+
+    it('should report the penalty in the score breakdown', () => {
+      const score = calculateServerScore(
+        cold,
+        'llama3:70b',
+        0,
+        0,
+        undefined,
+        DEFAULT_LB_CONFIG,
+        undefined,
+        undefined,
+        40000
+      );
+
+      expect(score.breakdown.residencyPenaltyMs).toBe(40000);
+      expect(score.breakdown.latencyScore).toBe(0);
+    });
+
+    it('should prefer a busy warm replica over an idle cold server (weighted)', () => {
+      const lb = new LoadBalancer();
+      lb.setAlgorithm('weighted');
+
+      const selected = lb.select(
+        [cold, warm],
+        'llama3:70b',
+        getTotalLoad,
+        getTotalLoad,
+        () => undefined,
+        false,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        estimateLoadTime
+      );
+
+      expect(selected?.id).toBe('server-warm');
+    });
+
+    it('should prefer a busy warm replica over an idle cold server (streaming-optimized)', () => {
+      const lb = new LoadBalancer();
+      lb.setAlgorithm('streaming-optimized');
+
+      const selected = lb.select(
+        [cold, warm],
+        'llama3:70b',
+        getTotalLoad,
+        getTotalLoad,
+        () => undefined,
+        true,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        estimateLoadTime
+      );
+
+      expect(selected?.id).toBe('server-warm');
+    });
+  });
 });
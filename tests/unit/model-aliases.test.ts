@@ -0,0 +1,189 @@
+import type { Request, Response } from 'express';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { ConfigManager, getConfigManager, setConfigManager } from '../../src/config/config.js';
+import { deleteModelAlias, setModelAlias } from '../../src/controllers/modelController.js';
+import { loadAliasesFromDisk, saveAliasesToDisk } from '../../src/orchestrator-persistence.js';
+import { AIOrchestrator } from '../../src/orchestrator.js';
+import {
+  mergePersistedAliases,
+  normalizeAliasTargets,
+  resolveAliasTarget,
+  validateModelAliases,
+} from '../../src/utils/model-aliases.js';
+import { createTestOrchestrator } from '../utils/test-helpers.js';
+
+vi.mock('../../src/orchestrator-instance.js', () => ({
+  getOrchestratorInstance: () => ({ resolveModelAlias: (alias: string) => alias }),
+}));
+vi.mock('../../src/orchestrator-persistence.js', async importOriginal => ({
+  ...(await importOriginal<typeof import('../../src/orchestrator-persistence.js')>()),
+  loadAliasesFromDisk: vi.fn(),
+  saveAliasesToDisk: vi.fn(),
+}));
+
+describe('model alias helpers', () => {
+  const aliases = { 'chat-default': ['llama3.1:70b', 'llama3.1:8b'] };
+
+  it('should resolve to the first available target', () => {
+    expect(resolveAliasTarget('chat-default', aliases, () => true)).toBe('llama3.1:70b');
+    expect(resolveAliasTarget('chat-default', aliases, t => t === 'llama3.1:8b')).toBe(
+      'llama3.1:8b'
+    );
+  });
+
+  it('should fall back to the first target when none is available', () => {
+    expect(resolveAliasTarget('chat-default', aliases, () => false)).toBe('llama3.1:70b');
+  });
+
+  it('should pass through names that are not aliases', () => {
+    expect(resolveAliasTarget('mistral:7b', aliases, () => true)).toBe('mistral:7b');
+    expect(resolveAliasTarget('constructor', aliases, () => true)).toBe('constructor');
+  });
+
+  it('should validate alias registries', () => {
+    expect(validateModelAliases(aliases)).toBeUndefined();
+    expect(validateModelAliases({ embed: [] })).toMatch(/at least one target/);
+    expect(validateModelAliases({ a: ['b'], b: ['llama3:latest'] })).toMatch(/another alias/);
+  });
+
+  it('should normalize targets from the admin API', () => {
+    expect(normalizeAliasTargets(' nomic-embed-text:v1.5 ')).toEqual(['nomic-embed-text:v1.5']);
+    expect(normalizeAliasTargets(['a', 'b'])).toEqual(['a', 'b']);
+    expect(normalizeAliasTargets([])).toBeUndefined();
+    expect(normalizeAliasTargets(['a', ''])).toBeUndefined();
+    expect(normalizeAliasTargets(42)).toBeUndefined();
+  });
+});
+
+describe('ConfigManager model aliases', () => {
+  it('should reject aliases that target other aliases', () => {
+    const manager = new ConfigManager();
+
+    expect(() =>
+      manager.updateConfig({ modelAliases: { a: ['b'], b: ['llama3:latest'] } })
+    ).toThrow(/another alias/);
+  });
+});
+
+describe('model alias admin API', () => {
+  const mockRes = () => {
+    const res = { status: vi.fn(), json: vi.fn() };
+    res.status.mockReturnValue(res);
+    return res as unknown as Response;
+  };
+
+  beforeEach(() => {
+    vi.mocked(saveAliasesToDisk).mockClear();
+    vi.mocked(loadAliasesFromDisk).mockReturnValue({});
+    setConfigManager(new ConfigManager({ modelAliases: { embed: ['nomic-embed-text'] } }));
+  });
+
+  afterEach(() => {
+    setConfigManager(new ConfigManager());
+  });
+
+  it('should save the alias registry on every change', () => {
+    setModelAlias(
+      { params: { alias: 'chat-default' }, body: { targets: 'llama3' } } as unknown as Request,
+      mockRes()
+    );
+    expect(saveAliasesToDisk).toHaveBeenLastCalledWith({
+      embed: ['nomic-embed-text'],
+      'chat-default': ['llama3'],
+    });
+
+    deleteModelAlias({ params: { alias: 'embed' } } as unknown as Request, mockRes());
+    expect(saveAliasesToDisk).toHaveBeenLastCalledWith({ embed: [], 'chat-default': ['llama3'] });
+  });
+
+  it('should keep a deleted config-file alias deleted after a reload', () => {
+    deleteModelAlias({ params: { alias: 'embed' } } as unknown as Request, mockRes());
+    const persisted = vi.mocked(saveAliasesToDisk).mock.lastCall![0];
+
+    // A later change keeps the tombstone
+    vi.mocked(loadAliasesFromDisk).mockReturnValue(persisted);
+    setModelAlias(
+      { params: { alias: 'chat-default' }, body: { targets: 'llama3' } } as unknown as Request,
+      mockRes()
+    );
+    const reloaded = mergePersistedAliases(
+      { embed: ['nomic-embed-text'] },
+      vi.mocked(saveAliasesToDisk).mock.lastCall![0]
+    );
+
+    expect(reloaded).toEqual({ 'chat-default': ['llama3'] });
+  });
+
+  it('should not save aliases when persistence is off', () => {
+    getConfigManager().updateConfig({ enablePersistence: false });
+
+    deleteModelAlias({ params: { alias: 'embed' } } as unknown as Request, mockRes());
+
+    expect(saveAliasesToDisk).not.toHaveBeenCalled();
+  });
+});
+
+describe('AIOrchestrator model aliases', () => {
+  let orchestrator: AIOrchestrator;
+
+  beforeEach(() => {
+    setConfigManager(
+      new ConfigManager({
+        modelAliases: {
+          'chat-default': ['llama3.1:70b', 'llama3'],
+          embed: ['nomic-embed-text:v1.5'],
+        },
+      })
+    );
+    orchestrator = createTestOrchestrator([
+      {
+        id: 'server-1',
+        models: ['llama3:latest', 'nomic-embed-text:v1.5'],
+        supportsV1: true,
+        v1Models: ['llama3:latest'],
+      },
+    ]);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    await orchestrator.shutdown();
+    setConfigManager(new ConfigManager());
+  });
+
+  it('should skip targets no healthy server has', () => {
+    expect(orchestrator.resolveModelAlias('chat-default')).toBe('llama3');
+    expect(orchestrator.resolveModelAlias('embed', 'ollama')).toBe('nomic-embed-text:v1.5');
+    expect(orchestrator.resolveModelAlias('llama3:latest')).toBe('llama3:latest');
+  });
+
+  it('should prefer earlier targets once a server has them', () => {
+    orchestrator.getServer('server-1')!.models.push('llama3.1:70b');
+
+    expect(orchestrator.resolveModelAlias('chat-default')).toBe('llama3.1:70b');
+  });
+
+  it('should check OpenAI model lists for OpenAI requests', () => {
+    expect(orchestrator.resolveModelAlias('embed', 'openai')).toBe('nomic-embed-text:v1.5');
+    orchestrator.getServer('server-1')!.v1Models!.push('llama3.1:70b');
+    expect(orchestrator.resolveModelAlias('chat-default', 'openai')).toBe('llama3.1:70b');
+  });
+
+  it('should resolve Ollama requests to targets only OpenAI-only servers serve', () => {
+    orchestrator.addServer({ id: 'server-2', url: 'http://server-2:8000' });
+    const server = orchestrator.getServer('server-2')!;
+    server.healthy = true;
+    server.supportsOllama = false;
+    server.supportsV1 = true;
+    server.v1Models = ['llama3.1:70b'];
+
+    expect(orchestrator.resolveModelAlias('chat-default', 'ollama')).toBe('llama3.1:70b');
+  });
+
+  it('should list aliases alongside real models in /v1/models', () => {
+    const ids = orchestrator.getAggregatedOpenAIModels().data.map(m => m.id);
+
+    expect(ids).toEqual(['llama3:latest', 'chat-default']);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { ConfigManager, DEFAULT_CONFIG, setConfigManager } from '../../src/config/config.js';
+import { AIOrchestrator, type RoutingContext } from '../../src/orchestrator.js';
+import { getRequestHistory } from '../../src/request-history.js';
+import { getDebugInfo } from '../../src/utils/debug-headers.js';
+import {
+  ALLOW_FALLBACK_HEADER,
+  getFallbackChain,
+  resolveAllowFallback,
+  resolveAttemptModel,
+  validateModelFallbacks,
+} from '../../src/utils/model-fallback.js';
+import { createRequest, createTestOrchestrator } from '../utils/test-helpers.js';
+
+describe('fallback chain helpers', () => {
+  const fallbacks = { 'qwen2.5:72b': ['qwen2.5:32b', 'llama3.1:8b'], mistral: ['llama3'] };
+
+  it('should look up chains by exact name or :latest equivalent', () => {
+    expect(getFallbackChain('qwen2.5:72b', fallbacks)).toEqual(['qwen2.5:32b', 'llama3.1:8b']);
+    expect(getFallbackChain('mistral:latest', fallbacks)).toEqual(['llama3']);
+    expect(getFallbackChain('llama3', fallbacks)).toEqual([]);
+  });
+
+  it('should validate chains', () => {
+    expect(validateModelFallbacks(fallbacks)).toBeUndefined();
+    expect(validateModelFallbacks({ a: [] })).toMatch(/at least one model/);
+    expect(validateModelFallbacks({ a: ['a'] })).toMatch(/model itself/);
+  });
+
+  it('should send the substitute an attempt was handed, else the requested model', () => {
+    expect(resolveAttemptModel({ model: 'qwen2.5:32b' }, 'qwen2.5:72b')).toBe('qwen2.5:32b');
+    expect(resolveAttemptModel({}, 'qwen2.5:72b')).toBe('qwen2.5:72b');
+    expect(resolveAttemptModel(undefined, 'qwen2.5:72b')).toBe('qwen2.5:72b');
+  });
+});
+
+describe('resolveAllowFallback', () => {
+  beforeEach(() => {
+    setConfigManager(
+      new ConfigManager({
+        security: { ...DEFAULT_CONFIG.security, fallbackApiKeys: ['batch-key'] },
+      })
+    );
+  });
+
+  afterEach(() => {
+    setConfigManager(new ConfigManager());
+  });
+
+  it('should be off unless the header or API key opts in', () => {
+    expect(resolveAllowFallback(createRequest())).toBe(false);
+    expect(resolveAllowFallback(createRequest({ [ALLOW_FALLBACK_HEADER]: 'true' }))).toBe(true);
+    expect(resolveAllowFallback(createRequest({ 'x-api-key': 'batch-key' }))).toBe(true);
+  });
+
+  it('should let the header opt an opted-in key back out', () => {
+    expect(
+      resolveAllowFallback(
+        createRequest({ 'x-api-key': 'batch-key', [ALLOW_FALLBACK_HEADER]: 'false' })
+      )
+    ).toBe(false);
+  });
+});
+
+describe('AIOrchestrator model fallback', () => {
+  let orchestrator: AIOrchestrator;
+
+  beforeEach(() => {
+    setConfigManager(
+      new ConfigManager({
+        modelFallbacks: { 'qwen2.5:72b': ['qwen2.5:32b', 'llama3.1:8b'] },
+      })
+    );
+    orchestrator = createTestOrchestrator([
+      { id: 'server-1', models: ['qwen2.5:72b'] },
+      { id: 'server-2', models: ['llama3.1:8b'] },
+    ]);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    await orchestrator.shutdown();
+    setConfigManager(new ConfigManager());
+  });
+
+  const route = (context: RoutingContext, endpoint: 'generate' | 'embeddings' = 'generate') =>
+    orchestrator.tryRequestWithFailover(
+      'qwen2.5:72b',
+      async (server, attempt) => {
+        if (attempt?.model === 'qwen2.5:72b') {
+          throw new Error('connection refused');
+        }
+        return `${server.id}/${attempt?.model}`;
+      },
+      false,
+      endpoint,
+      undefined,
+      context
+    );
+
+  it('should answer with the first available model in the chain', async () => {
+    const context: RoutingContext = { allowFallback: true };
+
+    expect(await route(context)).toBe('server-2/llama3.1:8b');
+    expect(context).toMatchObject({ degradedFrom: 'qwen2.5:72b', servedModel: 'llama3.1:8b' });
+    expect(getDebugInfo(context)).toMatchObject({
+      degradedFrom: 'qwen2.5:72b',
+      servedModel: 'llama3.1:8b',
+    });
+
+    const record = getRequestHistory()
+      .getServerHistory('server-2')
+      .find(r => r.model === 'llama3.1:8b');
+    expect(record?.degradedFrom).toBe('qwen2.5:72b');
+  });
+
+  it('should not fall back unless the request opted in', async () => {
+    const context: RoutingContext = {};
+
+    await expect(route(context)).rejects.toThrow(/candidate\(s\) failed/);
+    expect(context.degradedFrom).toBeUndefined();
+  });
+
+  it('should never fall back for embeddings', async () => {
+    const context: RoutingContext = { allowFallback: true };
+
+    await expect(route(context, 'embeddings')).rejects.toThrow();
+    expect(context.degradedFrom).toBeUndefined();
+  });
+
+  it("should report the requested model's error when the whole chain fails", async () => {
+    orchestrator.getServer('server-2')!.healthy = false;
+    const context: RoutingContext = { allowFallback: true };
+
+    await expect(route(context)).rejects.toThrow(/candidate\(s\) failed/);
+    expect(context.degradedFrom).toBeUndefined();
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * model-replication.test.ts
+ * Tests for sending /api/create, /api/push and /api/blobs/:digest to the targeted servers
+ */
+
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+
+import express from 'express';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { getConfigManager } from '../../src/config/config.js';
+import {
+  handleBlobExists,
+  handleBlobUpload,
+  handleCreate,
+  handlePush,
+  MISSING_SERVERS_HEADER,
+} from '../../src/controllers/modelReplicationController.js';
+import { getOrchestratorInstance } from '../../src/orchestrator-instance.js';
+import type { AIServer } from '../../src/orchestrator.types.js';
+
+vi.mock('../../src/orchestrator-instance.js');
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: { info: vi.fn(), error: vi.fn(), debug: vi.fn(), warn: vi.fn() },
+}));
+
+interface ReceivedRequest {
+  method: string;
+  url: string;
+  body: string;
+}
+
+/**
+ * Fake Ollama server recording each request; `lines` is the NDJSON it streams back and
+ * `blobs` the digests it already has
+ */
+interface FakeOllama {
+  server: Server;
+  received: ReceivedRequest[];
+  lines: string[];
+  blobs: Set<string>;
+  url: string;
+}
+
+async function startFakeOllama(): Promise<FakeOllama> {
+  const fake = { received: [], lines: [], blobs: new Set<string>() } as unknown as FakeOllama;
+  fake.server = createServer((req: IncomingMessage, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk as Buffer));
+    req.on('end', () => {
+      fake.received.push({
+        method: req.method ?? '',
+        url: req.url ?? '',
+        body: Buffer.concat(chunks).toString(),
+      });
+      const digest = req.url?.startsWith('/api/blobs/')
+        ? decodeURIComponent(req.url.slice('/api/blobs/'.length))
+        : undefined;
+      if (digest !== undefined && req.method === 'HEAD') {
+        res.statusCode = fake.blobs.has(digest) ? 200 : 404;
+        res.end();
+      } else if (digest !== undefined) {
+        fake.blobs.add(digest);
+        res.statusCode = 201;
+        res.end();
+      } else {
+        res.setHeader('Content-Type', 'application/x-ndjson');
+        res.end(fake.lines.map(line => `${line}\n`).join(''));
+      }
+    });
+  });
+  await new Promise<void>(resolve => fake.server.listen(0, '127.0.0.1', () => resolve()));
+  fake.url = `http://127.0.0.1:${(fake.server.address() as AddressInfo).port}`;
+  return fake;
+}
+
+const parseLines = (text: string): Array<Record<string, unknown>> =>
+  text
+    .trim()
+    .split('\n')
+    .map(line => JSON.parse(line) as Record<string, unknown>);
+
+describe('Model Replication Tests', () => {
+  let ollamas: FakeOllama[];
+  let servers: AIServer[];
+  let updateServerStatus: ReturnType<typeof vi.fn>;
+  let app: Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    ollamas = [await startFakeOllama(), await startFakeOllama()];
+    servers = ollamas.map((ollama, index) => ({
+      id: `gpu-${index + 1}`,
+      url: ollama.url,
+      type: 'ollama',
+      healthy: true,
+      lastResponseTime: 100,
+      models: [],
+    }));
+    updateServerStatus = vi.fn().mockResolvedValue(undefined);
+    vi.mocked(getOrchestratorInstance).mockReturnValue({
+      getServers: () => servers,
+      updateServerStatus,
+    } as unknown as ReturnType<typeof getOrchestratorInstance>);
+
+    const expressApp = express();
+    expressApp.use(express.json());
+    expressApp.post('/api/create', handleCreate);
+    expressApp.post('/api/push', handlePush);
+    expressApp.head('/api/blobs/:digest', handleBlobExists);
+    expressApp.post('/api/blobs/:digest', handleBlobUpload);
+    app = createServer(expressApp);
+    await new Promise<void>(resolve => app.listen(0, '127.0.0.1', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(app.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => app.close(resolve));
+    await Promise.all(ollamas.map(ollama => new Promise(resolve => ollama.server.close(resolve))));
+  });
+
+  const postJson = (path: string, body: unknown, headers: Record<string, string> = {}) =>
+    fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    });
+
+  describe('handleCreate', () => {
+    it('should create the model on every server and stream tagged progress', async () => {
+      ollamas.forEach(ollama => {
+        ollama.lines = ['{"status":"reading model metadata"}', '{"status":"success"}'];
+      });
+
+      const res = await postJson('/api/create', { model: 'mario', from: 'llama3' });
+      const events = parseLines(await res.text());
+
+      expect(res.headers.get('content-type')).toContain('application/x-ndjson');
+      expect(events).toContainEqual({ serverId: 'gpu-1', status: 'reading model metadata' });
+      expect(events).toContainEqual({ serverId: 'gpu-2', status: 'success' });
+      expect(events[events.length - 1]).toEqual({
+        status: 'success',
+        servers: [
+          { serverId: 'gpu-1', success: true, status: 'success' },
+          { serverId: 'gpu-2', success: true, status: 'success' },
+        ],
+      });
+      expect(JSON.parse(ollamas[0].received[0].body)).toEqual({
+        model: 'mario',
+        from: 'llama3',
+        stream: true,
+      });
+      expect(updateServerStatus).toHaveBeenCalledTimes(2);
+    });
+
+    it('should only send to the selected servers and summarise failures', async () => {
+      ollamas[1].lines = ['{"error":"invalid model name"}'];
+
+      const res = await postJson(
+        '/api/create?servers=gpu-2',
+        { model: 'mario', from: 'llama3', stream: false },
+        {}
+      );
+
+      expect(res.status).toBe(500);
+      expect(await res.json()).toEqual({
+        error: 'Create failed on gpu-2: invalid model name',
+        servers: [{ serverId: 'gpu-2', success: false, error: 'invalid model name' }],
+      });
+      expect(ollamas[0].received).toHaveLength(0);
+      expect(updateServerStatus).not.toHaveBeenCalled();
+    });
+
+    it('should reject requests without a model or with unknown servers', async () => {
+      expect((await postJson('/api/create', { from: 'llama3' })).status).toBe(400);
+
+      const res = await postJson(
+        '/api/create',
+        { model: 'mario' },
+        { 'X-Orchestrator-Servers': 'nope' }
+      );
+      expect(res.status).toBe(400);
+      expect(await res.json()).toEqual({ error: "Server 'nope' not found" });
+    });
+  });
+
+  describe('handlePush', () => {
+    it('should push from one server that has the model by default', async () => {
+      servers[1].models = ['mario:latest'];
+      ollamas[1].lines = ['{"status":"pushing manifest"}', '{"status":"success"}'];
+
+      const res = await postJson('/api/push', { model: 'mario', stream: false });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toMatchObject({
+        status: 'success',
+        servers: [{ serverId: 'gpu-2' }],
+      });
+      expect(ollamas[0].received).toHaveLength(0);
+      expect((await postJson('/api/push', { model: 'luigi' })).status).toBe(404);
+    });
+  });
+
+  describe('blobs', () => {
+    const digest = `sha256:${'a1'.repeat(32)}`;
+
+    it('should stream an upload to every server', async () => {
+      const payload = 'x'.repeat(256 * 1024);
+
+      const res = await fetch(`${baseUrl}/api/blobs/${digest}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: payload,
+      });
+
+      expect(res.status).toBe(201);
+      expect(await res.json()).toMatchObject({ status: 'success' });
+      ollamas.forEach(ollama => {
+        expect(ollama.received[0]).toMatchObject({ method: 'POST', url: `/api/blobs/${digest}` });
+        expect(ollama.received[0].body).toBe(payload);
+      });
+    });
+
+    it('should drop a server that stops reading so the others can finish', async () => {
+      const config = getConfigManager().getConfig();
+      const configSpy = vi.spyOn(getConfigManager(), 'getConfig').mockReturnValue({
+        ...config,
+        pulls: { ...config.pulls, activityTimeoutMs: 200 },
+      });
+      // Never reads the body, so its copy fills up once the socket buffers do
+      const stalled = createServer(req => req.pause());
+      await new Promise<void>(resolve => stalled.listen(0, '127.0.0.1', () => resolve()));
+      servers[1] = {
+        ...servers[1],
+        url: `http://127.0.0.1:${(stalled.address() as AddressInfo).port}`,
+      };
+
+      try {
+        const payload = 'x'.repeat(32 * 1024 * 1024);
+        const res = await fetch(`${baseUrl}/api/blobs/${digest}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/octet-stream' },
+          body: payload,
+        });
+
+        expect(res.status).toBe(500);
+        expect(await res.json()).toMatchObject({
+          servers: [
+            { serverId: 'gpu-1', success: true },
+            { serverId: 'gpu-2', success: false, error: expect.stringMatching(/stopped reading/) },
+          ],
+        });
+        expect(ollamas[0].received[0].body).toHaveLength(payload.length);
+      } finally {
+        configSpy.mockRestore();
+        stalled.closeAllConnections();
+        await new Promise(resolve => stalled.close(resolve));
+      }
+    });
+
+    it('should report the servers missing a blob', async () => {
+      ollamas[0].blobs.add(digest);
+
+      const missing = await fetch(`${baseUrl}/api/blobs/${digest}`, { method: 'HEAD' });
+      expect(missing.status).toBe(404);
+      expect(missing.headers.get(MISSING_SERVERS_HEADER)).toBe('gpu-2');
+
+      const present = await fetch(`${baseUrl}/api/blobs/${digest}?servers=gpu-1`, {
+        method: 'HEAD',
+      });
+      expect(present.status).toBe(200);
+      expect((await fetch(`${baseUrl}/api/blobs/sha256:zz`, { method: 'HEAD' })).status).toBe(400);
+    });
+
+    it('should reject digests that would change the backend path', async () => {
+      const traversal = await fetch(`${baseUrl}/api/blobs/..%2F..%2Fapi%2Fdelete`, {
+        method: 'POST',
+        body: 'x',
+      });
+      const dashed = await fetch(`${baseUrl}/api/blobs/sha256-${'a1'.repeat(32)}`, {
+        method: 'HEAD',
+      });
+
+      expect(traversal.status).toBe(400);
+      expect(dashed.status).toBe(400);
+      ollamas.forEach(ollama => expect(ollama.received).toEqual([]));
+    });
+  });
+});
@@ -0,0 +1,325 @@
+/**
+ * multi-choice.test.ts
+ * Tests for n > 1 choices on the OpenAI chat and completions endpoints
+ */
+
+import type { Request, Response } from 'express';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { getConfigManager } from '../../src/config/config.js';
+import {
+  handleChatCompletions,
+  handleCompletions,
+} from '../../src/controllers/openaiController.js';
+import { getOrchestratorInstance } from '../../src/orchestrator-instance.js';
+import { fetchWithTimeout, fetchWithActivityTimeout } from '../../src/utils/fetchWithTimeout.js';
+import {
+  MAX_CHOICES,
+  mergeCompletions,
+  toChoiceChunk,
+  toSampleBody,
+  validateChoiceCount,
+} from '../../src/utils/multi-choice.js';
+import { ollamaChunkToOpenAI } from '../../src/utils/protocol-translation.js';
+
+vi.mock('../../src/orchestrator-instance.js');
+vi.mock('../../src/config/config.js');
+vi.mock('../../src/utils/fetchWithTimeout.js');
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: { info: vi.fn(), error: vi.fn(), debug: vi.fn(), warn: vi.fn() },
+}));
+
+const jsonResponse = (data: unknown): globalThis.Response =>
+  new Response(JSON.stringify(data), { headers: { 'Content-Type': 'application/json' } });
+
+const completion = (content: string, promptTokens: number, completionTokens: number) => ({
+  id: 'chatcmpl-upstream',
+  object: 'chat.completion',
+  created: 1,
+  model: 'llama3',
+  choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+  usage: {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+  },
+});
+
+describe('Multi-Choice Tests', () => {
+  describe('helpers', () => {
+    it('should validate n', () => {
+      expect(validateChoiceCount(undefined)).toBeUndefined();
+      expect(validateChoiceCount(4)).toBeUndefined();
+      expect(validateChoiceCount(0)).toMatch(/between 1 and/);
+      expect(validateChoiceCount(1.5)).toMatch(/between 1 and/);
+      expect(validateChoiceCount(MAX_CHOICES + 1)).toMatch(/between 1 and/);
+    });
+
+    it('should give each sample its own seed', () => {
+      expect(toSampleBody({ model: 'llama3', n: 3, seed: 42 }, 2)).toEqual({
+        model: 'llama3',
+        seed: 44,
+      });
+      expect(toSampleBody({ model: 'llama3', n: 3 }, 2)).toEqual({ model: 'llama3' });
+    });
+
+    it('should merge completions with indexed choices and summed usage', () => {
+      const merged = mergeCompletions(
+        [completion('a', 10, 3), completion('b', 10, 5)],
+        'chatcmpl-merged'
+      ) as any;
+
+      expect(merged.id).toBe('chatcmpl-merged');
+      expect(merged.choices.map((c: any) => [c.index, c.message.content])).toEqual([
+        [0, 'a'],
+        [1, 'b'],
+      ]);
+      expect(merged.usage).toEqual({ prompt_tokens: 20, completion_tokens: 8, total_tokens: 28 });
+    });
+
+    it('should re-index stream chunks and drop their usage', () => {
+      const chunk = toChoiceChunk(
+        {
+          id: 'upstream',
+          choices: [{ index: 0, delta: { content: 'hi' }, finish_reason: null }],
+          usage: { total_tokens: 1 },
+        },
+        3,
+        'chatcmpl-merged'
+      );
+
+      expect(chunk).toEqual({
+        id: 'chatcmpl-merged',
+        choices: [{ index: 3, delta: { content: 'hi' }, finish_reason: null }],
+      });
+    });
+
+    it('should convert Ollama stream chunks to OpenAI chunks', () => {
+      const toolChunk = ollamaChunkToOpenAI(
+        'chat',
+        { message: { content: '', tool_calls: [{ function: { name: 'f', arguments: {} } }] } },
+        'chatcmpl-1',
+        'llama3',
+        1
+      ) as any;
+      const doneChunk = ollamaChunkToOpenAI(
+        'chat',
+        { done: true, prompt_eval_count: 4, eval_count: 2 },
+        'chatcmpl-1',
+        'llama3',
+        2
+      ) as any;
+
+      expect(toolChunk.choices[0].delta.tool_calls[0]).toMatchObject({ index: 1 });
+      expect(doneChunk.choices[0].finish_reason).toBe('tool_calls');
+      expect(doneChunk.usage).toEqual({ prompt_tokens: 4, completion_tokens: 2, total_tokens: 6 });
+    });
+  });
+
+  describe('controllers', () => {
+    const servers = [
+      { id: 'openai-server', url: 'http://a:8000', supportsV1: true },
+      { id: 'ollama-only', url: 'http://b:11434', supportsV1: false },
+    ];
+    let mockOrchestrator: any;
+    let mockRes: any;
+    let written: string[];
+
+    const request = (body: Record<string, unknown>) =>
+      ({ body, params: {}, query: {}, headers: {} }) as unknown as Request;
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      let calls = 0;
+      mockOrchestrator = {
+        resolveModelAlias: vi.fn((model: string) => model),
+        getTimeout: vi.fn().mockReturnValue(60000),
+        // Alternate servers the way the load balancer would spread the samples
+        tryRequestWithFailover: vi.fn((_model: string, fn: (server: any, ctx: any) => unknown) =>
+          fn(servers[calls++ % servers.length], {})
+        ),
+      };
+      vi.mocked(getOrchestratorInstance).mockReturnValue(mockOrchestrator);
+      vi.mocked(getConfigManager).mockReturnValue({ getConfig: () => ({}) } as any);
+
+      written = [];
+      mockRes = {
+        headersSent: false,
+        writableEnded: false,
+        status: vi.fn().mockReturnThis(),
+        json: vi.fn(),
+        setHeader: vi.fn(),
+        write: vi.fn((data: string) => {
+          mockRes.headersSent = true;
+          written.push(data);
+          return true;
+        }),
+        end: vi.fn(),
+      };
+    });
+
+    it('should fan samples out with distinct seeds and merge the choices', async () => {
+      vi.mocked(fetchWithTimeout)
+        .mockResolvedValueOnce(jsonResponse(completion('first', 10, 3)))
+        .mockResolvedValueOnce(
+          jsonResponse({
+            message: { role: 'assistant', content: 'second' },
+            done: true,
+            prompt_eval_count: 10,
+            eval_count: 4,
+          })
+        );
+
+      await handleChatCompletions(
+        request({
+          model: 'llama3',
+          messages: [{ role: 'user', content: 'hi' }],
+          n: 2,
+          seed: 7,
+        }),
+        mockRes as Response
+      );
+
+      expect(mockOrchestrator.tryRequestWithFailover).toHaveBeenCalledTimes(2);
+      const [first, second] = vi.mocked(fetchWithTimeout).mock.calls;
+      expect(first[0]).toBe('http://a:8000/v1/chat/completions');
+      expect(JSON.parse(first[1]!.body as string)).toMatchObject({ seed: 7 });
+      expect(JSON.parse(first[1]!.body as string)).not.toHaveProperty('n');
+      expect(second[0]).toBe('http://b:11434/api/chat');
+      expect(JSON.parse(second[1]!.body as string).options).toMatchObject({ seed: 8 });
+
+      const result = mockRes.json.mock.calls[0][0];
+      expect(result.choices.map((c: any) => [c.index, c.message.content])).toEqual([
+        [0, 'first'],
+        [1, 'second'],
+      ]);
+      expect(result.usage).toEqual({ prompt_tokens: 20, completion_tokens: 7, total_tokens: 27 });
+    });
+
+    it('should interleave streamed samples under their choice index', async () => {
+      const sse = [
+        { choices: [{ index: 0, delta: { role: 'assistant', content: 'A' } }] },
+        { choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] },
+        { choices: [], usage: { prompt_tokens: 5, completion_tokens: 1, total_tokens: 6 } },
+      ]
+        .map(event => `data: ${JSON.stringify(event)}\n\n`)
+        .join('');
+      const ndjson = [
+        { message: { content: 'B' }, done: false },
+        { message: { content: '' }, done: true, prompt_eval_count: 5, eval_count: 2 },
+      ]
+        .map(event => JSON.stringify(event))
+        .join('\n');
+      vi.mocked(fetchWithActivityTimeout)
+        .mockResolvedValueOnce({
+          response: new Response(sse),
+          activityController: { clearTimeout: vi.fn(), resetTimeout: vi.fn() },
+        } as any)
+        .mockResolvedValueOnce({
+          response: new Response(ndjson),
+          activityController: { clearTimeout: vi.fn(), resetTimeout: vi.fn() },
+        } as any);
+
+      await handleChatCompletions(
+        request({
+          model: 'llama3',
+          messages: [{ role: 'user', content: 'hi' }],
+          n: 2,
+          stream: true,
+          stream_options: { include_usage: true },
+        }),
+        mockRes as Response
+      );
+
+      const upstreamBody = JSON.parse(
+        vi.mocked(fetchWithActivityTimeout).mock.calls[0][1].body as string
+      );
+      expect(upstreamBody).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+
+      expect(written[written.length - 1]).toBe('data: [DONE]\n\n');
+      const chunks = written.slice(0, -1).map(w => JSON.parse(w.replace(/^data: /, '')));
+      expect(new Set(chunks.map(c => c.id)).size).toBe(1);
+
+      const contentOf = (index: number) =>
+        chunks
+          .flatMap(c => c.choices)
+          .filter((choice: any) => choice.index === index)
+          .map((choice: any) => choice.delta.content ?? '')
+          .join('');
+      expect(contentOf(0)).toBe('A');
+      expect(contentOf(1)).toBe('B');
+
+      const secondFirst = chunks.find(c => c.choices[0]?.index === 1);
+      expect(secondFirst.choices[0].delta.role).toBe('assistant');
+      expect(chunks.filter(c => c.choices[0]?.finish_reason === 'stop')).toHaveLength(2);
+      expect(chunks[chunks.length - 1]).toMatchObject({
+        choices: [],
+        usage: { prompt_tokens: 10, completion_tokens: 3, total_tokens: 13 },
+      });
+    });
+
+    it('should report a failed sample in the stream once other samples have started', async () => {
+      vi.mocked(fetchWithActivityTimeout)
+        .mockResolvedValueOnce({
+          response: new Response(
+            `data: ${JSON.stringify({ choices: [{ index: 0, text: 'A' }] })}\n\n`
+          ),
+          activityController: { clearTimeout: vi.fn(), resetTimeout: vi.fn() },
+        } as any)
+        .mockRejectedValueOnce(new Error('connection refused'));
+
+      await handleCompletions(
+        request({ model: 'llama3', prompt: 'hi', n: 2, stream: true }),
+        mockRes as Response
+      );
+
+      const events = written.map(w => w.replace(/^data: /, '').trim());
+      expect(events[events.length - 1]).toBe('[DONE]');
+      expect(JSON.parse(events[events.length - 2]).error).toMatchObject({
+        code: 'incomplete_choices',
+      });
+    });
+
+    it('should report a sample whose stream broke off as failed to the orchestrator', async () => {
+      const brokenStream = () =>
+        ({
+          response: new Response(
+            new ReadableStream<Uint8Array>({
+              start(controller) {
+                controller.enqueue(
+                  new TextEncoder().encode(
+                    `data: ${JSON.stringify({ choices: [{ index: 0, text: 'A' }] })}\n\n`
+                  )
+                );
+              },
+              pull(controller) {
+                controller.error(new Error('connection reset'));
+              },
+            })
+          ),
+          activityController: { clearTimeout: vi.fn(), resetTimeout: vi.fn() },
+        }) as any;
+      vi.mocked(fetchWithActivityTimeout)
+        .mockResolvedValueOnce(brokenStream())
+        .mockRejectedValueOnce(new Error('connection refused'));
+
+      await handleCompletions(
+        request({ model: 'llama3', prompt: 'hi', n: 2, stream: true }),
+        mockRes as Response
+      );
+
+      // The first sample goes to the OpenAI server, which streams SSE
+      expect(await mockOrchestrator.tryRequestWithFailover.mock.results[0].value).toEqual({
+        _streamed: true,
+        _streamError: 'connection reset',
+      });
+    });
+
+    it('should reject an out-of-range n', async () => {
+      await handleCompletions(request({ model: 'llama3', prompt: 'hi', n: 0 }), mockRes);
+
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+      expect(mockRes.json.mock.calls[0][0].error.param).toBe('n');
+    });
+  });
+});
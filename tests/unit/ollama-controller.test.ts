@@ -23,6 +23,12 @@ import {
 } from '../../src/controllers/ollamaController.js';
 import { getOrchestratorInstance } from '../../src/orchestrator-instance.js';
 import { streamResponse, isStreamingRequest, handleStreamWithRetry } from '../../src/streaming.js';
+import {
+  EmbeddingCache,
+  resetEmbeddingCache,
+  setEmbeddingCache,
+} from '../../src/utils/embedding-cache.js';
+import { ConcurrencySaturatedError } from '../../src/utils/request-queue.js';
 import { mockResponses, mockServers, mockErrors } from '../fixtures/index.js';
 
 vi.mock('../../src/orchestrator-instance.js');
@@ -47,6 +53,7 @@ describe('Ollama Controller', () => {
   beforeEach(() => {
     mockOrchestrator = {
       getAggregatedTags: vi.fn(),
+      resolveModelAlias: vi.fn((model: string) => model),
       tryRequestWithFailover: vi.fn(),
       getServers: vi.fn(),
       getBestServerForModel: vi.fn(),
@@ -698,13 +705,14 @@ describe('Ollama Controller', () => {
   });
 
   describe('handleShow', () => {
+    const routeTo = (server: any) =>
+      mockOrchestrator.tryRequestWithFailover.mockImplementation((model: string, callback: any) =>
+        callback(server, {})
+      );
+
     it('should show model info successfully', async () => {
       mockReq.body = { model: 'llama3:latest' };
-
-      mockOrchestrator.getBestServerForModel.mockReturnValue({
-        ...mockServers.healthy,
-        models: [...mockServers.healthy.models],
-      });
+      routeTo(mockServers.healthy);
 
       mockFetch.mockResolvedValue({
         ok: true,
@@ -722,6 +730,29 @@ describe('Ollama Controller', () => {
         parameters: '8B',
         template: '{{ .System }}',
       });
+      expect(mockOrchestrator.tryRequestWithFailover).toHaveBeenCalledWith(
+        'llama3:latest',
+        expect.any(Function),
+        false,
+        'show',
+        'ollama',
+        expect.any(Object)
+      );
+    });
+
+    it('should send the server API key to the backend', async () => {
+      mockReq.body = { model: 'llama3:latest' };
+      routeTo({ ...mockServers.healthy, apiKey: 'secret-key' });
+      mockFetch.mockResolvedValue({ ok: true, json: vi.fn().mockResolvedValue({}) });
+
+      await handleShow(mockReq as Request, mockRes as Response);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/api/show'),
+        expect.objectContaining({
+          headers: expect.objectContaining({ Authorization: 'Bearer secret-key' }),
+        })
+      );
     });
 
     it('should return 400 when model is missing', async () => {
@@ -736,7 +767,9 @@ describe('Ollama Controller', () => {
     it('should return 404 when model not found on any server', async () => {
       mockReq.body = { model: 'nonexistent:latest' };
 
-      mockOrchestrator.getBestServerForModel.mockReturnValue(null);
+      mockOrchestrator.tryRequestWithFailover.mockRejectedValue(
+        new Error("Model 'nonexistent:latest' not found on any ollama server for model 'x'")
+      );
 
       await handleShow(mockReq as Request, mockRes as Response);
 
@@ -748,11 +781,7 @@ describe('Ollama Controller', () => {
 
     it('should handle non-ok response from server', async () => {
       mockReq.body = { model: 'llama3:latest' };
-
-      mockOrchestrator.getBestServerForModel.mockReturnValue({
-        ...mockServers.healthy,
-        models: [...mockServers.healthy.models],
-      });
+      routeTo(mockServers.healthy);
 
       mockFetch.mockResolvedValue({
         ok: false,
@@ -765,31 +794,48 @@ describe('Ollama Controller', () => {
       expect(mockRes.status).toHaveBeenCalledWith(404);
     });
 
+    it('should return 503 when no server can take the request', async () => {
+      mockReq.body = { model: 'llama3:latest' };
+
+      mockOrchestrator.tryRequestWithFailover.mockRejectedValue(
+        new ConcurrencySaturatedError(
+          "All 2 server(s) for model 'llama3:latest' are at max concurrency",
+          'busy'
+        )
+      );
+
+      await handleShow(mockReq as Request, mockRes as Response);
+
+      expect(mockRes.status).toHaveBeenCalledWith(503);
+    });
+
     it('should handle errors gracefully', async () => {
       mockReq.body = { model: 'llama3:latest' };
 
-      mockOrchestrator.getBestServerForModel.mockImplementation(() => {
-        throw new Error('Database error');
-      });
+      mockOrchestrator.tryRequestWithFailover.mockRejectedValue(new Error('Database error'));
 
       await handleShow(mockReq as Request, mockRes as Response);
 
       expect(mockRes.status).toHaveBeenCalledWith(500);
-      expect(mockRes.json).toHaveBeenCalledWith({ error: 'Internal server error' });
+      expect(mockRes.json).toHaveBeenCalledWith({
+        error: 'Show request failed',
+        details: 'Database error',
+      });
     });
   });
 
   describe('handleEmbed', () => {
+    const routeTo = (server: any) =>
+      mockOrchestrator.tryRequestWithFailover.mockImplementation((model: string, callback: any) =>
+        callback(server, {})
+      );
+
     it('should generate embeddings with single input', async () => {
       mockReq.body = {
         model: 'llama3:latest',
         input: 'Hello world',
       };
-
-      mockOrchestrator.getBestServerForModel.mockReturnValue({
-        ...mockServers.healthy,
-        models: [...mockServers.healthy.models],
-      });
+      routeTo(mockServers.healthy);
 
       mockFetch.mockResolvedValue({
         ok: true,
@@ -805,6 +851,14 @@ describe('Ollama Controller', () => {
         model: 'llama3:latest',
         embeddings: [[0.1, 0.2, 0.3]],
       });
+      expect(mockOrchestrator.tryRequestWithFailover).toHaveBeenCalledWith(
+        'llama3:latest',
+        expect.any(Function),
+        false,
+        'embeddings',
+        'ollama',
+        expect.objectContaining({ hedge: true })
+      );
     });
 
     it('should generate embeddings with batch input', async () => {
@@ -813,11 +867,7 @@ describe('Ollama Controller', () => {
         input: ['Hello', 'World'],
         dimensions: 768,
       };
-
-      mockOrchestrator.getBestServerForModel.mockReturnValue({
-        ...mockServers.healthy,
-        models: [...mockServers.healthy.models],
-      });
+      routeTo({ ...mockServers.healthy, apiKey: 'secret-key' });
 
       mockFetch.mockResolvedValue({
         ok: true,
@@ -836,6 +886,7 @@ describe('Ollama Controller', () => {
         expect.stringContaining('/api/embed'),
         expect.objectContaining({
           body: expect.stringContaining('dimensions'),
+          headers: expect.objectContaining({ Authorization: 'Bearer secret-key' }),
         })
       );
     });
@@ -845,11 +896,7 @@ describe('Ollama Controller', () => {
         model: 'llama3:latest',
         prompt: 'Hello world',
       };
-
-      mockOrchestrator.getBestServerForModel.mockReturnValue({
-        ...mockServers.healthy,
-        models: [...mockServers.healthy.models],
-      });
+      routeTo(mockServers.healthy);
 
       mockFetch.mockResolvedValue({
         ok: true,
@@ -862,6 +909,72 @@ describe('Ollama Controller', () => {
       await handleEmbed(mockReq as Request, mockRes as Response);
 
       expect(mockRes.json).toHaveBeenCalled();
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ body: expect.stringContaining('"input":["Hello world"]') })
+      );
+    });
+
+    it('should shard large batches and reassemble embeddings in order', async () => {
+      const input = Array.from({ length: 300 }, (_, i) => `text ${i}`);
+      mockReq.body = { model: 'nomic-embed-text', input };
+      routeTo(mockServers.healthy);
+
+      mockFetch.mockImplementation(async (_url: string, init: { body: string }) => {
+        const shard = JSON.parse(init.body).input as string[];
+        return {
+          ok: true,
+          json: async () => ({
+            model: 'nomic-embed-text',
+            embeddings: shard.map(text => [Number(text.split(' ')[1])]),
+            prompt_eval_count: shard.length,
+          }),
+        };
+      });
+
+      await handleEmbed(mockReq as Request, mockRes as Response);
+
+      expect(mockOrchestrator.tryRequestWithFailover).toHaveBeenCalledTimes(2);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        model: 'nomic-embed-text',
+        embeddings: input.map((_, i) => [i]),
+        prompt_eval_count: 300,
+      });
+    });
+
+    it('should only forward inputs missing from the embedding cache', async () => {
+      setEmbeddingCache(
+        new EmbeddingCache('unused', { enabled: true, maxMemoryEntries: 100, persistent: false })
+      );
+      mockOrchestrator.getServers.mockReturnValue([]);
+      routeTo(mockServers.healthy);
+      mockFetch.mockImplementation(async (_url: string, init: { body: string }) => {
+        const batch = JSON.parse(init.body).input as string[];
+        return {
+          ok: true,
+          json: async () => ({
+            model: 'nomic-embed-text',
+            embeddings: batch.map(text => [text.length]),
+            prompt_eval_count: batch.length,
+          }),
+        };
+      });
+
+      try {
+        mockReq.body = { model: 'nomic-embed-text', input: ['a', 'bb'] };
+        await handleEmbed(mockReq as Request, mockRes as Response);
+        mockReq.body = { model: 'nomic-embed-text', input: ['ccc', 'a', 'bb'] };
+        await handleEmbed(mockReq as Request, mockRes as Response);
+      } finally {
+        resetEmbeddingCache();
+      }
+
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body).input).toEqual(['ccc']);
+      expect(mockRes.json).toHaveBeenLastCalledWith({
+        model: 'nomic-embed-text',
+        embeddings: [[3], [1], [2]],
+        prompt_eval_count: 3,
+      });
     });
 
     it('should return 400 when model is missing', async () => {
@@ -885,20 +998,33 @@ describe('Ollama Controller', () => {
     it('should return 404 when model not found', async () => {
       mockReq.body = { model: 'nonexistent:latest', input: 'Hello' };
 
-      mockOrchestrator.getBestServerForModel.mockReturnValue(null);
+      mockOrchestrator.tryRequestWithFailover.mockRejectedValue(
+        new Error("Model 'nonexistent:latest' not found on any ollama server for model 'x'")
+      );
 
       await handleEmbed(mockReq as Request, mockRes as Response);
 
       expect(mockRes.status).toHaveBeenCalledWith(404);
     });
 
-    it('should handle server error response', async () => {
+    it('should return 503 when no servers are available', async () => {
       mockReq.body = { model: 'llama3:latest', input: 'Hello' };
 
-      mockOrchestrator.getBestServerForModel.mockReturnValue({
-        ...mockServers.healthy,
-        models: [...mockServers.healthy.models],
-      });
+      mockOrchestrator.tryRequestWithFailover.mockRejectedValue(
+        new Error("No servers available for model 'llama3:latest'")
+      );
+
+      await handleEmbed(mockReq as Request, mockRes as Response);
+
+      expect(mockRes.status).toHaveBeenCalledWith(503);
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({ error: 'No available servers for model' })
+      );
+    });
+
+    it('should handle server error response', async () => {
+      mockReq.body = { model: 'llama3:latest', input: 'Hello' };
+      routeTo(mockServers.healthy);
 
       mockFetch.mockResolvedValue({
         ok: false,
@@ -909,15 +1035,14 @@ describe('Ollama Controller', () => {
       await handleEmbed(mockReq as Request, mockRes as Response);
 
       expect(mockRes.status).toHaveBeenCalledWith(500);
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({ error: 'Embed request failed' })
+      );
     });
 
     it('should handle empty response from server', async () => {
       mockReq.body = { model: 'llama3:latest', input: 'Hello' };
-
-      mockOrchestrator.getBestServerForModel.mockReturnValue({
-        ...mockServers.healthy,
-        models: [...mockServers.healthy.models],
-      });
+      routeTo(mockServers.healthy);
 
       mockFetch.mockResolvedValue({
         ok: true,
@@ -931,17 +1056,6 @@ describe('Ollama Controller', () => {
   });
 
   describe('handleUnsupported', () => {
-    it('should return error for /api/pull', () => {
-      const reqWithPath = { ...mockReq, path: '/api/pull' } as Request;
-
-      handleUnsupported(reqWithPath, mockRes as Response);
-
-      expect(mockRes.status).toHaveBeenCalledWith(400);
-      expect(mockRes.json).toHaveBeenCalledWith({
-        error: expect.stringContaining('/api/orchestrator/servers'),
-      });
-    });
-
     it('should return error for /api/delete', () => {
       const reqWithPath = { ...mockReq, path: '/api/delete' } as Request;
 
@@ -964,17 +1078,6 @@ describe('Ollama Controller', () => {
       });
     });
 
-    it('should return error for /api/create', () => {
-      const reqWithPath = { ...mockReq, path: '/api/create' } as Request;
-
-      handleUnsupported(reqWithPath, mockRes as Response);
-
-      expect(mockRes.status).toHaveBeenCalledWith(400);
-      expect(mockRes.json).toHaveBeenCalledWith({
-        error: expect.stringContaining('Model creation'),
-      });
-    });
-
     it('should return generic error for unknown paths', () => {
       const reqWithPath = { ...mockReq, path: '/api/unknown' } as Request;
 
@@ -63,6 +63,7 @@ describe('OpenAI Controller', () => {
     // Setup mock orchestrator
     mockOrchestrator = {
       getAggregatedOpenAIModels: vi.fn(),
+      resolveModelAlias: vi.fn((model: string) => model),
       tryRequestWithFailover: vi.fn(),
       requestToServer: vi.fn(),
       getTimeout: vi.fn().mockImplementation((serverId: string, model: string) => {
@@ -807,7 +808,12 @@ describe('OpenAI Controller', () => {
         false,
         'generate',
         'openai',
-        {}
+        {
+          priority: 'normal',
+          allowFallback: false,
+          hedge: false,
+          requestKey: expect.any(String),
+        }
       );
       expect(mockRes.json).toHaveBeenCalledWith(mockResult);
     });
@@ -1203,7 +1209,12 @@ describe('OpenAI Controller', () => {
         false,
         'generate',
         'openai',
-        {}
+        {
+          priority: 'normal',
+          allowFallback: false,
+          hedge: false,
+          requestKey: expect.any(String),
+        }
       );
       expect(mockRes.json).toHaveBeenCalledWith(mockResult);
     });
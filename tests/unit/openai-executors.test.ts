@@ -0,0 +1,54 @@
+/**
+ * openai-executors.test.ts
+ * Tests for the shared /v1 request executors: request validation and error classification
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { classifyOpenAIError, validateCompletionRequest } from '../../src/openai-executors.js';
+import { MISSING_CAPABILITY_ERROR } from '../../src/utils/model-capabilities.js';
+import { ConcurrencySaturatedError } from '../../src/utils/request-queue.js';
+import { STRUCTURED_OUTPUT_ERROR_MESSAGE } from '../../src/utils/structured-output.js';
+
+describe('openai-executors', () => {
+  describe('validateCompletionRequest', () => {
+    it('should accept a plain body', () => {
+      expect(validateCompletionRequest({ model: 'llama3', n: 2 })).toBeUndefined();
+    });
+
+    it('should reject an out-of-range n and a tool_choice that does not fit', () => {
+      expect(validateCompletionRequest({ model: 'llama3', n: 0 })).toMatchObject({
+        param: 'n',
+        code: 'invalid_value',
+      });
+      expect(
+        validateCompletionRequest({ model: 'llama3', tool_choice: 'sometimes' })
+      ).toMatchObject({ param: 'tool_choice', code: 'invalid_value' });
+    });
+  });
+
+  describe('classifyOpenAIError', () => {
+    it('should map each failure to its reply status', () => {
+      expect(classifyOpenAIError(new Error(`${STRUCTURED_OUTPUT_ERROR_MESSAGE}: bad`))).toEqual({
+        statusCode: 502,
+        type: 'server_error',
+        code: 'invalid_structured_output',
+      });
+      expect(classifyOpenAIError(new Error(`${MISSING_CAPABILITY_ERROR} vision`))).toMatchObject({
+        statusCode: 400,
+        code: 'model_not_vision_capable',
+        param: 'messages',
+      });
+      expect(
+        classifyOpenAIError(new ConcurrencySaturatedError('queue full', 'full'))
+      ).toMatchObject({ statusCode: 503, code: 'service_unavailable' });
+      expect(
+        classifyOpenAIError(new Error("No healthy servers available for model 'llama3'"))
+      ).toMatchObject({ statusCode: 503 });
+      expect(classifyOpenAIError(new Error('upstream exploded'))).toMatchObject({
+        statusCode: 500,
+        code: 'internal_error',
+      });
+    });
+  });
+});
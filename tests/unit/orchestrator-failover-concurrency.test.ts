@@ -5,7 +5,9 @@
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 
+import { DEFAULT_CONFIG } from '../../src/config/config.js';
 import { AIOrchestrator } from '../../src/orchestrator.js';
+import { getRequestHistory } from '../../src/request-history.js';
 import { resetInFlightManager } from '../../src/utils/in-flight-manager.js';
 
 describe('Orchestrator Failover and Concurrency Tests', () => {
@@ -211,6 +213,9 @@ describe('Orchestrator Failover and Concurrency Tests', () => {
     });
 
     it('should throw when all servers are at max concurrency', async () => {
+      // Saturated requests fail fast instead of waiting in the admission queue
+      orchestrator.updateConfig({ ...DEFAULT_CONFIG, enableQueue: false });
+
       // Fill up all servers to max concurrency (4 each)
       for (let i = 0; i < 4; i++) {
         orchestrator.incrementInFlight('server-1', 'llama3:latest');
@@ -227,10 +232,94 @@ describe('Orchestrator Failover and Concurrency Tests', () => {
         )
       ).rejects.toThrow();
     });
+
+    it('should record a stream that broke off as failed without failing over', async () => {
+      const serversTried: string[] = [];
+
+      const result = await orchestrator.tryRequestWithFailover(
+        'llama3:latest',
+        async server => {
+          serversTried.push(server.id);
+          return { _streamed: true, _streamError: 'connection reset' };
+        },
+        true,
+        'generate'
+      );
+
+      expect(result._streamError).toBe('connection reset');
+      expect(serversTried).toHaveLength(1);
+      const [record] = getRequestHistory().searchRequests({
+        serverId: serversTried[0],
+        limit: 1,
+      });
+      expect(record).toMatchObject({ success: false, errorMessage: 'connection reset' });
+      expect(
+        orchestrator.getModelCircuitBreakerPublic(serversTried[0], 'llama3:latest')?.getStats()
+          .failureCount
+      ).toBe(1);
+    });
+
+    it('should serve show requests without a concurrency slot or latency metrics', async () => {
+      orchestrator.updateConfig({ ...DEFAULT_CONFIG, enableQueue: false });
+      for (let i = 0; i < 4; i++) {
+        orchestrator.incrementInFlight('server-1', 'llama3:latest');
+        orchestrator.incrementInFlight('server-2', 'llama3:latest');
+        orchestrator.incrementInFlight('server-3', 'llama3:latest');
+      }
+      const recordRequest = vi.spyOn((orchestrator as any).metricsAggregator, 'recordRequest');
+
+      const result = await orchestrator.tryRequestWithFailover(
+        'llama3:latest',
+        async server => ({ inFlight: orchestrator.getInFlight(server.id, 'llama3:latest') }),
+        false,
+        'show'
+      );
+
+      expect(result.inFlight).toBe(4);
+      expect(recordRequest).not.toHaveBeenCalled();
+      const [record] = getRequestHistory().searchRequests({ model: 'llama3:latest', limit: 1 });
+      expect(record).toMatchObject({ endpoint: 'show', success: true });
+      ['server-1', 'server-2', 'server-3'].forEach(serverId =>
+        expect(orchestrator.getInFlight(serverId, 'llama3:latest')).toBe(4)
+      );
+    });
+
+    it('should keep show results out of circuit breakers, cooldowns and bans', async () => {
+      orchestrator.updateConfig({ ...DEFAULT_CONFIG, enableQueue: false });
+
+      await expect(
+        orchestrator.tryRequestWithFailover(
+          'llama3:latest',
+          async () => {
+            throw new Error('HTTP 500: model "llama3:latest" not found');
+          },
+          false,
+          'show'
+        )
+      ).rejects.toThrow();
+
+      ['server-1', 'server-2', 'server-3'].forEach(serverId => {
+        expect(
+          orchestrator.getModelCircuitBreakerPublic(serverId, 'llama3:latest')?.getStats()
+            .failureCount ?? 0
+        ).toBe(0);
+        expect(orchestrator.getServer(serverId)?.healthy).toBe(true);
+      });
+      const result = await orchestrator.tryRequestWithFailover(
+        'llama3:latest',
+        async server => ({ servedBy: server.id }),
+        false,
+        'generate'
+      );
+      expect(result.servedBy).toBeDefined();
+    });
   });
 
   describe('Max Concurrency Handling', () => {
     beforeEach(() => {
+      // Saturated requests fail fast instead of waiting in the admission queue
+      orchestrator.updateConfig({ ...DEFAULT_CONFIG, enableQueue: false });
+
       orchestrator.addServer({
         id: 'server-1',
         url: 'http://localhost:11434',
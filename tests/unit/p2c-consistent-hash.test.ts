@@ -0,0 +1,291 @@
+/**
+ * p2c-consistent-hash.test.ts
+ * Tests for the power-of-two-choices and consistent-hash algorithms
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { LoadBalancer, deriveRequestKey } from '../../src/load-balancer.js';
+import type { AIServer } from '../../src/orchestrator.types.js';
+
+describe('P2C and Consistent-Hash Algorithms Tests', () => {
+  let loadBalancer: LoadBalancer;
+
+  const createServer = (id: string, latency = 100): AIServer => ({
+    id,
+    url: `http://localhost:${11434 + parseInt(id.split('-')[1] || '1')}`,
+    type: 'ollama',
+    healthy: true,
+    supportsOllama: true,
+    lastResponseTime: latency,
+    models: ['llama3:latest'],
+    maxConcurrency: 4,
+  });
+
+  const createCluster = (size: number): AIServer[] =>
+    Array.from({ length: size }, (_, i) => createServer(`ollama-${i + 1}`));
+
+  const getLoad = (_serverId: string, _model: string): number => 1;
+  const getTotalLoad = (_serverId: string): number => 1;
+
+  const selectWithKey = (
+    servers: AIServer[],
+    requestKey: string | undefined,
+    totalLoad: (serverId: string) => number = getTotalLoad
+  ): AIServer | undefined =>
+    loadBalancer.select(
+      servers,
+      'llama3:latest',
+      getLoad,
+      totalLoad,
+      () => undefined,
+      false,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      requestKey
+    );
+
+  beforeEach(() => {
+    loadBalancer = new LoadBalancer({});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('Algorithm Selection', () => {
+    it('should set p2c algorithm', () => {
+      loadBalancer.setAlgorithm('p2c');
+      expect(loadBalancer.getAlgorithm()).toBe('p2c');
+    });
+
+    it('should set consistent-hash algorithm', () => {
+      loadBalancer.setAlgorithm('consistent-hash');
+      expect(loadBalancer.getAlgorithm()).toBe('consistent-hash');
+    });
+  });
+
+  describe('Server Selection - P2C', () => {
+    beforeEach(() => {
+      loadBalancer.setAlgorithm('p2c');
+    });
+
+    it('should return undefined when no candidates provided', () => {
+      expect(
+        loadBalancer.select([], 'llama3:latest', getLoad, getTotalLoad, () => undefined)
+      ).toBeUndefined();
+    });
+
+    it('should score only two sampled candidates', () => {
+      const scored = new Set<string>();
+      const result = loadBalancer.select(
+        createCluster(40),
+        'llama3:latest',
+        (serverId, _model) => {
+          scored.add(serverId);
+          return 1;
+        },
+        getTotalLoad,
+        () => undefined
+      );
+
+      expect(result).toBeDefined();
+      expect(scored.size).toBe(2);
+      expect(scored.has(result!.id)).toBe(true);
+    });
+
+    it('should pick the better scored of the two samples', () => {
+      // Math.random() = 0 samples the first two candidates
+      vi.spyOn(Math, 'random').mockReturnValue(0);
+      const servers = [createServer('busy-1'), createServer('idle-2'), createServer('idle-3')];
+      const totalLoad = (serverId: string): number => (serverId === 'busy-1' ? 4 : 0);
+
+      const result = loadBalancer.select(
+        servers,
+        'llama3:latest',
+        (serverId, _model) => totalLoad(serverId),
+        totalLoad,
+        () => undefined
+      );
+
+      expect(result?.id).toBe('idle-2');
+    });
+
+    it('should spread selections across the cluster', () => {
+      const servers = createCluster(10);
+      const selected = new Set(
+        Array.from(
+          { length: 200 },
+          () =>
+            loadBalancer.select(servers, 'llama3:latest', getLoad, getTotalLoad, () => undefined)
+              ?.id
+        )
+      );
+
+      expect(selected.size).toBeGreaterThan(5);
+    });
+
+    it('should honor the configured number of choices', () => {
+      const lb = new LoadBalancer({ p2c: { choices: 3 } });
+      lb.setAlgorithm('p2c');
+      const scored = new Set<string>();
+
+      lb.select(
+        createCluster(20),
+        'llama3:latest',
+        (serverId, _model) => {
+          scored.add(serverId);
+          return 1;
+        },
+        getTotalLoad,
+        () => undefined
+      );
+
+      expect(scored.size).toBe(3);
+    });
+  });
+
+  describe('Server Selection - Consistent Hash', () => {
+    beforeEach(() => {
+      loadBalancer.setAlgorithm('consistent-hash');
+    });
+
+    it('should route the same key to the same server', () => {
+      const servers = createCluster(10);
+      const first = selectWithKey(servers, 'prompt-a');
+
+      for (let i = 0; i < 10; i++) {
+        expect(selectWithKey(servers, 'prompt-a')?.id).toBe(first?.id);
+      }
+    });
+
+    it('should not depend on candidate order', () => {
+      const servers = createCluster(10);
+
+      expect(selectWithKey([...servers].reverse(), 'prompt-b')?.id).toBe(
+        selectWithKey(servers, 'prompt-b')?.id
+      );
+    });
+
+    it('should spread different keys across the cluster', () => {
+      const servers = createCluster(5);
+      const counts = new Map<string, number>();
+      for (let i = 0; i < 500; i++) {
+        const id = selectWithKey(servers, `key-${i}`)!.id;
+        counts.set(id, (counts.get(id) ?? 0) + 1);
+      }
+
+      expect(counts.size).toBe(5);
+      for (const count of counts.values()) {
+        expect(count).toBeGreaterThan(30);
+      }
+    });
+
+    it('should only remap keys owned by a removed server', () => {
+      const servers = createCluster(6);
+      const keys = Array.from({ length: 200 }, (_, i) => `key-${i}`);
+      const before = new Map(keys.map(key => [key, selectWithKey(servers, key)!.id]));
+
+      const remaining = servers.filter(s => s.id !== 'ollama-3');
+      for (const key of keys) {
+        const owner = before.get(key)!;
+        const now = selectWithKey(remaining, key)!.id;
+        if (owner !== 'ollama-3') {
+          expect(now).toBe(owner);
+        } else {
+          expect(now).not.toBe('ollama-3');
+        }
+      }
+    });
+
+    it('should move on to the next replica when the owner is at capacity', () => {
+      const servers = createCluster(4);
+      const owner = selectWithKey(servers, 'prompt-c')!;
+      const totalLoad = (serverId: string): number => (serverId === owner.id ? 4 : 0);
+
+      const result = selectWithKey(servers, 'prompt-c', totalLoad);
+
+      expect(result?.id).not.toBe(owner.id);
+      // The fallback replica is stable too
+      expect(selectWithKey(servers, 'prompt-c', totalLoad)?.id).toBe(result?.id);
+    });
+
+    it('should use the owner when every candidate is at capacity', () => {
+      const servers = createCluster(4);
+      const owner = selectWithKey(servers, 'prompt-d')!;
+
+      expect(selectWithKey(servers, 'prompt-d', () => 4)?.id).toBe(owner.id);
+    });
+
+    it('should keep the owner at capacity when checkCapacity is disabled', () => {
+      loadBalancer.updateConfig({ consistentHash: { virtualNodes: 100, checkCapacity: false } });
+      const servers = createCluster(4);
+      const owner = selectWithKey(servers, 'prompt-e')!;
+      const totalLoad = (serverId: string): number => (serverId === owner.id ? 4 : 0);
+
+      expect(selectWithKey(servers, 'prompt-e', totalLoad)?.id).toBe(owner.id);
+    });
+
+    it('should fall back to p2c when the request has no key', () => {
+      const servers = createCluster(10);
+      const result = selectWithKey(servers, undefined);
+
+      expect(result).toBeDefined();
+      expect(servers).toContain(result);
+    });
+
+    it('should rebuild the ring when virtualNodes changes', () => {
+      const servers = createCluster(8);
+      selectWithKey(servers, 'prompt-f');
+
+      loadBalancer.updateConfig({ consistentHash: { virtualNodes: 10, checkCapacity: true } });
+      const lb = new LoadBalancer({ consistentHash: { virtualNodes: 10, checkCapacity: true } });
+      lb.setAlgorithm('consistent-hash');
+
+      for (let i = 0; i < 50; i++) {
+        const key = `key-${i}`;
+        expect(selectWithKey(servers, key)?.id).toBe(
+          lb.select(
+            servers,
+            'llama3:latest',
+            getLoad,
+            getTotalLoad,
+            () => undefined,
+            false,
+            undefined,
+            undefined,
+            undefined,
+            undefined,
+            undefined,
+            key
+          )?.id
+        );
+      }
+    });
+  });
+
+  describe('deriveRequestKey', () => {
+    it('should be stable for the same model and input', () => {
+      const messages = [{ role: 'user', content: 'hello' }];
+
+      expect(deriveRequestKey('llama3:latest', messages)).toBe(
+        deriveRequestKey('llama3:latest', [{ role: 'user', content: 'hello' }])
+      );
+    });
+
+    it('should differ by input and by model', () => {
+      const key = deriveRequestKey('llama3:latest', 'hello');
+
+      expect(deriveRequestKey('llama3:latest', 'goodbye')).not.toBe(key);
+      expect(deriveRequestKey('mistral:latest', 'hello')).not.toBe(key);
+    });
+
+    it('should return undefined without input', () => {
+      expect(deriveRequestKey('llama3:latest', undefined)).toBeUndefined();
+      expect(deriveRequestKey('llama3:latest', '')).toBeUndefined();
+    });
+  });
+});
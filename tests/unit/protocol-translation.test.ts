@@ -0,0 +1,509 @@
+/**
+ * protocol-translation.test.ts
+ * Tests for serving Ollama clients from OpenAI-only servers and vice versa
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { ConfigManager, getConfigManager, setConfigManager } from '../../src/config/config.js';
+import { AIOrchestrator } from '../../src/orchestrator.js';
+import {
+  ollamaRequestToOpenAI,
+  ollamaResponseToOpenAI,
+  openAIRequestToOllama,
+  openAIResponseToOllama,
+  openAIStreamToOllama,
+} from '../../src/utils/protocol-translation.js';
+import { createTestOrchestrator } from '../utils/test-helpers.js';
+
+describe('Protocol Translation Tests', () => {
+  const sseResponse = (events: unknown[]): globalThis.Response => {
+    const text = events
+      .map(e => `data: ${typeof e === 'string' ? e : JSON.stringify(e)}\n\n`)
+      .join('');
+    return new Response(text, { headers: { 'Content-Type': 'text/event-stream' } });
+  };
+
+  const readNdjson = async (response: globalThis.Response): Promise<any[]> =>
+    (await response.text())
+      .split('\n')
+      .filter(Boolean)
+      .map(line => JSON.parse(line));
+
+  describe('Ollama requests to OpenAI', () => {
+    it('should map options and format onto chat completion parameters', () => {
+      const { path, body } = ollamaRequestToOpenAI(
+        'chat',
+        {
+          model: 'qwen2.5-7b',
+          messages: [{ role: 'user', content: 'hi' }],
+          options: { temperature: 0.2, num_predict: 64, stop: ['\n'], seed: 7, num_ctx: 8192 },
+          format: 'json',
+        },
+        false
+      );
+
+      expect(path).toBe('/v1/chat/completions');
+      expect(body).toEqual({
+        model: 'qwen2.5-7b',
+        stream: false,
+        temperature: 0.2,
+        max_tokens: 64,
+        stop: ['\n'],
+        seed: 7,
+        response_format: { type: 'json_object' },
+        messages: [{ role: 'user', content: 'hi' }],
+      });
+    });
+
+    it('should map a format schema to json_schema and request usage when streaming', () => {
+      const schema = { type: 'object', properties: { name: { type: 'string' } } };
+      const { body } = ollamaRequestToOpenAI(
+        'chat',
+        { model: 'm', messages: [], format: schema, options: { num_predict: -1 } },
+        true
+      );
+
+      expect(body.response_format).toEqual({
+        type: 'json_schema',
+        json_schema: { name: 'response', schema },
+      });
+      expect(body.stream_options).toEqual({ include_usage: true });
+      expect(body).not.toHaveProperty('max_tokens');
+    });
+
+    it('should give tool calls IDs and link tool results to them', () => {
+      const { body } = ollamaRequestToOpenAI(
+        'chat',
+        {
+          model: 'm',
+          messages: [
+            { role: 'user', content: 'weather in Paris and Rome?' },
+            {
+              role: 'assistant',
+              content: '',
+              tool_calls: [
+                { function: { name: 'get_weather', arguments: { city: 'Paris' } } },
+                { function: { name: 'get_time', arguments: { city: 'Rome' } } },
+              ],
+            },
+            { role: 'tool', content: '13:00', tool_name: 'get_time' },
+            { role: 'tool', content: 'sunny' },
+          ],
+          tools: [{ type: 'function', function: { name: 'get_weather' } }],
+        },
+        false
+      );
+      const messages = body.messages as any[];
+
+      expect(messages[1]).toEqual({
+        role: 'assistant',
+        content: null,
+        tool_calls: [
+          {
+            id: 'call_1_0',
+            type: 'function',
+            function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+          },
+          {
+            id: 'call_1_1',
+            type: 'function',
+            function: { name: 'get_time', arguments: '{"city":"Rome"}' },
+          },
+        ],
+      });
+      expect(messages[2]).toEqual({ role: 'tool', content: '13:00', tool_call_id: 'call_1_1' });
+      expect(messages[3]).toEqual({ role: 'tool', content: 'sunny', tool_call_id: 'call_1_0' });
+      expect(body.tools).toHaveLength(1);
+    });
+
+    it('should turn images into data URL content parts', () => {
+      const { body } = ollamaRequestToOpenAI(
+        'chat',
+        { model: 'm', messages: [{ role: 'user', content: 'what is this?', images: ['/9j/abc'] }] },
+        false
+      );
+
+      expect((body.messages as any[])[0].content).toEqual([
+        { type: 'text', text: 'what is this?' },
+        { type: 'image_url', image_url: { url: 'data:image/jpeg;base64,/9j/abc' } },
+      ]);
+    });
+
+    it('should send generate requests as chat with the system prompt', () => {
+      const { path, body } = ollamaRequestToOpenAI(
+        'generate',
+        { model: 'm', prompt: 'Say hi', system: 'Be terse' },
+        false
+      );
+
+      expect(path).toBe('/v1/chat/completions');
+      expect(body.messages).toEqual([
+        { role: 'system', content: 'Be terse' },
+        { role: 'user', content: 'Say hi' },
+      ]);
+    });
+
+    it('should send raw generate requests to the completions endpoint', () => {
+      const { path, body } = ollamaRequestToOpenAI(
+        'generate',
+        { model: 'm', prompt: '<s>[INST] hi', raw: true },
+        false
+      );
+
+      expect(path).toBe('/v1/completions');
+      expect(body.prompt).toBe('<s>[INST] hi');
+    });
+  });
+
+  describe('OpenAI responses to Ollama', () => {
+    it('should convert a chat completion with usage and tool calls', () => {
+      const startTime = Date.now() - 50;
+      const result = openAIResponseToOllama(
+        'chat',
+        {
+          choices: [
+            {
+              message: {
+                role: 'assistant',
+                content: null,
+                tool_calls: [
+                  {
+                    id: 'call_1',
+                    type: 'function',
+                    function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+                  },
+                ],
+              },
+              finish_reason: 'tool_calls',
+            },
+          ],
+          usage: { prompt_tokens: 12, completion_tokens: 8, total_tokens: 20 },
+        },
+        'llama3',
+        startTime
+      );
+
+      expect(result).toMatchObject({
+        model: 'llama3',
+        message: {
+          role: 'assistant',
+          content: '',
+          tool_calls: [{ function: { name: 'get_weather', arguments: { city: 'Paris' } } }],
+        },
+        done: true,
+        done_reason: 'stop',
+        prompt_eval_count: 12,
+        eval_count: 8,
+      });
+      expect(result.total_duration as number).toBeGreaterThanOrEqual(50 * 1_000_000);
+    });
+
+    it('should convert a truncated completion to a generate response', () => {
+      const result = openAIResponseToOllama(
+        'generate',
+        { choices: [{ text: 'Hello', finish_reason: 'length' }] },
+        'llama3',
+        Date.now()
+      );
+
+      expect(result).toMatchObject({ response: 'Hello', done: true, done_reason: 'length' });
+    });
+
+    it('should translate an SSE stream to NDJSON with usage in the final chunk', async () => {
+      const translated = openAIStreamToOllama(
+        sseResponse([
+          { choices: [{ delta: { role: 'assistant', content: '' } }] },
+          { choices: [{ delta: { content: 'Hel' } }] },
+          { choices: [{ delta: { content: 'lo' } }] },
+          { choices: [{ delta: {}, finish_reason: 'stop' }] },
+          { choices: [], usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 } },
+          '[DONE]',
+        ]),
+        'chat',
+        'llama3'
+      );
+      const chunks = await readNdjson(translated);
+
+      expect(translated.headers.get('content-type')).toBe('application/x-ndjson');
+      expect(chunks.map(c => c.message.content)).toEqual(['Hel', 'lo', '']);
+      expect(chunks.slice(0, 2).every(c => c.done === false)).toBe(true);
+      expect(chunks[2]).toMatchObject({
+        model: 'llama3',
+        done: true,
+        done_reason: 'stop',
+        prompt_eval_count: 3,
+        eval_count: 2,
+      });
+      expect(chunks[2].eval_duration).toBeDefined();
+    });
+
+    it('should assemble streamed tool call fragments into one tool call chunk', async () => {
+      const translated = openAIStreamToOllama(
+        sseResponse([
+          {
+            choices: [
+              {
+                delta: {
+                  tool_calls: [
+                    { index: 0, id: 'c1', function: { name: 'get_weather', arguments: '{"ci' } },
+                  ],
+                },
+              },
+            ],
+          },
+          {
+            choices: [
+              { delta: { tool_calls: [{ index: 0, function: { arguments: 'ty":"Oslo"}' } }] } },
+            ],
+          },
+          { choices: [{ delta: {}, finish_reason: 'tool_calls' }] },
+        ]),
+        'chat',
+        'llama3'
+      );
+      const chunks = await readNdjson(translated);
+
+      expect(chunks).toHaveLength(2);
+      expect(chunks[0].message.tool_calls).toEqual([
+        { function: { name: 'get_weather', arguments: { city: 'Oslo' } } },
+      ]);
+      expect(chunks[1].done).toBe(true);
+    });
+
+    it('should use the generate response field for generate streams', async () => {
+      const chunks = await readNdjson(
+        openAIStreamToOllama(
+          sseResponse([{ choices: [{ text: 'Hi', finish_reason: null }] }, '[DONE]']),
+          'generate',
+          'llama3'
+        )
+      );
+
+      expect(chunks[0]).toMatchObject({ response: 'Hi', done: false });
+      expect(chunks[1]).toMatchObject({ response: '', done: true });
+    });
+
+    it('should pass upstream stream errors on as Ollama errors', async () => {
+      const chunks = await readNdjson(
+        openAIStreamToOllama(sseResponse([{ error: { message: 'model overloaded' } }]), 'chat', 'm')
+      );
+
+      expect(chunks[0]).toEqual({
+        model: 'm',
+        created_at: expect.any(String),
+        error: 'model overloaded',
+      });
+    });
+  });
+
+  describe('OpenAI requests to Ollama', () => {
+    it('should map parameters, response_format and content parts onto /api/chat', () => {
+      const { path, body } = openAIRequestToOllama(
+        'chat',
+        {
+          model: 'llama3:latest',
+          messages: [
+            {
+              role: 'user',
+              content: [
+                { type: 'text', text: 'describe' },
+                { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo' } },
+                { type: 'image_url', image_url: { url: 'https://example.com/cat.png' } },
+              ],
+            },
+          ],
+          temperature: 0.5,
+          max_tokens: 100,
+          stop: 'END',
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'x', schema: { type: 'object' } },
+          },
+        },
+        true
+      );
+
+      expect(path).toBe('/api/chat');
+      expect(body).toEqual({
+        model: 'llama3:latest',
+        stream: true,
+        options: { temperature: 0.5, num_predict: 100, stop: ['END'] },
+        format: { type: 'object' },
+        messages: [{ role: 'user', content: 'describe', images: ['iVBORw0KGgo'] }],
+      });
+    });
+
+    it('should parse tool call arguments and name tool results', () => {
+      const { body } = openAIRequestToOllama(
+        'chat',
+        {
+          model: 'm',
+          messages: [
+            {
+              role: 'assistant',
+              content: null,
+              tool_calls: [
+                {
+                  id: 'call_9',
+                  type: 'function',
+                  function: { name: 'lookup', arguments: '{"id":3}' },
+                },
+              ],
+            },
+            { role: 'tool', tool_call_id: 'call_9', content: 'found' },
+          ],
+        },
+        false
+      );
+
+      expect(body.messages).toEqual([
+        {
+          role: 'assistant',
+          content: '',
+          tool_calls: [{ function: { name: 'lookup', arguments: { id: 3 } } }],
+        },
+        { role: 'tool', content: 'found', tool_name: 'lookup' },
+      ]);
+    });
+
+    it('should send completions to /api/generate with json mode', () => {
+      const { path, body } = openAIRequestToOllama(
+        'completions',
+        { model: 'm', prompt: ['first', 'second'], response_format: { type: 'json_object' } },
+        false
+      );
+
+      expect(path).toBe('/api/generate');
+      expect(body).toEqual({ model: 'm', stream: false, format: 'json', prompt: 'first' });
+    });
+
+    it('should convert Ollama chat responses with tool calls to OpenAI', () => {
+      const result = ollamaResponseToOpenAI(
+        'chat',
+        {
+          message: {
+            role: 'assistant',
+            content: '',
+            tool_calls: [{ function: { name: 'lookup', arguments: { id: 3 } } }],
+          },
+          done: true,
+          prompt_eval_count: 10,
+          eval_count: 4,
+        },
+        'chatcmpl-1',
+        'llama3'
+      );
+
+      expect(result).toMatchObject({
+        id: 'chatcmpl-1',
+        object: 'chat.completion',
+        model: 'llama3',
+        choices: [
+          {
+            message: {
+              role: 'assistant',
+              content: null,
+              tool_calls: [
+                {
+                  id: 'call_chatcmpl-1_0',
+                  type: 'function',
+                  function: { name: 'lookup', arguments: '{"id":3}' },
+                },
+              ],
+            },
+            finish_reason: 'tool_calls',
+          },
+        ],
+        usage: { prompt_tokens: 10, completion_tokens: 4, total_tokens: 14 },
+      });
+    });
+
+    it('should convert Ollama generate responses to text completions', () => {
+      const result = ollamaResponseToOpenAI(
+        'completions',
+        { response: 'Hi', done: true, done_reason: 'length', eval_count: 1 },
+        'cmpl-1',
+        'llama3'
+      );
+
+      expect(result).toMatchObject({
+        object: 'text_completion',
+        choices: [{ text: 'Hi', finish_reason: 'length' }],
+        usage: { prompt_tokens: 0, completion_tokens: 1, total_tokens: 1 },
+      });
+    });
+  });
+
+  describe('AIOrchestrator routing', () => {
+    let orchestrator: AIOrchestrator;
+
+    const route = (model: string, capability: 'ollama' | 'openai'): Promise<string> =>
+      orchestrator.tryRequestWithFailover(
+        model,
+        async server => server.id,
+        false,
+        'generate',
+        capability
+      );
+
+    beforeEach(() => {
+      setConfigManager(new ConfigManager());
+      orchestrator = createTestOrchestrator([
+        {
+          id: 'vllm',
+          url: 'http://vllm:8000',
+          type: 'openai',
+          supportsOllama: false,
+          supportsV1: true,
+          models: [],
+          v1Models: ['qwen2.5-7b'],
+        },
+        { id: 'ollama', supportsOllama: true, supportsV1: false, models: ['llama3:latest'] },
+      ]);
+    });
+
+    afterEach(async () => {
+      vi.unstubAllGlobals();
+      await orchestrator.shutdown();
+      setConfigManager(new ConfigManager());
+    });
+
+    it('should route Ollama requests to an OpenAI-only server', async () => {
+      await expect(route('qwen2.5-7b', 'ollama')).resolves.toBe('vllm');
+    });
+
+    it('should route OpenAI requests to an Ollama-only server', async () => {
+      await expect(route('llama3', 'openai')).resolves.toBe('ollama');
+    });
+
+    it('should list each server in the other protocol model list', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(
+          async () =>
+            new Response(JSON.stringify({ models: [{ name: 'llama3:latest' }] }), {
+              headers: { 'Content-Type': 'application/json' },
+            })
+        )
+      );
+      const tags = await orchestrator.getAggregatedTags();
+      const models = orchestrator.getAggregatedOpenAIModels();
+
+      expect(tags.models.map(m => m.name)).toEqual(['llama3:latest', 'qwen2.5-7b']);
+      expect(models.data.map(m => m.id)).toEqual(['qwen2.5-7b', 'llama3:latest']);
+    });
+
+    it('should keep servers to their own protocol when translation is disabled', async () => {
+      getConfigManager().updateConfig({ enableProtocolTranslation: false });
+
+      await expect(route('qwen2.5-7b', 'ollama')).rejects.toThrow(
+        "Model 'qwen2.5-7b' not found on any ollama server"
+      );
+      await expect(route('llama3', 'openai')).rejects.toThrow(
+        "Model 'llama3' not found on any openai server"
+      );
+      expect(orchestrator.getAggregatedOpenAIModels().data.map(m => m.id)).toEqual(['qwen2.5-7b']);
+    });
+  });
+});
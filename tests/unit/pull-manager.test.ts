@@ -0,0 +1,339 @@
+/**
+ * pull-manager.test.ts
+ * Tests for fleet-wide model pulls: aggregated progress, failures, cancellation, resuming
+ * after a restart and the /api/pull progress stream
+ */
+
+import fs from 'fs';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+
+import express from 'express';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { DEFAULT_CONFIG } from '../../src/config/config.js';
+import { handlePull } from '../../src/controllers/serverModelsController.js';
+import { getOrchestratorInstance } from '../../src/orchestrator-instance.js';
+import type { AIServer } from '../../src/orchestrator.types.js';
+import {
+  createPullExecutor,
+  PullManager,
+  resetPullManager,
+  setPullManager,
+  type PullExecutor,
+  type PullJob,
+} from '../../src/pull-manager.js';
+
+vi.mock('../../src/orchestrator-instance.js');
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: { info: vi.fn(), error: vi.fn(), debug: vi.fn(), warn: vi.fn() },
+}));
+
+const createTestServer = (id: string, overrides: Partial<AIServer> = {}): AIServer => ({
+  id,
+  url: `http://${id}:11434`,
+  type: 'ollama',
+  healthy: true,
+  lastResponseTime: 100,
+  models: [],
+  ...overrides,
+});
+
+async function waitFor(check: () => boolean, timeoutMs = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+/**
+ * Executor whose pulls report one layer and then wait until the test settles them
+ */
+function createControlledExecutor(): {
+  execute: PullExecutor;
+  started: string[];
+  succeed: (serverId: string) => void;
+  fail: (serverId: string, message: string) => void;
+} {
+  const pending = new Map<string, { resolve: () => void; reject: (error: Error) => void }>();
+  const started: string[] = [];
+  const execute: PullExecutor = (server, _model, signal, onProgress) =>
+    new Promise<void>((resolve, reject) => {
+      started.push(server.id);
+      onProgress({ status: 'pulling manifest' });
+      onProgress({ status: 'pulling abc', digest: 'sha256:abc', total: 1000, completed: 250 });
+      pending.set(server.id, {
+        resolve: () => {
+          onProgress({ status: 'success' });
+          resolve();
+        },
+        reject,
+      });
+      signal.addEventListener('abort', () => reject(new Error('Pull cancelled')));
+    });
+  return {
+    execute,
+    started,
+    succeed: serverId => pending.get(serverId)?.resolve(),
+    fail: (serverId, message) => pending.get(serverId)?.reject(new Error(message)),
+  };
+}
+
+describe('Pull Manager Tests', () => {
+  let tempDir: string;
+  let servers: AIServer[];
+  let refreshServer: ReturnType<typeof vi.fn>;
+
+  const createManager = (execute: PullExecutor): PullManager =>
+    new PullManager({
+      dir: path.join(tempDir, 'pulls'),
+      execute,
+      getServers: () => servers,
+      refreshServer,
+      getConfig: () => DEFAULT_CONFIG.pulls,
+    });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pulls-test-'));
+    servers = [createTestServer('gpu-1'), createTestServer('gpu-2'), createTestServer('cpu-1')];
+    refreshServer = vi.fn().mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    resetPullManager();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('PullManager', () => {
+    it('should pull onto each server with aggregated byte progress', async () => {
+      const executor = createControlledExecutor();
+      const manager = createManager(executor.execute);
+      const updates: PullJob[] = [];
+
+      const job = manager.create('llama3', servers.slice(0, 2));
+      manager.subscribe(job.id, update => updates.push(update));
+      await waitFor(() => executor.started.length === 2);
+
+      expect(manager.get(job.id)).toMatchObject({
+        status: 'running',
+        completed: 500,
+        total: 2000,
+        servers: [
+          { serverId: 'gpu-1', status: 'pulling', completed: 250, total: 1000 },
+          { serverId: 'gpu-2', status: 'pulling', completed: 250, total: 1000 },
+        ],
+      });
+
+      executor.succeed('gpu-1');
+      executor.succeed('gpu-2');
+      await waitFor(() => manager.get(job.id)?.status !== 'running');
+
+      expect(manager.get(job.id)).toMatchObject({ status: 'completed', completed: 2000 });
+      expect(refreshServer).toHaveBeenCalledTimes(2);
+      expect(updates[updates.length - 1].status).toBe('completed');
+    });
+
+    it('should reuse an unfinished job for the same model and servers', () => {
+      const manager = createManager(createControlledExecutor().execute);
+
+      const first = manager.create('llama3', servers);
+      const second = manager.create('llama3', [...servers].reverse());
+
+      expect(second.id).toBe(first.id);
+      expect(manager.create('mistral', servers).id).not.toBe(first.id);
+      manager.cancel(first.id);
+    });
+
+    it('should fail the job when a server fails, keeping the other pulls', async () => {
+      const executor = createControlledExecutor();
+      const manager = createManager(executor.execute);
+
+      const job = manager.create('llama3', servers.slice(0, 2));
+      await waitFor(() => executor.started.length === 2);
+      executor.fail('gpu-2', 'disk full');
+      executor.succeed('gpu-1');
+      await waitFor(() => manager.get(job.id)?.status !== 'running');
+
+      expect(manager.get(job.id)).toMatchObject({
+        status: 'failed',
+        servers: [
+          { serverId: 'gpu-1', status: 'completed' },
+          { serverId: 'gpu-2', status: 'failed', error: 'disk full' },
+        ],
+      });
+      expect(refreshServer).toHaveBeenCalledTimes(1);
+    });
+
+    it('should abort pulls in progress and skip pending ones on cancel', async () => {
+      const executor = createControlledExecutor();
+      const manager = new PullManager({
+        dir: path.join(tempDir, 'pulls'),
+        execute: executor.execute,
+        getServers: () => servers,
+        refreshServer,
+        getConfig: () => ({ ...DEFAULT_CONFIG.pulls, concurrency: 1 }),
+      });
+
+      const job = manager.create('llama3', servers);
+      await waitFor(() => executor.started.length === 1);
+      manager.cancel(job.id);
+      await waitFor(() => manager.get(job.id)?.finishedAt !== undefined);
+
+      expect(manager.get(job.id)?.status).toBe('cancelled');
+      expect(manager.get(job.id)?.servers.map(server => server.status)).toEqual([
+        'cancelled',
+        'cancelled',
+        'cancelled',
+      ]);
+      expect(executor.started).toHaveLength(1);
+    });
+
+    it('should resume unfinished pulls after a restart', async () => {
+      const first = createControlledExecutor();
+      const manager = createManager(first.execute);
+      const job = manager.create('llama3', servers.slice(0, 2));
+      await waitFor(() => first.started.length === 2);
+      first.succeed('gpu-1');
+      await waitFor(() => manager.get(job.id)?.servers[0].status === 'completed');
+      await manager.stop();
+
+      const second = createControlledExecutor();
+      const restarted = createManager(second.execute);
+      restarted.start();
+      await waitFor(() => second.started.length === 1);
+      second.succeed('gpu-2');
+      await waitFor(() => restarted.get(job.id)?.status !== 'running');
+
+      expect(second.started).toEqual(['gpu-2']);
+      expect(restarted.get(job.id)?.status).toBe('completed');
+    });
+  });
+
+  describe('createPullExecutor', () => {
+    let ollama: Server;
+    let lines: string[];
+
+    beforeEach(async () => {
+      ollama = createServer((req, res) => {
+        res.setHeader('Content-Type', 'application/x-ndjson');
+        res.end(lines.map(line => `${line}\n`).join(''));
+      });
+      await new Promise<void>(resolve => ollama.listen(0, '127.0.0.1', () => resolve()));
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => ollama.close(resolve));
+    });
+
+    const pull = (onProgress = vi.fn()): Promise<void> =>
+      createPullExecutor(() => 5000)(
+        createTestServer('local', {
+          url: `http://127.0.0.1:${(ollama.address() as AddressInfo).port}`,
+        }),
+        'llama3',
+        new AbortController().signal,
+        onProgress
+      );
+
+    it('should report streamed progress until the server reports success', async () => {
+      lines = [
+        '{"status":"pulling manifest"}',
+        '{"status":"pulling abc","digest":"sha256:abc","total":10,"completed":10}',
+        '{"status":"success"}',
+      ];
+      const onProgress = vi.fn();
+
+      await pull(onProgress);
+
+      expect(onProgress).toHaveBeenCalledTimes(3);
+      expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ digest: 'sha256:abc' }));
+    });
+
+    it('should reject error lines and streams that end early', async () => {
+      lines = ['{"status":"pulling manifest"}', '{"error":"pull model manifest: not found"}'];
+      await expect(pull()).rejects.toThrow('pull model manifest: not found');
+
+      lines = ['{"status":"pulling manifest"}'];
+      await expect(pull()).rejects.toThrow('ended before the server reported success');
+    });
+  });
+
+  describe('handlePull', () => {
+    let app: Server;
+    let baseUrl: string;
+    let executor: ReturnType<typeof createControlledExecutor>;
+
+    beforeEach(async () => {
+      executor = createControlledExecutor();
+      setPullManager(createManager(executor.execute));
+      vi.mocked(getOrchestratorInstance).mockReturnValue({
+        getServers: () => servers,
+      } as unknown as ReturnType<typeof getOrchestratorInstance>);
+
+      const expressApp = express();
+      expressApp.use(express.json());
+      expressApp.post('/api/pull', handlePull);
+      app = createServer(expressApp);
+      await new Promise<void>(resolve => app.listen(0, '127.0.0.1', () => resolve()));
+      baseUrl = `http://127.0.0.1:${(app.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => app.close(resolve));
+    });
+
+    const post = (body: unknown) =>
+      fetch(`${baseUrl}/api/pull`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+    it('should stream NDJSON progress ending in success', async () => {
+      const response = post({ name: 'Llama3', servers: ['gpu-*'] });
+      await waitFor(() => executor.started.length === 2);
+      executor.succeed('gpu-1');
+      executor.succeed('gpu-2');
+
+      const res = await response;
+      const events = (await res.text())
+        .trim()
+        .split('\n')
+        .map(line => JSON.parse(line) as Record<string, unknown>);
+
+      expect(res.headers.get('content-type')).toContain('application/x-ndjson');
+      expect(events[0]).toMatchObject({ status: 'pulling llama3', model: 'llama3' });
+      expect(events[events.length - 1]).toMatchObject({
+        status: 'success',
+        completed: 2000,
+        total: 2000,
+        servers: [
+          { serverId: 'gpu-1', status: 'completed' },
+          { serverId: 'gpu-2', status: 'completed' },
+        ],
+      });
+    });
+
+    it('should reply once the pull finishes when not streaming', async () => {
+      const response = post({ model: 'llama3', servers: ['cpu-1'], stream: false });
+      await waitFor(() => executor.started.length === 1);
+      executor.fail('cpu-1', 'disk full');
+
+      const res = await response;
+      expect(res.status).toBe(500);
+      expect(await res.json()).toMatchObject({ error: 'Pull failed on cpu-1: disk full' });
+    });
+
+    it('should reject requests without a model or with unknown servers', async () => {
+      expect((await post({ servers: 'all' })).status).toBe(400);
+      expect(await (await post({ model: 'llama3', servers: ['nope'] })).json()).toEqual({
+        error: "Server 'nope' not found",
+      });
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { ConfigManager, DEFAULT_CONFIG, setConfigManager } from '../../src/config/config.js';
+import { LoadBalancer } from '../../src/load-balancer.js';
+import type { AIServer } from '../../src/orchestrator.types.js';
+import { RequestHistory } from '../../src/request-history.js';
+import {
+  PRIORITY_HEADER,
+  parsePriority,
+  resolveRequestPriority,
+} from '../../src/utils/request-priority.js';
+import { RequestQueue } from '../../src/utils/request-queue.js';
+import { createRequest } from '../utils/test-helpers.js';
+
+describe('parsePriority', () => {
+  it('should accept class names and aliases case-insensitively', () => {
+    expect(parsePriority('HIGH')).toBe('high');
+    expect(parsePriority('interactive')).toBe('high');
+    expect(parsePriority('default')).toBe('normal');
+    expect(parsePriority(' batch ')).toBe('low');
+  });
+
+  it('should reject unknown values', () => {
+    expect(parsePriority('urgent')).toBeUndefined();
+    expect(parsePriority(undefined)).toBeUndefined();
+    expect(parsePriority(['high'])).toBeUndefined();
+  });
+});
+
+describe('resolveRequestPriority', () => {
+  beforeEach(() => {
+    setConfigManager(
+      new ConfigManager({
+        security: {
+          ...DEFAULT_CONFIG.security,
+          defaultPriority: 'normal',
+          apiKeyPriorities: { 'interactive-key': 'high', 'batch-key': 'low' },
+        },
+      })
+    );
+  });
+
+  afterEach(() => {
+    setConfigManager(new ConfigManager());
+  });
+
+  it('should fall back to the configured default priority', () => {
+    expect(resolveRequestPriority(createRequest())).toBe('normal');
+  });
+
+  it('should use the priority header when no key priority applies', () => {
+    expect(resolveRequestPriority(createRequest({ [PRIORITY_HEADER]: 'low' }))).toBe('low');
+    expect(resolveRequestPriority(createRequest({ [PRIORITY_HEADER]: 'high' }))).toBe('high');
+  });
+
+  it('should apply the API key priority', () => {
+    expect(resolveRequestPriority(createRequest({ authorization: 'Bearer interactive-key' }))).toBe(
+      'high'
+    );
+    expect(resolveRequestPriority(createRequest({ 'x-api-key': 'batch-key' }))).toBe('low');
+  });
+
+  it('should let the header lower but never raise the key priority', () => {
+    expect(
+      resolveRequestPriority(
+        createRequest({ 'x-api-key': 'interactive-key', [PRIORITY_HEADER]: 'batch' })
+      )
+    ).toBe('low');
+    expect(
+      resolveRequestPriority(createRequest({ 'x-api-key': 'batch-key', [PRIORITY_HEADER]: 'high' }))
+    ).toBe('low');
+  });
+});
+
+describe('RequestQueue priority shedding', () => {
+  let queue: RequestQueue;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    queue = new RequestQueue({
+      ...DEFAULT_CONFIG.queue,
+      maxSize: 4,
+      lowPriorityShedThreshold: 0.5,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should refuse low-priority work past the shed threshold', async () => {
+    void queue.enqueue('llama3', { priority: 'low' });
+    void queue.enqueue('llama3', { priority: 'normal' });
+
+    await expect(queue.enqueue('llama3', { priority: 'low' })).rejects.toThrow(
+      /shed.*at max concurrency/
+    );
+    void queue.enqueue('llama3', { priority: 'normal' });
+    expect(queue.getStats(true)).toMatchObject({
+      size: 3,
+      byPriority: { high: 0, normal: 2, low: 1 },
+      totalShed: 1,
+    });
+  });
+
+  it('should evict the newest lowest-priority waiter to admit higher-priority work', async () => {
+    let firstReleased = false;
+    let evictedError: Error | undefined;
+    void queue.enqueue('llama3', { priority: 'normal' }).then(() => {
+      firstReleased = true;
+    });
+    queue.enqueue('llama3', { priority: 'normal' }).catch((error: Error) => {
+      evictedError = error;
+    });
+    void queue.enqueue('llama3', { priority: 'high' });
+    void queue.enqueue('llama3', { priority: 'high' });
+
+    void queue.enqueue('llama3', { priority: 'high' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(evictedError?.message).toMatch(/shed from full queue/);
+    expect(queue.getStats(true).byPriority).toEqual({ high: 3, normal: 1, low: 0 });
+
+    queue.release();
+    queue.release();
+    queue.release();
+    queue.release();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(firstReleased).toBe(true);
+  });
+
+  it('should reject an incoming request that does not outrank any waiter', async () => {
+    for (let i = 0; i < 4; i++) {
+      void queue.enqueue('llama3', { priority: 'high' });
+    }
+
+    await expect(queue.enqueue('llama3', { priority: 'high' })).rejects.toThrow(/queue full/);
+    expect(queue.getStats(true).totalRejected).toBe(1);
+  });
+});
+
+describe('LoadBalancer priority tie-break', () => {
+  const createServer = (id: string): AIServer => ({
+    id,
+    url: `http://${id}:11434`,
+    type: 'ollama',
+    healthy: true,
+    lastResponseTime: 100,
+    models: ['llama3:latest'],
+    maxConcurrency: 4,
+  });
+
+  const servers = [createServer('a'), createServer('b'), createServer('c')];
+  const load: Record<string, number> = { a: 1, b: 0, c: 3 };
+
+  const select = (priority?: 'high' | 'normal' | 'low'): string | undefined => {
+    const lb = new LoadBalancer({ algorithm: 'fastest-response' } as any);
+    return lb.select(
+      servers,
+      'llama3:latest',
+      () => 0,
+      serverId => load[serverId],
+      () => undefined,
+      false,
+      undefined,
+      undefined,
+      undefined,
+      priority
+    )?.id;
+  };
+
+  it('should keep the algorithm choice for normal priority', () => {
+    expect(select('normal')).toBe(select());
+  });
+
+  it('should send high priority to the least-loaded tied server', () => {
+    expect(select('high')).toBe('b');
+  });
+
+  it('should pack low priority onto the busiest tied server with room', () => {
+    expect(select('low')).toBe('c');
+  });
+});
+
+describe('RequestHistory priority stats', () => {
+  it('should aggregate per priority class, counting unset priority as normal', () => {
+    const history = new RequestHistory({ enablePersistence: false });
+    const base = {
+      startTime: Date.now(),
+      serverId: 'server-1',
+      model: 'llama3:latest',
+      endpoint: 'generate' as const,
+      streaming: false,
+    };
+
+    history.recordRequest({ ...base, id: '1', priority: 'high', duration: 100, success: true });
+    history.recordRequest({ ...base, id: '2', priority: 'low', duration: 900, success: false });
+    history.recordRequest({ ...base, id: '3', duration: 300, success: true });
+
+    const stats = history.getPriorityStats();
+    expect(stats.high).toMatchObject({ count: 1, avgDuration: 100, errorRate: 0 });
+    expect(stats.low).toMatchObject({ count: 1, avgDuration: 900, errorRate: 1 });
+    expect(stats.normal.count).toBe(1);
+
+    expect(history.searchRequests({ priority: 'low' }).map(r => r.id)).toEqual(['2']);
+    expect(history.searchRequests({ priority: 'normal' }).map(r => r.id)).toEqual(['3']);
+  });
+});
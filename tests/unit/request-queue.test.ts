@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { AIOrchestrator } from '../../src/orchestrator.js';
+import { ConcurrencySaturatedError, RequestQueue } from '../../src/utils/request-queue.js';
+import { createTestOrchestrator } from '../utils/test-helpers.js';
+
+const queueConfig = {
+  maxSize: 3,
+  timeout: 10000,
+  priorityBoostInterval: 1000,
+  priorityBoostAmount: 5,
+  maxPriority: 100,
+  lowPriorityShedThreshold: 1,
+};
+
+describe('RequestQueue', () => {
+  let queue: RequestQueue;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    queue = new RequestQueue(queueConfig);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should release waiters in priority order, FIFO among equals', async () => {
+    const order: string[] = [];
+    const low = queue.enqueue('llama3', { priority: 'low' }).then(() => order.push('low'));
+    const high = queue.enqueue('llama3', { priority: 'high' }).then(() => order.push('high'));
+    const low2 = queue.enqueue('llama3', { priority: 'low' }).then(() => order.push('low2'));
+
+    queue.release();
+    queue.release();
+    queue.release();
+    await Promise.all([low, high, low2]);
+
+    expect(order).toEqual(['high', 'low', 'low2']);
+  });
+
+  it('should age priority upward and cap at maxPriority', () => {
+    const now = Date.now();
+    const entry = { basePriority: 2, enqueuedAt: now };
+
+    expect(queue.getEffectivePriority(entry, now)).toBe(2);
+    expect(queue.getEffectivePriority(entry, now + 999)).toBe(2);
+    expect(queue.getEffectivePriority(entry, now + 2000)).toBe(12);
+    expect(queue.getEffectivePriority(entry, now + 600000)).toBe(100);
+  });
+
+  it('should let an aged request overtake a newer higher-priority one', async () => {
+    const order: string[] = [];
+    const old = queue
+      .enqueue('llama3', { priority: 'low', enqueuedAt: Date.now() - 6000 })
+      .then(() => order.push('old'));
+    const fresh = queue.enqueue('llama3', { priority: 'normal' }).then(() => order.push('fresh'));
+
+    queue.release();
+    queue.release();
+    await Promise.all([old, fresh]);
+
+    expect(order).toEqual(['old', 'fresh']);
+  });
+
+  it('should only release waiters the freed server can serve', async () => {
+    const released: string[] = [];
+    void queue.enqueue('llama3').then(() => released.push('llama3'));
+    void queue.enqueue('mistral').then(() => released.push('mistral'));
+
+    expect(queue.release(model => model === 'mistral')).toBe(true);
+    expect(queue.release(model => model === 'qwen')).toBe(false);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(released).toEqual(['mistral']);
+    expect(queue.getDepthByModel()).toEqual({ llama3: 1 });
+  });
+
+  it('should reject when the queue is full', async () => {
+    void queue.enqueue('llama3');
+    void queue.enqueue('llama3');
+    void queue.enqueue('mistral');
+
+    const rejected = queue.enqueue('llama3');
+    await expect(rejected).rejects.toThrow(/queue full.*at max concurrency/);
+    await expect(rejected).rejects.toMatchObject({ reason: 'full' });
+    expect(queue.getStats(true)).toMatchObject({
+      size: 3,
+      maxSize: 3,
+      byModel: { llama3: 2, mistral: 1 },
+      byPriority: { high: 0, normal: 3, low: 0 },
+      totalQueued: 3,
+      totalRejected: 1,
+      totalShed: 0,
+    });
+  });
+
+  it('should time out against the original enqueue time', async () => {
+    const enqueuedAt = Date.now() - 9500;
+    const pending = queue.enqueue('llama3', { enqueuedAt });
+    const assertion = expect(pending).rejects.toMatchObject({
+      name: 'ConcurrencySaturatedError',
+      reason: 'timeout',
+    });
+
+    await vi.advanceTimersByTimeAsync(500);
+
+    await assertion;
+    expect(queue.size()).toBe(0);
+    expect(queue.getStats(true).totalTimedOut).toBe(1);
+  });
+
+  it('should wake the head waiter after a boost interval to re-check capacity', async () => {
+    const woke: string[] = [];
+    void queue.enqueue('llama3', { priority: 'low' }).then(() => woke.push('low'));
+    void queue.enqueue('llama3', { priority: 'high' }).then(() => woke.push('high'));
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(woke).toEqual(['high']);
+    expect(queue.size()).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(woke).toEqual(['high', 'low']);
+    expect(queue.size()).toBe(0);
+  });
+
+  it('should not shed or recount a low-priority request that re-enters the queue', async () => {
+    queue = new RequestQueue({ ...queueConfig, lowPriorityShedThreshold: 0.5 });
+    const enqueuedAt = Date.now();
+    const woken = queue.enqueue('mistral', { priority: 'low' });
+
+    // The recheck wakes it, more requests arrive, and it finds no capacity and re-enters
+    // the queue above the shed threshold
+    await vi.advanceTimersByTimeAsync(1000);
+    await woken;
+    void queue.enqueue('llama3');
+    void queue.enqueue('llama3');
+    const requeued = queue.enqueue('mistral', { priority: 'low', enqueuedAt });
+    queue.release(model => model === 'mistral');
+
+    await expect(requeued).resolves.toBeUndefined();
+    expect(queue.getStats(true)).toMatchObject({
+      totalQueued: 3,
+      totalShed: 0,
+      totalRejected: 0,
+    });
+  });
+
+  it('should reject when the client aborts', async () => {
+    const controller = new AbortController();
+    const pending = queue.enqueue('llama3', { signal: controller.signal });
+
+    controller.abort();
+
+    await expect(pending).rejects.toThrow('Request aborted');
+    expect(queue.size()).toBe(0);
+  });
+});
+
+describe('AIOrchestrator admission queue', () => {
+  let orchestrator: AIOrchestrator;
+
+  const createOrchestrator = (enableQueue: boolean): AIOrchestrator =>
+    createTestOrchestrator(
+      [
+        {
+          id: 'server-1',
+          url: 'http://localhost:11434',
+          maxConcurrency: 1,
+          models: ['llama3:latest'],
+        },
+      ],
+      { enableQueue, queue: queueConfig }
+    );
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    await orchestrator.shutdown();
+  });
+
+  it('should queue a saturated request and run it when a slot frees up', async () => {
+    orchestrator = createOrchestrator(true);
+    orchestrator.incrementInFlight('server-1', 'llama3:latest');
+
+    const pending = orchestrator.tryRequestWithFailover('llama3:latest', async server => server.id);
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(orchestrator.getStats().queue).toMatchObject({
+      enabled: true,
+      size: 1,
+      byModel: { 'llama3:latest': 1 },
+    });
+
+    orchestrator.decrementInFlight('server-1', 'llama3:latest');
+
+    await expect(pending).resolves.toBe('server-1');
+    expect(orchestrator.getQueueStats().size).toBe(0);
+  });
+
+  it('should fail immediately when the queue is disabled', async () => {
+    orchestrator = createOrchestrator(false);
+    orchestrator.incrementInFlight('server-1', 'llama3:latest');
+
+    await expect(
+      orchestrator.tryRequestWithFailover('llama3:latest', async server => server.id)
+    ).rejects.toThrow(ConcurrencySaturatedError);
+    expect(orchestrator.getQueueStats().totalQueued).toBe(0);
+  });
+});
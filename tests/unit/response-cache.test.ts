@@ -0,0 +1,331 @@
+/**
+ * response-cache.test.ts
+ * Tests for the deterministic response cache: keys, expiry and eviction, opt-in, replay of
+ * cached JSON, NDJSON and SSE responses through the middleware, and fallback answers
+ */
+
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+
+import express, { type Request, type Response } from 'express';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+
+import {
+  ConfigManager,
+  DEFAULT_CONFIG,
+  setConfigManager,
+  type ResponseCacheConfig,
+} from '../../src/config/config.js';
+import { optionalAuth } from '../../src/middleware/auth.js';
+import { responseCache } from '../../src/middleware/responseCache.js';
+import { getOrchestratorInstance } from '../../src/orchestrator-instance.js';
+import { getRequestHistory, RESPONSE_CACHE_SERVER_ID } from '../../src/request-history.js';
+import {
+  isDeterministicRequest,
+  parseCapturedStream,
+  resetResponseCache,
+  resolveResponseCacheMode,
+  ResponseCache,
+  normalizedRequestKey,
+  setResponseCache,
+  shareRoutingContext,
+} from '../../src/utils/response-cache.js';
+import { createRequest } from '../utils/test-helpers.js';
+
+vi.mock('../../src/orchestrator-instance.js');
+
+const cacheConfig = (overrides: Partial<ResponseCacheConfig> = {}): ResponseCacheConfig => ({
+  ...DEFAULT_CONFIG.responseCache,
+  ...overrides,
+});
+
+describe('Response Cache Tests', () => {
+  describe('ResponseCache', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should expire entries after ttlMs and report their age', () => {
+      vi.useFakeTimers();
+      const cache = new ResponseCache(cacheConfig({ ttlMs: 1000 }));
+      cache.set('a', { format: 'json', body: { response: 'hi' } });
+
+      vi.advanceTimersByTime(600);
+      expect(cache.get('a')).toEqual({ format: 'json', body: { response: 'hi' }, ageMs: 600 });
+
+      vi.advanceTimersByTime(400);
+      expect(cache.get('a')).toBeUndefined();
+      expect(cache.getStats().entries).toBe(0);
+    });
+
+    it('should evict the least recently used entries beyond maxEntries or maxSizeBytes', () => {
+      const cache = new ResponseCache(cacheConfig({ maxEntries: 2 }));
+      cache.set('a', { format: 'json', body: 1 });
+      cache.set('b', { format: 'json', body: 2 });
+      cache.get('a');
+      cache.set('c', { format: 'json', body: 3 });
+
+      expect(cache.get('b')).toBeUndefined();
+      expect(cache.get('a')?.body).toBe(1);
+
+      const small = new ResponseCache(cacheConfig({ maxSizeBytes: 10 }));
+      expect(small.set('big', { format: 'json', body: 'x'.repeat(20) })).toBe(false);
+      small.set('a', { format: 'json', body: '1234' });
+      small.set('b', { format: 'json', body: '5678' });
+      expect(small.getStats()).toMatchObject({ entries: 1, sizeBytes: 6, evictions: 1 });
+    });
+  });
+
+  describe('request keys and opt-in', () => {
+    it('should key on the normalized body, the model digest and streaming', () => {
+      const body = { model: 'llama3', prompt: 'hi', options: { temperature: 0, seed: 1 } };
+      const key = normalizedRequestKey('ollama:generate', 'llama3:latest', 'abc', body);
+
+      expect(
+        normalizedRequestKey('ollama:generate', 'llama3:latest', 'abc', {
+          options: { seed: 1, temperature: 0 },
+          keep_alive: '5m',
+          stream: false,
+          prompt: 'hi',
+        })
+      ).toBe(key);
+      expect(normalizedRequestKey('ollama:generate', 'llama3:latest', 'def', body)).not.toBe(key);
+      expect(
+        normalizedRequestKey('ollama:generate', 'llama3:latest', 'abc', { ...body, stream: true })
+      ).not.toBe(key);
+    });
+
+    it('should keep the requests of different API key owners apart', () => {
+      const body = { model: 'llama3', prompt: 'hi', options: { temperature: 0 } };
+      const keyFor = (owner?: string) =>
+        normalizedRequestKey('ollama:generate', 'llama3:latest', 'abc', body, owner);
+
+      expect(keyFor('owner-a')).toBe(keyFor('owner-a'));
+      expect(keyFor('owner-a')).not.toBe(keyFor('owner-b'));
+      expect(keyFor('owner-a')).not.toBe(keyFor());
+    });
+
+    it('should only treat temperature 0 or a fixed seed as repeatable', () => {
+      expect(isDeterministicRequest({ options: { temperature: 0 } }, 'ollama')).toBe(true);
+      expect(isDeterministicRequest({ options: { seed: 42, temperature: 0.8 } }, 'ollama')).toBe(
+        true
+      );
+      expect(isDeterministicRequest({ temperature: 0 }, 'ollama')).toBe(false);
+      expect(isDeterministicRequest({ seed: 42 }, 'openai')).toBe(true);
+      expect(isDeterministicRequest({ temperature: 0.7 }, 'openai')).toBe(false);
+    });
+
+    it('should opt in through the header or an API key, with the header winning', () => {
+      setConfigManager(
+        new ConfigManager({
+          security: { ...DEFAULT_CONFIG.security, responseCacheApiKeys: ['eval-key'] },
+        })
+      );
+      try {
+        expect(resolveResponseCacheMode(createRequest())).toBeUndefined();
+        expect(resolveResponseCacheMode(createRequest({ 'x-orchestrator-cache': 'use' }))).toBe(
+          'use'
+        );
+        expect(resolveResponseCacheMode(createRequest({ 'x-api-key': 'eval-key' }))).toBe('use');
+        expect(
+          resolveResponseCacheMode(
+            createRequest({ 'x-api-key': 'eval-key', 'x-orchestrator-cache': 'bypass' })
+          )
+        ).toBe('bypass');
+      } finally {
+        setConfigManager(new ConfigManager());
+      }
+    });
+  });
+
+  describe('parseCapturedStream', () => {
+    it('should only accept NDJSON streams that finished without an error', () => {
+      const lines = ['{"response":"a","done":false}', '{"response":"","done":true}'];
+
+      expect(parseCapturedStream('ndjson', `${lines.join('\n')}\n`)).toEqual([
+        { response: 'a', done: false },
+        { response: '', done: true },
+      ]);
+      expect(parseCapturedStream('ndjson', `${lines[0]}\n`)).toBeUndefined();
+      expect(parseCapturedStream('ndjson', `${lines[0]}\n{"error":"boom"}\n`)).toBeUndefined();
+    });
+
+    it('should only accept SSE streams that reached [DONE]', () => {
+      const events = 'data: {"id":"1","choices":[]}\n\ndata: {"id":"2","choices":[]}\n\n';
+
+      expect(parseCapturedStream('sse', `${events}data: [DONE]\n\n`)).toEqual([
+        { id: '1', choices: [] },
+        { id: '2', choices: [] },
+      ]);
+      expect(parseCapturedStream('sse', events)).toBeUndefined();
+    });
+  });
+
+  describe('responseCache middleware', () => {
+    let server: Server;
+    let baseUrl: string;
+    const handler = vi.fn((req: Request, res: Response) => {
+      const body = req.body as { stream?: boolean };
+      if (req.path === '/chat/completions') {
+        if (!body.stream) {
+          res.json({ id: 'chatcmpl-1', choices: [{ message: { content: 'hi' } }] });
+          return;
+        }
+        res.setHeader('Content-Type', 'text/event-stream');
+        res.write('data: {"id":"chatcmpl-1","choices":[{"delta":{"content":"hi"}}]}\n\n');
+        res.write('data: [DONE]\n\n');
+        res.end();
+        return;
+      }
+      if (body.model === 'degraded-model') {
+        // The orchestrator fell back to another model
+        shareRoutingContext(res, { degradedFrom: 'degraded-model', servedModel: 'llama3' });
+      }
+      if (!body.stream) {
+        res.json({ model: 'llama3', response: 'hi', done: true });
+        return;
+      }
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.write(Buffer.from('{"response":"h","done":false}\n{"respo'));
+      res.write(Buffer.from('nse":"i","done":false}\n'));
+      res.write(Buffer.from('{"response":"","done":true}\n'));
+      res.end();
+    });
+
+    const post = (path: string, body: unknown, headers: Record<string, string> = {}) =>
+      fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Orchestrator-Cache': 'use', ...headers },
+        body: JSON.stringify(body),
+      });
+
+    beforeAll(async () => {
+      const app = express();
+      app.use(express.json());
+      app.post('/generate', responseCache('generate'), handler);
+      app.post(
+        '/owned/generate',
+        optionalAuth({ enabled: true, apiKeys: ['key-a', 'key-b'], adminApiKeys: [] }),
+        responseCache('generate'),
+        handler
+      );
+      app.post('/chat/completions', responseCache('chat/completions'), handler);
+      server = createServer(app);
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+      handler.mockClear();
+      setResponseCache(new ResponseCache(cacheConfig()));
+      vi.mocked(getOrchestratorInstance).mockReturnValue({
+        resolveModelAlias: (model: string) => model,
+        getServers: () => [],
+      } as unknown as ReturnType<typeof getOrchestratorInstance>);
+    });
+
+    afterEach(() => {
+      resetResponseCache();
+    });
+
+    it('should serve a repeated JSON response from the cache', async () => {
+      const body = { model: 'llama3', prompt: 'hi', options: { temperature: 0 } };
+
+      const first = await post('/generate', body);
+      const second = await post('/generate', body);
+
+      expect(first.headers.get('x-orchestrator-cache')).toBe('miss');
+      expect(second.headers.get('x-orchestrator-cache')).toBe('hit');
+      expect(await second.json()).toEqual(await first.json());
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should replay a cached Ollama stream as NDJSON', async () => {
+      const body = { model: 'llama3', prompt: 'hi', stream: true, options: { seed: 7 } };
+
+      await (await post('/generate', body)).text();
+      const replay = await post('/generate', body);
+
+      expect(replay.headers.get('content-type')).toContain('application/x-ndjson');
+      expect((await replay.text()).trim().split('\n')).toEqual([
+        '{"response":"h","done":false}',
+        '{"response":"i","done":false}',
+        '{"response":"","done":true}',
+      ]);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should replay a cached OpenAI stream as SSE', async () => {
+      const body = { model: 'llama3', messages: [], stream: true, temperature: 0 };
+
+      await (await post('/chat/completions', body)).text();
+      const replay = await post('/chat/completions', body);
+
+      expect(replay.headers.get('content-type')).toContain('text/event-stream');
+      expect(await replay.text()).toBe(
+        'data: {"id":"chatcmpl-1","choices":[{"delta":{"content":"hi"}}]}\n\ndata: [DONE]\n\n'
+      );
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not cache an answer from a fallback model', async () => {
+      const body = { model: 'degraded-model', prompt: 'hi', options: { temperature: 0 } };
+
+      await post('/generate', body);
+      const second = await post('/generate', body);
+
+      expect(second.headers.get('x-orchestrator-cache')).toBe('miss');
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should bypass requests that are not repeatable and ignore those not opted in', async () => {
+      const body = { model: 'llama3', prompt: 'hi', options: { temperature: 0.8 } };
+
+      const sampled = await post('/generate', body);
+      const notOptedIn = await fetch(`${baseUrl}/generate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...body, options: { temperature: 0 } }),
+      });
+
+      expect(sampled.headers.get('x-orchestrator-cache')).toBe('bypass');
+      expect(notOptedIn.headers.get('x-orchestrator-cache')).toBeNull();
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not serve one API key the response cached for another', async () => {
+      const body = { model: 'llama3', prompt: 'owned', options: { temperature: 0 } };
+
+      const first = await post('/owned/generate', body, { 'X-API-Key': 'key-a' });
+      const sameKey = await post('/owned/generate', body, { 'X-API-Key': 'key-a' });
+      const otherKey = await post('/owned/generate', body, { 'X-API-Key': 'key-b' });
+
+      expect(first.headers.get('x-orchestrator-cache')).toBe('miss');
+      expect(sameKey.headers.get('x-orchestrator-cache')).toBe('hit');
+      expect(otherKey.headers.get('x-orchestrator-cache')).toBe('miss');
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should record hits in the request history apart from server requests', async () => {
+      const body = { model: 'cache-history-model', prompt: 'hi', options: { temperature: 0 } };
+
+      await post('/generate', body);
+      await post('/generate', body);
+
+      const [record] = getRequestHistory().searchRequests({
+        model: 'cache-history-model',
+        cacheHit: true,
+      });
+      expect(record).toMatchObject({
+        serverId: RESPONSE_CACHE_SERVER_ID,
+        endpoint: 'generate',
+        cacheHit: true,
+        success: true,
+      });
+    });
+  });
+});
@@ -0,0 +1,500 @@
+/**
+ * responses-api.test.ts
+ * Tests for the OpenAI Responses API: request translation, stream events and stored
+ * conversations
+ */
+
+import type { Request, Response } from 'express';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { getConfigManager } from '../../src/config/config.js';
+import {
+  handleCreateResponse,
+  handleDeleteResponse,
+  handleGetResponse,
+} from '../../src/controllers/responsesController.js';
+import { getOrchestratorInstance } from '../../src/orchestrator-instance.js';
+import { fetchWithTimeout, fetchWithActivityTimeout } from '../../src/utils/fetchWithTimeout.js';
+import {
+  ResponseStore,
+  getResponseStore,
+  resetResponseStore,
+} from '../../src/utils/response-store.js';
+import {
+  ResponseEventStream,
+  completionToResponse,
+  inputToMessages,
+  toChatRequest,
+  toChatTools,
+} from '../../src/utils/responses-api.js';
+
+vi.mock('../../src/orchestrator-instance.js');
+vi.mock('../../src/config/config.js', async importOriginal => ({
+  ...(await importOriginal<typeof import('../../src/config/config.js')>()),
+  getConfigManager: vi.fn(),
+}));
+vi.mock('../../src/utils/fetchWithTimeout.js');
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: { info: vi.fn(), error: vi.fn(), debug: vi.fn(), warn: vi.fn() },
+}));
+
+const jsonResponse = (data: unknown): globalThis.Response =>
+  new Response(JSON.stringify(data), { headers: { 'Content-Type': 'application/json' } });
+
+const completion = (message: Record<string, unknown>, finishReason = 'stop') => ({
+  id: 'chatcmpl-upstream',
+  object: 'chat.completion',
+  choices: [{ index: 0, message: { role: 'assistant', ...message }, finish_reason: finishReason }],
+  usage: { prompt_tokens: 10, completion_tokens: 4, total_tokens: 14 },
+});
+
+describe('Responses API Tests', () => {
+  describe('request translation', () => {
+    it('should turn text input and message items into chat messages', () => {
+      expect(inputToMessages('hello')).toEqual([{ role: 'user', content: 'hello' }]);
+      expect(
+        inputToMessages([
+          { role: 'developer', content: 'be brief' },
+          {
+            type: 'message',
+            role: 'user',
+            content: [
+              { type: 'input_text', text: 'what is ' },
+              { type: 'input_text', text: 'this?' },
+            ],
+          },
+        ])
+      ).toEqual([
+        { role: 'system', content: 'be brief' },
+        { role: 'user', content: 'what is this?' },
+      ]);
+    });
+
+    it('should keep images as chat content parts', () => {
+      expect(
+        inputToMessages([
+          {
+            role: 'user',
+            content: [
+              { type: 'input_text', text: 'describe' },
+              { type: 'input_image', image_url: 'data:image/png;base64,AAAA' },
+            ],
+          },
+        ])
+      ).toEqual([
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'describe' },
+            { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+          ],
+        },
+      ]);
+    });
+
+    it('should group function calls into one assistant turn followed by their outputs', () => {
+      const messages = inputToMessages([
+        { type: 'function_call', call_id: 'call_1', name: 'a', arguments: '{}' },
+        { type: 'function_call', call_id: 'call_2', name: 'b', arguments: '{"x":1}' },
+        { type: 'function_call_output', call_id: 'call_1', output: 'one' },
+      ]) as any[];
+
+      expect(messages).toHaveLength(2);
+      expect(messages[0].tool_calls.map((call: any) => call.id)).toEqual(['call_1', 'call_2']);
+      expect(messages[1]).toEqual({ role: 'tool', tool_call_id: 'call_1', content: 'one' });
+    });
+
+    it('should reject unsupported items and tools', () => {
+      expect(inputToMessages([{ type: 'reasoning' }])).toEqual({
+        error: "Unsupported input item type 'reasoning'",
+      });
+      expect(toChatTools([{ type: 'web_search' }])).toMatchObject({
+        error: expect.stringMatching(/only function tools/),
+      });
+    });
+
+    it('should build a chat request with instructions, tools and output limits', () => {
+      const tools = toChatTools([{ type: 'function', name: 'f', parameters: {} }]) as unknown[];
+      const body = toChatRequest(
+        {
+          model: 'llama3',
+          instructions: 'be brief',
+          max_output_tokens: 50,
+          tool_choice: { type: 'function', name: 'f' },
+          text: { format: { type: 'json_schema', name: 'x', schema: {}, strict: true } },
+        },
+        [{ role: 'user', content: 'hi' }],
+        tools
+      );
+
+      expect(body).toEqual({
+        model: 'llama3',
+        messages: [
+          { role: 'system', content: 'be brief' },
+          { role: 'user', content: 'hi' },
+        ],
+        max_tokens: 50,
+        tools: [{ type: 'function', function: { name: 'f', parameters: {} } }],
+        tool_choice: { type: 'function', function: { name: 'f' } },
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'x', schema: {}, strict: true },
+        },
+      });
+    });
+  });
+
+  describe('Response objects', () => {
+    it('should convert a completion with text and tool calls to output items', () => {
+      const response = completionToResponse(
+        'resp_1',
+        { model: 'llama3' },
+        'llama3',
+        completion({
+          content: 'checking',
+          tool_calls: [
+            { id: 'call_1', type: 'function', function: { name: 'f', arguments: '{}' } },
+          ],
+        }),
+        1
+      ) as any;
+
+      expect(response).toMatchObject({ id: 'resp_1', object: 'response', status: 'completed' });
+      expect(response.output.map((item: any) => item.type)).toEqual(['message', 'function_call']);
+      expect(response.output[0].content[0]).toMatchObject({
+        type: 'output_text',
+        text: 'checking',
+      });
+      expect(response.output[1]).toMatchObject({ call_id: 'call_1', name: 'f', arguments: '{}' });
+      expect(response.usage).toEqual({ input_tokens: 10, output_tokens: 4, total_tokens: 14 });
+    });
+
+    it('should mark a response cut off by max_output_tokens as incomplete', () => {
+      const response = completionToResponse(
+        'resp_1',
+        {},
+        'llama3',
+        completion({ content: 'partial' }, 'length'),
+        1
+      );
+
+      expect(response.status).toBe('incomplete');
+      expect(response.incomplete_details).toEqual({ reason: 'max_output_tokens' });
+    });
+  });
+
+  describe('ResponseEventStream', () => {
+    it('should emit semantic events for text and function calls', () => {
+      const stream = new ResponseEventStream('resp_1', {}, 'llama3', 1);
+      const chunk = (delta: Record<string, unknown>, finishReason: string | null = null) => ({
+        choices: [{ index: 0, delta, finish_reason: finishReason }],
+      });
+
+      const events = [
+        ...stream.start(),
+        ...stream.push(chunk({ role: 'assistant', content: 'Hel' })),
+        ...stream.push(chunk({ content: 'lo' })),
+        ...stream.push(
+          chunk({
+            tool_calls: [{ index: 0, id: 'call_1', function: { name: 'f', arguments: '{"a"' } }],
+          })
+        ),
+        ...stream.push(chunk({ tool_calls: [{ index: 0, function: { arguments: ':1}' } }] })),
+        ...stream.push(chunk({}, 'tool_calls')),
+      ];
+      const { events: finalEvents, response } = stream.finish();
+      events.push(...finalEvents);
+
+      expect(events.map(event => event.type)).toEqual([
+        'response.created',
+        'response.in_progress',
+        'response.output_item.added',
+        'response.content_part.added',
+        'response.output_text.delta',
+        'response.output_text.delta',
+        'response.output_text.done',
+        'response.content_part.done',
+        'response.output_item.done',
+        'response.output_item.added',
+        'response.function_call_arguments.delta',
+        'response.function_call_arguments.delta',
+        'response.function_call_arguments.done',
+        'response.output_item.done',
+        'response.completed',
+      ]);
+      expect(events.map(event => event.sequence_number)).toEqual(events.map((_, i) => i));
+      expect(events[6]).toMatchObject({ text: 'Hello', output_index: 0 });
+      expect(events[12]).toMatchObject({ arguments: '{"a":1}', output_index: 1 });
+      expect((response.output as any[])[1]).toMatchObject({
+        type: 'function_call',
+        call_id: 'call_1',
+        status: 'completed',
+      });
+    });
+
+    it('should end a broken stream with response.failed', () => {
+      const stream = new ResponseEventStream('resp_1', {}, 'llama3', 1);
+      stream.push({ choices: [{ index: 0, delta: { content: 'Hi' } }] });
+
+      const events = stream.fail('connection reset');
+
+      expect(events[events.length - 1]).toMatchObject({
+        type: 'response.failed',
+        response: { status: 'failed', error: { message: 'connection reset' } },
+      });
+    });
+  });
+
+  describe('ResponseStore', () => {
+    it('should expire responses after the TTL', () => {
+      vi.useFakeTimers();
+      try {
+        const store = new ResponseStore({ storeTtlMs: 1000, maxStoredResponses: 10 });
+        store.set('resp_1', { response: {}, messages: [] });
+
+        vi.advanceTimersByTime(500);
+        expect(store.get('resp_1')).toBeDefined();
+        vi.advanceTimersByTime(1000);
+        expect(store.get('resp_1')).toBeUndefined();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should evict the oldest responses beyond capacity', () => {
+      const store = new ResponseStore({ storeTtlMs: 60000, maxStoredResponses: 2 });
+      for (const id of ['resp_1', 'resp_2', 'resp_3']) {
+        store.set(id, { response: { id }, messages: [] });
+      }
+
+      expect(store.get('resp_1')).toBeUndefined();
+      expect(store.size()).toBe(2);
+    });
+  });
+
+  describe('controller', () => {
+    const servers = [
+      { id: 'openai-server', url: 'http://a:8000', supportsV1: true },
+      { id: 'ollama-only', url: 'http://b:11434', supportsV1: false },
+    ];
+    let server: (typeof servers)[number];
+    let mockOrchestrator: any;
+    let mockRes: any;
+    let written: string[];
+
+    const request = (body: Record<string, unknown>, params: Record<string, string> = {}) =>
+      ({ body, params, query: {}, headers: {} }) as unknown as Request;
+
+    const createResponse = async (body: Record<string, unknown>) => {
+      mockRes.json.mockClear();
+      await handleCreateResponse(request(body), mockRes as Response);
+      return mockRes.json.mock.calls[0]?.[0];
+    };
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      resetResponseStore();
+      server = servers[0];
+      mockOrchestrator = {
+        resolveModelAlias: vi.fn((model: string) => model),
+        getTimeout: vi.fn().mockReturnValue(60000),
+        tryRequestWithFailover: vi.fn((_model: string, fn: (server: any, ctx: any) => unknown) =>
+          fn(server, {})
+        ),
+      };
+      vi.mocked(getOrchestratorInstance).mockReturnValue(mockOrchestrator);
+      vi.mocked(getConfigManager).mockReturnValue({ getConfig: () => ({}) } as any);
+
+      written = [];
+      mockRes = {
+        headersSent: false,
+        writableEnded: false,
+        status: vi.fn().mockReturnThis(),
+        json: vi.fn(),
+        setHeader: vi.fn(),
+        write: vi.fn((data: string) => {
+          mockRes.headersSent = true;
+          written.push(data);
+          return true;
+        }),
+        end: vi.fn(),
+      };
+    });
+
+    it('should continue a stored conversation with previous_response_id', async () => {
+      vi.mocked(fetchWithTimeout)
+        .mockResolvedValueOnce(jsonResponse(completion({ content: 'Hi Ada' })))
+        .mockResolvedValueOnce(jsonResponse(completion({ content: 'Your name is Ada' })));
+
+      const first = await createResponse({
+        model: 'llama3',
+        instructions: 'be brief',
+        input: 'My name is Ada',
+      });
+      const second = await createResponse({
+        model: 'llama3',
+        input: 'What is my name?',
+        previous_response_id: first.id,
+      });
+
+      expect(mockOrchestrator.tryRequestWithFailover).toHaveBeenCalledTimes(2);
+      const upstream = JSON.parse(vi.mocked(fetchWithTimeout).mock.calls[1][1]!.body as string);
+      expect(upstream.messages).toEqual([
+        { role: 'user', content: 'My name is Ada' },
+        { role: 'assistant', content: 'Hi Ada' },
+        { role: 'user', content: 'What is my name?' },
+      ]);
+      expect(second).toMatchObject({ previous_response_id: first.id, status: 'completed' });
+    });
+
+    it('should not store a response with store false', async () => {
+      vi.mocked(fetchWithTimeout).mockResolvedValueOnce(
+        jsonResponse(completion({ content: 'Hi' }))
+      );
+
+      const response = await createResponse({ model: 'llama3', input: 'hi', store: false });
+      handleGetResponse(request({}, { id: response.id }), mockRes as Response);
+
+      expect(mockRes.status).toHaveBeenCalledWith(404);
+    });
+
+    it('should get and delete a stored response', async () => {
+      vi.mocked(fetchWithTimeout).mockResolvedValueOnce(
+        jsonResponse(completion({ content: 'Hi' }))
+      );
+      const response = await createResponse({ model: 'llama3', input: 'hi' });
+
+      mockRes.json.mockClear();
+      handleGetResponse(request({}, { id: response.id }), mockRes as Response);
+      expect(mockRes.json).toHaveBeenCalledWith(response);
+
+      handleDeleteResponse(request({}, { id: response.id }), mockRes as Response);
+      expect(mockRes.json).toHaveBeenLastCalledWith({
+        id: response.id,
+        object: 'response',
+        deleted: true,
+      });
+      expect(getResponseStore().size()).toBe(0);
+    });
+
+    it('should hide stored responses from other API keys', async () => {
+      vi.mocked(fetchWithTimeout).mockResolvedValueOnce(
+        jsonResponse(completion({ content: 'Hi' }))
+      );
+      const asKey = (req: Request, apiKey: string, isAdmin = false): Request =>
+        Object.assign(req, { auth: { apiKey, isAdmin } });
+
+      mockRes.json.mockClear();
+      await handleCreateResponse(
+        asKey(request({ model: 'llama3', input: 'hi' }), 'key-a'),
+        mockRes as Response
+      );
+      const response = mockRes.json.mock.calls[0][0];
+
+      handleGetResponse(asKey(request({}, { id: response.id }), 'key-b'), mockRes as Response);
+      expect(mockRes.status).toHaveBeenLastCalledWith(404);
+      handleDeleteResponse(asKey(request({}, { id: response.id }), 'key-b'), mockRes as Response);
+      expect(mockRes.status).toHaveBeenLastCalledWith(404);
+      expect(getResponseStore().size()).toBe(1);
+      await handleCreateResponse(
+        asKey(
+          request({ model: 'llama3', input: 'and?', previous_response_id: response.id }),
+          'key-b'
+        ),
+        mockRes as Response
+      );
+      expect(mockRes.status).toHaveBeenLastCalledWith(404);
+      expect(mockOrchestrator.tryRequestWithFailover).toHaveBeenCalledTimes(1);
+
+      mockRes.json.mockClear();
+      handleGetResponse(asKey(request({}, { id: response.id }), 'key-a'), mockRes as Response);
+      expect(mockRes.json).toHaveBeenCalledWith(response);
+      handleGetResponse(
+        asKey(request({}, { id: response.id }), 'admin', true),
+        mockRes as Response
+      );
+      expect(mockRes.json).toHaveBeenLastCalledWith(response);
+    });
+
+    it('should reply 404 for an unknown previous_response_id', async () => {
+      await createResponse({ model: 'llama3', input: 'hi', previous_response_id: 'resp_x' });
+
+      expect(mockRes.status).toHaveBeenCalledWith(404);
+      expect(mockRes.json.mock.calls[0][0].error.code).toBe('previous_response_not_found');
+      expect(mockOrchestrator.tryRequestWithFailover).not.toHaveBeenCalled();
+    });
+
+    it('should reject built-in tools', async () => {
+      await createResponse({ model: 'llama3', input: 'hi', tools: [{ type: 'file_search' }] });
+
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+      expect(mockRes.json.mock.calls[0][0].error.param).toBe('tools');
+    });
+
+    it('should stream semantic events from an Ollama backend', async () => {
+      server = servers[1];
+      const ndjson = [
+        { message: { content: 'Hel' }, done: false },
+        { message: { content: 'lo' }, done: false },
+        { message: { content: '' }, done: true, prompt_eval_count: 5, eval_count: 2 },
+      ]
+        .map(event => JSON.stringify(event))
+        .join('\n');
+      vi.mocked(fetchWithActivityTimeout).mockResolvedValueOnce({
+        response: new Response(ndjson),
+        activityController: { clearTimeout: vi.fn(), resetTimeout: vi.fn() },
+      } as any);
+
+      await handleCreateResponse(
+        request({ model: 'llama3', input: 'hi', stream: true }),
+        mockRes as Response
+      );
+
+      expect(vi.mocked(fetchWithActivityTimeout).mock.calls[0][0]).toBe('http://b:11434/api/chat');
+      const events = written.map(frame => {
+        const [eventLine, dataLine] = frame.trim().split('\n');
+        return { name: eventLine.replace('event: ', ''), data: JSON.parse(dataLine.slice(6)) };
+      });
+      expect(events.every(event => event.name === event.data.type)).toBe(true);
+      expect(events[0].name).toBe('response.created');
+      const completed = events[events.length - 1].data;
+      expect(completed.type).toBe('response.completed');
+      expect(completed.response.output[0].content[0].text).toBe('Hello');
+      expect(completed.response.usage).toEqual({
+        input_tokens: 5,
+        output_tokens: 2,
+        total_tokens: 7,
+      });
+      expect(mockRes.end).toHaveBeenCalled();
+    });
+
+    it('should report a stream that broke off as failed to the orchestrator', async () => {
+      server = servers[1];
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(
+            new TextEncoder().encode(`${JSON.stringify({ message: { content: 'Hel' } })}\n`)
+          );
+        },
+        pull(controller) {
+          controller.error(new Error('connection reset'));
+        },
+      });
+      vi.mocked(fetchWithActivityTimeout).mockResolvedValueOnce({
+        response: new Response(body),
+        activityController: { clearTimeout: vi.fn(), resetTimeout: vi.fn() },
+      } as any);
+
+      await handleCreateResponse(
+        request({ model: 'llama3', input: 'hi', stream: true }),
+        mockRes as Response
+      );
+
+      expect(written[written.length - 1]).toContain('event: response.failed');
+      expect(await mockOrchestrator.tryRequestWithFailover.mock.results[0].value).toEqual({
+        _streamed: true,
+        _streamError: 'connection reset',
+      });
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { ConfigManager, DEFAULT_CONFIG, setConfigManager } from '../../src/config/config.js';
+import { AIOrchestrator } from '../../src/orchestrator.js';
+import type { AIServer } from '../../src/orchestrator.types.js';
+import {
+  PREFER_LABELS_HEADER,
+  REQUIRE_LABELS_HEADER,
+  matchesLabels,
+  orderByPreferredLabels,
+  parseLabelSelector,
+  resolveLabelConstraints,
+  validateLabels,
+  type LabelConstraints,
+} from '../../src/utils/server-labels.js';
+import { createRequest, createTestOrchestrator } from '../utils/test-helpers.js';
+
+const createServer = (id: string, labels?: Record<string, string>): AIServer => ({
+  id,
+  url: `http://${id}:11434`,
+  type: 'ollama',
+  healthy: true,
+  lastResponseTime: 100,
+  models: ['llama3:latest'],
+  labels,
+});
+
+describe('label selectors', () => {
+  it('should parse key=value and bare key terms', () => {
+    expect(parseLabelSelector(' gpu=a100, ssd ,region=eu ')).toEqual([
+      { key: 'gpu', value: 'a100' },
+      { key: 'ssd' },
+      { key: 'region', value: 'eu' },
+    ]);
+    expect(parseLabelSelector(undefined)).toEqual([]);
+  });
+
+  it('should require every term to match', () => {
+    const server = createServer('a', { gpu: 'a100', ssd: '' });
+
+    expect(matchesLabels(server, parseLabelSelector('gpu=a100,ssd'))).toBe(true);
+    expect(matchesLabels(server, parseLabelSelector('gpu=h100'))).toBe(false);
+    expect(matchesLabels(createServer('b'), parseLabelSelector('ssd'))).toBe(false);
+    expect(matchesLabels(createServer('b'), [])).toBe(true);
+  });
+
+  it('should order by preferred matches, keeping the incoming order among equals', () => {
+    const servers = [
+      createServer('a'),
+      createServer('b', { region: 'eu' }),
+      createServer('c'),
+      createServer('d', { region: 'eu', gpu: 'a100' }),
+    ];
+
+    expect(
+      orderByPreferredLabels(servers, parseLabelSelector('region=eu,gpu=a100')).map(s => s.id)
+    ).toEqual(['d', 'b', 'a', 'c']);
+  });
+
+  it('should validate label maps', () => {
+    expect(validateLabels({ gpu: 'a100', 'topology.kubernetes.io/zone': 'eu-1' })).toBeUndefined();
+    expect(validateLabels({ 'bad key': 'x' })).toMatch(/Invalid label key/);
+    expect(validateLabels({ gpu: 42 })).toMatch(/Invalid value/);
+    expect(validateLabels(['gpu'])).toBeDefined();
+  });
+});
+
+describe('resolveLabelConstraints', () => {
+  beforeEach(() => {
+    setConfigManager(
+      new ConfigManager({
+        security: {
+          ...DEFAULT_CONFIG.security,
+          apiKeyLabelPolicies: { 'eu-key': { require: 'region=eu', prefer: 'gpu=a100' } },
+        },
+      })
+    );
+  });
+
+  afterEach(() => {
+    setConfigManager(new ConfigManager());
+  });
+
+  it('should return undefined without headers or a key policy', () => {
+    expect(resolveLabelConstraints(createRequest())).toBeUndefined();
+  });
+
+  it('should read the require and prefer headers', () => {
+    expect(
+      resolveLabelConstraints(
+        createRequest({ [REQUIRE_LABELS_HEADER]: 'gpu', [PREFER_LABELS_HEADER]: 'ssd' })
+      )
+    ).toEqual({ require: [{ key: 'gpu' }], prefer: [{ key: 'ssd' }] });
+  });
+
+  it('should keep key requirements when the header adds its own', () => {
+    const constraints = resolveLabelConstraints(
+      createRequest({ 'x-api-key': 'eu-key', [REQUIRE_LABELS_HEADER]: 'ssd' })
+    );
+
+    expect(constraints?.require).toEqual([{ key: 'region', value: 'eu' }, { key: 'ssd' }]);
+    expect(constraints?.prefer).toEqual([{ key: 'gpu', value: 'a100' }]);
+  });
+});
+
+describe('AIOrchestrator label routing', () => {
+  let orchestrator: AIOrchestrator;
+
+  beforeEach(() => {
+    const labels: Record<string, Record<string, string>> = {
+      'server-1': { region: 'us' },
+      'server-2': { region: 'eu', gpu: 'a100' },
+      'server-3': { region: 'eu' },
+    };
+    orchestrator = createTestOrchestrator(
+      Object.entries(labels).map(([id, serverLabels]) => ({
+        id,
+        labels: serverLabels,
+        models: ['llama3:latest'],
+      }))
+    );
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    await orchestrator.shutdown();
+  });
+
+  const route = async (labelConstraints: LabelConstraints): Promise<string[]> => {
+    const tried: string[] = [];
+    await orchestrator
+      .tryRequestWithFailover(
+        'llama3:latest',
+        async server => {
+          tried.push(server.id);
+          throw new Error('connection refused');
+        },
+        false,
+        'generate',
+        undefined,
+        { labelConstraints }
+      )
+      .catch(() => undefined);
+    return [...new Set(tried)];
+  };
+
+  it('should only route to servers carrying the required labels', async () => {
+    const tried = await route({ require: parseLabelSelector('region=eu'), prefer: [] });
+
+    expect(tried.sort()).toEqual(['server-2', 'server-3']);
+  });
+
+  it('should try servers matching preferred labels first', async () => {
+    const pick = (prefer: string): Promise<string> =>
+      orchestrator.tryRequestWithFailover(
+        'llama3:latest',
+        async server => server.id,
+        false,
+        'generate',
+        undefined,
+        { labelConstraints: { require: [], prefer: parseLabelSelector(prefer) } }
+      );
+
+    expect(await pick('gpu=a100')).toBe('server-2');
+    expect(await pick('region=us')).toBe('server-1');
+    expect(await pick('region=eu,gpu=a100')).toBe('server-2');
+  });
+
+  it('should report a no-servers error when no server has the required labels', async () => {
+    await expect(
+      orchestrator.tryRequestWithFailover(
+        'llama3:latest',
+        async server => server.id,
+        false,
+        'generate',
+        undefined,
+        { labelConstraints: { require: parseLabelSelector('gpu=h100'), prefer: [] } }
+      )
+    ).rejects.toThrow(/No servers available with required labels 'gpu=h100'/);
+  });
+
+  it('should apply label constraints in getBestServerForModel', () => {
+    const constraints = {
+      require: parseLabelSelector('region=eu'),
+      prefer: parseLabelSelector('gpu=a100'),
+    };
+
+    expect(orchestrator.getBestServerForModel('llama3:latest', false, constraints)?.id).toBe(
+      'server-2'
+    );
+    expect(
+      orchestrator.getBestServerForModel('llama3:latest', false, {
+        require: parseLabelSelector('gpu=h100'),
+        prefer: [],
+      })
+    ).toBeUndefined();
+  });
+
+  it('should replace labels on update', () => {
+    expect(orchestrator.updateServer('server-1', { labels: { region: 'eu' } })).toBe(true);
+    expect(orchestrator.getServer('server-1')?.labels).toEqual({ region: 'eu' });
+
+    orchestrator.updateServer('server-1', { maxConcurrency: 2 });
+    expect(orchestrator.getServer('server-1')?.labels).toEqual({ region: 'eu' });
+  });
+});
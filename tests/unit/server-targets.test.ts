@@ -0,0 +1,72 @@
+/**
+ * server-targets.test.ts
+ * Tests for choosing the servers a pull, create, push or blob request is sent to
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import type { AIServer } from '../../src/orchestrator.types.js';
+import { readServerTargets, resolveServerTargets } from '../../src/utils/server-targets.js';
+import { createRequest } from '../utils/test-helpers.js';
+
+const createTestServer = (id: string, overrides: Partial<AIServer> = {}): AIServer => ({
+  id,
+  url: `http://${id}:11434`,
+  type: 'ollama',
+  healthy: true,
+  lastResponseTime: 100,
+  models: [],
+  ...overrides,
+});
+
+describe('Server Targets Tests', () => {
+  const servers = [createTestServer('gpu-1'), createTestServer('gpu-2'), createTestServer('cpu-1')];
+
+  describe('readServerTargets', () => {
+    it('should read the header before the query parameter', () => {
+      expect(readServerTargets(createRequest())).toBeUndefined();
+      expect(readServerTargets(createRequest({}, { servers: 'ALL' }))).toBe('all');
+      expect(readServerTargets(createRequest({}, { servers: 'gpu-1, cpu-*' }))).toEqual([
+        'gpu-1',
+        'cpu-*',
+      ]);
+      expect(
+        readServerTargets(createRequest({ 'x-orchestrator-servers': 'gpu-2' }, { servers: 'all' }))
+      ).toEqual(['gpu-2']);
+    });
+  });
+
+  describe('resolveServerTargets', () => {
+    it('should select every healthy Ollama server for "all"', () => {
+      const fleet = [
+        ...servers,
+        createTestServer('down', { healthy: false }),
+        createTestServer('openai', { supportsOllama: false }),
+      ];
+
+      const result = resolveServerTargets('all', fleet);
+
+      expect('servers' in result && result.servers.map(s => s.id)).toEqual([
+        'gpu-1',
+        'gpu-2',
+        'cpu-1',
+      ]);
+    });
+
+    it('should match ids and id globs and reject unknown ids', () => {
+      const result = resolveServerTargets(['gpu-*', 'cpu-1', 'gpu-1'], servers);
+
+      expect('servers' in result && result.servers.map(s => s.id)).toEqual([
+        'gpu-1',
+        'gpu-2',
+        'cpu-1',
+      ]);
+      expect(resolveServerTargets(['gpu-?'], servers)).toHaveProperty('servers');
+      expect(resolveServerTargets(['missing'], servers)).toEqual({
+        error: "Server 'missing' not found",
+      });
+      expect(resolveServerTargets(['tpu-*'], servers)).toHaveProperty('error');
+      expect(resolveServerTargets('gpu-1', servers)).toHaveProperty('error');
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import type { Request } from 'express';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { AIOrchestrator, type RoutingContext } from '../../src/orchestrator.js';
+import {
+  SessionAffinityManager,
+  deriveAffinityKey,
+  resolveAffinityKey,
+} from '../../src/utils/session-affinity.js';
+import { createTestOrchestrator } from '../utils/test-helpers.js';
+
+describe('deriveAffinityKey', () => {
+  const system = { role: 'system', content: 'You are a helpful assistant.' };
+  const firstTurn = [system, { role: 'user', content: 'Summarize this report' }];
+
+  it('should produce the same key for every turn of a conversation', () => {
+    const laterTurn = [
+      ...firstTurn,
+      { role: 'assistant', content: 'Here is a summary...' },
+      { role: 'user', content: 'Shorter please' },
+    ];
+
+    expect(deriveAffinityKey(firstTurn)).toBeDefined();
+    expect(deriveAffinityKey(laterTurn)).toBe(deriveAffinityKey(firstTurn));
+  });
+
+  it('should distinguish conversations with different openings', () => {
+    const other = [system, { role: 'user', content: 'Translate this text' }];
+
+    expect(deriveAffinityKey(other)).not.toBe(deriveAffinityKey(firstTurn));
+  });
+
+  it('should key on the first user message when the conversation opens with an assistant', () => {
+    const greeting = { role: 'assistant', content: 'Hi! How can I help?' };
+    const opening = [system, greeting, { role: 'user', content: 'Summarize this report' }];
+
+    expect(deriveAffinityKey(opening)).toBe(deriveAffinityKey(firstTurn));
+  });
+
+  it('should return undefined without a user message', () => {
+    expect(deriveAffinityKey([system])).toBeUndefined();
+    expect(deriveAffinityKey([])).toBeUndefined();
+    expect(deriveAffinityKey(undefined)).toBeUndefined();
+  });
+
+  it('should prefer an explicit session header', () => {
+    const req = { headers: { 'x-session-id': 'abc-123' } } as unknown as Request;
+
+    expect(resolveAffinityKey(req, firstTurn)).toBe('hdr:abc-123');
+  });
+});
+
+describe('SessionAffinityManager', () => {
+  const config = { enabled: true, ttlMs: 1000, maxSessions: 2 };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should expire idle sessions after the TTL', () => {
+    vi.useFakeTimers();
+    const manager = new SessionAffinityManager(config);
+    manager.bind('a', 'server-1');
+
+    expect(manager.lookup('a')).toBe('server-1');
+    vi.advanceTimersByTime(1001);
+    expect(manager.lookup('a')).toBeUndefined();
+  });
+
+  it('should evict the least recently bound session when full', () => {
+    const manager = new SessionAffinityManager(config);
+    manager.bind('a', 'server-1');
+    manager.bind('b', 'server-2');
+    manager.bind('a', 'server-1');
+    manager.bind('c', 'server-3');
+
+    expect(manager.lookup('a')).toBe('server-1');
+    expect(manager.lookup('b')).toBeUndefined();
+    expect(manager.getStats().activeSessions).toBe(2);
+  });
+
+  it('should compute hit rate across hits, misses and yields', () => {
+    const manager = new SessionAffinityManager(config);
+    manager.recordOutcome('hit');
+    manager.recordOutcome('hit');
+    manager.recordOutcome('miss');
+    manager.recordOutcome('yield', 'saturated');
+
+    expect(manager.getStats()).toMatchObject({
+      hits: 2,
+      misses: 1,
+      yields: 1,
+      yieldReasons: { unavailable: 0, saturated: 1, circuit_open: 0 },
+      hitRate: 0.5,
+    });
+  });
+});
+
+describe('AIOrchestrator session affinity', () => {
+  let orchestrator: AIOrchestrator;
+
+  beforeEach(() => {
+    orchestrator = createTestOrchestrator(
+      ['server-1', 'server-2'].map(id => ({ id, maxConcurrency: 1, models: ['llama3:latest'] }))
+    );
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    await orchestrator.shutdown();
+  });
+
+  const route = async (context: RoutingContext): Promise<string> =>
+    orchestrator.tryRequestWithFailover(
+      'llama3:latest',
+      async server => server.id,
+      false,
+      'generate',
+      undefined,
+      context
+    );
+
+  it('should return later turns to the server that served the first', async () => {
+    const first = await route({ affinityKey: 'conv-1' });
+    const context: RoutingContext = { affinityKey: 'conv-1' };
+    const second = await route(context);
+
+    expect(second).toBe(first);
+    expect(context.affinity).toBe('hit');
+  });
+
+  it('should yield and rebind when the bound server is saturated', async () => {
+    const first = await route({ affinityKey: 'conv-1' });
+    orchestrator.incrementInFlight(first, 'llama3:latest');
+
+    const context: RoutingContext = { affinityKey: 'conv-1' };
+    const second = await route(context);
+    orchestrator.decrementInFlight(first, 'llama3:latest');
+
+    expect(second).not.toBe(first);
+    expect(context.affinity).toBe('yield');
+    expect(await route({ affinityKey: 'conv-1' })).toBe(second);
+    expect(orchestrator.getAffinityStats()).toMatchObject({
+      hits: 1,
+      misses: 1,
+      yields: 1,
+      yieldReasons: { saturated: 1 },
+    });
+  });
+});
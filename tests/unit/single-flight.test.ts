@@ -0,0 +1,140 @@
+/**
+ * single-flight.test.ts
+ * Tests for coalescing identical concurrent requests: fan-out of the leader's response to its
+ * followers, opting out, routing scope, and followers running again when the leader's client goes away
+ */
+
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+
+import express, { type Request, type Response } from 'express';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+
+import { DEFAULT_CONFIG } from '../../src/config/config.js';
+import { singleFlight } from '../../src/middleware/singleFlight.js';
+import { getOrchestratorInstance } from '../../src/orchestrator-instance.js';
+import { getInFlightManager } from '../../src/utils/in-flight-manager.js';
+import { resetSingleFlight, setSingleFlight, SingleFlight } from '../../src/utils/single-flight.js';
+
+vi.mock('../../src/orchestrator-instance.js');
+
+describe('Single Flight Tests', () => {
+  let server: Server;
+  let baseUrl: string;
+  let release: () => void;
+  let gate: Promise<void>;
+
+  // Streams part of the response, then waits for the test to release it
+  const handler = vi.fn(async (req: Request, res: Response) => {
+    getInFlightManager().incrementInFlight('server-1', 'nomic-embed-text');
+    res.setHeader('Content-Type', 'application/x-ndjson');
+    res.write('{"part":1}\n');
+    await gate;
+    getInFlightManager().decrementInFlight('server-1', 'nomic-embed-text');
+    res.end(`{"input":${JSON.stringify((req.body as { input: unknown }).input)}}\n`);
+  });
+
+  const post = (body: unknown, init: RequestInit = {}) =>
+    fetch(`${baseUrl}/embed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      ...init,
+    });
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.post('/embed', singleFlight('embed'), (req, res) => void handler(req, res));
+    server = createServer(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    handler.mockClear();
+    gate = new Promise(resolve => (release = resolve));
+    setSingleFlight(new SingleFlight({ ...DEFAULT_CONFIG.singleFlight, enabled: true }));
+    vi.mocked(getOrchestratorInstance).mockReturnValue({
+      resolveModelAlias: (model: string) => model,
+    } as unknown as ReturnType<typeof getOrchestratorInstance>);
+  });
+
+  afterEach(() => {
+    release();
+    resetSingleFlight();
+    getInFlightManager().clear();
+  });
+
+  it('should send followers a copy of the leader response', async () => {
+    const body = { model: 'nomic-embed-text', input: 'hello' };
+
+    const leader = post(body);
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(1));
+    const follower = post(body);
+    await vi.waitFor(() =>
+      expect(
+        getInFlightManager().getInFlightDetailed()['server-1'].byModel['nomic-embed-text']
+      ).toEqual({ regular: 1, bypass: 0, coalesced: 1 })
+    );
+    release();
+
+    const [leaderResponse, followerResponse] = await Promise.all([leader, follower]);
+    const expected = '{"part":1}\n{"input":"hello"}\n';
+    expect(await leaderResponse.text()).toBe(expected);
+    expect(await followerResponse.text()).toBe(expected);
+    expect(followerResponse.headers.get('content-type')).toContain('application/x-ndjson');
+    expect(followerResponse.headers.get('x-orchestrator-coalesced')).toBe('true');
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not coalesce different bodies, routing or requests that bypass', async () => {
+    const body = { model: 'nomic-embed-text', input: 'hello' };
+    const withHeaders = (headers: Record<string, string>): RequestInit => ({
+      headers: { 'Content-Type': 'application/json', ...headers },
+    });
+
+    const requests = [
+      post(body),
+      post({ ...body, input: 'world' }),
+      post(body, withHeaders({ 'X-Orchestrator-Cache': 'bypass' })),
+      post(body, withHeaders({ 'X-Orchestrator-Priority': 'low' })),
+      post(body, withHeaders({ 'X-Require-Labels': 'gpu' })),
+      post(body, withHeaders({ 'X-Allow-Fallback': 'true' })),
+    ];
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(6));
+    release();
+
+    const responses = await Promise.all(requests);
+    await Promise.all(responses.map(response => response.text()));
+    expect(responses.every(response => !response.headers.has('x-orchestrator-coalesced'))).toBe(
+      true
+    );
+  });
+
+  it('should run followers again when the leader client disconnects first', async () => {
+    const body = { model: 'nomic-embed-text', input: 'hello' };
+    const controller = new AbortController();
+    // The leader writes nothing before its client goes away
+    handler.mockImplementationOnce(async () => {
+      await gate;
+    });
+
+    const leader = post(body, { signal: controller.signal }).catch(() => undefined);
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(1));
+    const follower = post(body);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    controller.abort();
+    await leader;
+
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(2));
+    release();
+    const response = await follower;
+    expect(await response.text()).toBe('{"part":1}\n{"input":"hello"}\n');
+    expect(response.headers.has('x-orchestrator-coalesced')).toBe(false);
+  });
+});
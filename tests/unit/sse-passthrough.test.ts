@@ -137,6 +137,7 @@ vi.mock('../../src/utils/circuit-breaker-helpers.js', () => ({
 import { getConfigManager } from '../../src/config/config.js';
 import {
   handleChatCompletions,
+  handleChatCompletionsToServer,
   handleCompletions,
 } from '../../src/controllers/openaiController.js';
 import { getOrchestratorInstance } from '../../src/orchestrator-instance.js';
@@ -156,11 +157,17 @@ function makeActivityController() {
 
 function makeOrchestrator(server: any) {
   return {
+    resolveModelAlias: vi.fn((model: string) => model),
     tryRequestWithFailover: vi.fn(
       async (_model: string, fn: (server: any, ctx: any) => Promise<any>, _stream: boolean) => {
         return await fn(server, { requestId: 'test-req-id' });
       }
     ),
+    requestToServer: vi.fn(
+      async (_serverId: string, _model: string, fn: (server: any, ctx: any) => Promise<any>) => {
+        return await fn(server, { requestId: 'test-req-id' });
+      }
+    ),
     getTimeout: vi.fn().mockReturnValue(30000),
     getServers: vi.fn().mockReturnValue([server]),
   };
@@ -409,6 +416,99 @@ describe('REC-37: NDJSON-to-SSE translation handles tool_calls', () => {
     expect(finalWrite).toBeDefined();
   });
 
+  const streamToolCalls = async (
+    toolCallLines: string[],
+    extraBody: Record<string, unknown> = {},
+    handler: (req: any, res: any) => Promise<void> = handleChatCompletions
+  ): Promise<any[]> => {
+    mockFetchWithActivityTimeout.mockResolvedValueOnce({
+      response: makeMockResponse([...toolCallLines, '{"model":"test","done":true}\n']),
+      activityController: makeActivityController(),
+    } as any);
+
+    const server = { id: 'ollama-only', url: 'http://localhost:11434', supportsV1: false };
+    mockGetOrchestratorInstance.mockReturnValue(makeOrchestrator(server) as any);
+    mockGetConfigManager.mockReturnValue(makeConfig() as any);
+
+    const { res, written } = makeMockClientResponse();
+    await handler(
+      {
+        ...makeReq({
+          model: 'test',
+          messages: [{ role: 'user', content: 'weather in London and Paris' }],
+          stream: true,
+          tools: [{ type: 'function', function: { name: 'get_weather' } }],
+          ...extraBody,
+        }),
+        params: { serverId: server.id },
+      },
+      res
+    );
+
+    return written
+      .filter(w => w.startsWith('data: {'))
+      .map(w => JSON.parse(w.replace(/^data: /, '').trim()));
+  };
+
+  const weatherCall = (city: string): string =>
+    JSON.stringify({
+      model: 'test',
+      message: {
+        content: '',
+        tool_calls: [{ function: { name: 'get_weather', arguments: { city } } }],
+      },
+      done: false,
+    }) + '\n';
+
+  it('should give tool calls from separate chunks distinct indexes and IDs', async () => {
+    const chunks = await streamToolCalls([weatherCall('London'), weatherCall('Paris')]);
+
+    const calls = chunks.flatMap(c => c.choices[0]?.delta?.tool_calls ?? []);
+    expect(calls.map(c => c.index)).toEqual([0, 1]);
+    expect(new Set(calls.map(c => c.id)).size).toBe(2);
+    expect(calls[1].function).toEqual({ name: 'get_weather', arguments: '{"city":"Paris"}' });
+    expect(chunks[chunks.length - 1].choices[0].finish_reason).toBe('tool_calls');
+  });
+
+  it('should stop after the first tool call when parallel_tool_calls is false', async () => {
+    const chunks = await streamToolCalls([weatherCall('London'), weatherCall('Paris')], {
+      parallel_tool_calls: false,
+    });
+
+    const calls = chunks.flatMap(c => c.choices[0]?.delta?.tool_calls ?? []);
+    expect(calls).toHaveLength(1);
+    expect(calls[0].function.arguments).toBe('{"city":"London"}');
+  });
+
+  it('should stop after the first tool call on the per-server endpoint too', async () => {
+    const chunks = await streamToolCalls(
+      [weatherCall('London'), weatherCall('Paris')],
+      { parallel_tool_calls: false },
+      handleChatCompletionsToServer
+    );
+
+    const calls = chunks.flatMap(c => c.choices[0]?.delta?.tool_calls ?? []);
+    expect(calls).toHaveLength(1);
+    expect(calls[0].function.arguments).toBe('{"city":"London"}');
+  });
+
+  it('should reject a tool_choice naming an unknown function', async () => {
+    const { res } = makeMockClientResponse();
+
+    await handleChatCompletions(
+      makeReq({
+        model: 'test',
+        messages: [{ role: 'user', content: 'hi' }],
+        tools: [{ type: 'function', function: { name: 'get_weather' } }],
+        tool_choice: { type: 'function', function: { name: 'get_time' } },
+      }),
+      res
+    );
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json.mock.calls[0][0].error.param).toBe('tool_choice');
+  });
+
   it('should emit role-only first chunk before content chunks', async () => {
     const ndjsonLines = [
       '{"model":"test","message":{"content":"Hello"},"done":false}\n',
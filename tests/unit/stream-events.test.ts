@@ -0,0 +1,36 @@
+/**
+ * stream-events.test.ts
+ * Tests for reading JSON events from upstream SSE and NDJSON streams
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { readStreamEvents } from '../../src/utils/stream-events.js';
+
+const read = async (upstream: globalThis.Response, format: 'sse' | 'ndjson') => {
+  const events = [];
+  for await (const event of readStreamEvents(upstream, format)) {
+    events.push(event);
+  }
+  return events;
+};
+
+describe('readStreamEvents', () => {
+  it('should read SSE data lines without the closing [DONE]', async () => {
+    expect(await read(new Response('data: {"a":1}\n\n: comment\ndata: [DONE]\n\n'), 'sse')).toEqual(
+      [{ a: 1 }]
+    );
+  });
+
+  it('should read NDJSON lines, including one without a trailing newline', async () => {
+    expect(await read(new Response('{"a":1}\n{"b":2}'), 'ndjson')).toEqual([{ a: 1 }, { b: 2 }]);
+  });
+
+  it('should skip lines that are not JSON objects', async () => {
+    expect(await read(new Response('not json\n[1,2]\n{"a":1}\n'), 'ndjson')).toEqual([{ a: 1 }]);
+  });
+
+  it('should throw when the response has no body', async () => {
+    await expect(read(new Response(null), 'ndjson')).rejects.toThrow('No response body to stream');
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * structured-output.test.ts
+ * Tests for OpenAI json_schema structured outputs and failover on schema violations
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { ConfigManager, setConfigManager } from '../../src/config/config.js';
+import { AIOrchestrator } from '../../src/orchestrator.js';
+import {
+  StructuredOutputError,
+  getStrictSchema,
+  toOllamaFormat,
+  validateChatCompletion,
+  validateStructuredOutput,
+  type ResponseFormat,
+} from '../../src/utils/structured-output.js';
+import { createTestOrchestrator } from '../utils/test-helpers.js';
+
+const personSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    age: { type: 'integer', minimum: 0 },
+  },
+  required: ['name', 'age'],
+  additionalProperties: false,
+};
+
+const strictFormat: ResponseFormat = {
+  type: 'json_schema',
+  json_schema: { name: 'person', schema: personSchema, strict: true },
+};
+
+const completion = (...contents: Array<string | null>): Record<string, unknown> => ({
+  choices: contents.map((content, index) => ({
+    index,
+    message: { role: 'assistant', content },
+    finish_reason: 'stop',
+  })),
+});
+
+describe('Structured Output Tests', () => {
+  describe('toOllamaFormat', () => {
+    it('should map JSON mode to json and json_schema to its schema', () => {
+      expect(toOllamaFormat({ type: 'json_object' })).toBe('json');
+      expect(toOllamaFormat(strictFormat)).toBe(personSchema);
+      expect(toOllamaFormat({ type: 'json_schema' })).toBe('json');
+    });
+
+    it('should leave plain text unformatted', () => {
+      expect(toOllamaFormat({ type: 'text' })).toBeUndefined();
+      expect(toOllamaFormat(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('getStrictSchema', () => {
+    it('should only return the schema for strict json_schema formats', () => {
+      expect(getStrictSchema(strictFormat)).toBe(personSchema);
+      expect(
+        getStrictSchema({
+          type: 'json_schema',
+          json_schema: { name: 'person', schema: personSchema },
+        })
+      ).toBeUndefined();
+      expect(getStrictSchema({ type: 'json_object' })).toBeUndefined();
+    });
+  });
+
+  describe('validateStructuredOutput', () => {
+    it('should accept conforming output', () => {
+      expect(() => validateStructuredOutput('{"name":"Ada","age":36}', personSchema)).not.toThrow();
+    });
+
+    it('should reject output that is not JSON', () => {
+      expect(() => validateStructuredOutput('Sure! Here is the JSON:', personSchema)).toThrow(
+        /not valid JSON/
+      );
+    });
+
+    it('should name the offending field', () => {
+      expect(() => validateStructuredOutput('{"name":"Ada","age":-1}', personSchema)).toThrow(
+        /age: /
+      );
+      expect(() => validateStructuredOutput('{"name":"Ada"}', personSchema)).toThrow(
+        StructuredOutputError
+      );
+    });
+
+    it('should skip validation when the schema cannot be compiled', () => {
+      expect(() =>
+        validateStructuredOutput('not json', { type: 'object', $ref: 'http://example.com/x' })
+      ).not.toThrow();
+    });
+  });
+
+  describe('validateChatCompletion', () => {
+    it('should check every choice', () => {
+      expect(() =>
+        validateChatCompletion(
+          completion('{"name":"Ada","age":36}', '{"name":"Bob"}'),
+          personSchema
+        )
+      ).toThrow(StructuredOutputError);
+    });
+
+    it('should reject a choice without content', () => {
+      expect(() => validateChatCompletion(completion(null), personSchema)).toThrow(/no content/);
+    });
+
+    it('should not check choices that answered with tool calls', () => {
+      const data = {
+        choices: [
+          {
+            message: {
+              role: 'assistant',
+              content: null,
+              tool_calls: [{ id: 'call_0', type: 'function', function: { name: 'f' } }],
+            },
+          },
+        ],
+      };
+
+      expect(() => validateChatCompletion(data, personSchema)).not.toThrow();
+    });
+  });
+
+  describe('AIOrchestrator failover', () => {
+    let orchestrator: AIOrchestrator;
+
+    beforeEach(() => {
+      setConfigManager(new ConfigManager());
+      orchestrator = createTestOrchestrator(
+        ['server-1', 'server-2'].map(id => ({ id, models: ['llama3:latest'] }))
+      );
+    });
+
+    afterEach(async () => {
+      vi.unstubAllGlobals();
+      await orchestrator.shutdown();
+      setConfigManager(new ConfigManager());
+    });
+
+    it('should retry on another server without penalizing the first', async () => {
+      const attempted: string[] = [];
+
+      const result = await orchestrator.tryRequestWithFailover('llama3:latest', server => {
+        attempted.push(server.id);
+        const output = attempted.length === 1 ? '{"name":"Ada"}' : '{"name":"Ada","age":36}';
+        validateStructuredOutput(output, personSchema);
+        return Promise.resolve(server.id);
+      });
+
+      expect(attempted).toHaveLength(2);
+      expect(result).toBe(attempted[1]);
+      expect(attempted[1]).not.toBe(attempted[0]);
+      expect(orchestrator.isInCooldown(attempted[0], 'llama3:latest')).toBe(false);
+      expect(orchestrator.isCircuitAllowed(attempted[0])).toBe(true);
+    });
+
+    it('should fail with the schema error when no server conforms', async () => {
+      await expect(
+        orchestrator.tryRequestWithFailover('llama3:latest', () => {
+          validateStructuredOutput('{}', personSchema);
+          return Promise.resolve('unreachable');
+        })
+      ).rejects.toThrow(/does not match the requested JSON schema/);
+
+      for (const id of ['server-1', 'server-2']) {
+        expect(orchestrator.isInCooldown(id, 'llama3:latest')).toBe(false);
+      }
+    });
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * tool-calling.test.ts
+ * Tests for OpenAI tool_choice and parallel_tool_calls handling and tool message translation
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  ollamaResponseToOpenAI,
+  ollamaToolCallsToOpenAI,
+  openAIRequestToOllama,
+} from '../../src/utils/protocol-translation.js';
+import {
+  limitToolCalls,
+  maxToolCalls,
+  toolsForChoice,
+  validateToolChoice,
+} from '../../src/utils/tool-calling.js';
+
+const tool = (name: string) => ({ type: 'function', function: { name, parameters: {} } });
+const tools = [tool('get_weather'), tool('get_time')];
+
+describe('Tool Calling Tests', () => {
+  describe('validateToolChoice', () => {
+    it('should accept the standard choices', () => {
+      expect(validateToolChoice(tools, undefined)).toBeUndefined();
+      expect(validateToolChoice(tools, 'auto')).toBeUndefined();
+      expect(validateToolChoice(tools, 'required')).toBeUndefined();
+      expect(validateToolChoice(tools, 'none')).toBeUndefined();
+      expect(
+        validateToolChoice(tools, { type: 'function', function: { name: 'get_time' } })
+      ).toBeUndefined();
+    });
+
+    it('should reject unknown or malformed choices', () => {
+      expect(validateToolChoice(tools, 'always')).toMatch(/Invalid tool_choice 'always'/);
+      expect(validateToolChoice(tools, { type: 'function' })).toMatch(/Invalid tool_choice/);
+      expect(
+        validateToolChoice(tools, { type: 'function', function: { name: 'get_date' } })
+      ).toMatch(/'get_date', which is not in tools/);
+    });
+
+    it('should require tools unless the choice is none or auto', () => {
+      expect(validateToolChoice(undefined, 'none')).toBeUndefined();
+      expect(validateToolChoice([], 'auto')).toBeUndefined();
+      expect(validateToolChoice(undefined, 'required')).toMatch(/only allowed when tools/);
+    });
+  });
+
+  describe('toolsForChoice', () => {
+    it('should narrow the tool list to the choice', () => {
+      expect(toolsForChoice(tools, 'auto')).toBe(tools);
+      expect(toolsForChoice(tools, 'required')).toBe(tools);
+      expect(toolsForChoice(tools, 'none')).toBeUndefined();
+      expect(toolsForChoice(tools, { type: 'function', function: { name: 'get_time' } })).toEqual([
+        tool('get_time'),
+      ]);
+      expect(toolsForChoice([], 'auto')).toBeUndefined();
+    });
+  });
+
+  describe('parallel tool calls', () => {
+    it('should allow one call only when parallel_tool_calls is false', () => {
+      expect(maxToolCalls(false)).toBe(1);
+      expect(maxToolCalls(true)).toBe(Infinity);
+      expect(maxToolCalls(undefined)).toBe(Infinity);
+    });
+
+    it('should trim completions to the first call', () => {
+      const completion = {
+        choices: [{ message: { role: 'assistant', content: null, tool_calls: [1, 2, 3] } }],
+      };
+
+      limitToolCalls(completion, true);
+      expect(completion.choices[0].message.tool_calls).toHaveLength(3);
+
+      limitToolCalls(completion, false);
+      expect(completion.choices[0].message.tool_calls).toEqual([1]);
+    });
+  });
+
+  describe('Ollama tool calls to OpenAI', () => {
+    it('should number calls from the given index', () => {
+      const calls = ollamaToolCallsToOpenAI(
+        [{ function: { name: 'get_weather', arguments: { city: 'Paris' } } }],
+        'chatcmpl-1',
+        2
+      );
+
+      expect(calls).toEqual([
+        {
+          index: 2,
+          id: 'call_chatcmpl-1_2',
+          type: 'function',
+          function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+        },
+      ]);
+    });
+
+    it('should build a spec-shaped non-streaming completion', () => {
+      const completion = ollamaResponseToOpenAI(
+        'chat',
+        {
+          message: {
+            role: 'assistant',
+            content: '',
+            tool_calls: [
+              { function: { name: 'get_weather', arguments: { city: 'London' } } },
+              { function: { name: 'get_time', arguments: {} } },
+            ],
+          },
+          done: true,
+        },
+        'chatcmpl-1',
+        'llama3'
+      ) as any;
+
+      const choice = completion.choices[0];
+      expect(choice.finish_reason).toBe('tool_calls');
+      expect(choice.message.content).toBeNull();
+      expect(choice.message.tool_calls.map((c: any) => c.id)).toEqual([
+        'call_chatcmpl-1_0',
+        'call_chatcmpl-1_1',
+      ]);
+      expect(choice.message.tool_calls[0]).not.toHaveProperty('index');
+    });
+  });
+
+  describe('OpenAI requests to Ollama', () => {
+    const conversation = [
+      { role: 'user', content: 'Weather in London?' },
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [
+          {
+            id: 'call_1',
+            type: 'function',
+            function: { name: 'get_weather', arguments: '{"city":"London"}' },
+          },
+        ],
+      },
+      { role: 'tool', tool_call_id: 'call_1', content: '12°C' },
+      { role: 'tool', name: 'get_time', content: '10:00' },
+    ];
+
+    it('should translate tool calls and results', () => {
+      const { body } = openAIRequestToOllama(
+        'chat',
+        { model: 'llama3', messages: conversation, tools },
+        false
+      );
+      const messages = body.messages as any[];
+
+      expect(messages[1]).toEqual({
+        role: 'assistant',
+        content: '',
+        tool_calls: [{ function: { name: 'get_weather', arguments: { city: 'London' } } }],
+      });
+      expect(messages[2]).toEqual({ role: 'tool', content: '12°C', tool_name: 'get_weather' });
+      expect(messages[3].tool_name).toBe('get_time');
+    });
+
+    it('should apply tool_choice to the tools Ollama sees', () => {
+      const forced = openAIRequestToOllama(
+        'chat',
+        {
+          model: 'llama3',
+          messages: conversation,
+          tools,
+          tool_choice: { type: 'function', function: { name: 'get_time' } },
+        },
+        false
+      );
+      const none = openAIRequestToOllama(
+        'chat',
+        { model: 'llama3', messages: conversation, tools, tool_choice: 'none' },
+        false
+      );
+
+      expect(forced.body.tools).toEqual([tool('get_time')]);
+      expect(none.body).not.toHaveProperty('tools');
+    });
+  });
+});
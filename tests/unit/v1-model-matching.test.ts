@@ -3,8 +3,9 @@
  * Tests for REC-47 (v1Models for OpenAI servers) and REC-48 (resolveModelName in failover)
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 
+import { ConfigManager, getConfigManager, setConfigManager } from '../../src/config/config.js';
 import { AIOrchestrator } from '../../src/orchestrator.js';
 import { resetInFlightManager } from '../../src/utils/in-flight-manager.js';
 
@@ -27,6 +28,10 @@ describe('Wave 3 REC-47/48: v1Models matching and resolveModelName in failover',
     });
   });
 
+  afterEach(() => {
+    setConfigManager(new ConfigManager());
+  });
+
   describe('REC-47: OpenAI server uses v1Models list for matching', () => {
     it('should select server with matching v1Models for openai capability request', async () => {
       orchestrator.addServer({
@@ -60,7 +65,9 @@ describe('Wave 3 REC-47/48: v1Models matching and resolveModelName in failover',
       expect(serversTried).toContain('openai-server');
     });
 
-    it('should NOT select server with only v1Models when ollama capability required', async () => {
+    it('should NOT select server with only v1Models when ollama capability required and translation is disabled', async () => {
+      setConfigManager(new ConfigManager());
+      getConfigManager().updateConfig({ enableProtocolTranslation: false });
       orchestrator.addServer({
         id: 'openai-only-server',
         url: 'http://localhost:8080',
@@ -0,0 +1,260 @@
+/**
+ * vision.test.ts
+ * Tests for image input: vision limits, remote image fetching, translation to Ollama images
+ * and routing to servers whose model reports the vision capability
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { DEFAULT_CONFIG, type VisionConfig } from '../../src/config/config.js';
+import { AIOrchestrator } from '../../src/orchestrator.js';
+import { resetInFlightManager } from '../../src/utils/in-flight-manager.js';
+import {
+  ModelCapabilities,
+  parseCapabilities,
+  resetModelCapabilities,
+} from '../../src/utils/model-capabilities.js';
+import { openAIRequestToOllama } from '../../src/utils/protocol-translation.js';
+import { VISION_CAPABILITY, prepareImageInputs } from '../../src/utils/vision.js';
+
+const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUg==';
+
+const visionConfig = (overrides: Partial<VisionConfig> = {}): VisionConfig => ({
+  ...DEFAULT_CONFIG.vision,
+  ...overrides,
+});
+
+const imageMessage = (...urls: string[]) => ({
+  role: 'user',
+  content: [
+    { type: 'text', text: 'What is in this picture?' },
+    ...urls.map(url => ({ type: 'image_url', image_url: { url } })),
+  ],
+});
+
+/** Fake fetch answering /api/show per server; anything else (health checks) never settles */
+const showFetch = (capabilities: Record<string, string[]>) =>
+  vi.fn((url: string) => {
+    const server = Object.keys(capabilities).find(id => url.startsWith(`http://${id}:`));
+    if (server && url.endsWith('/api/show')) {
+      return Promise.resolve(
+        new Response(JSON.stringify({ capabilities: capabilities[server] }), {
+          headers: { 'Content-Type': 'application/json' },
+        })
+      );
+    }
+    return new Promise(() => {});
+  });
+
+describe('Vision Tests', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('prepareImageInputs', () => {
+    it('should count data URL images and leave them as they are', async () => {
+      const messages = [imageMessage(`data:image/png;base64,${PNG_BASE64}`)];
+
+      expect(await prepareImageInputs(messages, visionConfig())).toBe(1);
+      expect(messages[0].content[1]).toEqual({
+        type: 'image_url',
+        image_url: { url: `data:image/png;base64,${PNG_BASE64}` },
+      });
+      expect(await prepareImageInputs([{ role: 'user', content: 'hi' }], visionConfig())).toBe(0);
+    });
+
+    it('should enforce the image count and size limits', async () => {
+      const url = `data:image/png;base64,${PNG_BASE64}`;
+
+      expect(
+        await prepareImageInputs([imageMessage(url, url)], visionConfig({ maxImages: 1 }))
+      ).toMatchObject({ code: 'too_many_images' });
+      expect(
+        await prepareImageInputs([imageMessage(url)], visionConfig({ maxImageBytes: 4 }))
+      ).toMatchObject({ code: 'image_too_large' });
+    });
+
+    it('should reject malformed and non-image data URLs', async () => {
+      expect(
+        await prepareImageInputs([imageMessage('data:text/plain;base64,aGk=')], visionConfig())
+      ).toMatchObject({ code: 'invalid_image_url' });
+      expect(
+        await prepareImageInputs([imageMessage('ftp://example.com/cat.png')], visionConfig())
+      ).toMatchObject({ code: 'invalid_image_url' });
+    });
+
+    it('should reject remote URLs unless they are allowed', async () => {
+      const fetchMock = vi.fn();
+      vi.stubGlobal('fetch', fetchMock);
+
+      expect(
+        await prepareImageInputs([imageMessage('https://example.com/cat.png')], visionConfig())
+      ).toMatchObject({ code: 'remote_images_disabled' });
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should fetch allowed remote images into data URLs', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(
+          async () =>
+            new Response(Buffer.from('png-bytes'), { headers: { 'Content-Type': 'image/png' } })
+        )
+      );
+      const messages = [imageMessage('https://example.com/cat.png')];
+
+      expect(await prepareImageInputs(messages, visionConfig({ allowRemoteImages: true }))).toBe(1);
+      expect(messages[0].content[1]).toEqual({
+        type: 'image_url',
+        image_url: { url: `data:image/png;base64,${Buffer.from('png-bytes').toString('base64')}` },
+      });
+    });
+
+    it('should stop reading a remote image without Content-Length once it is too large', async () => {
+      let chunksSent = 0;
+      let cancelled = false;
+      const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          chunksSent++;
+          controller.enqueue(new Uint8Array(1024));
+        },
+        cancel() {
+          cancelled = true;
+        },
+      });
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async () => new Response(body, { headers: { 'Content-Type': 'image/png' } }))
+      );
+
+      expect(
+        await prepareImageInputs(
+          [imageMessage('https://example.com/huge.png')],
+          visionConfig({ allowRemoteImages: true, maxImageBytes: 4096 })
+        )
+      ).toMatchObject({ code: 'image_too_large' });
+      expect(cancelled).toBe(true);
+      expect(chunksSent).toBeLessThan(10);
+    });
+
+    it('should reject remote responses that are not images', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async () => new Response('<html>', { headers: { 'Content-Type': 'text/html' } }))
+      );
+
+      expect(
+        await prepareImageInputs(
+          [imageMessage('https://example.com/page')],
+          visionConfig({ allowRemoteImages: true })
+        )
+      ).toMatchObject({ code: 'invalid_image' });
+    });
+
+    it('should become base64 images in translated Ollama chat requests', () => {
+      const translated = openAIRequestToOllama(
+        'chat',
+        { model: 'llava', messages: [imageMessage(`data:image/png;base64,${PNG_BASE64}`)] },
+        false
+      );
+
+      expect(translated.body.messages).toEqual([
+        { role: 'user', content: 'What is in this picture?', images: [PNG_BASE64] },
+      ]);
+    });
+  });
+
+  describe('model capabilities', () => {
+    it('should read capabilities, falling back to vision model families', () => {
+      expect(parseCapabilities({ capabilities: ['completion', 'vision'] })).toEqual([
+        'completion',
+        'vision',
+      ]);
+      expect(parseCapabilities({ details: { families: ['llama', 'clip'] } })).toContain('vision');
+      expect(parseCapabilities({ details: { families: ['llama'] } })).not.toContain('vision');
+    });
+
+    it('should cache lookups and treat failures as no capabilities', async () => {
+      const fetchMock = showFetch({ 'server-1': ['completion', 'vision'] });
+      vi.stubGlobal('fetch', fetchMock);
+      const capabilities = new ModelCapabilities();
+      const server = (id: string) =>
+        ({ id, url: `http://${id}:11434`, healthy: true, models: ['llava'] }) as any;
+
+      fetchMock.mockImplementationOnce(async () => new Response('not found', { status: 404 }));
+      expect(await capabilities.get(server('server-2'), 'llava')).toEqual([]);
+
+      const servers = [server('server-1'), server('server-1b')];
+      servers[1].supportsOllama = false;
+      const capable = await capabilities.filterServers(servers, [VISION_CAPABILITY], () => 'llava');
+      await capabilities.get(server('server-1'), 'llava');
+
+      expect(capable.map(s => s.id)).toEqual(['server-1']);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('vision routing', () => {
+    let orchestrator: AIOrchestrator;
+
+    beforeEach(() => {
+      resetInFlightManager();
+      resetModelCapabilities();
+      vi.stubGlobal(
+        'fetch',
+        showFetch({ 'server-1': ['completion'], 'server-2': ['completion', 'vision'] })
+      );
+
+      orchestrator = new AIOrchestrator(
+        undefined,
+        undefined,
+        { ...DEFAULT_CONFIG.healthCheck, enabled: false },
+        { ...DEFAULT_CONFIG, enableQueue: false, enablePersistence: false }
+      );
+      for (const id of ['server-1', 'server-2']) {
+        orchestrator.addServer({ id, url: `http://${id}:11434` });
+        const server = orchestrator.getServer(id)!;
+        server.healthy = true;
+        server.models = ['llava:latest'];
+      }
+    });
+
+    afterEach(async () => {
+      await orchestrator.shutdown();
+    });
+
+    it('should only route image requests to servers whose model has vision', async () => {
+      const tried: string[] = [];
+      await orchestrator
+        .tryRequestWithFailover(
+          'llava:latest',
+          async server => {
+            tried.push(server.id);
+            throw new Error('connection refused');
+          },
+          false,
+          'generate',
+          undefined,
+          { modelCapabilities: [VISION_CAPABILITY] }
+        )
+        .catch(() => undefined);
+
+      expect([...new Set(tried)]).toEqual(['server-2']);
+    });
+
+    it('should fail when no server has a vision-capable copy of the model', async () => {
+      orchestrator.getServer('server-2')!.healthy = false;
+
+      await expect(
+        orchestrator.tryRequestWithFailover(
+          'llava:latest',
+          async server => server.id,
+          false,
+          'generate',
+          undefined,
+          { modelCapabilities: [VISION_CAPABILITY] }
+        )
+      ).rejects.toThrow("No available server supports 'vision' for model 'llava:latest'");
+    });
+  });
+});
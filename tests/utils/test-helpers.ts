@@ -5,7 +5,13 @@
 
 import { createServer, Server } from 'http';
 
-import type { AIServer } from '../../src/orchestrator.types';
+import type { Request } from 'express';
+import { vi } from 'vitest';
+
+import { DEFAULT_CONFIG, type OrchestratorConfig } from '../../src/config/config.js';
+import { AIOrchestrator } from '../../src/orchestrator.js';
+import type { AIServer } from '../../src/orchestrator.types.js';
+import { resetInFlightManager } from '../../src/utils/in-flight-manager.js';
 import { mockResponses, mockModels } from '../fixtures';
 
 // Track created mock servers for cleanup
@@ -134,7 +140,9 @@ export const assertions = {
     for (const [key, value] of Object.entries(expected)) {
       const actual = (server as unknown as Record<string, unknown>)[key];
       if (actual !== value) {
-        throw new Error(`Expected server.${key} to be ${value}, but got ${actual}`);
+        throw new Error(
+          `Expected server.${key} to be ${JSON.stringify(value)}, but got ${JSON.stringify(actual)}`
+        );
       }
     }
   },
@@ -210,6 +218,48 @@ export async function measureTime<T>(
   return { result, duration };
 }
 
+/**
+ * Create a minimal Express request carrying only headers and query parameters
+ */
+export function createRequest(
+  headers: Record<string, string> = {},
+  query: Record<string, string> = {}
+): Request {
+  return { headers, query } as unknown as Request;
+}
+
+/** A server for createTestOrchestrator; fields beyond id, url and limits describe its state */
+export type TestServer = Partial<AIServer> & { id: string };
+
+/**
+ * Create an AIOrchestrator for routing tests, with a fresh in-flight manager, health checks,
+ * persistence and the admission queue off (`config` overrides any of it), and `servers` added
+ * healthy. Global fetch is stubbed with a request that never settles, so the background health
+ * check cannot mark the servers unhealthy; undo it with vi.unstubAllGlobals().
+ */
+export function createTestOrchestrator(
+  servers: TestServer[],
+  config: Partial<OrchestratorConfig> = {}
+): AIOrchestrator {
+  resetInFlightManager();
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(() => new Promise(() => {}))
+  );
+
+  const orchestrator = new AIOrchestrator(
+    undefined,
+    undefined,
+    { ...DEFAULT_CONFIG.healthCheck, enabled: false },
+    { ...DEFAULT_CONFIG, enableQueue: false, enablePersistence: false, ...config }
+  );
+  for (const { id, url = `http://${id}:11434`, maxConcurrency, labels, ...state } of servers) {
+    orchestrator.addServer({ id, url, type: 'ollama', maxConcurrency, labels });
+    Object.assign(orchestrator.getServer(id)!, { healthy: true, ...state });
+  }
+  return orchestrator;
+}
+
 /**
  * Create a delayed promise
  */